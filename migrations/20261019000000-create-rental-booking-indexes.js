@@ -0,0 +1,16 @@
+module.exports = {
+  async up(db) {
+    const rentalsCollection = db.collection("rentals");
+
+    // Create compound index used by booking overlap checks
+    await rentalsCollection.createIndex(
+      { "assets.assetId": 1, status: 1, startDate: 1, endDate: 1 },
+      { name: "assets_assetId_status_period_1" }
+    );
+  },
+
+  async down(db) {
+    const rentalsCollection = db.collection("rentals");
+    await rentalsCollection.dropIndex("assets_assetId_status_period_1").catch(() => {});
+  },
+};
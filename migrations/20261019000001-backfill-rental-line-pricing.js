@@ -0,0 +1,91 @@
+/**
+ * Migration: Backfill per-asset line pricing on rentals
+ *
+ * Rentals used to carry a single dailyRate for the whole agreement. Each asset
+ * line now snapshots its own productName, dailyRate, insuranceFee, and
+ * lineTotal. Existing lines get the old rate split evenly across all rented
+ * units, and the old totalAmount split the same way, so line totals add up to
+ * the rental total. Lines that already have a tiered price breakdown keep its
+ * line total.
+ */
+
+module.exports = {
+  async up(db) {
+    const rentalsCollection = db.collection("rentals");
+    const rentalAssetsCollection = db.collection("rentalassets");
+    const productsCollection = db.collection("products");
+
+    const rentals = await rentalsCollection
+      .find({ "assets.lineTotal": { $exists: false } })
+      .toArray();
+
+    let updated = 0;
+    for (const rental of rentals) {
+      const assetIds = rental.assets.map((item) => item.assetId);
+      const assets = await rentalAssetsCollection
+        .find({ _id: { $in: assetIds } }, { projection: { assetCode: 1, productId: 1 } })
+        .toArray();
+      const products = await productsCollection
+        .find(
+          { _id: { $in: assets.map((asset) => asset.productId) } },
+          { projection: { name: 1, insuranceFee: 1 } }
+        )
+        .toArray();
+      const assetById = new Map(assets.map((asset) => [asset._id.toString(), asset]));
+      const productById = new Map(products.map((product) => [product._id.toString(), product]));
+
+      const totalQuantity = rental.assets.reduce((sum, item) => sum + (item.quantity || 1), 0);
+      const dailyRatePerUnit = totalQuantity > 0 ? (rental.dailyRate || 0) / totalQuantity : 0;
+      const totalPerUnit = totalQuantity > 0 ? (rental.totalAmount || 0) / totalQuantity : 0;
+
+      const lines = rental.assets.map((item) => {
+        const asset = assetById.get(item.assetId.toString());
+        const product = asset && productById.get(asset.productId.toString());
+        const quantity = item.quantity || 1;
+        const line = {
+          ...item,
+          productName: (product && product.name) || (asset && asset.assetCode) || "-",
+          dailyRate: item.dailyRate ?? (item.pricing ? item.pricing.dailyRate : dailyRatePerUnit),
+          insuranceFee: item.insuranceFee ?? ((product && product.insuranceFee) || 0),
+          lineTotal:
+            item.pricing && item.pricing.lineTotal !== undefined
+              ? item.pricing.lineTotal
+              : totalPerUnit * quantity,
+        };
+        if (line.pricing) {
+          line.pricing = { ...line.pricing };
+          delete line.pricing.lineTotal;
+        }
+        return line;
+      });
+
+      await rentalsCollection.updateOne({ _id: rental._id }, { $set: { assets: lines } });
+      updated++;
+    }
+
+    console.log(`✅ Backfilled line pricing on ${updated} rentals`);
+  },
+
+  async down(db) {
+    const rentalsCollection = db.collection("rentals");
+
+    const rentals = await rentalsCollection.find({ "assets.lineTotal": { $exists: true } }).toArray();
+
+    for (const rental of rentals) {
+      const lines = rental.assets.map((item) => {
+        const line = { ...item };
+        if (line.pricing) {
+          line.pricing = { ...line.pricing, lineTotal: line.lineTotal };
+        }
+        delete line.productName;
+        delete line.dailyRate;
+        delete line.insuranceFee;
+        delete line.lineTotal;
+        return line;
+      });
+      await rentalsCollection.updateOne({ _id: rental._id }, { $set: { assets: lines } });
+    }
+
+    console.log(`✅ Removed line pricing from ${rentals.length} rentals`);
+  },
+};
@@ -0,0 +1,21 @@
+module.exports = {
+  async up(db) {
+    const jobRunsCollection = db.collection("jobruns");
+
+    // Create compound index for listing a job's runs (most recent first)
+    await jobRunsCollection.createIndex({ jobName: 1, startedAt: -1 });
+
+    const rentalsCollection = db.collection("rentals");
+
+    // Create compound index used by the overdue penalty job and overdue list
+    await rentalsCollection.createIndex({ status: 1, isOverdue: 1, endDate: 1 });
+  },
+
+  async down(db) {
+    const jobRunsCollection = db.collection("jobruns");
+    await jobRunsCollection.dropIndex("jobName_1_startedAt_-1").catch(() => {});
+
+    const rentalsCollection = db.collection("rentals");
+    await rentalsCollection.dropIndex("status_1_isOverdue_1_endDate_1").catch(() => {});
+  },
+};
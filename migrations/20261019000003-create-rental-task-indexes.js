@@ -0,0 +1,19 @@
+module.exports = {
+  async up(db) {
+    const rentalTasksCollection = db.collection("rentaltasks");
+
+    // Create index on rentalId (tasks of a rental)
+    await rentalTasksCollection.createIndex({ rentalId: 1 });
+
+    // Create compound indexes for daily route sheets
+    await rentalTasksCollection.createIndex({ scheduledStart: 1, status: 1 });
+    await rentalTasksCollection.createIndex({ assignedTo: 1, scheduledStart: 1 });
+  },
+
+  async down(db) {
+    const rentalTasksCollection = db.collection("rentaltasks");
+    await rentalTasksCollection.dropIndex("rentalId_1").catch(() => {});
+    await rentalTasksCollection.dropIndex("scheduledStart_1_status_1").catch(() => {});
+    await rentalTasksCollection.dropIndex("assignedTo_1_scheduledStart_1").catch(() => {});
+  },
+};
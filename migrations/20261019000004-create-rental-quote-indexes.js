@@ -0,0 +1,21 @@
+module.exports = {
+  async up(db) {
+    const rentalQuotesCollection = db.collection("rentalquotes");
+
+    // Create unique index on quoteNumber
+    await rentalQuotesCollection.createIndex({ quoteNumber: 1 }, { unique: true });
+
+    // Create compound index for status filters (open/expired split on validUntil)
+    await rentalQuotesCollection.createIndex({ status: 1, validUntil: 1 });
+
+    // Create index on createdAt for sorting
+    await rentalQuotesCollection.createIndex({ createdAt: -1 });
+  },
+
+  async down(db) {
+    const rentalQuotesCollection = db.collection("rentalquotes");
+    await rentalQuotesCollection.dropIndex("quoteNumber_1").catch(() => {});
+    await rentalQuotesCollection.dropIndex("status_1_validUntil_1").catch(() => {});
+    await rentalQuotesCollection.dropIndex("createdAt_-1").catch(() => {});
+  },
+};
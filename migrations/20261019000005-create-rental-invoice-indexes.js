@@ -0,0 +1,36 @@
+module.exports = {
+  async up(db) {
+    const rentalInvoicesCollection = db.collection("rentalinvoices");
+
+    // Create unique index on invoiceNumber
+    await rentalInvoicesCollection.createIndex({ invoiceNumber: 1 }, { unique: true });
+
+    // Create unique compound index so each period of a rental is invoiced once
+    await rentalInvoicesCollection.createIndex({ rentalId: 1, periodStart: 1 }, { unique: true });
+
+    // Create compound index for finding unpaid invoices by due date
+    await rentalInvoicesCollection.createIndex({ status: 1, dueDate: 1 });
+
+    const rentalsCollection = db.collection("rentals");
+
+    // Existing rentals are billed once
+    await rentalsCollection.updateMany(
+      { billingCycle: { $exists: false } },
+      { $set: { billingCycle: "once" } }
+    );
+
+    // Create compound index used by the monthly invoice job
+    await rentalsCollection.createIndex({ status: 1, billingCycle: 1 });
+  },
+
+  async down(db) {
+    const rentalInvoicesCollection = db.collection("rentalinvoices");
+    await rentalInvoicesCollection.dropIndex("invoiceNumber_1").catch(() => {});
+    await rentalInvoicesCollection.dropIndex("rentalId_1_periodStart_1").catch(() => {});
+    await rentalInvoicesCollection.dropIndex("status_1_dueDate_1").catch(() => {});
+
+    const rentalsCollection = db.collection("rentals");
+    await rentalsCollection.dropIndex("status_1_billingCycle_1").catch(() => {});
+    await rentalsCollection.updateMany({}, { $unset: { billingCycle: "" } });
+  },
+};
@@ -0,0 +1,35 @@
+module.exports = {
+  async up(db) {
+    const rentalsCollection = db.collection("rentals");
+
+    // Existing rentals start with an empty payments ledger
+    await rentalsCollection.updateMany(
+      { payments: { $exists: false } },
+      { $set: { payments: [], paidAmount: 0 } }
+    );
+    await rentalsCollection.updateMany(
+      { invoicedAmount: { $exists: false } },
+      { $set: { invoicedAmount: 0 } }
+    );
+
+    // Monthly rentals owe what has been invoiced so far
+    const invoicedTotals = await db
+      .collection("rentalinvoices")
+      .aggregate([
+        { $match: { status: { $ne: "void" } } },
+        { $group: { _id: "$rentalId", total: { $sum: "$amount" } } },
+      ])
+      .toArray();
+    for (const { _id, total } of invoicedTotals) {
+      await rentalsCollection.updateOne({ _id }, { $set: { invoicedAmount: total } });
+    }
+  },
+
+  async down(db) {
+    const rentalsCollection = db.collection("rentals");
+    await rentalsCollection.updateMany(
+      {},
+      { $unset: { payments: "", paidAmount: "", invoicedAmount: "" } }
+    );
+  },
+};
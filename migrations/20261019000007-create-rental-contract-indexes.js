@@ -0,0 +1,21 @@
+module.exports = {
+  async up(db) {
+    const rentalContractsCollection = db.collection("rentalcontracts");
+
+    // Create unique compound index so each contract version of a rental is stored once
+    await rentalContractsCollection.createIndex({ rentalId: 1, version: 1 }, { unique: true });
+
+    const rentalContractTermsCollection = db.collection("rentalcontractterms");
+
+    // Create unique index on terms version
+    await rentalContractTermsCollection.createIndex({ version: 1 }, { unique: true });
+  },
+
+  async down(db) {
+    const rentalContractsCollection = db.collection("rentalcontracts");
+    await rentalContractsCollection.dropIndex("rentalId_1_version_1").catch(() => {});
+
+    const rentalContractTermsCollection = db.collection("rentalcontractterms");
+    await rentalContractTermsCollection.dropIndex("version_1").catch(() => {});
+  },
+};
@@ -0,0 +1,13 @@
+module.exports = {
+  async up(db) {
+    const rentalsCollection = db.collection("rentals");
+
+    // Create compound index used by the asset timeline window query
+    await rentalsCollection.createIndex({ status: 1, startDate: 1 });
+  },
+
+  async down(db) {
+    const rentalsCollection = db.collection("rentals");
+    await rentalsCollection.dropIndex("status_1_startDate_1").catch(() => {});
+  },
+};
@@ -0,0 +1,24 @@
+module.exports = {
+  async up(db) {
+    const notificationLogsCollection = db.collection("notificationlogs");
+
+    // Create compound index for listing a rental's messages
+    await notificationLogsCollection.createIndex({ rentalId: 1, createdAt: -1 });
+
+    // Create compound index used by the job to skip messages already sent
+    await notificationLogsCollection.createIndex({
+      rentalId: 1,
+      offsetDays: 1,
+      dueDate: 1,
+      status: 1,
+    });
+  },
+
+  async down(db) {
+    const notificationLogsCollection = db.collection("notificationlogs");
+    await notificationLogsCollection.dropIndex("rentalId_1_createdAt_-1").catch(() => {});
+    await notificationLogsCollection
+      .dropIndex("rentalId_1_offsetDays_1_dueDate_1_status_1")
+      .catch(() => {});
+  },
+};
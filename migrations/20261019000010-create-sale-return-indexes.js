@@ -0,0 +1,21 @@
+module.exports = {
+  async up(db) {
+    const saleReturnsCollection = db.collection("salereturns");
+
+    // Create unique index on creditNoteNumber
+    await saleReturnsCollection.createIndex({ creditNoteNumber: 1 }, { unique: true });
+
+    // Create compound index for listing a sale's returns
+    await saleReturnsCollection.createIndex({ saleId: 1, createdAt: 1 });
+
+    // Create index for summarising returns by period
+    await saleReturnsCollection.createIndex({ createdAt: -1 });
+  },
+
+  async down(db) {
+    const saleReturnsCollection = db.collection("salereturns");
+    await saleReturnsCollection.dropIndex("creditNoteNumber_1").catch(() => {});
+    await saleReturnsCollection.dropIndex("saleId_1_createdAt_1").catch(() => {});
+    await saleReturnsCollection.dropIndex("createdAt_-1").catch(() => {});
+  },
+};
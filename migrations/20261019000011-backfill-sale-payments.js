@@ -0,0 +1,53 @@
+module.exports = {
+  async up(db) {
+    const salesCollection = db.collection("sales");
+
+    // Existing paid amounts become a single payment in the new ledger
+    const sales = await salesCollection
+      .find({ payments: { $exists: false } })
+      .project({
+        paidAmount: 1,
+        totalAmount: 1,
+        paymentMethod: 1,
+        createdBy: 1,
+        updatedAt: 1,
+        createdAt: 1,
+      })
+      .toArray();
+
+    for (const sale of sales) {
+      const paidAmount = sale.paidAmount || 0;
+      const payments =
+        paidAmount > 0
+          ? [
+              {
+                amount: paidAmount,
+                method: sale.paymentMethod || "other",
+                paidAt: sale.updatedAt || sale.createdAt,
+                receivedBy: sale.createdBy,
+              },
+            ]
+          : [];
+      const paymentStatus =
+        paidAmount > 0 && paidAmount >= sale.totalAmount
+          ? "paid"
+          : paidAmount > 0
+            ? "partial"
+            : "pending";
+
+      await salesCollection.updateOne(
+        { _id: sale._id },
+        { $set: { payments, paidAmount, paymentStatus } }
+      );
+    }
+
+    // Create compound index for the receivables list
+    await salesCollection.createIndex({ paymentStatus: 1, createdAt: 1 });
+  },
+
+  async down(db) {
+    const salesCollection = db.collection("sales");
+    await salesCollection.dropIndex("paymentStatus_1_createdAt_1").catch(() => {});
+    await salesCollection.updateMany({}, { $unset: { payments: "" } });
+  },
+};
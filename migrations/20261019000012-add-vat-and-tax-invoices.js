@@ -0,0 +1,69 @@
+module.exports = {
+  async up(db) {
+    const salesCollection = db.collection("sales");
+    const rentalInvoicesCollection = db.collection("rentalinvoices");
+    const taxInvoicesCollection = db.collection("taxinvoices");
+
+    // Existing sales were priced without VAT; any manual tax stays on the sale
+    await salesCollection.updateMany({ vatMode: { $exists: false } }, [
+      {
+        $set: {
+          vatMode: "none",
+          vatRate: 0,
+          taxableAmount: {
+            $subtract: ["$totalAmount", { $ifNull: ["$tax", 0] }],
+          },
+          items: {
+            $map: {
+              input: "$items",
+              as: "item",
+              in: { $mergeObjects: ["$$item", { vatAmount: 0 }] },
+            },
+          },
+        },
+      },
+    ]);
+
+    // Existing rental invoices carry no VAT
+    await rentalInvoicesCollection.updateMany({ vatMode: { $exists: false } }, [
+      {
+        $set: {
+          vatMode: "none",
+          vatRate: 0,
+          vatAmount: 0,
+          taxableAmount: "$amount",
+          lines: {
+            $map: {
+              input: "$lines",
+              as: "line",
+              in: { $mergeObjects: ["$$line", { vatAmount: 0 }] },
+            },
+          },
+        },
+      },
+    ]);
+
+    // Create unique index on taxInvoiceNumber
+    await taxInvoicesCollection.createIndex({ taxInvoiceNumber: 1 }, { unique: true });
+
+    // One tax invoice per sale or rental invoice
+    await taxInvoicesCollection.createIndex({ sourceType: 1, sourceId: 1 }, { unique: true });
+
+    // Create index for listing tax invoices by date
+    await taxInvoicesCollection.createIndex({ issuedAt: -1 });
+  },
+
+  async down(db) {
+    const taxInvoicesCollection = db.collection("taxinvoices");
+    await taxInvoicesCollection.dropIndex("taxInvoiceNumber_1").catch(() => {});
+    await taxInvoicesCollection.dropIndex("sourceType_1_sourceId_1").catch(() => {});
+    await taxInvoicesCollection.dropIndex("issuedAt_-1").catch(() => {});
+
+    await db
+      .collection("sales")
+      .updateMany({}, { $unset: { vatMode: "", vatRate: "", taxableAmount: "" } });
+    await db
+      .collection("rentalinvoices")
+      .updateMany({}, { $unset: { vatMode: "", vatRate: "", vatAmount: "", taxableAmount: "" } });
+  },
+};
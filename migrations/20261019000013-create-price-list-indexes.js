@@ -0,0 +1,13 @@
+module.exports = {
+  async up(db) {
+    const priceListsCollection = db.collection("pricelists");
+
+    // Create compound index for finding the lists that apply
+    await priceListsCollection.createIndex({ isActive: 1, priority: -1 });
+  },
+
+  async down(db) {
+    const priceListsCollection = db.collection("pricelists");
+    await priceListsCollection.dropIndex("isActive_1_priority_-1").catch(() => {});
+  },
+};
@@ -0,0 +1,52 @@
+module.exports = {
+  async up(db) {
+    const salesCollection = db.collection("sales");
+    const promotionsCollection = db.collection("promotions");
+
+    // Existing sales were made without promotions
+    await salesCollection.updateMany({ promotionDiscount: { $exists: false } }, [
+      {
+        $set: {
+          promotionDiscount: 0,
+          items: {
+            $map: {
+              input: "$items",
+              as: "item",
+              in: {
+                $mergeObjects: ["$$item", { promotionDiscount: 0, appliedPromotions: [] }],
+              },
+            },
+          },
+        },
+      },
+    ]);
+
+    // Create index for the promotion cost report
+    await salesCollection.createIndex({ "items.appliedPromotions.promotionId": 1 });
+
+    // Create index for finding the promotions that apply
+    await promotionsCollection.createIndex({ isActive: 1, startDate: 1, endDate: 1 });
+
+    // Create unique index on couponCode (promotions without one are skipped)
+    await promotionsCollection.createIndex({ couponCode: 1 }, { unique: true, sparse: true });
+  },
+
+  async down(db) {
+    const salesCollection = db.collection("sales");
+    const promotionsCollection = db.collection("promotions");
+    await promotionsCollection.dropIndex("isActive_1_startDate_1_endDate_1").catch(() => {});
+    await promotionsCollection.dropIndex("couponCode_1").catch(() => {});
+    await salesCollection.dropIndex("items.appliedPromotions.promotionId_1").catch(() => {});
+
+    await salesCollection.updateMany({}, [
+      {
+        $unset: [
+          "promotionDiscount",
+          "couponCode",
+          "items.promotionDiscount",
+          "items.appliedPromotions",
+        ],
+      },
+    ]);
+  },
+};
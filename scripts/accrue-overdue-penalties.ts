@@ -0,0 +1,39 @@
+/**
+ * Mark the assets of started pending rentals as rented, then flag overdue
+ * rentals and accrue their penalties
+ * Run daily (e.g. from cron): npm run job:overdue
+ */
+
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import mongoose from "mongoose";
+
+async function accrueOverduePenalties() {
+  if (!process.env.MONGODB_URI) {
+    console.error("Please set MONGODB_URI environment variable");
+    process.exit(1);
+  }
+
+  // Imported after dotenv so the database connection sees MONGODB_URI
+  const { syncStartedRentalAssets } =
+    await import("../src/lib/trpc/services/rental-booking.service");
+  const { runOverduePenaltyJob } = await import("../src/lib/trpc/services/rental-overdue.service");
+
+  console.log("Syncing assets of started rentals...");
+  const started = await syncStartedRentalAssets();
+  console.log(`Synced assets of ${started} started pending rentals`);
+
+  console.log("Running overdue penalty job...");
+  const run = await runOverduePenaltyJob("cli");
+  console.log(`Checked ${run.itemsProcessed} rentals, ${run.itemsFlagged} overdue`);
+  console.log(`Penalty accrued: ${run.amountAccrued.toLocaleString("th-TH")}`);
+
+  await mongoose.disconnect();
+}
+
+accrueOverduePenalties().catch(async (error) => {
+  console.error("Error:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
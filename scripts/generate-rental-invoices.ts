@@ -0,0 +1,32 @@
+/**
+ * Issue monthly invoices for long-term rentals
+ * Run daily (e.g. from cron): npm run job:invoices
+ */
+
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import mongoose from "mongoose";
+
+async function generateRentalInvoices() {
+  if (!process.env.MONGODB_URI) {
+    console.error("Please set MONGODB_URI environment variable");
+    process.exit(1);
+  }
+
+  // Imported after dotenv so the database connection sees MONGODB_URI
+  const { runRentalInvoiceJob } = await import("../src/lib/trpc/services/rental-invoice.service");
+
+  console.log("Running rental invoice job...");
+  const run = await runRentalInvoiceJob("cli");
+  console.log(`Checked ${run.itemsProcessed} rentals, ${run.itemsFlagged} invoices issued`);
+  console.log(`Amount invoiced: ${run.amountAccrued.toLocaleString("th-TH")}`);
+
+  await mongoose.disconnect();
+}
+
+generateRentalInvoices().catch(async (error) => {
+  console.error("Error:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
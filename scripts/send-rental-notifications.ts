@@ -0,0 +1,32 @@
+/**
+ * Send rental return reminders and overdue notices
+ * Run daily (e.g. from cron): npm run job:notifications
+ */
+
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import mongoose from "mongoose";
+
+async function sendRentalNotifications() {
+  if (!process.env.MONGODB_URI) {
+    console.error("Please set MONGODB_URI environment variable");
+    process.exit(1);
+  }
+
+  // Imported after dotenv so the database connection and notifier config see the environment
+  const { runRentalNotificationJob } =
+    await import("../src/lib/trpc/services/rental-notification.service");
+
+  console.log("Running rental notification job...");
+  const run = await runRentalNotificationJob("cli");
+  console.log(`Checked ${run.itemsProcessed} rentals, ${run.itemsFlagged} messages sent`);
+
+  await mongoose.disconnect();
+}
+
+sendRentalNotifications().catch(async (error) => {
+  console.error("Error:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
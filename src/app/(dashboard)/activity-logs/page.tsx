@@ -33,6 +33,10 @@ export default function ActivityLogsPage() {
       buyStock: t.activityLog.entityTypeBuyStock,
       rentalAsset: t.activityLog.entityTypeRentalAsset,
       rental: t.activityLog.entityTypeRental,
+      rentalQuote: t.activityLog.entityTypeRentalQuote,
+      contractTerms: t.activityLog.entityTypeContractTerms,
+      priceList: t.activityLog.entityTypePriceList,
+      promotion: t.activityLog.entityTypePromotion,
       user: t.activityLog.entityTypeUser,
     };
     return typeMap[type] || type;
@@ -51,7 +55,7 @@ export default function ActivityLogsPage() {
             >
               ทั้งหมด
             </Button>
-            {["product", "buyStock", "rentalAsset", "rental", "user"].map((type) => (
+            {["product", "buyStock", "rentalAsset", "rental", "rentalQuote", "contractTerms", "priceList", "promotion", "user"].map((type) => (
               <Button
                 key={type}
                 variant={entityTypeFilter === type ? "default" : "outline"}
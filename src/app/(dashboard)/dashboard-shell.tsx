@@ -22,9 +22,17 @@ import {
   ShoppingCart,
   Box,
   Calendar,
+  CalendarRange,
   FileText,
   Code2,
   Receipt,
+  Truck,
+  ClipboardList,
+  FileSignature,
+  BarChart3,
+  HandCoins,
+  Tags,
+  BadgePercent,
 } from "lucide-react";
 import type { Session } from "next-auth";
 import { useTranslation } from "@/lib/hooks/useTranslation";
@@ -75,9 +83,33 @@ export function DashboardShell({ children, session }: DashboardShellProps) {
                   <NavItem href="/rentals" icon={Calendar}>
                     {t.nav.rentals}
                   </NavItem>
+                  <NavItem href="/rental-calendar" icon={CalendarRange}>
+                    {t.nav.rentalCalendar}
+                  </NavItem>
+                  <NavItem href="/rental-reports" icon={BarChart3}>
+                    {t.nav.rentalReports}
+                  </NavItem>
+                  <NavItem href="/rental-quotes" icon={ClipboardList}>
+                    {t.nav.rentalQuotes}
+                  </NavItem>
+                  <NavItem href="/rental-tasks" icon={Truck}>
+                    {t.nav.rentalTasks}
+                  </NavItem>
+                  <NavItem href="/rental-contract-terms" icon={FileSignature}>
+                    {t.nav.rentalContractTerms}
+                  </NavItem>
                   <NavItem href="/sales" icon={Receipt}>
                     {t.nav.sales}
                   </NavItem>
+                  <NavItem href="/sale-receivables" icon={HandCoins}>
+                    {t.nav.saleReceivables}
+                  </NavItem>
+                  <NavItem href="/price-lists" icon={Tags}>
+                    {t.nav.priceLists}
+                  </NavItem>
+                  <NavItem href="/promotions" icon={BadgePercent}>
+                    {t.nav.promotions}
+                  </NavItem>
                 </>
               )}
               {isSuperAdmin && (
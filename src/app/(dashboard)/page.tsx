@@ -6,8 +6,24 @@ import {
   StatCardGrid,
   QuickActionCard,
 } from "@/components";
-import { ShieldCheck, Rocket, Package, ShoppingCart, Box, Calendar, Receipt } from "lucide-react";
+import {
+  ShieldCheck,
+  Rocket,
+  Package,
+  ShoppingCart,
+  Box,
+  Calendar,
+  Receipt,
+  AlarmClock,
+  Banknote,
+} from "lucide-react";
 import { api } from "@/lib/trpc/server";
+import type { OverdueRentalsDTO } from "@/lib/trpc/services/rental-overdue.service";
+
+/**
+ * Number of overdue rentals listed on the dashboard card
+ */
+const OVERDUE_PREVIEW_LIMIT = 5;
 
 export default async function DashboardPage() {
   const session = await auth();
@@ -22,18 +38,27 @@ export default async function DashboardPage() {
     sales: 0,
     lowStock: 0,
   };
+  let overdue: OverdueRentalsDTO = { totalPenalty: 0, rentals: [] };
 
   if (isAdmin) {
     try {
-      const [productsData, buyStockData, rentalAssetsData, rentalsData, salesData, lowStockData] =
-        await Promise.all([
-          api.product.list({ page: 1, limit: 1 }),
-          api.buyStock.list({ page: 1, limit: 1 }),
-          api.rentalAsset.list({ page: 1, limit: 1 }),
-          api.rental.list({ status: "active", page: 1, limit: 1 }),
-          api.sale.list({ page: 1, limit: 1 }),
-          api.buyStock.checkLowStock(),
-        ]);
+      const [
+        productsData,
+        buyStockData,
+        rentalAssetsData,
+        rentalsData,
+        salesData,
+        lowStockData,
+        overdueData,
+      ] = await Promise.all([
+        api.product.list({ page: 1, limit: 1 }),
+        api.buyStock.list({ page: 1, limit: 1 }),
+        api.rentalAsset.list({ page: 1, limit: 1 }),
+        api.rental.list({ status: "active", page: 1, limit: 1 }),
+        api.sale.list({ page: 1, limit: 1 }),
+        api.buyStock.checkLowStock(),
+        api.rental.overdue(),
+      ]);
 
       stats = {
         products: productsData?.total || 0,
@@ -43,6 +68,7 @@ export default async function DashboardPage() {
         sales: salesData?.total || 0,
         lowStock: lowStockData?.length || 0,
       };
+      overdue = overdueData;
     } catch {
       // Ignore errors if not authorized
     }
@@ -98,6 +124,48 @@ export default async function DashboardPage() {
           </StatCardGrid>
         )}
 
+        {/* Overdue Rentals - flagged by the overdue penalty job */}
+        {isAdmin && (
+          <StatCardGrid columns={2}>
+            <StatCard
+              label="การเช่าเกินกำหนด"
+              value={overdue.rentals.length}
+              icon={AlarmClock}
+              variant="indigo"
+            >
+              {overdue.rentals.length === 0 ? (
+                <p className="text-white/70">ไม่มีการเช่าเกินกำหนด</p>
+              ) : (
+                <ul className="space-y-1">
+                  {overdue.rentals.slice(0, OVERDUE_PREVIEW_LIMIT).map((rental) => (
+                    <li key={rental.id} className="flex justify-between gap-2">
+                      <span className="truncate">{rental.customerName}</span>
+                      <span className="shrink-0">เกิน {rental.daysLate} วัน</span>
+                    </li>
+                  ))}
+                  {overdue.rentals.length > OVERDUE_PREVIEW_LIMIT && (
+                    <li className="text-white/70">
+                      และอีก {overdue.rentals.length - OVERDUE_PREVIEW_LIMIT} รายการ
+                    </li>
+                  )}
+                </ul>
+              )}
+            </StatCard>
+            <StatCard
+              label="ค่าปรับเกินกำหนดสะสม"
+              value={`฿${overdue.totalPenalty.toLocaleString("th-TH")}`}
+              icon={Banknote}
+              variant="navy"
+            >
+              <p className="text-white/70">
+                {overdue.lastRunAt
+                  ? `คำนวณล่าสุด ${new Date(overdue.lastRunAt).toLocaleString("th-TH")}`
+                  : "ยังไม่เคยคำนวณค่าปรับ"}
+              </p>
+            </StatCard>
+          </StatCardGrid>
+        )}
+
         {/* Quick Actions */}
         {isAdmin && (
           <SectionCard title="การดำเนินการด่วน" description="เข้าถึงฟีเจอร์หลักได้อย่างรวดเร็ว">
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { PageHeader, SectionCard, Button, Badge } from "@/components";
+import { Loader2, Pencil, Plus, Tags, Trash2 } from "lucide-react";
+import type { PriceListDTO } from "@/lib/trpc/services/price-list.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { PriceListModal } from "./price-list-modal";
+
+const formatDate = (date?: Date) => (date ? new Date(date).toLocaleDateString("th-TH") : "");
+
+/**
+ * Price lists
+ *
+ * Sale prices that override Product.price for a period. New sales are
+ * charged from the highest-priority active list that applies on the day.
+ */
+export default function PriceListsPage() {
+  const t = useTranslation();
+  const [editing, setEditing] = useState<PriceListDTO | "new" | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: priceLists, isLoading, error } = trpc.priceList.list.useQuery();
+
+  const deleteMutation = trpc.priceList.delete.useMutation({
+    onSuccess: () => {
+      utils.priceList.list.invalidate();
+      utils.priceList.currentPrices.invalidate();
+      setDeleteConfirmId(null);
+    },
+  });
+
+  const formatPeriod = (priceList: PriceListDTO) =>
+    priceList.startDate || priceList.endDate
+      ? `${formatDate(priceList.startDate) || "..."} - ${formatDate(priceList.endDate) || "..."}`
+      : t.priceList.always;
+
+  return (
+    <>
+      <PageHeader title={t.nav.priceLists} description={t.priceList.priorityHint}>
+        <Button onClick={() => setEditing("new")}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t.priceList.create}
+        </Button>
+      </PageHeader>
+
+      <div className="p-6 space-y-6">
+        {(error || deleteMutation.error) && (
+          <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {(error || deleteMutation.error)?.message}
+          </div>
+        )}
+
+        <SectionCard title={t.priceList.title} icon={Tags}>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !priceLists || priceLists.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.priceList.noPriceLists}</p>
+          ) : (
+            <div className="overflow-x-auto border border-border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/40 text-muted-foreground">
+                  <tr>
+                    <th className="p-2 text-left">{t.priceList.name}</th>
+                    <th className="p-2 text-right">{t.priceList.priority}</th>
+                    <th className="p-2 text-left">{t.priceList.period}</th>
+                    <th className="p-2 text-right">{t.priceList.itemCount}</th>
+                    <th className="p-2 text-left">{t.common.status}</th>
+                    <th className="p-2 text-right">{t.common.actions}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {priceLists.map((priceList) => (
+                    <tr key={priceList.id} className="border-t border-border">
+                      <td className="p-2">
+                        <div className="font-semibold text-foreground">{priceList.name}</div>
+                        {priceList.description && (
+                          <div className="text-xs text-muted-foreground">
+                            {priceList.description}
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2 text-right">{priceList.priority}</td>
+                      <td className="p-2">{formatPeriod(priceList)}</td>
+                      <td className="p-2 text-right">{priceList.items.length}</td>
+                      <td className="p-2">
+                        <Badge variant="status" color={priceList.isActive ? "success" : "warning"}>
+                          {priceList.isActive ? t.priceList.isActive : t.priceList.inactive}
+                        </Badge>
+                      </td>
+                      <td className="p-2">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setEditing(priceList)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeleteConfirmId(priceList.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-error" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </SectionCard>
+      </div>
+
+      {editing && (
+        <PriceListModal
+          priceList={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {deleteConfirmId && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card border border-border rounded-lg p-6 w-full max-w-md shadow-xl">
+            <h2 className="text-xl font-bold text-foreground mb-4">{t.priceList.deleteConfirm}</h2>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDeleteConfirmId(null)}>
+                {t.common.cancel}
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate({ id: deleteConfirmId })}
+              >
+                {t.common.delete}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
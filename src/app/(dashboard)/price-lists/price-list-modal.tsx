@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Plus, Trash2, X } from "lucide-react";
+import type { PriceListItem } from "@/lib/trpc/schemas";
+import type { PriceListDTO } from "@/lib/trpc/services/price-list.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+interface PriceListModalProps {
+  priceList: PriceListDTO | null;
+  onClose: () => void;
+}
+
+const toDateInput = (date?: Date) => (date ? new Date(date).toISOString().slice(0, 10) : "");
+
+/**
+ * Create or edit a price list
+ *
+ * Prices are set per buy-stock product. Saving replaces the whole item list.
+ */
+export function PriceListModal({ priceList, onClose }: PriceListModalProps) {
+  const t = useTranslation();
+  const [name, setName] = useState(priceList?.name ?? "");
+  const [description, setDescription] = useState(priceList?.description ?? "");
+  const [isActive, setIsActive] = useState(priceList?.isActive ?? true);
+  const [priority, setPriority] = useState(priceList?.priority ?? 0);
+  const [startDate, setStartDate] = useState(toDateInput(priceList?.startDate));
+  const [endDate, setEndDate] = useState(toDateInput(priceList?.endDate));
+  const [items, setItems] = useState<PriceListItem[]>(
+    priceList?.items.map((item) => ({ productId: item.productId, price: item.price })) ?? []
+  );
+
+  const { data: products } = trpc.product.list.useQuery({
+    stockType: "buy",
+    page: 1,
+    limit: 100,
+  });
+
+  const utils = trpc.useUtils();
+  const onSuccess = () => {
+    utils.priceList.list.invalidate();
+    utils.priceList.currentPrices.invalidate();
+    onClose();
+  };
+  const createMutation = trpc.priceList.create.useMutation({ onSuccess });
+  const updateMutation = trpc.priceList.update.useMutation({ onSuccess });
+  const error = createMutation.error || updateMutation.error;
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const updateItem = (index: number, item: Partial<PriceListItem>) => {
+    setItems((prev) => prev.map((current, i) => (i === index ? { ...current, ...item } : current)));
+  };
+
+  const submit = () => {
+    const data = {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      isActive,
+      priority,
+      items: items.filter((item) => item.productId),
+    };
+
+    if (priceList) {
+      updateMutation.mutate({
+        id: priceList.id,
+        ...data,
+        startDate: startDate ? new Date(startDate) : null,
+        endDate: endDate ? new Date(endDate) : null,
+      });
+    } else {
+      createMutation.mutate({
+        ...data,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined,
+      });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-foreground">
+            {priceList ? t.priceList.edit : t.priceList.create}
+          </h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {error.message}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.priceList.name}
+              </label>
+              <Input value={name} maxLength={100} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.priceList.priority}
+              </label>
+              <Input
+                type="number"
+                step="1"
+                value={priority}
+                title={t.priceList.priorityHint}
+                onChange={(e) => setPriority(parseInt(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+              {t.priceList.description}
+            </label>
+            <Textarea
+              value={description}
+              maxLength={500}
+              rows={2}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.priceList.startDate}
+              </label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.priceList.endDate}
+              </label>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-foreground py-2">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+              />
+              {t.priceList.isActive}
+            </label>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-semibold text-muted-foreground">
+                {t.priceList.items}
+              </label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setItems((prev) => [...prev, { productId: "", price: 0 }])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {t.priceList.addItem}
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {items.map((item, index) => {
+                const product = products?.products.find((p) => p.id === item.productId);
+                return (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                      value={item.productId}
+                      onChange={(e) => updateItem(index, { productId: e.target.value })}
+                      className="col-span-7 w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                    >
+                      <option value="">{t.priceList.selectProduct}</option>
+                      {products?.products.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name} ({p.sku})
+                        </option>
+                      ))}
+                    </select>
+                    <div className="col-span-4">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.price}
+                        title={
+                          product?.price !== undefined
+                            ? `${t.product.price}: ${product.price.toLocaleString()}`
+                            : undefined
+                        }
+                        onChange={(e) =>
+                          updateItem(index, { price: parseFloat(e.target.value) || 0 })
+                        }
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="col-span-1"
+                      onClick={() => setItems((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4 text-error" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              {t.common.cancel}
+            </Button>
+            <Button disabled={isPending || !name.trim() || items.length === 0} onClick={submit}>
+              {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t.common.save}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -20,7 +20,11 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Plus, Pencil, Trash2, X, Loader2, Package } from "lucide-react";
 import { createProductSchema, updateProductSchema } from "@/lib/trpc/schemas";
-import type { CreateProductInput, UpdateProductInput } from "@/lib/trpc/schemas";
+import type {
+  CreateProductInput,
+  RentalRoundingMode,
+  UpdateProductInput,
+} from "@/lib/trpc/schemas";
 import { useTranslation } from "@/lib/hooks/useTranslation";
 
 export default function ProductsPage() {
@@ -89,7 +93,11 @@ export default function ProductsPage() {
       images: [],
       stockType: "buy",
       dailyRentalRate: undefined,
+      weeklyRentalRate: undefined,
       monthlyRentalRate: undefined,
+      minRentalDays: undefined,
+      rentalRoundingMode: "none",
+      rentalRoundingStep: undefined,
       insuranceFee: undefined,
       replacementPrice: undefined,
     },
@@ -107,7 +115,11 @@ export default function ProductsPage() {
       images: [],
       stockType: "buy",
       dailyRentalRate: undefined,
+      weeklyRentalRate: undefined,
       monthlyRentalRate: undefined,
+      minRentalDays: undefined,
+      rentalRoundingMode: "none",
+      rentalRoundingStep: undefined,
       insuranceFee: undefined,
       replacementPrice: undefined,
     });
@@ -125,7 +137,11 @@ export default function ProductsPage() {
     images?: string[];
     stockType: "buy" | "rental";
     dailyRentalRate?: number;
+    weeklyRentalRate?: number;
     monthlyRentalRate?: number;
+    minRentalDays?: number;
+    rentalRoundingMode?: RentalRoundingMode;
+    rentalRoundingStep?: number;
     insuranceFee?: number;
     replacementPrice?: number;
   }) => {
@@ -140,7 +156,11 @@ export default function ProductsPage() {
       images: product.images || [],
       stockType: product.stockType,
       dailyRentalRate: product.dailyRentalRate,
+      weeklyRentalRate: product.weeklyRentalRate,
       monthlyRentalRate: product.monthlyRentalRate,
+      minRentalDays: product.minRentalDays,
+      rentalRoundingMode: product.rentalRoundingMode || "none",
+      rentalRoundingStep: product.rentalRoundingStep,
       insuranceFee: product.insuranceFee,
       replacementPrice: product.replacementPrice,
     });
@@ -364,6 +384,28 @@ export default function ProductsPage() {
                         </FormItem>
                       )}
                     />
+                    <FormField
+                      control={form.control}
+                      name="weeklyRentalRate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t.product.weeklyRentalRate}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(
+                                  e.target.value ? parseFloat(e.target.value) : undefined
+                                )
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <FormField
                       control={form.control}
                       name="monthlyRentalRate"
@@ -386,6 +428,72 @@ export default function ProductsPage() {
                         </FormItem>
                       )}
                     />
+                    <FormField
+                      control={form.control}
+                      name="minRentalDays"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t.product.minRentalDays}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(
+                                  e.target.value ? parseInt(e.target.value, 10) : undefined
+                                )
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="rentalRoundingMode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t.product.rentalRoundingMode}</FormLabel>
+                          <FormControl>
+                            <select
+                              {...field}
+                              value={field.value ?? "none"}
+                              className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                            >
+                              <option value="none">{t.product.roundingNone}</option>
+                              <option value="up">{t.product.roundingUp}</option>
+                              <option value="down">{t.product.roundingDown}</option>
+                              <option value="nearest">{t.product.roundingNearest}</option>
+                            </select>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="rentalRoundingStep"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t.product.rentalRoundingStep}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(
+                                  e.target.value ? parseFloat(e.target.value) : undefined
+                                )
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <FormField
                       control={form.control}
                       name="insuranceFee"
@@ -0,0 +1,267 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { PageHeader, SectionCard, Button, Badge, Input } from "@/components";
+import { BadgePercent, BarChart3, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import type { PromotionDTO } from "@/lib/trpc/services/promotion.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { PromotionModal } from "./promotion-modal";
+
+const formatDate = (date?: Date) => (date ? new Date(date).toLocaleDateString("th-TH") : "");
+
+/**
+ * Promotions
+ *
+ * Discount rules applied to sale items when a sale is saved, and what each
+ * promotion has cost on completed sales.
+ */
+export default function PromotionsPage() {
+  const t = useTranslation();
+  const [editing, setEditing] = useState<PromotionDTO | "new" | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [reportStart, setReportStart] = useState("");
+  const [reportEnd, setReportEnd] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: promotions, isLoading, error } = trpc.promotion.list.useQuery();
+  const { data: report, isLoading: reportLoading } = trpc.promotion.report.useQuery({
+    startDate: reportStart ? new Date(`${reportStart}T00:00:00`) : undefined,
+    endDate: reportEnd ? new Date(`${reportEnd}T23:59:59.999`) : undefined,
+  });
+
+  const deleteMutation = trpc.promotion.delete.useMutation({
+    onSuccess: () => {
+      utils.promotion.list.invalidate();
+      setDeleteConfirmId(null);
+    },
+  });
+
+  const typeLabels: Record<PromotionDTO["type"], string> = {
+    percentOff: t.promotion.typePercentOff,
+    amountOff: t.promotion.typeAmountOff,
+    buyXGetY: t.promotion.typeBuyXGetY,
+    quantityBreak: t.promotion.typeQuantityBreak,
+  };
+
+  const formatRule = (promotion: PromotionDTO) => {
+    switch (promotion.type) {
+      case "percentOff":
+        return `${promotion.value}%`;
+      case "amountOff":
+        return `${promotion.value.toLocaleString()} ฿`;
+      case "buyXGetY":
+        return `${promotion.buyQuantity} + ${promotion.getQuantity}`;
+      case "quantityBreak":
+        return promotion.tiers
+          .map((tier) => `≥${tier.minQuantity}: ${tier.percentOff}%`)
+          .join(", ");
+    }
+  };
+
+  const formatPeriod = (promotion: PromotionDTO) =>
+    promotion.startDate || promotion.endDate
+      ? `${formatDate(promotion.startDate) || "..."} - ${formatDate(promotion.endDate) || "..."}`
+      : t.promotion.always;
+
+  const formatScope = (promotion: PromotionDTO) =>
+    promotion.productIds.length === 0 && promotion.categories.length === 0
+      ? t.promotion.allProducts
+      : [
+          promotion.productIds.length > 0 &&
+            `${t.promotion.products}: ${promotion.productIds.length}`,
+          ...promotion.categories,
+        ]
+          .filter(Boolean)
+          .join(", ");
+
+  return (
+    <>
+      <PageHeader title={t.nav.promotions} description={t.promotion.rulesHint}>
+        <Button onClick={() => setEditing("new")}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t.promotion.create}
+        </Button>
+      </PageHeader>
+
+      <div className="p-6 space-y-6">
+        {(error || deleteMutation.error) && (
+          <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {(error || deleteMutation.error)?.message}
+          </div>
+        )}
+
+        <SectionCard title={t.promotion.title} icon={BadgePercent}>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !promotions || promotions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.promotion.noPromotions}</p>
+          ) : (
+            <div className="overflow-x-auto border border-border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/40 text-muted-foreground">
+                  <tr>
+                    <th className="p-2 text-left">{t.promotion.name}</th>
+                    <th className="p-2 text-left">{t.promotion.type}</th>
+                    <th className="p-2 text-left">{t.promotion.scope}</th>
+                    <th className="p-2 text-left">{t.promotion.couponCode}</th>
+                    <th className="p-2 text-left">{t.promotion.period}</th>
+                    <th className="p-2 text-left">{t.common.status}</th>
+                    <th className="p-2 text-right">{t.common.actions}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {promotions.map((promotion) => (
+                    <tr key={promotion.id} className="border-t border-border">
+                      <td className="p-2">
+                        <div className="font-semibold text-foreground">{promotion.name}</div>
+                        {promotion.description && (
+                          <div className="text-xs text-muted-foreground">
+                            {promotion.description}
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <div>{typeLabels[promotion.type]}</div>
+                        <div className="text-xs text-muted-foreground">{formatRule(promotion)}</div>
+                      </td>
+                      <td className="p-2">{formatScope(promotion)}</td>
+                      <td className="p-2 font-mono">
+                        {promotion.couponCode ?? (
+                          <span className="font-sans text-muted-foreground">
+                            {t.promotion.automatic}
+                          </span>
+                        )}
+                      </td>
+                      <td className="p-2">{formatPeriod(promotion)}</td>
+                      <td className="p-2">
+                        <Badge variant="status" color={promotion.isActive ? "success" : "warning"}>
+                          {promotion.isActive ? t.promotion.isActive : t.promotion.inactive}
+                        </Badge>
+                      </td>
+                      <td className="p-2">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setEditing(promotion)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeleteConfirmId(promotion.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-error" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </SectionCard>
+
+        <SectionCard title={t.promotion.report} icon={BarChart3}>
+          <p className="text-sm text-muted-foreground mb-4">{t.promotion.reportDescription}</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.promotion.startDate}
+              </label>
+              <Input
+                type="date"
+                value={reportStart}
+                onChange={(e) => setReportStart(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.promotion.endDate}
+              </label>
+              <Input type="date" value={reportEnd} onChange={(e) => setReportEnd(e.target.value)} />
+            </div>
+          </div>
+
+          {reportLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !report || report.promotions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.promotion.noReportData}</p>
+          ) : (
+            <div className="overflow-x-auto border border-border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/40 text-muted-foreground">
+                  <tr>
+                    <th className="p-2 text-left">{t.promotion.name}</th>
+                    <th className="p-2 text-left">{t.promotion.type}</th>
+                    <th className="p-2 text-right">{t.promotion.salesCount}</th>
+                    <th className="p-2 text-right">{t.promotion.quantity}</th>
+                    <th className="p-2 text-right">{t.promotion.discount}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.promotions.map((row) => (
+                    <tr key={row.promotionId} className="border-t border-border">
+                      <td className="p-2">
+                        <div className="font-semibold text-foreground">{row.name}</div>
+                        {row.couponCode && (
+                          <div className="text-xs font-mono text-muted-foreground">
+                            {row.couponCode}
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2">{typeLabels[row.type]}</td>
+                      <td className="p-2 text-right">{row.salesCount.toLocaleString()}</td>
+                      <td className="p-2 text-right">{row.quantity.toLocaleString()}</td>
+                      <td className="p-2 text-right font-semibold text-error">
+                        {row.discount.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t border-border bg-muted/20 font-bold">
+                    <td className="p-2" colSpan={4}>
+                      {t.promotion.totalDiscount}
+                    </td>
+                    <td className="p-2 text-right text-error">
+                      {report.totalDiscount.toLocaleString()} ฿
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </SectionCard>
+      </div>
+
+      {editing && (
+        <PromotionModal
+          promotion={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {deleteConfirmId && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card border border-border rounded-lg p-6 w-full max-w-md shadow-xl">
+            <h2 className="text-xl font-bold text-foreground mb-4">{t.promotion.deleteConfirm}</h2>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDeleteConfirmId(null)}>
+                {t.common.cancel}
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate({ id: deleteConfirmId })}
+              >
+                {t.common.delete}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
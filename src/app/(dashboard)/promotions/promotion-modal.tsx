@@ -0,0 +1,364 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Plus, Trash2, X } from "lucide-react";
+import type { PromotionTier } from "@/lib/trpc/schemas";
+import type { PromotionDTO } from "@/lib/trpc/services/promotion.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+interface PromotionModalProps {
+  promotion: PromotionDTO | null;
+  onClose: () => void;
+}
+
+const toDateInput = (date?: Date) => (date ? new Date(date).toISOString().slice(0, 10) : "");
+
+/**
+ * Create or edit a promotion
+ *
+ * Only the fields of the chosen type are sent. Without products or
+ * categories the promotion covers every product.
+ */
+export function PromotionModal({ promotion, onClose }: PromotionModalProps) {
+  const t = useTranslation();
+  const [name, setName] = useState(promotion?.name ?? "");
+  const [description, setDescription] = useState(promotion?.description ?? "");
+  const [type, setType] = useState<PromotionDTO["type"]>(promotion?.type ?? "percentOff");
+  const [value, setValue] = useState(promotion?.value ?? 0);
+  const [buyQuantity, setBuyQuantity] = useState(promotion?.buyQuantity ?? 1);
+  const [getQuantity, setGetQuantity] = useState(promotion?.getQuantity ?? 1);
+  const [tiers, setTiers] = useState<PromotionTier[]>(promotion?.tiers ?? []);
+  const [productIds, setProductIds] = useState<string[]>(promotion?.productIds ?? []);
+  const [categories, setCategories] = useState((promotion?.categories ?? []).join(", "));
+  const [couponCode, setCouponCode] = useState(promotion?.couponCode ?? "");
+  const [startDate, setStartDate] = useState(toDateInput(promotion?.startDate));
+  const [endDate, setEndDate] = useState(toDateInput(promotion?.endDate));
+  const [isActive, setIsActive] = useState(promotion?.isActive ?? true);
+
+  const { data: products } = trpc.product.list.useQuery({
+    stockType: "buy",
+    page: 1,
+    limit: 100,
+  });
+
+  const utils = trpc.useUtils();
+  const onSuccess = () => {
+    utils.promotion.list.invalidate();
+    onClose();
+  };
+  const createMutation = trpc.promotion.create.useMutation({ onSuccess });
+  const updateMutation = trpc.promotion.update.useMutation({ onSuccess });
+  const error = createMutation.error || updateMutation.error;
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const updateTier = (index: number, tier: Partial<PromotionTier>) => {
+    setTiers((prev) => prev.map((current, i) => (i === index ? { ...current, ...tier } : current)));
+  };
+
+  const submit = () => {
+    const data = {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      type,
+      value: type === "percentOff" || type === "amountOff" ? value : 0,
+      buyQuantity: type === "buyXGetY" ? buyQuantity : undefined,
+      getQuantity: type === "buyXGetY" ? getQuantity : undefined,
+      tiers: type === "quantityBreak" ? tiers : [],
+      productIds: productIds.filter(Boolean),
+      categories: categories
+        .split(",")
+        .map((category) => category.trim())
+        .filter(Boolean),
+      couponCode: couponCode.trim(),
+      isActive,
+    };
+
+    if (promotion) {
+      updateMutation.mutate({
+        id: promotion.id,
+        ...data,
+        startDate: startDate ? new Date(startDate) : null,
+        endDate: endDate ? new Date(endDate) : null,
+      });
+    } else {
+      createMutation.mutate({
+        ...data,
+        couponCode: data.couponCode || undefined,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined,
+      });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-foreground">
+            {promotion ? t.promotion.edit : t.promotion.create}
+          </h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {error.message}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.promotion.name}
+              </label>
+              <Input value={name} maxLength={100} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.promotion.type}
+              </label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as PromotionDTO["type"])}
+                className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+              >
+                <option value="percentOff">{t.promotion.typePercentOff}</option>
+                <option value="amountOff">{t.promotion.typeAmountOff}</option>
+                <option value="buyXGetY">{t.promotion.typeBuyXGetY}</option>
+                <option value="quantityBreak">{t.promotion.typeQuantityBreak}</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+              {t.promotion.description}
+            </label>
+            <Textarea
+              value={description}
+              maxLength={500}
+              rows={2}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          {(type === "percentOff" || type === "amountOff") && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                  {type === "percentOff" ? t.promotion.percentOff : t.promotion.amountOff}
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  max={type === "percentOff" ? "100" : undefined}
+                  step="0.01"
+                  value={value}
+                  onChange={(e) => setValue(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+          )}
+
+          {type === "buyXGetY" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                  {t.promotion.buyQuantity}
+                </label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={buyQuantity}
+                  onChange={(e) => setBuyQuantity(parseInt(e.target.value) || 1)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                  {t.promotion.getQuantity}
+                </label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={getQuantity}
+                  onChange={(e) => setGetQuantity(parseInt(e.target.value) || 1)}
+                />
+              </div>
+            </div>
+          )}
+
+          {type === "quantityBreak" && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-sm font-semibold text-muted-foreground">
+                  {t.promotion.tiers}
+                </label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTiers((prev) => [...prev, { minQuantity: 1, percentOff: 0 }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t.promotion.addTier}
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {tiers.map((tier, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <div className="col-span-5">
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={tier.minQuantity}
+                        title={t.promotion.minQuantity}
+                        onChange={(e) =>
+                          updateTier(index, { minQuantity: parseInt(e.target.value) || 1 })
+                        }
+                      />
+                    </div>
+                    <div className="col-span-6">
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={tier.percentOff}
+                        title={t.promotion.percentOff}
+                        onChange={(e) =>
+                          updateTier(index, { percentOff: parseFloat(e.target.value) || 0 })
+                        }
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="col-span-1"
+                      onClick={() => setTiers((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4 text-error" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-semibold text-muted-foreground">
+                {t.promotion.products}
+              </label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setProductIds((prev) => [...prev, ""])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {t.promotion.addProduct}
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {productIds.map((productId, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <select
+                    value={productId}
+                    onChange={(e) =>
+                      setProductIds((prev) =>
+                        prev.map((current, i) => (i === index ? e.target.value : current))
+                      )
+                    }
+                    className="col-span-11 w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                  >
+                    <option value="">{t.promotion.selectProduct}</option>
+                    {products?.products.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name} ({p.sku})
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1"
+                    onClick={() => setProductIds((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-error" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+              {t.promotion.categories}
+            </label>
+            <Input
+              value={categories}
+              placeholder={t.promotion.categoriesHint}
+              onChange={(e) => setCategories(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+              {t.promotion.couponCode}
+            </label>
+            <Input
+              value={couponCode}
+              maxLength={50}
+              placeholder={t.promotion.couponCodeHint}
+              onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.promotion.startDate}
+              </label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.promotion.endDate}
+              </label>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-foreground py-2">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+              />
+              {t.promotion.isActive}
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              {t.common.cancel}
+            </Button>
+            <Button disabled={isPending || !name.trim()} onClick={submit}>
+              {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t.common.save}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
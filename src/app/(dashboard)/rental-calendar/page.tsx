@@ -0,0 +1,414 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { PageHeader, SectionCard, Button, Input } from "@/components";
+import { CalendarRange, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import type { AssetTimelineBarDTO } from "@/lib/trpc/services/rental-asset.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_WIDTH = 36;
+const RANGE_OPTIONS = [14, 30, 60, 90];
+
+const BAR_CLASSES: Record<AssetTimelineBarDTO["kind"], string> = {
+  rental: "bg-primary text-primary-foreground",
+  reservation: "bg-warning text-foreground",
+  maintenance: "bg-error/70 text-white",
+};
+
+const toInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+interface DragSelection {
+  assetId: string;
+  assetCode: string;
+  anchor: number;
+  current: number;
+}
+
+/**
+ * Rental calendar
+ *
+ * Plots every rental asset, grouped by product, against a date window with
+ * bars for rentals, reservations and maintenance. Dragging across free days
+ * on an asset's row books it for those days.
+ */
+export default function RentalCalendarPage() {
+  const t = useTranslation();
+  const [start, setStart] = useState(() => toInputValue(new Date()));
+  const [days, setDays] = useState(30);
+  const [productId, setProductId] = useState("");
+  const [drag, setDrag] = useState<DragSelection | null>(null);
+  const [booking, setBooking] = useState<DragSelection | null>(null);
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [deposit, setDeposit] = useState("");
+  const [notes, setNotes] = useState("");
+  const [now] = useState(() => Date.now());
+
+  const windowStart = new Date(`${start}T00:00`);
+  const windowEnd = addDays(windowStart, days);
+  const hasValidStart = !Number.isNaN(windowStart.getTime());
+  const dayDates = hasValidStart
+    ? Array.from({ length: days }, (_, index) => addDays(windowStart, index))
+    : [];
+
+  const utils = trpc.useUtils();
+  const { data: products } = trpc.product.list.useQuery({
+    stockType: "rental",
+    page: 1,
+    limit: 100,
+  });
+  const { data: groups, isLoading } = trpc.rentalAsset.timeline.useQuery(
+    { startDate: windowStart, endDate: windowEnd, productId: productId || undefined },
+    { enabled: hasValidStart }
+  );
+
+  const createMutation = trpc.rental.create.useMutation({
+    onSuccess: () => {
+      utils.rentalAsset.timeline.invalidate();
+      utils.rentalAsset.list.invalidate();
+      utils.rental.list.invalidate();
+      closeBooking();
+    },
+  });
+
+  const shiftWindow = (direction: number) => {
+    setStart(toInputValue(addDays(windowStart, direction * days)));
+  };
+
+  // Day index under the pointer within an asset row's track
+  const getDayIndex = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const index = Math.floor(((event.clientX - rect.left) / rect.width) * days);
+    return Math.min(Math.max(index, 0), days - 1);
+  };
+
+  const handlePointerDown = (
+    event: React.PointerEvent<HTMLDivElement>,
+    assetId: string,
+    assetCode: string
+  ) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const index = getDayIndex(event);
+    setDrag({ assetId, assetCode, anchor: index, current: index });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const index = getDayIndex(event);
+    if (index !== drag.current) {
+      setDrag({ ...drag, current: index });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setBooking(drag);
+    setDrag(null);
+    createMutation.reset();
+  };
+
+  const closeBooking = () => {
+    setBooking(null);
+    setCustomerName("");
+    setCustomerPhone("");
+    setDeposit("");
+    setNotes("");
+  };
+
+  const bookingStart = booking
+    ? addDays(windowStart, Math.min(booking.anchor, booking.current))
+    : null;
+  const bookingEnd = booking
+    ? addDays(windowStart, Math.max(booking.anchor, booking.current) + 1)
+    : null;
+
+  const submitBooking = () => {
+    if (!booking || !bookingStart || !bookingEnd) return;
+    createMutation.mutate({
+      customerName: customerName.trim(),
+      customerPhone: customerPhone.trim() || undefined,
+      assets: [{ assetId: booking.assetId, quantity: 1 }],
+      startDate: bookingStart,
+      endDate: bookingEnd,
+      deposit: parseFloat(deposit) || 0,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  // Position of a bar as a percentage of the window
+  const getBarStyle = (bar: AssetTimelineBarDTO) => {
+    const windowMs = windowEnd.getTime() - windowStart.getTime();
+    const barStart = Math.max(new Date(bar.startDate).getTime(), windowStart.getTime());
+    const barEnd = Math.min(new Date(bar.endDate).getTime(), windowEnd.getTime());
+    return {
+      left: `${((barStart - windowStart.getTime()) / windowMs) * 100}%`,
+      width: `${((barEnd - barStart) / windowMs) * 100}%`,
+    };
+  };
+
+  const getBarLabel = (bar: AssetTimelineBarDTO) => {
+    const period = `${new Date(bar.startDate).toLocaleDateString("th-TH")} - ${new Date(
+      bar.endDate
+    ).toLocaleDateString("th-TH")}`;
+    if (bar.kind === "maintenance") {
+      return `${t.rentalCalendar.legendMaintenance} (${period})`;
+    }
+    return `${bar.rentalNumber} ${bar.customerName} (${period})`;
+  };
+
+  const todayOffset = (now - windowStart.getTime()) / (windowEnd.getTime() - windowStart.getTime());
+
+  return (
+    <>
+      <PageHeader title={t.rentalCalendar.title} description={t.rentalCalendar.description} />
+
+      <div className="p-6 space-y-6">
+        <SectionCard title={t.rentalCalendar.title} icon={CalendarRange}>
+          <div className="mb-4 flex gap-2 flex-wrap items-center">
+            <Button variant="outline" size="sm" onClick={() => shiftWindow(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Input
+              type="date"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+              className="w-auto"
+            />
+            <Button variant="outline" size="sm" onClick={() => shiftWindow(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setStart(toInputValue(new Date()))}>
+              {t.rentalCalendar.today}
+            </Button>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="rounded-md border border-border bg-input px-3 py-2 text-foreground"
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option} {t.rental.days}
+                </option>
+              ))}
+            </select>
+            <select
+              value={productId}
+              onChange={(e) => setProductId(e.target.value)}
+              className="rounded-md border border-border bg-input px-3 py-2 text-foreground"
+            >
+              <option value="">{t.rentalCalendar.allProducts}</option>
+              {products?.products.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mb-4 flex gap-4 flex-wrap text-sm text-muted-foreground">
+            {(["rental", "reservation", "maintenance"] as const).map((kind) => (
+              <span key={kind} className="flex items-center gap-2">
+                <span className={`inline-block h-3 w-6 rounded ${BAR_CLASSES[kind]}`} />
+                {kind === "rental"
+                  ? t.rentalCalendar.legendRental
+                  : kind === "reservation"
+                    ? t.rentalCalendar.legendReservation
+                    : t.rentalCalendar.legendMaintenance}
+              </span>
+            ))}
+            <span>{t.rentalCalendar.dragHint}</span>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !groups || groups.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">{t.rentalCalendar.noAssets}</p>
+          ) : (
+            <div className="overflow-x-auto border border-border rounded-md">
+              <div style={{ minWidth: 160 + days * DAY_WIDTH }}>
+                <div className="flex border-b border-border bg-muted/50 sticky top-0">
+                  <div className="w-40 shrink-0 px-3 py-2 text-sm font-semibold text-foreground">
+                    {t.rentalCalendar.asset}
+                  </div>
+                  <div className="flex flex-1">
+                    {dayDates.map((date) => (
+                      <div
+                        key={date.getTime()}
+                        className={`flex-1 py-1 text-center text-xs border-l border-border ${
+                          date.getDay() === 0 || date.getDay() === 6
+                            ? "bg-muted text-muted-foreground"
+                            : "text-foreground"
+                        }`}
+                      >
+                        <div>{date.getDate()}</div>
+                        <div className="text-[10px] text-muted-foreground">
+                          {date.toLocaleDateString("th-TH", { month: "short" })}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {groups.map((group) => (
+                  <div key={group.productId}>
+                    <div className="px-3 py-2 text-sm font-semibold text-foreground bg-muted/30 border-b border-border">
+                      {group.productName || group.productId}
+                      {group.productSku && (
+                        <span className="ml-2 text-muted-foreground font-normal">
+                          {group.productSku}
+                        </span>
+                      )}
+                    </div>
+                    {group.assets.map((asset) => {
+                      const selection =
+                        drag?.assetId === asset.assetId
+                          ? drag
+                          : booking?.assetId === asset.assetId
+                            ? booking
+                            : null;
+                      return (
+                        <div key={asset.assetId} className="flex border-b border-border">
+                          <div className="w-40 shrink-0 px-3 py-2 text-sm text-foreground truncate">
+                            {asset.assetCode}
+                          </div>
+                          <div
+                            className="relative flex flex-1 h-10 touch-none select-none cursor-crosshair"
+                            onPointerDown={(e) =>
+                              handlePointerDown(e, asset.assetId, asset.assetCode)
+                            }
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                          >
+                            {dayDates.map((date) => (
+                              <div
+                                key={date.getTime()}
+                                className={`flex-1 border-l border-border ${
+                                  date.getDay() === 0 || date.getDay() === 6 ? "bg-muted/50" : ""
+                                }`}
+                              />
+                            ))}
+                            {selection && (
+                              <div
+                                className="absolute inset-y-1 rounded border-2 border-dashed border-primary bg-primary/10"
+                                style={{
+                                  left: `${(Math.min(selection.anchor, selection.current) / days) * 100}%`,
+                                  width: `${((Math.abs(selection.current - selection.anchor) + 1) / days) * 100}%`,
+                                }}
+                              />
+                            )}
+                            {asset.bars.map((bar, index) => (
+                              <div
+                                key={`${bar.rentalId ?? bar.kind}-${index}`}
+                                title={getBarLabel(bar)}
+                                className={`absolute inset-y-2 rounded px-1 text-xs leading-6 truncate ${BAR_CLASSES[bar.kind]}`}
+                                style={getBarStyle(bar)}
+                                onPointerDown={(e) => e.stopPropagation()}
+                              >
+                                {bar.kind === "maintenance"
+                                  ? t.rentalCalendar.legendMaintenance
+                                  : bar.customerName}
+                              </div>
+                            ))}
+                            {todayOffset >= 0 && todayOffset <= 1 && (
+                              <div
+                                className="absolute inset-y-0 w-px bg-error pointer-events-none"
+                                style={{ left: `${todayOffset * 100}%` }}
+                              />
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </SectionCard>
+      </div>
+
+      {/* Booking Modal */}
+      {booking && bookingStart && bookingEnd && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card border border-border rounded-lg p-6 w-full max-w-lg shadow-xl">
+            <h2 className="text-xl font-bold text-foreground mb-1">
+              {t.rentalCalendar.newBooking} - {booking.assetCode}
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              {bookingStart.toLocaleDateString("th-TH")} - {bookingEnd.toLocaleDateString("th-TH")}{" "}
+              ({Math.round((bookingEnd.getTime() - bookingStart.getTime()) / DAY_MS)}{" "}
+              {t.rental.days})
+            </p>
+
+            {createMutation.error && (
+              <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+                {createMutation.error.message}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                  {t.rental.customerName}
+                </label>
+                <Input value={customerName} onChange={(e) => setCustomerName(e.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                    {t.rental.customerPhone}
+                  </label>
+                  <Input value={customerPhone} onChange={(e) => setCustomerPhone(e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                    {t.rental.deposit}
+                  </label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={deposit}
+                    onChange={(e) => setDeposit(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                  {t.common.notes}
+                </label>
+                <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-6">
+              <Button variant="outline" onClick={closeBooking}>
+                {t.common.cancel}
+              </Button>
+              <Button
+                disabled={!customerName.trim() || createMutation.isPending}
+                onClick={submitBooking}
+              >
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t.rentalCalendar.newBooking}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
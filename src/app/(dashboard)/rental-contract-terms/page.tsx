@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { PageHeader, SectionCard, Button, Input, Textarea } from "@/components";
+import { FileSignature, History, Loader2 } from "lucide-react";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+/**
+ * Contract terms page
+ *
+ * Edits the terms and conditions printed on rental contracts. Saving
+ * publishes a new version; contracts signed earlier keep the version they
+ * were signed under, listed in the history below.
+ */
+export default function RentalContractTermsPage() {
+  const t = useTranslation();
+  const [draft, setDraft] = useState<{ title: string; body: string } | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: terms, isLoading } = trpc.rentalContract.terms.useQuery();
+  const { data: history } = trpc.rentalContract.termsHistory.useQuery();
+
+  const publishMutation = trpc.rentalContract.publishTerms.useMutation({
+    onSuccess: () => {
+      utils.rentalContract.terms.invalidate();
+      utils.rentalContract.termsHistory.invalidate();
+      setDraft(null);
+    },
+  });
+
+  const title = draft?.title ?? terms?.title ?? "";
+  const body = draft?.body ?? terms?.body ?? "";
+  const isChanged = !!draft && (draft.title !== terms?.title || draft.body !== terms?.body);
+
+  return (
+    <>
+      <PageHeader title={t.rentalContract.termsTitle} description={t.rentalContract.termsHint} />
+
+      <div className="p-6 space-y-6">
+        <SectionCard
+          title={`${t.rentalContract.currentTerms} (${t.rentalContract.termsVersion} ${terms?.version ?? "-"})`}
+          icon={FileSignature}
+        >
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {publishMutation.error && (
+                <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+                  {publishMutation.error.message}
+                </div>
+              )}
+              <div>
+                <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                  {t.rentalContract.termsHeading}
+                </label>
+                <Input value={title} onChange={(e) => setDraft({ title: e.target.value, body })} />
+              </div>
+              <div>
+                <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                  {t.rentalContract.termsBody}
+                </label>
+                <Textarea
+                  rows={12}
+                  value={body}
+                  onChange={(e) => setDraft({ title, body: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t.rentalContract.termsBodyHint}
+                </p>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" disabled={!draft} onClick={() => setDraft(null)}>
+                  {t.common.cancel}
+                </Button>
+                <Button
+                  disabled={
+                    !isChanged || !title.trim() || !body.trim() || publishMutation.isPending
+                  }
+                  onClick={() => publishMutation.mutate({ title: title.trim(), body: body.trim() })}
+                >
+                  {publishMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t.rentalContract.publishTerms}
+                </Button>
+              </div>
+            </div>
+          )}
+        </SectionCard>
+
+        <SectionCard title={t.rentalContract.termsHistory} icon={History}>
+          {history && history.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t.rentalContract.noTermsHistory}</p>
+          )}
+          <div className="space-y-2">
+            {history?.map((version) => (
+              <details key={version.id} className="p-3 border border-border rounded-md">
+                <summary className="cursor-pointer text-sm text-foreground">
+                  {t.rentalContract.termsVersion} {version.version} - {version.title}
+                  {version.createdAt && (
+                    <span className="ml-2 text-muted-foreground">
+                      {new Date(version.createdAt).toLocaleDateString("th-TH")}
+                    </span>
+                  )}
+                </summary>
+                <p className="mt-2 text-sm text-muted-foreground whitespace-pre-line">
+                  {version.body}
+                </p>
+              </details>
+            ))}
+          </div>
+        </SectionCard>
+      </div>
+    </>
+  );
+}
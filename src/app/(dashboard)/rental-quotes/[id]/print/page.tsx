@@ -0,0 +1,482 @@
+"use client";
+
+import { use } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { trpc } from "@/lib/trpc/client";
+import { ownerConfig } from "@/lib/config/owner";
+import { Button } from "@/components";
+import { Printer, X, Loader2 } from "lucide-react";
+import type { RentalQuoteDTO } from "@/lib/trpc/services/rental-quote.service";
+
+interface RentalQuotePrintPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+type RentalLinePricing = RentalQuoteDTO["items"][number]["pricing"];
+
+/**
+ * Describe a line's priced period, e.g. "1 เดือน + 2 สัปดาห์ + 3 วัน"
+ */
+function formatPricingPeriods(pricing: RentalLinePricing): string {
+  return (
+    [
+      pricing.months > 0 && `${pricing.months} เดือน × ${pricing.monthlyRate.toLocaleString()} ฿`,
+      pricing.weeks > 0 && `${pricing.weeks} สัปดาห์ × ${pricing.weeklyRate.toLocaleString()} ฿`,
+      pricing.extraDays > 0 && `${pricing.extraDays} วัน × ${pricing.dailyRate.toLocaleString()} ฿`,
+    ]
+      .filter(Boolean)
+      .join(" + ") || `${pricing.days} วัน`
+  );
+}
+
+/**
+ * Escape text for the print window's HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export default function RentalQuotePrintPage({ params }: RentalQuotePrintPageProps) {
+  const { id } = use(params);
+  const router = useRouter();
+
+  const { data: quote, isLoading } = trpc.rentalQuote.getById.useQuery({ id });
+
+  const formatThaiDate = (date: Date) => {
+    return new Intl.DateTimeFormat("th-TH", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    }).format(date);
+  };
+
+  const handlePrint = () => {
+    if (typeof window === "undefined" || !quote) return;
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    const startDate = new Date(quote.startDate);
+    const endDate = new Date(quote.endDate);
+    const rentalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_MS) || 1;
+    const totalInsurance = quote.items.reduce(
+      (sum, item) => sum + item.insuranceFee * item.quantity,
+      0
+    );
+    const grandTotal = quote.totalAmount + quote.deposit + quote.shippingCost;
+
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>${escapeHtml(quote.quoteNumber)}</title>
+          <style>
+            @page { size: A4; margin: 1.5cm 1cm 1cm 1cm; }
+            * { box-sizing: border-box; }
+            body { font-family: 'Sarabun', 'Kanit', 'Prompt', sans-serif; margin: 0; padding: 20px; background: #f5f5f5; color: #1a1a1a; }
+            .bill-container { max-width: 210mm; margin: 0 auto; background: white; padding: 25px; box-shadow: 0 2px 8px rgba(0,0,0,0.1); }
+            .header-section { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 20px; padding-bottom: 16px; border-bottom: 3px solid #2563eb; }
+            .company-logo { width: 140px; }
+            .company-logo img { width: 100%; height: auto; object-fit: contain; border-radius: 4px; }
+            .company-info { flex: 1; margin-left: 16px; padding-left: 16px; border-left: 2px solid #e5e7eb; }
+            .company-name { font-size: 18px; font-weight: 700; color: #1e40af; margin-bottom: 6px; }
+            .company-address { font-size: 13px; color: #4b5563; line-height: 1.5; }
+            .company-phone { font-size: 14px; color: #1e40af; font-weight: 600; margin-top: 6px; }
+            .document-title { text-align: right; color: #1e293b; }
+            .document-title h1 { margin: 0; font-size: 20px; font-weight: 800; }
+            .document-title p { margin: 4px 0 0 0; font-size: 13px; color: #475569; }
+            .meta-section { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; background: #f8fafc; padding: 12px; border: 1px solid #e2e8f0; border-radius: 8px; margin: 16px 0; }
+            .meta-label { font-size: 12px; color: #64748b; font-weight: 600; text-transform: uppercase; }
+            .meta-value { font-size: 14px; font-weight: 600; color: #1e293b; }
+            .customer-section { margin: 16px 0; padding: 12px; background: #f8fafc; border-left: 4px solid #2563eb; border-radius: 8px; }
+            .customer-label { font-weight: 700; color: #1e40af; margin-bottom: 6px; }
+            .customer-value { font-size: 15px; font-weight: 600; color: #1e293b; }
+            .items-table { width: 100%; border-collapse: collapse; margin: 16px 0; font-size: 12px; border: 2px solid #000 !important; }
+            .items-table th, .items-table td { border: 1px solid #000 !important; padding: 8px 6px; }
+            .items-table th { background: #1e40af; color: white; text-align: center; font-weight: 700; }
+            .items-table td { background: white; }
+            .summary-table { width: 100%; border-collapse: collapse; margin-top: 12px; font-size: 13px; }
+            .summary-table td { padding: 8px 10px; border: 1px solid #000; }
+            .summary-table .label { font-weight: 600; color: #475569; }
+            .summary-table .value { text-align: right; font-weight: 700; color: #1e293b; }
+            .summary-table .total { background: #bfdbfe; color: #1e40af; font-size: 15px; }
+            .notes { margin-top: 16px; font-size: 13px; color: #475569; white-space: pre-line; }
+            .validity { margin-top: 16px; padding: 10px; border: 1px dashed #2563eb; border-radius: 8px; font-size: 13px; color: #1e40af; font-weight: 600; }
+            .signature-section { margin-top: 40px; display: grid; grid-template-columns: 1fr 1fr; gap: 40px; padding-top: 20px; border-top: 2px solid #e2e8f0; page-break-inside: avoid; }
+            .signature-box { text-align: center; }
+            .signature-label { font-size: 14px; font-weight: 600; color: #475569; margin-bottom: 60px; }
+            .signature-line { border-top: 2px solid #1e293b; margin: 0 auto; width: 200px; margin-top: 60px; }
+            .signature-name { font-size: 13px; color: #64748b; margin-top: 8px; }
+            .footer { margin-top: 28px; text-align: center; color: #64748b; font-size: 12px; }
+            @media print {
+              body { padding: 0; background: white; }
+              .bill-container { box-shadow: none; }
+            }
+          </style>
+        </head>
+        <body>
+          <div class="bill-container">
+            <div class="header-section">
+              <div class="company-logo">
+                ${ownerConfig.logo ? `<img src="${ownerConfig.logo}" alt="Logo" />` : ""}
+              </div>
+              <div class="company-info">
+                <div class="company-name">${ownerConfig.name}</div>
+                <div class="company-address">${ownerConfig.address}</div>
+                <div class="company-phone">โทร. ${ownerConfig.phone}</div>
+              </div>
+              <div class="document-title">
+                <h1>ใบเสนอราคาเช่า</h1>
+                <p>Rental Quotation</p>
+              </div>
+            </div>
+
+            <div class="meta-section">
+              <div>
+                <div class="meta-label">เลขที่ใบเสนอราคา</div>
+                <div class="meta-value">${escapeHtml(quote.quoteNumber)}</div>
+              </div>
+              <div>
+                <div class="meta-label">วันที่เช่า</div>
+                <div class="meta-value">${formatThaiDate(startDate)}</div>
+              </div>
+              <div>
+                <div class="meta-label">วันที่ครบกำหนด</div>
+                <div class="meta-value">${formatThaiDate(endDate)}</div>
+              </div>
+              <div>
+                <div class="meta-label">จำนวนวันเช่า</div>
+                <div class="meta-value">${rentalDays} วัน</div>
+              </div>
+            </div>
+
+            <div class="customer-section">
+              <div class="customer-label">ชื่อลูกค้า</div>
+              <div class="customer-value">${escapeHtml(quote.customerName)}</div>
+              ${quote.customerPhone ? `<div class="customer-value" style="font-weight:500;">โทร. ${escapeHtml(quote.customerPhone)}</div>` : ""}
+              ${quote.customerAddress ? `<div style="font-size:13px; color:#475569; margin-top:4px;">${escapeHtml(quote.customerAddress)}</div>` : ""}
+            </div>
+
+            <table class="items-table">
+              <thead>
+                <tr>
+                  <th style="width:6%;">ลำดับ</th>
+                  <th style="width:34%;">รายการ</th>
+                  <th style="width:10%;">จำนวน</th>
+                  <th style="width:22%;">ระยะเวลา</th>
+                  <th style="width:14%;">จำนวนเงิน</th>
+                  <th style="width:14%;">เงินประกัน</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${quote.items
+                  .map(
+                    (item, idx) => `
+                    <tr>
+                      <td style="text-align:center; font-weight:600;">${idx + 1}</td>
+                      <td style="font-weight:600;">${escapeHtml(item.productName)}</td>
+                      <td style="text-align:center;">${item.quantity}</td>
+                      <td style="text-align:right; font-size:12px;">${formatPricingPeriods(item.pricing)}</td>
+                      <td style="text-align:right; font-weight:700; color:#1e40af;">${item.lineTotal.toFixed(2)} ฿</td>
+                      <td style="text-align:right;">${item.insuranceFee > 0 ? (item.insuranceFee * item.quantity).toFixed(2) : "-"} ฿</td>
+                    </tr>
+                  `
+                  )
+                  .join("")}
+              </tbody>
+            </table>
+
+            <table class="summary-table">
+              <tbody>
+                <tr>
+                  <td class="label" style="width:60%;">เงินค่าเช่า/วัน</td>
+                  <td class="value" style="width:40%;">${quote.dailyRate.toLocaleString()} ฿</td>
+                </tr>
+                <tr>
+                  <td class="label">รวมเงินค่าเช่า</td>
+                  <td class="value">${quote.totalAmount.toLocaleString()} ฿</td>
+                </tr>
+                ${
+                  quote.deposit > 0
+                    ? `
+                  <tr>
+                    <td class="label">เงินประกัน</td>
+                    <td class="value">${quote.deposit.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                    : ""
+                }
+                ${
+                  quote.shippingCost > 0
+                    ? `
+                  <tr>
+                    <td class="label">ค่าขนส่งไป-กลับ</td>
+                    <td class="value">${quote.shippingCost.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                    : ""
+                }
+                <tr class="total">
+                  <td class="label">รวมเงินทั้งสิ้น</td>
+                  <td class="value">${grandTotal.toLocaleString()} ฿</td>
+                </tr>
+              </tbody>
+            </table>
+
+            ${totalInsurance > 0 ? `<div class="notes">เงินประกันสินค้ารวม ${totalInsurance.toLocaleString()} ฿ (เรียกเก็บเมื่อเกิดความเสียหาย)</div>` : ""}
+            ${quote.notes ? `<div class="notes">หมายเหตุ: ${escapeHtml(quote.notes)}</div>` : ""}
+
+            <div class="validity">
+              ใบเสนอราคานี้มีผลถึงวันที่ ${formatThaiDate(new Date(quote.validUntil))}
+              ราคาและจำนวนทรัพย์สินยืนยันเมื่อแปลงเป็นการเช่า
+            </div>
+
+            <div class="signature-section">
+              <div class="signature-box">
+                <div class="signature-label">ผู้อนุมัติใบเสนอราคา (ลูกค้า)</div>
+                <div class="signature-line"></div>
+                <div class="signature-name">(${escapeHtml(quote.customerName)})</div>
+              </div>
+              <div class="signature-box">
+                <div class="signature-label">ผู้เสนอราคา</div>
+                <div class="signature-line"></div>
+                <div class="signature-name">(${ownerConfig.bankAccountName || ""})</div>
+              </div>
+            </div>
+
+            <div class="footer">
+              <p>ขอบคุณที่ใช้บริการ</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+    printWindow.focus();
+    setTimeout(() => printWindow.print(), 250);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <p className="text-lg text-muted-foreground">ไม่พบใบเสนอราคา</p>
+          <Button onClick={() => router.back()} className="mt-4">
+            กลับ
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const startDate = new Date(quote.startDate);
+  const endDate = new Date(quote.endDate);
+  const rentalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_MS) || 1;
+  const grandTotal = quote.totalAmount + quote.deposit + quote.shippingCost;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="no-print mb-4 flex justify-between items-center">
+          <Button variant="outline" onClick={() => router.back()}>
+            <X className="h-4 w-4 mr-2" />
+            กลับ
+          </Button>
+          <Button onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-2" />
+            พิมพ์ใบเสนอราคา
+          </Button>
+        </div>
+
+        <div className="bg-white p-8 shadow-xl rounded-lg border border-border/50">
+          <div className="flex justify-between items-start border-b border-border pb-4 mb-4">
+            <div className="flex items-start gap-4">
+              {ownerConfig.logo && (
+                <div className="w-32">
+                  <Image
+                    src={ownerConfig.logo}
+                    alt="Logo"
+                    width={128}
+                    height={80}
+                    className="object-contain"
+                    unoptimized
+                  />
+                </div>
+              )}
+              <div>
+                <div className="text-xl font-bold text-foreground">{ownerConfig.name}</div>
+                <div className="text-sm text-muted-foreground leading-6">{ownerConfig.address}</div>
+                <div className="text-sm font-semibold text-primary mt-1">
+                  โทร. {ownerConfig.phone}
+                </div>
+              </div>
+            </div>
+            <div className="text-right">
+              <h1 className="text-2xl font-extrabold text-foreground">ใบเสนอราคาเช่า</h1>
+              <p className="text-sm text-muted-foreground">Rental Quotation</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-3 bg-muted/40 border border-border rounded-lg p-3 mb-4">
+            <div>
+              <div className="text-xs text-muted-foreground font-semibold uppercase">
+                เลขที่ใบเสนอราคา
+              </div>
+              <div className="text-sm font-semibold text-foreground">{quote.quoteNumber}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground font-semibold uppercase">
+                วันที่เช่า
+              </div>
+              <div className="text-sm font-semibold text-foreground">
+                {formatThaiDate(startDate)}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground font-semibold uppercase">
+                วันที่ครบกำหนด
+              </div>
+              <div className="text-sm font-semibold text-foreground">{formatThaiDate(endDate)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground font-semibold uppercase">
+                จำนวนวันเช่า
+              </div>
+              <div className="text-sm font-semibold text-foreground">{rentalDays} วัน</div>
+            </div>
+          </div>
+
+          <div className="bg-muted/30 border-l-4 border-primary rounded-lg p-3 mb-4">
+            <div className="text-primary font-bold mb-1">ชื่อลูกค้า</div>
+            <div className="text-base font-semibold text-foreground">{quote.customerName}</div>
+            {quote.customerPhone && (
+              <div className="text-sm text-muted-foreground mt-1">โทร. {quote.customerPhone}</div>
+            )}
+            {quote.customerAddress && (
+              <div className="text-sm text-muted-foreground mt-1">{quote.customerAddress}</div>
+            )}
+          </div>
+
+          <div className="overflow-hidden border border-border rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-primary text-white">
+                <tr>
+                  <th className="p-2 text-center w-[6%]">ลำดับ</th>
+                  <th className="p-2 text-left w-[34%]">รายการ</th>
+                  <th className="p-2 text-center w-[10%]">จำนวน</th>
+                  <th className="p-2 text-right w-[22%]">ระยะเวลา</th>
+                  <th className="p-2 text-right w-[14%]">จำนวนเงิน</th>
+                  <th className="p-2 text-right w-[14%]">เงินประกัน</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quote.items.map((item, idx) => (
+                  <tr key={idx} className="border-t border-border">
+                    <td className="p-2 text-center font-semibold">{idx + 1}</td>
+                    <td className="p-2 font-semibold text-foreground">{item.productName}</td>
+                    <td className="p-2 text-center">{item.quantity}</td>
+                    <td className="p-2 text-right text-xs">{formatPricingPeriods(item.pricing)}</td>
+                    <td className="p-2 text-right font-bold text-primary">
+                      {item.lineTotal.toFixed(2)} ฿
+                    </td>
+                    <td className="p-2 text-right">
+                      {item.insuranceFee > 0 ? (item.insuranceFee * item.quantity).toFixed(2) : "-"}{" "}
+                      ฿
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-8 grid grid-cols-2 gap-4">
+            <div className="space-y-2 text-sm">
+              <div className="border border-dashed border-primary rounded-lg p-3 font-semibold text-primary">
+                ใบเสนอราคานี้มีผลถึงวันที่ {formatThaiDate(new Date(quote.validUntil))}
+              </div>
+              {quote.notes && (
+                <div className="text-muted-foreground whitespace-pre-line">
+                  หมายเหตุ: {quote.notes}
+                </div>
+              )}
+            </div>
+
+            <div className="border border-border rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <tbody>
+                  <tr>
+                    <td className="p-2 font-semibold text-muted-foreground">เงินค่าเช่า/วัน</td>
+                    <td className="p-2 text-right font-semibold">
+                      {quote.dailyRate.toLocaleString()} ฿
+                    </td>
+                  </tr>
+                  <tr>
+                    <td className="p-2 font-semibold text-muted-foreground">รวมเงินค่าเช่า</td>
+                    <td className="p-2 text-right font-semibold">
+                      {quote.totalAmount.toLocaleString()} ฿
+                    </td>
+                  </tr>
+                  {quote.deposit > 0 && (
+                    <tr>
+                      <td className="p-2 font-semibold text-muted-foreground">เงินประกัน</td>
+                      <td className="p-2 text-right font-semibold">
+                        {quote.deposit.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  )}
+                  {quote.shippingCost > 0 && (
+                    <tr>
+                      <td className="p-2 font-semibold text-muted-foreground">ค่าขนส่งไป-กลับ</td>
+                      <td className="p-2 text-right font-semibold">
+                        {quote.shippingCost.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  )}
+                  <tr className="bg-muted/40">
+                    <td className="p-2 font-bold text-foreground">รวมเงินทั้งสิ้น</td>
+                    <td className="p-2 text-right font-bold text-primary">
+                      {grandTotal.toLocaleString()} ฿
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="mt-8 pt-6 border-t-2 border-border grid grid-cols-2 gap-10">
+            <div className="text-center">
+              <div className="text-sm font-semibold text-muted-foreground mb-16">
+                ผู้อนุมัติใบเสนอราคา (ลูกค้า)
+              </div>
+              <div className="border-t-2 border-foreground w-48 mx-auto mt-16"></div>
+              <div className="text-xs text-muted-foreground mt-2">({quote.customerName})</div>
+            </div>
+            <div className="text-center">
+              <div className="text-sm font-semibold text-muted-foreground mb-16">ผู้เสนอราคา</div>
+              <div className="border-t-2 border-foreground w-48 mx-auto mt-16"></div>
+              <div className="text-xs text-muted-foreground mt-2">
+                ({ownerConfig.bankAccountName || ""})
+              </div>
+            </div>
+          </div>
+
+          <div className="text-center text-sm text-muted-foreground mt-6">ขอบคุณที่ใช้บริการ</div>
+        </div>
+      </div>
+    </div>
+  );
+}
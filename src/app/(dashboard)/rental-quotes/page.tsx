@@ -0,0 +1,694 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { trpc } from "@/lib/trpc/client";
+import {
+  PageHeader,
+  SectionCard,
+  Button,
+  Badge,
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+  Input,
+} from "@/components";
+import { Textarea } from "@/components/ui/textarea";
+import { ClipboardList, Plus, Loader2, Printer, Trash2, X, CalendarCheck } from "lucide-react";
+import { createRentalQuoteSchema } from "@/lib/trpc/schemas";
+import type { CreateRentalQuoteInput } from "@/lib/trpc/schemas";
+import type { RentalQuoteDTO } from "@/lib/trpc/services/rental-quote.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+type QuoteFilter = "all" | "open" | "expired" | "converted" | "cancelled";
+
+const formatAmount = (amount: number) =>
+  `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} บาท`;
+
+const toDateInputValue = (value: unknown) =>
+  value instanceof Date && !isNaN(value.getTime()) ? value.toISOString().split("T")[0] : "";
+
+export default function RentalQuotesPage() {
+  const t = useTranslation();
+  const router = useRouter();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<QuoteFilter>("all");
+
+  // Describe a line's priced period, e.g. "1 เดือน + 2 สัปดาห์ + 3 วัน"
+  const formatPricingPeriods = (pricing: RentalQuoteDTO["items"][number]["pricing"]) =>
+    [
+      pricing.months > 0 && `${pricing.months} ${t.rental.months}`,
+      pricing.weeks > 0 && `${pricing.weeks} ${t.rental.weeks}`,
+      pricing.extraDays > 0 && `${pricing.extraDays} ${t.rental.days}`,
+    ]
+      .filter(Boolean)
+      .join(" + ") || `${pricing.days} ${t.rental.days}`;
+
+  const utils = trpc.useUtils();
+
+  const { data, isLoading } = trpc.rentalQuote.list.useQuery({
+    status: statusFilter !== "all" ? statusFilter : undefined,
+    page: 1,
+    limit: 50,
+  });
+
+  const { data: rentalProducts } = trpc.product.list.useQuery({
+    stockType: "rental",
+    page: 1,
+    limit: 100,
+  });
+
+  const createMutation = trpc.rentalQuote.create.useMutation({
+    onSuccess: () => {
+      utils.rentalQuote.list.invalidate();
+      closeModal();
+    },
+  });
+
+  const convertMutation = trpc.rentalQuote.convert.useMutation({
+    onSuccess: () => {
+      utils.rentalQuote.list.invalidate();
+      utils.rental.list.invalidate();
+      utils.rentalAsset.list.invalidate();
+    },
+  });
+
+  const cancelMutation = trpc.rentalQuote.cancel.useMutation({
+    onSuccess: () => {
+      utils.rentalQuote.list.invalidate();
+    },
+  });
+
+  const emptyForm = {
+    customerName: "",
+    customerPhone: "",
+    customerEmail: "",
+    customerAddress: "",
+    items: [],
+    startDate: new Date(),
+    endDate: new Date(),
+    validUntil: undefined,
+    deposit: 0,
+    shippingCost: 0,
+    notes: "",
+  };
+
+  const form = useForm({
+    resolver: zodResolver(createRentalQuoteSchema),
+    defaultValues: emptyForm,
+  });
+
+  // Price preview for the selected products (the server prices the quote the same way on save)
+  const watchedStartDate = form.watch("startDate") as Date | null;
+  const watchedEndDate = form.watch("endDate") as Date | null;
+  const hasValidPeriod =
+    watchedStartDate instanceof Date &&
+    watchedEndDate instanceof Date &&
+    watchedEndDate > watchedStartDate;
+  const selectedItems = (form.watch("items") || []).filter((item) => item.productId);
+  const { data: pricePreview } = trpc.rentalQuote.price.useQuery(
+    {
+      items: selectedItems,
+      startDate: watchedStartDate as Date,
+      endDate: watchedEndDate as Date,
+    },
+    { enabled: hasValidPeriod && selectedItems.length > 0 }
+  );
+
+  const openCreateModal = () => {
+    form.reset(emptyForm);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    form.reset();
+    createMutation.reset();
+  };
+
+  const onSubmit = (values: CreateRentalQuoteInput) => {
+    createMutation.mutate(values);
+  };
+
+  const getStatusBadge = (quote: Pick<RentalQuoteDTO, "status" | "isExpired">) => {
+    if (quote.isExpired) {
+      return (
+        <Badge variant="status" color="warning">
+          {t.rentalQuote.statusExpired}
+        </Badge>
+      );
+    }
+    const statusMap: Record<
+      RentalQuoteDTO["status"],
+      { label: string; color: "blue" | "success" | "error" }
+    > = {
+      open: { label: t.rentalQuote.statusOpen, color: "blue" },
+      converted: { label: t.rentalQuote.statusConverted, color: "success" },
+      cancelled: { label: t.rentalQuote.statusCancelled, color: "error" },
+    };
+    const statusInfo = statusMap[quote.status];
+    return (
+      <Badge variant="status" color={statusInfo.color}>
+        {statusInfo.label}
+      </Badge>
+    );
+  };
+
+  const filterLabels: Record<Exclude<QuoteFilter, "all">, string> = {
+    open: t.rentalQuote.statusOpen,
+    expired: t.rentalQuote.statusExpired,
+    converted: t.rentalQuote.statusConverted,
+    cancelled: t.rentalQuote.statusCancelled,
+  };
+
+  const actionError = convertMutation.error || cancelMutation.error;
+
+  return (
+    <>
+      <PageHeader title={t.rentalQuote.title} description={t.rentalQuote.description}>
+        <Button onClick={openCreateModal}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t.rentalQuote.create}
+        </Button>
+      </PageHeader>
+
+      <div className="p-6 space-y-6">
+        <SectionCard title={t.rentalQuote.title} icon={ClipboardList}>
+          {actionError && (
+            <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+              {actionError.message}
+            </div>
+          )}
+          {convertMutation.data && (
+            <div className="mb-4 p-3 bg-success/10 border border-success/20 rounded-md text-success text-sm">
+              {t.rentalQuote.converted}: {convertMutation.data.quoteNumber}
+            </div>
+          )}
+          <div className="mb-4 flex gap-2 flex-wrap">
+            <Button
+              variant={statusFilter === "all" ? "default" : "outline"}
+              onClick={() => setStatusFilter("all")}
+            >
+              ทั้งหมด
+            </Button>
+            {(Object.keys(filterLabels) as Array<keyof typeof filterLabels>).map((status) => (
+              <Button
+                key={status}
+                variant={statusFilter === status ? "default" : "outline"}
+                onClick={() => setStatusFilter(status)}
+              >
+                {filterLabels[status]}
+              </Button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !data || data.quotes.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">{t.rentalQuote.noQuotes}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border bg-muted/50">
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rentalQuote.quoteNumber}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rental.customerName}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rental.startDate}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rental.endDate}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rentalQuote.items}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rentalQuote.validUntil}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.common.status}
+                    </th>
+                    <th className="text-right p-3 text-sm font-semibold text-foreground">
+                      {t.rental.totalAmount}
+                    </th>
+                    <th className="text-right p-3 text-sm font-semibold text-foreground">
+                      {t.common.actions}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.quotes.map((quote) => {
+                    const canAct = quote.status === "open";
+                    return (
+                      <tr
+                        key={quote.id}
+                        className="border-b border-border hover:bg-muted/30 transition-colors align-top"
+                      >
+                        <td className="p-3 text-sm font-medium text-foreground">
+                          {quote.quoteNumber}
+                        </td>
+                        <td className="p-3 text-sm text-foreground">
+                          <div>{quote.customerName}</div>
+                          {quote.customerPhone && (
+                            <div className="text-xs text-muted-foreground">
+                              {quote.customerPhone}
+                            </div>
+                          )}
+                        </td>
+                        <td className="p-3 text-sm text-muted-foreground">
+                          {new Date(quote.startDate).toLocaleDateString("th-TH")}
+                        </td>
+                        <td className="p-3 text-sm text-muted-foreground">
+                          {new Date(quote.endDate).toLocaleDateString("th-TH")}
+                        </td>
+                        <td className="p-3 text-sm text-foreground">
+                          {quote.items
+                            .map((item) => `${item.productName} x${item.quantity}`)
+                            .join(", ")}
+                        </td>
+                        <td className="p-3 text-sm text-muted-foreground">
+                          {new Date(quote.validUntil).toLocaleDateString("th-TH")}
+                        </td>
+                        <td className="p-3">{getStatusBadge(quote)}</td>
+                        <td className="p-3 text-sm text-right font-medium text-foreground">
+                          {formatAmount(quote.totalAmount)}
+                        </td>
+                        <td className="p-3">
+                          <div className="flex gap-2 justify-end flex-wrap">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => router.push(`/rental-quotes/${quote.id}/print`)}
+                            >
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                            {canAct && !quote.isExpired && (
+                              <Button
+                                size="sm"
+                                disabled={convertMutation.isPending}
+                                onClick={() => {
+                                  if (confirm(t.rentalQuote.convertConfirm)) {
+                                    convertMutation.mutate({ id: quote.id });
+                                  }
+                                }}
+                              >
+                                <CalendarCheck className="h-4 w-4 mr-1" />
+                                {t.rentalQuote.convert}
+                              </Button>
+                            )}
+                            {canAct && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={cancelMutation.isPending}
+                                onClick={() => {
+                                  if (confirm(t.rentalQuote.cancelConfirm)) {
+                                    cancelMutation.mutate({ id: quote.id });
+                                  }
+                                }}
+                              >
+                                <X className="h-4 w-4 text-error" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </SectionCard>
+      </div>
+
+      {/* Create Quote Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card border border-border rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-xl">
+            <h2 className="text-xl font-bold text-foreground mb-4">{t.rentalQuote.create}</h2>
+
+            {createMutation.error && (
+              <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+                {createMutation.error.message}
+              </div>
+            )}
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="customerName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.rental.customerName}</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="customerPhone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.rental.customerPhone}</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="customerEmail"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.rental.customerEmail}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="email"
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value || undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="customerAddress"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.rental.customerAddress}</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} rows={2} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="items"
+                  render={({ field }) => {
+                    const items = field.value || [];
+
+                    const addItem = () => {
+                      const firstProduct = rentalProducts?.products[0];
+                      if (!firstProduct) return;
+                      field.onChange([...items, { productId: firstProduct.id, quantity: 1 }]);
+                    };
+
+                    const removeItem = (index: number) => {
+                      field.onChange(items.filter((_: unknown, i: number) => i !== index));
+                    };
+
+                    const updateItem = (
+                      index: number,
+                      fieldName: "productId" | "quantity",
+                      value: string | number
+                    ) => {
+                      const newItems = [...items];
+                      newItems[index] =
+                        fieldName === "productId"
+                          ? { ...newItems[index], productId: value as string }
+                          : { ...newItems[index], quantity: Math.max(1, value as number) };
+                      field.onChange(newItems);
+                    };
+
+                    return (
+                      <FormItem>
+                        <div className="flex justify-between items-center mb-2">
+                          <FormLabel>{t.rentalQuote.items}</FormLabel>
+                          <Button type="button" variant="outline" size="sm" onClick={addItem}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            {t.rentalQuote.addItem}
+                          </Button>
+                        </div>
+                        <FormControl>
+                          <div className="space-y-2">
+                            {items.map(
+                              (item: { productId: string; quantity: number }, index: number) => (
+                                <div
+                                  key={index}
+                                  className="grid grid-cols-12 gap-2 items-end p-3 border border-border rounded"
+                                >
+                                  <div className="col-span-6">
+                                    <label className="text-sm text-muted-foreground mb-1 block">
+                                      {t.rentalQuote.product}
+                                    </label>
+                                    <select
+                                      value={item.productId}
+                                      onChange={(e) =>
+                                        updateItem(index, "productId", e.target.value)
+                                      }
+                                      className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                                    >
+                                      {rentalProducts?.products.map((product) => (
+                                        <option key={product.id} value={product.id}>
+                                          {product.name}
+                                          {product.dailyRentalRate
+                                            ? ` (${product.dailyRentalRate.toLocaleString("th-TH", {
+                                                minimumFractionDigits: 2,
+                                                maximumFractionDigits: 2,
+                                              })} ฿/วัน)`
+                                            : ""}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                  <div className="col-span-4">
+                                    <label className="text-sm text-muted-foreground mb-1 block">
+                                      {t.rentalQuote.quantity}
+                                    </label>
+                                    <Input
+                                      type="number"
+                                      min="1"
+                                      value={item.quantity || 1}
+                                      onChange={(e) =>
+                                        updateItem(index, "quantity", parseInt(e.target.value) || 1)
+                                      }
+                                    />
+                                  </div>
+                                  <div className="col-span-2">
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => removeItem(index)}
+                                    >
+                                      <Trash2 className="h-4 w-4 text-error" />
+                                    </Button>
+                                  </div>
+                                </div>
+                              )
+                            )}
+                            {items.length === 0 && (
+                              <div className="text-center py-8 text-muted-foreground border border-border rounded">
+                                {t.rentalQuote.noItems}
+                              </div>
+                            )}
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    );
+                  }}
+                />
+
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="startDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.rental.startDate}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            value={toDateInputValue(field.value)}
+                            onChange={(e) =>
+                              field.onChange(e.target.value ? new Date(e.target.value) : new Date())
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="endDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.rental.endDate}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            value={toDateInputValue(field.value)}
+                            onChange={(e) =>
+                              field.onChange(e.target.value ? new Date(e.target.value) : new Date())
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="validUntil"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.rentalQuote.validUntil}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            value={toDateInputValue(field.value)}
+                            onChange={(e) =>
+                              field.onChange(
+                                e.target.value ? new Date(`${e.target.value}T23:59:59`) : undefined
+                              )
+                            }
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">
+                          {t.rentalQuote.validUntilHint}
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {pricePreview && (
+                  <div className="rounded-md border border-border p-3 space-y-1 text-sm">
+                    <div className="font-semibold text-foreground">{t.rental.priceBreakdown}</div>
+                    {pricePreview.items.map((line, idx) => (
+                      <div key={idx} className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">
+                          {line.productName} × {line.quantity} ({formatPricingPeriods(line.pricing)}
+                          )
+                        </span>
+                        <span className="text-foreground">{formatAmount(line.lineTotal)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-semibold">
+                      <span className="text-foreground">{t.rental.rentalTotal}</span>
+                      <span className="text-foreground">
+                        {formatAmount(pricePreview.totalAmount)}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="deposit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.rental.deposit}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="text"
+                            {...field}
+                            value={field.value?.toString() || ""}
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              if (value === "" || /^\d*\.?\d*$/.test(value)) {
+                                field.onChange(value === "" ? 0 : parseFloat(value) || 0);
+                              }
+                            }}
+                            placeholder="0"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="shippingCost"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>ค่าขนส่ง</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="text"
+                            {...field}
+                            value={field.value?.toString() || ""}
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              if (value === "" || /^\d*\.?\d*$/.test(value)) {
+                                field.onChange(value === "" ? 0 : parseFloat(value) || 0);
+                              }
+                            }}
+                            placeholder="0"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.common.notes}</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={closeModal}>
+                    {t.common.cancel}
+                  </Button>
+                  <Button type="submit" disabled={createMutation.isPending}>
+                    {createMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    {t.common.save}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
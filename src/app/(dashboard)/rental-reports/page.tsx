@@ -0,0 +1,330 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { PageHeader, SectionCard, Button, Input, StatCard, StatCardGrid } from "@/components";
+import { BarChart3, Box, Download, Loader2, Package, Percent, Wallet } from "lucide-react";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { downloadCsv, toCsv } from "@/lib/csv";
+
+const toInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatPercent = (value?: number) => (value === undefined ? "-" : `${value}%`);
+
+/**
+ * Rental reports
+ *
+ * Utilization, revenue and payback of rental products and their assets over
+ * a date range, with CSV export of both tables. The end date is inclusive.
+ */
+export default function RentalReportsPage() {
+  const t = useTranslation();
+  const [startDate, setStartDate] = useState(() => {
+    const date = new Date();
+    date.setDate(1);
+    return toInputValue(date);
+  });
+  const [endDate, setEndDate] = useState(() => toInputValue(new Date()));
+  const [productId, setProductId] = useState("");
+
+  const periodStart = new Date(`${startDate}T00:00`);
+  const periodEnd = new Date(`${endDate}T00:00`);
+  periodEnd.setDate(periodEnd.getDate() + 1);
+  const hasValidPeriod =
+    !Number.isNaN(periodStart.getTime()) &&
+    !Number.isNaN(periodEnd.getTime()) &&
+    periodEnd > periodStart;
+
+  const { data: products } = trpc.product.list.useQuery({
+    stockType: "rental",
+    page: 1,
+    limit: 100,
+  });
+  const {
+    data: report,
+    isLoading,
+    error,
+  } = trpc.rentalReport.summary.useQuery(
+    { startDate: periodStart, endDate: periodEnd, productId: productId || undefined },
+    { enabled: hasValidPeriod }
+  );
+
+  const exportProducts = () => {
+    if (!report) return;
+    downloadCsv(
+      `rental-report-products-${startDate}-${endDate}.csv`,
+      toCsv(
+        [
+          t.rentalReport.product,
+          "SKU",
+          t.rentalReport.assetCount,
+          t.rentalReport.rentedDays,
+          t.rentalReport.utilization,
+          t.rentalReport.rentalCount,
+          t.rentalReport.averageRentalDays,
+          t.rentalReport.rentalRevenue,
+          t.rentalReport.penaltyRevenue,
+          t.rentalReport.totalRevenue,
+          t.rentalReport.revenuePerUnit,
+          t.rentalReport.replacementPrice,
+          t.rentalReport.payback,
+        ],
+        report.products.map((row) => [
+          row.productName,
+          row.productSku,
+          row.assetCount,
+          row.rentedDays,
+          row.utilizationPercent,
+          row.rentalCount,
+          row.averageRentalDays,
+          row.rentalRevenue,
+          row.penaltyRevenue,
+          row.totalRevenue,
+          row.revenuePerUnit,
+          row.replacementPrice,
+          row.paybackPercent,
+        ])
+      )
+    );
+  };
+
+  const exportAssets = () => {
+    if (!report) return;
+    downloadCsv(
+      `rental-report-assets-${startDate}-${endDate}.csv`,
+      toCsv(
+        [
+          t.rentalReport.asset,
+          t.rentalReport.product,
+          t.rentalReport.rentedDays,
+          t.rentalReport.utilization,
+          t.rentalReport.rentalCount,
+          t.rentalReport.averageRentalDays,
+          t.rentalReport.rentalRevenue,
+          t.rentalReport.penaltyRevenue,
+          t.rentalReport.totalRevenue,
+          t.rentalReport.replacementPrice,
+          t.rentalReport.payback,
+        ],
+        report.assets.map((row) => [
+          row.assetCode,
+          row.productName,
+          row.rentedDays,
+          row.utilizationPercent,
+          row.rentalCount,
+          row.averageRentalDays,
+          row.rentalRevenue,
+          row.penaltyRevenue,
+          row.totalRevenue,
+          row.replacementPrice,
+          row.paybackPercent,
+        ])
+      )
+    );
+  };
+
+  return (
+    <>
+      <PageHeader title={t.rentalReport.title} description={t.rentalReport.description} />
+
+      <div className="p-6 space-y-6">
+        <div className="flex gap-2 flex-wrap items-end">
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+              {t.rentalReport.startDate}
+            </label>
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-auto"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+              {t.rentalReport.endDate}
+            </label>
+            <Input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-auto"
+            />
+          </div>
+          <select
+            value={productId}
+            onChange={(e) => setProductId(e.target.value)}
+            className="rounded-md border border-border bg-input px-3 py-2 text-foreground"
+          >
+            <option value="">{t.rentalReport.allProducts}</option>
+            {products?.products.map((product) => (
+              <option key={product.id} value={product.id}>
+                {product.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <p className="text-xs text-muted-foreground">{t.rentalReport.hint}</p>
+
+        {error && (
+          <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {error.message}
+          </div>
+        )}
+
+        {isLoading && hasValidPeriod ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          report && (
+            <>
+              <StatCardGrid columns={4}>
+                <StatCard
+                  label={t.rentalReport.assetCount}
+                  value={report.totals.assetCount}
+                  icon={Box}
+                  variant="blue"
+                />
+                <StatCard
+                  label={t.rentalReport.utilization}
+                  value={formatPercent(report.totals.utilizationPercent)}
+                  icon={Percent}
+                  variant="teal"
+                />
+                <StatCard
+                  label={t.rentalReport.totalRevenue}
+                  value={formatMoney(report.totals.totalRevenue)}
+                  icon={Wallet}
+                  variant="indigo"
+                />
+                <StatCard
+                  label={t.rentalReport.averageRentalDays}
+                  value={report.totals.averageRentalDays}
+                  icon={BarChart3}
+                  variant="navy"
+                />
+              </StatCardGrid>
+
+              <SectionCard title={t.rentalReport.byProduct} icon={Package}>
+                <div className="mb-4 flex justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={report.products.length === 0}
+                    onClick={exportProducts}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {t.rentalReport.exportCsv}
+                  </Button>
+                </div>
+                {report.products.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t.rentalReport.noData}</p>
+                ) : (
+                  <div className="overflow-x-auto border border-border rounded-lg">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/40 text-muted-foreground">
+                        <tr>
+                          <th className="p-2 text-left">{t.rentalReport.product}</th>
+                          <th className="p-2 text-right">{t.rentalReport.assetCount}</th>
+                          <th className="p-2 text-right">{t.rentalReport.utilization}</th>
+                          <th className="p-2 text-right">{t.rentalReport.rentalCount}</th>
+                          <th className="p-2 text-right">{t.rentalReport.averageRentalDays}</th>
+                          <th className="p-2 text-right">{t.rentalReport.rentalRevenue}</th>
+                          <th className="p-2 text-right">{t.rentalReport.penaltyRevenue}</th>
+                          <th className="p-2 text-right">{t.rentalReport.revenuePerUnit}</th>
+                          <th className="p-2 text-right">{t.rentalReport.payback}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.products.map((row) => (
+                          <tr key={row.productId} className="border-t border-border">
+                            <td className="p-2 font-semibold text-foreground">
+                              {row.productName || "-"}
+                              {row.productSku && (
+                                <div className="text-xs text-muted-foreground">
+                                  SKU: {row.productSku}
+                                </div>
+                              )}
+                            </td>
+                            <td className="p-2 text-right">{row.assetCount}</td>
+                            <td className="p-2 text-right">
+                              {formatPercent(row.utilizationPercent)}
+                            </td>
+                            <td className="p-2 text-right">{row.rentalCount}</td>
+                            <td className="p-2 text-right">{row.averageRentalDays}</td>
+                            <td className="p-2 text-right">{formatMoney(row.rentalRevenue)}</td>
+                            <td className="p-2 text-right">{formatMoney(row.penaltyRevenue)}</td>
+                            <td className="p-2 text-right">{formatMoney(row.revenuePerUnit)}</td>
+                            <td className="p-2 text-right">{formatPercent(row.paybackPercent)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </SectionCard>
+
+              <SectionCard title={t.rentalReport.byAsset} icon={Box}>
+                <div className="mb-4 flex justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={report.assets.length === 0}
+                    onClick={exportAssets}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {t.rentalReport.exportCsv}
+                  </Button>
+                </div>
+                {report.assets.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t.rentalReport.noData}</p>
+                ) : (
+                  <div className="overflow-x-auto border border-border rounded-lg">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/40 text-muted-foreground">
+                        <tr>
+                          <th className="p-2 text-left">{t.rentalReport.asset}</th>
+                          <th className="p-2 text-left">{t.rentalReport.product}</th>
+                          <th className="p-2 text-right">{t.rentalReport.rentedDays}</th>
+                          <th className="p-2 text-right">{t.rentalReport.utilization}</th>
+                          <th className="p-2 text-right">{t.rentalReport.rentalCount}</th>
+                          <th className="p-2 text-right">{t.rentalReport.totalRevenue}</th>
+                          <th className="p-2 text-right">{t.rentalReport.payback}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.assets.map((row) => (
+                          <tr key={row.assetId} className="border-t border-border">
+                            <td className="p-2 font-semibold text-foreground">{row.assetCode}</td>
+                            <td className="p-2">{row.productName || "-"}</td>
+                            <td className="p-2 text-right">
+                              {row.rentedDays} / {report.periodDays}
+                            </td>
+                            <td className="p-2 text-right">
+                              {formatPercent(row.utilizationPercent)}
+                            </td>
+                            <td className="p-2 text-right">{row.rentalCount}</td>
+                            <td className="p-2 text-right">{formatMoney(row.totalRevenue)}</td>
+                            <td className="p-2 text-right">{formatPercent(row.paybackPercent)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </SectionCard>
+            </>
+          )
+        )}
+      </div>
+    </>
+  );
+}
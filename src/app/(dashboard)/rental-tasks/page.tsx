@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { trpc } from "@/lib/trpc/client";
+import { PageHeader, SectionCard, Button, Input } from "@/components";
+import { Loader2, Printer, Truck } from "lucide-react";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import {
+  RentalTaskActions,
+  RentalTaskStatusBadge,
+  RentalTaskTypeBadge,
+  formatTimeSlot,
+  todayInputValue,
+} from "./rental-task-ui";
+
+/**
+ * Daily route sheet
+ *
+ * Lists the day's deliveries and pickups in time slot order, optionally for
+ * one staff member, with status actions and a link to the printable driver sheet.
+ */
+export default function RentalTasksPage() {
+  const t = useTranslation();
+  const router = useRouter();
+  const [date, setDate] = useState(todayInputValue);
+  const [assignedTo, setAssignedTo] = useState("");
+
+  const { data: staff } = trpc.user.staff.useQuery();
+  const { data: routeSheet, isLoading } = trpc.rentalTask.routeSheet.useQuery(
+    { date: new Date(`${date}T00:00`), assignedTo: assignedTo || undefined },
+    { enabled: !!date }
+  );
+
+  const printDriverSheet = () => {
+    const params = new URLSearchParams({ date });
+    if (assignedTo) {
+      params.set("assignedTo", assignedTo);
+    }
+    router.push(`/rental-tasks/print?${params.toString()}`);
+  };
+
+  return (
+    <>
+      <PageHeader title={t.rentalTask.title} description={t.rentalTask.routeSheet}>
+        <Button onClick={printDriverSheet} disabled={!date}>
+          <Printer className="h-4 w-4 mr-2" />
+          {t.rentalTask.printDriverSheet}
+        </Button>
+      </PageHeader>
+
+      <div className="p-6 space-y-6">
+        <SectionCard title={t.rentalTask.routeSheet} icon={Truck}>
+          <div className="mb-4 flex gap-2 flex-wrap">
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-auto"
+            />
+            <select
+              value={assignedTo}
+              onChange={(e) => setAssignedTo(e.target.value)}
+              className="rounded-md border border-border bg-input px-3 py-2 text-foreground"
+            >
+              <option value="">{t.rentalTask.allStaff}</option>
+              {staff?.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !routeSheet || routeSheet.tasks.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">{t.rentalTask.noTasks}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border bg-muted/50">
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rentalTask.timeSlot}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rentalTask.type}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rentalTask.customer}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rentalTask.address}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rentalTask.assets}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.rentalTask.assignedTo}
+                    </th>
+                    <th className="text-left p-3 text-sm font-semibold text-foreground">
+                      {t.common.status}
+                    </th>
+                    <th className="text-right p-3 text-sm font-semibold text-foreground">
+                      {t.common.actions}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {routeSheet.tasks.map((task) => (
+                    <tr
+                      key={task.id}
+                      className="border-b border-border hover:bg-muted/30 transition-colors align-top"
+                    >
+                      <td className="p-3 text-sm font-medium text-foreground whitespace-nowrap">
+                        {formatTimeSlot(task.scheduledStart, task.scheduledEnd)}
+                      </td>
+                      <td className="p-3">
+                        <RentalTaskTypeBadge type={task.type} />
+                      </td>
+                      <td className="p-3 text-sm text-foreground">
+                        <div>{task.customerName}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {task.rentalNumber}
+                          {task.customerPhone && ` · ${task.customerPhone}`}
+                        </div>
+                      </td>
+                      <td className="p-3 text-sm text-muted-foreground">{task.address}</td>
+                      <td className="p-3 text-sm text-muted-foreground">
+                        {task.assets
+                          .map(
+                            (asset) =>
+                              `${asset.assetCode}${asset.quantity > 1 ? ` x${asset.quantity}` : ""}`
+                          )
+                          .join(", ")}
+                      </td>
+                      <td className="p-3 text-sm text-foreground">
+                        {task.assignedToName || t.rentalTask.unassigned}
+                      </td>
+                      <td className="p-3">
+                        <RentalTaskStatusBadge status={task.status} />
+                      </td>
+                      <td className="p-3 text-right">
+                        <RentalTaskActions task={task} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </SectionCard>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { use } from "react";
+import { useRouter } from "next/navigation";
+import { trpc } from "@/lib/trpc/client";
+import { ownerConfig } from "@/lib/config/owner";
+import { Button } from "@/components";
+import { Printer, X, Loader2 } from "lucide-react";
+import type { RentalTaskDTO } from "@/lib/trpc/services/rental-task.service";
+import { formatTimeSlot } from "../rental-task-ui";
+
+interface DriverSheetPageProps {
+  searchParams: Promise<{ date?: string; assignedTo?: string }>;
+}
+
+const TASK_TYPE_LABELS: Record<RentalTaskDTO["type"], string> = {
+  delivery: "จัดส่ง",
+  pickup: "รับคืน",
+};
+
+/**
+ * Escape text for the print window's HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * List a task's assets, e.g. "A001 - เต็นท์ x2, A002 - โต๊ะ"
+ */
+function formatTaskAssets(task: RentalTaskDTO): string {
+  return task.assets
+    .map(
+      (asset) =>
+        `${[asset.assetCode, asset.productName].filter(Boolean).join(" - ")}${
+          asset.quantity > 1 ? ` x${asset.quantity}` : ""
+        }`
+    )
+    .join(", ");
+}
+
+/**
+ * Group tasks by assigned staff so each driver gets their own sheet
+ */
+function groupTasksByStaff(tasks: RentalTaskDTO[]) {
+  const groups = new Map<string, { staffName: string; tasks: RentalTaskDTO[] }>();
+  tasks.forEach((task) => {
+    const key = task.assignedTo || "unassigned";
+    const group = groups.get(key);
+    if (group) {
+      group.tasks.push(task);
+    } else {
+      groups.set(key, { staffName: task.assignedToName || "ยังไม่มอบหมาย", tasks: [task] });
+    }
+  });
+  return [...groups.values()];
+}
+
+export default function DriverSheetPage({ searchParams }: DriverSheetPageProps) {
+  const { date, assignedTo } = use(searchParams);
+  const router = useRouter();
+  const sheetDate = date ? new Date(`${date}T00:00`) : new Date();
+
+  const { data: routeSheet, isLoading } = trpc.rentalTask.routeSheet.useQuery({
+    date: sheetDate,
+    assignedTo,
+  });
+
+  const formatThaiDate = (value: Date) => {
+    return new Intl.DateTimeFormat("th-TH", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    }).format(value);
+  };
+
+  const handlePrint = () => {
+    if (typeof window === "undefined" || !routeSheet) return;
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    const sheets = groupTasksByStaff(routeSheet.tasks)
+      .map(
+        (group) => `
+          <div class="sheet">
+            <div class="header">
+              <div>
+                <div class="company-name">${escapeHtml(ownerConfig.name)}</div>
+                <div class="company-phone">โทร. ${escapeHtml(ownerConfig.phone)}</div>
+              </div>
+              <div class="title">
+                <h1>ใบงานจัดส่ง/รับคืน</h1>
+                <p>${formatThaiDate(sheetDate)}</p>
+                <p>พนักงาน: ${escapeHtml(group.staffName)}</p>
+              </div>
+            </div>
+            <table>
+              <thead>
+                <tr>
+                  <th>ลำดับ</th>
+                  <th>เวลา</th>
+                  <th>ประเภท</th>
+                  <th>ลูกค้า / ที่อยู่</th>
+                  <th>ทรัพย์สิน</th>
+                  <th>ลายมือชื่อผู้รับ</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${group.tasks
+                  .map(
+                    (task, idx) => `
+                  <tr>
+                    <td class="center">${idx + 1}</td>
+                    <td class="center">${formatTimeSlot(task.scheduledStart, task.scheduledEnd)}</td>
+                    <td class="center">${TASK_TYPE_LABELS[task.type]}</td>
+                    <td>
+                      <strong>${escapeHtml(task.customerName)}</strong> (${escapeHtml(task.rentalNumber)})<br />
+                      ${task.customerPhone ? `โทร. ${escapeHtml(task.customerPhone)}<br />` : ""}
+                      ${escapeHtml(task.address)}
+                      ${task.notes ? `<div class="notes">หมายเหตุ: ${escapeHtml(task.notes)}</div>` : ""}
+                    </td>
+                    <td>${escapeHtml(formatTaskAssets(task))}</td>
+                    <td class="signature"></td>
+                  </tr>`
+                  )
+                  .join("")}
+              </tbody>
+            </table>
+          </div>`
+      )
+      .join("");
+
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>ใบงานจัดส่ง/รับคืน</title>
+          <style>
+            @page { size: A4 landscape; margin: 1cm; }
+            * { box-sizing: border-box; }
+            body { font-family: 'Sarabun', 'Kanit', 'Prompt', sans-serif; margin: 0; padding: 20px; color: #1a1a1a; }
+            .sheet { page-break-after: always; }
+            .sheet:last-child { page-break-after: auto; }
+            .header { display: flex; justify-content: space-between; align-items: flex-start; padding-bottom: 12px; margin-bottom: 12px; border-bottom: 3px solid #2563eb; }
+            .company-name { font-size: 18px; font-weight: 700; color: #1e40af; }
+            .company-phone { font-size: 14px; color: #1e40af; font-weight: 600; margin-top: 4px; }
+            .title { text-align: right; }
+            .title h1 { margin: 0; font-size: 20px; font-weight: 800; }
+            .title p { margin: 4px 0 0 0; font-size: 13px; color: #475569; }
+            table { width: 100%; border-collapse: collapse; font-size: 12px; }
+            th, td { border: 1px solid #000; padding: 8px 6px; vertical-align: top; }
+            th { background: #1e40af; color: white; font-weight: 700; }
+            .center { text-align: center; white-space: nowrap; }
+            .notes { margin-top: 4px; color: #475569; }
+            .signature { width: 160px; height: 60px; }
+          </style>
+        </head>
+        <body>${sheets}</body>
+      </html>
+    `);
+    printWindow.document.close();
+    printWindow.focus();
+    setTimeout(() => printWindow.print(), 250);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const groups = groupTasksByStaff(routeSheet?.tasks || []);
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="no-print mb-4 flex justify-between items-center">
+          <Button variant="outline" onClick={() => router.back()}>
+            <X className="h-4 w-4 mr-2" />
+            กลับ
+          </Button>
+          <Button onClick={handlePrint} disabled={groups.length === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            พิมพ์ใบงาน
+          </Button>
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-lg text-muted-foreground">ไม่มีงานจัดส่ง/รับคืนในวันนี้</p>
+          </div>
+        ) : (
+          groups.map((group) => (
+            <div
+              key={group.staffName}
+              className="bg-white p-8 shadow-xl rounded-lg border border-border/50 mb-6"
+            >
+              <div className="flex justify-between items-start border-b border-border pb-4 mb-4">
+                <div>
+                  <div className="text-xl font-bold text-foreground">{ownerConfig.name}</div>
+                  <div className="text-sm font-semibold text-primary mt-1">
+                    โทร. {ownerConfig.phone}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <h1 className="text-2xl font-extrabold text-foreground">ใบงานจัดส่ง/รับคืน</h1>
+                  <p className="text-sm text-muted-foreground">{formatThaiDate(sheetDate)}</p>
+                  <p className="text-sm text-muted-foreground">พนักงาน: {group.staffName}</p>
+                </div>
+              </div>
+
+              <table className="w-full text-sm border border-border">
+                <thead>
+                  <tr className="bg-muted/50">
+                    <th className="p-2 border border-border">ลำดับ</th>
+                    <th className="p-2 border border-border">เวลา</th>
+                    <th className="p-2 border border-border">ประเภท</th>
+                    <th className="p-2 border border-border text-left">ลูกค้า / ที่อยู่</th>
+                    <th className="p-2 border border-border text-left">ทรัพย์สิน</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.tasks.map((task, idx) => (
+                    <tr key={task.id} className="align-top">
+                      <td className="p-2 border border-border text-center">{idx + 1}</td>
+                      <td className="p-2 border border-border text-center whitespace-nowrap">
+                        {formatTimeSlot(task.scheduledStart, task.scheduledEnd)}
+                      </td>
+                      <td className="p-2 border border-border text-center">
+                        {TASK_TYPE_LABELS[task.type]}
+                      </td>
+                      <td className="p-2 border border-border">
+                        <div className="font-semibold text-foreground">
+                          {task.customerName} ({task.rentalNumber})
+                        </div>
+                        {task.customerPhone && (
+                          <div className="text-muted-foreground">โทร. {task.customerPhone}</div>
+                        )}
+                        <div className="text-muted-foreground">{task.address}</div>
+                        {task.notes && (
+                          <div className="text-muted-foreground">หมายเหตุ: {task.notes}</div>
+                        )}
+                      </td>
+                      <td className="p-2 border border-border text-muted-foreground">
+                        {formatTaskAssets(task)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { Badge, Button } from "@/components";
+import { canTransitionRentalTaskStatus } from "@/lib/trpc/schemas";
+import type { RentalTaskStatus, RentalTaskType } from "@/lib/trpc/schemas";
+import type { RentalTaskDTO } from "@/lib/trpc/services/rental-task.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+/**
+ * Format a task's time slot, e.g. "09:00 - 11:00"
+ */
+export function formatTimeSlot(start: Date, end: Date): string {
+  const formatTime = (date: Date) =>
+    new Date(date).toLocaleTimeString("th-TH", { hour: "2-digit", minute: "2-digit" });
+  return `${formatTime(start)} - ${formatTime(end)}`;
+}
+
+/**
+ * Combine a date input value and a time input value into a Date
+ */
+export function combineDateTime(date: string, time: string): Date {
+  return new Date(`${date}T${time}`);
+}
+
+/**
+ * Today's date as a date input value (local time)
+ */
+export function todayInputValue(): string {
+  const today = new Date();
+  const month = String(today.getMonth() + 1).padStart(2, "0");
+  const day = String(today.getDate()).padStart(2, "0");
+  return `${today.getFullYear()}-${month}-${day}`;
+}
+
+export function RentalTaskTypeBadge({ type }: { type: RentalTaskType }) {
+  const t = useTranslation();
+  return (
+    <Badge variant="status" color={type === "delivery" ? "blue" : "teal"}>
+      {type === "delivery" ? t.rentalTask.typeDelivery : t.rentalTask.typePickup}
+    </Badge>
+  );
+}
+
+export function RentalTaskStatusBadge({ status }: { status: RentalTaskStatus }) {
+  const t = useTranslation();
+  const statusMap: Record<
+    RentalTaskStatus,
+    { label: string; color: "blue" | "success" | "error" | "warning" }
+  > = {
+    scheduled: { label: t.rentalTask.statusScheduled, color: "blue" },
+    in_progress: { label: t.rentalTask.statusInProgress, color: "warning" },
+    completed: { label: t.rentalTask.statusCompleted, color: "success" },
+    cancelled: { label: t.rentalTask.statusCancelled, color: "error" },
+  };
+  return (
+    <Badge variant="status" color={statusMap[status].color}>
+      {statusMap[status].label}
+    </Badge>
+  );
+}
+
+interface RentalTaskActionsProps {
+  task: RentalTaskDTO;
+}
+
+/**
+ * Status actions for a task: start, complete (with check-in for pickups), cancel
+ */
+export function RentalTaskActions({ task }: RentalTaskActionsProps) {
+  const t = useTranslation();
+  const utils = trpc.useUtils();
+  const onSuccess = () => {
+    utils.rentalTask.list.invalidate();
+    utils.rentalTask.routeSheet.invalidate();
+    utils.rental.list.invalidate();
+    utils.rental.getById.invalidate({ id: task.rentalId });
+    utils.rentalAsset.list.invalidate();
+  };
+
+  const statusMutation = trpc.rentalTask.updateStatus.useMutation({ onSuccess });
+  const completeMutation = trpc.rentalTask.complete.useMutation({ onSuccess });
+  const isPending = statusMutation.isPending || completeMutation.isPending;
+  const error = statusMutation.error || completeMutation.error;
+
+  const canCheckIn =
+    task.type === "pickup" &&
+    task.rentalStatus === "active" &&
+    task.assets.some((asset) => !asset.returned);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-1">
+        {canTransitionRentalTaskStatus(task.status, "in_progress") && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isPending}
+            onClick={() => statusMutation.mutate({ id: task.id, status: "in_progress" })}
+          >
+            {t.rentalTask.start}
+          </Button>
+        )}
+        {canTransitionRentalTaskStatus(task.status, "completed") && (
+          <>
+            {canCheckIn && (
+              <Button
+                size="sm"
+                disabled={isPending}
+                onClick={() => completeMutation.mutate({ id: task.id, checkIn: true })}
+              >
+                {t.rentalTask.completeWithCheckIn}
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant={canCheckIn ? "outline" : "default"}
+              disabled={isPending}
+              onClick={() => completeMutation.mutate({ id: task.id, checkIn: false })}
+            >
+              {t.rentalTask.complete}
+            </Button>
+          </>
+        )}
+        {canTransitionRentalTaskStatus(task.status, "cancelled") && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isPending}
+            onClick={() => statusMutation.mutate({ id: task.id, status: "cancelled" })}
+          >
+            {t.rentalTask.cancelTask}
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-error">{error.message}</p>}
+    </div>
+  );
+}
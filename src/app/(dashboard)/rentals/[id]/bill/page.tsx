@@ -7,11 +7,123 @@ import { trpc } from "@/lib/trpc/client";
 import { ownerConfig } from "@/lib/config/owner";
 import { Button } from "@/components";
 import { Printer, X, Loader2 } from "lucide-react";
+import type { RentalDTO } from "@/lib/trpc/services/rental.service";
 
 interface RentalBillPageProps {
   params: Promise<{ id: string }>;
 }
 
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const REFUND_METHOD_LABELS: Record<string, string> = {
+  cash: "เงินสด",
+  transfer: "โอนเงิน",
+  other: "อื่นๆ",
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: "เงินสด",
+  transfer: "โอนเงิน",
+  card: "บัตร",
+};
+
+type RentalLinePricing = NonNullable<RentalDTO["assets"][number]["pricing"]>;
+
+/**
+ * Describe a line's priced period, e.g. "1 เดือน + 2 สัปดาห์ + 3 วัน"
+ */
+function formatPricingPeriods(pricing: RentalLinePricing): string {
+  return (
+    [
+      pricing.months > 0 && `${pricing.months} เดือน × ${pricing.monthlyRate.toLocaleString()} ฿`,
+      pricing.weeks > 0 && `${pricing.weeks} สัปดาห์ × ${pricing.weeklyRate.toLocaleString()} ฿`,
+      pricing.extraDays > 0 && `${pricing.extraDays} วัน × ${pricing.dailyRate.toLocaleString()} ฿`,
+    ]
+      .filter(Boolean)
+      .join(" + ") || `${pricing.days} วัน`
+  );
+}
+
+/**
+ * Group asset lines by asset code and product for the items table
+ *
+ * Lines booked before tiered pricing have no breakdown and show their days at
+ * the line's daily rate instead.
+ */
+function groupBillAssets(rental: RentalDTO, rentalDays: number) {
+  const groups = new Map<
+    string,
+    {
+      assetCode: string;
+      productName?: string;
+      count: number;
+      periods: string;
+      amount: number;
+      insuranceFee: number;
+      replacementPrice: number;
+    }
+  >();
+
+  rental.assets.forEach((asset) => {
+    const quantity = asset.quantity || 1;
+    const groupKey = `${asset.assetCode || "UNKNOWN"}_${asset.productName || "UNKNOWN"}`;
+
+    const group = groups.get(groupKey);
+    if (group) {
+      group.count += quantity;
+      group.amount += asset.lineTotal;
+    } else {
+      groups.set(groupKey, {
+        assetCode: asset.assetCode || "UNKNOWN",
+        productName: asset.productName,
+        count: quantity,
+        periods: asset.pricing
+          ? formatPricingPeriods(asset.pricing)
+          : `${rentalDays} วัน × ${asset.dailyRate.toLocaleString()} ฿`,
+        amount: asset.lineTotal,
+        insuranceFee: asset.insuranceFee ?? 0,
+        replacementPrice: asset.replacementPrice ?? 0,
+      });
+    }
+  });
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Split the rental charge into the original period and one line per extension
+ */
+function getRentalPeriods(rental: RentalDTO) {
+  const toPeriod = (label: string, start: Date, end: Date, amount: number, reason?: string) => {
+    const days = Math.ceil((end.getTime() - start.getTime()) / DAY_MS) || 1;
+    return { label, startDate: start, endDate: end, days, amount, reason };
+  };
+
+  const originalEndDate =
+    rental.extensions.length > 0
+      ? new Date(rental.extensions[0].previousEndDate)
+      : new Date(rental.endDate);
+  const extensionsAmount = rental.extensions.reduce((sum, extension) => sum + extension.amount, 0);
+
+  return [
+    toPeriod(
+      "ระยะเวลาเช่าเดิม",
+      new Date(rental.startDate),
+      originalEndDate,
+      rental.totalAmount - extensionsAmount
+    ),
+    ...rental.extensions.map((extension, idx) =>
+      toPeriod(
+        `ขยายเวลาครั้งที่ ${idx + 1}`,
+        new Date(extension.previousEndDate),
+        new Date(extension.newEndDate),
+        extension.amount,
+        extension.reason
+      )
+    ),
+  ];
+}
+
 export default function RentalBillPage({ params }: RentalBillPageProps) {
   const { id } = use(params);
   const router = useRouter();
@@ -36,48 +148,18 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
     const endDate = new Date(rental.endDate);
     const rentalDays =
       Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) || 1;
+    const rentalPeriods = getRentalPeriods(rental);
 
-    // Group assets
-    const groupedAssets = new Map<
-      string,
-      {
-        assetCode: string;
-        productName?: string;
-        count: number;
-        dailyRate: number;
-        insuranceFee: number;
-        replacementPrice: number;
-      }
-    >();
-
-    const totalAssetsCount = rental.assets.reduce((sum, asset) => sum + (asset.quantity || 1), 0);
-    const amountPerAsset = totalAssetsCount > 0 ? rental.dailyRate / totalAssetsCount : 0;
-
-    rental.assets.forEach((asset) => {
-      const quantity = asset.quantity || 1;
-      const groupKey = `${asset.assetCode || "UNKNOWN"}_${asset.productName || "UNKNOWN"}`;
-
-      if (groupedAssets.has(groupKey)) {
-        const group = groupedAssets.get(groupKey)!;
-        group.count += quantity;
-      } else {
-        groupedAssets.set(groupKey, {
-          assetCode: asset.assetCode || "UNKNOWN",
-          productName: asset.productName,
-          count: quantity,
-          dailyRate: amountPerAsset,
-          insuranceFee: asset.insuranceFee ?? 0,
-          replacementPrice: asset.replacementPrice ?? 0,
-        });
-      }
-    });
+    const groupedAssets = groupBillAssets(rental, rentalDays);
 
     // Calculate totals
     const totalDailyRental = rental.dailyRate;
-    const totalRentalAmount = totalDailyRental * rentalDays;
+    const totalRentalAmount = rental.totalAmount;
     const totalDeposit = rental.deposit;
     const shippingCost = rental.shippingCost ?? 0;
-    const grandTotal = totalRentalAmount + totalDeposit + shippingCost;
+    const totalCharges = rental.charges.reduce((sum, charge) => sum + charge.amount, 0);
+    const grandTotal = totalRentalAmount + totalDeposit + shippingCost + totalCharges;
+    const settlement = rental.depositSettlement;
 
     printWindow.document.write(`
       <!DOCTYPE html>
@@ -231,24 +313,23 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
                   <th style="width:25%;">รายการ</th>
                   <th style="width:10%;">รหัสสินค้า</th>
                   <th style="width:8%;">จำนวน</th>
-                  <th style="width:12%;">ค่าเช่า/วัน</th>
+                  <th style="width:12%;">ระยะเวลา</th>
                   <th style="width:12%;">จำนวนเงิน</th>
                   <th style="width:12%;">เงินประกัน</th>
                   <th style="width:16%;">กรณีเสียหาย</th>
                 </tr>
               </thead>
               <tbody>
-                ${Array.from(groupedAssets.values())
+                ${groupedAssets
                   .map((group, idx) => {
-                    const dailyRentalAmount = group.dailyRate * group.count;
                     return `
                     <tr>
                       <td style="text-align:center; font-weight:600;">${idx + 1}</td>
                       <td style="font-weight:600;">${group.productName || group.assetCode || "-"}</td>
                       <td style="text-align:center;">${group.assetCode || "-"}</td>
                       <td style="text-align:center;">${group.count}</td>
-                      <td style="text-align:right;">${group.dailyRate.toFixed(2)} ฿</td>
-                      <td style="text-align:right; font-weight:700; color:#1e40af;">${dailyRentalAmount.toFixed(2)} ฿</td>
+                      <td style="text-align:right; font-size:12px;">${group.periods}</td>
+                      <td style="text-align:right; font-weight:700; color:#1e40af;">${group.amount.toFixed(2)} ฿</td>
                       <td style="text-align:right;">${group.insuranceFee > 0 ? (group.insuranceFee * group.count).toFixed(2) : "-"} ฿</td>
                       <td style="text-align:right;">${group.replacementPrice > 0 ? (group.replacementPrice * group.count).toFixed(2) : "-"} ฿</td>
                     </tr>
@@ -268,6 +349,20 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
                   <td class="label">จำนวนวันที่เช่า</td>
                   <td class="value">${rentalDays} วัน</td>
                 </tr>
+                ${
+                  rentalPeriods.length > 1
+                    ? rentalPeriods
+                        .map(
+                          (period) => `
+                  <tr>
+                    <td class="label">${period.label} (${formatThaiDate(period.startDate)} - ${formatThaiDate(period.endDate)}, ${period.days} วัน)${period.reason ? `<div style="font-weight:400; font-size:12px;">${period.reason}</div>` : ""}</td>
+                    <td class="value">${period.amount.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                        )
+                        .join("")
+                    : ""
+                }
                 <tr>
                   <td class="label">รวมเงินค่าเช่า</td>
                   <td class="value">${totalRentalAmount.toLocaleString()} ฿</td>
@@ -292,6 +387,16 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
                 `
                     : ""
                 }
+                ${rental.charges
+                  .map(
+                    (charge) => `
+                  <tr>
+                    <td class="label">${charge.description}</td>
+                    <td class="value">${charge.amount.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                  )
+                  .join("")}
                 <tr class="total">
                   <td class="label">รวมเงินทั้งสิ้น</td>
                   <td class="value">${grandTotal.toLocaleString()} ฿</td>
@@ -299,6 +404,88 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
               </tbody>
             </table>
 
+            ${
+              settlement
+                ? `
+            <table class="summary-table">
+              <tbody>
+                <tr>
+                  <td class="label" style="width:60%;">เงินมัดจำ</td>
+                  <td class="value" style="width:40%;">${settlement.depositAmount.toLocaleString()} ฿</td>
+                </tr>
+                ${
+                  settlement.deductedAmount > 0
+                    ? `
+                  <tr>
+                    <td class="label">หักค่าปรับ/ค่าเสียหาย/ค่าเช่าค้างชำระ</td>
+                    <td class="value">-${settlement.deductedAmount.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                    : ""
+                }
+                <tr>
+                  <td class="label">เงินมัดจำที่ต้องคืน</td>
+                  <td class="value">${settlement.refundableAmount.toLocaleString()} ฿</td>
+                </tr>
+                ${settlement.refunds
+                  .map(
+                    (refund) => `
+                  <tr>
+                    <td class="label">คืนเงินมัดจำ ${formatThaiDate(new Date(refund.refundedAt))} (${REFUND_METHOD_LABELS[refund.method] || refund.method})</td>
+                    <td class="value">${refund.amount.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                  )
+                  .join("")}
+                <tr class="total">
+                  <td class="label">คงเหลือที่ต้องคืน</td>
+                  <td class="value">${settlement.remainingRefund.toLocaleString()} ฿</td>
+                </tr>
+                ${
+                  settlement.balanceDue > 0
+                    ? `
+                  <tr>
+                    <td class="label">ยอดที่ลูกค้าต้องชำระเพิ่ม</td>
+                    <td class="value">${settlement.balanceDue.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                    : ""
+                }
+              </tbody>
+            </table>
+            `
+                : ""
+            }
+
+            ${
+              rental.payments.length > 0
+                ? `
+            <table class="summary-table">
+              <tbody>
+                ${rental.payments
+                  .map(
+                    (payment) => `
+                  <tr>
+                    <td class="label" style="width:60%;">ชำระเงิน ${formatThaiDate(new Date(payment.paidAt))} (${PAYMENT_METHOD_LABELS[payment.method] || payment.method})${payment.reference ? ` อ้างอิง ${payment.reference}` : ""}</td>
+                    <td class="value" style="width:40%;">${payment.amount.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                  )
+                  .join("")}
+                <tr>
+                  <td class="label">รวมชำระแล้ว</td>
+                  <td class="value">${rental.paidAmount.toLocaleString()} ฿</td>
+                </tr>
+                <tr class="total">
+                  <td class="label">ยอดค้างชำระ</td>
+                  <td class="value">${rental.outstandingBalance.toLocaleString()} ฿</td>
+                </tr>
+              </tbody>
+            </table>
+            `
+                : ""
+            }
+
             <div class="page-break-wrapper">
               <div class="payment-section">
                 <div class="payment-title">ช่องทางการชำระเงิน</div>
@@ -404,48 +591,18 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
   const endDate = new Date(rental.endDate);
   const rentalDays =
     Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) || 1;
+  const rentalPeriods = getRentalPeriods(rental);
 
-  // Group assets
-  const groupedAssets = new Map<
-    string,
-    {
-      assetCode: string;
-      productName?: string;
-      count: number;
-      dailyRate: number;
-      insuranceFee: number;
-      replacementPrice: number;
-    }
-  >();
-
-  const totalAssetsCount = rental.assets.reduce((sum, asset) => sum + (asset.quantity || 1), 0);
-  const amountPerAsset = totalAssetsCount > 0 ? rental.dailyRate / totalAssetsCount : 0;
-
-  rental.assets.forEach((asset) => {
-    const quantity = asset.quantity || 1;
-    const groupKey = `${asset.assetCode || "UNKNOWN"}_${asset.productName || "UNKNOWN"}`;
-
-    if (groupedAssets.has(groupKey)) {
-      const group = groupedAssets.get(groupKey)!;
-      group.count += quantity;
-    } else {
-      groupedAssets.set(groupKey, {
-        assetCode: asset.assetCode || "UNKNOWN",
-        productName: asset.productName,
-        count: quantity,
-        dailyRate: amountPerAsset,
-        insuranceFee: asset.insuranceFee ?? 0,
-        replacementPrice: asset.replacementPrice ?? 0,
-      });
-    }
-  });
+  const groupedAssets = groupBillAssets(rental, rentalDays);
 
   // Calculate totals
   const totalDailyRental = rental.dailyRate;
-  const totalRentalAmount = totalDailyRental * rentalDays;
+  const totalRentalAmount = rental.totalAmount;
   const totalDeposit = rental.deposit;
   const shippingCost = rental.shippingCost ?? 0;
-  const grandTotal = totalRentalAmount + totalDeposit + shippingCost;
+  const totalCharges = rental.charges.reduce((sum, charge) => sum + charge.amount, 0);
+  const grandTotal = totalRentalAmount + totalDeposit + shippingCost + totalCharges;
+  const settlement = rental.depositSettlement;
 
   return (
     <div className="min-h-screen bg-background p-4">
@@ -540,15 +697,14 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
                   <th className="p-2 text-left w-[25%]">รายการ</th>
                   <th className="p-2 text-center w-[10%]">รหัสสินค้า</th>
                   <th className="p-2 text-center w-[8%]">จำนวน</th>
-                  <th className="p-2 text-right w-[12%]">ค่าเช่า/วัน</th>
+                  <th className="p-2 text-right w-[12%]">ระยะเวลา</th>
                   <th className="p-2 text-right w-[12%]">จำนวนเงิน</th>
                   <th className="p-2 text-right w-[12%]">เงินประกัน</th>
                   <th className="p-2 text-right w-[16%]">กรณีเสียหาย</th>
                 </tr>
               </thead>
               <tbody>
-                {Array.from(groupedAssets.values()).map((group, idx) => {
-                  const dailyRentalAmount = group.dailyRate * group.count;
+                {groupedAssets.map((group, idx) => {
                   return (
                     <tr key={idx} className="border-t border-border">
                       <td className="p-2 text-center font-semibold">{idx + 1}</td>
@@ -557,9 +713,9 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
                       </td>
                       <td className="p-2 text-center">{group.assetCode || "-"}</td>
                       <td className="p-2 text-center">{group.count}</td>
-                      <td className="p-2 text-right">{group.dailyRate.toFixed(2)} ฿</td>
+                      <td className="p-2 text-right text-xs">{group.periods}</td>
                       <td className="p-2 text-right font-bold text-primary">
-                        {dailyRentalAmount.toFixed(2)} ฿
+                        {group.amount.toFixed(2)} ฿
                       </td>
                       <td className="p-2 text-right">
                         {group.insuranceFee > 0
@@ -624,6 +780,21 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
                     <td className="p-2 font-semibold text-muted-foreground">จำนวนวันที่เช่า</td>
                     <td className="p-2 text-right font-semibold">{rentalDays} วัน</td>
                   </tr>
+                  {rentalPeriods.length > 1 &&
+                    rentalPeriods.map((period, idx) => (
+                      <tr key={idx}>
+                        <td className="p-2 font-semibold text-muted-foreground">
+                          {period.label} ({formatThaiDate(period.startDate)} -{" "}
+                          {formatThaiDate(period.endDate)}, {period.days} วัน)
+                          {period.reason && (
+                            <div className="text-xs font-normal">{period.reason}</div>
+                          )}
+                        </td>
+                        <td className="p-2 text-right font-semibold">
+                          {period.amount.toLocaleString()} ฿
+                        </td>
+                      </tr>
+                    ))}
                   <tr>
                     <td className="p-2 font-semibold text-muted-foreground">รวมเงินค่าเช่า</td>
                     <td className="p-2 text-right font-semibold">
@@ -646,6 +817,16 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
                       </td>
                     </tr>
                   )}
+                  {rental.charges.map((charge, idx) => (
+                    <tr key={`charge-${idx}`}>
+                      <td className="p-2 font-semibold text-muted-foreground">
+                        {charge.description}
+                      </td>
+                      <td className="p-2 text-right font-semibold">
+                        {charge.amount.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  ))}
                   <tr className="bg-muted/40">
                     <td className="p-2 font-bold text-foreground">รวมเงินทั้งสิ้น</td>
                     <td className="p-2 text-right font-bold text-primary">
@@ -657,6 +838,95 @@ export default function RentalBillPage({ params }: RentalBillPageProps) {
             </div>
           </div>
 
+          {settlement && (
+            <div className="mt-4 border border-border rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <tbody>
+                  <tr>
+                    <td className="p-2 font-semibold text-muted-foreground">เงินมัดจำ</td>
+                    <td className="p-2 text-right font-semibold">
+                      {settlement.depositAmount.toLocaleString()} ฿
+                    </td>
+                  </tr>
+                  {settlement.deductedAmount > 0 && (
+                    <tr>
+                      <td className="p-2 font-semibold text-muted-foreground">
+                        หักค่าปรับ/ค่าเสียหาย/ค่าเช่าค้างชำระ
+                      </td>
+                      <td className="p-2 text-right font-semibold">
+                        -{settlement.deductedAmount.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  )}
+                  <tr>
+                    <td className="p-2 font-semibold text-muted-foreground">เงินมัดจำที่ต้องคืน</td>
+                    <td className="p-2 text-right font-semibold">
+                      {settlement.refundableAmount.toLocaleString()} ฿
+                    </td>
+                  </tr>
+                  {settlement.refunds.map((refund, idx) => (
+                    <tr key={idx}>
+                      <td className="p-2 font-semibold text-muted-foreground">
+                        คืนเงินมัดจำ {formatThaiDate(new Date(refund.refundedAt))} (
+                        {REFUND_METHOD_LABELS[refund.method] || refund.method})
+                      </td>
+                      <td className="p-2 text-right font-semibold">
+                        {refund.amount.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="bg-muted/40">
+                    <td className="p-2 font-bold text-foreground">คงเหลือที่ต้องคืน</td>
+                    <td className="p-2 text-right font-bold text-primary">
+                      {settlement.remainingRefund.toLocaleString()} ฿
+                    </td>
+                  </tr>
+                  {settlement.balanceDue > 0 && (
+                    <tr>
+                      <td className="p-2 font-semibold text-error">ยอดที่ลูกค้าต้องชำระเพิ่ม</td>
+                      <td className="p-2 text-right font-semibold text-error">
+                        {settlement.balanceDue.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {rental.payments.length > 0 && (
+            <div className="mt-4 border border-border rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <tbody>
+                  {rental.payments.map((payment, idx) => (
+                    <tr key={idx}>
+                      <td className="p-2 font-semibold text-muted-foreground">
+                        ชำระเงิน {formatThaiDate(new Date(payment.paidAt))} (
+                        {PAYMENT_METHOD_LABELS[payment.method] || payment.method})
+                        {payment.reference && ` อ้างอิง ${payment.reference}`}
+                      </td>
+                      <td className="p-2 text-right font-semibold">
+                        {payment.amount.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="p-2 font-semibold text-muted-foreground">รวมชำระแล้ว</td>
+                    <td className="p-2 text-right font-semibold">
+                      {rental.paidAmount.toLocaleString()} ฿
+                    </td>
+                  </tr>
+                  <tr className="bg-muted/40">
+                    <td className="p-2 font-bold text-foreground">ยอดค้างชำระ</td>
+                    <td className="p-2 text-right font-bold text-primary">
+                      {rental.outstandingBalance.toLocaleString()} ฿
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
           <div className="mt-8 pt-6 border-t-2 border-border grid grid-cols-2 gap-10">
             <div className="text-center">
               <div className="text-sm font-semibold text-muted-foreground mb-16">
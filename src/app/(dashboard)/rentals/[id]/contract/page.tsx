@@ -0,0 +1,172 @@
+"use client";
+
+import { use, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Printer, X, Loader2 } from "lucide-react";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { SignaturePad } from "./signature-pad";
+
+interface RentalContractPageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Rental contract page
+ *
+ * Shows the unsigned contract with the current terms and captures the
+ * customer and staff signatures, or any signed version exactly as it was
+ * signed. Either can be printed.
+ */
+export default function RentalContractPage({ params }: RentalContractPageProps) {
+  const { id } = use(params);
+  const router = useRouter();
+  const t = useTranslation();
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [signerName, setSignerName] = useState<string | null>(null);
+  const [customerSignature, setCustomerSignature] = useState("");
+  const [staffSignature, setStaffSignature] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: preview, isLoading } = trpc.rentalContract.preview.useQuery({ rentalId: id });
+  const { data: contracts } = trpc.rentalContract.byRental.useQuery({ rentalId: id });
+
+  const signMutation = trpc.rentalContract.sign.useMutation({
+    onSuccess: (contract) => {
+      utils.rentalContract.byRental.invalidate({ rentalId: id });
+      utils.rentalContract.preview.invalidate({ rentalId: id });
+      setSelectedId(contract.id);
+      setCustomerSignature("");
+      setStaffSignature("");
+    },
+  });
+
+  const handlePrint = () => {
+    iframeRef.current?.contentWindow?.print();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <p className="text-lg text-muted-foreground">ไม่พบข้อมูลการเช่า</p>
+          <Button onClick={() => router.back()} className="mt-4">
+            กลับ
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const selectedContract = contracts?.find((contract) => contract.id === selectedId);
+  const customerSignerName = signerName ?? preview.customerName;
+  const canSign =
+    !!customerSignature &&
+    !!staffSignature &&
+    !!customerSignerName.trim() &&
+    !signMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <div className="flex justify-between items-center">
+          <Button variant="outline" onClick={() => router.back()}>
+            <X className="h-4 w-4 mr-2" />
+            กลับ
+          </Button>
+          <Button onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-2" />
+            {t.rentalContract.print}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant={selectedContract ? "outline" : "default"}
+            onClick={() => setSelectedId(null)}
+          >
+            {t.rentalContract.draft} ({t.rentalContract.version} {preview.version})
+          </Button>
+          {contracts?.map((contract) => (
+            <Button
+              key={contract.id}
+              variant={selectedContract?.id === contract.id ? "default" : "outline"}
+              onClick={() => setSelectedId(contract.id)}
+            >
+              {t.rentalContract.version} {contract.version} ·{" "}
+              {new Date(contract.signedAt).toLocaleDateString("th-TH")}
+            </Button>
+          ))}
+        </div>
+
+        <iframe
+          ref={iframeRef}
+          title={t.rentalContract.title}
+          srcDoc={selectedContract ? selectedContract.html : preview.html}
+          className="w-full h-[70vh] rounded-lg border border-border bg-white"
+        />
+
+        {!selectedContract && (
+          <div className="p-4 border border-border rounded-lg space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {t.rentalContract.signHint} ({t.rentalContract.termsVersion} {preview.termsVersion})
+            </p>
+
+            {signMutation.error && (
+              <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+                {signMutation.error.message}
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.rentalContract.customerSignerName}
+              </label>
+              <Input value={customerSignerName} onChange={(e) => setSignerName(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <SignaturePad
+                label={t.rentalContract.customerSignature}
+                clearLabel={t.rentalContract.clearSignature}
+                onChange={setCustomerSignature}
+              />
+              <SignaturePad
+                label={t.rentalContract.staffSignature}
+                clearLabel={t.rentalContract.clearSignature}
+                onChange={setStaffSignature}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                disabled={!canSign}
+                onClick={() =>
+                  signMutation.mutate({
+                    rentalId: id,
+                    customerSignerName: customerSignerName.trim(),
+                    customerSignature,
+                    staffSignature,
+                  })
+                }
+              >
+                {signMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t.rentalContract.sign}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Loader2 } from "lucide-react";
+import type { DepositRefundMethod } from "@/lib/trpc/schemas";
+import type { RentalDTO } from "@/lib/trpc/services/rental.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+interface DepositSettlementSectionProps {
+  rental: RentalDTO;
+}
+
+const formatAmount = (amount: number) =>
+  `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} บาท`;
+
+/**
+ * Deposit settlement for a finished rental
+ *
+ * Shows the settle form until the deposit is settled, then the deduction
+ * breakdown, refunds made so far, and a form to record further refunds.
+ */
+export function DepositSettlementSection({ rental }: DepositSettlementSectionProps) {
+  const t = useTranslation();
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundMethod, setRefundMethod] = useState<DepositRefundMethod>("cash");
+
+  const utils = trpc.useUtils();
+  const onSuccess = () => {
+    utils.rental.getById.invalidate({ id: rental.id });
+    utils.rental.depositsHeld.invalidate();
+    setRefundAmount("");
+  };
+
+  const settleMutation = trpc.rental.settleDeposit.useMutation({ onSuccess });
+  const refundMutation = trpc.rental.refundDeposit.useMutation({ onSuccess });
+
+  const refundMethodLabels: Record<DepositRefundMethod, string> = {
+    cash: t.rental.refundMethodCash,
+    transfer: t.rental.refundMethodTransfer,
+    other: t.rental.refundMethodOther,
+  };
+
+  const settlement = rental.depositSettlement;
+  const isFinished = rental.status === "completed" || rental.status === "cancelled";
+  if (!settlement && (!isFinished || rental.deposit <= 0)) {
+    return null;
+  }
+
+  const error = settleMutation.error || refundMutation.error;
+
+  return (
+    <div>
+      <label className="text-sm font-semibold text-muted-foreground">
+        {t.rental.depositSettlement}
+      </label>
+
+      {error && (
+        <div className="mt-2 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+          {error.message}
+        </div>
+      )}
+
+      {!settlement ? (
+        <div className="mt-2 flex items-center justify-between gap-2">
+          <div className="text-sm">
+            <span className="text-muted-foreground">{t.rental.outstandingBalance}: </span>
+            <span className="text-foreground">{formatAmount(rental.outstandingBalance)}</span>
+          </div>
+          <Button
+            type="button"
+            disabled={settleMutation.isPending}
+            onClick={() => settleMutation.mutate({ id: rental.id })}
+          >
+            {settleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t.rental.settleDeposit}
+          </Button>
+        </div>
+      ) : (
+        <div className="mt-2 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{t.rental.deposit}</span>
+            <span className="text-foreground">{formatAmount(settlement.depositAmount)}</span>
+          </div>
+          {settlement.penaltyAmount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{t.rental.penaltyAmount}</span>
+              <span className="text-foreground">-{formatAmount(settlement.penaltyAmount)}</span>
+            </div>
+          )}
+          {settlement.chargesAmount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{t.rental.charges}</span>
+              <span className="text-foreground">-{formatAmount(settlement.chargesAmount)}</span>
+            </div>
+          )}
+          {settlement.unpaidRentAmount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{t.rental.unpaidRent}</span>
+              <span className="text-foreground">-{formatAmount(settlement.unpaidRentAmount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-semibold">
+            <span className="text-foreground">{t.rental.refundableAmount}</span>
+            <span className="text-foreground">{formatAmount(settlement.refundableAmount)}</span>
+          </div>
+          {settlement.balanceDue > 0 && (
+            <div className="flex justify-between font-semibold">
+              <span className="text-error">{t.rental.balanceDue}</span>
+              <span className="text-error">{formatAmount(settlement.balanceDue)}</span>
+            </div>
+          )}
+          {settlement.refunds.map((refund, idx) => (
+            <div key={idx} className="flex justify-between">
+              <span className="text-muted-foreground">
+                {t.rental.refunded} {new Date(refund.refundedAt).toLocaleDateString("th-TH")} (
+                {refundMethodLabels[refund.method]})
+              </span>
+              <span className="text-foreground">{formatAmount(refund.amount)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-semibold">
+            <span className="text-foreground">{t.rental.remainingRefund}</span>
+            <span className="text-foreground">{formatAmount(settlement.remainingRefund)}</span>
+          </div>
+
+          {settlement.remainingRefund > 0 && (
+            <div className="pt-2 flex items-end gap-2">
+              <div className="flex-1">
+                <label className="text-sm text-muted-foreground mb-1 block">
+                  {t.rental.refundAmount}
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  max={settlement.remainingRefund}
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                />
+              </div>
+              <select
+                value={refundMethod}
+                onChange={(e) => setRefundMethod(e.target.value as DepositRefundMethod)}
+                className="rounded-md border border-border bg-input px-3 py-2 text-foreground"
+              >
+                {Object.entries(refundMethodLabels).map(([method, label]) => (
+                  <option key={method} value={method}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <Button
+                type="button"
+                disabled={!Number(refundAmount) || refundMutation.isPending}
+                onClick={() =>
+                  refundMutation.mutate({
+                    id: rental.id,
+                    amount: Number(refundAmount),
+                    method: refundMethod,
+                  })
+                }
+              >
+                {refundMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t.rental.refundDeposit}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { trpc } from "@/lib/trpc/client";
 import {
   PageHeader,
   SectionCard,
+  StatCard,
+  StatCardGrid,
   Button,
   Badge,
   Form,
@@ -18,29 +20,83 @@ import {
   Input,
 } from "@/components";
 import { Textarea } from "@/components/ui/textarea";
-import { Calendar, Plus, Loader2, Eye, X, Printer, Trash2 } from "lucide-react";
-import { createRentalSchema } from "@/lib/trpc/schemas";
+import {
+  Calendar,
+  CalendarPlus,
+  Plus,
+  Loader2,
+  Eye,
+  X,
+  Printer,
+  Trash2,
+  Undo2,
+  Wallet,
+  AlarmClock,
+  BellRing,
+  FileSignature,
+} from "lucide-react";
+import { canTransitionRentalStatus, createRentalSchema } from "@/lib/trpc/schemas";
 import type { RentalStatus } from "@/lib/trpc/schemas";
-import type { CreateRentalInput, UpdateRentalStatusInput } from "@/lib/trpc/schemas";
+import type {
+  AssetCondition,
+  CreateRentalInput,
+  UpdateRentalStatusInput,
+} from "@/lib/trpc/schemas";
+import type { RentalPriceQuoteDTO } from "@/lib/trpc/services/rental.service";
 import { useTranslation } from "@/lib/hooks/useTranslation";
+import { DepositSettlementSection } from "./deposit-settlement-section";
+import { RentalAssetChangesSection } from "./rental-asset-changes-section";
+import { RentalInvoicesSection } from "./rental-invoices-section";
+import { RentalNotificationsSection } from "./rental-notifications-section";
+import { RentalPaymentStatusBadge, RentalPaymentsSection } from "./rental-payments-section";
+import { RentalStatusLinkSection } from "./rental-status-link-section";
+import { RentalTasksSection } from "./rental-tasks-section";
+
+const formatAmount = (amount: number) =>
+  `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} บาท`;
 
 export default function RentalsPage() {
   const t = useTranslation();
+
+  // Describe a line's priced period, e.g. "1 เดือน + 2 สัปดาห์ + 3 วัน"
+  const formatPricingPeriods = (pricing: RentalPriceQuoteDTO["lines"][number]["pricing"]) =>
+    [
+      pricing.months > 0 && `${pricing.months} ${t.rental.months}`,
+      pricing.weeks > 0 && `${pricing.weeks} ${t.rental.weeks}`,
+      pricing.extraDays > 0 && `${pricing.extraDays} ${t.rental.days}`,
+    ]
+      .filter(Boolean)
+      .join(" + ") || `${pricing.days} ${t.rental.days}`;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [selectedRental, setSelectedRental] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [outstandingOnly, setOutstandingOnly] = useState(false);
+  const [returningRentalId, setReturningRentalId] = useState<string | null>(null);
+  const [returnAssetIds, setReturnAssetIds] = useState<string[]>([]);
+  const [returnDate, setReturnDate] = useState<string>("");
+  const [returnCondition, setReturnCondition] = useState<string>("");
+  const [returnInspections, setReturnInspections] = useState<
+    Record<string, { condition: AssetCondition; photoUrls: string; chargeAmount: string }>
+  >({});
+  const [extendingRentalId, setExtendingRentalId] = useState<string | null>(null);
+  const [newEndDate, setNewEndDate] = useState<string>("");
+  const [extendReason, setExtendReason] = useState<string>("");
 
   const utils = trpc.useUtils();
 
-  const { data: availableGroupedAssets } = trpc.rentalAsset.getAvailableGrouped.useQuery();
-
   const { data, isLoading } = trpc.rental.list.useQuery({
     status: statusFilter !== "all" ? (statusFilter as RentalStatus) : undefined,
+    hasOutstanding: outstandingOnly || undefined,
     page: 1,
     limit: 50,
   });
 
+  const { data: depositsHeld } = trpc.rental.depositsHeld.useQuery();
+
   const { data: rentalDetails } = trpc.rental.getById.useQuery(
     { id: selectedRental || "" },
     { enabled: !!selectedRental && isViewModalOpen }
@@ -49,6 +105,7 @@ export default function RentalsPage() {
   const createMutation = trpc.rental.create.useMutation({
     onSuccess: () => {
       utils.rental.list.invalidate();
+      utils.rental.depositsHeld.invalidate();
       utils.rentalAsset.list.invalidate();
       closeModal();
     },
@@ -60,58 +117,174 @@ export default function RentalsPage() {
   const updateStatusMutation = trpc.rental.updateStatus.useMutation({
     onSuccess: () => {
       utils.rental.list.invalidate();
+      utils.rental.depositsHeld.invalidate();
       utils.rentalAsset.list.invalidate();
     },
   });
 
+  const runOverdueJobMutation = trpc.rental.runOverdueJob.useMutation({
+    onSuccess: () => {
+      utils.rental.list.invalidate();
+      utils.rental.overdue.invalidate();
+    },
+  });
+
+  const runNotificationJobMutation = trpc.rentalNotification.runJob.useMutation({
+    onSuccess: () => {
+      utils.rentalNotification.byRental.invalidate();
+    },
+  });
+
+  const returnAssetsMutation = trpc.rental.returnAssets.useMutation({
+    onSuccess: () => {
+      utils.rental.list.invalidate();
+      utils.rental.getById.invalidate();
+      utils.rentalAsset.list.invalidate();
+      closeReturnModal();
+    },
+  });
+
+  const returningRental = data?.rentals.find((rental) => rental.id === returningRentalId);
+
+  // Completing a rental opens the return with every asset still out selected
+  const openReturnModal = (rentalId: string, selectOutstanding = false) => {
+    const rental = data?.rentals.find((r) => r.id === rentalId);
+    setReturningRentalId(rentalId);
+    setReturnAssetIds(
+      selectOutstanding && rental
+        ? rental.assets.filter((asset) => !asset.returnedAt).map((asset) => asset.id)
+        : []
+    );
+    setReturnDate(new Date().toISOString().split("T")[0]);
+    setReturnCondition("");
+    setReturnInspections({});
+  };
+
+  const closeReturnModal = () => {
+    setReturningRentalId(null);
+    setReturnAssetIds([]);
+    returnAssetsMutation.reset();
+  };
+
+  const toggleReturnAsset = (assetId: string) => {
+    setReturnAssetIds((ids) =>
+      ids.includes(assetId) ? ids.filter((id) => id !== assetId) : [...ids, assetId]
+    );
+  };
+
+  const getReturnInspection = (assetId: string) =>
+    returnInspections[assetId] || {
+      condition: "ok" as AssetCondition,
+      photoUrls: "",
+      chargeAmount: "",
+    };
+
+  const updateReturnInspection = (
+    assetId: string,
+    field: "condition" | "photoUrls" | "chargeAmount",
+    value: string
+  ) => {
+    setReturnInspections((inspections) => ({
+      ...inspections,
+      [assetId]: { ...getReturnInspection(assetId), [field]: value },
+    }));
+  };
+
+  const submitReturn = (rentalId: string) => {
+    returnAssetsMutation.mutate({
+      id: rentalId,
+      assetIds: returnAssetIds,
+      returnDate: returnDate ? new Date(returnDate) : undefined,
+      condition: returnCondition || undefined,
+      inspections: returnAssetIds.map((assetId) => {
+        const inspection = getReturnInspection(assetId);
+        return {
+          assetId,
+          condition: inspection.condition,
+          photoUrls: inspection.photoUrls
+            .split("\n")
+            .map((url) => url.trim())
+            .filter(Boolean),
+          chargeAmount: inspection.chargeAmount ? Number(inspection.chargeAmount) : undefined,
+        };
+      }),
+    });
+  };
+
+  const extendMutation = trpc.rental.extend.useMutation({
+    onSuccess: () => {
+      utils.rental.list.invalidate();
+      utils.rental.getById.invalidate();
+      closeExtendModal();
+    },
+  });
+
+  const extendingRental = data?.rentals.find((rental) => rental.id === extendingRentalId);
+
+  const openExtendModal = (rentalId: string) => {
+    setExtendingRentalId(rentalId);
+    setNewEndDate("");
+    setExtendReason("");
+  };
+
+  const closeExtendModal = () => {
+    setExtendingRentalId(null);
+    extendMutation.reset();
+  };
+
   const form = useForm({
     resolver: zodResolver(createRentalSchema),
     defaultValues: {
       customerName: "",
+      customerIdNumber: "",
       customerPhone: "",
       customerEmail: "",
       customerAddress: "",
       assets: [],
       startDate: new Date(),
       endDate: new Date(),
-      dailyRate: 0,
       deposit: 0,
       shippingCost: 0,
+      billingCycle: "once",
       notes: "",
     },
   });
 
-  // Auto-calculate daily rate from selected assets
-  const selectedAssets = form.watch("assets");
-  useEffect(() => {
-    if (selectedAssets && selectedAssets.length > 0 && availableGroupedAssets) {
-      const totalDailyRate = selectedAssets.reduce((sum, assetItem) => {
-        // assetItem is { assetId: string, quantity: number }
-        const assetId = assetItem.assetId;
-        const quantity = assetItem.quantity || 1;
-
-        // Find which group this asset belongs to
-        const group = availableGroupedAssets.find((g) => g.assetIds.includes(assetId));
-        return sum + (group?.dailyRentalRate || 0) * quantity;
-      }, 0);
-      form.setValue("dailyRate", totalDailyRate);
-    } else {
-      form.setValue("dailyRate", 0);
-    }
-  }, [selectedAssets, availableGroupedAssets, form]);
+  // Assets free for the selected period (future bookings may use currently rented assets)
+  const watchedStartDate = form.watch("startDate") as Date | null;
+  const watchedEndDate = form.watch("endDate") as Date | null;
+  const hasValidPeriod =
+    watchedStartDate instanceof Date &&
+    watchedEndDate instanceof Date &&
+    watchedEndDate > watchedStartDate;
+  const { data: availableGroupedAssets } = trpc.rentalAsset.getAvailableGrouped.useQuery(
+    hasValidPeriod ? { startDate: watchedStartDate, endDate: watchedEndDate } : undefined
+  );
+
+  // Price preview for the selected assets (the server prices the rental the same way on save)
+  const selectedAssets = (form.watch("assets") || []).filter((item) => item.assetId);
+  const { data: priceQuote } = trpc.rental.quotePrice.useQuery(
+    {
+      assets: selectedAssets,
+      startDate: watchedStartDate as Date,
+      endDate: watchedEndDate as Date,
+    },
+    { enabled: hasValidPeriod && selectedAssets.length > 0 }
+  );
 
   const openCreateModal = () => {
     form.reset({
       customerName: "",
+      customerIdNumber: "",
       customerPhone: "",
       customerEmail: "",
       customerAddress: "",
       assets: [],
       startDate: new Date(),
       endDate: new Date(),
-      dailyRate: 0,
       deposit: 0,
       shippingCost: 0,
+      billingCycle: "once",
       notes: "",
     });
     setIsModalOpen(true);
@@ -147,6 +320,30 @@ export default function RentalsPage() {
   return (
     <>
       <PageHeader title={t.nav.rentals} description="จัดการการเช่า">
+        <Button
+          variant="outline"
+          disabled={runOverdueJobMutation.isPending}
+          onClick={() => runOverdueJobMutation.mutate()}
+        >
+          {runOverdueJobMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <AlarmClock className="h-4 w-4 mr-2" />
+          )}
+          {t.rental.runOverdueJob}
+        </Button>
+        <Button
+          variant="outline"
+          disabled={runNotificationJobMutation.isPending}
+          onClick={() => runNotificationJobMutation.mutate()}
+        >
+          {runNotificationJobMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <BellRing className="h-4 w-4 mr-2" />
+          )}
+          {t.rentalNotification.runJob}
+        </Button>
         <Button onClick={openCreateModal}>
           <Plus className="h-4 w-4 mr-2" />
           {t.common.create}
@@ -154,7 +351,57 @@ export default function RentalsPage() {
       </PageHeader>
 
       <div className="p-6 space-y-6">
+        <StatCardGrid columns={2}>
+          <StatCard
+            label={t.rental.depositsHeld}
+            value={`${(depositsHeld?.totalHeld ?? 0).toLocaleString("th-TH", {
+              minimumFractionDigits: 2,
+              maximumFractionDigits: 2,
+            })} บาท`}
+            icon={Wallet}
+            variant="teal"
+          />
+          <StatCard
+            label={t.rental.depositsHeldRentals}
+            value={depositsHeld?.rentals.length ?? 0}
+            icon={Calendar}
+            variant="indigo"
+          />
+        </StatCardGrid>
+
         <SectionCard title={t.rental.title} icon={Calendar}>
+          {updateStatusMutation.error && (
+            <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+              {updateStatusMutation.error.message}
+            </div>
+          )}
+          {runOverdueJobMutation.error && (
+            <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+              {runOverdueJobMutation.error.message}
+            </div>
+          )}
+          {runOverdueJobMutation.data && (
+            <div className="mb-4 p-3 bg-success/10 border border-success/20 rounded-md text-success text-sm">
+              {t.rental.overdueJobDone}: {t.rental.overdueRentalsFound}{" "}
+              {runOverdueJobMutation.data.itemsFlagged} รายการ, {t.rental.penaltyAccrued}{" "}
+              {runOverdueJobMutation.data.amountAccrued.toLocaleString("th-TH", {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2,
+              })}{" "}
+              บาท
+            </div>
+          )}
+          {runNotificationJobMutation.error && (
+            <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+              {runNotificationJobMutation.error.message}
+            </div>
+          )}
+          {runNotificationJobMutation.data && (
+            <div className="mb-4 p-3 bg-success/10 border border-success/20 rounded-md text-success text-sm">
+              {t.rentalNotification.jobDone}: {t.rentalNotification.messagesSent}{" "}
+              {runNotificationJobMutation.data.itemsFlagged} รายการ
+            </div>
+          )}
           <div className="mb-4 flex gap-2 flex-wrap">
             <Button
               variant={statusFilter === "all" ? "default" : "outline"}
@@ -171,6 +418,12 @@ export default function RentalsPage() {
                 {getStatusBadge(status).props.children}
               </Button>
             ))}
+            <Button
+              variant={outstandingOnly ? "default" : "outline"}
+              onClick={() => setOutstandingOnly(!outstandingOnly)}
+            >
+              {t.rental.outstandingOnly}
+            </Button>
           </div>
 
           {isLoading ? (
@@ -275,7 +528,19 @@ export default function RentalsPage() {
                             })()
                           : "-"}
                       </td>
-                      <td className="p-3">{getStatusBadge(rental.status)}</td>
+                      <td className="p-3">
+                        <div className="flex flex-wrap gap-1">
+                          {getStatusBadge(rental.status)}
+                          {rental.isOverdue && (
+                            <Badge variant="status" color="error">
+                              {t.rental.overdue}
+                            </Badge>
+                          )}
+                          {rental.paymentStatus !== "paid" && (
+                            <RentalPaymentStatusBadge status={rental.paymentStatus} />
+                          )}
+                        </div>
+                      </td>
                       <td className="p-3 text-sm text-right text-foreground">
                         {rental.totalAmount.toLocaleString("th-TH", {
                           minimumFractionDigits: 2,
@@ -315,48 +580,63 @@ export default function RentalsPage() {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
-                          {rental.status === "pending" && (
-                            <>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => {
-                                  updateStatusMutation.mutate({
-                                    id: rental.id,
-                                    status: "active",
-                                  } as UpdateRentalStatusInput);
-                                }}
-                              >
-                                {t.rental.activate}
-                              </Button>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => {
-                                  if (confirm("คุณแน่ใจหรือไม่ว่าต้องการยกเลิกการเช่านี้?")) {
-                                    updateStatusMutation.mutate({
-                                      id: rental.id,
-                                      status: "cancelled",
-                                    } as UpdateRentalStatusInput);
-                                  }
-                                }}
-                                className="text-error hover:text-error"
-                              >
-                                <X className="h-4 w-4 mr-1" />
-                                ยกเลิก
-                              </Button>
-                            </>
-                          )}
-                          {rental.status === "active" && (
+                          {canTransitionRentalStatus(rental.status, "active") && (
                             <Button
                               variant="outline"
                               size="sm"
                               onClick={() => {
                                 updateStatusMutation.mutate({
                                   id: rental.id,
-                                  status: "completed",
+                                  status: "active",
                                 } as UpdateRentalStatusInput);
                               }}
+                            >
+                              {t.rental.activate}
+                            </Button>
+                          )}
+                          {canTransitionRentalStatus(rental.status, "cancelled") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                if (confirm("คุณแน่ใจหรือไม่ว่าต้องการยกเลิกการเช่านี้?")) {
+                                  updateStatusMutation.mutate({
+                                    id: rental.id,
+                                    status: "cancelled",
+                                  } as UpdateRentalStatusInput);
+                                }
+                              }}
+                              className="text-error hover:text-error"
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              ยกเลิก
+                            </Button>
+                          )}
+                          {(rental.status === "pending" || rental.status === "active") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openExtendModal(rental.id)}
+                            >
+                              <CalendarPlus className="h-4 w-4 mr-1" />
+                              {t.rental.extend}
+                            </Button>
+                          )}
+                          {rental.status === "active" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openReturnModal(rental.id)}
+                            >
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              {t.rental.returnAssets}
+                            </Button>
+                          )}
+                          {canTransitionRentalStatus(rental.status, "completed") && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openReturnModal(rental.id, true)}
                             >
                               {t.rental.complete}
                             </Button>
@@ -400,6 +680,20 @@ export default function RentalsPage() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="customerIdNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.rental.customerIdNumber}</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -502,7 +796,14 @@ export default function RentalsPage() {
                     return (
                       <FormItem>
                         <div className="flex justify-between items-center mb-2">
-                          <FormLabel>{t.rental.assets}</FormLabel>
+                          <div>
+                            <FormLabel>{t.rental.assets}</FormLabel>
+                            {hasValidPeriod && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {t.rental.availableForPeriodHint}
+                              </p>
+                            )}
+                          </div>
                           <Button type="button" variant="outline" size="sm" onClick={addItem}>
                             <Plus className="h-4 w-4 mr-2" />
                             เพิ่มรายการ
@@ -653,51 +954,28 @@ export default function RentalsPage() {
                   />
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="dailyRate"
-                    render={({ field }) => {
-                      // Calculate total amount based on dates and daily rate
-                      const startDate = form.watch("startDate") as Date | null;
-                      const endDate = form.watch("endDate") as Date | null;
-                      const dailyRate = field.value || 0;
-                      const days =
-                        startDate instanceof Date && endDate instanceof Date && endDate > startDate
-                          ? Math.ceil(
-                              (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-                            ) + 1
-                          : 0;
-                      const totalAmount = days * dailyRate;
-
-                      return (
-                        <FormItem>
-                          <FormLabel>{t.rental.dailyRate} (คำนวณอัตโนมัติ)</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="number"
-                              {...field}
-                              readOnly
-                              className="bg-muted cursor-not-allowed"
-                              value={field.value || 0}
-                            />
-                          </FormControl>
-                          {days > 0 && (
-                            <p className="text-xs text-muted-foreground">
-                              รวม {days} วัน ={" "}
-                              {totalAmount.toLocaleString("th-TH", {
-                                minimumFractionDigits: 2,
-                                maximumFractionDigits: 2,
-                              })}{" "}
-                              บาท
-                            </p>
-                          )}
-                          <FormMessage />
-                        </FormItem>
-                      );
-                    }}
-                  />
+                {priceQuote && (
+                  <div className="rounded-md border border-border p-3 space-y-1 text-sm">
+                    <div className="font-semibold text-foreground">{t.rental.priceBreakdown}</div>
+                    {priceQuote.lines.map((line) => (
+                      <div key={line.assetId} className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">
+                          {line.productName} × {line.quantity} ({formatPricingPeriods(line.pricing)}
+                          )
+                        </span>
+                        <span className="text-foreground">{formatAmount(line.lineTotal)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-semibold">
+                      <span className="text-foreground">{t.rental.rentalTotal}</span>
+                      <span className="text-foreground">
+                        {formatAmount(priceQuote.totalAmount)}
+                      </span>
+                    </div>
+                  </div>
+                )}
 
+                <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
                     name="deposit"
@@ -751,6 +1029,32 @@ export default function RentalsPage() {
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="billingCycle"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.rental.billingCycle}</FormLabel>
+                      <FormControl>
+                        <select
+                          value={field.value}
+                          onChange={(e) => field.onChange(e.target.value)}
+                          className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                        >
+                          <option value="once">{t.rental.billingCycleOnce}</option>
+                          <option value="monthly">{t.rental.billingCycleMonthly}</option>
+                        </select>
+                      </FormControl>
+                      {field.value === "monthly" && (
+                        <p className="text-xs text-muted-foreground">
+                          {t.rental.billingCycleMonthlyHint}
+                        </p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="notes"
@@ -782,6 +1086,201 @@ export default function RentalsPage() {
         </div>
       )}
 
+      {/* Return Assets Modal */}
+      {returningRental && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card border border-border rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-xl">
+            <h2 className="text-xl font-bold text-foreground mb-1">
+              {t.rental.returnAssets} - {returningRental.rentalNumber}
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">{t.rental.returnAssetsHint}</p>
+
+            {returnAssetsMutation.error && (
+              <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+                {returnAssetsMutation.error.message}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {returningRental.assets.map((asset) => {
+                  const isSelected = returnAssetIds.includes(asset.id);
+                  const inspection = getReturnInspection(asset.id);
+                  return (
+                    <div key={asset.id} className="p-3 border border-border rounded space-y-2">
+                      <label className="flex items-center justify-between gap-3">
+                        <span className="flex items-center gap-3">
+                          <input
+                            type="checkbox"
+                            disabled={!!asset.returnedAt}
+                            checked={!!asset.returnedAt || isSelected}
+                            onChange={() => toggleReturnAsset(asset.id)}
+                          />
+                          <span className="text-sm text-foreground">
+                            <strong>{asset.assetCode}</strong>
+                            {asset.productName && ` - ${asset.productName}`}
+                          </span>
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {asset.returnedAt
+                            ? `${t.rental.returned} ${new Date(asset.returnedAt).toLocaleDateString("th-TH")}`
+                            : t.rental.notReturned}
+                        </span>
+                      </label>
+                      {isSelected && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <select
+                            value={inspection.condition}
+                            onChange={(e) =>
+                              updateReturnInspection(asset.id, "condition", e.target.value)
+                            }
+                            className="w-full rounded-md border border-border bg-input px-3 py-2 text-sm text-foreground"
+                          >
+                            <option value="ok">{t.rental.conditionOk}</option>
+                            <option value="dirty">{t.rental.conditionDirty}</option>
+                            <option value="damaged">{t.rental.conditionDamaged}</option>
+                            <option value="lost">{t.rental.conditionLost}</option>
+                          </select>
+                          {(inspection.condition === "damaged" ||
+                            inspection.condition === "lost") && (
+                            <Input
+                              type="number"
+                              min="0"
+                              placeholder={t.rental.chargeAmountPlaceholder}
+                              value={inspection.chargeAmount}
+                              onChange={(e) =>
+                                updateReturnInspection(asset.id, "chargeAmount", e.target.value)
+                              }
+                            />
+                          )}
+                          <Textarea
+                            className="col-span-2"
+                            rows={2}
+                            placeholder={t.rental.photoUrlsPlaceholder}
+                            value={inspection.photoUrls}
+                            onChange={(e) =>
+                              updateReturnInspection(asset.id, "photoUrls", e.target.value)
+                            }
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div>
+                <label className="text-sm text-muted-foreground mb-1 block">
+                  {t.rental.returnDate}
+                </label>
+                <Input
+                  type="date"
+                  value={returnDate}
+                  onChange={(e) => setReturnDate(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm text-muted-foreground mb-1 block">
+                  {t.rental.returnCondition}
+                </label>
+                <Textarea
+                  value={returnCondition}
+                  onChange={(e) => setReturnCondition(e.target.value)}
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2 pt-4 border-t border-border">
+                <Button type="button" variant="outline" onClick={closeReturnModal}>
+                  ยกเลิก
+                </Button>
+                <Button
+                  type="button"
+                  disabled={returnAssetIds.length === 0 || returnAssetsMutation.isPending}
+                  onClick={() => submitReturn(returningRental.id)}
+                >
+                  {returnAssetsMutation.isPending && (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  )}
+                  {t.rental.returnAssets} ({returnAssetIds.length})
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Extend Rental Modal */}
+      {extendingRental && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card border border-border rounded-lg p-6 w-full max-w-lg shadow-xl">
+            <h2 className="text-xl font-bold text-foreground mb-4">
+              {t.rental.extend} - {extendingRental.rentalNumber}
+            </h2>
+
+            {extendMutation.error && (
+              <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+                {extendMutation.error.message}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="text-sm text-muted-foreground mb-1 block">
+                  {t.rental.endDate}
+                </label>
+                <p className="text-foreground">
+                  {new Date(extendingRental.endDate).toLocaleDateString("th-TH")}
+                </p>
+              </div>
+
+              <div>
+                <label className="text-sm text-muted-foreground mb-1 block">
+                  {t.rental.newEndDate}
+                </label>
+                <Input
+                  type="date"
+                  value={newEndDate}
+                  onChange={(e) => setNewEndDate(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm text-muted-foreground mb-1 block">
+                  {t.rental.extendReason}
+                </label>
+                <Textarea
+                  value={extendReason}
+                  onChange={(e) => setExtendReason(e.target.value)}
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2 pt-4 border-t border-border">
+                <Button type="button" variant="outline" onClick={closeExtendModal}>
+                  ยกเลิก
+                </Button>
+                <Button
+                  type="button"
+                  disabled={!newEndDate || extendMutation.isPending}
+                  onClick={() => {
+                    extendMutation.mutate({
+                      id: extendingRental.id,
+                      newEndDate: new Date(newEndDate),
+                      reason: extendReason || undefined,
+                    });
+                  }}
+                >
+                  {extendMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t.rental.extend}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* View Rental Details Modal */}
       {isViewModalOpen && rentalDetails && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -820,6 +1319,11 @@ export default function RentalsPage() {
                   <p className="text-foreground">
                     <strong>ชื่อ:</strong> {rentalDetails.customerName}
                   </p>
+                  {rentalDetails.customerIdNumber && (
+                    <p className="text-foreground">
+                      <strong>{t.rental.customerIdNumber}:</strong> {rentalDetails.customerIdNumber}
+                    </p>
+                  )}
                   {rentalDetails.customerPhone && (
                     <p className="text-foreground">
                       <strong>โทรศัพท์:</strong> {rentalDetails.customerPhone}
@@ -857,6 +1361,30 @@ export default function RentalsPage() {
                 </div>
               </div>
 
+              {rentalDetails.extensions.length > 0 && (
+                <div>
+                  <label className="text-sm font-semibold text-muted-foreground">
+                    {t.rental.extensions}
+                  </label>
+                  <div className="mt-2 space-y-1">
+                    {rentalDetails.extensions.map((extension, idx) => (
+                      <p key={idx} className="text-sm text-foreground">
+                        {idx + 1}. {new Date(extension.previousEndDate).toLocaleDateString("th-TH")}{" "}
+                        → {new Date(extension.newEndDate).toLocaleDateString("th-TH")} (+
+                        {extension.amount.toLocaleString("th-TH", {
+                          minimumFractionDigits: 2,
+                          maximumFractionDigits: 2,
+                        })}{" "}
+                        บาท)
+                        {extension.reason && (
+                          <span className="text-muted-foreground"> - {extension.reason}</span>
+                        )}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {rentalDetails.actualReturnDate && (
                 <div>
                   <label className="text-sm font-semibold text-muted-foreground">
@@ -902,6 +1430,7 @@ export default function RentalsPage() {
                           assetCode: string;
                           productName?: string;
                           count: number;
+                          returnedCount: number;
                           totalAmount: number;
                         }
                       >();
@@ -914,12 +1443,14 @@ export default function RentalsPage() {
                         if (groupedAssets.has(groupKey)) {
                           const group = groupedAssets.get(groupKey)!;
                           group.count += quantity;
+                          group.returnedCount += asset.returnedAt ? quantity : 0;
                           group.totalAmount += assetAmount;
                         } else {
                           groupedAssets.set(groupKey, {
                             assetCode: asset.assetCode || "UNKNOWN",
                             productName: asset.productName,
                             count: quantity,
+                            returnedCount: asset.returnedAt ? quantity : 0,
                             totalAmount: assetAmount,
                           });
                         }
@@ -946,6 +1477,11 @@ export default function RentalsPage() {
                                   </span>
                                 )}
                               </p>
+                              {group.returnedCount > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  {t.rental.returned} {group.returnedCount}/{group.count}
+                                </p>
+                              )}
                             </div>
                             <div className="text-right ml-4">
                               <p className="text-foreground text-sm font-semibold">
@@ -1022,6 +1558,16 @@ export default function RentalsPage() {
                     บาท
                   </p>
                 </div>
+                <div>
+                  <label className="text-sm font-semibold text-muted-foreground">
+                    {t.rental.billingCycle}
+                  </label>
+                  <p className="text-foreground">
+                    {rentalDetails.billingCycle === "monthly"
+                      ? t.rental.billingCycleMonthly
+                      : t.rental.billingCycleOnce}
+                  </p>
+                </div>
                 {rentalDetails.penaltyAmount > 0 && (
                   <div>
                     <label className="text-sm font-semibold text-muted-foreground">ค่าปรับ</label>
@@ -1036,6 +1582,42 @@ export default function RentalsPage() {
                 )}
               </div>
 
+              {rentalDetails.charges.length > 0 && (
+                <div>
+                  <label className="text-sm font-semibold text-muted-foreground">
+                    {t.rental.charges}
+                  </label>
+                  <div className="mt-2 space-y-1">
+                    {rentalDetails.charges.map((charge, idx) => (
+                      <div key={idx} className="flex justify-between text-sm">
+                        <span className="text-foreground">{charge.description}</span>
+                        <span className="text-error font-semibold">
+                          {charge.amount.toLocaleString("th-TH", {
+                            minimumFractionDigits: 2,
+                            maximumFractionDigits: 2,
+                          })}{" "}
+                          บาท
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <RentalAssetChangesSection rental={rentalDetails} />
+
+              <RentalPaymentsSection rental={rentalDetails} />
+
+              <DepositSettlementSection rental={rentalDetails} />
+
+              <RentalInvoicesSection rental={rentalDetails} />
+
+              <RentalTasksSection rental={rentalDetails} />
+
+              <RentalNotificationsSection rental={rentalDetails} />
+
+              <RentalStatusLinkSection rental={rentalDetails} />
+
               {rentalDetails.notes && (
                 <div>
                   <label className="text-sm font-semibold text-muted-foreground">หมายเหตุ</label>
@@ -1055,6 +1637,17 @@ export default function RentalsPage() {
                   <Printer className="h-4 w-4 mr-2" />
                   พิมพ์ใบเสร็จ
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    if (rentalDetails) {
+                      window.open(`/rentals/${rentalDetails.id}/contract`, "_blank");
+                    }
+                  }}
+                >
+                  <FileSignature className="h-4 w-4 mr-2" />
+                  {t.rental.contract}
+                </Button>
                 <Button
                   variant="outline"
                   onClick={() => {
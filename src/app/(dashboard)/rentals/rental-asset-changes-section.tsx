@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Loader2 } from "lucide-react";
+import type { SwappedAssetStatus } from "@/lib/trpc/schemas";
+import type { RentalDTO } from "@/lib/trpc/services/rental.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+interface RentalAssetChangesSectionProps {
+  rental: RentalDTO;
+}
+
+type AssetChangeMode = "swap" | "add";
+
+const formatAmount = (amount: number) =>
+  `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} บาท`;
+
+const today = () => new Date().toISOString().split("T")[0];
+
+/**
+ * Asset history of a rental, with swap and add actions
+ *
+ * Lists every asset line with the dates its unit was out and the swaps that
+ * linked it to other units. For active rentals, admins can swap a unit on
+ * site for another one or add units; each unit is charged for its days out.
+ */
+export function RentalAssetChangesSection({ rental }: RentalAssetChangesSectionProps) {
+  const t = useTranslation();
+  const [mode, setMode] = useState<AssetChangeMode | null>(null);
+  const [fromAssetId, setFromAssetId] = useState("");
+  const [toAssetId, setToAssetId] = useState("");
+  const [date, setDate] = useState(today());
+  const [reason, setReason] = useState("");
+  const [outgoingStatus, setOutgoingStatus] = useState<SwappedAssetStatus>("maintenance");
+
+  const utils = trpc.useUtils();
+  const changeDate = date ? new Date(date) : new Date();
+  const bookingEnd = new Date(rental.endDate) > changeDate ? new Date(rental.endDate) : changeDate;
+  const { data: availableAssets } = trpc.rentalAsset.getAvailableForPeriod.useQuery(
+    { startDate: changeDate, endDate: bookingEnd },
+    { enabled: mode !== null }
+  );
+
+  const onSuccess = () => {
+    utils.rental.getById.invalidate({ id: rental.id });
+    utils.rental.list.invalidate();
+    utils.rentalAsset.list.invalidate();
+    setMode(null);
+    setFromAssetId("");
+    setToAssetId("");
+    setReason("");
+  };
+
+  const swapMutation = trpc.rental.swapAsset.useMutation({ onSuccess });
+  const addMutation = trpc.rental.addAssets.useMutation({ onSuccess });
+
+  const isActive = rental.status === "active";
+  const outstandingLines = rental.assets.filter((asset) => !asset.returnedAt);
+  const codeById = new Map(rental.assets.map((asset) => [asset.id, asset.assetCode]));
+  const error = swapMutation.error || addMutation.error;
+  const isPending = swapMutation.isPending || addMutation.isPending;
+
+  const openForm = (nextMode: AssetChangeMode) => {
+    setMode(nextMode);
+    setDate(today());
+    swapMutation.reset();
+    addMutation.reset();
+  };
+
+  const submit = () => {
+    if (mode === "swap") {
+      swapMutation.mutate({
+        id: rental.id,
+        fromAssetId,
+        toAssetId,
+        date: changeDate,
+        reason: reason.trim(),
+        outgoingStatus,
+      });
+    } else if (mode === "add") {
+      addMutation.mutate({
+        id: rental.id,
+        assets: [{ assetId: toAssetId, quantity: 1 }],
+        date: changeDate,
+      });
+    }
+  };
+
+  const canSubmit =
+    !!toAssetId && (mode === "add" || (!!fromAssetId && !!reason.trim())) && !isPending;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-muted-foreground">
+          {t.rental.assetHistory}
+        </label>
+        {isActive && mode === null && (
+          <div className="flex gap-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => openForm("swap")}>
+              {t.rental.swapAsset}
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => openForm("add")}>
+              {t.rental.addAssets}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-2 space-y-1 text-sm">
+        {rental.assets.map((asset, idx) => (
+          <div key={idx} className="flex justify-between gap-4">
+            <div>
+              <span className="text-foreground">
+                {asset.assetCode} {asset.productName && `- ${asset.productName}`}
+              </span>
+              <p className="text-xs text-muted-foreground">
+                {new Date(asset.addedAt || rental.startDate).toLocaleDateString("th-TH")} -{" "}
+                {asset.returnedAt
+                  ? new Date(asset.returnedAt).toLocaleDateString("th-TH")
+                  : t.rental.stillOut}
+                {asset.replacesAssetId &&
+                  ` · ${t.rental.replaces} ${codeById.get(asset.replacesAssetId) || ""}`}
+                {asset.replacedByAssetId &&
+                  ` · ${t.rental.replacedBy} ${codeById.get(asset.replacedByAssetId) || ""}`}
+                {asset.swapReason && ` (${asset.swapReason})`}
+              </p>
+            </div>
+            <span className="text-foreground whitespace-nowrap">
+              {formatAmount(asset.lineTotal)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {mode !== null && (
+        <div className="mt-3 p-3 border border-border rounded-md space-y-3">
+          {error && (
+            <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+              {error.message}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {mode === "swap" && (
+              <div>
+                <label className="text-sm text-muted-foreground mb-1 block">
+                  {t.rental.swapFrom}
+                </label>
+                <select
+                  value={fromAssetId}
+                  onChange={(e) => setFromAssetId(e.target.value)}
+                  className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                >
+                  <option value="">-</option>
+                  {outstandingLines.map((asset) => (
+                    <option key={asset.id} value={asset.id}>
+                      {asset.assetCode} {asset.productName && `- ${asset.productName}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">
+                {mode === "swap" ? t.rental.swapTo : t.rental.assetToAdd}
+              </label>
+              <select
+                value={toAssetId}
+                onChange={(e) => setToAssetId(e.target.value)}
+                className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+              >
+                <option value="">-</option>
+                {availableAssets?.map((asset) => (
+                  <option key={asset.id} value={asset.id}>
+                    {asset.assetCode} {asset.productName && `- ${asset.productName}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">
+                {t.rental.assetChangeDate}
+              </label>
+              <Input
+                type="date"
+                value={date}
+                max={today()}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            {mode === "swap" && (
+              <div>
+                <label className="text-sm text-muted-foreground mb-1 block">
+                  {t.rental.swappedAssetStatus}
+                </label>
+                <select
+                  value={outgoingStatus}
+                  onChange={(e) => setOutgoingStatus(e.target.value as SwappedAssetStatus)}
+                  className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                >
+                  <option value="maintenance">{t.rental.swappedToMaintenance}</option>
+                  <option value="available">{t.rental.swappedToAvailable}</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          {mode === "swap" && (
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">
+                {t.rental.swapReason}
+              </label>
+              <Input value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">{t.rental.assetChangeHint}</p>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setMode(null)}>
+              {t.common.cancel}
+            </Button>
+            <Button type="button" disabled={!canSubmit} onClick={submit}>
+              {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {mode === "swap" ? t.rental.swapAsset : t.rental.addAssets}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
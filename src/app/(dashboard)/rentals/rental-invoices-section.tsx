@@ -0,0 +1,269 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Badge, Button, Input } from "@/components";
+import { Loader2 } from "lucide-react";
+import type { RentalPaymentMethod } from "@/lib/trpc/schemas";
+import type { RentalDTO } from "@/lib/trpc/services/rental.service";
+import type { RentalInvoiceDTO } from "@/lib/trpc/services/rental-invoice.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { TaxInvoiceModal } from "../tax-invoices/tax-invoice-modal";
+
+interface RentalInvoicesSectionProps {
+  rental: RentalDTO;
+}
+
+const formatAmount = (amount: number) =>
+  `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} บาท`;
+
+/**
+ * Last day covered by an invoice (its period end is exclusive)
+ */
+const formatPeriodEnd = (periodEnd: Date) =>
+  new Date(new Date(periodEnd).getTime() - 1).toLocaleDateString("th-TH");
+
+/**
+ * Monthly invoices of a long-term rental
+ *
+ * Lists every invoice issued for the rental with its period, due date, and
+ * payment status, the invoiced/paid/outstanding totals, and actions to record
+ * a payment or void an unpaid invoice. Paying an invoice records the payment
+ * in the rental's payments ledger, and a paid invoice that carries VAT can get
+ * a tax invoice. Only shown for monthly-billed rentals.
+ */
+export function RentalInvoicesSection({ rental }: RentalInvoicesSectionProps) {
+  const t = useTranslation();
+  const [voidingId, setVoidingId] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<RentalPaymentMethod>("transfer");
+  const [taxInvoiceFor, setTaxInvoiceFor] = useState<RentalInvoiceDTO | null>(null);
+
+  const isMonthly = rental.billingCycle === "monthly";
+  const utils = trpc.useUtils();
+  const { data } = trpc.rentalInvoice.byRental.useQuery(
+    { rentalId: rental.id },
+    { enabled: isMonthly }
+  );
+
+  const onSuccess = () => {
+    utils.rentalInvoice.byRental.invalidate({ rentalId: rental.id });
+    utils.rental.getById.invalidate({ id: rental.id });
+    setVoidingId(null);
+    setVoidReason("");
+  };
+
+  const generateMutation = trpc.rentalInvoice.generate.useMutation({ onSuccess });
+  const markPaidMutation = trpc.rentalInvoice.markPaid.useMutation({ onSuccess });
+  const voidMutation = trpc.rentalInvoice.void.useMutation({ onSuccess });
+
+  if (!isMonthly) {
+    return null;
+  }
+
+  const statusMap: Record<
+    RentalInvoiceDTO["status"],
+    { label: string; color: "blue" | "success" | "error" | "warning" }
+  > = {
+    unpaid: { label: t.rental.invoiceStatusUnpaid, color: "warning" },
+    paid: { label: t.rental.invoiceStatusPaid, color: "success" },
+    void: { label: t.rental.invoiceStatusVoid, color: "error" },
+  };
+
+  const error = generateMutation.error || markPaidMutation.error || voidMutation.error;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-semibold text-muted-foreground">{t.rental.invoices}</label>
+        {rental.status === "active" && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={generateMutation.isPending}
+            onClick={() => generateMutation.mutate({ rentalId: rental.id })}
+          >
+            {generateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t.rental.generateInvoices}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-2 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+          {error.message}
+        </div>
+      )}
+
+      <div className="mt-2 space-y-2">
+        {data && data.invoices.length === 0 && (
+          <p className="text-sm text-muted-foreground">{t.rental.noInvoices}</p>
+        )}
+        {data?.invoices.map((invoice) => (
+          <div key={invoice.id} className="p-3 border border-border rounded-md space-y-2 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-foreground">{invoice.invoiceNumber}</span>
+                <Badge variant="status" color={statusMap[invoice.status].color}>
+                  {statusMap[invoice.status].label}
+                </Badge>
+                {invoice.isOverdue && (
+                  <Badge variant="status" color="error">
+                    {t.rental.invoiceOverdue}
+                  </Badge>
+                )}
+              </div>
+              <span className="font-semibold text-foreground">{formatAmount(invoice.amount)}</span>
+            </div>
+            <div className="flex flex-wrap gap-x-4 text-muted-foreground">
+              <span>
+                {t.rental.invoicePeriod}:{" "}
+                {new Date(invoice.periodStart).toLocaleDateString("th-TH")} -{" "}
+                {formatPeriodEnd(invoice.periodEnd)}
+                {invoice.isProrated && ` (${t.rental.prorated})`}
+              </span>
+              <span>
+                {t.rental.dueDate}: {new Date(invoice.dueDate).toLocaleDateString("th-TH")}
+              </span>
+              {invoice.paidAt && (
+                <span>
+                  {t.rental.invoiceStatusPaid}:{" "}
+                  {new Date(invoice.paidAt).toLocaleDateString("th-TH")}
+                </span>
+              )}
+              {invoice.voidReason && <span>{invoice.voidReason}</span>}
+            </div>
+            {invoice.lines.map((line, idx) => (
+              <div key={idx} className="flex justify-between text-muted-foreground">
+                <span>
+                  {line.productName} x{line.quantity} ({line.days}/{invoice.daysInMonth}{" "}
+                  {t.rental.days})
+                </span>
+                <span>{formatAmount(line.amount)}</span>
+              </div>
+            ))}
+            {invoice.vatMode !== "none" && (
+              <div className="flex justify-between text-muted-foreground">
+                <span>
+                  {t.sale.vatAmount} {invoice.vatRate}%
+                  {invoice.vatMode === "inclusive" && ` (${t.sale.vatModeInclusive})`}
+                </span>
+                <span>{formatAmount(invoice.vatAmount)}</span>
+              </div>
+            )}
+
+            {invoice.status === "paid" && invoice.vatMode !== "none" && (
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setTaxInvoiceFor(invoice)}
+                >
+                  {t.taxInvoice.title}
+                </Button>
+              </div>
+            )}
+
+            {invoice.status === "unpaid" && voidingId !== invoice.id && (
+              <div className="flex justify-end gap-2">
+                <select
+                  value={paymentMethod}
+                  onChange={(e) => setPaymentMethod(e.target.value as RentalPaymentMethod)}
+                  className="rounded-md border border-border bg-input px-3 py-1 text-sm text-foreground"
+                >
+                  <option value="cash">{t.rental.paymentMethodCash}</option>
+                  <option value="transfer">{t.rental.paymentMethodTransfer}</option>
+                  <option value="card">{t.rental.paymentMethodCard}</option>
+                </select>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setVoidingId(invoice.id);
+                    setVoidReason("");
+                  }}
+                >
+                  {t.rental.voidInvoice}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  disabled={markPaidMutation.isPending}
+                  onClick={() => markPaidMutation.mutate({ id: invoice.id, method: paymentMethod })}
+                >
+                  {t.rental.markInvoicePaid}
+                </Button>
+              </div>
+            )}
+
+            {voidingId === invoice.id && (
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <label className="text-sm text-muted-foreground mb-1 block">
+                    {t.rental.voidInvoiceReason}
+                  </label>
+                  <Input value={voidReason} onChange={(e) => setVoidReason(e.target.value)} />
+                </div>
+                <Button type="button" variant="outline" onClick={() => setVoidingId(null)}>
+                  {t.common.cancel}
+                </Button>
+                <Button
+                  type="button"
+                  disabled={voidMutation.isPending || !voidReason.trim()}
+                  onClick={() => voidMutation.mutate({ id: invoice.id, reason: voidReason.trim() })}
+                >
+                  {voidMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t.rental.voidInvoice}
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {data && data.invoices.length > 0 && (
+        <div className="mt-2 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{t.rental.totalInvoiced}</span>
+            <span className="text-foreground">{formatAmount(data.totalInvoiced)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{t.rental.totalPaid}</span>
+            <span className="text-foreground">{formatAmount(data.totalPaid)}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span className={data.outstandingBalance > 0 ? "text-error" : "text-foreground"}>
+              {t.rental.outstandingBalance}
+            </span>
+            <span className={data.outstandingBalance > 0 ? "text-error" : "text-foreground"}>
+              {formatAmount(data.outstandingBalance)}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {taxInvoiceFor && (
+        <TaxInvoiceModal
+          sourceType="rentalInvoice"
+          sourceId={taxInvoiceFor.id}
+          sourceNumber={taxInvoiceFor.invoiceNumber}
+          defaultBuyer={{
+            name: rental.customerName,
+            address: rental.customerAddress,
+            taxId:
+              rental.customerIdNumber && /^\d{13}$/.test(rental.customerIdNumber)
+                ? rental.customerIdNumber
+                : undefined,
+          }}
+          onClose={() => setTaxInvoiceFor(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Badge, Button } from "@/components";
+import { Loader2, Send } from "lucide-react";
+import type { NotificationChannel } from "@/lib/trpc/schemas";
+import type { RentalDTO } from "@/lib/trpc/services/rental.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+interface RentalNotificationsSectionProps {
+  rental: RentalDTO;
+}
+
+/**
+ * Customer notifications of a rental
+ *
+ * Lists every reminder and overdue notice sent for the rental, and for active
+ * rentals, lets staff send today's message now.
+ */
+export function RentalNotificationsSection({ rental }: RentalNotificationsSectionProps) {
+  const t = useTranslation();
+  const [channel, setChannel] = useState<NotificationChannel>("sms");
+
+  const utils = trpc.useUtils();
+  const { data: notifications } = trpc.rentalNotification.byRental.useQuery({
+    rentalId: rental.id,
+  });
+
+  const sendMutation = trpc.rentalNotification.send.useMutation({
+    onSuccess: () => {
+      utils.rentalNotification.byRental.invalidate({ rentalId: rental.id });
+    },
+    onError: () => {
+      utils.rentalNotification.byRental.invalidate({ rentalId: rental.id });
+    },
+  });
+
+  const channelLabels: Record<NotificationChannel, string> = {
+    sms: t.rentalNotification.channelSms,
+    email: t.rentalNotification.channelEmail,
+    line: t.rentalNotification.channelLine,
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-semibold text-muted-foreground">
+        {t.rentalNotification.title}
+      </label>
+
+      <div className="mt-2 space-y-2">
+        {notifications && notifications.length === 0 && (
+          <p className="text-sm text-muted-foreground">{t.rentalNotification.noNotifications}</p>
+        )}
+        {notifications?.map((notification) => (
+          <details key={notification.id} className="p-3 border border-border rounded-md">
+            <summary className="flex flex-wrap items-center gap-2 text-sm cursor-pointer">
+              <Badge
+                variant="status"
+                color={notification.kind === "overdue-notice" ? "warning" : "blue"}
+              >
+                {notification.kind === "overdue-notice"
+                  ? t.rentalNotification.kindOverdue
+                  : t.rentalNotification.kindReminder}
+              </Badge>
+              <Badge variant="status" color={notification.status === "sent" ? "success" : "error"}>
+                {notification.status === "sent"
+                  ? t.rentalNotification.statusSent
+                  : t.rentalNotification.statusFailed}
+              </Badge>
+              <span className="text-foreground">
+                {new Date(notification.createdAt).toLocaleString("th-TH")}
+              </span>
+              <span className="text-muted-foreground">
+                {channelLabels[notification.channel]} {notification.recipient}
+              </span>
+            </summary>
+            <p className="mt-2 text-sm text-muted-foreground whitespace-pre-line">
+              {notification.body}
+            </p>
+            {notification.error && <p className="mt-1 text-sm text-error">{notification.error}</p>}
+          </details>
+        ))}
+      </div>
+
+      {rental.status === "active" && (
+        <div className="mt-3 space-y-2">
+          {sendMutation.error && (
+            <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+              {sendMutation.error.message}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <select
+              value={channel}
+              onChange={(e) => setChannel(e.target.value as NotificationChannel)}
+              className="rounded-md border border-border bg-input px-3 py-2 text-foreground"
+            >
+              {(Object.keys(channelLabels) as NotificationChannel[]).map((option) => (
+                <option key={option} value={option}>
+                  {channelLabels[option]}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              disabled={sendMutation.isPending}
+              onClick={() => sendMutation.mutate({ rentalId: rental.id, channel })}
+            >
+              {sendMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 mr-2" />
+              )}
+              {t.rentalNotification.sendNow}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
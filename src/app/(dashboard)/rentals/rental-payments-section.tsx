@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Badge, Button, Input } from "@/components";
+import { Loader2 } from "lucide-react";
+import type { RentalPaymentMethod, RentalPaymentStatus } from "@/lib/trpc/schemas";
+import type { RentalDTO } from "@/lib/trpc/services/rental.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+interface RentalPaymentsSectionProps {
+  rental: RentalDTO;
+}
+
+const formatAmount = (amount: number) =>
+  `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} บาท`;
+
+/**
+ * Badge for a rental's derived payment status
+ */
+export function RentalPaymentStatusBadge({ status }: { status: RentalPaymentStatus }) {
+  const t = useTranslation();
+  const statusMap: Record<
+    RentalPaymentStatus,
+    { label: string; color: "blue" | "success" | "error" | "warning" }
+  > = {
+    unpaid: { label: t.rental.paymentStatusUnpaid, color: "error" },
+    partial: { label: t.rental.paymentStatusPartial, color: "warning" },
+    paid: { label: t.rental.paymentStatusPaid, color: "success" },
+  };
+  return (
+    <Badge variant="status" color={statusMap[status].color}>
+      {statusMap[status].label}
+    </Badge>
+  );
+}
+
+/**
+ * Payments ledger of a rental
+ *
+ * Shows the amount due, every payment received so far, the outstanding
+ * balance, and a form to record a new payment while a balance is owed.
+ */
+export function RentalPaymentsSection({ rental }: RentalPaymentsSectionProps) {
+  const t = useTranslation();
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<RentalPaymentMethod>("cash");
+  const [reference, setReference] = useState("");
+
+  const utils = trpc.useUtils();
+  const recordPaymentMutation = trpc.rental.recordPayment.useMutation({
+    onSuccess: () => {
+      utils.rental.getById.invalidate({ id: rental.id });
+      utils.rental.list.invalidate();
+      setAmount("");
+      setReference("");
+    },
+  });
+
+  const paymentMethodLabels: Record<RentalPaymentMethod, string> = {
+    cash: t.rental.paymentMethodCash,
+    transfer: t.rental.paymentMethodTransfer,
+    card: t.rental.paymentMethodCard,
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-semibold text-muted-foreground">{t.rental.payments}</label>
+        <RentalPaymentStatusBadge status={rental.paymentStatus} />
+      </div>
+
+      {recordPaymentMutation.error && (
+        <div className="mt-2 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+          {recordPaymentMutation.error.message}
+        </div>
+      )}
+
+      <div className="mt-2 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">{t.rental.amountDue}</span>
+          <span className="text-foreground">{formatAmount(rental.amountDue)}</span>
+        </div>
+        {rental.payments.length === 0 && (
+          <p className="text-muted-foreground">{t.rental.noPayments}</p>
+        )}
+        {rental.payments.map((payment, idx) => (
+          <div key={idx} className="flex justify-between">
+            <span className="text-muted-foreground">
+              {new Date(payment.paidAt).toLocaleDateString("th-TH")} (
+              {paymentMethodLabels[payment.method]})
+              {payment.reference && ` ${t.rental.paymentReference} ${payment.reference}`}
+            </span>
+            <span className="text-foreground">{formatAmount(payment.amount)}</span>
+          </div>
+        ))}
+        {rental.depositSettlement && rental.depositSettlement.deductedAmount > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{t.rental.depositDeducted}</span>
+            <span className="text-foreground">
+              {formatAmount(rental.depositSettlement.deductedAmount)}
+            </span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold">
+          <span className={rental.outstandingBalance > 0 ? "text-error" : "text-foreground"}>
+            {t.rental.outstandingBalance}
+          </span>
+          <span className={rental.outstandingBalance > 0 ? "text-error" : "text-foreground"}>
+            {formatAmount(rental.outstandingBalance)}
+          </span>
+        </div>
+      </div>
+
+      {rental.outstandingBalance > 0 && (
+        <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              {t.rental.paymentAmount}
+            </label>
+            <Input
+              type="number"
+              min="0"
+              value={amount}
+              placeholder={rental.outstandingBalance.toString()}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              {t.rental.paymentMethod}
+            </label>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as RentalPaymentMethod)}
+              className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+            >
+              <option value="cash">{t.rental.paymentMethodCash}</option>
+              <option value="transfer">{t.rental.paymentMethodTransfer}</option>
+              <option value="card">{t.rental.paymentMethodCard}</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              {t.rental.paymentReference}
+            </label>
+            <Input value={reference} onChange={(e) => setReference(e.target.value)} />
+          </div>
+          <Button
+            type="button"
+            disabled={recordPaymentMutation.isPending}
+            onClick={() =>
+              recordPaymentMutation.mutate({
+                id: rental.id,
+                amount: Number(amount) || rental.outstandingBalance,
+                method,
+                reference: reference.trim() || undefined,
+              })
+            }
+          >
+            {recordPaymentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t.rental.recordPayment}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Copy, Link2, Loader2 } from "lucide-react";
+import type { RentalDTO } from "@/lib/trpc/services/rental.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+interface RentalStatusLinkSectionProps {
+  rental: RentalDTO;
+}
+
+/**
+ * Customer status link of a rental
+ *
+ * Issues a signed, expiring link to the public status page that staff can
+ * send to the customer.
+ */
+export function RentalStatusLinkSection({ rental }: RentalStatusLinkSectionProps) {
+  const t = useTranslation();
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [copied, setCopied] = useState(false);
+
+  const createLinkMutation = trpc.rentalStatus.createLink.useMutation({
+    onSuccess: () => setCopied(false),
+  });
+
+  const link = createLinkMutation.data
+    ? `${window.location.origin}${createLinkMutation.data.path}`
+    : "";
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  };
+
+  if (rental.status === "cancelled") {
+    return null;
+  }
+
+  return (
+    <div>
+      <label className="text-sm font-semibold text-muted-foreground">{t.rentalStatus.link}</label>
+      <p className="text-xs text-muted-foreground mt-1">{t.rentalStatus.linkHint}</p>
+
+      <div className="mt-2 space-y-2">
+        {createLinkMutation.error && (
+          <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {createLinkMutation.error.message}
+          </div>
+        )}
+        <div className="flex gap-2 items-end">
+          <div>
+            <label className="text-sm text-muted-foreground mb-1 block">
+              {t.rentalStatus.linkValidDays}
+            </label>
+            <Input
+              type="number"
+              min="1"
+              max="90"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              className="w-24"
+            />
+          </div>
+          <Button
+            variant="outline"
+            disabled={createLinkMutation.isPending || !(parseInt(expiresInDays) > 0)}
+            onClick={() =>
+              createLinkMutation.mutate({
+                rentalId: rental.id,
+                expiresInDays: parseInt(expiresInDays),
+              })
+            }
+          >
+            {createLinkMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="h-4 w-4 mr-2" />
+            )}
+            {t.rentalStatus.createLink}
+          </Button>
+        </div>
+
+        {createLinkMutation.data && (
+          <div className="flex gap-2">
+            <Input readOnly value={link} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={copyLink}>
+              <Copy className="h-4 w-4 mr-2" />
+              {copied ? t.rentalStatus.copied : t.rentalStatus.copyLink}
+            </Button>
+          </div>
+        )}
+        {createLinkMutation.data && (
+          <p className="text-xs text-muted-foreground">
+            {t.rentalStatus.linkExpires}{" "}
+            {new Date(createLinkMutation.data.expiresAt).toLocaleString("th-TH")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Loader2 } from "lucide-react";
+import type { RentalTaskType } from "@/lib/trpc/schemas";
+import type { RentalDTO } from "@/lib/trpc/services/rental.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import {
+  RentalTaskActions,
+  RentalTaskStatusBadge,
+  RentalTaskTypeBadge,
+  combineDateTime,
+  formatTimeSlot,
+} from "../rental-tasks/rental-task-ui";
+
+interface RentalTasksSectionProps {
+  rental: RentalDTO;
+}
+
+/**
+ * Delivery and pickup tasks of a rental
+ *
+ * Lists the rental's tasks with their status actions, and for rentals that
+ * are not finished, a form to schedule a new task.
+ */
+export function RentalTasksSection({ rental }: RentalTasksSectionProps) {
+  const t = useTranslation();
+  const [type, setType] = useState<RentalTaskType>(
+    rental.status === "active" ? "pickup" : "delivery"
+  );
+  const [date, setDate] = useState("");
+  const [timeStart, setTimeStart] = useState("09:00");
+  const [timeEnd, setTimeEnd] = useState("12:00");
+  const [assignedTo, setAssignedTo] = useState("");
+  const [address, setAddress] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: tasks } = trpc.rentalTask.list.useQuery({ rentalId: rental.id });
+  const { data: staff } = trpc.user.staff.useQuery();
+
+  const createMutation = trpc.rentalTask.create.useMutation({
+    onSuccess: () => {
+      utils.rentalTask.list.invalidate();
+      utils.rentalTask.routeSheet.invalidate();
+      setDate("");
+      setAddress("");
+    },
+  });
+
+  const canSchedule = rental.status === "pending" || rental.status === "active";
+
+  return (
+    <div>
+      <label className="text-sm font-semibold text-muted-foreground">{t.rentalTask.tasks}</label>
+
+      <div className="mt-2 space-y-2">
+        {tasks && tasks.length === 0 && (
+          <p className="text-sm text-muted-foreground">{t.rentalTask.noRentalTasks}</p>
+        )}
+        {tasks?.map((task) => (
+          <div key={task.id} className="p-3 border border-border rounded-md space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <RentalTaskTypeBadge type={task.type} />
+              <RentalTaskStatusBadge status={task.status} />
+              <span className="text-foreground">
+                {new Date(task.scheduledStart).toLocaleDateString("th-TH")}{" "}
+                {formatTimeSlot(task.scheduledStart, task.scheduledEnd)}
+              </span>
+              <span className="text-muted-foreground">
+                {task.assignedToName || t.rentalTask.unassigned}
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground">{task.address}</p>
+            <RentalTaskActions task={task} />
+          </div>
+        ))}
+      </div>
+
+      {canSchedule && (
+        <div className="mt-3 p-3 border border-border rounded-md space-y-2">
+          {createMutation.error && (
+            <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+              {createMutation.error.message}
+            </div>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">
+                {t.rentalTask.type}
+              </label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as RentalTaskType)}
+                className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+              >
+                <option value="delivery">{t.rentalTask.typeDelivery}</option>
+                <option value="pickup">{t.rentalTask.typePickup}</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">
+                {t.rentalTask.date}
+              </label>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">
+                {t.rentalTask.timeStart}
+              </label>
+              <Input type="time" value={timeStart} onChange={(e) => setTimeStart(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">
+                {t.rentalTask.timeEnd}
+              </label>
+              <Input type="time" value={timeEnd} onChange={(e) => setTimeEnd(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">
+                {t.rentalTask.assignedTo}
+              </label>
+              <select
+                value={assignedTo}
+                onChange={(e) => setAssignedTo(e.target.value)}
+                className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+              >
+                <option value="">{t.rentalTask.unassigned}</option>
+                {staff?.map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {member.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm text-muted-foreground mb-1 block">
+                {t.rentalTask.address}
+              </label>
+              <Input
+                value={address}
+                placeholder={rental.customerAddress || t.rentalTask.addressPlaceholder}
+                onChange={(e) => setAddress(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              disabled={!date || !timeStart || !timeEnd || createMutation.isPending}
+              onClick={() =>
+                createMutation.mutate({
+                  rentalId: rental.id,
+                  type,
+                  address: address || undefined,
+                  scheduledStart: combineDateTime(date, timeStart),
+                  scheduledEnd: combineDateTime(date, timeEnd),
+                  assignedTo: assignedTo || undefined,
+                })
+              }
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t.rentalTask.addTask}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { PageHeader, SectionCard, Button, Badge, StatCard, StatCardGrid } from "@/components";
+import { HandCoins, Loader2, Receipt, Wallet } from "lucide-react";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import { SalePaymentsModal } from "../sales/sale-payments-modal";
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sale receivables
+ *
+ * Unpaid and partly paid sales, oldest first, with how long each has been
+ * open. Payments are recorded from here against the sale's ledger.
+ */
+export default function SaleReceivablesPage() {
+  const t = useTranslation();
+  const [now] = useState(() => Date.now());
+  const [paymentSaleId, setPaymentSaleId] = useState<string | null>(null);
+
+  const { data, isLoading, error } = trpc.sale.receivables.useQuery();
+
+  const getPaymentStatusBadge = (status: "pending" | "paid" | "partial") =>
+    status === "partial" ? (
+      <Badge variant="status" color="blue">
+        {t.sale.paymentStatusPartial}
+      </Badge>
+    ) : (
+      <Badge variant="status" color="warning">
+        {t.sale.paymentStatusPending}
+      </Badge>
+    );
+
+  return (
+    <>
+      <PageHeader title={t.sale.receivables} description={t.sale.receivablesDescription} />
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {error.message}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          data && (
+            <>
+              <StatCardGrid columns={2}>
+                <StatCard
+                  label={t.sale.totalOutstanding}
+                  value={`${formatMoney(data.totalOutstanding)} ฿`}
+                  icon={Wallet}
+                  variant="indigo"
+                />
+                <StatCard
+                  label={t.saleReturn.salesCount}
+                  value={data.sales.length}
+                  icon={Receipt}
+                  variant="blue"
+                />
+              </StatCardGrid>
+
+              <SectionCard title={t.sale.receivables} icon={HandCoins}>
+                {data.sales.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t.sale.noReceivables}</p>
+                ) : (
+                  <div className="overflow-x-auto border border-border rounded-lg">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/40 text-muted-foreground">
+                        <tr>
+                          <th className="p-2 text-left">{t.sale.billNumber}</th>
+                          <th className="p-2 text-left">{t.sale.customerName}</th>
+                          <th className="p-2 text-left">{t.common.date}</th>
+                          <th className="p-2 text-left">{t.sale.paymentStatus}</th>
+                          <th className="p-2 text-right">{t.sale.totalAmount}</th>
+                          <th className="p-2 text-right">{t.sale.paidAmount}</th>
+                          <th className="p-2 text-right">{t.sale.outstandingAmount}</th>
+                          <th className="p-2 text-left">{t.sale.lastPaidAt}</th>
+                          <th className="p-2 text-right">{t.common.actions}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {data.sales.map((sale) => (
+                          <tr key={sale.id} className="border-t border-border">
+                            <td className="p-2 font-semibold text-foreground">{sale.billNumber}</td>
+                            <td className="p-2">
+                              {sale.customerName}
+                              {sale.customerPhone && (
+                                <div className="text-xs text-muted-foreground">
+                                  {sale.customerPhone}
+                                </div>
+                              )}
+                            </td>
+                            <td className="p-2">
+                              {new Date(sale.createdAt).toLocaleDateString("th-TH")}
+                              <div className="text-xs text-muted-foreground">
+                                {t.sale.daysOpen}{" "}
+                                {Math.max(
+                                  0,
+                                  Math.floor((now - new Date(sale.createdAt).getTime()) / DAY_MS)
+                                )}{" "}
+                                {t.sale.days}
+                              </div>
+                            </td>
+                            <td className="p-2">{getPaymentStatusBadge(sale.paymentStatus)}</td>
+                            <td className="p-2 text-right">{formatMoney(sale.totalAmount)}</td>
+                            <td className="p-2 text-right">{formatMoney(sale.paidAmount)}</td>
+                            <td className="p-2 text-right font-semibold text-error">
+                              {formatMoney(sale.outstandingAmount)}
+                            </td>
+                            <td className="p-2">
+                              {sale.lastPaidAt
+                                ? new Date(sale.lastPaidAt).toLocaleDateString("th-TH")
+                                : "-"}
+                            </td>
+                            <td className="p-2 text-right">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPaymentSaleId(sale.id)}
+                              >
+                                {t.sale.recordPayment}
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </SectionCard>
+            </>
+          )
+        )}
+      </div>
+
+      {paymentSaleId && (
+        <SalePaymentsModal saleId={paymentSaleId} onClose={() => setPaymentSaleId(null)} />
+      )}
+    </>
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { trpc } from "@/lib/trpc/client";
 import { ownerConfig } from "@/lib/config/owner";
+import { getPromotionLines } from "@/lib/promotions";
 import { Button } from "@/components";
 import { Printer, X, Loader2 } from "lucide-react";
 
@@ -17,6 +18,7 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
   const router = useRouter();
 
   const { data: sale, isLoading } = trpc.sale.getById.useQuery({ id });
+  const { data: saleReturns } = trpc.saleReturn.bySale.useQuery({ saleId: id });
 
   const formatThaiDate = (date: Date) => {
     return new Intl.DateTimeFormat("th-TH", {
@@ -162,6 +164,7 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
               <div class="customer-value">${sale.customerName || "-"}</div>
               ${sale.customerPhone ? `<div class="customer-value" style="font-weight:500;">โทร. ${sale.customerPhone}</div>` : ""}
               ${sale.customerAddress ? `<div style="font-size:13px; color:#475569; margin-top:4px;">${sale.customerAddress}</div>` : ""}
+              ${sale.customerTaxId ? `<div style="font-size:13px; color:#475569; margin-top:4px;">เลขประจำตัวผู้เสียภาษี ${sale.customerTaxId}</div>` : ""}
             </div>
 
             <table class="items-table">
@@ -181,7 +184,12 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
                     (item, idx) => `
                   <tr>
                     <td style="text-align:center; font-weight:600;">${idx + 1}</td>
-                    <td style="font-weight:600;">${item.productName || "-"}</td>
+                    <td style="font-weight:600;">${item.productName || "-"}${item.appliedPromotions
+                      .map(
+                        (applied) =>
+                          `<div style="font-size:11px; font-weight:400; color:#15803d;">${applied.name} -${applied.discount.toLocaleString()} ฿</div>`
+                      )
+                      .join("")}</td>
                     <td style="text-align:center;">${item.sku || "-"}</td>
                     <td style="text-align:center;">${item.quantity}</td>
                     <td style="text-align:right;">${item.unitPrice.toLocaleString()} ฿</td>
@@ -199,6 +207,16 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
                   <td class="label" style="width:60%;">ยอดรวมสินค้า</td>
                   <td class="value" style="width:40%;">${sale.subtotal.toLocaleString()} ฿</td>
                 </tr>
+                ${getPromotionLines(sale.items)
+                  .map(
+                    (line) => `
+                  <tr>
+                    <td class="label">ส่วนลด ${line.name}${line.couponCode ? ` (${line.couponCode})` : ""}</td>
+                    <td class="value">-${line.discount.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                  )
+                  .join("")}
                 ${
                   sale.discount > 0
                     ? `
@@ -210,10 +228,14 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
                     : ""
                 }
                 ${
-                  sale.tax > 0
+                  sale.vatMode !== "none"
                     ? `
                   <tr>
-                    <td class="label">ภาษี</td>
+                    <td class="label">มูลค่าก่อนภาษี</td>
+                    <td class="value">${sale.taxableAmount.toLocaleString()} ฿</td>
+                  </tr>
+                  <tr>
+                    <td class="label">ภาษีมูลค่าเพิ่ม ${sale.vatRate}%</td>
                     <td class="value">${sale.tax.toLocaleString()} ฿</td>
                   </tr>
                 `
@@ -237,9 +259,56 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
                 `
                     : ""
                 }
+                ${
+                  sale.returnedAmount > 0
+                    ? `
+                  <tr>
+                    <td class="label">ยอดคืนสินค้า (ใบลดหนี้)</td>
+                    <td class="value" style="color:#dc2626;">-${sale.returnedAmount.toLocaleString()} ฿</td>
+                  </tr>
+                  <tr>
+                    <td class="label">ยอดสุทธิหลังคืนสินค้า</td>
+                    <td class="value">${sale.netAmount.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                    : ""
+                }
               </tbody>
             </table>
 
+            ${
+              saleReturns && saleReturns.length > 0
+                ? `
+            <table class="items-table">
+              <thead>
+                <tr>
+                  <th style="width:20%;">เลขที่ใบลดหนี้</th>
+                  <th style="width:15%;">วันที่</th>
+                  <th style="width:35%;">รายการที่คืน</th>
+                  <th style="width:15%;">การชดเชย</th>
+                  <th style="width:15%;">ยอดลดหนี้</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${saleReturns
+                  .map(
+                    (saleReturn) => `
+                  <tr>
+                    <td style="text-align:center; font-weight:600;">${saleReturn.creditNoteNumber}</td>
+                    <td style="text-align:center;">${formatThaiDate(new Date(saleReturn.createdAt))}</td>
+                    <td>${saleReturn.items.map((item) => `${item.productName} × ${item.quantity}`).join("<br />")}<div style="color:#64748b;">${saleReturn.reason}</div></td>
+                    <td style="text-align:center;">คืนเงิน</td>
+                    <td style="text-align:right; font-weight:700; color:#dc2626;">-${saleReturn.creditAmount.toLocaleString()} ฿</td>
+                  </tr>
+                `
+                  )
+                  .join("")}
+              </tbody>
+            </table>
+            `
+                : ""
+            }
+
             <div class="page-break-wrapper">
               <div class="payment-section">
                 <div class="payment-title">ช่องทางการชำระเงิน</div>
@@ -419,6 +488,11 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
             {sale.customerAddress && (
               <div className="text-sm text-muted-foreground mt-1">{sale.customerAddress}</div>
             )}
+            {sale.customerTaxId && (
+              <div className="text-sm text-muted-foreground mt-1">
+                เลขประจำตัวผู้เสียภาษี {sale.customerTaxId}
+              </div>
+            )}
           </div>
 
           <div className="overflow-hidden border border-border rounded-lg">
@@ -442,6 +516,11 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
                       {item.sku ? (
                         <div className="text-xs text-muted-foreground">SKU: {item.sku}</div>
                       ) : null}
+                      {item.appliedPromotions.map((applied) => (
+                        <div key={applied.promotionId} className="text-xs font-normal text-success">
+                          {applied.name} -{applied.discount.toLocaleString()} ฿
+                        </div>
+                      ))}
                     </td>
                     <td className="p-2 text-center">{item.sku || "-"}</td>
                     <td className="p-2 text-center">{item.quantity}</td>
@@ -455,6 +534,43 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
             </table>
           </div>
 
+          {saleReturns && saleReturns.length > 0 && (
+            <div className="mt-4 overflow-hidden border border-border rounded-lg">
+              <div className="p-2 font-bold text-primary bg-muted/40">ใบลดหนี้</div>
+              <table className="w-full text-sm">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="p-2 text-left">เลขที่ใบลดหนี้</th>
+                    <th className="p-2 text-left">วันที่</th>
+                    <th className="p-2 text-left">รายการที่คืน</th>
+                    <th className="p-2 text-left">การชดเชย</th>
+                    <th className="p-2 text-right">ยอดลดหนี้</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {saleReturns.map((saleReturn) => (
+                    <tr key={saleReturn.id} className="border-t border-border">
+                      <td className="p-2 font-semibold">{saleReturn.creditNoteNumber}</td>
+                      <td className="p-2">{formatThaiDate(new Date(saleReturn.createdAt))}</td>
+                      <td className="p-2">
+                        {saleReturn.items.map((item) => (
+                          <div key={item.productId}>
+                            {item.productName} × {item.quantity}
+                          </div>
+                        ))}
+                        <div className="text-xs text-muted-foreground">{saleReturn.reason}</div>
+                      </td>
+                      <td className="p-2">คืนเงิน</td>
+                      <td className="p-2 text-right font-semibold text-error">
+                        -{saleReturn.creditAmount.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           <div className="mt-4 grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <div className="border border-border rounded-lg p-3 bg-muted/20">
@@ -501,6 +617,17 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
                       {sale.subtotal.toLocaleString()} ฿
                     </td>
                   </tr>
+                  {getPromotionLines(sale.items).map((line) => (
+                    <tr key={line.promotionId}>
+                      <td className="p-2 font-semibold text-muted-foreground">
+                        ส่วนลด {line.name}
+                        {line.couponCode && ` (${line.couponCode})`}
+                      </td>
+                      <td className="p-2 text-right font-semibold text-error">
+                        -{line.discount.toLocaleString()} ฿
+                      </td>
+                    </tr>
+                  ))}
                   {sale.discount > 0 && (
                     <tr>
                       <td className="p-2 font-semibold text-muted-foreground">ส่วนลด</td>
@@ -509,13 +636,23 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
                       </td>
                     </tr>
                   )}
-                  {sale.tax > 0 && (
-                    <tr>
-                      <td className="p-2 font-semibold text-muted-foreground">ภาษี</td>
-                      <td className="p-2 text-right font-semibold">
-                        {sale.tax.toLocaleString()} ฿
-                      </td>
-                    </tr>
+                  {sale.vatMode !== "none" && (
+                    <>
+                      <tr>
+                        <td className="p-2 font-semibold text-muted-foreground">มูลค่าก่อนภาษี</td>
+                        <td className="p-2 text-right font-semibold">
+                          {sale.taxableAmount.toLocaleString()} ฿
+                        </td>
+                      </tr>
+                      <tr>
+                        <td className="p-2 font-semibold text-muted-foreground">
+                          ภาษีมูลค่าเพิ่ม {sale.vatRate}%
+                        </td>
+                        <td className="p-2 text-right font-semibold">
+                          {sale.tax.toLocaleString()} ฿
+                        </td>
+                      </tr>
+                    </>
                   )}
                   <tr className="bg-muted/40">
                     <td className="p-2 font-bold text-foreground">ยอดรวมสุทธิ</td>
@@ -537,6 +674,26 @@ export default function SaleBillPage({ params }: SaleBillPageProps) {
                       </td>
                     </tr>
                   )}
+                  {sale.returnedAmount > 0 && (
+                    <>
+                      <tr>
+                        <td className="p-2 font-semibold text-muted-foreground">
+                          ยอดคืนสินค้า (ใบลดหนี้)
+                        </td>
+                        <td className="p-2 text-right font-semibold text-error">
+                          -{sale.returnedAmount.toLocaleString()} ฿
+                        </td>
+                      </tr>
+                      <tr>
+                        <td className="p-2 font-semibold text-muted-foreground">
+                          ยอดสุทธิหลังคืนสินค้า
+                        </td>
+                        <td className="p-2 text-right font-semibold">
+                          {sale.netAmount.toLocaleString()} ฿
+                        </td>
+                      </tr>
+                    </>
+                  )}
                 </tbody>
               </table>
             </div>
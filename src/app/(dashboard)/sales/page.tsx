@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { useSession } from "next-auth/react";
 import { useForm, type Resolver } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { trpc } from "@/lib/trpc/client";
@@ -16,6 +17,8 @@ import {
   FormControl,
   FormMessage,
   Input,
+  StatCard,
+  StatCardGrid,
 } from "@/components";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -29,13 +32,27 @@ import {
   Eye,
   Check,
   XCircle,
+  Undo2,
+  Wallet,
+  TrendingDown,
+  FileText,
 } from "lucide-react";
 import { createSaleSchema, updateSaleSchema } from "@/lib/trpc/schemas";
-import type { CreateSaleInput, UpdateSaleInput, SaleItem } from "@/lib/trpc/schemas";
+import type { CreateSaleInput, UpdateSaleInput, SaleItem, VatMode } from "@/lib/trpc/schemas";
+import type { SaleDTO } from "@/lib/trpc/services/sale.service";
 import { useTranslation } from "@/lib/hooks/useTranslation";
+import { hasPermission } from "@/lib/permissions";
+import { calculateVat } from "@/lib/vat";
+import { getPromotionLines } from "@/lib/promotions";
+import { vatConfig } from "@/lib/config/vat";
+import { SaleReturnModal } from "./sale-return-modal";
+import { SalePaymentsModal } from "./sale-payments-modal";
+import { TaxInvoiceModal } from "../tax-invoices/tax-invoice-modal";
 
 export default function SalesPage() {
   const t = useTranslation();
+  const { data: session } = useSession();
+  const canOverridePrice = hasPermission(session?.user?.role, "sale.overridePrice");
   const notify = (title: string, description?: string) => {
     if (typeof window !== "undefined") {
       window.alert(description ? `${title}\n${description}` : title);
@@ -48,13 +65,9 @@ export default function SalesPage() {
   const [editingSale, setEditingSale] = useState<{ id: string } | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [previewSaleId, setPreviewSaleId] = useState<string | null>(null);
-  const [paymentEditSale, setPaymentEditSale] = useState<{
-    id: string;
-    totalAmount: number;
-    paidAmount: number;
-    deposit: number;
-    paymentStatus: "pending" | "paid" | "partial";
-  } | null>(null);
+  const [returnSale, setReturnSale] = useState<SaleDTO | null>(null);
+  const [paymentSale, setPaymentSale] = useState<SaleDTO | null>(null);
+  const [taxInvoiceSale, setTaxInvoiceSale] = useState<SaleDTO | null>(null);
   const billRef = useRef<HTMLDivElement>(null);
   const [statusFilter, setStatusFilter] = useState<"pending" | "completed" | "cancelled" | "all">(
     "all"
@@ -70,6 +83,8 @@ export default function SalesPage() {
     limit: 50,
   });
 
+  const { data: summary } = trpc.sale.summary.useQuery({});
+
   const { data: saleDetail } = trpc.sale.getById.useQuery(
     { id: previewSaleId! },
     { enabled: !!previewSaleId }
@@ -103,6 +118,11 @@ export default function SalesPage() {
     // No search or lowStockOnly filters - we need all stock for matching
   });
 
+  // Today's selling prices (price lists or product price), as the server charges them
+  const { data: currentPrices } = trpc.priceList.currentPrices.useQuery();
+  const getListPrice = (productId: string) =>
+    currentPrices?.find((listPrice) => listPrice.productId === productId);
+
   const createMutation = trpc.sale.create.useMutation({
     onSuccess: () => {
       utils.sale.list.invalidate();
@@ -167,12 +187,6 @@ export default function SalesPage() {
     },
   });
 
-  const paymentStatusOptions: Array<{ value: "pending" | "paid" | "partial"; label: string }> = [
-    { value: "pending", label: "รอชำระ" },
-    { value: "paid", label: "ชำระแล้ว" },
-    { value: "partial", label: "ชำระบางส่วน" },
-  ];
-
   // Debug logging for product-buyStock relationship
   useEffect(() => {
     if (products?.products && buyStockList?.stocks) {
@@ -204,14 +218,14 @@ export default function SalesPage() {
       customerPhone: "",
       customerEmail: "",
       customerAddress: "",
+      customerTaxId: "",
+      customerBranchCode: "",
       items: [],
-      subtotal: 0,
+      couponCode: "",
       discount: 0,
-      tax: 0,
-      totalAmount: 0,
+      vatMode: vatConfig.mode,
       deposit: 0,
       paymentMethod: "cash",
-      paymentStatus: "pending",
       paidAmount: 0,
       notes: "",
     },
@@ -219,37 +233,46 @@ export default function SalesPage() {
 
   const items = form.watch("items") || [];
   const discount = form.watch("discount") || 0;
-  const tax = form.watch("tax") || 0;
-  const paymentStatus = form.watch("paymentStatus");
-  const totalAmountValue = form.watch("totalAmount") || 0;
+  const vatMode = form.watch("vatMode") ?? vatConfig.mode;
+  const couponCode = form.watch("couponCode")?.trim() || undefined;
+
+  // An item's unitPrice is only set when it overrides the list price
+  const getUnitPrice = (item: SaleItem) =>
+    item.unitPrice ?? getListPrice(item.productId)?.price ?? 0;
+  const lineTotals = items.map((item) => item.quantity * getUnitPrice(item));
+  const subtotal = lineTotals.reduce((sum, lineTotal) => sum + lineTotal, 0);
+
+  // Promotions the server will apply, for the items chosen so far
+  const promotableIndexes = items
+    .map((item, index) => (item.productId && item.quantity >= 1 ? index : -1))
+    .filter((index) => index >= 0);
+  const { data: promotionPreview, error: promotionError } = trpc.promotion.evaluate.useQuery(
+    {
+      items: promotableIndexes.map((index) => ({
+        productId: items[index].productId,
+        quantity: items[index].quantity,
+        unitPrice: getUnitPrice(items[index]),
+      })),
+      couponCode,
+    },
+    { enabled: isModalOpen && promotableIndexes.length > 0, retry: false }
+  );
+  const getLinePromotion = (index: number) =>
+    promotionPreview?.items[promotableIndexes.indexOf(index)];
+  const lineDiscounts = items.map((_, index) => getLinePromotion(index)?.promotionDiscount ?? 0);
+  const promotionDiscount = lineDiscounts.reduce((sum, lineDiscount) => sum + lineDiscount, 0);
+
+  // Same VAT breakdown the server stores on the sale
+  const vat = calculateVat(
+    lineTotals.map((lineTotal, index) => lineTotal - lineDiscounts[index]),
+    discount,
+    vatMode,
+    vatMode === "none" ? 0 : vatConfig.rate
+  );
 
   const formatCurrency = (value: number | undefined) =>
     (value ?? 0).toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
-  // Calculate totals using the latest form values (avoids stale closures)
-  const calculateTotals = () => {
-    const currentItems = form.getValues("items") || [];
-    const currentDiscount = form.getValues("discount") ?? 0;
-    const currentTax = form.getValues("tax") ?? 0;
-
-    const itemsTotal = currentItems.reduce((sum, item) => sum + item.totalPrice, 0);
-    const calculatedSubtotal = itemsTotal;
-    const calculatedTotal = calculatedSubtotal - currentDiscount + currentTax;
-
-    form.setValue("subtotal", calculatedSubtotal);
-    form.setValue("totalAmount", calculatedTotal);
-  };
-
-  // Keep paidAmount aligned with paymentStatus selection
-  useEffect(() => {
-    if (!paymentStatus) return;
-    if (paymentStatus === "pending") {
-      form.setValue("paidAmount", 0);
-    } else if (paymentStatus === "paid") {
-      form.setValue("paidAmount", totalAmountValue);
-    }
-  }, [paymentStatus, totalAmountValue, form]);
-
   const openCreateModal = () => {
     setEditingSale(null);
     form.reset({
@@ -257,14 +280,14 @@ export default function SalesPage() {
       customerPhone: "",
       customerEmail: "",
       customerAddress: "",
+      customerTaxId: "",
+      customerBranchCode: "",
       items: [],
-      subtotal: 0,
+      couponCode: "",
       discount: 0,
-      tax: 0,
-      totalAmount: 0,
+      vatMode: vatConfig.mode,
       deposit: 0,
       paymentMethod: "cash",
-      paymentStatus: "pending",
       paidAmount: 0,
       notes: "",
     });
@@ -277,22 +300,18 @@ export default function SalesPage() {
     customerPhone?: string;
     customerEmail?: string;
     customerAddress?: string;
+    customerTaxId?: string;
+    customerBranchCode?: string;
     items: Array<{
       productId: string;
-      productName: string;
-      sku: string;
       quantity: number;
       unitPrice: number;
-      totalPrice: number;
+      priceOverrideReason?: string;
     }>;
-    subtotal: number;
+    couponCode?: string;
     discount: number;
-    tax: number;
-    totalAmount: number;
+    vatMode: VatMode;
     deposit: number;
-    paymentMethod?: "cash" | "card" | "transfer" | "other";
-    paymentStatus: "pending" | "paid" | "partial";
-    paidAmount: number;
     notes?: string;
   }) => {
     setEditingSale({ id: sale.id });
@@ -301,15 +320,19 @@ export default function SalesPage() {
       customerPhone: sale.customerPhone || "",
       customerEmail: sale.customerEmail || "",
       customerAddress: sale.customerAddress || "",
-      items: sale.items,
-      subtotal: sale.subtotal,
+      customerTaxId: sale.customerTaxId || "",
+      customerBranchCode: sale.customerBranchCode || "",
+      // Items are repriced on save; only overrides keep their price
+      items: sale.items.map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.priceOverrideReason ? item.unitPrice : undefined,
+        priceOverrideReason: item.priceOverrideReason,
+      })),
+      couponCode: sale.couponCode || "",
       discount: sale.discount,
-      tax: sale.tax,
-      totalAmount: sale.totalAmount,
+      vatMode: sale.vatMode,
       deposit: sale.deposit ?? 0,
-      paymentMethod: sale.paymentMethod || "cash",
-      paymentStatus: sale.paymentStatus as "pending" | "paid" | "partial",
-      paidAmount: sale.paidAmount,
       notes: sale.notes || "",
     });
     setIsModalOpen(true);
@@ -348,45 +371,6 @@ export default function SalesPage() {
     updateStatusMutation.mutate({ id, status: "cancelled" });
   };
 
-  const openPaymentEdit = (sale: {
-    id: string;
-    totalAmount: number;
-    paidAmount: number;
-    deposit: number;
-    paymentStatus: "pending" | "paid" | "partial";
-  }) => {
-    setPaymentEditSale({
-      id: sale.id,
-      totalAmount: sale.totalAmount,
-      paidAmount: sale.paidAmount ?? 0,
-      deposit: sale.deposit ?? 0,
-      paymentStatus: sale.paymentStatus,
-    });
-  };
-
-  const closePaymentEdit = () => setPaymentEditSale(null);
-
-  const savePaymentEdit = () => {
-    if (!paymentEditSale) return;
-    const paidAmount =
-      paymentEditSale.paymentStatus === "paid"
-        ? paymentEditSale.totalAmount
-        : paymentEditSale.paidAmount;
-    updateMutation.mutate(
-      {
-        id: paymentEditSale.id,
-        paymentStatus: paymentEditSale.paymentStatus,
-        paidAmount,
-        deposit: paymentEditSale.deposit ?? 0,
-      },
-      {
-        onSuccess: () => {
-          closePaymentEdit();
-        },
-      }
-    );
-  };
-
   const openBillPreview = (saleId: string) => {
     setPreviewSaleId(saleId);
     setIsBillPreviewOpen(true);
@@ -434,11 +418,7 @@ export default function SalesPage() {
       ...currentItems,
       {
         productId: "",
-        productName: "",
-        sku: "",
         quantity: 1,
-        unitPrice: 0,
-        totalPrice: 0,
       },
     ]);
   };
@@ -449,44 +429,31 @@ export default function SalesPage() {
       "items",
       currentItems.filter((_, i) => i !== index)
     );
-    calculateTotals();
   };
 
   const updateItem = (index: number, field: keyof SaleItem, value: string | number) => {
     const currentItems = form.getValues("items") || [];
     const updatedItems = [...currentItems];
+    const currentItem = updatedItems[index];
 
     if (field === "productId" && typeof value === "string") {
-      const product = products?.products.find((p) => p.id === value);
-      if (product) {
-        updatedItems[index] = {
-          ...updatedItems[index],
-          productId: value as string,
-          productName: product.name,
-          sku: product.sku,
-          unitPrice: product.price || 0,
-          quantity: 1,
-          totalPrice: product.price || 0,
-        };
-      }
-    } else if (field === "quantity" || field === "unitPrice") {
-      // Ensure numeric arithmetic uses the incoming value, not stale state
-      const currentItem = updatedItems[index];
-      const newQuantity = field === "quantity" ? Number(value) || 0 : currentItem.quantity;
-      const newUnitPrice = field === "unitPrice" ? Number(value) || 0 : currentItem.unitPrice;
-
+      updatedItems[index] = { productId: value, quantity: 1 };
+    } else if (field === "quantity") {
+      updatedItems[index] = { ...currentItem, quantity: Number(value) || 0 };
+    } else if (field === "unitPrice") {
+      // Typing the list price back clears the override
+      const newUnitPrice = Number(value) || 0;
+      const isOverride = newUnitPrice !== getListPrice(currentItem.productId)?.price;
       updatedItems[index] = {
         ...currentItem,
-        quantity: newQuantity,
-        unitPrice: newUnitPrice,
-        totalPrice: newQuantity * newUnitPrice,
+        unitPrice: isOverride ? newUnitPrice : undefined,
+        priceOverrideReason: isOverride ? currentItem.priceOverrideReason : undefined,
       };
     } else {
-      updatedItems[index] = { ...updatedItems[index], [field]: value };
+      updatedItems[index] = { ...currentItem, [field]: value };
     }
 
     form.setValue("items", updatedItems);
-    calculateTotals();
   };
 
   const getStatusBadge = (status: string) => {
@@ -533,6 +500,35 @@ export default function SalesPage() {
       </PageHeader>
 
       <div className="p-6 space-y-6">
+        {summary && (
+          <StatCardGrid columns={4}>
+            <StatCard
+              label={t.saleReturn.salesCount}
+              value={summary.salesCount}
+              icon={Receipt}
+              variant="blue"
+            />
+            <StatCard
+              label={t.saleReturn.grossSales}
+              value={`${formatCurrency(summary.grossAmount)} ฿`}
+              icon={Wallet}
+              variant="indigo"
+            />
+            <StatCard
+              label={t.saleReturn.returnedAmount}
+              value={`${formatCurrency(summary.returnedAmount)} ฿`}
+              icon={TrendingDown}
+              variant="teal"
+            />
+            <StatCard
+              label={t.saleReturn.netAmount}
+              value={`${formatCurrency(summary.netAmount)} ฿`}
+              icon={Wallet}
+              variant="navy"
+            />
+          </StatCardGrid>
+        )}
+
         <SectionCard title={t.sale.title} icon={Receipt}>
           <div className="mb-4 flex gap-2 flex-wrap">
             <Button
@@ -610,6 +606,12 @@ export default function SalesPage() {
                       <td className="p-3 text-sm text-foreground">{sale.customerName}</td>
                       <td className="p-3 text-sm text-foreground">
                         {sale.totalAmount.toLocaleString()} ฿
+                        {sale.returnedAmount > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {t.saleReturn.returned} -{formatCurrency(sale.returnedAmount)} ฿ ·{" "}
+                            {formatCurrency(sale.netAmount)} ฿
+                          </div>
+                        )}
                       </td>
                       <td className="p-3 text-sm text-foreground">
                         {`${formatCurrency(sale.paidAmount)} ฿`}
@@ -621,17 +623,9 @@ export default function SalesPage() {
                             variant="ghost"
                             size="sm"
                             className="px-2"
-                            onClick={() =>
-                              openPaymentEdit({
-                                id: sale.id,
-                                totalAmount: sale.totalAmount,
-                                paidAmount: sale.paidAmount,
-                                deposit: sale.deposit ?? 0,
-                                paymentStatus: sale.paymentStatus as "pending" | "paid" | "partial",
-                              })
-                            }
-                            title="แก้ไขการชำระเงิน"
-                            aria-label="แก้ไขการชำระเงิน"
+                            onClick={() => setPaymentSale(sale)}
+                            title={t.sale.payments}
+                            aria-label={t.sale.payments}
                           >
                             <Pencil className="h-4 w-4" />
                           </Button>
@@ -660,26 +654,7 @@ export default function SalesPage() {
                           </Button>
                           {sale.status === "pending" && (
                             <>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() =>
-                                  openEditModal({
-                                    ...sale,
-                                    paymentMethod:
-                                      (sale.paymentMethod as
-                                        | "cash"
-                                        | "card"
-                                        | "transfer"
-                                        | "other"
-                                        | undefined) || "cash",
-                                    paymentStatus: sale.paymentStatus as
-                                      | "pending"
-                                      | "paid"
-                                      | "partial",
-                                  })
-                                }
-                              >
+                              <Button variant="ghost" size="sm" onClick={() => openEditModal(sale)}>
                                 <Pencil className="h-4 w-4" />
                               </Button>
                               <Button
@@ -693,6 +668,29 @@ export default function SalesPage() {
                               </Button>
                             </>
                           )}
+                          {sale.status === "completed" &&
+                            sale.items.some((item) => item.returnedQuantity < item.quantity) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setReturnSale(sale)}
+                                title={t.saleReturn.title}
+                                aria-label={t.saleReturn.title}
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          {sale.status === "completed" && sale.vatMode !== "none" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setTaxInvoiceSale(sale)}
+                              title={t.taxInvoice.title}
+                              aria-label={t.taxInvoice.title}
+                            >
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          )}
                           {sale.status === "completed" && (
                             <Button
                               variant="ghost"
@@ -781,47 +779,29 @@ export default function SalesPage() {
                       </FormItem>
                     )}
                   />
-                  <FormField
-                    control={form.control}
-                    name="paymentMethod"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>{t.sale.paymentMethod}</FormLabel>
-                        <FormControl>
-                          <select
-                            {...field}
-                            className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
-                          >
-                            <option value="cash">{t.sale.paymentMethodCash}</option>
-                            <option value="card">{t.sale.paymentMethodCard}</option>
-                            <option value="transfer">{t.sale.paymentMethodTransfer}</option>
-                            <option value="other">{t.sale.paymentMethodOther}</option>
-                          </select>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="paymentStatus"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>สถานะการชำระเงิน</FormLabel>
-                        <FormControl>
-                          <select
-                            {...field}
-                            className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground font-semibold"
-                          >
-                            <option value="pending">รอชำระ</option>
-                            <option value="paid">ชำระแล้ว</option>
-                            <option value="partial">ชำระบางส่วน</option>
-                          </select>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  {!editingSale && (
+                    <FormField
+                      control={form.control}
+                      name="paymentMethod"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t.sale.paymentMethod}</FormLabel>
+                          <FormControl>
+                            <select
+                              {...field}
+                              className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                            >
+                              <option value="cash">{t.sale.paymentMethodCash}</option>
+                              <option value="card">{t.sale.paymentMethodCard}</option>
+                              <option value="transfer">{t.sale.paymentMethodTransfer}</option>
+                              <option value="other">{t.sale.paymentMethodOther}</option>
+                            </select>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                   <FormField
                     control={form.control}
                     name="deposit"
@@ -864,6 +844,35 @@ export default function SalesPage() {
                   )}
                 />
 
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="customerTaxId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.sale.customerTaxId}</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" maxLength={13} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="customerBranchCode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.sale.customerBranchCode}</FormLabel>
+                        <FormControl>
+                          <Input inputMode="numeric" maxLength={5} placeholder="00000" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
                 <div>
                   <div className="flex justify-between items-center mb-2">
                     <FormLabel>{t.sale.items}</FormLabel>
@@ -941,10 +950,12 @@ export default function SalesPage() {
                             type="number"
                             min="0"
                             step="0.01"
-                            value={item.unitPrice}
+                            value={getUnitPrice(item)}
                             onChange={(e) =>
                               updateItem(index, "unitPrice", parseFloat(e.target.value) || 0)
                             }
+                            disabled={!canOverridePrice || !item.productId}
+                            title={getListPrice(item.productId)?.priceListName}
                           />
                         </div>
                         <div className="col-span-2">
@@ -953,7 +964,7 @@ export default function SalesPage() {
                           </label>
                           <Input
                             type="number"
-                            value={item.totalPrice.toFixed(2)}
+                            value={lineTotals[index].toFixed(2)}
                             disabled
                             className="bg-muted"
                           />
@@ -969,6 +980,35 @@ export default function SalesPage() {
                             <Trash2 className="h-4 w-4 text-error" />
                           </Button>
                         </div>
+                        {item.productId &&
+                          !getListPrice(item.productId) &&
+                          item.unitPrice === undefined && (
+                            <p className="col-span-12 text-sm text-error">{t.sale.noListPrice}</p>
+                          )}
+                        {item.unitPrice !== undefined && (
+                          <div className="col-span-12">
+                            <label className="text-sm text-muted-foreground mb-1 block">
+                              {t.sale.priceOverrideReason} ({t.sale.listPrice}:{" "}
+                              {formatCurrency(getListPrice(item.productId)?.price)})
+                            </label>
+                            <Input
+                              value={item.priceOverrideReason ?? ""}
+                              maxLength={200}
+                              onChange={(e) =>
+                                updateItem(index, "priceOverrideReason", e.target.value)
+                              }
+                            />
+                          </div>
+                        )}
+                        {lineDiscounts[index] > 0 && (
+                          <p className="col-span-12 text-sm text-success">
+                            {getLinePromotion(index)
+                              ?.appliedPromotions.map(
+                                (applied) => `${applied.name} -${formatCurrency(applied.discount)}`
+                              )
+                              .join(", ")}
+                          </p>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -977,27 +1017,40 @@ export default function SalesPage() {
                 <div className="grid grid-cols-3 gap-4">
                   <FormField
                     control={form.control}
-                    name="subtotal"
+                    name="couponCode"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>{t.sale.subtotal}</FormLabel>
+                        <FormLabel>{t.sale.couponCode}</FormLabel>
                         <FormControl>
                           <Input
-                            type="number"
                             {...field}
-                            value={field.value}
-                            onChange={(e) => {
-                              field.onChange(parseFloat(e.target.value) || 0);
-                              calculateTotals();
-                            }}
-                            disabled
-                            className="bg-muted"
+                            value={field.value ?? ""}
+                            maxLength={50}
+                            onChange={(e) => field.onChange(e.target.value.toUpperCase())}
                           />
                         </FormControl>
                         <FormMessage />
+                        {couponCode && promotionError && (
+                          <p className="text-sm text-error">{promotionError.message}</p>
+                        )}
                       </FormItem>
                     )}
                   />
+                  <div>
+                    <FormLabel>{t.sale.promotionDiscount}</FormLabel>
+                    <Input
+                      value={formatCurrency(promotionDiscount)}
+                      disabled
+                      className="bg-muted mt-2"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <FormLabel>{t.sale.subtotal}</FormLabel>
+                    <Input value={formatCurrency(subtotal)} disabled className="bg-muted mt-2" />
+                  </div>
                   <FormField
                     control={form.control}
                     name="discount"
@@ -1011,10 +1064,7 @@ export default function SalesPage() {
                             step="0.01"
                             {...field}
                             value={field.value}
-                            onChange={(e) => {
-                              field.onChange(parseFloat(e.target.value) || 0);
-                              calculateTotals();
-                            }}
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                           />
                         </FormControl>
                         <FormMessage />
@@ -1023,22 +1073,19 @@ export default function SalesPage() {
                   />
                   <FormField
                     control={form.control}
-                    name="tax"
+                    name="vatMode"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>{t.sale.tax}</FormLabel>
+                        <FormLabel>{t.sale.vatMode}</FormLabel>
                         <FormControl>
-                          <Input
-                            type="number"
-                            min="0"
-                            step="0.01"
+                          <select
                             {...field}
-                            value={field.value}
-                            onChange={(e) => {
-                              field.onChange(parseFloat(e.target.value) || 0);
-                              calculateTotals();
-                            }}
-                          />
+                            className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                          >
+                            <option value="none">{t.sale.vatModeNone}</option>
+                            <option value="inclusive">{t.sale.vatModeInclusive}</option>
+                            <option value="exclusive">{t.sale.vatModeExclusive}</option>
+                          </select>
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -1046,45 +1093,47 @@ export default function SalesPage() {
                   />
                 </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="totalAmount"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>{t.sale.totalAmount}</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            {...field}
-                            value={field.value}
-                            disabled
-                            className="bg-muted font-bold"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="paidAmount"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>{t.sale.paidAmount}</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min="0"
-                            step="0.01"
-                            {...field}
-                            disabled={paymentStatus === "pending"}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <FormLabel>
+                      {t.sale.vatAmount}
+                      {vatMode !== "none" && ` ${vatConfig.rate}%`}
+                    </FormLabel>
+                    <Input
+                      value={formatCurrency(vat.vatAmount)}
+                      disabled
+                      className="bg-muted mt-2"
+                    />
+                  </div>
+                  <div>
+                    <FormLabel>{t.sale.totalAmount}</FormLabel>
+                    <Input
+                      value={formatCurrency(vat.totalAmount)}
+                      disabled
+                      className="bg-muted font-bold mt-2"
+                    />
+                  </div>
+                  {!editingSale && (
+                    <FormField
+                      control={form.control}
+                      name="paidAmount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t.sale.paidNow}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              {...field}
+                              onChange={(e) => field.onChange(Number(e.target.value) || 0)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                 </div>
 
                 <FormField
@@ -1167,6 +1216,11 @@ export default function SalesPage() {
                 {saleDetail.customerAddress && (
                   <p className="text-sm text-foreground">{saleDetail.customerAddress}</p>
                 )}
+                {saleDetail.customerTaxId && (
+                  <p className="text-sm text-foreground">
+                    {t.sale.customerTaxId}: {saleDetail.customerTaxId}
+                  </p>
+                )}
               </div>
 
               <table className="bill-items w-full">
@@ -1184,6 +1238,11 @@ export default function SalesPage() {
                       <td className="p-2">
                         <p className="font-medium">{item.productName}</p>
                         <p className="text-sm text-muted-foreground">SKU: {item.sku}</p>
+                        {item.appliedPromotions.map((applied) => (
+                          <p key={applied.promotionId} className="text-sm text-success">
+                            {applied.name} -{applied.discount.toLocaleString()} ฿
+                          </p>
+                        ))}
                       </td>
                       <td className="p-2 text-center">{item.quantity}</td>
                       <td className="p-2 text-right">{item.unitPrice.toLocaleString()} ฿</td>
@@ -1198,6 +1257,17 @@ export default function SalesPage() {
                   <span className="text-muted-foreground">{t.sale.subtotal}:</span>
                   <span className="font-semibold">{saleDetail.subtotal.toLocaleString()} ฿</span>
                 </div>
+                {getPromotionLines(saleDetail.items).map((line) => (
+                  <div key={line.promotionId} className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {line.name}
+                      {line.couponCode && ` (${line.couponCode})`}:
+                    </span>
+                    <span className="font-semibold text-error">
+                      -{line.discount.toLocaleString()} ฿
+                    </span>
+                  </div>
+                ))}
                 {saleDetail.discount > 0 && (
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">{t.sale.discount}:</span>
@@ -1206,11 +1276,21 @@ export default function SalesPage() {
                     </span>
                   </div>
                 )}
-                {saleDetail.tax > 0 && (
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">{t.sale.tax}:</span>
-                    <span className="font-semibold">{saleDetail.tax.toLocaleString()} ฿</span>
-                  </div>
+                {saleDetail.vatMode !== "none" && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">{t.sale.taxableAmount}:</span>
+                      <span className="font-semibold">
+                        {saleDetail.taxableAmount.toLocaleString()} ฿
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">
+                        {t.sale.vatAmount} {saleDetail.vatRate}%:
+                      </span>
+                      <span className="font-semibold">{saleDetail.tax.toLocaleString()} ฿</span>
+                    </div>
+                  </>
                 )}
                 <div className="flex justify-between border-t border-border pt-2">
                   <span className="text-lg font-bold">{t.sale.totalAmount}:</span>
@@ -1218,6 +1298,22 @@ export default function SalesPage() {
                     {saleDetail.totalAmount.toLocaleString()} ฿
                   </span>
                 </div>
+                {saleDetail.returnedAmount > 0 && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">{t.saleReturn.returnedAmount}:</span>
+                      <span className="font-semibold text-error">
+                        -{saleDetail.returnedAmount.toLocaleString()} ฿
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">{t.saleReturn.netAmount}:</span>
+                      <span className="font-semibold">
+                        {saleDetail.netAmount.toLocaleString()} ฿
+                      </span>
+                    </div>
+                  </>
+                )}
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">{t.sale.paidAmount}:</span>
                   <span className="font-semibold">{saleDetail.paidAmount.toLocaleString()} ฿</span>
@@ -1249,6 +1345,18 @@ export default function SalesPage() {
         </div>
       )}
 
+      {/* Sale Return Modal */}
+      {returnSale && (
+        <SaleReturnModal
+          sale={returnSale}
+          onClose={() => setReturnSale(null)}
+          onSuccess={() => {
+            setReturnSale(null);
+            notify(t.saleReturn.success);
+          }}
+        />
+      )}
+
       {/* Delete Confirmation */}
       {deleteConfirmId && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -1271,81 +1379,25 @@ export default function SalesPage() {
         </div>
       )}
 
-      {/* Payment Status Modal */}
-      {paymentEditSale && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-card border border-border rounded-lg p-5 w-full max-w-md shadow-xl">
-            <div className="flex items-center justify-between mb-3">
-              <h3 className="text-lg font-semibold text-foreground">อัปเดตการชำระเงิน</h3>
-              <Button variant="ghost" size="sm" onClick={closePaymentEdit}>
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-
-            <div className="space-y-3">
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <p className="text-sm text-muted-foreground">ยอดรวม</p>
-                  <p className="font-semibold">
-                    {paymentEditSale.totalAmount.toLocaleString("th-TH", {
-                      minimumFractionDigits: 2,
-                      maximumFractionDigits: 2,
-                    })}
-                  </p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">ชำระแล้ว</p>
-                  <Input
-                    type="number"
-                    min={0}
-                    step="0.01"
-                    value={paymentEditSale.paidAmount}
-                    onChange={(e) =>
-                      setPaymentEditSale((prev) =>
-                        prev ? { ...prev, paidAmount: Number(e.target.value) || 0 } : prev
-                      )
-                    }
-                  />
-                </div>
-              </div>
-
-              <div>
-                <p className="text-sm text-muted-foreground mb-1">สถานะการชำระเงิน</p>
-                <div className="flex gap-2">
-                  {paymentStatusOptions.map((opt) => (
-                    <Button
-                      key={opt.value}
-                      type="button"
-                      variant={paymentEditSale.paymentStatus === opt.value ? "default" : "outline"}
-                      size="sm"
-                      onClick={() =>
-                        setPaymentEditSale((prev) =>
-                          prev
-                            ? {
-                                ...prev,
-                                paymentStatus: opt.value,
-                                paidAmount:
-                                  opt.value === "paid" ? prev.totalAmount : prev.paidAmount,
-                              }
-                            : prev
-                        )
-                      }
-                    >
-                      {opt.label}
-                    </Button>
-                  ))}
-                </div>
-              </div>
-            </div>
+      {/* Payments Modal */}
+      {paymentSale && (
+        <SalePaymentsModal saleId={paymentSale.id} onClose={() => setPaymentSale(null)} />
+      )}
 
-            <div className="flex justify-end gap-2 mt-6">
-              <Button variant="outline" onClick={closePaymentEdit}>
-                ยกเลิก
-              </Button>
-              <Button onClick={savePaymentEdit}>บันทึก</Button>
-            </div>
-          </div>
-        </div>
+      {/* Tax Invoice Modal */}
+      {taxInvoiceSale && (
+        <TaxInvoiceModal
+          sourceType="sale"
+          sourceId={taxInvoiceSale.id}
+          sourceNumber={taxInvoiceSale.billNumber}
+          defaultBuyer={{
+            name: taxInvoiceSale.customerName,
+            address: taxInvoiceSale.customerAddress,
+            taxId: taxInvoiceSale.customerTaxId,
+            branchCode: taxInvoiceSale.customerBranchCode,
+          }}
+          onClose={() => setTaxInvoiceSale(null)}
+        />
       )}
     </>
   );
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Loader2, X } from "lucide-react";
+import type { SalePaymentMethod } from "@/lib/trpc/schemas";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+interface SalePaymentsModalProps {
+  saleId: string;
+  onClose: () => void;
+}
+
+const formatAmount = (amount: number) =>
+  `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} ฿`;
+
+/**
+ * Payments ledger of a sale
+ *
+ * Shows the total, every payment received so far, the outstanding amount,
+ * and a form to record a new payment while money is owed. A sale can be
+ * paid over several payments with different methods.
+ */
+export function SalePaymentsModal({ saleId, onClose }: SalePaymentsModalProps) {
+  const t = useTranslation();
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<SalePaymentMethod>("cash");
+  const [reference, setReference] = useState("");
+
+  const { data: sale, isLoading } = trpc.sale.getById.useQuery({ id: saleId });
+
+  const utils = trpc.useUtils();
+  const recordPaymentMutation = trpc.sale.recordPayment.useMutation({
+    onSuccess: () => {
+      utils.sale.getById.invalidate({ id: saleId });
+      utils.sale.list.invalidate();
+      utils.sale.receivables.invalidate();
+      setAmount("");
+      setReference("");
+    },
+  });
+
+  const paymentMethodLabels: Record<SalePaymentMethod, string> = {
+    cash: t.sale.paymentMethodCash,
+    card: t.sale.paymentMethodCard,
+    transfer: t.sale.paymentMethodTransfer,
+    other: t.sale.paymentMethodOther,
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">{t.sale.payments}</h2>
+            {sale && (
+              <p className="text-sm text-muted-foreground">
+                {sale.billNumber} - {sale.customerName}
+              </p>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {recordPaymentMutation.error && (
+          <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {recordPaymentMutation.error.message}
+          </div>
+        )}
+
+        {isLoading || !sale ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t.sale.totalAmount}</span>
+                <span className="text-foreground">{formatAmount(sale.totalAmount)}</span>
+              </div>
+              {sale.payments.length === 0 && (
+                <p className="text-muted-foreground">{t.sale.noPayments}</p>
+              )}
+              {sale.payments.map((payment, idx) => (
+                <div key={idx} className="flex justify-between">
+                  <span className="text-muted-foreground">
+                    {new Date(payment.paidAt).toLocaleDateString("th-TH")} (
+                    {paymentMethodLabels[payment.method]})
+                    {payment.reference && ` ${t.sale.paymentReference} ${payment.reference}`}
+                  </span>
+                  <span className="text-foreground">{formatAmount(payment.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold">
+                <span className={sale.outstandingAmount > 0 ? "text-error" : "text-foreground"}>
+                  {t.sale.outstandingAmount}
+                </span>
+                <span className={sale.outstandingAmount > 0 ? "text-error" : "text-foreground"}>
+                  {formatAmount(sale.outstandingAmount)}
+                </span>
+              </div>
+            </div>
+
+            {sale.outstandingAmount > 0 && sale.status !== "cancelled" && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+                <div>
+                  <label className="text-sm text-muted-foreground mb-1 block">
+                    {t.sale.paymentAmount}
+                  </label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={amount}
+                    placeholder={sale.outstandingAmount.toString()}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm text-muted-foreground mb-1 block">
+                    {t.sale.paymentMethod}
+                  </label>
+                  <select
+                    value={method}
+                    onChange={(e) => setMethod(e.target.value as SalePaymentMethod)}
+                    className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+                  >
+                    {(Object.keys(paymentMethodLabels) as SalePaymentMethod[]).map((value) => (
+                      <option key={value} value={value}>
+                        {paymentMethodLabels[value]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm text-muted-foreground mb-1 block">
+                    {t.sale.paymentReference}
+                  </label>
+                  <Input value={reference} onChange={(e) => setReference(e.target.value)} />
+                </div>
+                <Button
+                  type="button"
+                  disabled={recordPaymentMutation.isPending}
+                  onClick={() =>
+                    recordPaymentMutation.mutate({
+                      id: sale.id,
+                      amount: Number(amount) || sale.outstandingAmount,
+                      method,
+                      reference: reference.trim() || undefined,
+                    })
+                  }
+                >
+                  {recordPaymentMutation.isPending && (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  )}
+                  {t.sale.recordPayment}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
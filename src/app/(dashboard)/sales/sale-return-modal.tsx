@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, X } from "lucide-react";
+import type { SaleDTO } from "@/lib/trpc/services/sale.service";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+type RefundMethod = "cash" | "card" | "transfer" | "other";
+
+interface SaleReturnModalProps {
+  sale: SaleDTO;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const formatAmount = (amount: number) =>
+  `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} ฿`;
+
+/**
+ * Return goods from a completed sale
+ *
+ * Lists each sale item with what is left to return. The credit shown is an
+ * estimate (returned value with the sale's discount and tax apportioned);
+ * the credit note carries the final amount.
+ */
+export function SaleReturnModal({ sale, onClose, onSuccess }: SaleReturnModalProps) {
+  const t = useTranslation();
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>("cash");
+  const [notes, setNotes] = useState("");
+
+  const utils = trpc.useUtils();
+  const createMutation = trpc.saleReturn.create.useMutation({
+    onSuccess: () => {
+      utils.sale.list.invalidate();
+      utils.sale.getById.invalidate({ id: sale.id });
+      utils.sale.summary.invalidate();
+      utils.saleReturn.bySale.invalidate({ saleId: sale.id });
+      utils.buyStock.list.invalidate();
+      onSuccess();
+    },
+  });
+
+  const items = sale.items
+    .map((item) => ({
+      ...item,
+      returnable: item.quantity - item.returnedQuantity,
+      returnQuantity: Math.floor(Number(quantities[item.productId]) || 0),
+    }))
+    .filter((item) => item.returnable > 0);
+  const selectedItems = items.filter((item) => item.returnQuantity > 0);
+  const returnedSubtotal = selectedItems.reduce(
+    (sum, item) =>
+      sum + ((item.totalPrice - item.promotionDiscount) * item.returnQuantity) / item.quantity,
+    0
+  );
+  const saleSubtotal = sale.subtotal - sale.promotionDiscount;
+  const estimatedCredit =
+    saleSubtotal > 0
+      ? Math.min(returnedSubtotal * (sale.totalAmount / saleSubtotal), sale.netAmount)
+      : 0;
+
+  const refundMethodLabels: Record<RefundMethod, string> = {
+    cash: t.sale.paymentMethodCash,
+    card: t.sale.paymentMethodCard,
+    transfer: t.sale.paymentMethodTransfer,
+    other: t.sale.paymentMethodOther,
+  };
+
+  const submit = () => {
+    createMutation.mutate({
+      saleId: sale.id,
+      items: selectedItems.map((item) => ({
+        productId: item.productId,
+        quantity: item.returnQuantity,
+      })),
+      reason,
+      settlement: "refund",
+      refundMethod,
+      notes: notes || undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">{t.saleReturn.create}</h2>
+            <p className="text-sm text-muted-foreground">
+              {sale.billNumber} - {sale.customerName}
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {createMutation.error && (
+          <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {createMutation.error.message}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="overflow-x-auto border border-border rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/40 text-muted-foreground">
+                <tr>
+                  <th className="p-2 text-left">{t.sale.items}</th>
+                  <th className="p-2 text-right">{t.sale.unitPrice}</th>
+                  <th className="p-2 text-right">{t.saleReturn.returnableQuantity}</th>
+                  <th className="p-2 text-right">{t.saleReturn.returnQuantity}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={item.productId} className="border-t border-border">
+                    <td className="p-2">
+                      <p className="font-medium text-foreground">{item.productName}</p>
+                      <p className="text-xs text-muted-foreground">SKU: {item.sku}</p>
+                    </td>
+                    <td className="p-2 text-right">{formatAmount(item.unitPrice)}</td>
+                    <td className="p-2 text-right">{item.returnable}</td>
+                    <td className="p-2 text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={item.returnable}
+                        step={1}
+                        value={quantities[item.productId] ?? ""}
+                        onChange={(e) =>
+                          setQuantities((prev) => ({ ...prev, [item.productId]: e.target.value }))
+                        }
+                        className="w-24 ml-auto text-right"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+              {t.saleReturn.reason}
+            </label>
+            <Input value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.saleReturn.refundMethod}
+              </label>
+              <select
+                value={refundMethod}
+                onChange={(e) => setRefundMethod(e.target.value as RefundMethod)}
+                className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+              >
+                {(Object.keys(refundMethodLabels) as RefundMethod[]).map((method) => (
+                  <option key={method} value={method}>
+                    {refundMethodLabels[method]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+              {t.common.notes}
+            </label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          <div className="flex justify-between text-sm font-semibold">
+            <span className="text-foreground">{t.saleReturn.estimatedCredit}</span>
+            <span className="text-foreground">{formatAmount(estimatedCredit)}</span>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <Button variant="outline" onClick={onClose}>
+            {t.common.cancel}
+          </Button>
+          <Button
+            disabled={createMutation.isPending || selectedItems.length === 0 || !reason.trim()}
+            onClick={submit}
+            title={selectedItems.length === 0 ? t.saleReturn.noItemsSelected : undefined}
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t.saleReturn.create}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+"use client";
+
+import { use } from "react";
+import { useRouter } from "next/navigation";
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components";
+import { Printer, X, Loader2 } from "lucide-react";
+import type { TaxInvoiceDTO } from "@/lib/trpc/services/tax-invoice.service";
+
+interface TaxInvoicePageProps {
+  params: Promise<{ id: string }>;
+}
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatThaiDate = (date: Date) =>
+  new Intl.DateTimeFormat("th-TH", { year: "numeric", month: "long", day: "numeric" }).format(date);
+
+/**
+ * Branch as the Revenue Department wants it printed
+ */
+const formatBranch = (branchCode?: string) =>
+  !branchCode || branchCode === "00000" ? "สำนักงานใหญ่" : `สาขาที่ ${branchCode}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char] ?? char
+  );
+
+/**
+ * Lines as printed
+ *
+ * An abbreviated tax invoice shows prices including VAT, so lines of a sale
+ * priced without VAT get their VAT share added.
+ */
+const getPrintedLines = (taxInvoice: TaxInvoiceDTO) =>
+  taxInvoice.lines.map((line) => {
+    const amount =
+      taxInvoice.kind === "abbreviated" && taxInvoice.vatMode === "exclusive"
+        ? line.amount + line.vatAmount
+        : line.amount;
+    return {
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.quantity > 0 ? amount / line.quantity : amount,
+      amount,
+    };
+  });
+
+/**
+ * Tax invoice print page
+ *
+ * Lays out a full tax invoice (ใบกำกับภาษี) or an abbreviated one
+ * (ใบกำกับภาษีอย่างย่อ) with the details the Revenue Department requires:
+ * seller tax ID and branch, the tax invoice number and date, the buyer on a
+ * full tax invoice, and VAT shown apart from the value (or the VAT-included
+ * statement on an abbreviated one).
+ */
+export default function TaxInvoicePage({ params }: TaxInvoicePageProps) {
+  const { id } = use(params);
+  const router = useRouter();
+
+  const { data: taxInvoice, isLoading } = trpc.taxInvoice.getById.useQuery({ id });
+
+  const handlePrint = () => {
+    if (typeof window === "undefined" || !taxInvoice) return;
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    const isFull = taxInvoice.kind === "full";
+    const title = isFull ? "ใบกำกับภาษี" : "ใบกำกับภาษีอย่างย่อ";
+    const { seller, buyer } = taxInvoice;
+    const lines = getPrintedLines(taxInvoice);
+
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>${title} - ${taxInvoice.taxInvoiceNumber}</title>
+          <style>
+            @page { size: A4; margin: 1cm; }
+            * { box-sizing: border-box; }
+            body { font-family: 'Sarabun', 'Kanit', 'Prompt', sans-serif; margin: 0; padding: 20px; color: #1a1a1a; }
+            .invoice { max-width: ${isFull ? "210mm" : "80mm"}; margin: 0 auto; }
+            .title { text-align: center; margin-bottom: 12px; }
+            .title h1 { margin: 0; font-size: ${isFull ? "22px" : "16px"}; font-weight: 800; }
+            .title p { margin: 2px 0 0 0; font-size: 12px; color: #475569; }
+            .parties { display: ${isFull ? "grid" : "block"}; grid-template-columns: 1fr 1fr; gap: 12px; margin-bottom: 12px; font-size: 13px; }
+            .party { border: 1px solid #000; padding: 8px; }
+            .party-label { font-weight: 700; margin-bottom: 4px; }
+            .meta { display: flex; justify-content: space-between; font-size: 13px; margin-bottom: 12px; }
+            .items { width: 100%; border-collapse: collapse; font-size: 12px; }
+            .items th, .items td { border: 1px solid #000; padding: 6px; }
+            .items th { background: #f1f5f9; text-align: center; }
+            .summary { width: 100%; border-collapse: collapse; margin-top: 8px; font-size: 13px; }
+            .summary td { padding: 6px; border: 1px solid #000; }
+            .summary .value { text-align: right; font-weight: 700; }
+            .summary .total { background: #e2e8f0; }
+            .note { margin-top: 8px; font-size: 12px; }
+            .signatures { margin-top: 48px; display: grid; grid-template-columns: 1fr 1fr; gap: 40px; text-align: center; font-size: 13px; }
+            .signature-line { border-top: 1px solid #000; width: 200px; margin: 48px auto 6px auto; }
+            @media print { body { padding: 0; } }
+          </style>
+        </head>
+        <body>
+          <div class="invoice">
+            <div class="title">
+              <h1>${title}</h1>
+              <p>${isFull ? "Tax Invoice" : "Abbreviated Tax Invoice"}</p>
+            </div>
+
+            <div class="parties">
+              <div class="party">
+                <div class="party-label">ผู้ขาย / ผู้ให้บริการ</div>
+                <div>${escapeHtml(seller.name)}</div>
+                ${seller.address ? `<div>${escapeHtml(seller.address)}</div>` : ""}
+                <div>เลขประจำตัวผู้เสียภาษี ${seller.taxId ?? "-"} (${formatBranch(seller.branchCode)})</div>
+              </div>
+              ${
+                isFull
+                  ? `
+              <div class="party">
+                <div class="party-label">ผู้ซื้อ / ผู้รับบริการ</div>
+                <div>${escapeHtml(buyer.name)}</div>
+                ${buyer.address ? `<div>${escapeHtml(buyer.address)}</div>` : ""}
+                ${buyer.taxId ? `<div>เลขประจำตัวผู้เสียภาษี ${buyer.taxId} (${formatBranch(buyer.branchCode)})</div>` : ""}
+              </div>
+              `
+                  : ""
+              }
+            </div>
+
+            <div class="meta">
+              <div>เลขที่ <strong>${taxInvoice.taxInvoiceNumber}</strong></div>
+              <div>วันที่ <strong>${formatThaiDate(new Date(taxInvoice.issuedAt))}</strong></div>
+            </div>
+            <div class="meta">
+              <div>อ้างอิง ${taxInvoice.sourceNumber}</div>
+            </div>
+
+            <table class="items">
+              <thead>
+                <tr>
+                  <th style="width:8%;">ลำดับ</th>
+                  <th>รายการ</th>
+                  <th style="width:10%;">จำนวน</th>
+                  <th style="width:18%;">ราคาต่อหน่วย</th>
+                  <th style="width:18%;">จำนวนเงิน</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${lines
+                  .map(
+                    (line, idx) => `
+                  <tr>
+                    <td style="text-align:center;">${idx + 1}</td>
+                    <td>${escapeHtml(line.description)}</td>
+                    <td style="text-align:center;">${line.quantity}</td>
+                    <td style="text-align:right;">${formatMoney(line.unitPrice)}</td>
+                    <td style="text-align:right;">${formatMoney(line.amount)}</td>
+                  </tr>
+                `
+                  )
+                  .join("")}
+              </tbody>
+            </table>
+
+            <table class="summary">
+              <tbody>
+                <tr>
+                  <td>รวมเป็นเงิน</td>
+                  <td class="value">${formatMoney(lines.reduce((sum, line) => sum + line.amount, 0))}</td>
+                </tr>
+                ${
+                  taxInvoice.discount > 0
+                    ? `
+                <tr>
+                  <td>ส่วนลด</td>
+                  <td class="value">-${formatMoney(taxInvoice.discount)}</td>
+                </tr>
+                `
+                    : ""
+                }
+                ${
+                  isFull
+                    ? `
+                <tr>
+                  <td>มูลค่าสินค้าหรือบริการ</td>
+                  <td class="value">${formatMoney(taxInvoice.taxableAmount)}</td>
+                </tr>
+                <tr>
+                  <td>ภาษีมูลค่าเพิ่ม ${taxInvoice.vatRate}%</td>
+                  <td class="value">${formatMoney(taxInvoice.vatAmount)}</td>
+                </tr>
+                `
+                    : ""
+                }
+                <tr class="total">
+                  <td>จำนวนเงินรวมทั้งสิ้น</td>
+                  <td class="value">${formatMoney(taxInvoice.totalAmount)}</td>
+                </tr>
+              </tbody>
+            </table>
+            ${isFull ? "" : `<div class="note">ราคารวมภาษีมูลค่าเพิ่มแล้ว (VAT Included)</div>`}
+
+            ${
+              isFull
+                ? `
+            <div class="signatures">
+              <div>
+                <div class="signature-line"></div>
+                <div>ผู้รับเงิน</div>
+              </div>
+              <div>
+                <div class="signature-line"></div>
+                <div>ผู้มีอำนาจลงนาม</div>
+              </div>
+            </div>
+            `
+                : ""
+            }
+          </div>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+    printWindow.focus();
+    setTimeout(() => printWindow.print(), 250);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!taxInvoice) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <p className="text-lg text-muted-foreground">ไม่พบใบกำกับภาษี</p>
+          <Button onClick={() => router.back()} className="mt-4">
+            กลับ
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isFull = taxInvoice.kind === "full";
+  const { seller, buyer } = taxInvoice;
+  const lines = getPrintedLines(taxInvoice);
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className={isFull ? "max-w-4xl mx-auto" : "max-w-md mx-auto"}>
+        <div className="no-print mb-4 flex justify-between items-center">
+          <Button variant="outline" onClick={() => router.back()}>
+            <X className="h-4 w-4 mr-2" />
+            กลับ
+          </Button>
+          <Button onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-2" />
+            พิมพ์ใบกำกับภาษี
+          </Button>
+        </div>
+
+        <div className="bg-white p-8 shadow-xl rounded-lg border border-border/50 text-sm">
+          <div className="text-center mb-4">
+            <h1 className="text-2xl font-extrabold text-foreground">
+              {isFull ? "ใบกำกับภาษี" : "ใบกำกับภาษีอย่างย่อ"}
+            </h1>
+            <p className="text-muted-foreground">
+              {isFull ? "Tax Invoice" : "Abbreviated Tax Invoice"}
+            </p>
+          </div>
+
+          <div className={isFull ? "grid grid-cols-2 gap-4 mb-4" : "mb-4"}>
+            <div className="border border-border rounded-lg p-3">
+              <div className="font-bold text-primary mb-1">ผู้ขาย / ผู้ให้บริการ</div>
+              <div className="font-semibold text-foreground">{seller.name}</div>
+              {seller.address && <div className="text-muted-foreground">{seller.address}</div>}
+              <div className="text-muted-foreground">
+                เลขประจำตัวผู้เสียภาษี {seller.taxId ?? "-"} ({formatBranch(seller.branchCode)})
+              </div>
+            </div>
+            {isFull && (
+              <div className="border border-border rounded-lg p-3">
+                <div className="font-bold text-primary mb-1">ผู้ซื้อ / ผู้รับบริการ</div>
+                <div className="font-semibold text-foreground">{buyer.name}</div>
+                {buyer.address && <div className="text-muted-foreground">{buyer.address}</div>}
+                {buyer.taxId && (
+                  <div className="text-muted-foreground">
+                    เลขประจำตัวผู้เสียภาษี {buyer.taxId} ({formatBranch(buyer.branchCode)})
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-between mb-1">
+            <div>
+              เลขที่ <strong>{taxInvoice.taxInvoiceNumber}</strong>
+            </div>
+            <div>
+              วันที่ <strong>{formatThaiDate(new Date(taxInvoice.issuedAt))}</strong>
+            </div>
+          </div>
+          <div className="text-muted-foreground mb-4">อ้างอิง {taxInvoice.sourceNumber}</div>
+
+          <div className="overflow-hidden border border-border rounded-lg">
+            <table className="w-full">
+              <thead className="bg-muted/40 text-muted-foreground">
+                <tr>
+                  <th className="p-2 text-center w-[8%]">ลำดับ</th>
+                  <th className="p-2 text-left">รายการ</th>
+                  <th className="p-2 text-center w-[10%]">จำนวน</th>
+                  <th className="p-2 text-right w-[18%]">ราคาต่อหน่วย</th>
+                  <th className="p-2 text-right w-[18%]">จำนวนเงิน</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line, idx) => (
+                  <tr key={idx} className="border-t border-border">
+                    <td className="p-2 text-center">{idx + 1}</td>
+                    <td className="p-2 text-foreground">{line.description}</td>
+                    <td className="p-2 text-center">{line.quantity}</td>
+                    <td className="p-2 text-right">{formatMoney(line.unitPrice)}</td>
+                    <td className="p-2 text-right">{formatMoney(line.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 ml-auto max-w-sm border border-border rounded-lg overflow-hidden">
+            <table className="w-full">
+              <tbody>
+                <tr>
+                  <td className="p-2 text-muted-foreground">รวมเป็นเงิน</td>
+                  <td className="p-2 text-right font-semibold">
+                    {formatMoney(lines.reduce((sum, line) => sum + line.amount, 0))}
+                  </td>
+                </tr>
+                {taxInvoice.discount > 0 && (
+                  <tr>
+                    <td className="p-2 text-muted-foreground">ส่วนลด</td>
+                    <td className="p-2 text-right font-semibold text-error">
+                      -{formatMoney(taxInvoice.discount)}
+                    </td>
+                  </tr>
+                )}
+                {isFull && (
+                  <>
+                    <tr>
+                      <td className="p-2 text-muted-foreground">มูลค่าสินค้าหรือบริการ</td>
+                      <td className="p-2 text-right font-semibold">
+                        {formatMoney(taxInvoice.taxableAmount)}
+                      </td>
+                    </tr>
+                    <tr>
+                      <td className="p-2 text-muted-foreground">
+                        ภาษีมูลค่าเพิ่ม {taxInvoice.vatRate}%
+                      </td>
+                      <td className="p-2 text-right font-semibold">
+                        {formatMoney(taxInvoice.vatAmount)}
+                      </td>
+                    </tr>
+                  </>
+                )}
+                <tr className="bg-muted/40">
+                  <td className="p-2 font-bold text-foreground">จำนวนเงินรวมทั้งสิ้น</td>
+                  <td className="p-2 text-right font-bold text-primary">
+                    {formatMoney(taxInvoice.totalAmount)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          {!isFull && (
+            <div className="mt-2 text-muted-foreground">
+              ราคารวมภาษีมูลค่าเพิ่มแล้ว (VAT Included)
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Button, Input } from "@/components";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Printer, X } from "lucide-react";
+import type { TaxInvoiceKind, TaxInvoiceSourceType } from "@/lib/trpc/schemas";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+
+interface TaxInvoiceModalProps {
+  sourceType: TaxInvoiceSourceType;
+  sourceId: string;
+  sourceNumber: string;
+  defaultBuyer: {
+    name: string;
+    address?: string;
+    taxId?: string;
+    branchCode?: string;
+  };
+  onClose: () => void;
+}
+
+/**
+ * Issue or reprint the tax invoice of a sale or rental invoice
+ *
+ * Shows the tax invoice already issued for the source, or a form to issue a
+ * full or abbreviated one. Buyer details start from the sale or rental
+ * customer and only matter for a full tax invoice.
+ */
+export function TaxInvoiceModal({
+  sourceType,
+  sourceId,
+  sourceNumber,
+  defaultBuyer,
+  onClose,
+}: TaxInvoiceModalProps) {
+  const t = useTranslation();
+  const [kind, setKind] = useState<TaxInvoiceKind>(defaultBuyer.taxId ? "full" : "abbreviated");
+  const [buyer, setBuyer] = useState({
+    name: defaultBuyer.name,
+    address: defaultBuyer.address ?? "",
+    taxId: defaultBuyer.taxId ?? "",
+    branchCode: defaultBuyer.branchCode ?? "",
+  });
+
+  const { data: taxInvoice, isLoading } = trpc.taxInvoice.bySource.useQuery({
+    sourceType,
+    sourceId,
+  });
+
+  const openPrintPage = (id: string) => window.open(`/tax-invoices/${id}`, "_blank");
+
+  const utils = trpc.useUtils();
+  const issueMutation = trpc.taxInvoice.issue.useMutation({
+    onSuccess: (issued) => {
+      utils.taxInvoice.bySource.invalidate({ sourceType, sourceId });
+      openPrintPage(issued.id);
+    },
+  });
+
+  const isBuyerMissing = kind === "full" && (!buyer.name.trim() || !buyer.address.trim());
+
+  const submit = () => {
+    issueMutation.mutate({
+      sourceType,
+      sourceId,
+      kind,
+      buyer:
+        kind === "full"
+          ? {
+              name: buyer.name,
+              address: buyer.address,
+              taxId: buyer.taxId,
+              branchCode: buyer.branchCode,
+            }
+          : undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">{t.taxInvoice.title}</h2>
+            <p className="text-sm text-muted-foreground">{sourceNumber}</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {issueMutation.error && (
+          <div className="mb-4 p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+            {issueMutation.error.message}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : taxInvoice ? (
+          <div className="space-y-4">
+            <div className="p-3 border border-border rounded-lg text-sm">
+              <p className="text-muted-foreground">{t.taxInvoice.issued}</p>
+              <p className="font-semibold text-foreground">{taxInvoice.taxInvoiceNumber}</p>
+              <p className="text-muted-foreground">
+                {taxInvoice.kind === "full" ? t.taxInvoice.kindFull : t.taxInvoice.kindAbbreviated}{" "}
+                · {new Date(taxInvoice.issuedAt).toLocaleDateString("th-TH")}
+              </p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                {t.common.close}
+              </Button>
+              <Button onClick={() => openPrintPage(taxInvoice.id)}>
+                <Printer className="h-4 w-4 mr-2" />
+                {t.taxInvoice.print}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                {t.taxInvoice.kind}
+              </label>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as TaxInvoiceKind)}
+                className="w-full rounded-md border border-border bg-input px-3 py-2 text-foreground"
+              >
+                <option value="full">{t.taxInvoice.kindFull}</option>
+                <option value="abbreviated">{t.taxInvoice.kindAbbreviated}</option>
+              </select>
+            </div>
+
+            {kind === "full" && (
+              <>
+                <div>
+                  <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                    {t.taxInvoice.buyerName}
+                  </label>
+                  <Input
+                    value={buyer.name}
+                    onChange={(e) => setBuyer((prev) => ({ ...prev, name: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                    {t.taxInvoice.buyerAddress}
+                  </label>
+                  <Textarea
+                    value={buyer.address}
+                    onChange={(e) => setBuyer((prev) => ({ ...prev, address: e.target.value }))}
+                    rows={2}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                      {t.taxInvoice.buyerTaxId}
+                    </label>
+                    <Input
+                      value={buyer.taxId}
+                      inputMode="numeric"
+                      maxLength={13}
+                      onChange={(e) => setBuyer((prev) => ({ ...prev, taxId: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-semibold text-muted-foreground mb-1 block">
+                      {t.taxInvoice.buyerBranchCode}
+                    </label>
+                    <Input
+                      value={buyer.branchCode}
+                      inputMode="numeric"
+                      maxLength={5}
+                      placeholder="00000"
+                      onChange={(e) =>
+                        setBuyer((prev) => ({ ...prev, branchCode: e.target.value }))
+                      }
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                {t.common.cancel}
+              </Button>
+              <Button
+                disabled={issueMutation.isPending || isBuyerMissing}
+                onClick={submit}
+                title={isBuyerMissing ? t.taxInvoice.fullRequiresBuyer : undefined}
+              >
+                {issueMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t.taxInvoice.issue}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
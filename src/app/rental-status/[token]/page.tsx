@@ -0,0 +1,193 @@
+"use client";
+
+import { use } from "react";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components";
+import { Loader2 } from "lucide-react";
+import { ownerConfig } from "@/lib/config/owner";
+import { useTranslation } from "@/lib/hooks/useTranslation";
+import type { RentalPaymentMethod } from "@/lib/trpc/schemas";
+
+interface RentalStatusPageProps {
+  params: Promise<{ token: string }>;
+}
+
+const formatAmount = (amount: number) =>
+  `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} บาท`;
+
+const formatDate = (date: Date) => new Date(date).toLocaleDateString("th-TH");
+
+/**
+ * Customer-facing rental status page
+ *
+ * Public page opened from a signed status link. Shows what the customer has
+ * out, the rental period, and what they owe, without logging in.
+ */
+export default function RentalStatusPage({ params }: RentalStatusPageProps) {
+  const { token } = use(params);
+  const t = useTranslation();
+
+  const {
+    data: rental,
+    isLoading,
+    error,
+  } = trpc.rentalStatus.byToken.useQuery({ token }, { retry: false });
+
+  const statusLabels = {
+    pending: { label: t.rental.statusPending, color: "warning" as const },
+    active: { label: t.rental.statusActive, color: "success" as const },
+    completed: { label: t.rental.statusCompleted, color: "blue" as const },
+    cancelled: { label: t.rental.statusCancelled, color: "error" as const },
+  };
+  const paymentMethodLabels: Record<RentalPaymentMethod, string> = {
+    cash: t.rental.paymentMethodCash,
+    transfer: t.rental.paymentMethodTransfer,
+    card: t.rental.paymentMethodCard,
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-foreground">{ownerConfig.name}</h1>
+          <p className="text-sm text-muted-foreground">{t.rentalStatus.title}</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !rental ? (
+          <div className="p-4 bg-error/10 border border-error/20 rounded-lg text-error text-center">
+            {error?.data?.code === "TOO_MANY_REQUESTS"
+              ? t.rentalStatus.tooManyRequests
+              : t.rentalStatus.invalidLink}
+          </div>
+        ) : (
+          <>
+            <div className="p-4 bg-card border border-border rounded-lg space-y-3">
+              <div className="flex justify-between items-start gap-2">
+                <div>
+                  <p className="text-sm text-muted-foreground">{t.rental.rentalNumber}</p>
+                  <p className="text-lg font-semibold text-foreground">{rental.rentalNumber}</p>
+                  <p className="text-sm text-foreground">{rental.customerName}</p>
+                </div>
+                <Badge variant="status" color={statusLabels[rental.status].color}>
+                  {statusLabels[rental.status].label}
+                </Badge>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">{t.rental.startDate}</p>
+                  <p className="text-foreground">{formatDate(rental.startDate)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">{t.rental.endDate}</p>
+                  <p className="text-foreground">{formatDate(rental.endDate)}</p>
+                </div>
+              </div>
+
+              {rental.daysOverdue > 0 ? (
+                <div className="p-3 bg-error/10 border border-error/20 rounded-md text-error text-sm">
+                  {t.rentalStatus.daysOverdue} {rental.daysOverdue} {t.rental.days}
+                </div>
+              ) : rental.status === "active" && rental.daysRemaining === 0 ? (
+                <div className="p-3 bg-warning/10 border border-warning/30 rounded-md text-foreground text-sm">
+                  {t.rentalStatus.dueToday}
+                </div>
+              ) : (
+                rental.status !== "completed" && (
+                  <div className="p-3 bg-success/10 border border-success/20 rounded-md text-success text-sm">
+                    {t.rentalStatus.daysRemaining} {rental.daysRemaining} {t.rental.days}
+                  </div>
+                )
+              )}
+            </div>
+
+            <div className="p-4 bg-card border border-border rounded-lg">
+              <p className="text-sm font-semibold text-muted-foreground mb-2">{t.rental.assets}</p>
+              <div className="space-y-2">
+                {rental.assets.map((item, index) => (
+                  <div
+                    key={`${item.assetCode}-${index}`}
+                    className="flex justify-between gap-2 text-sm border-b border-border pb-2 last:border-0 last:pb-0"
+                  >
+                    <span className="text-foreground">
+                      {item.assetCode}
+                      {item.productName && (
+                        <span className="text-muted-foreground"> - {item.productName}</span>
+                      )}{" "}
+                      x {item.quantity}
+                    </span>
+                    <span className={item.returnedAt ? "text-success" : "text-muted-foreground"}>
+                      {item.returnedAt
+                        ? `${t.rentalStatus.returned} ${formatDate(item.returnedAt)}`
+                        : t.rental.stillOut}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="p-4 bg-card border border-border rounded-lg space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t.rental.amountDue}</span>
+                <span className="text-foreground">{formatAmount(rental.amountDue)}</span>
+              </div>
+              {rental.penaltyAmount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{t.rental.penaltyAmount}</span>
+                  <span className="text-error">{formatAmount(rental.penaltyAmount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t.rental.totalPaid}</span>
+                <span className="text-foreground">{formatAmount(rental.paidAmount)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span className="text-foreground">{t.rental.outstandingBalance}</span>
+                <span className={rental.outstandingBalance > 0 ? "text-error" : "text-success"}>
+                  {formatAmount(rental.outstandingBalance)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t.rental.deposit}</span>
+                <span className="text-foreground">{formatAmount(rental.deposit)}</span>
+              </div>
+
+              {rental.payments.length > 0 && (
+                <div className="pt-2 border-t border-border">
+                  <p className="font-semibold text-muted-foreground mb-1">{t.rental.payments}</p>
+                  {rental.payments.map((payment, index) => (
+                    <div key={index} className="flex justify-between">
+                      <span className="text-muted-foreground">
+                        {formatDate(payment.paidAt)} ({paymentMethodLabels[payment.method]})
+                      </span>
+                      <span className="text-foreground">{formatAmount(payment.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="text-center text-sm text-muted-foreground space-y-1">
+              <p>
+                {t.rentalStatus.contactShop}:{" "}
+                <a href={`tel:${ownerConfig.phone}`} className="underline">
+                  {ownerConfig.phone}
+                </a>
+              </p>
+              <p>
+                {t.rentalStatus.linkExpires} {formatDate(rental.linkExpiresAt)}
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ interface StatCardProps {
   variant?: StatCardVariant;
   className?: string;
   valueClassName?: string;
+  children?: React.ReactNode;
 }
 
 const variantClasses: Record<StatCardVariant, string> = {
@@ -27,6 +28,7 @@ export function StatCard({
   variant = "blue",
   className,
   valueClassName,
+  children,
 }: StatCardProps) {
   const formattedValue =
     typeof value === "number" ? value.toLocaleString() : value;
@@ -50,6 +52,7 @@ export function StatCard({
           {formattedValue}
         </p>
       </div>
+      {children && <div className="mt-4 text-sm text-white/90">{children}</div>}
       {Icon && (
         <div className="absolute right-4 top-4 opacity-30">
           <Icon className="h-12 w-12" />
@@ -0,0 +1,46 @@
+/**
+ * Notification Configuration
+ *
+ * Settings for customer notifications (rental return reminders and overdue
+ * notices), read from environment variables.
+ */
+
+import type { NotificationChannel } from "@/lib/notifications/types";
+
+const CHANNELS: NotificationChannel[] = ["sms", "email", "line"];
+
+/**
+ * Parse a comma-separated list of channels, ignoring unknown names
+ */
+function parseChannels(value: string | undefined, fallback: NotificationChannel[]) {
+  if (!value) return fallback;
+  const channels = value
+    .split(",")
+    .map((channel) => channel.trim())
+    .filter((channel): channel is NotificationChannel =>
+      CHANNELS.includes(channel as NotificationChannel)
+    );
+  return channels.length > 0 ? channels : fallback;
+}
+
+/**
+ * Parse a comma-separated list of whole day offsets, ignoring invalid entries
+ */
+function parseOffsets(value: string | undefined, fallback: number[]) {
+  if (!value) return fallback;
+  const offsets = value
+    .split(",")
+    .map((offset) => Number(offset.trim()))
+    .filter((offset) => Number.isInteger(offset));
+  return offsets.length > 0 ? [...new Set(offsets)].sort((a, b) => a - b) : fallback;
+}
+
+export const notificationConfig = {
+  // Development stand-in used for channels without a provider: "console" or "file"
+  driver: process.env.NOTIFIER_DRIVER === "file" ? "file" : "console",
+  outboxFile: process.env.NOTIFIER_OUTBOX_FILE || ".notifications/outbox.log",
+  // Channels the reminder job sends through, e.g. "sms,line"
+  channels: parseChannels(process.env.NOTIFIER_CHANNELS, ["sms"]),
+  // Days relative to a rental's end date to notify on: -1 is the day before, 2 is two days late
+  reminderOffsetDays: parseOffsets(process.env.RENTAL_REMINDER_OFFSET_DAYS, [-1, 1, 3]),
+};
@@ -10,6 +10,9 @@ export const ownerConfig = {
   address:
     process.env.NEXT_PUBLIC_OWNER_ADDRESS || "ม.5 บ้านม่วงลูกดำ ต .ชุมพล อ. ศรีนครินทร์ จ.พัทลุง",
   phone: process.env.NEXT_PUBLIC_OWNER_PHONE || "080-0021284",
+  // 13-digit taxpayer ID and 5-digit branch code ("00000" is the head office) for tax invoices
+  taxId: process.env.NEXT_PUBLIC_OWNER_TAX_ID || "",
+  branchCode: process.env.NEXT_PUBLIC_OWNER_BRANCH_CODE || "00000",
   logo: process.env.NEXT_PUBLIC_OWNER_LOGO || "/logo.png", // Path to logo image
   bankName: process.env.NEXT_PUBLIC_OWNER_BANK_NAME || "ธนาคารไทยพาณิชย์",
   bankBranch: process.env.NEXT_PUBLIC_OWNER_BANK_BRANCH || "สาขาโลตัสพัทลุง",
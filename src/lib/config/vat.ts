@@ -0,0 +1,33 @@
+/**
+ * VAT Configuration
+ *
+ * Whether the business charges VAT and how its prices are quoted, read
+ * from environment variables. Public so the sale form can show the same
+ * totals the server stores.
+ */
+
+import type { VatMode } from "@/lib/vat";
+
+const VAT_MODES: VatMode[] = ["none", "inclusive", "exclusive"];
+
+/**
+ * Parse the VAT mode, falling back to "none" for unknown values
+ */
+function parseVatMode(value: string | undefined): VatMode {
+  return VAT_MODES.includes(value as VatMode) ? (value as VatMode) : "none";
+}
+
+/**
+ * Parse the VAT rate in percent, falling back to the standard Thai rate
+ */
+function parseVatRate(value: string | undefined): number {
+  const rate = Number(value);
+  return value && Number.isFinite(rate) && rate >= 0 ? rate : 7;
+}
+
+export const vatConfig = {
+  // Default VAT mode for new sales and rental invoices: "none", "inclusive" or "exclusive"
+  mode: parseVatMode(process.env.NEXT_PUBLIC_VAT_MODE),
+  // VAT rate in percent
+  rate: parseVatRate(process.env.NEXT_PUBLIC_VAT_RATE),
+};
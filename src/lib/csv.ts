@@ -0,0 +1,36 @@
+/**
+ * CSV export helpers
+ *
+ * Builds CSV text from rows and downloads it in the browser. Files start
+ * with a UTF-8 byte order mark so Excel opens Thai text correctly.
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
+
+/**
+ * Download CSV text as a file (browser only)
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  const blob = new Blob([`\uFEFF${csv}`], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
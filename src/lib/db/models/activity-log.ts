@@ -1,7 +1,17 @@
 import mongoose, { Schema, Model } from "mongoose";
 
 export type ActivityAction = "create" | "update" | "delete";
-export type ActivityEntityType = "product" | "buyStock" | "rentalAsset" | "rental" | "sale" | "user";
+export type ActivityEntityType =
+  | "product"
+  | "buyStock"
+  | "rentalAsset"
+  | "rental"
+  | "rentalQuote"
+  | "contractTerms"
+  | "priceList"
+  | "promotion"
+  | "sale"
+  | "user";
 
 export interface IActivityLog {
   _id: mongoose.Types.ObjectId;
@@ -35,7 +45,18 @@ const activityLogSchema = new Schema<IActivityLog>(
     },
     entityType: {
       type: String,
-      enum: ["product", "buyStock", "rentalAsset", "rental", "sale", "user"],
+      enum: [
+        "product",
+        "buyStock",
+        "rentalAsset",
+        "rental",
+        "rentalQuote",
+        "contractTerms",
+        "priceList",
+        "promotion",
+        "sale",
+        "user",
+      ],
       required: [true, "Entity type is required"],
     },
     entityId: {
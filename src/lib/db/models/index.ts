@@ -11,8 +11,86 @@ export {
   type IRentalAsset,
   type RentalAssetStatus,
 } from "./rental-asset";
-export { default as Rental, type IRental, type RentalStatus } from "./rental";
-export { default as Sale, type ISale, type ISaleItem, type SaleStatus } from "./sale";
+export {
+  default as Rental,
+  type IRental,
+  type IRentalPayment,
+  type RentalBillingCycle,
+  type RentalPaymentMethod,
+  type RentalStatus,
+} from "./rental";
+export {
+  default as RentalTask,
+  type IRentalTask,
+  type RentalTaskStatus,
+  type RentalTaskType,
+} from "./rental-task";
+export {
+  default as RentalQuote,
+  type IRentalQuote,
+  type IRentalQuoteItem,
+  type RentalQuoteStatus,
+} from "./rental-quote";
+export {
+  default as RentalInvoice,
+  type IRentalInvoice,
+  type IRentalInvoiceLine,
+  type RentalInvoiceStatus,
+} from "./rental-invoice";
+export {
+  default as RentalContract,
+  type IRentalContract,
+  type IRentalContractSnapshot,
+} from "./rental-contract";
+export {
+  default as RentalContractTerms,
+  type IRentalContractTerms,
+} from "./rental-contract-terms";
+export {
+  default as NotificationLog,
+  type INotificationLog,
+  type NotificationKind,
+  type NotificationStatus,
+} from "./notification-log";
+export {
+  default as JobRun,
+  type IJobRun,
+  type JobName,
+  type JobRunStatus,
+  type JobRunTrigger,
+} from "./job-run";
+export {
+  default as PriceList,
+  type IPriceList,
+  type IPriceListItem,
+} from "./price-list";
+export {
+  default as Promotion,
+  type IPromotion,
+  type IPromotionTier,
+  type PromotionType,
+} from "./promotion";
+export {
+  default as Sale,
+  type ISale,
+  type ISaleItem,
+  type ISaleItemPromotion,
+  type SaleStatus,
+} from "./sale";
+export {
+  default as SaleReturn,
+  type ISaleReturn,
+  type ISaleReturnItem,
+  type SaleReturnSettlement,
+} from "./sale-return";
+export {
+  default as TaxInvoice,
+  type ITaxInvoice,
+  type ITaxInvoiceLine,
+  type ITaxInvoiceParty,
+  type TaxInvoiceKind,
+  type TaxInvoiceSourceType,
+} from "./tax-invoice";
 export {
   default as ActivityLog,
   type IActivityLog,
@@ -0,0 +1,141 @@
+/**
+ * Job Run Model
+ *
+ * Mongoose model recording each run of a scheduled background job.
+ * Tracks who or what started the run, its outcome, and what it changed.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Background job names
+ * - overdue-penalty: Flags overdue rentals and accrues their penalties
+ * - rental-invoices: Issues monthly invoices for rentals billed monthly
+ * - rental-notifications: Sends return reminders and overdue notices to customers
+ */
+export type JobName = "overdue-penalty" | "rental-invoices" | "rental-notifications";
+
+/**
+ * How a job run was started
+ * - cli: From a script in scripts/ (e.g. a cron entry)
+ * - manual: By an admin through the API
+ */
+export type JobRunTrigger = "cli" | "manual";
+
+/**
+ * Job run status values
+ * - running: Run has started and not finished yet
+ * - succeeded: Run finished without errors
+ * - failed: Run stopped with an error
+ */
+export type JobRunStatus = "running" | "succeeded" | "failed";
+
+/**
+ * Job run interface representing one execution of a job
+ *
+ * itemsProcessed and itemsFlagged are job-specific counts; for the overdue
+ * penalty job they are the rentals checked and the rentals found overdue; for
+ * the invoice job, the rentals checked and the invoices issued; for the
+ * notification job, the rentals checked and the messages sent.
+ * amountAccrued is the total money added by the run (e.g. new penalty).
+ */
+export interface IJobRun {
+  _id: mongoose.Types.ObjectId;
+  jobName: JobName;
+  trigger: JobRunTrigger;
+  triggeredBy?: mongoose.Types.ObjectId;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  itemsProcessed: number;
+  itemsFlagged: number;
+  amountAccrued: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type JobRunModel = Model<IJobRun>;
+
+/**
+ * Job run schema with validation rules
+ *
+ * Fields:
+ * - jobName: Job that ran (required)
+ * - trigger: How the run was started (required)
+ * - triggeredBy: Admin who started a manual run (optional)
+ * - status: Run status (required, default: "running")
+ * - startedAt: When the run started (required)
+ * - finishedAt: When the run finished (optional, set on success or failure)
+ * - itemsProcessed: Number of records checked (default: 0)
+ * - itemsFlagged: Number of records flagged (default: 0)
+ * - amountAccrued: Total amount added by the run (default: 0)
+ * - error: Error message of a failed run (optional)
+ */
+const jobRunSchema = new Schema<IJobRun>(
+  {
+    jobName: {
+      type: String,
+      enum: ["overdue-penalty", "rental-invoices", "rental-notifications"],
+      required: [true, "Job name is required"],
+    },
+    trigger: {
+      type: String,
+      enum: ["cli", "manual"],
+      required: [true, "Trigger is required"],
+    },
+    triggeredBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    status: {
+      type: String,
+      enum: ["running", "succeeded", "failed"],
+      required: [true, "Status is required"],
+      default: "running",
+    },
+    startedAt: {
+      type: Date,
+      required: [true, "Start time is required"],
+    },
+    finishedAt: {
+      type: Date,
+    },
+    itemsProcessed: {
+      type: Number,
+      min: [0, "Items processed cannot be negative"],
+      default: 0,
+    },
+    itemsFlagged: {
+      type: Number,
+      min: [0, "Items flagged cannot be negative"],
+      default: 0,
+    },
+    amountAccrued: {
+      type: Number,
+      default: 0,
+    },
+    error: {
+      type: String,
+      trim: true,
+      maxlength: [2000, "Error cannot exceed 2000 characters"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Prevent model recompilation during hot reload
+const JobRun =
+  (mongoose.models.JobRun as JobRunModel) || mongoose.model<IJobRun>("JobRun", jobRunSchema);
+
+export default JobRun;
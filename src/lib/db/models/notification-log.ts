@@ -0,0 +1,154 @@
+/**
+ * Notification Log Model
+ *
+ * Mongoose model recording every customer notification sent (or attempted)
+ * for a rental, so staff can see what each customer was told and when.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+import type { NotificationChannel } from "@/lib/notifications/types";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Notification kinds
+ * - return-reminder: Sent before (or on) the rental's end date
+ * - overdue-notice: Sent after the end date while the rental is not returned
+ */
+export type NotificationKind = "return-reminder" | "overdue-notice";
+
+/**
+ * Notification status values
+ * - sent: The notifier accepted the message
+ * - failed: The notifier rejected the message; the job retries it on its next run
+ */
+export type NotificationStatus = "sent" | "failed";
+
+/**
+ * Notification log interface representing one message to a customer
+ *
+ * offsetDays is the message's day relative to dueDate (negative before, positive
+ * after); dueDate is the rental's end date when the message was sent, so a
+ * rental that is extended gets reminded again for its new end date.
+ */
+export interface INotificationLog {
+  _id: mongoose.Types.ObjectId;
+  rentalId: mongoose.Types.ObjectId;
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  offsetDays: number;
+  dueDate: Date;
+  recipient: string;
+  subject: string;
+  body: string;
+  status: NotificationStatus;
+  notifier: string;
+  providerMessageId?: string;
+  error?: string;
+  sentBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type NotificationLogModel = Model<INotificationLog>;
+
+/**
+ * Notification log schema with validation rules
+ *
+ * Fields:
+ * - rentalId: Rental the message is about (required)
+ * - kind: Reminder or overdue notice (required)
+ * - channel: Channel the message was sent through (required)
+ * - offsetDays: Day relative to the due date (required)
+ * - dueDate: Rental end date the message refers to (required)
+ * - recipient: Phone number or email address (required)
+ * - subject: Message subject (required)
+ * - body: Message text (required)
+ * - status: Delivery status (required)
+ * - notifier: Name of the notifier that handled the message (required)
+ * - providerMessageId: Provider reference (optional)
+ * - error: Reason a failed message was rejected (optional)
+ * - sentBy: Admin who sent the message by hand (optional, unset for the job)
+ */
+const notificationLogSchema = new Schema<INotificationLog>(
+  {
+    rentalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Rental",
+      required: [true, "Rental ID is required"],
+    },
+    kind: {
+      type: String,
+      enum: ["return-reminder", "overdue-notice"],
+      required: [true, "Kind is required"],
+    },
+    channel: {
+      type: String,
+      enum: ["sms", "email", "line"],
+      required: [true, "Channel is required"],
+    },
+    offsetDays: {
+      type: Number,
+      required: [true, "Offset days is required"],
+    },
+    dueDate: {
+      type: Date,
+      required: [true, "Due date is required"],
+    },
+    recipient: {
+      type: String,
+      required: [true, "Recipient is required"],
+      trim: true,
+    },
+    subject: {
+      type: String,
+      required: [true, "Subject is required"],
+      trim: true,
+      maxlength: [200, "Subject cannot exceed 200 characters"],
+    },
+    body: {
+      type: String,
+      required: [true, "Body is required"],
+      maxlength: [2000, "Body cannot exceed 2000 characters"],
+    },
+    status: {
+      type: String,
+      enum: ["sent", "failed"],
+      required: [true, "Status is required"],
+    },
+    notifier: {
+      type: String,
+      required: [true, "Notifier is required"],
+    },
+    providerMessageId: {
+      type: String,
+    },
+    error: {
+      type: String,
+      trim: true,
+      maxlength: [2000, "Error cannot exceed 2000 characters"],
+    },
+    sentBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+notificationLogSchema.index({ rentalId: 1, createdAt: -1 });
+
+// Prevent model recompilation during hot reload
+const NotificationLog =
+  (mongoose.models.NotificationLog as NotificationLogModel) ||
+  mongoose.model<INotificationLog>("NotificationLog", notificationLogSchema);
+
+export default NotificationLog;
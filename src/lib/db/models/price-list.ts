@@ -0,0 +1,140 @@
+/**
+ * Price List Model
+ *
+ * Mongoose model for sale price lists. A price list sets the selling price of
+ * some products for a period, overriding Product.price while it applies. When
+ * several active lists apply on the same day, the one with the highest
+ * priority wins.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Price list item (embedded in a price list)
+ */
+export interface IPriceListItem {
+  productId: mongoose.Types.ObjectId;
+  price: number;
+}
+
+/**
+ * Price list interface representing one price list
+ *
+ * startDate and endDate are both inclusive; a list without them applies
+ * from / until any date.
+ */
+export interface IPriceList {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  isActive: boolean;
+  priority: number;
+  startDate?: Date;
+  endDate?: Date;
+  items: IPriceListItem[];
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type PriceListModel = Model<IPriceList>;
+
+/**
+ * Price list item schema (embedded document)
+ */
+const priceListItemSchema = new Schema<IPriceListItem>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: "Product",
+      required: [true, "Product ID is required"],
+    },
+    price: {
+      type: Number,
+      required: [true, "Price is required"],
+      min: [0, "Price cannot be negative"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Price list schema with validation rules
+ *
+ * Fields:
+ * - name: Price list name (required, max 100 chars)
+ * - description: Notes about the list (optional, max 500 chars)
+ * - isActive: Whether the list is used for pricing (default: true)
+ * - priority: Higher wins when several lists apply (default: 0)
+ * - startDate: First day the list applies (optional)
+ * - endDate: Last day the list applies (optional)
+ * - items: Product prices (required, at least 1)
+ * - createdBy: User who created the list (required)
+ */
+const priceListSchema = new Schema<IPriceList>(
+  {
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+      maxlength: [100, "Name cannot exceed 100 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description cannot exceed 500 characters"],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    priority: {
+      type: Number,
+      default: 0,
+    },
+    startDate: {
+      type: Date,
+    },
+    endDate: {
+      type: Date,
+    },
+    items: {
+      type: [priceListItemSchema],
+      required: [true, "At least one item is required"],
+      validate: {
+        validator: (v: IPriceListItem[]) => v.length > 0,
+        message: "At least one item is required",
+      },
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Created by user is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ========================================================================
+// Indexes
+// ========================================================================
+
+// Create compound index for finding the lists that apply
+priceListSchema.index({ isActive: 1, priority: -1 });
+
+// Prevent model recompilation during hot reload
+const PriceList =
+  (mongoose.models.PriceList as PriceListModel) ||
+  mongoose.model<IPriceList>("PriceList", priceListSchema);
+
+export default PriceList;
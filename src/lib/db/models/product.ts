@@ -18,6 +18,15 @@ import mongoose, { Schema, Model } from "mongoose";
  */
 export type StockType = "buy" | "rental";
 
+/**
+ * Rounding applied to a rental line's price per unit
+ * - none: Keep the exact price
+ * - up: Round up to the next multiple of the rounding step
+ * - down: Round down to the previous multiple of the rounding step
+ * - nearest: Round to the nearest multiple of the rounding step
+ */
+export type RentalRoundingMode = "none" | "up" | "down" | "nearest";
+
 /**
  * Product interface representing a product in the catalog
  */
@@ -32,7 +41,11 @@ export interface IProduct {
   images?: string[];
   stockType: StockType;
   dailyRentalRate?: number;
+  weeklyRentalRate?: number;
   monthlyRentalRate?: number;
+  minRentalDays?: number;
+  rentalRoundingMode?: RentalRoundingMode;
+  rentalRoundingStep?: number;
   insuranceFee?: number;
   replacementPrice?: number;
   createdBy: mongoose.Types.ObjectId;
@@ -58,6 +71,9 @@ type ProductModel = Model<IProduct>;
  * - unit: Unit of measurement (optional, max 20 chars)
  * - images: Array of image URLs (optional, default: [])
  * - stockType: Type of stock management (required: "buy" or "rental")
+ * - dailyRentalRate / weeklyRentalRate / monthlyRentalRate: Rental rates (optional, >= 0)
+ * - minRentalDays: Minimum days charged per rental (default: 1)
+ * - rentalRoundingMode / rentalRoundingStep: Rounding of the rental price per unit (default: none / 1)
  * - createdBy: User who created the product (required)
  */
 const productSchema = new Schema<IProduct>(
@@ -126,10 +142,29 @@ const productSchema = new Schema<IProduct>(
       type: Number,
       min: [0, "Daily rental rate cannot be negative"],
     },
+    weeklyRentalRate: {
+      type: Number,
+      min: [0, "Weekly rental rate cannot be negative"],
+    },
     monthlyRentalRate: {
       type: Number,
       min: [0, "Monthly rental rate cannot be negative"],
     },
+    minRentalDays: {
+      type: Number,
+      min: [1, "Minimum rental days must be at least 1"],
+      default: 1,
+    },
+    rentalRoundingMode: {
+      type: String,
+      enum: ["none", "up", "down", "nearest"],
+      default: "none",
+    },
+    rentalRoundingStep: {
+      type: Number,
+      min: [0, "Rounding step cannot be negative"],
+      default: 1,
+    },
     insuranceFee: {
       type: Number,
       min: [0, "Insurance fee cannot be negative"],
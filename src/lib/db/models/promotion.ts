@@ -0,0 +1,194 @@
+/**
+ * Promotion Model
+ *
+ * Mongoose model for sale promotions. A promotion takes money off the sale
+ * lines it covers: a percentage or a fixed amount per unit, buy X get Y free,
+ * or a percentage that grows with the quantity bought. Promotions can be
+ * limited to a campaign period and to a coupon code.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Promotion type values
+ * - percentOff: value percent off the line
+ * - amountOff: value baht off each unit
+ * - buyXGetY: every buyQuantity + getQuantity units, getQuantity are free
+ * - quantityBreak: percent off from the highest tier the quantity reaches
+ */
+export type PromotionType = "percentOff" | "amountOff" | "buyXGetY" | "quantityBreak";
+
+/**
+ * Quantity break tier (embedded in a promotion)
+ */
+export interface IPromotionTier {
+  minQuantity: number;
+  percentOff: number;
+}
+
+/**
+ * Promotion interface representing one promotion
+ *
+ * A promotion covers the products in productIds and the products in
+ * categories; with neither it covers every product. startDate and endDate
+ * are both inclusive. A promotion with a couponCode only applies when the
+ * code is entered on the sale.
+ */
+export interface IPromotion {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  tiers: IPromotionTier[];
+  productIds: mongoose.Types.ObjectId[];
+  categories: string[];
+  startDate?: Date;
+  endDate?: Date;
+  couponCode?: string;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type PromotionModel = Model<IPromotion>;
+
+/**
+ * Quantity break tier schema (embedded document)
+ */
+const promotionTierSchema = new Schema<IPromotionTier>(
+  {
+    minQuantity: {
+      type: Number,
+      required: [true, "Minimum quantity is required"],
+      min: [1, "Minimum quantity must be at least 1"],
+    },
+    percentOff: {
+      type: Number,
+      required: [true, "Percent off is required"],
+      min: [0, "Percent off cannot be negative"],
+      max: [100, "Percent off cannot exceed 100"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Promotion schema with validation rules
+ *
+ * Fields:
+ * - name: Promotion name shown on the bill (required, max 100 chars)
+ * - description: Notes about the promotion (optional, max 500 chars)
+ * - type: percentOff, amountOff, buyXGetY or quantityBreak (required)
+ * - value: Percent or baht per unit, by type (default: 0)
+ * - buyQuantity / getQuantity: Units to buy and units free (buyXGetY only)
+ * - tiers: Quantity breaks (quantityBreak only)
+ * - productIds: Products covered (optional)
+ * - categories: Product categories covered (optional)
+ * - startDate: First day the promotion applies (optional)
+ * - endDate: Last day the promotion applies (optional)
+ * - couponCode: Code that must be entered on the sale (optional, unique)
+ * - isActive: Whether the promotion is applied (default: true)
+ * - createdBy: User who created the promotion (required)
+ */
+const promotionSchema = new Schema<IPromotion>(
+  {
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+      maxlength: [100, "Name cannot exceed 100 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description cannot exceed 500 characters"],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ["percentOff", "amountOff", "buyXGetY", "quantityBreak"],
+        message: "{VALUE} is not a valid promotion type",
+      },
+      required: [true, "Type is required"],
+    },
+    value: {
+      type: Number,
+      default: 0,
+      min: [0, "Value cannot be negative"],
+    },
+    buyQuantity: {
+      type: Number,
+      min: [1, "Buy quantity must be at least 1"],
+    },
+    getQuantity: {
+      type: Number,
+      min: [1, "Get quantity must be at least 1"],
+    },
+    tiers: {
+      type: [promotionTierSchema],
+      default: [],
+    },
+    productIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Product",
+      },
+    ],
+    categories: {
+      type: [String],
+      default: [],
+    },
+    startDate: {
+      type: Date,
+    },
+    endDate: {
+      type: Date,
+    },
+    couponCode: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      maxlength: [50, "Coupon code cannot exceed 50 characters"],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Created by user is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ========================================================================
+// Indexes
+// ========================================================================
+
+// Create index for finding the promotions that apply
+promotionSchema.index({ isActive: 1, startDate: 1, endDate: 1 });
+// Create unique index for coupon codes (promotions without one are skipped)
+promotionSchema.index({ couponCode: 1 }, { unique: true, sparse: true });
+
+// Prevent model recompilation during hot reload
+const Promotion =
+  (mongoose.models.Promotion as PromotionModel) ||
+  mongoose.model<IPromotion>("Promotion", promotionSchema);
+
+export default Promotion;
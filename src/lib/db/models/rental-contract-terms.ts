@@ -0,0 +1,79 @@
+/**
+ * Rental Contract Terms Model
+ *
+ * Mongoose model for the terms and conditions printed on rental contracts.
+ * Terms are never edited in place: each change is published as a new version,
+ * so contracts signed under an older version can still name it.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rental contract terms interface representing one published version
+ */
+export interface IRentalContractTerms {
+  _id: mongoose.Types.ObjectId;
+  version: number;
+  title: string;
+  body: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type RentalContractTermsModel = Model<IRentalContractTerms>;
+
+/**
+ * Rental contract terms schema with validation rules
+ *
+ * Fields:
+ * - version: Sequential version number, the highest is current (required, unique)
+ * - title: Heading of the terms section (required, max 200 chars)
+ * - body: Terms text; each line is printed as one clause (required, max 20000 chars)
+ * - createdBy: User who published the version (required)
+ */
+const rentalContractTermsSchema = new Schema<IRentalContractTerms>(
+  {
+    version: {
+      type: Number,
+      required: [true, "Version is required"],
+      unique: true,
+      min: [1, "Version must be at least 1"],
+    },
+    title: {
+      type: String,
+      required: [true, "Title is required"],
+      trim: true,
+      maxlength: [200, "Title cannot exceed 200 characters"],
+    },
+    body: {
+      type: String,
+      required: [true, "Terms text is required"],
+      trim: true,
+      maxlength: [20000, "Terms text cannot exceed 20000 characters"],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Created by user is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Prevent model recompilation during hot reload
+const RentalContractTerms =
+  (mongoose.models.RentalContractTerms as RentalContractTermsModel) ||
+  mongoose.model<IRentalContractTerms>("RentalContractTerms", rentalContractTermsSchema);
+
+export default RentalContractTerms;
@@ -0,0 +1,202 @@
+/**
+ * Rental Contract Model
+ *
+ * Mongoose model for signed rental agreements.
+ * Each signing stores the contract exactly as it was shown to the customer:
+ * the data it was built from, the terms text, the rendered document, and both
+ * signatures. A rental can be signed again (e.g. after an extension or an
+ * asset swap); every signing is kept as a new version.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Asset listed on a contract (embedded in a contract snapshot)
+ */
+export interface IRentalContractAsset {
+  assetCode: string;
+  productName: string;
+  quantity: number;
+}
+
+/**
+ * Rental data a contract was built from (embedded in a contract)
+ *
+ * A copy of the rental at signing time, so later changes to the rental do not
+ * alter a signed contract.
+ */
+export interface IRentalContractSnapshot {
+  rentalNumber: string;
+  customerName: string;
+  customerIdNumber?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  customerAddress?: string;
+  assets: IRentalContractAsset[];
+  startDate: Date;
+  endDate: Date;
+  billingCycle: string;
+  totalAmount: number;
+  deposit: number;
+  penaltyRate: number;
+  termsVersion: number;
+  termsTitle: string;
+  termsBody: string;
+}
+
+/**
+ * Rental contract interface representing one signed version
+ *
+ * html is the complete rendered document, signatures included; printing it
+ * reproduces the contract as signed. Signatures are PNG data URLs captured on
+ * a tablet canvas.
+ */
+export interface IRentalContract {
+  _id: mongoose.Types.ObjectId;
+  rentalId: mongoose.Types.ObjectId;
+  version: number;
+  snapshot: IRentalContractSnapshot;
+  html: string;
+  customerSignature: string;
+  customerSignerName: string;
+  staffSignature: string;
+  signedAt: Date;
+  signedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type RentalContractModel = Model<IRentalContract>;
+
+/**
+ * Contract asset schema (embedded document)
+ */
+const rentalContractAssetSchema = new Schema<IRentalContractAsset>(
+  {
+    assetCode: {
+      type: String,
+      required: [true, "Asset code is required"],
+    },
+    productName: {
+      type: String,
+      required: [true, "Product name is required"],
+    },
+    quantity: {
+      type: Number,
+      required: [true, "Quantity is required"],
+      min: [1, "Quantity must be at least 1"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Contract snapshot schema (embedded document)
+ */
+const rentalContractSnapshotSchema = new Schema<IRentalContractSnapshot>(
+  {
+    rentalNumber: { type: String, required: [true, "Rental number is required"] },
+    customerName: { type: String, required: [true, "Customer name is required"] },
+    customerIdNumber: { type: String },
+    customerPhone: { type: String },
+    customerEmail: { type: String },
+    customerAddress: { type: String },
+    assets: { type: [rentalContractAssetSchema], default: [] },
+    startDate: { type: Date, required: [true, "Start date is required"] },
+    endDate: { type: Date, required: [true, "End date is required"] },
+    billingCycle: { type: String, required: [true, "Billing cycle is required"] },
+    totalAmount: { type: Number, required: [true, "Total amount is required"] },
+    deposit: { type: Number, required: [true, "Deposit is required"] },
+    penaltyRate: { type: Number, required: [true, "Penalty rate is required"] },
+    termsVersion: { type: Number, required: [true, "Terms version is required"] },
+    termsTitle: { type: String, required: [true, "Terms title is required"] },
+    termsBody: { type: String, required: [true, "Terms text is required"] },
+  },
+  { _id: false }
+);
+
+/**
+ * Rental contract schema with validation rules
+ *
+ * Fields:
+ * - rentalId: Rental the contract belongs to (required)
+ * - version: Signing number within the rental, starting at 1 (required)
+ * - snapshot: Rental data and terms the contract was built from (required)
+ * - html: Rendered contract document as signed (required)
+ * - customerSignature: Customer's signature as a PNG data URL (required)
+ * - customerSignerName: Name of the person who signed for the customer (required, max 200 chars)
+ * - staffSignature: Staff signature as a PNG data URL (required)
+ * - signedAt: When the contract was signed (required)
+ * - signedBy: Staff user who took the signatures (required)
+ */
+const rentalContractSchema = new Schema<IRentalContract>(
+  {
+    rentalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Rental",
+      required: [true, "Rental ID is required"],
+    },
+    version: {
+      type: Number,
+      required: [true, "Version is required"],
+      min: [1, "Version must be at least 1"],
+    },
+    snapshot: {
+      type: rentalContractSnapshotSchema,
+      required: [true, "Snapshot is required"],
+    },
+    html: {
+      type: String,
+      required: [true, "Contract document is required"],
+    },
+
+    // ========================================================================
+    // Signatures
+    // ========================================================================
+
+    customerSignature: {
+      type: String,
+      required: [true, "Customer signature is required"],
+    },
+    customerSignerName: {
+      type: String,
+      required: [true, "Customer signer name is required"],
+      trim: true,
+      maxlength: [200, "Customer signer name cannot exceed 200 characters"],
+    },
+    staffSignature: {
+      type: String,
+      required: [true, "Staff signature is required"],
+    },
+    signedAt: {
+      type: Date,
+      required: [true, "Signed at is required"],
+    },
+    signedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Signed by user is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One contract per rental and version
+rentalContractSchema.index({ rentalId: 1, version: 1 }, { unique: true });
+
+// Prevent model recompilation during hot reload
+const RentalContract =
+  (mongoose.models.RentalContract as RentalContractModel) ||
+  mongoose.model<IRentalContract>("RentalContract", rentalContractSchema);
+
+export default RentalContract;
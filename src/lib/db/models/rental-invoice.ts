@@ -0,0 +1,276 @@
+/**
+ * Rental Invoice Model
+ *
+ * Mongoose model for periodic invoices of monthly-billed rentals.
+ * Each invoice covers one calendar month (or the part of it the rental was
+ * running) and tracks its own number, due date, and payment status.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+import type { VatMode } from "@/lib/vat";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rental invoice status values
+ * - unpaid: Issued and waiting for payment
+ * - paid: Paid in full
+ * - void: Cancelled; not owed and not regenerated
+ */
+export type RentalInvoiceStatus = "unpaid" | "paid" | "void";
+
+/**
+ * Invoiced asset line (embedded in an invoice)
+ *
+ * monthlyRate is the charge for one unit for a full month. days is how many
+ * days of the period the line was out; amount is prorated by days over the
+ * days in the month. vatAmount is the line's share of the invoice VAT.
+ */
+export interface IRentalInvoiceLine {
+  assetId: mongoose.Types.ObjectId;
+  productName: string;
+  quantity: number;
+  monthlyRate: number;
+  days: number;
+  amount: number;
+  vatAmount: number;
+}
+
+/**
+ * Rental invoice interface representing one billing period
+ *
+ * periodEnd is exclusive, like a rental's endDate: a full-month invoice runs
+ * from the 1st of the month to the 1st of the next month. vatMode and vatRate
+ * are taken from the VAT configuration when the invoice is issued; amount is
+ * what the customer pays, VAT included.
+ */
+export interface IRentalInvoice {
+  _id: mongoose.Types.ObjectId;
+  invoiceNumber: string;
+  rentalId: mongoose.Types.ObjectId;
+  periodStart: Date;
+  periodEnd: Date;
+  daysInMonth: number;
+  isProrated: boolean;
+  lines: IRentalInvoiceLine[];
+  vatMode: VatMode;
+  vatRate: number;
+  taxableAmount: number;
+  vatAmount: number;
+  amount: number;
+  issuedAt: Date;
+  dueDate: Date;
+  status: RentalInvoiceStatus;
+  paidAt?: Date;
+  paidBy?: mongoose.Types.ObjectId;
+  voidedAt?: Date;
+  voidReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type RentalInvoiceModel = Model<IRentalInvoice>;
+
+/**
+ * Invoiced asset line schema (embedded document)
+ */
+const rentalInvoiceLineSchema = new Schema<IRentalInvoiceLine>(
+  {
+    assetId: {
+      type: Schema.Types.ObjectId,
+      ref: "RentalAsset",
+      required: [true, "Asset ID is required"],
+    },
+    productName: {
+      type: String,
+      required: [true, "Product name is required"],
+      trim: true,
+    },
+    quantity: {
+      type: Number,
+      required: [true, "Quantity is required"],
+      min: [1, "Quantity must be at least 1"],
+    },
+    monthlyRate: {
+      type: Number,
+      required: [true, "Monthly rate is required"],
+      min: [0, "Monthly rate cannot be negative"],
+    },
+    days: {
+      type: Number,
+      required: [true, "Days is required"],
+      min: [0, "Days cannot be negative"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0, "Amount cannot be negative"],
+    },
+    vatAmount: {
+      type: Number,
+      min: [0, "VAT amount cannot be negative"],
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Rental invoice schema with validation rules
+ *
+ * Fields:
+ * - invoiceNumber: Unique invoice identifier (format: RINV-YYYYMMDD-NNNN)
+ * - rentalId: Rental being billed (required)
+ * - periodStart: Start of the billed period (required)
+ * - periodEnd: End of the billed period, exclusive (required)
+ * - daysInMonth: Days in the calendar month of the period (required)
+ * - isProrated: Whether the period is shorter than the full month (default: false)
+ * - lines: Invoiced asset lines (required, at least 1)
+ * - vatMode: How VAT is charged (required, default: "none")
+ * - vatRate: VAT rate in percent (required, default: 0)
+ * - taxableAmount: Value before VAT (required, >= 0)
+ * - vatAmount: VAT charged (required, >= 0, default: 0)
+ * - amount: Invoice total including VAT (required, >= 0)
+ * - issuedAt: When the invoice was generated (required)
+ * - dueDate: Payment due date (required)
+ * - status: Payment status (required, default: "unpaid")
+ * - paidAt: When the invoice was paid (optional)
+ * - paidBy: User who recorded the payment (optional)
+ * - voidedAt: When the invoice was voided (optional)
+ * - voidReason: Why the invoice was voided (optional, max 500 chars)
+ */
+const rentalInvoiceSchema = new Schema<IRentalInvoice>(
+  {
+    invoiceNumber: {
+      type: String,
+      required: [true, "Invoice number is required"],
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+    rentalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Rental",
+      required: [true, "Rental ID is required"],
+    },
+
+    // ========================================================================
+    // Billing Period
+    // ========================================================================
+
+    periodStart: {
+      type: Date,
+      required: [true, "Period start is required"],
+    },
+    periodEnd: {
+      type: Date,
+      required: [true, "Period end is required"],
+    },
+    daysInMonth: {
+      type: Number,
+      required: [true, "Days in month is required"],
+      min: [28, "Days in month must be at least 28"],
+      max: [31, "Days in month cannot exceed 31"],
+    },
+    isProrated: {
+      type: Boolean,
+      default: false,
+    },
+
+    // ========================================================================
+    // Amount
+    // ========================================================================
+
+    lines: {
+      type: [rentalInvoiceLineSchema],
+      required: [true, "At least one line is required"],
+      validate: {
+        validator: function (v) {
+          return Array.isArray(v) && v.length > 0;
+        },
+        message: "At least one line is required",
+      },
+    },
+    vatMode: {
+      type: String,
+      enum: ["none", "inclusive", "exclusive"],
+      required: [true, "VAT mode is required"],
+      default: "none",
+    },
+    vatRate: {
+      type: Number,
+      required: [true, "VAT rate is required"],
+      min: [0, "VAT rate cannot be negative"],
+      default: 0,
+    },
+    taxableAmount: {
+      type: Number,
+      required: [true, "Taxable amount is required"],
+      min: [0, "Taxable amount cannot be negative"],
+    },
+    vatAmount: {
+      type: Number,
+      required: [true, "VAT amount is required"],
+      min: [0, "VAT amount cannot be negative"],
+      default: 0,
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0, "Amount cannot be negative"],
+    },
+
+    // ========================================================================
+    // Issue and Payment
+    // ========================================================================
+
+    issuedAt: {
+      type: Date,
+      required: [true, "Issue date is required"],
+    },
+    dueDate: {
+      type: Date,
+      required: [true, "Due date is required"],
+    },
+    status: {
+      type: String,
+      enum: ["unpaid", "paid", "void"],
+      required: [true, "Status is required"],
+      default: "unpaid",
+    },
+    paidAt: {
+      type: Date,
+    },
+    paidBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    voidedAt: {
+      type: Date,
+    },
+    voidReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Void reason cannot exceed 500 characters"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One invoice per rental and period
+rentalInvoiceSchema.index({ rentalId: 1, periodStart: 1 }, { unique: true });
+
+// Prevent model recompilation during hot reload
+const RentalInvoice =
+  (mongoose.models.RentalInvoice as RentalInvoiceModel) ||
+  mongoose.model<IRentalInvoice>("RentalInvoice", rentalInvoiceSchema);
+
+export default RentalInvoice;
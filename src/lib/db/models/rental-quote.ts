@@ -0,0 +1,279 @@
+/**
+ * Rental Quote Model
+ *
+ * Mongoose model for rental quotations.
+ * Holds the products, quantities, and period a customer asked about, priced
+ * with the rental rates, until the quote is converted into a rental or expires.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+import { rentalLinePricingSchema, type IRentalLinePricing } from "./rental";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rental quote status values
+ * - open: Waiting for the customer (expired once validUntil has passed)
+ * - converted: Turned into a rental
+ * - cancelled: Withdrawn or declined
+ */
+export type RentalQuoteStatus = "open" | "converted" | "cancelled";
+
+/**
+ * Quoted product line (embedded in a quote)
+ *
+ * Names a product and quantity, not specific assets; assets are picked when
+ * the quote is converted. productName, dailyRate, and insuranceFee are
+ * snapshots of the product when the quote was priced.
+ */
+export interface IRentalQuoteItem {
+  productId: mongoose.Types.ObjectId;
+  productName: string;
+  quantity: number;
+  dailyRate: number;
+  insuranceFee: number;
+  lineTotal: number;
+  pricing: IRentalLinePricing;
+}
+
+/**
+ * Rental quote interface representing a quotation
+ */
+export interface IRentalQuote {
+  _id: mongoose.Types.ObjectId;
+  quoteNumber: string;
+  customerName: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  customerAddress?: string;
+  items: IRentalQuoteItem[];
+  startDate: Date;
+  endDate: Date;
+  validUntil: Date;
+  dailyRate: number;
+  totalAmount: number;
+  deposit: number;
+  shippingCost: number;
+  status: RentalQuoteStatus;
+  rentalId?: mongoose.Types.ObjectId;
+  convertedAt?: Date;
+  convertedBy?: mongoose.Types.ObjectId;
+  notes?: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type RentalQuoteModel = Model<IRentalQuote>;
+
+/**
+ * Quoted product line schema (embedded document)
+ */
+const rentalQuoteItemSchema = new Schema<IRentalQuoteItem>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: "Product",
+      required: [true, "Product ID is required"],
+    },
+    productName: {
+      type: String,
+      required: [true, "Product name is required"],
+      trim: true,
+    },
+    quantity: {
+      type: Number,
+      required: [true, "Quantity is required"],
+      min: [1, "Quantity must be at least 1"],
+    },
+    dailyRate: {
+      type: Number,
+      required: [true, "Daily rate is required"],
+      min: [0, "Daily rate cannot be negative"],
+    },
+    insuranceFee: {
+      type: Number,
+      min: [0, "Insurance fee cannot be negative"],
+      default: 0,
+    },
+    lineTotal: {
+      type: Number,
+      required: [true, "Line total is required"],
+      min: [0, "Line total cannot be negative"],
+    },
+    pricing: {
+      type: rentalLinePricingSchema,
+      required: [true, "Pricing is required"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Rental quote schema with validation rules
+ *
+ * Fields:
+ * - quoteNumber: Unique quote identifier (required, unique, uppercase)
+ * - customerName: Customer's full name (required, 1-200 chars)
+ * - customerPhone: Customer's phone number (optional, max 20 chars)
+ * - customerEmail: Customer's email (optional, valid email format)
+ * - customerAddress: Customer's address (optional, max 500 chars)
+ * - items: Quoted product lines (required, at least 1)
+ * - startDate: Requested rental start date (required)
+ * - endDate: Requested rental end date (required)
+ * - validUntil: Date the quote expires (required)
+ * - dailyRate: Combined daily rate of all lines (required, min: 0)
+ * - totalAmount: Sum of the line totals (required, min: 0)
+ * - deposit: Security deposit to collect (default: 0)
+ * - shippingCost: Shipping cost (default: 0)
+ * - status: Quote status (required, default: "open")
+ * - rentalId: Rental created from the quote (optional)
+ * - convertedAt: When the quote was converted (optional)
+ * - convertedBy: User who converted the quote (optional)
+ * - notes: Additional notes (optional, max 1000 chars)
+ * - createdBy: User who created the quote (required)
+ */
+const rentalQuoteSchema = new Schema<IRentalQuote>(
+  {
+    quoteNumber: {
+      type: String,
+      required: [true, "Quote number is required"],
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+
+    // ========================================================================
+    // Customer Information
+    // ========================================================================
+
+    customerName: {
+      type: String,
+      required: [true, "Customer name is required"],
+      trim: true,
+      minlength: [1, "Customer name must be at least 1 character"],
+      maxlength: [200, "Customer name cannot exceed 200 characters"],
+    },
+    customerPhone: {
+      type: String,
+      trim: true,
+      maxlength: [20, "Phone number cannot exceed 20 characters"],
+    },
+    customerEmail: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      match: [/^\S+@\S+\.\S+$/, "Please enter a valid email"],
+    },
+    customerAddress: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Address cannot exceed 500 characters"],
+    },
+
+    // ========================================================================
+    // Quoted Products and Period
+    // ========================================================================
+
+    items: {
+      type: [rentalQuoteItemSchema],
+      required: [true, "At least one item is required"],
+      validate: {
+        validator: function (v) {
+          return Array.isArray(v) && v.length > 0;
+        },
+        message: "At least one item is required",
+      },
+    },
+    startDate: {
+      type: Date,
+      required: [true, "Start date is required"],
+    },
+    endDate: {
+      type: Date,
+      required: [true, "End date is required"],
+    },
+    validUntil: {
+      type: Date,
+      required: [true, "Valid until date is required"],
+    },
+
+    // ========================================================================
+    // Pricing
+    // ========================================================================
+
+    dailyRate: {
+      type: Number,
+      required: [true, "Daily rate is required"],
+      min: [0, "Daily rate cannot be negative"],
+    },
+    totalAmount: {
+      type: Number,
+      required: [true, "Total amount is required"],
+      min: [0, "Total amount cannot be negative"],
+    },
+    deposit: {
+      type: Number,
+      min: [0, "Deposit cannot be negative"],
+      default: 0,
+    },
+    shippingCost: {
+      type: Number,
+      min: [0, "Shipping cost cannot be negative"],
+      default: 0,
+    },
+
+    // ========================================================================
+    // Status and Conversion
+    // ========================================================================
+
+    status: {
+      type: String,
+      enum: ["open", "converted", "cancelled"],
+      required: [true, "Status is required"],
+      default: "open",
+    },
+    rentalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Rental",
+    },
+    convertedAt: {
+      type: Date,
+    },
+    convertedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Notes cannot exceed 1000 characters"],
+    },
+
+    // ========================================================================
+    // Audit Fields
+    // ========================================================================
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Created by user is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Prevent model recompilation during hot reload
+const RentalQuote =
+  (mongoose.models.RentalQuote as RentalQuoteModel) ||
+  mongoose.model<IRentalQuote>("RentalQuote", rentalQuoteSchema);
+
+export default RentalQuote;
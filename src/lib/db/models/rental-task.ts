@@ -0,0 +1,136 @@
+/**
+ * Rental Task Model
+ *
+ * Mongoose model for delivery and pickup tasks linked to a rental.
+ * Tracks where and when the goods are moved, who is assigned, and the task status.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rental task type values
+ * - delivery: Take the rented assets to the customer
+ * - pickup: Collect the rented assets from the customer
+ */
+export type RentalTaskType = "delivery" | "pickup";
+
+/**
+ * Rental task status values
+ * - scheduled: Task is planned for its time slot
+ * - in_progress: Staff is on the way or at the customer
+ * - completed: Goods delivered or collected
+ * - cancelled: Task will not be carried out
+ */
+export type RentalTaskStatus = "scheduled" | "in_progress" | "completed" | "cancelled";
+
+/**
+ * Rental task interface representing one delivery or pickup
+ */
+export interface IRentalTask {
+  _id: mongoose.Types.ObjectId;
+  rentalId: mongoose.Types.ObjectId;
+  type: RentalTaskType;
+  address: string;
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  assignedTo?: mongoose.Types.ObjectId;
+  status: RentalTaskStatus;
+  notes?: string;
+  completedAt?: Date;
+  completedBy?: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type RentalTaskModel = Model<IRentalTask>;
+
+/**
+ * Rental task schema with validation rules
+ *
+ * Fields:
+ * - rentalId: Rental the task belongs to (required)
+ * - type: Delivery or pickup (required)
+ * - address: Where to deliver or collect, defaults to the customer address (required)
+ * - scheduledStart: Start of the scheduled time slot (required)
+ * - scheduledEnd: End of the scheduled time slot (required)
+ * - assignedTo: Staff user carrying out the task (optional)
+ * - status: Task status (required, default: "scheduled")
+ * - notes: Instructions for the driver (optional)
+ * - completedAt: When the task was completed (optional)
+ * - completedBy: User who completed the task (optional)
+ * - createdBy: User who scheduled the task (required)
+ */
+const rentalTaskSchema = new Schema<IRentalTask>(
+  {
+    rentalId: {
+      type: Schema.Types.ObjectId,
+      ref: "Rental",
+      required: [true, "Rental is required"],
+    },
+    type: {
+      type: String,
+      enum: ["delivery", "pickup"],
+      required: [true, "Task type is required"],
+    },
+    address: {
+      type: String,
+      required: [true, "Address is required"],
+      trim: true,
+      maxlength: [500, "Address cannot exceed 500 characters"],
+    },
+    scheduledStart: {
+      type: Date,
+      required: [true, "Scheduled start is required"],
+    },
+    scheduledEnd: {
+      type: Date,
+      required: [true, "Scheduled end is required"],
+    },
+    assignedTo: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    status: {
+      type: String,
+      enum: ["scheduled", "in_progress", "completed", "cancelled"],
+      required: [true, "Status is required"],
+      default: "scheduled",
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Notes cannot exceed 1000 characters"],
+    },
+    completedAt: {
+      type: Date,
+    },
+    completedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Created by user is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Prevent model recompilation during hot reload
+const RentalTask =
+  (mongoose.models.RentalTask as RentalTaskModel) ||
+  mongoose.model<IRentalTask>("RentalTask", rentalTaskSchema);
+
+export default RentalTask;
@@ -20,6 +20,181 @@ import mongoose, { Schema, Model } from "mongoose";
  */
 export type RentalStatus = "pending" | "active" | "completed" | "cancelled";
 
+/**
+ * How a rental is billed
+ * - once: Priced for the booked period up front (totalAmount)
+ * - monthly: Long-term contract billed by monthly invoices until return;
+ *   endDate is the planned end and no overdue penalty accrues past it
+ */
+export type RentalBillingCycle = "once" | "monthly";
+
+/**
+ * Asset condition recorded at check-in
+ * - ok: Ready to rent again
+ * - dirty: Needs cleaning before the next rental
+ * - damaged: Needs repair or replacement
+ * - lost: Not returned by the customer
+ */
+export type AssetCondition = "ok" | "dirty" | "damaged" | "lost";
+
+/**
+ * Check-in inspection result for a returned asset
+ */
+export interface IAssetInspection {
+  condition: AssetCondition;
+  photoUrls: string[];
+  note?: string;
+}
+
+/**
+ * Extra charge type added to a rental
+ * - damage: Repair cost for an asset returned damaged
+ * - loss: Replacement cost for an asset that was not returned
+ */
+export type RentalChargeType = "damage" | "loss";
+
+/**
+ * Extra charge on a rental (embedded in a rental)
+ */
+export interface IRentalCharge {
+  type: RentalChargeType;
+  assetId?: mongoose.Types.ObjectId;
+  description: string;
+  amount: number;
+  createdAt: Date;
+}
+
+/**
+ * How a deposit refund was paid back to the customer
+ */
+export type DepositRefundMethod = "cash" | "transfer" | "other";
+
+/**
+ * Deposit refund payment (embedded in a deposit settlement)
+ */
+export interface IDepositRefund {
+  amount: number;
+  method: DepositRefundMethod;
+  refundedAt: Date;
+  note?: string;
+  refundedBy: mongoose.Types.ObjectId;
+}
+
+/**
+ * Deposit settlement (embedded in a rental)
+ *
+ * Nets the deposit against the rental's outstanding balance at settlement,
+ * split into the unpaid penalty, damage/loss charges, and rent.
+ * deductedAmount is the part of the deposit kept by the owner,
+ * refundableAmount the part owed back to the customer (paid out through
+ * refunds, possibly in several partial payments), and balanceDue what the
+ * customer still owes when deductions exceed the deposit.
+ */
+export interface IDepositSettlement {
+  depositAmount: number;
+  penaltyAmount: number;
+  chargesAmount: number;
+  unpaidRentAmount: number;
+  deductedAmount: number;
+  refundableAmount: number;
+  balanceDue: number;
+  refunds: IDepositRefund[];
+  note?: string;
+  settledAt: Date;
+  settledBy: mongoose.Types.ObjectId;
+}
+
+/**
+ * How a customer paid for a rental
+ */
+export type RentalPaymentMethod = "cash" | "transfer" | "card";
+
+/**
+ * Payment received for a rental (embedded in a rental)
+ *
+ * reference holds the transfer slip or card approval number, or the invoice
+ * number when the payment settles a monthly invoice.
+ */
+export interface IRentalPayment {
+  amount: number;
+  method: RentalPaymentMethod;
+  paidAt: Date;
+  reference?: string;
+  note?: string;
+  receivedBy: mongoose.Types.ObjectId;
+}
+
+/**
+ * Price breakdown of a rented asset line (embedded in an asset line)
+ *
+ * days is the number of days charged (after the product's minimum rental
+ * days) and is covered by months × 30 + weeks × 7 + extraDays, which may run
+ * a few days past it when a longer rate is cheaper. unitPrice is the rounded
+ * price for one unit; the line's lineTotal is unitPrice × quantity.
+ */
+export interface IRentalLinePricing {
+  days: number;
+  months: number;
+  weeks: number;
+  extraDays: number;
+  dailyRate: number;
+  weeklyRate: number;
+  monthlyRate: number;
+  unitPrice: number;
+}
+
+/**
+ * Rented asset line (embedded in a rental)
+ *
+ * productName, dailyRate, and insuranceFee are snapshots of the product at
+ * booking time, so later product changes do not alter the agreement.
+ * lineTotal is this line's rental charge; the rental's totalAmount is the sum
+ * of its lines. Lines booked before tiered pricing have no pricing breakdown.
+ *
+ * returnedAt is set when the asset is checked back in; lines without it are
+ * still out with the customer. penaltyAmount holds this line's share of the
+ * overdue penalty, calculated from its own return date and daily rate.
+ *
+ * addedAt is set on lines that went out after the rental started (added to an
+ * active rental or swapped in); lines without it went out on the start date.
+ * A line's lineTotal covers only the days its unit was out. When a unit is
+ * swapped, its line is closed with returnedAt set to the swap date and
+ * replacedByAssetId, and the replacement line links back via replacesAssetId;
+ * both lines keep the swap reason.
+ */
+export interface IRentalAssetItem {
+  assetId: mongoose.Types.ObjectId;
+  productName: string;
+  quantity: number;
+  dailyRate: number;
+  insuranceFee: number;
+  lineTotal: number;
+  pricing?: IRentalLinePricing;
+  returnedAt?: Date;
+  returnCondition?: string;
+  inspection?: IAssetInspection;
+  penaltyAmount?: number;
+  addedAt?: Date;
+  replacesAssetId?: mongoose.Types.ObjectId;
+  replacedByAssetId?: mongoose.Types.ObjectId;
+  swapReason?: string;
+}
+
+/**
+ * Rental period extension (embedded in a rental)
+ *
+ * amount is the rental charge added by re-pricing the assets still out for the
+ * longer period (previousEndDate to newEndDate).
+ */
+export interface IRentalExtension {
+  previousEndDate: Date;
+  newEndDate: Date;
+  amount: number;
+  reason?: string;
+  extendedBy: mongoose.Types.ObjectId;
+  extendedAt: Date;
+}
+
 /**
  * Rental interface representing a rental agreement
  */
@@ -27,23 +202,31 @@ export interface IRental {
   _id: mongoose.Types.ObjectId;
   rentalNumber: string;
   customerName: string;
+  customerIdNumber?: string;
   customerPhone?: string;
   customerEmail?: string;
   customerAddress?: string;
-  assets: Array<{
-    assetId: mongoose.Types.ObjectId;
-    quantity: number;
-  }>;
+  assets: IRentalAssetItem[];
   startDate: Date;
   endDate: Date;
   expectedReturnDate?: Date;
   actualReturnDate?: Date;
+  extensions: IRentalExtension[];
   dailyRate: number;
   totalAmount: number;
   deposit: number;
   shippingCost: number;
+  billingCycle: RentalBillingCycle;
   penaltyRate?: number;
   penaltyAmount: number;
+  isOverdue: boolean;
+  overdueSince?: Date;
+  penaltyAccruedAt?: Date;
+  charges: IRentalCharge[];
+  depositSettlement?: IDepositSettlement;
+  invoicedAmount: number;
+  payments: IRentalPayment[];
+  paidAmount: number;
   status: RentalStatus;
   notes?: string;
   createdBy: mongoose.Types.ObjectId;
@@ -57,24 +240,352 @@ export interface IRental {
 
 type RentalModel = Model<IRental>;
 
+/**
+ * Asset inspection schema (embedded document)
+ */
+const assetInspectionSchema = new Schema<IAssetInspection>(
+  {
+    condition: {
+      type: String,
+      enum: ["ok", "dirty", "damaged", "lost"],
+      required: [true, "Condition is required"],
+    },
+    photoUrls: {
+      type: [String],
+      default: [],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Inspection note cannot exceed 500 characters"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Rental line pricing schema (embedded document)
+ */
+export const rentalLinePricingSchema = new Schema<IRentalLinePricing>(
+  {
+    days: {
+      type: Number,
+      required: [true, "Rental days is required"],
+      min: [1, "Rental days must be at least 1"],
+    },
+    months: {
+      type: Number,
+      required: [true, "Months is required"],
+      min: [0, "Months cannot be negative"],
+    },
+    weeks: {
+      type: Number,
+      required: [true, "Weeks is required"],
+      min: [0, "Weeks cannot be negative"],
+    },
+    extraDays: {
+      type: Number,
+      required: [true, "Extra days is required"],
+      min: [0, "Extra days cannot be negative"],
+    },
+    dailyRate: {
+      type: Number,
+      required: [true, "Daily rate is required"],
+      min: [0, "Daily rate cannot be negative"],
+    },
+    weeklyRate: {
+      type: Number,
+      required: [true, "Weekly rate is required"],
+      min: [0, "Weekly rate cannot be negative"],
+    },
+    monthlyRate: {
+      type: Number,
+      required: [true, "Monthly rate is required"],
+      min: [0, "Monthly rate cannot be negative"],
+    },
+    unitPrice: {
+      type: Number,
+      required: [true, "Unit price is required"],
+      min: [0, "Unit price cannot be negative"],
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Rental asset item schema (embedded document)
  */
-const rentalAssetItemSchema = new Schema<{
-  assetId: mongoose.Types.ObjectId;
-  quantity: number;
-}>(
+const rentalAssetItemSchema = new Schema<IRentalAssetItem>(
   {
     assetId: {
       type: Schema.Types.ObjectId,
       ref: "RentalAsset",
       required: [true, "Asset ID is required"],
     },
+    productName: {
+      type: String,
+      required: [true, "Product name is required"],
+      trim: true,
+    },
     quantity: {
       type: Number,
       required: [true, "Quantity is required"],
       min: [1, "Quantity must be at least 1"],
     },
+    dailyRate: {
+      type: Number,
+      required: [true, "Daily rate is required"],
+      min: [0, "Daily rate cannot be negative"],
+    },
+    insuranceFee: {
+      type: Number,
+      required: [true, "Insurance fee is required"],
+      min: [0, "Insurance fee cannot be negative"],
+      default: 0,
+    },
+    lineTotal: {
+      type: Number,
+      required: [true, "Line total is required"],
+      min: [0, "Line total cannot be negative"],
+    },
+    pricing: {
+      type: rentalLinePricingSchema,
+    },
+    returnedAt: {
+      type: Date,
+    },
+    returnCondition: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Return condition cannot exceed 500 characters"],
+    },
+    inspection: {
+      type: assetInspectionSchema,
+    },
+    penaltyAmount: {
+      type: Number,
+      min: [0, "Penalty amount cannot be negative"],
+    },
+    addedAt: {
+      type: Date,
+    },
+    replacesAssetId: {
+      type: Schema.Types.ObjectId,
+      ref: "RentalAsset",
+    },
+    replacedByAssetId: {
+      type: Schema.Types.ObjectId,
+      ref: "RentalAsset",
+    },
+    swapReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Swap reason cannot exceed 500 characters"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Rental extension schema (embedded document)
+ */
+const rentalExtensionSchema = new Schema<IRentalExtension>(
+  {
+    previousEndDate: {
+      type: Date,
+      required: [true, "Previous end date is required"],
+    },
+    newEndDate: {
+      type: Date,
+      required: [true, "New end date is required"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Extension amount is required"],
+      min: [0, "Extension amount cannot be negative"],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Extension reason cannot exceed 500 characters"],
+    },
+    extendedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Extended by user is required"],
+    },
+    extendedAt: {
+      type: Date,
+      required: [true, "Extended at is required"],
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Rental charge schema (embedded document)
+ */
+const rentalChargeSchema = new Schema<IRentalCharge>(
+  {
+    type: {
+      type: String,
+      enum: ["damage", "loss"],
+      required: [true, "Charge type is required"],
+    },
+    assetId: {
+      type: Schema.Types.ObjectId,
+      ref: "RentalAsset",
+    },
+    description: {
+      type: String,
+      required: [true, "Charge description is required"],
+      trim: true,
+      maxlength: [200, "Charge description cannot exceed 200 characters"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Charge amount is required"],
+      min: [0, "Charge amount cannot be negative"],
+    },
+    createdAt: {
+      type: Date,
+      required: [true, "Charge date is required"],
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Deposit refund schema (embedded document)
+ */
+const depositRefundSchema = new Schema<IDepositRefund>(
+  {
+    amount: {
+      type: Number,
+      required: [true, "Refund amount is required"],
+      min: [0, "Refund amount cannot be negative"],
+    },
+    method: {
+      type: String,
+      enum: ["cash", "transfer", "other"],
+      required: [true, "Refund method is required"],
+    },
+    refundedAt: {
+      type: Date,
+      required: [true, "Refund date is required"],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Refund note cannot exceed 500 characters"],
+    },
+    refundedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Refunded by user is required"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Rental payment schema (embedded document)
+ */
+const rentalPaymentSchema = new Schema<IRentalPayment>(
+  {
+    amount: {
+      type: Number,
+      required: [true, "Payment amount is required"],
+      min: [0, "Payment amount cannot be negative"],
+    },
+    method: {
+      type: String,
+      enum: ["cash", "transfer", "card"],
+      required: [true, "Payment method is required"],
+    },
+    paidAt: {
+      type: Date,
+      required: [true, "Payment date is required"],
+    },
+    reference: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Payment reference cannot exceed 100 characters"],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Payment note cannot exceed 500 characters"],
+    },
+    receivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Received by user is required"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Deposit settlement schema (embedded document)
+ */
+const depositSettlementSchema = new Schema<IDepositSettlement>(
+  {
+    depositAmount: {
+      type: Number,
+      required: [true, "Deposit amount is required"],
+      min: [0, "Deposit amount cannot be negative"],
+    },
+    penaltyAmount: {
+      type: Number,
+      required: [true, "Penalty amount is required"],
+      min: [0, "Penalty amount cannot be negative"],
+    },
+    chargesAmount: {
+      type: Number,
+      required: [true, "Charges amount is required"],
+      min: [0, "Charges amount cannot be negative"],
+    },
+    unpaidRentAmount: {
+      type: Number,
+      required: [true, "Unpaid rent amount is required"],
+      min: [0, "Unpaid rent amount cannot be negative"],
+    },
+    deductedAmount: {
+      type: Number,
+      required: [true, "Deducted amount is required"],
+      min: [0, "Deducted amount cannot be negative"],
+    },
+    refundableAmount: {
+      type: Number,
+      required: [true, "Refundable amount is required"],
+      min: [0, "Refundable amount cannot be negative"],
+    },
+    balanceDue: {
+      type: Number,
+      required: [true, "Balance due is required"],
+      min: [0, "Balance due cannot be negative"],
+    },
+    refunds: {
+      type: [depositRefundSchema],
+      default: [],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Settlement note cannot exceed 500 characters"],
+    },
+    settledAt: {
+      type: Date,
+      required: [true, "Settlement date is required"],
+    },
+    settledBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Settled by user is required"],
+    },
   },
   { _id: false }
 );
@@ -85,19 +596,30 @@ const rentalAssetItemSchema = new Schema<{
  * Fields:
  * - rentalNumber: Unique identifier (format: RENT-YYYYMMDD-NNNN)
  * - customerName: Customer's name (required, 1-200 chars)
+ * - customerIdNumber: Customer's national ID or passport number, printed on the contract (optional, max 30 chars)
  * - customerPhone: Customer's phone number (optional, max 20 chars)
  * - customerEmail: Customer's email (optional, validated format)
  * - customerAddress: Customer's address (optional, max 500 chars)
- * - assets: Array of rental asset IDs (required, at least 1)
+ * - assets: Array of rented asset lines with price snapshots and return info (required, at least 1)
  * - startDate: Rental start date (required)
  * - endDate: Rental end date (required)
  * - expectedReturnDate: Expected return date (optional)
- * - actualReturnDate: Actual return date (optional, set when completed)
- * - dailyRate: Daily rental rate (required, >= 0)
- * - totalAmount: Total rental amount (required, >= 0)
+ * - actualReturnDate: Actual return date (optional, set when the last asset is returned)
+ * - extensions: History of end date extensions (default: [])
+ * - dailyRate: Combined daily rate of all lines (required, >= 0)
+ * - totalAmount: Total rental amount, sum of line totals (required, >= 0)
  * - deposit: Deposit amount (required, >= 0, default: 0)
+ * - billingCycle: Billed once or by monthly invoices (required, default: "once")
  * - penaltyRate: Penalty multiplier for overdue days (optional, default: 1.5)
- * - penaltyAmount: Calculated penalty amount (default: 0)
+ * - penaltyAmount: Calculated penalty amount, accrued daily while overdue (default: 0)
+ * - isOverdue: Set by the overdue penalty job while an active rental is past its end date (default: false)
+ * - overdueSince: End date the rental went overdue from (optional)
+ * - penaltyAccruedAt: Last time the overdue penalty job updated penaltyAmount (optional)
+ * - charges: Damage/loss charges added at check-in (default: [])
+ * - depositSettlement: Deposit deductions and refunds (optional, set when settled)
+ * - invoicedAmount: Total of issued, non-void monthly invoices (default: 0)
+ * - payments: Payments received from the customer (default: [])
+ * - paidAmount: Sum of payments (default: 0)
  * - status: Rental status (required, default: "pending")
  * - notes: Additional notes (optional, max 1000 chars)
  * - createdBy: User who created the rental (required)
@@ -127,6 +649,11 @@ const rentalSchema = new Schema<IRental>(
       minlength: [1, "Customer name must be at least 1 character"],
       maxlength: [200, "Customer name cannot exceed 200 characters"],
     },
+    customerIdNumber: {
+      type: String,
+      trim: true,
+      maxlength: [30, "ID number cannot exceed 30 characters"],
+    },
     customerPhone: {
       type: String,
       trim: true,
@@ -177,6 +704,10 @@ const rentalSchema = new Schema<IRental>(
     actualReturnDate: {
       type: Date,
     },
+    extensions: {
+      type: [rentalExtensionSchema],
+      default: [],
+    },
 
     // ========================================================================
     // Pricing and Financials
@@ -204,6 +735,12 @@ const rentalSchema = new Schema<IRental>(
       min: [0, "Shipping cost cannot be negative"],
       default: 0,
     },
+    billingCycle: {
+      type: String,
+      enum: ["once", "monthly"],
+      required: [true, "Billing cycle is required"],
+      default: "once",
+    },
     penaltyRate: {
       type: Number,
       min: [0, "Penalty rate cannot be negative"],
@@ -214,6 +751,37 @@ const rentalSchema = new Schema<IRental>(
       min: [0, "Penalty amount cannot be negative"],
       default: 0,
     },
+    isOverdue: {
+      type: Boolean,
+      default: false,
+    },
+    overdueSince: {
+      type: Date,
+    },
+    penaltyAccruedAt: {
+      type: Date,
+    },
+    charges: {
+      type: [rentalChargeSchema],
+      default: [],
+    },
+    depositSettlement: {
+      type: depositSettlementSchema,
+    },
+    invoicedAmount: {
+      type: Number,
+      min: [0, "Invoiced amount cannot be negative"],
+      default: 0,
+    },
+    payments: {
+      type: [rentalPaymentSchema],
+      default: [],
+    },
+    paidAmount: {
+      type: Number,
+      min: [0, "Paid amount cannot be negative"],
+      default: 0,
+    },
 
     // ========================================================================
     // Status and Metadata
@@ -0,0 +1,227 @@
+/**
+ * Sale Return Model
+ *
+ * Mongoose model for goods returned from a completed sale.
+ * Each return carries its own credit note number, the returned quantity of
+ * each item, and how the credit was settled.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * How the credit of a return is settled
+ * - refund: Money paid back to the customer
+ */
+export type SaleReturnSettlement = "refund";
+
+/**
+ * Returned item (embedded in a return)
+ *
+ * unitPrice is the price on the sale; totalPrice is the returned units'
+ * share of the sale line after its promotions, before the sale's discount
+ * and tax are apportioned.
+ */
+export interface ISaleReturnItem {
+  productId: mongoose.Types.ObjectId;
+  productName: string;
+  sku: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+/**
+ * Sale return interface representing one credit note
+ *
+ * creditAmount is what the customer is owed: the returned items' value with
+ * the sale's discount and tax apportioned.
+ */
+export interface ISaleReturn {
+  _id: mongoose.Types.ObjectId;
+  creditNoteNumber: string;
+  saleId: mongoose.Types.ObjectId;
+  billNumber: string;
+  customerName: string;
+  items: ISaleReturnItem[];
+  subtotal: number;
+  creditAmount: number;
+  reason: string;
+  settlement: SaleReturnSettlement;
+  refundMethod?: string;
+  notes?: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type SaleReturnModel = Model<ISaleReturn>;
+
+/**
+ * Returned item schema (embedded document)
+ */
+const saleReturnItemSchema = new Schema<ISaleReturnItem>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: "Product",
+      required: [true, "Product ID is required"],
+    },
+    productName: {
+      type: String,
+      required: [true, "Product name is required"],
+      trim: true,
+    },
+    sku: {
+      type: String,
+      required: [true, "SKU is required"],
+      trim: true,
+      uppercase: true,
+    },
+    quantity: {
+      type: Number,
+      required: [true, "Quantity is required"],
+      min: [1, "Quantity must be at least 1"],
+    },
+    unitPrice: {
+      type: Number,
+      required: [true, "Unit price is required"],
+      min: [0, "Unit price cannot be negative"],
+    },
+    totalPrice: {
+      type: Number,
+      required: [true, "Total price is required"],
+      min: [0, "Total price cannot be negative"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Sale return schema with validation rules
+ *
+ * Fields:
+ * - creditNoteNumber: Unique credit note identifier (format: CN-YYYYMMDD-NNNN)
+ * - saleId: Sale the goods were returned from (required)
+ * - billNumber: Bill number of the sale, for display (required)
+ * - customerName: Customer of the sale (required)
+ * - items: Returned items (required, at least 1)
+ * - subtotal: Sum of returned item totals (required, >= 0)
+ * - creditAmount: Amount credited to the customer (required, >= 0)
+ * - reason: Why the goods were returned (required, max 500 chars)
+ * - settlement: "refund" (required)
+ * - refundMethod: How a refund was paid (optional)
+ * - notes: Additional notes (optional, max 1000 chars)
+ * - createdBy: User who recorded the return (required)
+ */
+const saleReturnSchema = new Schema<ISaleReturn>(
+  {
+    creditNoteNumber: {
+      type: String,
+      required: [true, "Credit note number is required"],
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+    saleId: {
+      type: Schema.Types.ObjectId,
+      ref: "Sale",
+      required: [true, "Sale ID is required"],
+    },
+    billNumber: {
+      type: String,
+      required: [true, "Bill number is required"],
+      trim: true,
+      uppercase: true,
+    },
+    customerName: {
+      type: String,
+      required: [true, "Customer name is required"],
+      trim: true,
+    },
+
+    // ========================================================================
+    // Returned Items
+    // ========================================================================
+
+    items: {
+      type: [saleReturnItemSchema],
+      required: [true, "At least one item is required"],
+      validate: {
+        validator: (v: ISaleReturnItem[]) => v.length > 0,
+        message: "At least one item is required",
+      },
+    },
+    subtotal: {
+      type: Number,
+      required: [true, "Subtotal is required"],
+      min: [0, "Subtotal cannot be negative"],
+    },
+    creditAmount: {
+      type: Number,
+      required: [true, "Credit amount is required"],
+      min: [0, "Credit amount cannot be negative"],
+    },
+    reason: {
+      type: String,
+      required: [true, "Reason is required"],
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters"],
+    },
+
+    // ========================================================================
+    // Settlement
+    // ========================================================================
+
+    settlement: {
+      type: String,
+      enum: ["refund"],
+      required: [true, "Settlement is required"],
+    },
+    refundMethod: {
+      type: String,
+      trim: true,
+      enum: ["cash", "card", "transfer", "other"],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Notes cannot exceed 1000 characters"],
+    },
+
+    // ========================================================================
+    // Audit Fields
+    // ========================================================================
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Created by user is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ========================================================================
+// Indexes
+// ========================================================================
+
+// Note: creditNoteNumber already has unique: true in schema definition
+saleReturnSchema.index({ saleId: 1, createdAt: 1 });
+saleReturnSchema.index({ createdAt: -1 });
+
+// Prevent model recompilation during hot reload
+const SaleReturn =
+  (mongoose.models.SaleReturn as SaleReturnModel) ||
+  mongoose.model<ISaleReturn>("SaleReturn", saleReturnSchema);
+
+export default SaleReturn;
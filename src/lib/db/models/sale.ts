@@ -6,6 +6,8 @@
  */
 
 import mongoose, { Schema, Model } from "mongoose";
+import type { VatMode } from "@/lib/vat";
+import type { PromotionType } from "./promotion";
 
 // ============================================================================
 // Type Definitions
@@ -21,6 +23,13 @@ export type SaleStatus = "pending" | "completed" | "cancelled";
 
 /**
  * Sale item interface for individual products in a sale
+ *
+ * returnedQuantity counts the units taken back through sale returns.
+ * vatAmount is the line's share of the sale's VAT. listPrice is the price
+ * from the price list or Product.price when the sale was priced (absent if
+ * the product had none); priceOverrideReason is set when unitPrice was
+ * overridden by hand. promotionDiscount is what the applied promotions took
+ * off totalPrice, one entry per promotion in appliedPromotions.
  */
 export interface ISaleItem {
   productId: mongoose.Types.ObjectId;
@@ -28,11 +37,66 @@ export interface ISaleItem {
   sku: string;
   quantity: number;
   unitPrice: number;
+  listPrice?: number;
+  priceOverrideReason?: string;
   totalPrice: number;
+  promotionDiscount: number;
+  appliedPromotions: ISaleItemPromotion[];
+  vatAmount: number;
+  returnedQuantity: number;
+}
+
+/**
+ * Promotion applied to a sale item (embedded in a sale item)
+ *
+ * name and type are copied from the promotion so the bill and reports still
+ * read correctly after it is changed or deleted.
+ */
+export interface ISaleItemPromotion {
+  promotionId: mongoose.Types.ObjectId;
+  name: string;
+  type: PromotionType;
+  couponCode?: string;
+  discount: number;
+}
+
+/**
+ * How a customer paid for a sale
+ */
+export type SalePaymentMethod = "cash" | "card" | "transfer" | "other";
+
+/**
+ * Payment status derived from a sale's payments ledger
+ * - pending: Nothing paid yet
+ * - partial: Some but not all of the total paid
+ * - paid: Total paid in full
+ */
+export type SalePaymentStatus = "pending" | "paid" | "partial";
+
+/**
+ * Payment received for a sale (embedded in a sale)
+ *
+ * A sale can be paid in several payments with different methods (split
+ * tenders). reference holds the transfer slip or card approval number.
+ */
+export interface ISalePayment {
+  amount: number;
+  method: SalePaymentMethod;
+  paidAt: Date;
+  reference?: string;
+  note?: string;
+  receivedBy: mongoose.Types.ObjectId;
 }
 
 /**
  * Sale interface representing a sales transaction
+ *
+ * paidAmount and paymentStatus are derived from payments and kept in sync
+ * by the sale service; they are stored so sales can be filtered by them.
+ * tax is the VAT worked out from vatMode and vatRate, never typed in;
+ * taxableAmount is the value before VAT. subtotal is the items before any
+ * discount; promotionDiscount totals the items' promotion discounts and
+ * discount is the manual discount on the bill.
  */
 export interface ISale {
   _id: mongoose.Types.ObjectId;
@@ -41,14 +105,23 @@ export interface ISale {
   customerPhone?: string;
   customerEmail?: string;
   customerAddress?: string;
+  customerTaxId?: string;
+  customerBranchCode?: string;
   items: ISaleItem[];
   subtotal: number;
+  promotionDiscount: number;
+  couponCode?: string;
   discount: number;
+  vatMode: VatMode;
+  vatRate: number;
+  taxableAmount: number;
   tax: number;
   totalAmount: number;
+  returnedAmount: number;
   deposit: number;
   paymentMethod?: string;
-  paymentStatus: "pending" | "paid" | "partial";
+  payments: ISalePayment[];
+  paymentStatus: SalePaymentStatus;
   paidAmount: number;
   status: SaleStatus;
   notes?: string;
@@ -63,6 +136,40 @@ export interface ISale {
 
 type SaleModel = Model<ISale>;
 
+/**
+ * Sale item promotion schema (embedded document)
+ */
+const saleItemPromotionSchema = new Schema<ISaleItemPromotion>(
+  {
+    promotionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Promotion",
+      required: [true, "Promotion ID is required"],
+    },
+    name: {
+      type: String,
+      required: [true, "Promotion name is required"],
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: ["percentOff", "amountOff", "buyXGetY", "quantityBreak"],
+      required: [true, "Promotion type is required"],
+    },
+    couponCode: {
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
+    discount: {
+      type: Number,
+      required: [true, "Promotion discount is required"],
+      min: [0, "Promotion discount cannot be negative"],
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Sale item schema (embedded document)
  */
@@ -94,11 +201,77 @@ const saleItemSchema = new Schema<ISaleItem>(
       required: [true, "Unit price is required"],
       min: [0, "Unit price cannot be negative"],
     },
+    listPrice: {
+      type: Number,
+      min: [0, "List price cannot be negative"],
+    },
+    priceOverrideReason: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Price override reason cannot exceed 200 characters"],
+    },
     totalPrice: {
       type: Number,
       required: [true, "Total price is required"],
       min: [0, "Total price cannot be negative"],
     },
+    promotionDiscount: {
+      type: Number,
+      min: [0, "Promotion discount cannot be negative"],
+      default: 0,
+    },
+    appliedPromotions: {
+      type: [saleItemPromotionSchema],
+      default: [],
+    },
+    vatAmount: {
+      type: Number,
+      min: [0, "VAT amount cannot be negative"],
+      default: 0,
+    },
+    returnedQuantity: {
+      type: Number,
+      min: [0, "Returned quantity cannot be negative"],
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Sale payment schema (embedded document)
+ */
+const salePaymentSchema = new Schema<ISalePayment>(
+  {
+    amount: {
+      type: Number,
+      required: [true, "Payment amount is required"],
+      min: [0, "Payment amount cannot be negative"],
+    },
+    method: {
+      type: String,
+      enum: ["cash", "card", "transfer", "other"],
+      required: [true, "Payment method is required"],
+    },
+    paidAt: {
+      type: Date,
+      required: [true, "Payment date is required"],
+    },
+    reference: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Payment reference cannot exceed 100 characters"],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Payment note cannot exceed 500 characters"],
+    },
+    receivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Received by user is required"],
+    },
   },
   { _id: false }
 );
@@ -112,14 +285,23 @@ const saleItemSchema = new Schema<ISaleItem>(
  * - customerPhone: Customer's phone number (optional, max 20 chars)
  * - customerEmail: Customer's email (optional, validated format)
  * - customerAddress: Customer's address (optional, max 500 chars)
+ * - customerTaxId: Customer's 13-digit taxpayer ID, for full tax invoices (optional)
+ * - customerBranchCode: Customer's 5-digit branch code, "00000" for head office (optional)
  * - items: Array of sale items (required, at least 1)
  * - subtotal: Subtotal before discount/tax (required, >= 0)
+ * - promotionDiscount: Total taken off by promotions (required, >= 0, default: 0)
+ * - couponCode: Coupon code entered on the sale (optional)
  * - discount: Discount amount (required, >= 0, default: 0)
- * - tax: Tax amount (required, >= 0, default: 0)
- * - totalAmount: Total amount after discount and tax (required, >= 0)
- * - paymentMethod: Payment method (optional)
- * - paymentStatus: Payment status (required, default: "pending")
- * - paidAmount: Amount paid (required, >= 0, default: 0)
+ * - vatMode: How VAT is charged (required, default: "none")
+ * - vatRate: VAT rate in percent (required, default: 0)
+ * - taxableAmount: Value before VAT, after discount (required, >= 0)
+ * - tax: VAT amount (required, >= 0, default: 0)
+ * - totalAmount: Total amount after discount, including VAT (required, >= 0)
+ * - returnedAmount: Total credited through sale returns (required, >= 0, default: 0)
+ * - paymentMethod: Method of the payment taken when the sale was created (optional)
+ * - payments: Payments received from the customer (default: [])
+ * - paymentStatus: Derived from payments (required, default: "pending")
+ * - paidAmount: Sum of payments (required, >= 0, default: 0)
  * - status: Sale status (required, default: "pending")
  * - notes: Additional notes (optional, max 1000 chars)
  * - createdBy: User who created the sale (required)
@@ -165,6 +347,16 @@ const saleSchema = new Schema<ISale>(
       trim: true,
       maxlength: [500, "Address cannot exceed 500 characters"],
     },
+    customerTaxId: {
+      type: String,
+      trim: true,
+      match: [/^\d{13}$/, "Tax ID must be 13 digits"],
+    },
+    customerBranchCode: {
+      type: String,
+      trim: true,
+      match: [/^\d{5}$/, "Branch code must be 5 digits"],
+    },
 
     // ========================================================================
     // Sale Items
@@ -188,12 +380,41 @@ const saleSchema = new Schema<ISale>(
       required: [true, "Subtotal is required"],
       min: [0, "Subtotal cannot be negative"],
     },
+    promotionDiscount: {
+      type: Number,
+      required: [true, "Promotion discount is required"],
+      min: [0, "Promotion discount cannot be negative"],
+      default: 0,
+    },
+    couponCode: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      maxlength: [50, "Coupon code cannot exceed 50 characters"],
+    },
     discount: {
       type: Number,
       required: [true, "Discount is required"],
       min: [0, "Discount cannot be negative"],
       default: 0,
     },
+    vatMode: {
+      type: String,
+      enum: ["none", "inclusive", "exclusive"],
+      required: [true, "VAT mode is required"],
+      default: "none",
+    },
+    vatRate: {
+      type: Number,
+      required: [true, "VAT rate is required"],
+      min: [0, "VAT rate cannot be negative"],
+      default: 0,
+    },
+    taxableAmount: {
+      type: Number,
+      required: [true, "Taxable amount is required"],
+      min: [0, "Taxable amount cannot be negative"],
+    },
     tax: {
       type: Number,
       required: [true, "Tax is required"],
@@ -205,6 +426,12 @@ const saleSchema = new Schema<ISale>(
       required: [true, "Total amount is required"],
       min: [0, "Total amount cannot be negative"],
     },
+    returnedAmount: {
+      type: Number,
+      required: [true, "Returned amount is required"],
+      min: [0, "Returned amount cannot be negative"],
+      default: 0,
+    },
     deposit: {
       type: Number,
       required: [true, "Deposit is required"],
@@ -216,6 +443,10 @@ const saleSchema = new Schema<ISale>(
       trim: true,
       enum: ["cash", "card", "transfer", "other"],
     },
+    payments: {
+      type: [salePaymentSchema],
+      default: [],
+    },
     paymentStatus: {
       type: String,
       enum: ["pending", "paid", "partial"],
@@ -269,6 +500,8 @@ saleSchema.index({ createdAt: -1 });
 saleSchema.index({ customerName: 1 });
 saleSchema.index({ status: 1 });
 saleSchema.index({ paymentStatus: 1 });
+saleSchema.index({ paymentStatus: 1, createdAt: 1 });
+saleSchema.index({ "items.appliedPromotions.promotionId": 1 });
 
 // Prevent model recompilation during hot reload
 const Sale = (mongoose.models.Sale as SaleModel) || mongoose.model<ISale>("Sale", saleSchema);
@@ -0,0 +1,308 @@
+/**
+ * Tax Invoice Model
+ *
+ * Mongoose model for VAT tax invoices (ใบกำกับภาษี) issued for sales and
+ * rental invoices. Tax invoices have their own sequential number series,
+ * separate from bill and invoice numbers, and keep a snapshot of the seller,
+ * the buyer, and the amounts as printed so a reprint always matches the
+ * original.
+ */
+
+import mongoose, { Schema, Model } from "mongoose";
+import type { VatMode } from "@/lib/vat";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Tax invoice kind
+ * - full: Full tax invoice with the buyer's name, address and tax ID
+ * - abbreviated: Abbreviated tax invoice for retail customers, prices include VAT
+ */
+export type TaxInvoiceKind = "full" | "abbreviated";
+
+/**
+ * What a tax invoice was issued for
+ */
+export type TaxInvoiceSourceType = "sale" | "rentalInvoice";
+
+/**
+ * Seller or buyer details as printed on a tax invoice
+ *
+ * branchCode is the 5-digit Revenue Department branch number; "00000" is
+ * the head office.
+ */
+export interface ITaxInvoiceParty {
+  name: string;
+  address?: string;
+  taxId?: string;
+  branchCode?: string;
+}
+
+/**
+ * Tax invoice line (embedded in a tax invoice)
+ *
+ * amount is quantity × unitPrice as priced on the source; vatAmount is the
+ * line's share of the invoice VAT.
+ */
+export interface ITaxInvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  vatAmount: number;
+}
+
+/**
+ * Tax invoice interface representing one issued tax invoice
+ *
+ * taxableAmount is the value before VAT; totalAmount is taxableAmount plus
+ * vatAmount.
+ */
+export interface ITaxInvoice {
+  _id: mongoose.Types.ObjectId;
+  taxInvoiceNumber: string;
+  kind: TaxInvoiceKind;
+  sourceType: TaxInvoiceSourceType;
+  sourceId: mongoose.Types.ObjectId;
+  sourceNumber: string;
+  seller: ITaxInvoiceParty;
+  buyer: ITaxInvoiceParty;
+  lines: ITaxInvoiceLine[];
+  vatMode: Exclude<VatMode, "none">;
+  vatRate: number;
+  subtotal: number;
+  discount: number;
+  taxableAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+  issuedAt: Date;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Mongoose Schema Definition
+// ============================================================================
+
+type TaxInvoiceModel = Model<ITaxInvoice>;
+
+/**
+ * Seller or buyer schema (embedded document)
+ */
+const taxInvoicePartySchema = new Schema<ITaxInvoiceParty>(
+  {
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+      maxlength: [200, "Name cannot exceed 200 characters"],
+    },
+    address: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Address cannot exceed 500 characters"],
+    },
+    taxId: {
+      type: String,
+      trim: true,
+      match: [/^\d{13}$/, "Tax ID must be 13 digits"],
+    },
+    branchCode: {
+      type: String,
+      trim: true,
+      match: [/^\d{5}$/, "Branch code must be 5 digits"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Tax invoice line schema (embedded document)
+ */
+const taxInvoiceLineSchema = new Schema<ITaxInvoiceLine>(
+  {
+    description: {
+      type: String,
+      required: [true, "Description is required"],
+      trim: true,
+    },
+    quantity: {
+      type: Number,
+      required: [true, "Quantity is required"],
+      min: [0, "Quantity cannot be negative"],
+    },
+    unitPrice: {
+      type: Number,
+      required: [true, "Unit price is required"],
+      min: [0, "Unit price cannot be negative"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0, "Amount cannot be negative"],
+    },
+    vatAmount: {
+      type: Number,
+      required: [true, "VAT amount is required"],
+      min: [0, "VAT amount cannot be negative"],
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Tax invoice schema with validation rules
+ *
+ * Fields:
+ * - taxInvoiceNumber: Unique tax invoice number (format: TAX-YYYYMM-NNNNN)
+ * - kind: "full" or "abbreviated" (required)
+ * - sourceType: "sale" or "rentalInvoice" (required)
+ * - sourceId: Sale or rental invoice the tax invoice was issued for (required)
+ * - sourceNumber: Bill or invoice number of the source, for display (required)
+ * - seller: Seller snapshot (required)
+ * - buyer: Buyer snapshot (required)
+ * - lines: Invoiced lines (required, at least 1)
+ * - vatMode: "inclusive" or "exclusive" (required)
+ * - vatRate: VAT rate in percent (required, >= 0)
+ * - subtotal: Sum of line amounts (required, >= 0)
+ * - discount: Discount on the whole invoice (required, >= 0, default: 0)
+ * - taxableAmount: Value before VAT (required, >= 0)
+ * - vatAmount: VAT charged (required, >= 0)
+ * - totalAmount: Taxable amount plus VAT (required, >= 0)
+ * - issuedAt: Date of the tax invoice (required)
+ * - createdBy: User who issued the tax invoice (required)
+ */
+const taxInvoiceSchema = new Schema<ITaxInvoice>(
+  {
+    taxInvoiceNumber: {
+      type: String,
+      required: [true, "Tax invoice number is required"],
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+    kind: {
+      type: String,
+      enum: ["full", "abbreviated"],
+      required: [true, "Tax invoice kind is required"],
+    },
+
+    // ========================================================================
+    // Source
+    // ========================================================================
+
+    sourceType: {
+      type: String,
+      enum: ["sale", "rentalInvoice"],
+      required: [true, "Source type is required"],
+    },
+    sourceId: {
+      type: Schema.Types.ObjectId,
+      required: [true, "Source ID is required"],
+    },
+    sourceNumber: {
+      type: String,
+      required: [true, "Source number is required"],
+      trim: true,
+      uppercase: true,
+    },
+
+    // ========================================================================
+    // Seller and Buyer
+    // ========================================================================
+
+    seller: {
+      type: taxInvoicePartySchema,
+      required: [true, "Seller is required"],
+    },
+    buyer: {
+      type: taxInvoicePartySchema,
+      required: [true, "Buyer is required"],
+    },
+
+    // ========================================================================
+    // Lines and Amounts
+    // ========================================================================
+
+    lines: {
+      type: [taxInvoiceLineSchema],
+      required: [true, "At least one line is required"],
+      validate: {
+        validator: (v: ITaxInvoiceLine[]) => v.length > 0,
+        message: "At least one line is required",
+      },
+    },
+    vatMode: {
+      type: String,
+      enum: ["inclusive", "exclusive"],
+      required: [true, "VAT mode is required"],
+    },
+    vatRate: {
+      type: Number,
+      required: [true, "VAT rate is required"],
+      min: [0, "VAT rate cannot be negative"],
+    },
+    subtotal: {
+      type: Number,
+      required: [true, "Subtotal is required"],
+      min: [0, "Subtotal cannot be negative"],
+    },
+    discount: {
+      type: Number,
+      required: [true, "Discount is required"],
+      min: [0, "Discount cannot be negative"],
+      default: 0,
+    },
+    taxableAmount: {
+      type: Number,
+      required: [true, "Taxable amount is required"],
+      min: [0, "Taxable amount cannot be negative"],
+    },
+    vatAmount: {
+      type: Number,
+      required: [true, "VAT amount is required"],
+      min: [0, "VAT amount cannot be negative"],
+    },
+    totalAmount: {
+      type: Number,
+      required: [true, "Total amount is required"],
+      min: [0, "Total amount cannot be negative"],
+    },
+
+    // ========================================================================
+    // Audit Fields
+    // ========================================================================
+
+    issuedAt: {
+      type: Date,
+      required: [true, "Issue date is required"],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Created by user is required"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ========================================================================
+// Indexes
+// ========================================================================
+
+// Note: taxInvoiceNumber already has unique: true in schema definition
+// One tax invoice per sale or rental invoice
+taxInvoiceSchema.index({ sourceType: 1, sourceId: 1 }, { unique: true });
+taxInvoiceSchema.index({ issuedAt: -1 });
+
+// Prevent model recompilation during hot reload
+const TaxInvoice =
+  (mongoose.models.TaxInvoice as TaxInvoiceModel) ||
+  mongoose.model<ITaxInvoice>("TaxInvoice", taxInvoiceSchema);
+
+export default TaxInvoice;
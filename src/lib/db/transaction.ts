@@ -0,0 +1,90 @@
+import mongoose, { type ClientSession } from "mongoose";
+import { connectToDatabase } from "./connect";
+
+/**
+ * Times a transaction is attempted before a transient error is given up on
+ */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Delay before the next attempt grows with each retry
+ */
+const RETRY_DELAY_MS = 50;
+
+interface TransactionOptions {
+  maxAttempts?: number;
+}
+
+function hasErrorLabel(error: unknown, label: string): boolean {
+  return error instanceof mongoose.mongo.MongoError && error.hasErrorLabel(label);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Commit the session's transaction, retrying while the outcome is unknown
+ * (e.g. the connection dropped after the commit was sent)
+ */
+async function commitWithRetry(session: ClientSession, maxAttempts: number): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await session.commitTransaction();
+      return;
+    } catch (error) {
+      if (attempt < maxAttempts && hasErrorLabel(error, "UnknownTransactionCommitResult")) {
+        await delay(RETRY_DELAY_MS * attempt);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Run work in a MongoDB transaction
+ *
+ * Every read and write in `work` must pass the session, or it runs outside
+ * the transaction. If `work` throws, nothing it wrote is kept. Transient
+ * errors (write conflicts, failovers) re-run `work` from the start, so it
+ * must not have side effects outside the database; do those after this
+ * resolves.
+ *
+ * Transactions need a replica set; a standalone server rejects them.
+ *
+ * @param work - Operations to run, given the transaction's session
+ * @param options - maxAttempts before a transient error is rethrown (default 3)
+ * @returns What `work` returned, once committed
+ */
+export async function withTransaction<T>(
+  work: (session: ClientSession) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  await connectToDatabase();
+
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const session = await mongoose.startSession();
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      session.startTransaction();
+      try {
+        const result = await work(session);
+        await commitWithRetry(session, maxAttempts);
+        return result;
+      } catch (error) {
+        if (session.inTransaction()) {
+          await session.abortTransaction();
+        }
+        if (attempt < maxAttempts && hasErrorLabel(error, "TransientTransactionError")) {
+          await delay(RETRY_DELAY_MS * attempt);
+          continue;
+        }
+        throw error;
+      }
+    }
+  } finally {
+    await session.endSession();
+  }
+}
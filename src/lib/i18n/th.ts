@@ -41,7 +41,15 @@ export const th = {
     buyStock: "สต็อกซื้อ",
     rentalAssets: "ทรัพย์สินเช่า",
     rentals: "การเช่า",
+    rentalCalendar: "ปฏิทินการเช่า",
+    rentalReports: "รายงานการเช่า",
+    rentalQuotes: "ใบเสนอราคาเช่า",
+    rentalTasks: "งานจัดส่ง/รับคืน",
+    rentalContractTerms: "เงื่อนไขสัญญาเช่า",
     sales: "การขาย",
+    priceLists: "รายการราคา",
+    promotions: "โปรโมชั่น",
+    saleReceivables: "ลูกหนี้ค้างชำระ",
     activityLogs: "บันทึกกิจกรรม",
     users: "ผู้ใช้",
     settings: "การตั้งค่า",
@@ -62,7 +70,15 @@ export const th = {
     stockTypeBuy: "ซื้อ",
     stockTypeRental: "เช่า",
     dailyRentalRate: "ค่าเช่า/วัน",
+    weeklyRentalRate: "ค่าเช่า/สัปดาห์",
     monthlyRentalRate: "ค่าเช่า/เดือน",
+    minRentalDays: "จำนวนวันเช่าขั้นต่ำ",
+    rentalRoundingMode: "การปัดเศษค่าเช่า",
+    rentalRoundingStep: "ปัดเป็นทวีคูณของ",
+    roundingNone: "ไม่ปัดเศษ",
+    roundingUp: "ปัดขึ้น",
+    roundingDown: "ปัดลง",
+    roundingNearest: "ปัดไปค่าที่ใกล้ที่สุด",
     insuranceFee: "ค่าประกันสินค้า",
     replacementPrice: "ราคากรณีสูญหาย",
     createdBy: "สร้างโดย",
@@ -115,6 +131,7 @@ export const th = {
     edit: "แก้ไขการเช่า",
     rentalNumber: "เลขที่การเช่า",
     customerName: "ชื่อลูกค้า",
+    customerIdNumber: "เลขบัตรประชาชน/หนังสือเดินทาง",
     customerPhone: "เบอร์โทรศัพท์",
     customerEmail: "อีเมล",
     customerAddress: "ที่อยู่",
@@ -139,6 +156,265 @@ export const th = {
     cancel: "ยกเลิก",
     cancelReason: "เหตุผลในการยกเลิก",
     cancelConfirm: "คุณแน่ใจหรือไม่ที่จะยกเลิกการเช่านี้?",
+    availableForPeriodHint: "แสดงเฉพาะทรัพย์สินที่ว่างตลอดช่วงวันที่เลือก",
+    returnAssets: "คืนทรัพย์สิน",
+    returnAssetsHint: "เลือกทรัพย์สินที่ลูกค้านำมาคืน การเช่าจะเสร็จสิ้นเมื่อคืนครบทุกรายการ",
+    returnDate: "วันที่คืน",
+    returnCondition: "สภาพทรัพย์สิน",
+    returned: "คืนแล้ว",
+    notReturned: "ยังไม่คืน",
+    conditionOk: "สภาพปกติ",
+    conditionDirty: "สกปรก (ส่งทำความสะอาด)",
+    conditionDamaged: "ชำรุดเสียหาย",
+    conditionLost: "สูญหาย",
+    chargeAmountPlaceholder: "ค่าเสียหาย (ว่าง = ใช้ราคาจากสินค้า)",
+    photoUrlsPlaceholder: "URL รูปภาพ (บรรทัดละ 1 รูป)",
+    charges: "ค่าเสียหาย/สูญหาย",
+    depositSettlement: "สรุปเงินมัดจำ",
+    settleDeposit: "สรุปเงินมัดจำ",
+    unpaidRent: "ค่าเช่าค้างชำระ",
+    refundableAmount: "เงินมัดจำที่ต้องคืน",
+    balanceDue: "ยอดที่ลูกค้าต้องชำระเพิ่ม",
+    refunded: "คืนเงินแล้ว",
+    remainingRefund: "คงเหลือที่ต้องคืน",
+    refundAmount: "จำนวนเงินคืน",
+    refundDeposit: "บันทึกการคืนเงิน",
+    refundMethodCash: "เงินสด",
+    refundMethodTransfer: "โอนเงิน",
+    refundMethodOther: "อื่นๆ",
+    depositsHeld: "เงินมัดจำที่ถือไว้",
+    depositsHeldRentals: "จำนวนการเช่าที่ถือเงินมัดจำ",
+    priceBreakdown: "รายละเอียดค่าเช่า",
+    rentalTotal: "ค่าเช่ารวม",
+    months: "เดือน",
+    weeks: "สัปดาห์",
+    days: "วัน",
+    extend: "ขยายเวลา",
+    newEndDate: "วันที่สิ้นสุดใหม่",
+    extendReason: "เหตุผลในการขยายเวลา",
+    extensions: "ประวัติการขยายเวลา",
+    overdue: "เกินกำหนด",
+    runOverdueJob: "คำนวณค่าปรับเกินกำหนด",
+    overdueJobDone: "คำนวณค่าปรับเกินกำหนดเสร็จแล้ว",
+    overdueRentalsFound: "การเช่าเกินกำหนด",
+    penaltyAccrued: "ค่าปรับที่เพิ่มขึ้น",
+    billingCycle: "รูปแบบการเรียกเก็บ",
+    billingCycleOnce: "เรียกเก็บครั้งเดียว",
+    billingCycleMonthly: "สัญญาระยะยาว (ใบแจ้งหนี้รายเดือน)",
+    billingCycleMonthlyHint:
+      "ออกใบแจ้งหนี้ทุกสิ้นเดือนจนกว่าจะคืนทรัพย์สิน เดือนแรกและเดือนสุดท้ายคิดตามจำนวนวัน ไม่คิดค่าปรับเกินกำหนด",
+    invoices: "ใบแจ้งหนี้รายเดือน",
+    invoicePeriod: "รอบบิล",
+    dueDate: "ครบกำหนดชำระ",
+    prorated: "คิดตามจำนวนวัน",
+    invoiceStatusUnpaid: "ยังไม่ชำระ",
+    invoiceStatusPaid: "ชำระแล้ว",
+    invoiceStatusVoid: "ยกเลิก",
+    invoiceOverdue: "เกินกำหนดชำระ",
+    markInvoicePaid: "บันทึกการชำระ",
+    voidInvoice: "ยกเลิกใบแจ้งหนี้",
+    voidInvoiceReason: "เหตุผลในการยกเลิกใบแจ้งหนี้",
+    generateInvoices: "ออกใบแจ้งหนี้ที่ถึงรอบ",
+    noInvoices: "ยังไม่มีใบแจ้งหนี้ ใบแรกจะออกเมื่อสิ้นเดือน",
+    totalInvoiced: "ยอดแจ้งหนี้รวม",
+    totalPaid: "ชำระแล้ว",
+    outstandingBalance: "ยอดค้างชำระ",
+    payments: "การชำระเงิน",
+    amountDue: "ยอดที่ต้องชำระ (ไม่รวมเงินมัดจำ)",
+    noPayments: "ยังไม่มีการชำระเงิน",
+    recordPayment: "บันทึกการชำระเงิน",
+    paymentAmount: "จำนวนเงิน",
+    paymentMethod: "ช่องทางการชำระ",
+    paymentMethodCash: "เงินสด",
+    paymentMethodTransfer: "โอนเงิน",
+    paymentMethodCard: "บัตร",
+    paymentReference: "เลขอ้างอิง",
+    paymentStatusUnpaid: "ยังไม่ชำระ",
+    paymentStatusPartial: "ชำระบางส่วน",
+    paymentStatusPaid: "ชำระครบ",
+    depositDeducted: "หักจากเงินมัดจำ",
+    contract: "สัญญาเช่า",
+    outstandingOnly: "ค้างชำระ",
+    assetHistory: "ประวัติทรัพย์สินในการเช่า",
+    stillOut: "ยังอยู่กับลูกค้า",
+    replaces: "แทน",
+    replacedBy: "เปลี่ยนเป็น",
+    swapAsset: "เปลี่ยนทรัพย์สิน",
+    addAssets: "เพิ่มทรัพย์สิน",
+    swapFrom: "ทรัพย์สินที่นำกลับ",
+    swapTo: "ทรัพย์สินที่นำไปแทน",
+    assetToAdd: "ทรัพย์สินที่เพิ่ม",
+    assetChangeDate: "วันที่เปลี่ยนแปลง",
+    swapReason: "เหตุผลการเปลี่ยน",
+    swappedAssetStatus: "สถานะทรัพย์สินที่นำกลับ",
+    swappedToMaintenance: "ส่งซ่อมบำรุง",
+    swappedToAvailable: "พร้อมให้เช่า",
+    assetChangeHint: "ค่าเช่าของแต่ละชิ้นคิดตามจำนวนวันที่อยู่กับลูกค้า",
+  },
+
+  // Rental Notifications
+  rentalNotification: {
+    title: "การแจ้งเตือนลูกค้า",
+    runJob: "ส่งแจ้งเตือนการคืน",
+    jobDone: "ส่งแจ้งเตือนการคืนเสร็จแล้ว",
+    messagesSent: "ส่งข้อความ",
+    noNotifications: "ยังไม่มีการแจ้งเตือน",
+    sendNow: "ส่งแจ้งเตือนตอนนี้",
+    channel: "ช่องทาง",
+    channelSms: "SMS",
+    channelEmail: "อีเมล",
+    channelLine: "LINE",
+    kindReminder: "เตือนครบกำหนดคืน",
+    kindOverdue: "แจ้งเกินกำหนดคืน",
+    statusSent: "ส่งแล้ว",
+    statusFailed: "ส่งไม่สำเร็จ",
+  },
+
+  // Rental Status Page
+  rentalStatus: {
+    title: "สถานะการเช่า",
+    invalidLink: "ลิงก์ไม่ถูกต้องหรือหมดอายุแล้ว กรุณาติดต่อร้านเพื่อขอลิงก์ใหม่",
+    tooManyRequests: "มีการเรียกดูบ่อยเกินไป กรุณาลองใหม่ภายหลัง",
+    daysRemaining: "เหลืออีก",
+    daysOverdue: "เกินกำหนดคืน",
+    dueToday: "ครบกำหนดคืนวันนี้",
+    returned: "คืนแล้ว",
+    linkExpires: "ลิงก์นี้ใช้ได้ถึง",
+    contactShop: "สอบถามเพิ่มเติม",
+    link: "ลิงก์สถานะสำหรับลูกค้า",
+    linkHint:
+      "ลูกค้าเปิดลิงก์นี้เพื่อดูรายการที่เช่า ยอดค้างชำระ และค่าปรับได้โดยไม่ต้องเข้าสู่ระบบ",
+    linkValidDays: "อายุลิงก์ (วัน)",
+    createLink: "สร้างลิงก์",
+    copyLink: "คัดลอก",
+    copied: "คัดลอกแล้ว",
+  },
+
+  // Rental Calendar
+  rentalCalendar: {
+    title: "ปฏิทินการเช่า",
+    description: "การเช่า การจอง และการซ่อมบำรุงของทรัพย์สินแต่ละชิ้นตามช่วงเวลา",
+    today: "วันนี้",
+    allProducts: "สินค้าทั้งหมด",
+    asset: "ทรัพย์สิน",
+    legendRental: "เช่าอยู่",
+    legendReservation: "จองแล้ว",
+    legendMaintenance: "ซ่อมบำรุง/เสียหาย",
+    dragHint: "ลากบนแถวของทรัพย์สินเพื่อสร้างการจอง",
+    noAssets: "ไม่พบทรัพย์สิน",
+    newBooking: "สร้างการจอง",
+  },
+
+  // Rental Reports
+  rentalReport: {
+    title: "รายงานการเช่า",
+    description: "อัตราการใช้งาน รายได้ และความคุ้มทุนของสินค้าและทรัพย์สินเช่าตามช่วงเวลา",
+    startDate: "ตั้งแต่วันที่",
+    endDate: "ถึงวันที่",
+    allProducts: "สินค้าทั้งหมด",
+    exportCsv: "ส่งออก CSV",
+    byProduct: "แยกตามสินค้า",
+    byAsset: "แยกตามทรัพย์สิน",
+    product: "สินค้า",
+    asset: "ทรัพย์สิน",
+    assetCount: "จำนวนชิ้น",
+    rentedDays: "วันที่ถูกเช่า",
+    utilization: "อัตราการใช้งาน",
+    rentalRevenue: "รายได้ค่าเช่า",
+    penaltyRevenue: "รายได้ค่าปรับ",
+    totalRevenue: "รายได้รวม",
+    rentalCount: "จำนวนครั้งที่เช่า",
+    averageRentalDays: "ระยะเวลาเช่าเฉลี่ย (วัน)",
+    revenuePerUnit: "รายได้ต่อชิ้น",
+    replacementPrice: "ราคาทดแทน",
+    payback: "คืนทุน",
+    noData: "ไม่พบทรัพย์สินเช่า",
+    hint: "อัตราการใช้งานคิดจากวันที่ทรัพย์สินถูกเช่าเทียบกับจำนวนวันในช่วง ไม่นับการจองที่ยังไม่เริ่ม รายได้ค่าเช่าเฉลี่ยตามจำนวนวันที่อยู่ในช่วง ค่าปรับนับเมื่อคืนในช่วง",
+  },
+
+  // Rental Contracts
+  rentalContract: {
+    title: "สัญญาเช่า",
+    print: "พิมพ์สัญญา",
+    draft: "ร่างสัญญา",
+    version: "ฉบับที่",
+    sign: "ลงนามสัญญา",
+    signHint:
+      "ให้ลูกค้าและพนักงานลงลายมือชื่อ สัญญาที่ลงนามแล้วจะถูกบันทึกเป็นฉบับใหม่และแก้ไขไม่ได้",
+    customerSignerName: "ชื่อผู้ลงนาม (ผู้เช่า)",
+    customerSignature: "ลายมือชื่อผู้เช่า",
+    staffSignature: "ลายมือชื่อผู้ให้เช่า",
+    clearSignature: "ล้าง",
+    termsTitle: "เงื่อนไขสัญญาเช่า",
+    termsHint: "ข้อตกลงและเงื่อนไขที่พิมพ์ในสัญญาเช่า",
+    currentTerms: "เงื่อนไขที่ใช้อยู่",
+    termsVersion: "เงื่อนไขฉบับที่",
+    termsHeading: "หัวข้อ",
+    termsBody: "ข้อตกลงและเงื่อนไข",
+    termsBodyHint:
+      "หนึ่งบรรทัดต่อหนึ่งข้อ การบันทึกจะสร้างเงื่อนไขฉบับใหม่ สัญญาที่ลงนามแล้วไม่เปลี่ยนแปลง",
+    publishTerms: "บันทึกเป็นฉบับใหม่",
+    termsHistory: "ประวัติเงื่อนไข",
+    noTermsHistory: "ยังไม่มีการบันทึกเงื่อนไข (ใช้เงื่อนไขเริ่มต้น)",
+  },
+
+  // Rental Tasks (Delivery/Pickup)
+  rentalTask: {
+    title: "งานจัดส่งและรับคืน",
+    routeSheet: "ใบงานประจำวัน",
+    printDriverSheet: "พิมพ์ใบงานคนขับ",
+    tasks: "งานจัดส่ง/รับคืน",
+    addTask: "เพิ่มงาน",
+    type: "ประเภทงาน",
+    typeDelivery: "จัดส่ง",
+    typePickup: "รับคืน",
+    address: "ที่อยู่",
+    addressPlaceholder: "เว้นว่างเพื่อใช้ที่อยู่ลูกค้า",
+    date: "วันที่",
+    timeStart: "เวลาเริ่ม",
+    timeEnd: "เวลาสิ้นสุด",
+    timeSlot: "ช่วงเวลา",
+    assignedTo: "พนักงาน",
+    unassigned: "ยังไม่มอบหมาย",
+    allStaff: "พนักงานทั้งหมด",
+    customer: "ลูกค้า",
+    assets: "ทรัพย์สิน",
+    statusScheduled: "นัดหมายแล้ว",
+    statusInProgress: "กำลังดำเนินการ",
+    statusCompleted: "เสร็จสิ้น",
+    statusCancelled: "ยกเลิก",
+    start: "เริ่มงาน",
+    complete: "เสร็จสิ้นงาน",
+    completeWithCheckIn: "เสร็จสิ้นและตรวจรับทรัพย์สิน",
+    cancelTask: "ยกเลิกงาน",
+    noTasks: "ไม่มีงานในวันนี้",
+    noRentalTasks: "ยังไม่มีงานจัดส่ง/รับคืน",
+  },
+
+  // Rental Quotes
+  rentalQuote: {
+    title: "ใบเสนอราคาเช่า",
+    description: "เสนอราคาเช่าก่อนจองทรัพย์สิน",
+    create: "สร้างใบเสนอราคา",
+    quoteNumber: "เลขที่ใบเสนอราคา",
+    items: "สินค้า",
+    product: "เลือกสินค้า",
+    quantity: "จำนวน",
+    addItem: "เพิ่มรายการ",
+    noItems: 'ยังไม่มีรายการ คลิก "เพิ่มรายการ" เพื่อเพิ่ม',
+    validUntil: "ใช้ได้ถึง",
+    validUntilHint: "เว้นว่างเพื่อให้ใช้ได้ 7 วัน",
+    statusOpen: "รอลูกค้ายืนยัน",
+    statusExpired: "หมดอายุ",
+    statusConverted: "แปลงเป็นการเช่าแล้ว",
+    statusCancelled: "ยกเลิก",
+    convert: "แปลงเป็นการเช่า",
+    convertConfirm: "ยืนยันการแปลงใบเสนอราคาเป็นการเช่า? ระบบจะเลือกทรัพย์สินที่ว่างให้อัตโนมัติ",
+    converted: "สร้างการเช่าแล้ว",
+    cancelQuote: "ยกเลิกใบเสนอราคา",
+    cancelConfirm: "ยืนยันการยกเลิกใบเสนอราคา?",
+    print: "พิมพ์ใบเสนอราคา",
+    noQuotes: "ยังไม่มีใบเสนอราคา",
   },
 
   // Sales
@@ -155,10 +431,23 @@ export const th = {
     selectProduct: "เลือกสินค้า",
     quantity: "จำนวน",
     unitPrice: "ราคาต่อหน่วย",
+    listPrice: "ราคาขาย",
+    noListPrice: "สินค้านี้ยังไม่มีราคาขาย",
+    priceOverrideReason: "เหตุผลที่แก้ไขราคา",
     totalPrice: "ราคารวม",
     subtotal: "ยอดรวม",
     discount: "ส่วนลด",
+    couponCode: "รหัสคูปอง",
+    promotionDiscount: "ส่วนลดโปรโมชั่น",
     tax: "ภาษี",
+    customerTaxId: "เลขประจำตัวผู้เสียภาษี",
+    customerBranchCode: "รหัสสาขา (00000 = สำนักงานใหญ่)",
+    vatMode: "ภาษีมูลค่าเพิ่ม",
+    vatModeNone: "ไม่มี VAT",
+    vatModeInclusive: "ราคารวม VAT",
+    vatModeExclusive: "ราคาไม่รวม VAT",
+    vatAmount: "ภาษีมูลค่าเพิ่ม",
+    taxableAmount: "มูลค่าก่อนภาษี",
     totalAmount: "ยอดรวมทั้งสิ้น",
     paymentMethod: "วิธีการชำระเงิน",
     paymentMethodCash: "เงินสด",
@@ -170,6 +459,20 @@ export const th = {
     paymentStatusPaid: "ชำระแล้ว",
     paymentStatusPartial: "ชำระบางส่วน",
     paidAmount: "จำนวนเงินที่จ่าย",
+    paidNow: "รับชำระตอนสร้างบิล",
+    payments: "การชำระเงิน",
+    recordPayment: "บันทึกการชำระเงิน",
+    paymentAmount: "จำนวนเงิน",
+    paymentReference: "เลขอ้างอิง",
+    noPayments: "ยังไม่มีการชำระเงิน",
+    outstandingAmount: "ยอดค้างชำระ",
+    receivables: "ลูกหนี้ค้างชำระ",
+    receivablesDescription: "บิลที่ยังชำระไม่ครบ เรียงจากเก่าไปใหม่",
+    totalOutstanding: "ยอดค้างชำระรวม",
+    lastPaidAt: "ชำระล่าสุด",
+    daysOpen: "ค้างมาแล้ว",
+    days: "วัน",
+    noReceivables: "ไม่มีบิลค้างชำระ",
     status: "สถานะ",
     statusPending: "รอดำเนินการ",
     statusCompleted: "เสร็จสิ้น",
@@ -183,6 +486,112 @@ export const th = {
     removeItem: "ลบรายการ",
   },
 
+  // Sale Returns
+  saleReturn: {
+    title: "คืนสินค้า",
+    create: "บันทึกการคืนสินค้า",
+    returnableQuantity: "คืนได้",
+    returnQuantity: "จำนวนที่คืน",
+    returned: "คืนแล้ว",
+    reason: "เหตุผลการคืน",
+    refundMethod: "วิธีคืนเงิน",
+    estimatedCredit: "ยอดลดหนี้โดยประมาณ",
+    returnedAmount: "ยอดคืนสินค้า",
+    netAmount: "ยอดสุทธิหลังคืนสินค้า",
+    grossSales: "ยอดขาย",
+    salesCount: "จำนวนบิล",
+    noItemsSelected: "กรุณาระบุจำนวนสินค้าที่คืนอย่างน้อย 1 รายการ",
+    success: "บันทึกการคืนสินค้าสำเร็จ",
+  },
+
+  // Price Lists
+  priceList: {
+    title: "รายการราคา",
+    create: "สร้างรายการราคา",
+    edit: "แก้ไขรายการราคา",
+    name: "ชื่อรายการราคา",
+    description: "คำอธิบาย",
+    isActive: "ใช้งาน",
+    inactive: "ไม่ใช้งาน",
+    priority: "ลำดับความสำคัญ",
+    priorityHint: "ตัวเลขมากกว่าจะถูกใช้ก่อนเมื่อมีหลายรายการราคาในวันเดียวกัน",
+    startDate: "วันเริ่มต้น",
+    endDate: "วันสิ้นสุด",
+    period: "ช่วงเวลา",
+    always: "ไม่จำกัด",
+    items: "ราคาสินค้า",
+    itemCount: "จำนวนสินค้า",
+    addItem: "เพิ่มสินค้า",
+    selectProduct: "เลือกสินค้า",
+    price: "ราคา",
+    noPriceLists: "ยังไม่มีรายการราคา",
+    deleteConfirm: "คุณแน่ใจหรือไม่ว่าต้องการลบรายการราคานี้?",
+  },
+
+  // Promotions
+  promotion: {
+    title: "โปรโมชั่น",
+    create: "สร้างโปรโมชั่น",
+    edit: "แก้ไขโปรโมชั่น",
+    name: "ชื่อโปรโมชั่น",
+    description: "คำอธิบาย",
+    type: "ประเภท",
+    typePercentOff: "ลดเป็นเปอร์เซ็นต์",
+    typeAmountOff: "ลดต่อชิ้น",
+    typeBuyXGetY: "ซื้อ X แถม Y",
+    typeQuantityBreak: "ลดตามจำนวน",
+    percentOff: "ส่วนลด (%)",
+    amountOff: "ส่วนลดต่อชิ้น (บาท)",
+    buyQuantity: "จำนวนที่ซื้อ",
+    getQuantity: "จำนวนที่แถม",
+    tiers: "ขั้นส่วนลดตามจำนวน",
+    minQuantity: "ซื้อตั้งแต่ (ชิ้น)",
+    addTier: "เพิ่มขั้น",
+    addProduct: "เพิ่มสินค้า",
+    selectProduct: "เลือกสินค้า",
+    products: "สินค้าที่ร่วมรายการ",
+    categories: "หมวดหมู่ที่ร่วมรายการ",
+    categoriesHint: "คั่นแต่ละหมวดหมู่ด้วยเครื่องหมายจุลภาค",
+    scope: "สินค้าที่ร่วมรายการ",
+    allProducts: "สินค้าทั้งหมด",
+    couponCode: "รหัสคูปอง",
+    couponCodeHint: "เว้นว่างเพื่อใช้โปรโมชั่นโดยอัตโนมัติ",
+    automatic: "อัตโนมัติ",
+    startDate: "วันเริ่มต้น",
+    endDate: "วันสิ้นสุด",
+    period: "ช่วงเวลา",
+    always: "ไม่จำกัด",
+    isActive: "ใช้งาน",
+    inactive: "ไม่ใช้งาน",
+    noPromotions: "ยังไม่มีโปรโมชั่น",
+    deleteConfirm: "คุณแน่ใจหรือไม่ว่าต้องการลบโปรโมชั่นนี้?",
+    rulesHint:
+      "แต่ละรายการได้โปรโมชั่นอัตโนมัติที่ลดได้มากที่สุด 1 รายการ และคูปองลดเพิ่มจากยอดที่เหลือ",
+    report: "ต้นทุนโปรโมชั่น",
+    reportDescription: "ส่วนลดที่ให้ไปในการขายที่เสร็จสิ้นแล้ว",
+    salesCount: "จำนวนบิล",
+    quantity: "จำนวนชิ้น",
+    discount: "ส่วนลดรวม",
+    totalDiscount: "ส่วนลดโปรโมชั่นรวม",
+    noReportData: "ไม่มีการใช้โปรโมชั่นในช่วงเวลานี้",
+  },
+
+  // Tax Invoices
+  taxInvoice: {
+    title: "ใบกำกับภาษี",
+    issue: "ออกใบกำกับภาษี",
+    kind: "ประเภท",
+    kindFull: "ใบกำกับภาษีเต็มรูป",
+    kindAbbreviated: "ใบกำกับภาษีอย่างย่อ",
+    buyerName: "ชื่อผู้ซื้อ",
+    buyerAddress: "ที่อยู่ผู้ซื้อ",
+    buyerTaxId: "เลขประจำตัวผู้เสียภาษีผู้ซื้อ",
+    buyerBranchCode: "รหัสสาขาผู้ซื้อ (00000 = สำนักงานใหญ่)",
+    fullRequiresBuyer: "ใบกำกับภาษีเต็มรูปต้องระบุชื่อและที่อยู่ของผู้ซื้อ",
+    issued: "ออกใบกำกับภาษีแล้ว",
+    print: "พิมพ์ใบกำกับภาษี",
+  },
+
   // Activity Logs
   activityLog: {
     title: "บันทึกกิจกรรม",
@@ -195,6 +604,10 @@ export const th = {
     entityTypeBuyStock: "สต็อกซื้อ",
     entityTypeRentalAsset: "ทรัพย์สินเช่า",
     entityTypeRental: "การเช่า",
+    entityTypeRentalQuote: "ใบเสนอราคาเช่า",
+    entityTypeContractTerms: "เงื่อนไขสัญญาเช่า",
+    entityTypePriceList: "รายการราคา",
+    entityTypePromotion: "โปรโมชั่น",
     entityTypeSale: "การขาย",
     entityTypeUser: "ผู้ใช้",
     entityId: "ID",
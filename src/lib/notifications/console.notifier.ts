@@ -0,0 +1,14 @@
+import type { Notifier } from "./types";
+
+/**
+ * Development notifier that prints messages to the server console
+ */
+export const consoleNotifier: Notifier = {
+  name: "console",
+  async send(message) {
+    console.log(
+      `[notification:${message.channel}] to ${message.to}\n${message.subject}\n${message.body}`
+    );
+    return {};
+  },
+};
@@ -0,0 +1,28 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import type { Notifier } from "./types";
+
+/**
+ * Create a development notifier that appends messages to a local file
+ *
+ * Each message is written as one JSON line, so the outbox can be inspected
+ * or replayed while developing without a real provider.
+ *
+ * @param filePath - Outbox file, relative to the working directory or absolute
+ * @returns Notifier writing to the outbox file
+ */
+export function createFileNotifier(filePath: string): Notifier {
+  return {
+    name: "file",
+    async send(message) {
+      const outbox = path.resolve(filePath);
+      await mkdir(path.dirname(outbox), { recursive: true });
+      await appendFile(
+        outbox,
+        `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`,
+        "utf8"
+      );
+      return {};
+    },
+  };
+}
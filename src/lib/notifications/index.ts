@@ -0,0 +1,51 @@
+/**
+ * Notifier registry
+ *
+ * Maps each channel to the notifier that delivers it. Channels without a
+ * registered provider fall back to the development stand-in chosen by
+ * NOTIFIER_DRIVER ("console" by default, or "file"), so nothing is sent to
+ * customers until a real provider is registered, e.g.:
+ *
+ *   registerNotifier("sms", smsGatewayNotifier);
+ */
+
+import { notificationConfig } from "@/lib/config/notification";
+import { consoleNotifier } from "./console.notifier";
+import { createFileNotifier } from "./file.notifier";
+import type { NotificationChannel, Notifier } from "./types";
+
+export type {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationResult,
+  Notifier,
+} from "./types";
+
+const notifiers = new Map<NotificationChannel, Notifier>();
+
+/**
+ * Register the notifier that delivers a channel
+ *
+ * @param channel - Channel the notifier delivers
+ * @param notifier - Provider implementation
+ */
+export function registerNotifier(channel: NotificationChannel, notifier: Notifier): void {
+  notifiers.set(channel, notifier);
+}
+
+/**
+ * Get the notifier for a channel
+ *
+ * @param channel - Channel to send through
+ * @returns The registered provider, or the development stand-in
+ */
+export function getNotifier(channel: NotificationChannel): Notifier {
+  const notifier = notifiers.get(channel);
+  if (notifier) {
+    return notifier;
+  }
+
+  return notificationConfig.driver === "file"
+    ? createFileNotifier(notificationConfig.outboxFile)
+    : consoleNotifier;
+}
@@ -0,0 +1,47 @@
+/**
+ * Notification Types
+ *
+ * Shared types of the notifier subsystem. A notifier delivers a message
+ * through one channel; the rest of the app only deals with this interface.
+ */
+
+/**
+ * Channels a customer message can be sent through
+ * - sms: Text message to the customer's phone
+ * - email: Email to the customer's address
+ * - line: LINE-style chat message, addressed by the customer's phone number
+ */
+export type NotificationChannel = "sms" | "email" | "line";
+
+/**
+ * A message ready to be delivered
+ *
+ * subject is used by channels that support one (email); others send the body only.
+ */
+export interface NotificationMessage {
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Result of a delivered message
+ *
+ * providerMessageId is the provider's reference, for tracing a message with
+ * the provider.
+ */
+export interface NotificationResult {
+  providerMessageId?: string;
+}
+
+/**
+ * A notifier delivers messages for one channel
+ *
+ * send throws when the message cannot be delivered; callers record the
+ * failure and may retry later.
+ */
+export interface Notifier {
+  name: string;
+  send(message: NotificationMessage): Promise<NotificationResult>;
+}
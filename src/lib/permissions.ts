@@ -0,0 +1,33 @@
+/**
+ * Permissions
+ *
+ * Fine-grained actions that go beyond what a procedure's role check allows.
+ * Each role is granted a fixed set of permissions; the check runs in the
+ * service that performs the action, and the UI uses the same check to show
+ * or hide the controls for it.
+ */
+
+import type { UserRole } from "@/lib/db/models/user";
+
+/**
+ * Permission values
+ * - sale.overridePrice: Charge a price other than the list price on a sale item
+ */
+export type Permission = "sale.overridePrice";
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  super_admin: ["sale.overridePrice"],
+  admin: [],
+  user: [],
+};
+
+/**
+ * Check whether a role is granted a permission
+ *
+ * @param role - Role of the user performing the action
+ * @param permission - Permission to check
+ * @returns True if the role has the permission
+ */
+export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
+  return !!role && rolePermissions[role].includes(permission);
+}
@@ -0,0 +1,44 @@
+/**
+ * Promotion helpers
+ *
+ * Shared by the sale form, the bill preview and the printed bill, which show
+ * one discount line per promotion rather than per sale item.
+ */
+
+import { roundAmount } from "@/lib/vat";
+
+export interface PromotionLine {
+  promotionId: string;
+  name: string;
+  couponCode?: string;
+  discount: number;
+}
+
+/**
+ * Total the promotions applied to sale items, one line per promotion
+ *
+ * Lines are in the order the promotions first appear on the items.
+ *
+ * @param items - Sale items with the promotions applied to them
+ * @returns Discount per promotion
+ */
+export function getPromotionLines(
+  items: Array<{ appliedPromotions: PromotionLine[] }>
+): PromotionLine[] {
+  const lines = new Map<string, PromotionLine>();
+  for (const applied of items.flatMap((item) => item.appliedPromotions)) {
+    const line = lines.get(applied.promotionId);
+    if (line) {
+      line.discount = roundAmount(line.discount + applied.discount);
+    } else {
+      lines.set(applied.promotionId, {
+        promotionId: applied.promotionId,
+        name: applied.name,
+        couponCode: applied.couponCode,
+        discount: applied.discount,
+      });
+    }
+  }
+
+  return [...lines.values()];
+}
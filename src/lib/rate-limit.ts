@@ -0,0 +1,84 @@
+/**
+ * In-memory rate limiter
+ *
+ * Counts requests per key (e.g. client IP) in fixed time windows. Counts live
+ * in process memory, so limits apply per server instance and reset on
+ * restart; that is enough to slow down guessing against public endpoints.
+ */
+
+export interface RateLimitOptions {
+  // Length of a window in milliseconds
+  windowMs: number;
+  // Requests allowed per key in one window
+  max: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the key's window resets (0 when allowed)
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check(key: string): RateLimitResult;
+}
+
+/**
+ * Windows kept before expired ones are swept
+ */
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * Create a fixed-window rate limiter
+ *
+ * @param options - Window length and requests allowed per window
+ * @returns Limiter whose check() counts a request and reports whether it is allowed
+ */
+export function createRateLimiter({ windowMs, max }: RateLimitOptions): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    check(key) {
+      const now = Date.now();
+
+      if (windows.size > SWEEP_THRESHOLD) {
+        for (const [windowKey, window] of windows) {
+          if (window.resetAt <= now) {
+            windows.delete(windowKey);
+          }
+        }
+      }
+
+      const window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return { allowed: true, retryAfterSeconds: 0 };
+      }
+
+      window.count += 1;
+      if (window.count > max) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000) };
+      }
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+}
+
+/**
+ * Client IP of a request, as seen by the proxy in front of the app
+ *
+ * The proxy appends the address it received the request from to
+ * X-Forwarded-For, so only the last hop can be trusted; earlier entries are
+ * whatever the client sent and would let it pick a fresh key per request.
+ * Without the header, the platform-provided X-Real-IP is used.
+ *
+ * @param headers - Request headers
+ * @returns Client IP, or "unknown" when neither header is set
+ */
+export function getClientIp(headers: Headers): string {
+  const hops = (headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - 1] || headers.get("x-real-ip") || "unknown";
+}
@@ -5,7 +5,18 @@ import { productRouter } from "./product.router";
 import { buyStockRouter } from "./buy-stock.router";
 import { rentalAssetRouter } from "./rental-asset.router";
 import { rentalRouter } from "./rental.router";
+import { rentalTaskRouter } from "./rental-task.router";
+import { rentalQuoteRouter } from "./rental-quote.router";
+import { rentalInvoiceRouter } from "./rental-invoice.router";
+import { rentalContractRouter } from "./rental-contract.router";
+import { rentalNotificationRouter } from "./rental-notification.router";
+import { rentalStatusRouter } from "./rental-status.router";
+import { rentalReportRouter } from "./rental-report.router";
+import { priceListRouter } from "./price-list.router";
+import { promotionRouter } from "./promotion.router";
 import { saleRouter } from "./sale.router";
+import { saleReturnRouter } from "./sale-return.router";
+import { taxInvoiceRouter } from "./tax-invoice.router";
 import { activityLogRouter } from "./activity-log.router";
 
 /**
@@ -19,7 +30,18 @@ export const appRouter = createTRPCRouter({
   buyStock: buyStockRouter,
   rentalAsset: rentalAssetRouter,
   rental: rentalRouter,
+  rentalTask: rentalTaskRouter,
+  rentalQuote: rentalQuoteRouter,
+  rentalInvoice: rentalInvoiceRouter,
+  rentalContract: rentalContractRouter,
+  rentalNotification: rentalNotificationRouter,
+  rentalStatus: rentalStatusRouter,
+  rentalReport: rentalReportRouter,
+  priceList: priceListRouter,
+  promotion: promotionRouter,
   sale: saleRouter,
+  saleReturn: saleReturnRouter,
+  taxInvoice: taxInvoiceRouter,
   activityLog: activityLogRouter,
 });
 
@@ -0,0 +1,77 @@
+/**
+ * Price List Router
+ * 
+ * tRPC router for sale price lists.
+ * Handles price list CRUD operations and the current selling prices used
+ * when making a sale.
+ */
+
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "../trpc";
+import {
+  createPriceListSchema,
+  updatePriceListSchema,
+  getPriceListByIdSchema,
+  deletePriceListSchema,
+} from "../schemas";
+import * as priceListService from "../services/price-list.service";
+
+export const priceListRouter = createTRPCRouter({
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Create a new price list
+   * 
+   * Requires admin role. Only buy-stock products can be listed.
+   */
+  create: adminProcedure
+    .input(createPriceListSchema)
+    .mutation(({ ctx, input }) => priceListService.createPriceList(ctx.session.user.id, input)),
+
+  /**
+   * Update an existing price list
+   * 
+   * Requires admin role. Sales already made keep their prices.
+   */
+  update: adminProcedure
+    .input(updatePriceListSchema)
+    .mutation(({ ctx, input }) => priceListService.updatePriceList(ctx.session.user.id, input)),
+
+  /**
+   * Delete a price list
+   * 
+   * Requires admin role.
+   */
+  delete: adminProcedure
+    .input(deletePriceListSchema)
+    .mutation(({ ctx, input }) => priceListService.deletePriceList(ctx.session.user.id, input)),
+
+  // ============================================================================
+  // Protected Queries (All Authenticated Users)
+  // ============================================================================
+  
+  /**
+   * Get a single price list by ID
+   * 
+   * Available to all authenticated users.
+   */
+  getById: protectedProcedure
+    .input(getPriceListByIdSchema)
+    .query(({ input }) => priceListService.getPriceListById(input)),
+
+  /**
+   * List every price list
+   * 
+   * Available to all authenticated users. Highest priority first.
+   */
+  list: protectedProcedure.query(() => priceListService.listPriceLists()),
+
+  /**
+   * Today's selling price of every buy-stock product
+   * 
+   * Available to all authenticated users. The same prices a new sale is
+   * charged at.
+   */
+  currentPrices: protectedProcedure.query(() => priceListService.getCurrentPrices()),
+});
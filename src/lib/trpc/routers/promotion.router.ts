@@ -0,0 +1,94 @@
+/**
+ * Promotion Router
+ * 
+ * tRPC router for sale promotions.
+ * Handles promotion CRUD operations, previewing the promotions a sale would
+ * get, and the promotion cost report.
+ */
+
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "../trpc";
+import {
+  createPromotionSchema,
+  updatePromotionSchema,
+  getPromotionByIdSchema,
+  deletePromotionSchema,
+  evaluatePromotionsSchema,
+  getPromotionReportSchema,
+} from "../schemas";
+import * as promotionService from "../services/promotion.service";
+
+export const promotionRouter = createTRPCRouter({
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Create a new promotion
+   * 
+   * Requires admin role.
+   */
+  create: adminProcedure
+    .input(createPromotionSchema)
+    .mutation(({ ctx, input }) => promotionService.createPromotion(ctx.session.user.id, input)),
+
+  /**
+   * Update an existing promotion
+   * 
+   * Requires admin role. Sales already made keep their discounts.
+   */
+  update: adminProcedure
+    .input(updatePromotionSchema)
+    .mutation(({ ctx, input }) => promotionService.updatePromotion(ctx.session.user.id, input)),
+
+  /**
+   * Delete a promotion
+   * 
+   * Requires admin role.
+   */
+  delete: adminProcedure
+    .input(deletePromotionSchema)
+    .mutation(({ ctx, input }) => promotionService.deletePromotion(ctx.session.user.id, input)),
+
+  // ============================================================================
+  // Admin-Only Queries
+  // ============================================================================
+  
+  /**
+   * What each promotion cost on completed sales in a period
+   * 
+   * Requires admin role.
+   */
+  report: adminProcedure
+    .input(getPromotionReportSchema)
+    .query(({ input }) => promotionService.getPromotionReport(input)),
+
+  // ============================================================================
+  // Protected Queries (All Authenticated Users)
+  // ============================================================================
+  
+  /**
+   * Get a single promotion by ID
+   * 
+   * Available to all authenticated users.
+   */
+  getById: protectedProcedure
+    .input(getPromotionByIdSchema)
+    .query(({ input }) => promotionService.getPromotionById(input)),
+
+  /**
+   * List every promotion
+   * 
+   * Available to all authenticated users. Newest first.
+   */
+  list: protectedProcedure.query(() => promotionService.listPromotions()),
+
+  /**
+   * Preview the promotions a sale would get
+   * 
+   * Available to all authenticated users. The same rules are applied when
+   * the sale is saved.
+   */
+  evaluate: protectedProcedure
+    .input(evaluatePromotionsSchema)
+    .query(({ input }) => promotionService.evaluatePromotions(input)),
+});
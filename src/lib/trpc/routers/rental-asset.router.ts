@@ -13,6 +13,9 @@ import {
   getAssetByIdSchema,
   listAssetsSchema,
   deleteAssetSchema,
+  getAvailableForPeriodSchema,
+  getAvailableGroupedSchema,
+  getAssetTimelineSchema,
 } from "../schemas";
 import * as rentalAssetService from "../services/rental-asset.service";
 
@@ -96,8 +99,31 @@ export const rentalAssetRouter = createTRPCRouter({
    *
    * Available to all authenticated users.
    * Returns grouped assets with individual asset IDs for rental creation.
+   * When a period is given, groups assets that are free for that period.
    */
-  getAvailableGrouped: protectedProcedure.query(() => {
-    return rentalAssetService.getAvailableGroupedAssets();
+  getAvailableGrouped: protectedProcedure.input(getAvailableGroupedSchema).query(({ input }) => {
+    return rentalAssetService.getAvailableGroupedAssets(input);
   }),
+
+  /**
+   * Get assets that are free for a date range
+   *
+   * Available to all authenticated users.
+   * Returns assets with no overlapping pending/active rental in the period,
+   * including assets that are currently rented but return before it starts.
+   */
+  getAvailableForPeriod: protectedProcedure
+    .input(getAvailableForPeriodSchema)
+    .query(({ input }) => rentalAssetService.getAvailableAssetsForPeriod(input)),
+
+  /**
+   * Get the asset timeline for a date window
+   *
+   * Available to all authenticated users.
+   * Returns assets grouped by product with their rental, reservation and
+   * maintenance bars, for the rental calendar.
+   */
+  timeline: protectedProcedure
+    .input(getAssetTimelineSchema)
+    .query(({ input }) => rentalAssetService.getAssetTimeline(input)),
 });
@@ -0,0 +1,85 @@
+/**
+ * Rental Contract Router
+ * 
+ * tRPC router for rental agreements.
+ * Handles the versioned terms and conditions, contract previews, signing,
+ * and the signed contract history of each rental.
+ */
+
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "../trpc";
+import {
+  publishContractTermsSchema,
+  previewRentalContractSchema,
+  signRentalContractSchema,
+  getRentalContractsSchema,
+} from "../schemas";
+import * as rentalContractService from "../services/rental-contract.service";
+
+export const rentalContractRouter = createTRPCRouter({
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Publish a new version of the contract terms
+   * 
+   * Requires admin role. Contracts signed earlier keep their own version.
+   */
+  publishTerms: adminProcedure
+    .input(publishContractTermsSchema)
+    .mutation(({ ctx, input }) =>
+      rentalContractService.publishContractTerms(ctx.session.user.id, input)
+    ),
+
+  /**
+   * Sign a rental's contract
+   * 
+   * Requires admin role. Stores the rendered contract with both signatures as
+   * the rental's next contract version.
+   */
+  sign: adminProcedure
+    .input(signRentalContractSchema)
+    .mutation(({ ctx, input }) =>
+      rentalContractService.signRentalContract(ctx.session.user.id, input)
+    ),
+
+  // ============================================================================
+  // Admin-Only Queries
+  // ============================================================================
+  
+  /**
+   * List every published version of the contract terms
+   * 
+   * Requires admin role.
+   */
+  termsHistory: adminProcedure.query(() => rentalContractService.listContractTerms()),
+
+  // ============================================================================
+  // Protected Queries (All Authenticated Users)
+  // ============================================================================
+  
+  /**
+   * Get the contract terms currently in force
+   * 
+   * Available to all authenticated users.
+   */
+  terms: protectedProcedure.query(() => rentalContractService.getContractTerms()),
+
+  /**
+   * Render a rental's unsigned contract with the current terms
+   * 
+   * Available to all authenticated users.
+   */
+  preview: protectedProcedure
+    .input(previewRentalContractSchema)
+    .query(({ input }) => rentalContractService.previewRentalContract(input)),
+
+  /**
+   * Get a rental's signed contract versions
+   * 
+   * Available to all authenticated users.
+   */
+  byRental: protectedProcedure
+    .input(getRentalContractsSchema)
+    .query(({ input }) => rentalContractService.getRentalContracts(input)),
+});
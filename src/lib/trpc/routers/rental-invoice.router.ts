@@ -0,0 +1,79 @@
+/**
+ * Rental Invoice Router
+ * 
+ * tRPC router for the periodic invoices of monthly-billed rentals.
+ * Handles invoice generation, payments, voiding, and per-rental summaries.
+ */
+
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "../trpc";
+import {
+  getRentalInvoicesSchema,
+  generateRentalInvoicesSchema,
+  markRentalInvoicePaidSchema,
+  voidRentalInvoiceSchema,
+} from "../schemas";
+import * as rentalInvoiceService from "../services/rental-invoice.service";
+
+export const rentalInvoiceRouter = createTRPCRouter({
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Issue any invoices a monthly rental is due now
+   * 
+   * Requires admin role. Bills the calendar months that have ended and are not
+   * invoiced yet, without waiting for the invoice job.
+   */
+  generate: adminProcedure
+    .input(generateRentalInvoicesSchema)
+    .mutation(({ ctx, input }) =>
+      rentalInvoiceService.issueRentalInvoices(ctx.session.user.id, input)
+    ),
+
+  /**
+   * Run the monthly invoice job now
+   * 
+   * Requires admin role. Invoices every active monthly rental; the run is
+   * recorded with the admin as trigger.
+   * The same job runs on a schedule via scripts/generate-rental-invoices.ts.
+   */
+  runJob: adminProcedure.mutation(({ ctx }) =>
+    rentalInvoiceService.runRentalInvoiceJob("manual", ctx.session.user.id)
+  ),
+
+  /**
+   * Mark an unpaid invoice as paid
+   * 
+   * Requires admin role.
+   */
+  markPaid: adminProcedure
+    .input(markRentalInvoicePaidSchema)
+    .mutation(({ ctx, input }) =>
+      rentalInvoiceService.markRentalInvoicePaid(ctx.session.user.id, input)
+    ),
+
+  /**
+   * Void an unpaid invoice
+   * 
+   * Requires admin role. The voided period is not invoiced again.
+   */
+  void: adminProcedure
+    .input(voidRentalInvoiceSchema)
+    .mutation(({ ctx, input }) =>
+      rentalInvoiceService.voidRentalInvoice(ctx.session.user.id, input)
+    ),
+
+  // ============================================================================
+  // Protected Queries (All Authenticated Users)
+  // ============================================================================
+  
+  /**
+   * Get a rental's invoices and outstanding balance
+   * 
+   * Available to all authenticated users.
+   */
+  byRental: protectedProcedure
+    .input(getRentalInvoicesSchema)
+    .query(({ input }) => rentalInvoiceService.getRentalInvoices(input)),
+});
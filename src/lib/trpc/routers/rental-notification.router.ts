@@ -0,0 +1,52 @@
+/**
+ * Rental Notification Router
+ * 
+ * tRPC router for customer notifications about rentals.
+ * Handles the return reminder job, sending a message by hand, and the
+ * message log of each rental.
+ */
+
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "../trpc";
+import { sendRentalNotificationSchema, getRentalNotificationsSchema } from "../schemas";
+import * as rentalNotificationService from "../services/rental-notification.service";
+
+export const rentalNotificationRouter = createTRPCRouter({
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Run the return reminder job now
+   * 
+   * Requires admin role. Sends the reminders and overdue notices due today;
+   * the run is recorded with the admin as trigger.
+   * The same job runs on a schedule via scripts/send-rental-notifications.ts.
+   */
+  runJob: adminProcedure.mutation(({ ctx }) =>
+    rentalNotificationService.runRentalNotificationJob("manual", ctx.session.user.id)
+  ),
+
+  /**
+   * Send a rental's reminder or overdue notice now
+   * 
+   * Requires admin role.
+   */
+  send: adminProcedure
+    .input(sendRentalNotificationSchema)
+    .mutation(({ ctx, input }) =>
+      rentalNotificationService.sendRentalNotification(ctx.session.user.id, input)
+    ),
+
+  // ============================================================================
+  // Protected Queries (All Authenticated Users)
+  // ============================================================================
+  
+  /**
+   * Get the messages sent for a rental
+   * 
+   * Available to all authenticated users.
+   */
+  byRental: protectedProcedure
+    .input(getRentalNotificationsSchema)
+    .query(({ input }) => rentalNotificationService.getRentalNotifications(input)),
+});
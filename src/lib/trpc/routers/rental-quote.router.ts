@@ -0,0 +1,95 @@
+/**
+ * Rental Quote Router
+ * 
+ * tRPC router for rental quotation endpoints.
+ * Handles quote CRUD operations, price previews, and conversion into rentals.
+ */
+
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "../trpc";
+import {
+  createRentalQuoteSchema,
+  updateRentalQuoteSchema,
+  priceRentalQuoteSchema,
+  convertRentalQuoteSchema,
+  cancelRentalQuoteSchema,
+  getRentalQuoteByIdSchema,
+  listRentalQuotesSchema,
+} from "../schemas";
+import * as rentalQuoteService from "../services/rental-quote.service";
+
+export const rentalQuoteRouter = createTRPCRouter({
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Create a new quote
+   * 
+   * Requires admin role. Prices the products with the rental rates; no assets are booked.
+   */
+  create: adminProcedure
+    .input(createRentalQuoteSchema)
+    .mutation(({ ctx, input }) => rentalQuoteService.createRentalQuote(ctx.session.user.id, input)),
+
+  /**
+   * Update an open quote
+   * 
+   * Requires admin role. Changing products or dates reprices the quote.
+   */
+  update: adminProcedure
+    .input(updateRentalQuoteSchema)
+    .mutation(({ ctx, input }) => rentalQuoteService.updateRentalQuote(ctx.session.user.id, input)),
+
+  /**
+   * Cancel an open quote
+   * 
+   * Requires admin role.
+   */
+  cancel: adminProcedure
+    .input(cancelRentalQuoteSchema)
+    .mutation(({ ctx, input }) => rentalQuoteService.cancelRentalQuote(ctx.session.user.id, input)),
+
+  /**
+   * Convert a quote into a rental
+   * 
+   * Requires admin role. Picks available assets for each quoted product and
+   * creates a pending rental with them.
+   */
+  convert: adminProcedure
+    .input(convertRentalQuoteSchema)
+    .mutation(({ ctx, input }) =>
+      rentalQuoteService.convertRentalQuote(ctx.session.user.id, input)
+    ),
+
+  // ============================================================================
+  // Protected Queries (All Authenticated Users)
+  // ============================================================================
+  
+  /**
+   * Preview the price of products for a rental period
+   * 
+   * Available to all authenticated users.
+   */
+  price: protectedProcedure
+    .input(priceRentalQuoteSchema)
+    .query(({ input }) => rentalQuoteService.priceRentalQuote(input)),
+
+  /**
+   * Get quote by ID
+   * 
+   * Available to all authenticated users.
+   */
+  getById: protectedProcedure
+    .input(getRentalQuoteByIdSchema)
+    .query(({ input }) => rentalQuoteService.getRentalQuoteById(input)),
+
+  /**
+   * List quotes with filtering and pagination
+   * 
+   * Available to all authenticated users.
+   * Supports filtering by status (including expired) and search.
+   */
+  list: protectedProcedure
+    .input(listRentalQuotesSchema)
+    .query(({ input }) => rentalQuoteService.listRentalQuotes(input)),
+});
@@ -0,0 +1,25 @@
+/**
+ * Rental Report Router
+ * 
+ * tRPC router for rental reports.
+ * Handles the profitability and utilization report of rental products and assets.
+ */
+
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+import { getRentalReportSchema } from "../schemas";
+import * as rentalReportService from "../services/rental-report.service";
+
+export const rentalReportRouter = createTRPCRouter({
+  // ============================================================================
+  // Protected Queries (All Authenticated Users)
+  // ============================================================================
+  
+  /**
+   * Get utilization, revenue, and payback per product and asset for a period
+   * 
+   * Available to all authenticated users.
+   */
+  summary: protectedProcedure
+    .input(getRentalReportSchema)
+    .query(({ input }) => rentalReportService.getRentalReport(input)),
+});
@@ -0,0 +1,46 @@
+/**
+ * Rental Status Router
+ * 
+ * tRPC router for the customer-facing rental status page.
+ * Handles issuing signed status links and the public status lookup.
+ */
+
+import { createTRPCRouter, createRateLimitedProcedure, adminProcedure } from "../trpc";
+import { createRentalStatusLinkSchema, getPublicRentalStatusSchema } from "../schemas";
+import * as rentalStatusService from "../services/rental-status.service";
+
+/**
+ * Public lookups allowed per client IP per minute
+ */
+const statusPageProcedure = createRateLimitedProcedure({ windowMs: 60 * 1000, max: 20 });
+
+export const rentalStatusRouter = createTRPCRouter({
+  // ============================================================================
+  // Public Endpoints
+  // ============================================================================
+  
+  /**
+   * Get a rental's public status from a status link token
+   * 
+   * Available to all users (public), rate limited per client IP.
+   * Invalid and expired tokens get the same error.
+   */
+  byToken: statusPageProcedure
+    .input(getPublicRentalStatusSchema)
+    .query(({ input }) => rentalStatusService.getPublicRentalStatus(input)),
+
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Issue a signed, expiring status link for a rental
+   * 
+   * Requires admin role.
+   */
+  createLink: adminProcedure
+    .input(createRentalStatusLinkSchema)
+    .mutation(({ ctx, input }) =>
+      rentalStatusService.createRentalStatusLink(ctx.session.user.id, input)
+    ),
+});
@@ -0,0 +1,85 @@
+/**
+ * Rental Task Router
+ * 
+ * tRPC router for delivery and pickup scheduling endpoints.
+ * Handles task scheduling, status updates, pickup check-in, and route sheets.
+ */
+
+import { createTRPCRouter, adminProcedure } from "../trpc";
+import {
+  createRentalTaskSchema,
+  updateRentalTaskSchema,
+  updateRentalTaskStatusSchema,
+  completeRentalTaskSchema,
+  listRentalTasksSchema,
+  getRouteSheetSchema,
+} from "../schemas";
+import * as rentalTaskService from "../services/rental-task.service";
+
+export const rentalTaskRouter = createTRPCRouter({
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Schedule a delivery or pickup for a rental
+   * 
+   * Requires admin role. The address defaults to the customer address.
+   */
+  create: adminProcedure
+    .input(createRentalTaskSchema)
+    .mutation(({ ctx, input }) => rentalTaskService.createRentalTask(ctx.session.user.id, input)),
+
+  /**
+   * Update a task's address, time slot, staff, or notes
+   * 
+   * Requires admin role. Finished tasks cannot be changed.
+   */
+  update: adminProcedure
+    .input(updateRentalTaskSchema)
+    .mutation(({ ctx, input }) => rentalTaskService.updateRentalTask(ctx.session.user.id, input)),
+
+  /**
+   * Start or cancel a task
+   * 
+   * Requires admin role.
+   */
+  updateStatus: adminProcedure
+    .input(updateRentalTaskStatusSchema)
+    .mutation(({ ctx, input }) =>
+      rentalTaskService.updateRentalTaskStatus(ctx.session.user.id, input)
+    ),
+
+  /**
+   * Complete a task
+   * 
+   * Requires admin role. For pickups, can check in every asset still out on
+   * the rental, which completes the rental.
+   */
+  complete: adminProcedure
+    .input(completeRentalTaskSchema)
+    .mutation(({ ctx, input }) => rentalTaskService.completeRentalTask(ctx.session.user.id, input)),
+
+  // ============================================================================
+  // Admin-Only Queries
+  // ============================================================================
+  
+  /**
+   * List tasks with filtering
+   * 
+   * Requires admin role.
+   * Supports filtering by rental, type, status, staff, and day.
+   */
+  list: adminProcedure
+    .input(listRentalTasksSchema)
+    .query(({ input }) => rentalTaskService.listRentalTasks(input)),
+
+  /**
+   * Get the route sheet for a day
+   * 
+   * Requires admin role. Optionally for one staff member.
+   */
+  routeSheet: adminProcedure
+    .input(getRouteSheetSchema)
+    .query(({ input }) => rentalTaskService.getRouteSheet(input)),
+});
@@ -10,11 +10,21 @@ import {
   createRentalSchema,
   updateRentalSchema,
   updateRentalStatusSchema,
+  quoteRentalPriceSchema,
+  returnRentalAssetsSchema,
+  extendRentalSchema,
+  swapRentalAssetSchema,
+  addRentalAssetsSchema,
+  settleDepositSchema,
+  refundDepositSchema,
+  recordRentalPaymentSchema,
   getRentalByIdSchema,
   listRentalsSchema,
   cancelRentalSchema,
+  listOverdueJobRunsSchema,
 } from "../schemas";
 import * as rentalService from "../services/rental.service";
+import * as rentalOverdueService from "../services/rental-overdue.service";
 
 export const rentalRouter = createTRPCRouter({
   // ============================================================================
@@ -49,6 +59,76 @@ export const rentalRouter = createTRPCRouter({
     .input(updateRentalStatusSchema)
     .mutation(({ ctx, input }) => rentalService.updateRentalStatus(ctx.session.user.id, input)),
 
+  /**
+   * Return some of a rental's assets
+   * 
+   * Requires admin role. Releases only the listed assets and records their return,
+   * including optional check-in inspections with damage/loss charges.
+   * The rental is completed once every asset is back.
+   */
+  returnAssets: adminProcedure
+    .input(returnRentalAssetsSchema)
+    .mutation(({ ctx, input }) => rentalService.returnRentalAssets(ctx.session.user.id, input)),
+
+  /**
+   * Extend a rental's end date
+   * 
+   * Requires admin role. Checks the assets are free for the extended window,
+   * recalculates the total amount, and records the extension history.
+   */
+  extend: adminProcedure
+    .input(extendRentalSchema)
+    .mutation(({ ctx, input }) => rentalService.extendRental(ctx.session.user.id, input)),
+
+  /**
+   * Swap an asset on an active rental for another unit
+   * 
+   * Requires admin role. Closes the outgoing asset's line on the swap date and
+   * sends it to maintenance or back into stock; each unit is charged for the
+   * days it was out.
+   */
+  swapAsset: adminProcedure
+    .input(swapRentalAssetSchema)
+    .mutation(({ ctx, input }) => rentalService.swapRentalAsset(ctx.session.user.id, input)),
+
+  /**
+   * Add assets to an active rental
+   * 
+   * Requires admin role. Added assets are charged from the day they went out.
+   */
+  addAssets: adminProcedure
+    .input(addRentalAssetsSchema)
+    .mutation(({ ctx, input }) => rentalService.addRentalAssets(ctx.session.user.id, input)),
+
+  /**
+   * Settle a rental's deposit
+   * 
+   * Requires admin role. Nets the deposit against penalty, damage charges,
+   * and unpaid rent, and optionally records a first refund.
+   */
+  settleDeposit: adminProcedure
+    .input(settleDepositSchema)
+    .mutation(({ ctx, input }) => rentalService.settleDeposit(ctx.session.user.id, input)),
+
+  /**
+   * Record a deposit refund
+   * 
+   * Requires admin role. Supports partial refunds up to the refundable amount.
+   */
+  refundDeposit: adminProcedure
+    .input(refundDepositSchema)
+    .mutation(({ ctx, input }) => rentalService.refundDeposit(ctx.session.user.id, input)),
+
+  /**
+   * Record a payment received for a rental
+   * 
+   * Requires admin role. Adds the payment (cash, transfer, or card) to the
+   * rental's ledger; the payment status is derived from the outstanding balance.
+   */
+  recordPayment: adminProcedure
+    .input(recordRentalPaymentSchema)
+    .mutation(({ ctx, input }) => rentalService.recordRentalPayment(ctx.session.user.id, input)),
+
   /**
    * Cancel a rental
    * 
@@ -69,6 +149,26 @@ export const rentalRouter = createTRPCRouter({
       rentalService.completeRental(input.id, ctx.session.user.id)
     ),
 
+  /**
+   * Run the overdue penalty job now
+   * 
+   * Requires admin role. Flags active rentals past their end date as overdue
+   * and accrues their penalty; the run is recorded with the admin as trigger.
+   * The same job runs on a schedule via scripts/accrue-overdue-penalties.ts.
+   */
+  runOverdueJob: adminProcedure.mutation(({ ctx }) =>
+    rentalOverdueService.runOverduePenaltyJob("manual", ctx.session.user.id)
+  ),
+
+  /**
+   * List recent overdue penalty job runs
+   * 
+   * Requires admin role.
+   */
+  overdueJobRuns: adminProcedure
+    .input(listOverdueJobRunsSchema)
+    .query(({ input }) => rentalOverdueService.listOverdueJobRuns(input)),
+
   // ============================================================================
   // Protected Queries (All Authenticated Users)
   // ============================================================================
@@ -91,4 +191,30 @@ export const rentalRouter = createTRPCRouter({
   list: protectedProcedure
     .input(listRentalsSchema)
     .query(({ input }) => rentalService.listRentals(input)),
+
+  /**
+   * Price a set of assets for a rental period
+   * 
+   * Available to all authenticated users.
+   * Returns the per-line price breakdown used when the rental is created.
+   */
+  quotePrice: protectedProcedure
+    .input(quoteRentalPriceSchema)
+    .query(({ input }) => rentalService.quoteRentalPrice(input)),
+
+  /**
+   * Get deposits currently held
+   * 
+   * Available to all authenticated users.
+   * Returns the total customer deposit money held and the rentals holding it.
+   */
+  depositsHeld: protectedProcedure.query(() => rentalService.getDepositsHeld()),
+
+  /**
+   * Get rentals flagged overdue
+   * 
+   * Available to all authenticated users.
+   * Returns each overdue rental's customer, days late, and accrued penalty.
+   */
+  overdue: protectedProcedure.query(() => rentalOverdueService.getOverdueRentals()),
 });
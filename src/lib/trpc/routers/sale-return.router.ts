@@ -0,0 +1,38 @@
+/**
+ * Sale Return Router
+ * 
+ * tRPC router for goods returned from completed sales.
+ * Handles issuing credit notes and listing a sale's returns.
+ */
+
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "../trpc";
+import { createSaleReturnSchema, getSaleReturnsSchema } from "../schemas";
+import * as saleReturnService from "../services/sale-return.service";
+
+export const saleReturnRouter = createTRPCRouter({
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Record a return against a completed sale
+   * 
+   * Requires admin role. Issues a credit note and restocks the returned items.
+   */
+  create: adminProcedure
+    .input(createSaleReturnSchema)
+    .mutation(({ ctx, input }) => saleReturnService.createSaleReturn(ctx.session.user.id, input)),
+
+  // ============================================================================
+  // Protected Queries (All Authenticated Users)
+  // ============================================================================
+  
+  /**
+   * List the returns (credit notes) of a sale
+   * 
+   * Available to all authenticated users. Used on the bill.
+   */
+  bySale: protectedProcedure
+    .input(getSaleReturnsSchema)
+    .query(({ input }) => saleReturnService.getSaleReturns(input)),
+});
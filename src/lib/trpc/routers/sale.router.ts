@@ -13,6 +13,8 @@ import {
   getSaleByIdSchema,
   listSalesSchema,
   deleteSaleSchema,
+  getSalesSummarySchema,
+  recordSalePaymentSchema,
 } from "../schemas";
 import * as saleService from "../services/sale.service";
 
@@ -24,20 +26,27 @@ export const saleRouter = createTRPCRouter({
   /**
    * Create a new sale
    * 
-   * Requires admin role. Validates stock availability and generates bill number.
+   * Requires admin role. Prices come from the price lists or the product;
+   * charging another price needs the sale.overridePrice permission and a
+   * reason. Validates stock availability and generates bill number.
    */
   create: adminProcedure
     .input(createSaleSchema)
-    .mutation(({ ctx, input }) => saleService.createSale(ctx.session.user.id, input)),
+    .mutation(({ ctx, input }) =>
+      saleService.createSale(ctx.session.user.id, input, ctx.session.user.role)
+    ),
 
   /**
    * Update an existing sale
    * 
-   * Requires admin role. Only pending sales can be updated.
+   * Requires admin role. Only pending sales can be updated. Items are
+   * repriced the same way as on create.
    */
   update: adminProcedure
     .input(updateSaleSchema)
-    .mutation(({ ctx, input }) => saleService.updateSale(ctx.session.user.id, input)),
+    .mutation(({ ctx, input }) =>
+      saleService.updateSale(ctx.session.user.id, input, ctx.session.user.role)
+    ),
 
   /**
    * Update sale status
@@ -49,6 +58,16 @@ export const saleRouter = createTRPCRouter({
     .input(updateSaleStatusSchema)
     .mutation(({ ctx, input }) => saleService.updateSaleStatus(ctx.session.user.id, input)),
 
+  /**
+   * Record a payment received for a sale
+   * 
+   * Requires admin role. Payments build up the sale's ledger; paidAmount and
+   * payment status are derived from it.
+   */
+  recordPayment: adminProcedure
+    .input(recordSalePaymentSchema)
+    .mutation(({ ctx, input }) => saleService.recordSalePayment(ctx.session.user.id, input)),
+
   /**
    * Delete a sale
    * 
@@ -80,4 +99,20 @@ export const saleRouter = createTRPCRouter({
   list: protectedProcedure
     .input(listSalesSchema)
     .query(({ input }) => saleService.listSales(input)),
+
+  /**
+   * Unpaid and partly paid sales with their outstanding amounts
+   * 
+   * Available to all authenticated users.
+   */
+  receivables: protectedProcedure.query(() => saleService.getSaleReceivables()),
+
+  /**
+   * Summarise sales for a period, net of returns
+   * 
+   * Available to all authenticated users.
+   */
+  summary: protectedProcedure
+    .input(getSalesSummarySchema)
+    .query(({ input }) => saleService.getSalesSummary(input)),
 });
@@ -0,0 +1,51 @@
+/**
+ * Tax Invoice Router
+ * 
+ * tRPC router for VAT tax invoices of sales and rental invoices.
+ * Handles issuing tax invoices and looking them up for printing.
+ */
+
+import { createTRPCRouter, protectedProcedure, adminProcedure } from "../trpc";
+import {
+  issueTaxInvoiceSchema,
+  getTaxInvoiceByIdSchema,
+  getTaxInvoiceBySourceSchema,
+} from "../schemas";
+import * as taxInvoiceService from "../services/tax-invoice.service";
+
+export const taxInvoiceRouter = createTRPCRouter({
+  // ============================================================================
+  // Admin-Only Mutations
+  // ============================================================================
+  
+  /**
+   * Issue a full or abbreviated tax invoice for a sale or rental invoice
+   * 
+   * Requires admin role. Takes the next number of the tax invoice series.
+   */
+  issue: adminProcedure
+    .input(issueTaxInvoiceSchema)
+    .mutation(({ ctx, input }) => taxInvoiceService.issueTaxInvoice(ctx.session.user.id, input)),
+
+  // ============================================================================
+  // Protected Queries (All Authenticated Users)
+  // ============================================================================
+  
+  /**
+   * Get a tax invoice by ID
+   * 
+   * Available to all authenticated users. Used by the print page.
+   */
+  getById: protectedProcedure
+    .input(getTaxInvoiceByIdSchema)
+    .query(({ input }) => taxInvoiceService.getTaxInvoiceById(input)),
+
+  /**
+   * Get the tax invoice issued for a sale or rental invoice, or null
+   * 
+   * Available to all authenticated users.
+   */
+  bySource: protectedProcedure
+    .input(getTaxInvoiceBySourceSchema)
+    .query(({ input }) => taxInvoiceService.getTaxInvoiceBySource(input)),
+});
@@ -83,6 +83,13 @@ export const userRouter = createTRPCRouter({
    */
   count: adminProcedure.query(() => userService.getUserCount()),
 
+  /**
+   * Get staff that tasks can be assigned to
+   * 
+   * Requires admin role. Returns every user's name and role, without email.
+   */
+  staff: adminProcedure.query(() => userService.listStaff()),
+
   // ============================================================================
   // User Self-Service Operations
   // ============================================================================
@@ -10,6 +10,10 @@ export const activityEntityTypeSchema = z.enum([
   "buyStock",
   "rentalAsset",
   "rental",
+  "rentalQuote",
+  "contractTerms",
+  "priceList",
+  "promotion",
   "user",
 ]);
 
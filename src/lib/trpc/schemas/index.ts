@@ -8,5 +8,16 @@ export * from "./product.schema";
 export * from "./buy-stock.schema";
 export * from "./rental-asset.schema";
 export * from "./rental.schema";
+export * from "./rental-task.schema";
+export * from "./rental-quote.schema";
+export * from "./rental-invoice.schema";
+export * from "./rental-contract.schema";
+export * from "./rental-notification.schema";
+export * from "./rental-status.schema";
+export * from "./rental-report.schema";
+export * from "./price-list.schema";
+export * from "./promotion.schema";
 export * from "./sale.schema";
+export * from "./sale-return.schema";
+export * from "./tax-invoice.schema";
 export * from "./activity-log.schema";
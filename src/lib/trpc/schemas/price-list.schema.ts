@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+/**
+ * Price List Validation Schemas
+ */
+
+export const priceListItemSchema = z.object({
+  productId: z.string().min(1, "ID สินค้าจำเป็นต้องระบุ"),
+  price: z.number().min(0, "ราคาต้องไม่เป็นค่าลบ"),
+});
+
+const priceListFields = {
+  name: z
+    .string()
+    .min(1, "ชื่อรายการราคาจำเป็นต้องระบุ")
+    .max(100, "ชื่อรายการราคาไม่เกิน 100 ตัวอักษร"),
+  description: z.string().max(500, "คำอธิบายไม่เกิน 500 ตัวอักษร").optional(),
+  isActive: z.boolean(),
+  // Higher wins when several lists apply on the same day
+  priority: z.number().int("ลำดับความสำคัญต้องเป็นจำนวนเต็ม"),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  items: z
+    .array(priceListItemSchema)
+    .min(1, "ต้องระบุราคาสินค้าอย่างน้อย 1 รายการ")
+    .refine((items) => new Set(items.map((item) => item.productId)).size === items.length, {
+      message: "สินค้าซ้ำกันในรายการราคา",
+    }),
+};
+
+const isDateRangeValid = (data: { startDate?: Date; endDate?: Date }) =>
+  !data.startDate || !data.endDate || data.endDate >= data.startDate;
+
+export const createPriceListSchema = z
+  .object({
+    ...priceListFields,
+    isActive: priceListFields.isActive.default(true),
+    priority: priceListFields.priority.default(0),
+  })
+  .refine(isDateRangeValid, {
+    message: "วันสิ้นสุดต้องไม่ก่อนวันเริ่มต้น",
+    path: ["endDate"],
+  });
+
+export const updatePriceListSchema = z
+  .object({
+    id: z.string().min(1, "ID รายการราคาจำเป็นต้องระบุ"),
+    name: priceListFields.name.optional(),
+    description: priceListFields.description,
+    isActive: priceListFields.isActive.optional(),
+    priority: priceListFields.priority.optional(),
+    // null clears the date
+    startDate: z.coerce.date().nullable().optional(),
+    endDate: z.coerce.date().nullable().optional(),
+    items: priceListFields.items.optional(),
+  })
+  .refine(
+    (data) =>
+      isDateRangeValid({
+        startDate: data.startDate ?? undefined,
+        endDate: data.endDate ?? undefined,
+      }),
+    {
+      message: "วันสิ้นสุดต้องไม่ก่อนวันเริ่มต้น",
+      path: ["endDate"],
+    }
+  );
+
+export const getPriceListByIdSchema = z.object({
+  id: z.string().min(1, "ID รายการราคาจำเป็นต้องระบุ"),
+});
+
+export const deletePriceListSchema = z.object({
+  id: z.string().min(1, "ID รายการราคาจำเป็นต้องระบุ"),
+});
+
+// Type exports
+export type PriceListItem = z.infer<typeof priceListItemSchema>;
+export type CreatePriceListInput = z.infer<typeof createPriceListSchema>;
+export type UpdatePriceListInput = z.infer<typeof updatePriceListSchema>;
+export type GetPriceListByIdInput = z.infer<typeof getPriceListByIdSchema>;
+export type DeletePriceListInput = z.infer<typeof deletePriceListSchema>;
@@ -6,6 +6,8 @@ import { z } from "zod";
 
 export const stockTypeSchema = z.enum(["buy", "rental"]);
 
+export const rentalRoundingModeSchema = z.enum(["none", "up", "down", "nearest"]);
+
 export const createProductSchema = z.object({
   name: z
     .string()
@@ -23,7 +25,11 @@ export const createProductSchema = z.object({
   images: z.array(z.string().url("URL รูปภาพไม่ถูกต้อง")).optional(),
   stockType: stockTypeSchema,
   dailyRentalRate: z.number().min(0, "ค่าเช่ารายวันต้องไม่เป็นค่าลบ").optional(),
+  weeklyRentalRate: z.number().min(0, "ค่าเช่ารายสัปดาห์ต้องไม่เป็นค่าลบ").optional(),
   monthlyRentalRate: z.number().min(0, "ค่าเช่ารายเดือนต้องไม่เป็นค่าลบ").optional(),
+  minRentalDays: z.number().int().min(1, "จำนวนวันเช่าขั้นต่ำต้องไม่น้อยกว่า 1").optional(),
+  rentalRoundingMode: rentalRoundingModeSchema.optional(),
+  rentalRoundingStep: z.number().min(0, "หน่วยการปัดเศษต้องไม่เป็นค่าลบ").optional(),
   insuranceFee: z.number().min(0, "ค่าประกันสินค้าต้องไม่เป็นค่าลบ").optional(),
   replacementPrice: z.number().min(0, "ราคากรณีสูญหายต้องไม่เป็นค่าลบ").optional(),
 });
@@ -48,7 +54,11 @@ export const updateProductSchema = z.object({
   images: z.array(z.string().url("URL รูปภาพไม่ถูกต้อง")).optional(),
   stockType: stockTypeSchema.optional(),
   dailyRentalRate: z.number().min(0, "ค่าเช่ารายวันต้องไม่เป็นค่าลบ").optional(),
+  weeklyRentalRate: z.number().min(0, "ค่าเช่ารายสัปดาห์ต้องไม่เป็นค่าลบ").optional(),
   monthlyRentalRate: z.number().min(0, "ค่าเช่ารายเดือนต้องไม่เป็นค่าลบ").optional(),
+  minRentalDays: z.number().int().min(1, "จำนวนวันเช่าขั้นต่ำต้องไม่น้อยกว่า 1").optional(),
+  rentalRoundingMode: rentalRoundingModeSchema.optional(),
+  rentalRoundingStep: z.number().min(0, "หน่วยการปัดเศษต้องไม่เป็นค่าลบ").optional(),
   insuranceFee: z.number().min(0, "ค่าประกันสินค้าต้องไม่เป็นค่าลบ").optional(),
   replacementPrice: z.number().min(0, "ราคากรณีสูญหายต้องไม่เป็นค่าลบ").optional(),
 });
@@ -71,6 +81,7 @@ export const deleteProductSchema = z.object({
 
 // Type exports
 export type StockType = z.infer<typeof stockTypeSchema>;
+export type RentalRoundingMode = z.infer<typeof rentalRoundingModeSchema>;
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
 export type GetProductByIdInput = z.infer<typeof getProductByIdSchema>;
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { couponCodeSchema } from "./sale.schema";
+
+/**
+ * Promotion Validation Schemas
+ */
+
+export const promotionTypeSchema = z.enum(["percentOff", "amountOff", "buyXGetY", "quantityBreak"]);
+
+export const promotionTierSchema = z.object({
+  minQuantity: z
+    .number()
+    .int("จำนวนขั้นต่ำต้องเป็นจำนวนเต็ม")
+    .min(1, "จำนวนขั้นต่ำต้องไม่น้อยกว่า 1"),
+  percentOff: z.number().min(0, "ส่วนลดต้องไม่เป็นค่าลบ").max(100, "ส่วนลดต้องไม่เกิน 100%"),
+});
+
+const promotionFields = {
+  name: z
+    .string()
+    .min(1, "ชื่อโปรโมชั่นจำเป็นต้องระบุ")
+    .max(100, "ชื่อโปรโมชั่นไม่เกิน 100 ตัวอักษร"),
+  description: z.string().max(500, "คำอธิบายไม่เกิน 500 ตัวอักษร").optional(),
+  type: promotionTypeSchema,
+  // Percent for percentOff, baht per unit for amountOff; the other types use their own fields
+  value: z.number().min(0, "มูลค่าส่วนลดต้องไม่เป็นค่าลบ"),
+  buyQuantity: z
+    .number()
+    .int("จำนวนที่ซื้อต้องเป็นจำนวนเต็ม")
+    .min(1, "จำนวนที่ซื้อต้องไม่น้อยกว่า 1"),
+  getQuantity: z
+    .number()
+    .int("จำนวนที่แถมต้องเป็นจำนวนเต็ม")
+    .min(1, "จำนวนที่แถมต้องไม่น้อยกว่า 1"),
+  tiers: z
+    .array(promotionTierSchema)
+    .refine((tiers) => new Set(tiers.map((tier) => tier.minQuantity)).size === tiers.length, {
+      message: "จำนวนขั้นต่ำซ้ำกัน",
+    }),
+  // Neither products nor categories means every product
+  productIds: z.array(z.string().min(1, "ID สินค้าจำเป็นต้องระบุ")),
+  categories: z.array(z.string().min(1).max(100, "หมวดหมู่ไม่เกิน 100 ตัวอักษร")),
+  couponCode: couponCodeSchema.regex(
+    /^[A-Za-z0-9-_]*$/,
+    "รหัสคูปองใช้ได้เฉพาะตัวอักษร ตัวเลข - และ _"
+  ),
+  isActive: z.boolean(),
+};
+
+const isDateRangeValid = (data: { startDate?: Date; endDate?: Date }) =>
+  !data.startDate || !data.endDate || data.endDate >= data.startDate;
+
+export const createPromotionSchema = z
+  .object({
+    ...promotionFields,
+    value: promotionFields.value.default(0),
+    buyQuantity: promotionFields.buyQuantity.optional(),
+    getQuantity: promotionFields.getQuantity.optional(),
+    tiers: promotionFields.tiers.default([]),
+    productIds: promotionFields.productIds.default([]),
+    categories: promotionFields.categories.default([]),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+    couponCode: promotionFields.couponCode.optional(),
+    isActive: promotionFields.isActive.default(true),
+  })
+  .refine(isDateRangeValid, {
+    message: "วันสิ้นสุดต้องไม่ก่อนวันเริ่มต้น",
+    path: ["endDate"],
+  });
+
+export const updatePromotionSchema = z
+  .object({
+    id: z.string().min(1, "ID โปรโมชั่นจำเป็นต้องระบุ"),
+    name: promotionFields.name.optional(),
+    description: promotionFields.description,
+    type: promotionFields.type.optional(),
+    value: promotionFields.value.optional(),
+    buyQuantity: promotionFields.buyQuantity.optional(),
+    getQuantity: promotionFields.getQuantity.optional(),
+    tiers: promotionFields.tiers.optional(),
+    productIds: promotionFields.productIds.optional(),
+    categories: promotionFields.categories.optional(),
+    // null clears the date
+    startDate: z.coerce.date().nullable().optional(),
+    endDate: z.coerce.date().nullable().optional(),
+    // Empty removes the coupon
+    couponCode: promotionFields.couponCode.optional(),
+    isActive: promotionFields.isActive.optional(),
+  })
+  .refine(
+    (data) =>
+      isDateRangeValid({
+        startDate: data.startDate ?? undefined,
+        endDate: data.endDate ?? undefined,
+      }),
+    {
+      message: "วันสิ้นสุดต้องไม่ก่อนวันเริ่มต้น",
+      path: ["endDate"],
+    }
+  );
+
+export const getPromotionByIdSchema = z.object({
+  id: z.string().min(1, "ID โปรโมชั่นจำเป็นต้องระบุ"),
+});
+
+export const deletePromotionSchema = z.object({
+  id: z.string().min(1, "ID โปรโมชั่นจำเป็นต้องระบุ"),
+});
+
+/**
+ * Sale items to preview promotions for, at the prices they will be charged
+ */
+export const evaluatePromotionsSchema = z.object({
+  items: z.array(
+    z.object({
+      productId: z.string().min(1, "ID สินค้าจำเป็นต้องระบุ"),
+      quantity: z.number().int("จำนวนต้องเป็นจำนวนเต็ม").min(1, "จำนวนต้องไม่น้อยกว่า 1"),
+      unitPrice: z.number().min(0, "ราคาต่อหน่วยต้องไม่เป็นค่าลบ"),
+    })
+  ),
+  couponCode: couponCodeSchema.optional(),
+});
+
+export const getPromotionReportSchema = z.object({
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+// Type exports
+export type PromotionTier = z.infer<typeof promotionTierSchema>;
+export type CreatePromotionInput = z.infer<typeof createPromotionSchema>;
+export type UpdatePromotionInput = z.infer<typeof updatePromotionSchema>;
+export type GetPromotionByIdInput = z.infer<typeof getPromotionByIdSchema>;
+export type DeletePromotionInput = z.infer<typeof deletePromotionSchema>;
+export type EvaluatePromotionsInput = z.infer<typeof evaluatePromotionsSchema>;
+export type GetPromotionReportInput = z.infer<typeof getPromotionReportSchema>;
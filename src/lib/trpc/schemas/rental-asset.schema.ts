@@ -57,6 +57,57 @@ export const deleteAssetSchema = z.object({
   id: z.string().min(1, "ID ทรัพย์สินจำเป็นต้องระบุ"),
 });
 
+export const getAvailableForPeriodSchema = z
+  .object({
+    productId: z.string().optional(),
+    startDate: z.coerce.date({
+      message: "วันที่เริ่มต้นจำเป็นต้องระบุ",
+    }),
+    endDate: z.coerce.date({
+      message: "วันที่สิ้นสุดจำเป็นต้องระบุ",
+    }),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "วันที่สิ้นสุดต้องมากกว่าวันที่เริ่มต้น",
+    path: ["endDate"],
+  });
+
+export const getAvailableGroupedSchema = z
+  .object({
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+  })
+  .optional();
+
+/**
+ * Longest window the asset timeline can be requested for, in days
+ */
+export const ASSET_TIMELINE_MAX_DAYS = 92;
+
+export const getAssetTimelineSchema = z
+  .object({
+    productId: z.string().optional(),
+    startDate: z.coerce.date({
+      message: "วันที่เริ่มต้นจำเป็นต้องระบุ",
+    }),
+    endDate: z.coerce.date({
+      message: "วันที่สิ้นสุดจำเป็นต้องระบุ",
+    }),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "วันที่สิ้นสุดต้องมากกว่าวันที่เริ่มต้น",
+    path: ["endDate"],
+  })
+  .refine(
+    (data) =>
+      data.endDate.getTime() - data.startDate.getTime() <=
+      ASSET_TIMELINE_MAX_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: `ช่วงเวลาต้องไม่เกิน ${ASSET_TIMELINE_MAX_DAYS} วัน`,
+      path: ["endDate"],
+    }
+  );
+
 // Type exports
 export type RentalAssetStatus = z.infer<typeof rentalAssetStatusSchema>;
 export type CreateRentalAssetInput = z.infer<typeof createRentalAssetSchema>;
@@ -65,3 +116,6 @@ export type UpdateAssetStatusInput = z.infer<typeof updateAssetStatusSchema>;
 export type GetAssetByIdInput = z.infer<typeof getAssetByIdSchema>;
 export type ListAssetsInput = z.infer<typeof listAssetsSchema>;
 export type DeleteAssetInput = z.infer<typeof deleteAssetSchema>;
+export type GetAvailableForPeriodInput = z.infer<typeof getAvailableForPeriodSchema>;
+export type GetAvailableGroupedInput = z.infer<typeof getAvailableGroupedSchema>;
+export type GetAssetTimelineInput = z.infer<typeof getAssetTimelineSchema>;
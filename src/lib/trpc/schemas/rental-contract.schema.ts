@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+/**
+ * Rental Contract Validation Schemas
+ */
+
+/**
+ * Signature captured on a canvas, as a PNG data URL
+ */
+export const signatureImageSchema = z
+  .string()
+  .min(1, "กรุณาลงลายมือชื่อ")
+  .max(500000, "ไฟล์ลายมือชื่อมีขนาดใหญ่เกินไป")
+  .regex(/^data:image\/png;base64,[A-Za-z0-9+/=]+$/, "รูปแบบลายมือชื่อไม่ถูกต้อง");
+
+export const publishContractTermsSchema = z.object({
+  title: z.string().min(1, "หัวข้อจำเป็นต้องระบุ").max(200, "หัวข้อไม่เกิน 200 ตัวอักษร"),
+  body: z
+    .string()
+    .min(1, "ข้อตกลงและเงื่อนไขจำเป็นต้องระบุ")
+    .max(20000, "ข้อตกลงและเงื่อนไขไม่เกิน 20000 ตัวอักษร"),
+});
+
+export const previewRentalContractSchema = z.object({
+  rentalId: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+});
+
+export const signRentalContractSchema = z.object({
+  rentalId: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+  customerSignerName: z
+    .string()
+    .min(1, "ชื่อผู้ลงนามจำเป็นต้องระบุ")
+    .max(200, "ชื่อผู้ลงนามไม่เกิน 200 ตัวอักษร"),
+  customerSignature: signatureImageSchema,
+  staffSignature: signatureImageSchema,
+});
+
+export const getRentalContractsSchema = z.object({
+  rentalId: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+});
+
+// Type exports
+export type PublishContractTermsInput = z.infer<typeof publishContractTermsSchema>;
+export type PreviewRentalContractInput = z.infer<typeof previewRentalContractSchema>;
+export type SignRentalContractInput = z.infer<typeof signRentalContractSchema>;
+export type GetRentalContractsInput = z.infer<typeof getRentalContractsSchema>;
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { rentalPaymentMethodSchema } from "./rental.schema";
+
+/**
+ * Rental Invoice Validation Schemas
+ */
+
+export const rentalInvoiceStatusSchema = z.enum(["unpaid", "paid", "void"]);
+
+export const getRentalInvoicesSchema = z.object({
+  rentalId: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+});
+
+/**
+ * Schema for issuing any invoices a monthly rental is due now
+ */
+export const generateRentalInvoicesSchema = z.object({
+  rentalId: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+});
+
+export const markRentalInvoicePaidSchema = z.object({
+  id: z.string().min(1, "ID ใบแจ้งหนี้จำเป็นต้องระบุ"),
+  method: rentalPaymentMethodSchema,
+  paidAt: z.coerce.date().optional(),
+});
+
+export const voidRentalInvoiceSchema = z.object({
+  id: z.string().min(1, "ID ใบแจ้งหนี้จำเป็นต้องระบุ"),
+  reason: z.string().min(1, "กรุณาระบุเหตุผล").max(500, "เหตุผลไม่เกิน 500 ตัวอักษร"),
+});
+
+// Type exports
+export type RentalInvoiceStatus = z.infer<typeof rentalInvoiceStatusSchema>;
+export type GetRentalInvoicesInput = z.infer<typeof getRentalInvoicesSchema>;
+export type GenerateRentalInvoicesInput = z.infer<typeof generateRentalInvoicesSchema>;
+export type MarkRentalInvoicePaidInput = z.infer<typeof markRentalInvoicePaidSchema>;
+export type VoidRentalInvoiceInput = z.infer<typeof voidRentalInvoiceSchema>;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+/**
+ * Rental Notification Validation Schemas
+ */
+
+export const notificationChannelSchema = z.enum(["sms", "email", "line"]);
+
+export const sendRentalNotificationSchema = z.object({
+  rentalId: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+  channel: notificationChannelSchema,
+});
+
+export const getRentalNotificationsSchema = z.object({
+  rentalId: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+});
+
+// Type exports
+export type NotificationChannel = z.infer<typeof notificationChannelSchema>;
+export type SendRentalNotificationInput = z.infer<typeof sendRentalNotificationSchema>;
+export type GetRentalNotificationsInput = z.infer<typeof getRentalNotificationsSchema>;
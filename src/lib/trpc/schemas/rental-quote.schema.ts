@@ -0,0 +1,131 @@
+import { z } from "zod";
+
+/**
+ * Rental Quote Validation Schemas
+ */
+
+export const rentalQuoteStatusSchema = z.enum(["open", "converted", "cancelled"]);
+
+/**
+ * Quoted product line: a product and how many units the customer wants
+ */
+export const rentalQuoteItemSchema = z.object({
+  productId: z.string().min(1, "ID สินค้าจำเป็นต้องระบุ"),
+  quantity: z.number().int().min(1, "จำนวนต้องไม่น้อยกว่า 1"),
+});
+
+export const createRentalQuoteSchema = z
+  .object({
+    customerName: z
+      .string()
+      .min(1, "ชื่อลูกค้าจำเป็นต้องระบุ")
+      .max(200, "ชื่อลูกค้าไม่เกิน 200 ตัวอักษร"),
+    customerPhone: z.string().max(20, "เบอร์โทรศัพท์ไม่เกิน 20 ตัวอักษร").optional(),
+    customerEmail: z.string().email("อีเมลไม่ถูกต้อง").optional(),
+    customerAddress: z.string().max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร").optional(),
+    items: z.array(rentalQuoteItemSchema).min(1, "ต้องเลือกสินค้าอย่างน้อย 1 รายการ"),
+    startDate: z.coerce.date({
+      message: "วันที่เริ่มต้นจำเป็นต้องระบุ",
+    }),
+    endDate: z.coerce.date({
+      message: "วันที่สิ้นสุดจำเป็นต้องระบุ",
+    }),
+    // Defaults to 7 days from creation
+    validUntil: z.coerce.date().optional(),
+    deposit: z.number().min(0, "เงินประกันต้องไม่เป็นค่าลบ").default(0),
+    shippingCost: z.number().min(0, "ค่าขนส่งต้องไม่เป็นค่าลบ").default(0),
+    notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "วันที่สิ้นสุดต้องมากกว่าวันที่เริ่มต้น",
+    path: ["endDate"],
+  });
+
+/**
+ * Schema for updating an open quote
+ *
+ * Changing items or dates reprices the quote at the current rates.
+ */
+export const updateRentalQuoteSchema = z
+  .object({
+    id: z.string().min(1, "ID ใบเสนอราคาจำเป็นต้องระบุ"),
+    customerName: z
+      .string()
+      .min(1, "ชื่อลูกค้าจำเป็นต้องระบุ")
+      .max(200, "ชื่อลูกค้าไม่เกิน 200 ตัวอักษร")
+      .optional(),
+    customerPhone: z.string().max(20, "เบอร์โทรศัพท์ไม่เกิน 20 ตัวอักษร").optional(),
+    customerEmail: z.string().email("อีเมลไม่ถูกต้อง").optional(),
+    customerAddress: z.string().max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร").optional(),
+    items: z.array(rentalQuoteItemSchema).min(1, "ต้องเลือกสินค้าอย่างน้อย 1 รายการ").optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+    validUntil: z.coerce.date().optional(),
+    deposit: z.number().min(0, "เงินประกันต้องไม่เป็นค่าลบ").optional(),
+    shippingCost: z.number().min(0, "ค่าขนส่งต้องไม่เป็นค่าลบ").optional(),
+    notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
+  })
+  .refine(
+    (data) => {
+      if (data.startDate && data.endDate) {
+        return data.endDate > data.startDate;
+      }
+      return true;
+    },
+    {
+      message: "วันที่สิ้นสุดต้องมากกว่าวันที่เริ่มต้น",
+      path: ["endDate"],
+    }
+  );
+
+export const priceRentalQuoteSchema = z
+  .object({
+    items: z.array(rentalQuoteItemSchema).min(1, "ต้องเลือกสินค้าอย่างน้อย 1 รายการ"),
+    startDate: z.coerce.date({
+      message: "วันที่เริ่มต้นจำเป็นต้องระบุ",
+    }),
+    endDate: z.coerce.date({
+      message: "วันที่สิ้นสุดจำเป็นต้องระบุ",
+    }),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "วันที่สิ้นสุดต้องมากกว่าวันที่เริ่มต้น",
+    path: ["endDate"],
+  });
+
+export const convertRentalQuoteSchema = z.object({
+  id: z.string().min(1, "ID ใบเสนอราคาจำเป็นต้องระบุ"),
+});
+
+export const cancelRentalQuoteSchema = z.object({
+  id: z.string().min(1, "ID ใบเสนอราคาจำเป็นต้องระบุ"),
+  reason: z.string().max(500, "เหตุผลไม่เกิน 500 ตัวอักษร").optional(),
+});
+
+export const getRentalQuoteByIdSchema = z.object({
+  id: z.string().min(1, "ID ใบเสนอราคาจำเป็นต้องระบุ"),
+});
+
+/**
+ * Schema for listing quotes
+ *
+ * "expired" selects open quotes whose validUntil has passed; "open" only
+ * selects quotes that can still be converted.
+ */
+export const listRentalQuotesSchema = z.object({
+  status: z.enum(["open", "expired", "converted", "cancelled"]).optional(),
+  search: z.string().optional(),
+  page: z.number().min(1).default(1),
+  limit: z.number().min(1).max(100).default(20),
+});
+
+// Type exports
+export type RentalQuoteStatus = z.infer<typeof rentalQuoteStatusSchema>;
+export type RentalQuoteItemInput = z.infer<typeof rentalQuoteItemSchema>;
+export type CreateRentalQuoteInput = z.infer<typeof createRentalQuoteSchema>;
+export type UpdateRentalQuoteInput = z.infer<typeof updateRentalQuoteSchema>;
+export type PriceRentalQuoteInput = z.infer<typeof priceRentalQuoteSchema>;
+export type ConvertRentalQuoteInput = z.infer<typeof convertRentalQuoteSchema>;
+export type CancelRentalQuoteInput = z.infer<typeof cancelRentalQuoteSchema>;
+export type GetRentalQuoteByIdInput = z.infer<typeof getRentalQuoteByIdSchema>;
+export type ListRentalQuotesInput = z.infer<typeof listRentalQuotesSchema>;
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+/**
+ * Rental Report Validation Schemas
+ */
+
+/**
+ * Longest period a report can cover, in days
+ */
+export const RENTAL_REPORT_MAX_DAYS = 366;
+
+export const getRentalReportSchema = z
+  .object({
+    productId: z.string().optional(),
+    startDate: z.coerce.date({
+      message: "วันที่เริ่มต้นจำเป็นต้องระบุ",
+    }),
+    endDate: z.coerce.date({
+      message: "วันที่สิ้นสุดจำเป็นต้องระบุ",
+    }),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "วันที่สิ้นสุดต้องมากกว่าวันที่เริ่มต้น",
+    path: ["endDate"],
+  })
+  .refine(
+    (data) =>
+      data.endDate.getTime() - data.startDate.getTime() <=
+      RENTAL_REPORT_MAX_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: `ช่วงเวลาต้องไม่เกิน ${RENTAL_REPORT_MAX_DAYS} วัน`,
+      path: ["endDate"],
+    }
+  );
+
+// Type exports
+export type GetRentalReportInput = z.infer<typeof getRentalReportSchema>;
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+/**
+ * Rental Status Link Validation Schemas
+ */
+
+export const createRentalStatusLinkSchema = z.object({
+  rentalId: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, "อายุลิงก์ต้องไม่น้อยกว่า 1 วัน")
+    .max(90, "อายุลิงก์ต้องไม่เกิน 90 วัน")
+    .default(30),
+});
+
+export const getPublicRentalStatusSchema = z.object({
+  token: z.string().min(1, "ลิงก์ไม่ถูกต้อง").max(500, "ลิงก์ไม่ถูกต้อง"),
+});
+
+// Type exports
+export type CreateRentalStatusLinkInput = z.infer<typeof createRentalStatusLinkSchema>;
+export type GetPublicRentalStatusInput = z.infer<typeof getPublicRentalStatusSchema>;
@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { assetInspectionSchema } from "./rental.schema";
+
+/**
+ * Rental Task (Delivery/Pickup) Validation Schemas
+ */
+
+export const rentalTaskTypeSchema = z.enum(["delivery", "pickup"]);
+
+export const rentalTaskStatusSchema = z.enum([
+  "scheduled",
+  "in_progress",
+  "completed",
+  "cancelled",
+]);
+
+/**
+ * Allowed rental task status transitions
+ *
+ * - scheduled → in_progress: staff has set out
+ * - scheduled/in_progress → completed: goods delivered or collected
+ * - scheduled/in_progress → cancelled: task will not be carried out
+ *
+ * completed and cancelled are final.
+ */
+export const RENTAL_TASK_STATUS_TRANSITIONS: Record<
+  z.infer<typeof rentalTaskStatusSchema>,
+  ReadonlyArray<z.infer<typeof rentalTaskStatusSchema>>
+> = {
+  scheduled: ["in_progress", "completed", "cancelled"],
+  in_progress: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+/**
+ * Check whether a rental task may move from one status to another
+ */
+export function canTransitionRentalTaskStatus(
+  from: z.infer<typeof rentalTaskStatusSchema>,
+  to: z.infer<typeof rentalTaskStatusSchema>
+): boolean {
+  return RENTAL_TASK_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export const createRentalTaskSchema = z
+  .object({
+    rentalId: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+    type: rentalTaskTypeSchema,
+    address: z.string().max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร").optional(),
+    scheduledStart: z.coerce.date({
+      message: "เวลาเริ่มต้นจำเป็นต้องระบุ",
+    }),
+    scheduledEnd: z.coerce.date({
+      message: "เวลาสิ้นสุดจำเป็นต้องระบุ",
+    }),
+    assignedTo: z.string().optional(),
+    notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
+  })
+  .refine((data) => data.scheduledEnd > data.scheduledStart, {
+    message: "เวลาสิ้นสุดต้องมากกว่าเวลาเริ่มต้น",
+    path: ["scheduledEnd"],
+  });
+
+export const updateRentalTaskSchema = z
+  .object({
+    id: z.string().min(1, "ID งานจำเป็นต้องระบุ"),
+    address: z
+      .string()
+      .min(1, "ที่อยู่จำเป็นต้องระบุ")
+      .max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร")
+      .optional(),
+    scheduledStart: z.coerce.date().optional(),
+    scheduledEnd: z.coerce.date().optional(),
+    // null removes the assignment
+    assignedTo: z.string().nullable().optional(),
+    notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
+  })
+  .refine(
+    (data) => {
+      if (data.scheduledStart && data.scheduledEnd) {
+        return data.scheduledEnd > data.scheduledStart;
+      }
+      return true;
+    },
+    {
+      message: "เวลาสิ้นสุดต้องมากกว่าเวลาเริ่มต้น",
+      path: ["scheduledEnd"],
+    }
+  );
+
+export const updateRentalTaskStatusSchema = z.object({
+  id: z.string().min(1, "ID งานจำเป็นต้องระบุ"),
+  status: z.enum(["in_progress", "cancelled"]),
+});
+
+/**
+ * Schema for completing a task
+ *
+ * For pickup tasks, checkIn also returns every asset still out on the rental,
+ * with optional per-asset inspections (same as returning assets on the rental).
+ */
+export const completeRentalTaskSchema = z.object({
+  id: z.string().min(1, "ID งานจำเป็นต้องระบุ"),
+  checkIn: z.boolean().default(false),
+  condition: z.string().max(500, "สภาพทรัพย์สินไม่เกิน 500 ตัวอักษร").optional(),
+  inspections: z.array(assetInspectionSchema).optional(),
+});
+
+export const listRentalTasksSchema = z.object({
+  rentalId: z.string().optional(),
+  type: rentalTaskTypeSchema.optional(),
+  status: rentalTaskStatusSchema.optional(),
+  assignedTo: z.string().optional(),
+  date: z.coerce.date().optional(),
+});
+
+export const getRouteSheetSchema = z.object({
+  date: z.coerce.date({
+    message: "วันที่จำเป็นต้องระบุ",
+  }),
+  assignedTo: z.string().optional(),
+});
+
+// Type exports
+export type RentalTaskType = z.infer<typeof rentalTaskTypeSchema>;
+export type RentalTaskStatus = z.infer<typeof rentalTaskStatusSchema>;
+export type CreateRentalTaskInput = z.infer<typeof createRentalTaskSchema>;
+export type UpdateRentalTaskInput = z.infer<typeof updateRentalTaskSchema>;
+export type UpdateRentalTaskStatusInput = z.infer<typeof updateRentalTaskStatusSchema>;
+export type CompleteRentalTaskInput = z.infer<typeof completeRentalTaskSchema>;
+export type ListRentalTasksInput = z.infer<typeof listRentalTasksSchema>;
+export type GetRouteSheetInput = z.infer<typeof getRouteSheetSchema>;
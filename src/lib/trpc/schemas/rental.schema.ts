@@ -6,12 +6,49 @@ import { z } from "zod";
 
 export const rentalStatusSchema = z.enum(["pending", "active", "completed", "cancelled"]);
 
+/**
+ * How a rental is billed: once for the booked period, or by monthly invoices
+ * until the assets are returned
+ */
+export const rentalBillingCycleSchema = z.enum(["once", "monthly"]);
+
+/**
+ * Allowed rental status transitions
+ *
+ * - pending → active: assets handed over to the customer
+ * - pending → cancelled: booking released before handover
+ * - active → completed: every asset returned (and inspected) through a return
+ *
+ * completed and cancelled are final. An active rental cannot be cancelled
+ * because its assets are still with the customer; it must be completed.
+ */
+export const RENTAL_STATUS_TRANSITIONS: Record<
+  z.infer<typeof rentalStatusSchema>,
+  ReadonlyArray<z.infer<typeof rentalStatusSchema>>
+> = {
+  pending: ["active", "cancelled"],
+  active: ["completed"],
+  completed: [],
+  cancelled: [],
+};
+
+/**
+ * Check whether a rental may move from one status to another
+ */
+export function canTransitionRentalStatus(
+  from: z.infer<typeof rentalStatusSchema>,
+  to: z.infer<typeof rentalStatusSchema>
+): boolean {
+  return RENTAL_STATUS_TRANSITIONS[from].includes(to);
+}
+
 export const createRentalSchema = z
   .object({
     customerName: z
       .string()
       .min(1, "ชื่อลูกค้าจำเป็นต้องระบุ")
       .max(200, "ชื่อลูกค้าไม่เกิน 200 ตัวอักษร"),
+    customerIdNumber: z.string().max(30, "เลขบัตรประชาชนไม่เกิน 30 ตัวอักษร").optional(),
     customerPhone: z.string().max(20, "เบอร์โทรศัพท์ไม่เกิน 20 ตัวอักษร").optional(),
     customerEmail: z.string().email("อีเมลไม่ถูกต้อง").optional(),
     customerAddress: z.string().max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร").optional(),
@@ -30,9 +67,9 @@ export const createRentalSchema = z
       message: "วันที่สิ้นสุดจำเป็นต้องระบุ",
     }),
     expectedReturnDate: z.coerce.date().optional(),
-    dailyRate: z.number().min(0, "อัตรารายวันต้องไม่เป็นค่าลบ"),
     deposit: z.number().min(0, "เงินประกันต้องไม่เป็นค่าลบ").default(0),
     shippingCost: z.number().min(0, "ค่าขนส่งต้องไม่เป็นค่าลบ").default(0),
+    billingCycle: rentalBillingCycleSchema.default("once"),
     notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
   })
   .refine((data) => data.endDate > data.startDate, {
@@ -48,6 +85,7 @@ export const updateRentalSchema = z
       .min(1, "ชื่อลูกค้าจำเป็นต้องระบุ")
       .max(200, "ชื่อลูกค้าไม่เกิน 200 ตัวอักษร")
       .optional(),
+    customerIdNumber: z.string().max(30, "เลขบัตรประชาชนไม่เกิน 30 ตัวอักษร").optional(),
     customerPhone: z.string().max(20, "เบอร์โทรศัพท์ไม่เกิน 20 ตัวอักษร").optional(),
     customerEmail: z.string().email("อีเมลไม่ถูกต้อง").optional(),
     customerAddress: z.string().max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร").optional(),
@@ -63,9 +101,9 @@ export const updateRentalSchema = z
     startDate: z.coerce.date().optional(),
     endDate: z.coerce.date().optional(),
     expectedReturnDate: z.coerce.date().optional(),
-    dailyRate: z.number().min(0, "อัตรารายวันต้องไม่เป็นค่าลบ").optional(),
     deposit: z.number().min(0, "เงินประกันต้องไม่เป็นค่าลบ").optional(),
     shippingCost: z.number().min(0, "ค่าขนส่งต้องไม่เป็นค่าลบ").optional(),
+    billingCycle: rentalBillingCycleSchema.optional(),
     notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
   })
   .refine(
@@ -81,14 +119,134 @@ export const updateRentalSchema = z
     }
   );
 
+export const quoteRentalPriceSchema = z
+  .object({
+    assets: z
+      .array(
+        z.object({
+          assetId: z.string().min(1, "ID ทรัพย์สินจำเป็นต้องระบุ"),
+          quantity: z.number().int().min(1, "จำนวนต้องไม่น้อยกว่า 1"),
+        })
+      )
+      .min(1, "ต้องเลือกทรัพย์สินอย่างน้อย 1 รายการ"),
+    startDate: z.coerce.date({
+      message: "วันที่เริ่มต้นจำเป็นต้องระบุ",
+    }),
+    endDate: z.coerce.date({
+      message: "วันที่สิ้นสุดจำเป็นต้องระบุ",
+    }),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "วันที่สิ้นสุดต้องมากกว่าวันที่เริ่มต้น",
+    path: ["endDate"],
+  });
+
 export const updateRentalStatusSchema = z.object({
   id: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
   status: rentalStatusSchema,
-  actualReturnDate: z.coerce.date().optional(),
-  penaltyRate: z.number().min(0, "อัตราค่าปรับต้องไม่เป็นค่าลบ").optional(),
   notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
 });
 
+export const assetConditionSchema = z.enum(["ok", "dirty", "damaged", "lost"]);
+
+export const assetInspectionSchema = z.object({
+  assetId: z.string().min(1, "ID ทรัพย์สินจำเป็นต้องระบุ"),
+  condition: assetConditionSchema,
+  photoUrls: z
+    .array(z.string().url("URL รูปภาพไม่ถูกต้อง"))
+    .max(10, "แนบรูปภาพได้ไม่เกิน 10 รูป")
+    .default([]),
+  note: z.string().max(500, "หมายเหตุไม่เกิน 500 ตัวอักษร").optional(),
+  chargeAmount: z.number().min(0, "ค่าเสียหายต้องไม่เป็นค่าลบ").optional(),
+});
+
+export const returnRentalAssetsSchema = z.object({
+  id: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+  assetIds: z
+    .array(z.string().min(1, "ID ทรัพย์สินจำเป็นต้องระบุ"))
+    .min(1, "ต้องเลือกทรัพย์สินที่คืนอย่างน้อย 1 รายการ"),
+  returnDate: z.coerce.date().optional(),
+  condition: z.string().max(500, "สภาพทรัพย์สินไม่เกิน 500 ตัวอักษร").optional(),
+  inspections: z.array(assetInspectionSchema).optional(),
+});
+
+export const extendRentalSchema = z.object({
+  id: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+  newEndDate: z.coerce.date({
+    message: "วันที่สิ้นสุดใหม่จำเป็นต้องระบุ",
+  }),
+  reason: z.string().max(500, "เหตุผลไม่เกิน 500 ตัวอักษร").optional(),
+});
+
+/**
+ * Where a unit swapped out of an active rental goes: in for repair, or back
+ * into stock
+ */
+export const swappedAssetStatusSchema = z.enum(["maintenance", "available"]);
+
+export const swapRentalAssetSchema = z
+  .object({
+    id: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+    fromAssetId: z.string().min(1, "ID ทรัพย์สินจำเป็นต้องระบุ"),
+    toAssetId: z.string().min(1, "ID ทรัพย์สินจำเป็นต้องระบุ"),
+    date: z.coerce.date().optional(),
+    reason: z.string().min(1, "กรุณาระบุเหตุผล").max(500, "เหตุผลไม่เกิน 500 ตัวอักษร"),
+    outgoingStatus: swappedAssetStatusSchema.default("maintenance"),
+  })
+  .refine((data) => data.fromAssetId !== data.toAssetId, {
+    message: "ทรัพย์สินที่เปลี่ยนต้องไม่ใช่ชิ้นเดิม",
+    path: ["toAssetId"],
+  });
+
+export const addRentalAssetsSchema = z.object({
+  id: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+  assets: z
+    .array(
+      z.object({
+        assetId: z.string().min(1, "ID ทรัพย์สินจำเป็นต้องระบุ"),
+        quantity: z.number().int().min(1, "จำนวนต้องไม่น้อยกว่า 1"),
+      })
+    )
+    .min(1, "ต้องมีทรัพย์สินอย่างน้อย 1 รายการ"),
+  date: z.coerce.date().optional(),
+});
+
+export const depositRefundMethodSchema = z.enum(["cash", "transfer", "other"]);
+
+const depositRefundFields = {
+  amount: z.number().positive("จำนวนเงินคืนต้องมากกว่า 0"),
+  method: depositRefundMethodSchema,
+  refundedAt: z.coerce.date().optional(),
+  note: z.string().max(500, "หมายเหตุไม่เกิน 500 ตัวอักษร").optional(),
+};
+
+export const settleDepositSchema = z.object({
+  id: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+  note: z.string().max(500, "หมายเหตุไม่เกิน 500 ตัวอักษร").optional(),
+  refund: z.object(depositRefundFields).optional(),
+});
+
+export const refundDepositSchema = z.object({
+  id: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+  ...depositRefundFields,
+});
+
+export const rentalPaymentMethodSchema = z.enum(["cash", "transfer", "card"]);
+
+/**
+ * Payment status derived from a rental's outstanding balance
+ */
+export const rentalPaymentStatusSchema = z.enum(["unpaid", "partial", "paid"]);
+
+export const recordRentalPaymentSchema = z.object({
+  id: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
+  amount: z.number().positive("จำนวนเงินต้องมากกว่า 0"),
+  method: rentalPaymentMethodSchema,
+  paidAt: z.coerce.date().optional(),
+  reference: z.string().max(100, "เลขอ้างอิงไม่เกิน 100 ตัวอักษร").optional(),
+  note: z.string().max(500, "หมายเหตุไม่เกิน 500 ตัวอักษร").optional(),
+});
+
 export const getRentalByIdSchema = z.object({
   id: z.string().min(1, "ID การเช่าจำเป็นต้องระบุ"),
 });
@@ -99,6 +257,8 @@ export const listRentalsSchema = z.object({
   startDate: z.coerce.date().optional(),
   endDate: z.coerce.date().optional(),
   search: z.string().optional(),
+  // true: only rentals with a balance still owed; false: only fully paid rentals
+  hasOutstanding: z.boolean().optional(),
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
 });
@@ -108,11 +268,34 @@ export const cancelRentalSchema = z.object({
   reason: z.string().max(500, "เหตุผลไม่เกิน 500 ตัวอักษร").optional(),
 });
 
+/**
+ * Schema for listing overdue penalty job runs (most recent first)
+ */
+export const listOverdueJobRunsSchema = z.object({
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
 // Type exports
 export type RentalStatus = z.infer<typeof rentalStatusSchema>;
+export type RentalBillingCycle = z.infer<typeof rentalBillingCycleSchema>;
 export type CreateRentalInput = z.infer<typeof createRentalSchema>;
 export type UpdateRentalInput = z.infer<typeof updateRentalSchema>;
+export type QuoteRentalPriceInput = z.infer<typeof quoteRentalPriceSchema>;
 export type UpdateRentalStatusInput = z.infer<typeof updateRentalStatusSchema>;
+export type AssetCondition = z.infer<typeof assetConditionSchema>;
+export type AssetInspectionInput = z.infer<typeof assetInspectionSchema>;
+export type ReturnRentalAssetsInput = z.infer<typeof returnRentalAssetsSchema>;
+export type ExtendRentalInput = z.infer<typeof extendRentalSchema>;
+export type SwappedAssetStatus = z.infer<typeof swappedAssetStatusSchema>;
+export type SwapRentalAssetInput = z.infer<typeof swapRentalAssetSchema>;
+export type AddRentalAssetsInput = z.infer<typeof addRentalAssetsSchema>;
+export type DepositRefundMethod = z.infer<typeof depositRefundMethodSchema>;
+export type SettleDepositInput = z.infer<typeof settleDepositSchema>;
+export type RefundDepositInput = z.infer<typeof refundDepositSchema>;
+export type RentalPaymentMethod = z.infer<typeof rentalPaymentMethodSchema>;
+export type RentalPaymentStatus = z.infer<typeof rentalPaymentStatusSchema>;
+export type RecordRentalPaymentInput = z.infer<typeof recordRentalPaymentSchema>;
 export type GetRentalByIdInput = z.infer<typeof getRentalByIdSchema>;
 export type ListRentalsInput = z.infer<typeof listRentalsSchema>;
 export type CancelRentalInput = z.infer<typeof cancelRentalSchema>;
+export type ListOverdueJobRunsInput = z.infer<typeof listOverdueJobRunsSchema>;
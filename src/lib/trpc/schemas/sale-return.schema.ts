@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+/**
+ * Sale Return Validation Schemas
+ */
+
+export const saleReturnSettlementSchema = z.enum(["refund"]);
+
+export const saleReturnItemSchema = z.object({
+  productId: z.string().min(1, "ID สินค้าจำเป็นต้องระบุ"),
+  quantity: z.number().int().min(1, "จำนวนที่คืนต้องไม่น้อยกว่า 1"),
+});
+
+export const createSaleReturnSchema = z
+  .object({
+    saleId: z.string().min(1, "ID การขายจำเป็นต้องระบุ"),
+    items: z.array(saleReturnItemSchema).min(1, "ต้องเลือกสินค้าที่คืนอย่างน้อย 1 รายการ"),
+    reason: z
+      .string()
+      .trim()
+      .min(1, "กรุณาระบุเหตุผลการคืน")
+      .max(500, "เหตุผลไม่เกิน 500 ตัวอักษร"),
+    settlement: saleReturnSettlementSchema,
+    refundMethod: z.enum(["cash", "card", "transfer", "other"]).optional(),
+    notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
+  })
+  .refine((data) => new Set(data.items.map((item) => item.productId)).size === data.items.length, {
+    message: "สินค้าแต่ละรายการระบุได้ครั้งเดียว",
+    path: ["items"],
+  })
+  .refine((data) => data.settlement !== "refund" || !!data.refundMethod, {
+    message: "กรุณาระบุวิธีคืนเงิน",
+    path: ["refundMethod"],
+  });
+
+export const getSaleReturnsSchema = z.object({
+  saleId: z.string().min(1, "ID การขายจำเป็นต้องระบุ"),
+});
+
+// Type exports
+export type SaleReturnSettlement = z.infer<typeof saleReturnSettlementSchema>;
+export type CreateSaleReturnInput = z.infer<typeof createSaleReturnSchema>;
+export type GetSaleReturnsInput = z.infer<typeof getSaleReturnsSchema>;
@@ -4,57 +4,70 @@ import { z } from "zod";
  * Sale Validation Schemas
  */
 
+/**
+ * Sale item as requested; names and prices are filled in by the server
+ *
+ * unitPrice is only needed to charge something other than the list price,
+ * which is a price override and needs a reason.
+ */
 export const saleItemSchema = z.object({
   productId: z.string().min(1, "ID สินค้าจำเป็นต้องระบุ"),
-  productName: z.string().min(1, "ชื่อสินค้าจำเป็นต้องระบุ"),
-  sku: z.string().min(1, "SKU จำเป็นต้องระบุ"),
-  quantity: z.number().min(1, "จำนวนต้องไม่น้อยกว่า 1"),
-  unitPrice: z.number().min(0, "ราคาต่อหน่วยต้องไม่เป็นค่าลบ"),
-  totalPrice: z.number().min(0, "ราคารวมต้องไม่เป็นค่าลบ"),
+  quantity: z.number().int("จำนวนต้องเป็นจำนวนเต็ม").min(1, "จำนวนต้องไม่น้อยกว่า 1"),
+  unitPrice: z.number().min(0, "ราคาต่อหน่วยต้องไม่เป็นค่าลบ").optional(),
+  priceOverrideReason: z.string().max(200, "เหตุผลการแก้ไขราคาไม่เกิน 200 ตัวอักษร").optional(),
 });
 
-export const createSaleSchema = z
-  .object({
-    customerName: z
-      .string()
-      .min(1, "ชื่อลูกค้าจำเป็นต้องระบุ")
-      .max(200, "ชื่อลูกค้าไม่เกิน 200 ตัวอักษร"),
-    customerPhone: z.string().max(20, "เบอร์โทรศัพท์ไม่เกิน 20 ตัวอักษร").optional(),
-    customerEmail: z.string().email("อีเมลไม่ถูกต้อง").optional(),
-    customerAddress: z.string().max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร").optional(),
-    items: z.array(saleItemSchema).min(1, "ต้องเลือกสินค้าอย่างน้อย 1 รายการ"),
-    subtotal: z.number().min(0, "ยอดรวมต้องไม่เป็นค่าลบ"),
-    discount: z.number().min(0, "ส่วนลดต้องไม่เป็นค่าลบ").default(0),
-    tax: z.number().min(0, "ภาษีต้องไม่เป็นค่าลบ").default(0),
-    totalAmount: z.number().min(0, "ยอดรวมทั้งสิ้นต้องไม่เป็นค่าลบ"),
-    deposit: z.number().min(0, "เงินมัดจำต้องไม่เป็นค่าลบ").default(0),
-    paymentMethod: z.enum(["cash", "card", "transfer", "other"]).optional(),
-    paymentStatus: z.enum(["pending", "paid", "partial"]).default("pending"),
-    paidAmount: z.number().min(0, "จำนวนเงินที่จ่ายต้องไม่เป็นค่าลบ").default(0),
-    notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
-  })
-  .refine(
-    (data) => {
-      // Validate that items total matches subtotal
-      const itemsTotal = data.items.reduce((sum, item) => sum + item.totalPrice, 0);
-      return Math.abs(itemsTotal - data.subtotal) < 0.01; // Allow small floating point differences
-    },
-    {
-      message: "ยอดรวมสินค้าไม่ตรงกับยอดรวม",
-      path: ["subtotal"],
-    }
-  )
-  .refine(
-    (data) => {
-      // Validate that total amount = subtotal - discount + tax
-      const calculatedTotal = data.subtotal - data.discount + data.tax;
-      return Math.abs(calculatedTotal - data.totalAmount) < 0.01;
-    },
-    {
-      message: "ยอดรวมทั้งสิ้นไม่ถูกต้อง (ยอดรวม = ยอดรวม - ส่วนลด + ภาษี)",
-      path: ["totalAmount"],
-    }
-  );
+/**
+ * How VAT is charged: not at all, included in prices, or added on top
+ */
+export const vatModeSchema = z.enum(["none", "inclusive", "exclusive"]);
+
+/**
+ * 13-digit taxpayer ID; empty when the customer has none
+ */
+export const taxIdSchema = z
+  .string()
+  .regex(/^(\d{13})?$/, "เลขประจำตัวผู้เสียภาษีต้องเป็นตัวเลข 13 หลัก");
+
+/**
+ * 5-digit branch code ("00000" for head office); empty when not given
+ */
+export const branchCodeSchema = z.string().regex(/^(\d{5})?$/, "รหัสสาขาต้องเป็นตัวเลข 5 หลัก");
+
+/**
+ * Coupon code entered on a sale; empty when none
+ */
+export const couponCodeSchema = z.string().trim().max(50, "รหัสคูปองไม่เกิน 50 ตัวอักษร");
+
+export const salePaymentMethodSchema = z.enum(["cash", "card", "transfer", "other"]);
+
+/**
+ * Payment status derived from a sale's payments ledger
+ */
+export const salePaymentStatusSchema = z.enum(["pending", "paid", "partial"]);
+
+export const createSaleSchema = z.object({
+  customerName: z
+    .string()
+    .min(1, "ชื่อลูกค้าจำเป็นต้องระบุ")
+    .max(200, "ชื่อลูกค้าไม่เกิน 200 ตัวอักษร"),
+  customerPhone: z.string().max(20, "เบอร์โทรศัพท์ไม่เกิน 20 ตัวอักษร").optional(),
+  customerEmail: z.string().email("อีเมลไม่ถูกต้อง").optional(),
+  customerAddress: z.string().max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร").optional(),
+  customerTaxId: taxIdSchema.optional(),
+  customerBranchCode: branchCodeSchema.optional(),
+  items: z.array(saleItemSchema).min(1, "ต้องเลือกสินค้าอย่างน้อย 1 รายการ"),
+  // Promotions are applied by the server; a coupon adds its promotion
+  couponCode: couponCodeSchema.optional(),
+  discount: z.number().min(0, "ส่วนลดต้องไม่เป็นค่าลบ").default(0),
+  // Prices, VAT and the total are worked out by the server; defaults to the configured mode
+  vatMode: vatModeSchema.optional(),
+  deposit: z.number().min(0, "เงินมัดจำต้องไม่เป็นค่าลบ").default(0),
+  // Method and amount of a payment taken with the sale (first ledger entry)
+  paymentMethod: salePaymentMethodSchema.optional(),
+  paidAmount: z.number().min(0, "จำนวนเงินที่จ่ายต้องไม่เป็นค่าลบ").default(0),
+  notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
+});
 
 export const updateSaleSchema = z.object({
   id: z.string().min(1, "ID การขายจำเป็นต้องระบุ"),
@@ -66,15 +79,14 @@ export const updateSaleSchema = z.object({
   customerPhone: z.string().max(20, "เบอร์โทรศัพท์ไม่เกิน 20 ตัวอักษร").optional(),
   customerEmail: z.string().email("อีเมลไม่ถูกต้อง").optional(),
   customerAddress: z.string().max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร").optional(),
+  customerTaxId: taxIdSchema.optional(),
+  customerBranchCode: branchCodeSchema.optional(),
   items: z.array(saleItemSchema).min(1, "ต้องเลือกสินค้าอย่างน้อย 1 รายการ").optional(),
-  subtotal: z.number().min(0, "ยอดรวมต้องไม่เป็นค่าลบ").optional(),
+  // Empty removes the coupon
+  couponCode: couponCodeSchema.optional(),
   discount: z.number().min(0, "ส่วนลดต้องไม่เป็นค่าลบ").optional(),
-  tax: z.number().min(0, "ภาษีต้องไม่เป็นค่าลบ").optional(),
-  totalAmount: z.number().min(0, "ยอดรวมทั้งสิ้นต้องไม่เป็นค่าลบ").optional(),
+  vatMode: vatModeSchema.optional(),
   deposit: z.number().min(0, "เงินมัดจำต้องไม่เป็นค่าลบ").optional(),
-  paymentMethod: z.enum(["cash", "card", "transfer", "other"]).optional(),
-  paymentStatus: z.enum(["pending", "paid", "partial"]).optional(),
-  paidAmount: z.number().min(0, "จำนวนเงินที่จ่ายต้องไม่เป็นค่าลบ").optional(),
   notes: z.string().max(1000, "หมายเหตุไม่เกิน 1000 ตัวอักษร").optional(),
 });
 
@@ -90,7 +102,7 @@ export const getSaleByIdSchema = z.object({
 
 export const listSalesSchema = z.object({
   status: z.enum(["pending", "completed", "cancelled"]).optional(),
-  paymentStatus: z.enum(["pending", "paid", "partial"]).optional(),
+  paymentStatus: salePaymentStatusSchema.optional(),
   customerName: z.string().optional(),
   startDate: z.coerce.date().optional(),
   endDate: z.coerce.date().optional(),
@@ -99,15 +111,34 @@ export const listSalesSchema = z.object({
   limit: z.number().min(1).max(100).default(20),
 });
 
+export const recordSalePaymentSchema = z.object({
+  id: z.string().min(1, "ID การขายจำเป็นต้องระบุ"),
+  amount: z.number().positive("จำนวนเงินต้องมากกว่า 0"),
+  method: salePaymentMethodSchema,
+  paidAt: z.coerce.date().optional(),
+  reference: z.string().max(100, "เลขอ้างอิงไม่เกิน 100 ตัวอักษร").optional(),
+  note: z.string().max(500, "หมายเหตุไม่เกิน 500 ตัวอักษร").optional(),
+});
+
 export const deleteSaleSchema = z.object({
   id: z.string().min(1, "ID การขายจำเป็นต้องระบุ"),
 });
 
+export const getSalesSummarySchema = z.object({
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
 // Type exports
 export type SaleItem = z.infer<typeof saleItemSchema>;
+export type VatMode = z.infer<typeof vatModeSchema>;
+export type SalePaymentMethod = z.infer<typeof salePaymentMethodSchema>;
+export type SalePaymentStatus = z.infer<typeof salePaymentStatusSchema>;
 export type CreateSaleInput = z.infer<typeof createSaleSchema>;
 export type UpdateSaleInput = z.infer<typeof updateSaleSchema>;
 export type UpdateSaleStatusInput = z.infer<typeof updateSaleStatusSchema>;
 export type GetSaleByIdInput = z.infer<typeof getSaleByIdSchema>;
 export type ListSalesInput = z.infer<typeof listSalesSchema>;
+export type RecordSalePaymentInput = z.infer<typeof recordSalePaymentSchema>;
 export type DeleteSaleInput = z.infer<typeof deleteSaleSchema>;
+export type GetSalesSummaryInput = z.infer<typeof getSalesSummarySchema>;
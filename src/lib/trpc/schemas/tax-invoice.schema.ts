@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { branchCodeSchema, taxIdSchema } from "./sale.schema";
+
+/**
+ * Tax Invoice Validation Schemas
+ */
+
+export const taxInvoiceKindSchema = z.enum(["full", "abbreviated"]);
+
+export const taxInvoiceSourceTypeSchema = z.enum(["sale", "rentalInvoice"]);
+
+/**
+ * Buyer details printed on a tax invoice; any field left out is taken from
+ * the sale or rental
+ */
+export const taxInvoiceBuyerSchema = z.object({
+  name: z.string().max(200, "ชื่อผู้ซื้อไม่เกิน 200 ตัวอักษร").optional(),
+  address: z.string().max(500, "ที่อยู่ไม่เกิน 500 ตัวอักษร").optional(),
+  taxId: taxIdSchema.optional(),
+  branchCode: branchCodeSchema.optional(),
+});
+
+export const issueTaxInvoiceSchema = z.object({
+  sourceType: taxInvoiceSourceTypeSchema,
+  sourceId: z.string().min(1, "ID รายการจำเป็นต้องระบุ"),
+  kind: taxInvoiceKindSchema,
+  buyer: taxInvoiceBuyerSchema.optional(),
+});
+
+export const getTaxInvoiceByIdSchema = z.object({
+  id: z.string().min(1, "ID ใบกำกับภาษีจำเป็นต้องระบุ"),
+});
+
+export const getTaxInvoiceBySourceSchema = z.object({
+  sourceType: taxInvoiceSourceTypeSchema,
+  sourceId: z.string().min(1, "ID รายการจำเป็นต้องระบุ"),
+});
+
+// Type exports
+export type TaxInvoiceKind = z.infer<typeof taxInvoiceKindSchema>;
+export type TaxInvoiceSourceType = z.infer<typeof taxInvoiceSourceTypeSchema>;
+export type IssueTaxInvoiceInput = z.infer<typeof issueTaxInvoiceSchema>;
+export type GetTaxInvoiceByIdInput = z.infer<typeof getTaxInvoiceByIdSchema>;
+export type GetTaxInvoiceBySourceInput = z.infer<typeof getTaxInvoiceBySourceSchema>;
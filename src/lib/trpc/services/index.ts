@@ -7,6 +7,20 @@ export * from "./auth.service";
 export * from "./product.service";
 export * from "./buy-stock.service";
 export * from "./rental-asset.service";
+export * from "./rental-booking.service";
+export * from "./rental-pricing.service";
 export * from "./rental.service";
+export * from "./rental-overdue.service";
+export * from "./rental-task.service";
+export * from "./rental-quote.service";
+export * from "./rental-invoice.service";
+export * from "./rental-contract.service";
+export * from "./rental-notification.service";
+export * from "./rental-status.service";
+export * from "./rental-report.service";
+export * from "./price-list.service";
+export * from "./promotion.service";
 export * from "./sale.service";
+export * from "./sale-return.service";
+export * from "./tax-invoice.service";
 export * from "./activity-log.service";
@@ -0,0 +1,424 @@
+/**
+ * Price List Service
+ *
+ * Handles all price-list-related business logic including:
+ * - Price list CRUD operations
+ * - Working out the list price of products on a given day, from the
+ *   applicable price lists or Product.price
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import PriceList, { type IPriceList } from "@/lib/db/models/price-list";
+import Product from "@/lib/db/models/product";
+import type {
+  CreatePriceListInput,
+  UpdatePriceListInput,
+  GetPriceListByIdInput,
+  DeletePriceListInput,
+} from "../schemas";
+import * as activityLogService from "./activity-log.service";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Price List Data Transfer Object
+ *
+ * Items carry the product's current name and SKU for display.
+ */
+export interface PriceListDTO {
+  id: string;
+  name: string;
+  description?: string;
+  isActive: boolean;
+  priority: number;
+  startDate?: Date;
+  endDate?: Date;
+  items: Array<{
+    productId: string;
+    productName: string;
+    sku: string;
+    price: number;
+  }>;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Selling price of a product on a given day
+ *
+ * priceListId and priceListName are set when the price comes from a price
+ * list rather than Product.price.
+ */
+export interface ListPriceDTO {
+  productId: string;
+  price: number;
+  priceListId?: string;
+  priceListName?: string;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert price list documents to DTOs, looking up product names in one query
+ */
+async function toPriceListDTOs(priceLists: IPriceList[]): Promise<PriceListDTO[]> {
+  const productIds = [
+    ...new Set(priceLists.flatMap((list) => list.items.map((item) => item.productId.toString()))),
+  ];
+  const products = await Product.find({ _id: { $in: productIds } })
+    .select("name sku")
+    .lean();
+  const productById = new Map(products.map((product) => [product._id.toString(), product]));
+
+  return priceLists.map((list) => ({
+    id: list._id.toString(),
+    name: list.name,
+    description: list.description,
+    isActive: list.isActive,
+    priority: list.priority,
+    startDate: list.startDate,
+    endDate: list.endDate,
+    items: list.items.map((item) => {
+      const product = productById.get(item.productId.toString());
+      return {
+        productId: item.productId.toString(),
+        productName: product?.name ?? "-",
+        sku: product?.sku ?? "-",
+        price: item.price,
+      };
+    }),
+    createdBy: list.createdBy.toString(),
+    createdAt: list.createdAt,
+    updatedAt: list.updatedAt,
+  }));
+}
+
+/**
+ * Verify every product on a price list exists and is sold from buy stock
+ *
+ * @throws TRPCError if a product is missing or is a rental product
+ */
+async function verifyPriceListProducts(items: CreatePriceListInput["items"]): Promise<void> {
+  const products = await Product.find({
+    _id: { $in: items.map((item) => item.productId) },
+  })
+    .select("stockType")
+    .lean();
+
+  if (products.length !== items.length) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบสินค้าบางรายการในรายการราคา",
+    });
+  }
+  if (products.some((product) => product.stockType !== "buy")) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "รายการราคาใช้ได้กับสินค้าประเภทสต็อกซื้อเท่านั้น",
+    });
+  }
+}
+
+/**
+ * Active price lists that apply on a day, highest priority first
+ *
+ * Among lists with the same priority, the most recently created wins.
+ */
+async function findApplicablePriceLists(at: Date): Promise<IPriceList[]> {
+  const startOfDay = new Date(at);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  return PriceList.find({
+    isActive: true,
+    $and: [
+      { $or: [{ startDate: null }, { startDate: { $lte: at } }] },
+      { $or: [{ endDate: null }, { endDate: { $gte: startOfDay } }] },
+    ],
+  })
+    .sort({ priority: -1, createdAt: -1 })
+    .lean();
+}
+
+// ============================================================================
+// Price Resolution
+// ============================================================================
+
+/**
+ * Work out the selling price of products on a day
+ *
+ * The highest-priority applicable price list that lists a product sets its
+ * price; otherwise Product.price is used. Products with neither are left out
+ * of the result.
+ *
+ * @param productIds - Products to price
+ * @param at - Day to price for (default: now)
+ * @returns List prices keyed by product ID
+ */
+export async function resolveListPrices(
+  productIds: string[],
+  at: Date = new Date()
+): Promise<Map<string, ListPriceDTO>> {
+  await connectToDatabase();
+
+  const [products, priceLists] = await Promise.all([
+    Product.find({ _id: { $in: productIds } })
+      .select("price")
+      .lean(),
+    findApplicablePriceLists(at),
+  ]);
+
+  const listPrices = new Map<string, ListPriceDTO>();
+  for (const product of products) {
+    const productId = product._id.toString();
+    const priceList = priceLists.find((list) =>
+      list.items.some((item) => item.productId.toString() === productId)
+    );
+    const listItem = priceList?.items.find((item) => item.productId.toString() === productId);
+
+    if (priceList && listItem) {
+      listPrices.set(productId, {
+        productId,
+        price: listItem.price,
+        priceListId: priceList._id.toString(),
+        priceListName: priceList.name,
+      });
+    } else if (product.price !== undefined && product.price !== null) {
+      listPrices.set(productId, { productId, price: product.price });
+    }
+  }
+
+  return listPrices;
+}
+
+/**
+ * Current selling price of every buy-stock product that has one
+ *
+ * @returns List prices of today
+ */
+export async function getCurrentPrices(): Promise<ListPriceDTO[]> {
+  await connectToDatabase();
+
+  const products = await Product.find({ stockType: "buy" }).select("_id").lean();
+  const listPrices = await resolveListPrices(products.map((product) => product._id.toString()));
+
+  return [...listPrices.values()];
+}
+
+// ============================================================================
+// CRUD Operations
+// ============================================================================
+
+/**
+ * Create a new price list
+ *
+ * @param userId - ID of user creating the price list
+ * @param input - Price list data
+ * @returns Created price list DTO
+ * @throws TRPCError if a product is missing or is a rental product
+ */
+export async function createPriceList(
+  userId: string,
+  input: CreatePriceListInput
+): Promise<PriceListDTO> {
+  await connectToDatabase();
+
+  await verifyPriceListProducts(input.items);
+
+  const priceList = await PriceList.create({
+    ...input,
+    items: input.items.map((item) => ({
+      productId: new mongoose.Types.ObjectId(item.productId),
+      price: item.price,
+    })),
+    createdBy: new mongoose.Types.ObjectId(userId),
+  });
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "create",
+    "priceList",
+    priceList._id.toString(),
+    priceList.name
+  );
+
+  const [dto] = await toPriceListDTOs([priceList.toObject()]);
+  return dto;
+}
+
+/**
+ * Update an existing price list
+ *
+ * Items, when given, replace the whole list. A null start or end date
+ * removes it.
+ *
+ * @param userId - ID of user updating the price list
+ * @param input - Price list update data
+ * @returns Updated price list DTO
+ * @throws TRPCError if the price list is not found or a product is invalid
+ */
+export async function updatePriceList(
+  userId: string,
+  input: UpdatePriceListInput
+): Promise<PriceListDTO> {
+  await connectToDatabase();
+
+  const { id, startDate, endDate, items, ...updateData } = input;
+
+  const oldPriceList = await PriceList.findById(id).lean();
+  if (!oldPriceList) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบรายการราคา",
+    });
+  }
+
+  const nextStartDate = startDate === undefined ? oldPriceList.startDate : startDate;
+  const nextEndDate = endDate === undefined ? oldPriceList.endDate : endDate;
+  if (nextStartDate && nextEndDate && nextEndDate < nextStartDate) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "วันสิ้นสุดต้องไม่ก่อนวันเริ่มต้น",
+    });
+  }
+
+  if (items) {
+    await verifyPriceListProducts(items);
+  }
+
+  const priceList = await PriceList.findByIdAndUpdate(
+    id,
+    {
+      $set: {
+        ...updateData,
+        ...(startDate && { startDate }),
+        ...(endDate && { endDate }),
+        ...(items && {
+          items: items.map((item) => ({
+            productId: new mongoose.Types.ObjectId(item.productId),
+            price: item.price,
+          })),
+        }),
+      },
+      $unset: {
+        ...(startDate === null && { startDate: "" }),
+        ...(endDate === null && { endDate: "" }),
+      },
+    },
+    { new: true }
+  ).lean();
+
+  if (!priceList) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบรายการราคา",
+    });
+  }
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "priceList",
+    priceList._id.toString(),
+    priceList.name,
+    {
+      old: {
+        isActive: oldPriceList.isActive,
+        priority: oldPriceList.priority,
+        items: oldPriceList.items.map((item) => ({
+          productId: item.productId.toString(),
+          price: item.price,
+        })),
+      },
+      new: {
+        isActive: priceList.isActive,
+        priority: priceList.priority,
+        items: priceList.items.map((item) => ({
+          productId: item.productId.toString(),
+          price: item.price,
+        })),
+      },
+    }
+  );
+
+  const [dto] = await toPriceListDTOs([priceList]);
+  return dto;
+}
+
+/**
+ * Get a single price list by ID
+ *
+ * @param input - Price list ID
+ * @returns Price list DTO
+ * @throws TRPCError if the price list is not found
+ */
+export async function getPriceListById(input: GetPriceListByIdInput): Promise<PriceListDTO> {
+  await connectToDatabase();
+
+  const priceList = await PriceList.findById(input.id).lean();
+  if (!priceList) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบรายการราคา",
+    });
+  }
+
+  const [dto] = await toPriceListDTOs([priceList]);
+  return dto;
+}
+
+/**
+ * List every price list, highest priority first
+ *
+ * @returns Price list DTOs
+ */
+export async function listPriceLists(): Promise<PriceListDTO[]> {
+  await connectToDatabase();
+
+  const priceLists = await PriceList.find().sort({ priority: -1, createdAt: -1 }).lean();
+  return toPriceListDTOs(priceLists);
+}
+
+/**
+ * Delete a price list
+ *
+ * Sales keep the prices they were made at.
+ *
+ * @param userId - ID of user deleting the price list
+ * @param input - Price list ID to delete
+ * @returns Success status
+ * @throws TRPCError if the price list is not found
+ */
+export async function deletePriceList(
+  userId: string,
+  input: DeletePriceListInput
+): Promise<{ success: boolean }> {
+  await connectToDatabase();
+
+  const priceList = await PriceList.findByIdAndDelete(input.id).lean();
+  if (!priceList) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบรายการราคา",
+    });
+  }
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "delete",
+    "priceList",
+    input.id,
+    priceList.name
+  );
+
+  return { success: true };
+}
@@ -39,7 +39,11 @@ export interface ProductDTO {
   images?: string[];
   stockType: "buy" | "rental";
   dailyRentalRate?: number;
+  weeklyRentalRate?: number;
   monthlyRentalRate?: number;
+  minRentalDays?: number;
+  rentalRoundingMode?: "none" | "up" | "down" | "nearest";
+  rentalRoundingStep?: number;
   insuranceFee?: number;
   replacementPrice?: number;
   createdBy: string;
@@ -102,7 +106,11 @@ export async function createProduct(
     images: product.images,
     stockType: product.stockType,
     dailyRentalRate: product.dailyRentalRate,
+    weeklyRentalRate: product.weeklyRentalRate,
     monthlyRentalRate: product.monthlyRentalRate,
+    minRentalDays: product.minRentalDays,
+    rentalRoundingMode: product.rentalRoundingMode,
+    rentalRoundingStep: product.rentalRoundingStep,
     insuranceFee: product.insuranceFee,
     replacementPrice: product.replacementPrice,
     createdBy: product.createdBy.toString(),
@@ -189,7 +197,11 @@ export async function updateProduct(
     images: product.images,
     stockType: product.stockType,
     dailyRentalRate: product.dailyRentalRate,
+    weeklyRentalRate: product.weeklyRentalRate,
     monthlyRentalRate: product.monthlyRentalRate,
+    minRentalDays: product.minRentalDays,
+    rentalRoundingMode: product.rentalRoundingMode,
+    rentalRoundingStep: product.rentalRoundingStep,
     insuranceFee: product.insuranceFee,
     replacementPrice: product.replacementPrice,
     createdBy: product.createdBy.toString(),
@@ -227,7 +239,11 @@ export async function getProductById(input: GetProductByIdInput): Promise<Produc
     images: product.images,
     stockType: product.stockType,
     dailyRentalRate: product.dailyRentalRate,
+    weeklyRentalRate: product.weeklyRentalRate,
     monthlyRentalRate: product.monthlyRentalRate,
+    minRentalDays: product.minRentalDays,
+    rentalRoundingMode: product.rentalRoundingMode,
+    rentalRoundingStep: product.rentalRoundingStep,
     insuranceFee: product.insuranceFee,
     replacementPrice: product.replacementPrice,
     createdBy: product.createdBy.toString(),
@@ -296,7 +312,11 @@ export async function listProducts(
       images: product.images,
       stockType: product.stockType,
       dailyRentalRate: product.dailyRentalRate,
+      weeklyRentalRate: product.weeklyRentalRate,
       monthlyRentalRate: product.monthlyRentalRate,
+      minRentalDays: product.minRentalDays,
+      rentalRoundingMode: product.rentalRoundingMode,
+      rentalRoundingStep: product.rentalRoundingStep,
       insuranceFee: product.insuranceFee,
       replacementPrice: product.replacementPrice,
       createdBy: product.createdBy.toString(),
@@ -0,0 +1,708 @@
+/**
+ * Promotion Service
+ *
+ * Handles all promotion-related business logic including:
+ * - Promotion CRUD operations
+ * - Applying promotions and coupons to sale items
+ * - Reporting what each promotion has cost
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import { roundAmount } from "@/lib/vat";
+import Promotion, { type IPromotion, type PromotionType } from "@/lib/db/models/promotion";
+import Product from "@/lib/db/models/product";
+import Sale from "@/lib/db/models/sale";
+import type {
+  CreatePromotionInput,
+  UpdatePromotionInput,
+  GetPromotionByIdInput,
+  DeletePromotionInput,
+  EvaluatePromotionsInput,
+  GetPromotionReportInput,
+} from "../schemas";
+import * as activityLogService from "./activity-log.service";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Promotion Data Transfer Object
+ */
+export interface PromotionDTO {
+  id: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  tiers: Array<{
+    minQuantity: number;
+    percentOff: number;
+  }>;
+  productIds: string[];
+  categories: string[];
+  startDate?: Date;
+  endDate?: Date;
+  couponCode?: string;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Promotion applied to one sale line, with what it took off
+ */
+export interface AppliedPromotionDTO {
+  promotionId: string;
+  name: string;
+  type: PromotionType;
+  couponCode?: string;
+  discount: number;
+}
+
+/**
+ * Promotions applied to a set of sale items
+ *
+ * items are in the same order as the items evaluated. couponCode is the
+ * normalised code when a coupon was applied.
+ */
+export interface PromotionEvaluationDTO {
+  items: Array<{
+    productId: string;
+    promotionDiscount: number;
+    appliedPromotions: AppliedPromotionDTO[];
+  }>;
+  promotionDiscount: number;
+  couponCode?: string;
+}
+
+/**
+ * What each promotion cost on completed sales in a period
+ *
+ * quantity counts the units sold on lines the promotion applied to.
+ */
+export interface PromotionReportDTO {
+  totalDiscount: number;
+  promotions: Array<{
+    promotionId: string;
+    name: string;
+    type: PromotionType;
+    couponCode?: string;
+    salesCount: number;
+    quantity: number;
+    discount: number;
+  }>;
+}
+
+/**
+ * Sale line as priced, before promotions
+ */
+interface PromotableItem {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert a promotion document to a DTO
+ */
+function toPromotionDTO(promotion: IPromotion): PromotionDTO {
+  return {
+    id: promotion._id.toString(),
+    name: promotion.name,
+    description: promotion.description,
+    type: promotion.type,
+    value: promotion.value,
+    buyQuantity: promotion.buyQuantity,
+    getQuantity: promotion.getQuantity,
+    tiers: (promotion.tiers || []).map((tier) => ({
+      minQuantity: tier.minQuantity,
+      percentOff: tier.percentOff,
+    })),
+    productIds: (promotion.productIds || []).map((productId) => productId.toString()),
+    categories: promotion.categories || [],
+    startDate: promotion.startDate,
+    endDate: promotion.endDate,
+    couponCode: promotion.couponCode || undefined,
+    isActive: promotion.isActive,
+    createdBy: promotion.createdBy.toString(),
+    createdAt: promotion.createdAt,
+    updatedAt: promotion.updatedAt,
+  };
+}
+
+/**
+ * Verify a promotion has what its type needs and covers existing products
+ *
+ * @throws TRPCError if a rule is incomplete, a product is missing, or the
+ *   coupon code is taken by another promotion
+ */
+async function verifyPromotion(
+  promotion: Pick<
+    IPromotion,
+    "type" | "value" | "buyQuantity" | "getQuantity" | "tiers" | "couponCode"
+  > & { productIds: string[] },
+  excludeId?: string
+): Promise<void> {
+  if (promotion.type === "percentOff" && (promotion.value <= 0 || promotion.value > 100)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ส่วนลดเป็นเปอร์เซ็นต์ต้องมากกว่า 0 และไม่เกิน 100",
+    });
+  }
+  if (promotion.type === "amountOff" && promotion.value <= 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ส่วนลดต่อชิ้นต้องมากกว่า 0",
+    });
+  }
+  if (promotion.type === "buyXGetY" && (!promotion.buyQuantity || !promotion.getQuantity)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "กรุณาระบุจำนวนที่ซื้อและจำนวนที่แถม",
+    });
+  }
+  if (promotion.type === "quantityBreak" && promotion.tiers.length === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "กรุณาระบุขั้นส่วนลดตามจำนวนอย่างน้อย 1 ขั้น",
+    });
+  }
+
+  if (promotion.productIds.length > 0) {
+    const productCount = await Product.countDocuments({ _id: { $in: promotion.productIds } });
+    if (productCount !== new Set(promotion.productIds).size) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "ไม่พบสินค้าบางรายการในโปรโมชั่น",
+      });
+    }
+  }
+
+  if (promotion.couponCode) {
+    const existing = await Promotion.findOne({
+      couponCode: promotion.couponCode,
+      ...(excludeId && { _id: { $ne: excludeId } }),
+    })
+      .select("name")
+      .lean();
+    if (existing) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: `รหัสคูปองนี้ถูกใช้แล้วในโปรโมชั่น ${existing.name}`,
+      });
+    }
+  }
+}
+
+/**
+ * Active promotions that apply on a day, newest first
+ */
+async function findApplicablePromotions(at: Date): Promise<IPromotion[]> {
+  const startOfDay = new Date(at);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  return Promotion.find({
+    isActive: true,
+    $and: [
+      { $or: [{ startDate: null }, { startDate: { $lte: at } }] },
+      { $or: [{ endDate: null }, { endDate: { $gte: startOfDay } }] },
+    ],
+  })
+    .sort({ createdAt: -1 })
+    .lean();
+}
+
+/**
+ * Whether a promotion covers a product
+ *
+ * A promotion without products or categories covers every product.
+ */
+function isInScope(promotion: IPromotion, productId: string, category?: string): boolean {
+  const productIds = promotion.productIds || [];
+  const categories = promotion.categories || [];
+  if (productIds.length === 0 && categories.length === 0) {
+    return true;
+  }
+
+  return (
+    productIds.some((id) => id.toString() === productId) ||
+    (!!category && categories.includes(category))
+  );
+}
+
+/**
+ * What a promotion takes off a sale line
+ *
+ * Percentages apply to amount, which is what is left of the line after
+ * promotions already applied; unit-based discounts are capped at it.
+ *
+ * @param promotion - Promotion to apply
+ * @param item - Sale line as priced
+ * @param amount - Line amount still to be discounted
+ * @returns Discount, rounded to satang
+ */
+function getLineDiscount(promotion: IPromotion, item: PromotableItem, amount: number): number {
+  let discount = 0;
+  switch (promotion.type) {
+    case "percentOff":
+      discount = (amount * Math.min(promotion.value, 100)) / 100;
+      break;
+    case "amountOff":
+      discount = promotion.value * item.quantity;
+      break;
+    case "buyXGetY": {
+      const buyQuantity = promotion.buyQuantity ?? 0;
+      const getQuantity = promotion.getQuantity ?? 0;
+      if (buyQuantity > 0 && getQuantity > 0) {
+        const freeUnits = Math.floor(item.quantity / (buyQuantity + getQuantity)) * getQuantity;
+        discount = freeUnits * item.unitPrice;
+      }
+      break;
+    }
+    case "quantityBreak": {
+      // The highest tier the quantity reaches
+      const tier = (promotion.tiers || [])
+        .filter((candidate) => item.quantity >= candidate.minQuantity)
+        .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+      if (tier) {
+        discount = (amount * tier.percentOff) / 100;
+      }
+      break;
+    }
+  }
+
+  return roundAmount(Math.max(0, Math.min(discount, amount)));
+}
+
+/**
+ * Record of a promotion applied to a line
+ */
+function toAppliedPromotion(promotion: IPromotion, discount: number): AppliedPromotionDTO {
+  return {
+    promotionId: promotion._id.toString(),
+    name: promotion.name,
+    type: promotion.type,
+    couponCode: promotion.couponCode || undefined,
+    discount,
+  };
+}
+
+// ============================================================================
+// Promotion Engine
+// ============================================================================
+
+/**
+ * Apply promotions to priced sale items
+ *
+ * Each line gets the automatic promotion (one without a coupon code) that
+ * takes the most off it. When a coupon code is given, its promotion then
+ * applies to what is left of each line it covers. A line never goes below
+ * zero.
+ *
+ * @param items - Sale lines as priced
+ * @param couponCode - Coupon code entered on the sale, if any
+ * @param at - Day the sale is made (default: now)
+ * @returns Discounts and applied promotions per line, in the same order
+ * @throws TRPCError if the coupon is unknown, not running, or covers none of
+ *   the items
+ */
+export async function applyPromotions(
+  items: PromotableItem[],
+  couponCode?: string,
+  at: Date = new Date()
+): Promise<PromotionEvaluationDTO> {
+  await connectToDatabase();
+
+  const code = couponCode?.trim().toUpperCase() || undefined;
+  const [products, promotions] = await Promise.all([
+    Product.find({ _id: { $in: items.map((item) => item.productId) } })
+      .select("category")
+      .lean(),
+    findApplicablePromotions(at),
+  ]);
+  const categoryById = new Map(
+    products.map((product) => [product._id.toString(), product.category])
+  );
+
+  const coupon = code && promotions.find((promotion) => promotion.couponCode === code);
+  if (code && !coupon) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `ไม่พบคูปอง ${code} หรือคูปองไม่อยู่ในช่วงเวลาที่ใช้ได้`,
+    });
+  }
+  const automatic = promotions.filter((promotion) => !promotion.couponCode);
+
+  const evaluated = items.map((item) => {
+    const category = categoryById.get(item.productId);
+    const appliedPromotions: AppliedPromotionDTO[] = [];
+
+    // Best automatic promotion for the line
+    let best: AppliedPromotionDTO | undefined;
+    for (const promotion of automatic) {
+      if (!isInScope(promotion, item.productId, category)) {
+        continue;
+      }
+      const discount = getLineDiscount(promotion, item, item.totalPrice);
+      if (discount > 0 && (!best || discount > best.discount)) {
+        best = toAppliedPromotion(promotion, discount);
+      }
+    }
+    if (best) {
+      appliedPromotions.push(best);
+    }
+
+    // Coupon on what is left
+    if (coupon && isInScope(coupon, item.productId, category)) {
+      const remaining = roundAmount(item.totalPrice - (best?.discount ?? 0));
+      const discount = getLineDiscount(coupon, item, remaining);
+      if (discount > 0) {
+        appliedPromotions.push(toAppliedPromotion(coupon, discount));
+      }
+    }
+
+    return {
+      productId: item.productId,
+      promotionDiscount: roundAmount(
+        appliedPromotions.reduce((sum, applied) => sum + applied.discount, 0)
+      ),
+      appliedPromotions,
+    };
+  });
+
+  const isCouponUsed = evaluated.some((item) =>
+    item.appliedPromotions.some((applied) => applied.couponCode === code)
+  );
+  if (code && !isCouponUsed) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `คูปอง ${code} ใช้กับสินค้าในรายการนี้ไม่ได้`,
+    });
+  }
+
+  return {
+    items: evaluated,
+    promotionDiscount: roundAmount(
+      evaluated.reduce((sum, item) => sum + item.promotionDiscount, 0)
+    ),
+    couponCode: code,
+  };
+}
+
+/**
+ * Preview the promotions a sale would get
+ *
+ * Used by the sale form; the sale service applies the same rules when the
+ * sale is saved.
+ *
+ * @param input - Items at the prices they will be charged, and coupon code
+ * @returns Discounts and applied promotions per line
+ * @throws TRPCError if the coupon cannot be used
+ */
+export async function evaluatePromotions(
+  input: EvaluatePromotionsInput
+): Promise<PromotionEvaluationDTO> {
+  return applyPromotions(
+    input.items.map((item) => ({
+      ...item,
+      totalPrice: roundAmount(item.unitPrice * item.quantity),
+    })),
+    input.couponCode
+  );
+}
+
+// ============================================================================
+// CRUD Operations
+// ============================================================================
+
+/**
+ * Create a new promotion
+ *
+ * @param userId - ID of user creating the promotion
+ * @param input - Promotion data
+ * @returns Created promotion DTO
+ * @throws TRPCError if the rule is incomplete, a product is missing, or the
+ *   coupon code is taken
+ */
+export async function createPromotion(
+  userId: string,
+  input: CreatePromotionInput
+): Promise<PromotionDTO> {
+  await connectToDatabase();
+
+  const couponCode = input.couponCode?.toUpperCase() || undefined;
+  await verifyPromotion({ ...input, couponCode });
+
+  const promotion = await Promotion.create({
+    ...input,
+    couponCode,
+    productIds: input.productIds.map((productId) => new mongoose.Types.ObjectId(productId)),
+    createdBy: new mongoose.Types.ObjectId(userId),
+  });
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "create",
+    "promotion",
+    promotion._id.toString(),
+    promotion.name
+  );
+
+  return toPromotionDTO(promotion.toObject());
+}
+
+/**
+ * Update an existing promotion
+ *
+ * Sales already made keep the discounts they were given. A null start or
+ * end date removes it; an empty coupon code makes the promotion automatic.
+ *
+ * @param userId - ID of user updating the promotion
+ * @param input - Promotion update data
+ * @returns Updated promotion DTO
+ * @throws TRPCError if the promotion is not found or the result is invalid
+ */
+export async function updatePromotion(
+  userId: string,
+  input: UpdatePromotionInput
+): Promise<PromotionDTO> {
+  await connectToDatabase();
+
+  const { id, startDate, endDate, couponCode, productIds, ...updateData } = input;
+
+  const oldPromotion = await Promotion.findById(id).lean();
+  if (!oldPromotion) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบโปรโมชั่น",
+    });
+  }
+
+  const nextStartDate = startDate === undefined ? oldPromotion.startDate : startDate;
+  const nextEndDate = endDate === undefined ? oldPromotion.endDate : endDate;
+  if (nextStartDate && nextEndDate && nextEndDate < nextStartDate) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "วันสิ้นสุดต้องไม่ก่อนวันเริ่มต้น",
+    });
+  }
+
+  const nextCouponCode =
+    couponCode === undefined ? oldPromotion.couponCode : couponCode.toUpperCase() || undefined;
+  await verifyPromotion(
+    {
+      type: updateData.type ?? oldPromotion.type,
+      value: updateData.value ?? oldPromotion.value,
+      buyQuantity: updateData.buyQuantity ?? oldPromotion.buyQuantity,
+      getQuantity: updateData.getQuantity ?? oldPromotion.getQuantity,
+      tiers: updateData.tiers ?? oldPromotion.tiers ?? [],
+      couponCode: nextCouponCode,
+      productIds: productIds ?? [],
+    },
+    id
+  );
+
+  const promotion = await Promotion.findByIdAndUpdate(
+    id,
+    {
+      $set: {
+        ...updateData,
+        ...(startDate && { startDate }),
+        ...(endDate && { endDate }),
+        ...(couponCode && { couponCode: nextCouponCode }),
+        ...(productIds && {
+          productIds: productIds.map((productId) => new mongoose.Types.ObjectId(productId)),
+        }),
+      },
+      $unset: {
+        ...(startDate === null && { startDate: "" }),
+        ...(endDate === null && { endDate: "" }),
+        ...(couponCode === "" && { couponCode: "" }),
+      },
+    },
+    { new: true, runValidators: true }
+  ).lean();
+
+  if (!promotion) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบโปรโมชั่น",
+    });
+  }
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "promotion",
+    promotion._id.toString(),
+    promotion.name,
+    {
+      old: {
+        type: oldPromotion.type,
+        value: oldPromotion.value,
+        isActive: oldPromotion.isActive,
+        couponCode: oldPromotion.couponCode ?? null,
+      },
+      new: {
+        type: promotion.type,
+        value: promotion.value,
+        isActive: promotion.isActive,
+        couponCode: promotion.couponCode ?? null,
+      },
+    }
+  );
+
+  return toPromotionDTO(promotion);
+}
+
+/**
+ * Get a single promotion by ID
+ *
+ * @param input - Promotion ID
+ * @returns Promotion DTO
+ * @throws TRPCError if the promotion is not found
+ */
+export async function getPromotionById(input: GetPromotionByIdInput): Promise<PromotionDTO> {
+  await connectToDatabase();
+
+  const promotion = await Promotion.findById(input.id).lean();
+  if (!promotion) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบโปรโมชั่น",
+    });
+  }
+
+  return toPromotionDTO(promotion);
+}
+
+/**
+ * List every promotion, newest first
+ *
+ * @returns Promotion DTOs
+ */
+export async function listPromotions(): Promise<PromotionDTO[]> {
+  await connectToDatabase();
+
+  const promotions = await Promotion.find().sort({ createdAt: -1 }).lean();
+  return promotions.map(toPromotionDTO);
+}
+
+/**
+ * Delete a promotion
+ *
+ * Sales keep the discounts they were given, and the promotion stays in the
+ * cost report under the name recorded on them.
+ *
+ * @param userId - ID of user deleting the promotion
+ * @param input - Promotion ID to delete
+ * @returns Success status
+ * @throws TRPCError if the promotion is not found
+ */
+export async function deletePromotion(
+  userId: string,
+  input: DeletePromotionInput
+): Promise<{ success: boolean }> {
+  await connectToDatabase();
+
+  const promotion = await Promotion.findByIdAndDelete(input.id).lean();
+  if (!promotion) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบโปรโมชั่น",
+    });
+  }
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "delete",
+    "promotion",
+    input.id,
+    promotion.name
+  );
+
+  return { success: true };
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/**
+ * What each promotion cost on completed sales made in a period
+ *
+ * Discounts are as given on the sale; later returns are not taken off.
+ *
+ * @param input - Optional period
+ * @returns Discount per promotion, largest first, and the total
+ */
+export async function getPromotionReport(
+  input: GetPromotionReportInput
+): Promise<PromotionReportDTO> {
+  await connectToDatabase();
+
+  const createdAt: Record<string, Date> = {};
+  if (input.startDate) {
+    createdAt.$gte = input.startDate;
+  }
+  if (input.endDate) {
+    createdAt.$lte = input.endDate;
+  }
+  const periodQuery = Object.keys(createdAt).length > 0 ? { createdAt } : {};
+
+  const rows = await Sale.aggregate<{
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    type: PromotionType;
+    couponCode?: string;
+    sales: mongoose.Types.ObjectId[];
+    quantity: number;
+    discount: number;
+  }>([
+    { $match: { status: "completed", promotionDiscount: { $gt: 0 }, ...periodQuery } },
+    { $unwind: "$items" },
+    { $unwind: "$items.appliedPromotions" },
+    { $sort: { createdAt: 1 } },
+    {
+      $group: {
+        _id: "$items.appliedPromotions.promotionId",
+        name: { $last: "$items.appliedPromotions.name" },
+        type: { $last: "$items.appliedPromotions.type" },
+        couponCode: { $last: "$items.appliedPromotions.couponCode" },
+        sales: { $addToSet: "$_id" },
+        quantity: { $sum: "$items.quantity" },
+        discount: { $sum: "$items.appliedPromotions.discount" },
+      },
+    },
+    { $sort: { discount: -1 } },
+  ]);
+
+  const promotions = rows.map((row) => ({
+    promotionId: row._id.toString(),
+    name: row.name,
+    type: row.type,
+    couponCode: row.couponCode || undefined,
+    salesCount: row.sales.length,
+    quantity: row.quantity,
+    discount: roundAmount(row.discount),
+  }));
+
+  return {
+    totalDiscount: roundAmount(promotions.reduce((sum, row) => sum + row.discount, 0)),
+    promotions,
+  };
+}
@@ -4,7 +4,7 @@
  * Handles all rental asset-related business logic including:
  * - Asset CRUD operations
  * - Asset status management
- * - Asset availability tracking
+ * - Asset availability tracking (current and for a date range)
  * - Product validation
  */
 
@@ -20,8 +20,16 @@ import type {
   GetAssetByIdInput,
   ListAssetsInput,
   DeleteAssetInput,
+  GetAvailableForPeriodInput,
+  GetAvailableGroupedInput,
+  GetAssetTimelineInput,
 } from "../schemas";
 import * as activityLogService from "./activity-log.service";
+import {
+  findAvailableAssetIds,
+  findBookingIntervals,
+  syncAssetStatuses,
+} from "./rental-booking.service";
 
 // ============================================================================
 // Type Definitions
@@ -100,6 +108,43 @@ export interface GroupedRentalAssetDTO {
   updatedAt: Date;
 }
 
+/**
+ * A bar on the asset timeline
+ *
+ * - "rental": the asset is (or was) out with an active or completed rental
+ * - "reservation": a pending rental has booked the asset
+ * - "maintenance": the asset is in maintenance or damaged; the bar starts at
+ *   its last update, since status history is not kept
+ */
+export interface AssetTimelineBarDTO {
+  kind: "rental" | "reservation" | "maintenance";
+  startDate: Date;
+  endDate: Date;
+  rentalId?: string;
+  rentalNumber?: string;
+  customerName?: string;
+}
+
+/**
+ * Asset timeline row: one asset and its bars within the requested window
+ */
+export interface AssetTimelineRowDTO {
+  assetId: string;
+  assetCode: string;
+  status: "available" | "rented" | "maintenance" | "reserved" | "damaged";
+  bars: AssetTimelineBarDTO[];
+}
+
+/**
+ * Asset timeline group: the rows of one product
+ */
+export interface AssetTimelineGroupDTO {
+  productId: string;
+  productName?: string;
+  productSku?: string;
+  assets: AssetTimelineRowDTO[];
+}
+
 // ============================================================================
 // CRUD Operations
 // ============================================================================
@@ -307,18 +352,19 @@ export async function updateAssetStatus(
     });
   }
 
-  const asset = await RentalAsset.findByIdAndUpdate(
-    input.id,
-    {
-      $set: {
-        status: input.status,
-        ...(input.notes && { notes: input.notes }),
-      },
+  await RentalAsset.findByIdAndUpdate(input.id, {
+    $set: {
+      status: input.status,
+      ...(input.notes && { notes: input.notes }),
     },
-    { new: true }
-  )
-    .populate("productId", "name sku")
-    .lean();
+  });
+
+  // An asset put back into service may still be booked by rentals
+  if (input.status === "available") {
+    await syncAssetStatuses([input.id]);
+  }
+
+  const asset = await RentalAsset.findById(input.id).populate("productId", "name sku").lean();
 
   if (!asset) {
     throw new TRPCError({
@@ -595,6 +641,52 @@ export async function getAvailableAssets(productId?: string): Promise<RentalAsse
   });
 }
 
+/**
+ * Get assets that are free for a whole date range
+ *
+ * Unlike getAvailableAssets, assets that are currently rented or reserved are
+ * included when none of their bookings overlap the requested period.
+ *
+ * @param input - Optional product ID and the requested period
+ * @returns Array of asset DTOs free for the period, sorted by asset code
+ */
+export async function getAvailableAssetsForPeriod(
+  input: GetAvailableForPeriodInput
+): Promise<RentalAssetDTO[]> {
+  await connectToDatabase();
+
+  const availableIds = await findAvailableAssetIds(input.startDate, input.endDate, input.productId);
+
+  const assets = await RentalAsset.find({
+    _id: { $in: availableIds.map((id) => new mongoose.Types.ObjectId(id)) },
+  })
+    .populate(
+      "productId",
+      "name sku dailyRentalRate monthlyRentalRate insuranceFee replacementPrice"
+    )
+    .sort({ assetCode: 1 });
+
+  return assets.map((asset) => {
+    const product = asset.productId as PopulatedProduct | mongoose.Types.ObjectId;
+    return {
+      id: asset._id.toString(),
+      productId: (isPopulatedProduct(product) ? product._id : asset.productId).toString(),
+      productName: isPopulatedProduct(product) ? product.name : undefined,
+      productSku: isPopulatedProduct(product) ? product.sku : undefined,
+      dailyRentalRate: isPopulatedProduct(product) ? product.dailyRentalRate : undefined,
+      monthlyRentalRate: isPopulatedProduct(product) ? product.monthlyRentalRate : undefined,
+      insuranceFee: isPopulatedProduct(product) ? product.insuranceFee : undefined,
+      replacementPrice: isPopulatedProduct(product) ? product.replacementPrice : undefined,
+      assetCode: asset.assetCode,
+      status: asset.status,
+      currentRentalId: asset.currentRentalId?.toString(),
+      notes: asset.notes,
+      createdAt: asset.createdAt,
+      updatedAt: asset.updatedAt,
+    };
+  });
+}
+
 /**
  * Get grouped available assets for rental selection
  *
@@ -602,6 +694,10 @@ export async function getAvailableAssets(productId?: string): Promise<RentalAsse
  * in each group. Used for rental creation to show grouped assets while still allowing
  * selection of individual assets.
  *
+ * When a period is given, assets are grouped by availability for that period
+ * instead of their current status, so future bookings can be made.
+ *
+ * @param input - Optional start and end date of the requested period
  * @returns Array of grouped available assets with individual asset IDs
  */
 export interface GroupedAvailableAssetDTO {
@@ -617,10 +713,19 @@ export interface GroupedAvailableAssetDTO {
   assetIds: string[]; // All individual asset IDs in this group
 }
 
-export async function getAvailableGroupedAssets(): Promise<GroupedAvailableAssetDTO[]> {
+export async function getAvailableGroupedAssets(
+  input?: GetAvailableGroupedInput
+): Promise<GroupedAvailableAssetDTO[]> {
   await connectToDatabase();
 
-  const assets = await RentalAsset.find({ status: "available" })
+  const query: Record<string, unknown> = { status: "available" };
+  if (input?.startDate && input?.endDate && input.endDate > input.startDate) {
+    const availableIds = await findAvailableAssetIds(input.startDate, input.endDate);
+    query._id = { $in: availableIds.map((id) => new mongoose.Types.ObjectId(id)) };
+    delete query.status;
+  }
+
+  const assets = await RentalAsset.find(query)
     .populate(
       "productId",
       "name sku dailyRentalRate monthlyRentalRate insuranceFee replacementPrice"
@@ -675,6 +780,93 @@ export async function getAvailableGroupedAssets(): Promise<GroupedAvailableAsset
   return groupedAssets;
 }
 
+/**
+ * Get the asset timeline for a date window
+ *
+ * Groups assets by product and lists, per asset, the rentals, reservations
+ * and maintenance overlapping the window. Uses one asset query and one rental
+ * query regardless of the number of assets.
+ *
+ * @param input - The window and an optional product ID to filter by
+ * @returns Timeline groups sorted by product name, rows sorted by asset code
+ */
+export async function getAssetTimeline(
+  input: GetAssetTimelineInput
+): Promise<AssetTimelineGroupDTO[]> {
+  await connectToDatabase();
+
+  const query: Record<string, unknown> = {};
+  if (input.productId) {
+    query.productId = input.productId;
+  }
+
+  const assets = await RentalAsset.find(query)
+    .populate("productId", "name sku")
+    .sort({ assetCode: 1 })
+    .lean();
+  if (assets.length === 0) {
+    return [];
+  }
+
+  const intervals = await findBookingIntervals(
+    input.startDate,
+    input.endDate,
+    input.productId ? assets.map((asset) => asset._id) : undefined
+  );
+  const barsByAsset = new Map<string, AssetTimelineBarDTO[]>();
+  for (const interval of intervals) {
+    const bars = barsByAsset.get(interval.assetId) ?? [];
+    bars.push({
+      kind: interval.status === "pending" ? "reservation" : "rental",
+      startDate: interval.startDate,
+      endDate: interval.endDate,
+      rentalId: interval.rentalId,
+      rentalNumber: interval.rentalNumber,
+      customerName: interval.customerName,
+    });
+    barsByAsset.set(interval.assetId, bars);
+  }
+
+  const groupedMap = new Map<string, AssetTimelineGroupDTO>();
+
+  for (const asset of assets) {
+    const product = asset.productId as unknown as PopulatedProduct | mongoose.Types.ObjectId;
+    const productId = (isPopulatedProduct(product) ? product._id : asset.productId).toString();
+
+    if (!groupedMap.has(productId)) {
+      groupedMap.set(productId, {
+        productId,
+        productName: isPopulatedProduct(product) ? product.name : undefined,
+        productSku: isPopulatedProduct(product) ? product.sku : undefined,
+        assets: [],
+      });
+    }
+
+    const bars = barsByAsset.get(asset._id.toString()) ?? [];
+    if (
+      (asset.status === "maintenance" || asset.status === "damaged") &&
+      asset.updatedAt < input.endDate
+    ) {
+      bars.push({
+        kind: "maintenance",
+        startDate: asset.updatedAt > input.startDate ? asset.updatedAt : input.startDate,
+        endDate: input.endDate,
+      });
+    }
+
+    groupedMap.get(productId)!.assets.push({
+      assetId: asset._id.toString(),
+      assetCode: asset.assetCode,
+      status: asset.status,
+      bars,
+    });
+  }
+
+  return [...groupedMap.values()].sort((a, b) =>
+    (a.productName ?? "").localeCompare(b.productName ?? "", "th")
+  );
+}
+
 /**
  * Delete a rental asset
  *
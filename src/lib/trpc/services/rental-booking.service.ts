@@ -0,0 +1,476 @@
+/**
+ * Rental Booking Service
+ *
+ * Treats every pending or active rental as a booking of its assets over the
+ * rental's startDate/endDate window. Asset lines that have already been
+ * returned no longer hold a booking. Handles:
+ * - Detecting overlapping bookings per asset
+ * - Finding assets that are free for a given period
+ * - Deriving RentalAsset status ("available" / "reserved" / "rented") from bookings,
+ *   including pending rentals whose start date has passed
+ * - Listing the periods each asset is held by rentals within a date window
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose, { type ClientSession } from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import Rental, { type RentalStatus } from "@/lib/db/models/rental";
+import RentalAsset, { type RentalAssetStatus } from "@/lib/db/models/rental-asset";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Rental statuses that hold a booking on their assets
+ */
+const BOOKING_STATUSES: RentalStatus[] = ["pending", "active"];
+
+/**
+ * Rental statuses shown as held periods on the asset timeline
+ */
+const INTERVAL_STATUSES: RentalStatus[] = [...BOOKING_STATUSES, "completed"];
+
+/**
+ * Asset statuses that are managed manually and never changed by booking sync,
+ * and that cannot be booked until staff put them back into service
+ */
+const OUT_OF_SERVICE_STATUSES: RentalAssetStatus[] = ["maintenance", "damaged"];
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+/**
+ * A booking that overlaps the requested period
+ */
+export interface BookingConflict {
+  rentalId: string;
+  rentalNumber: string;
+  assetIds: string[];
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * A period during which one asset is held by a rental
+ *
+ * lineTotal and penaltyAmount are the charges of the rental line behind the
+ * period; returnedAt is set once the line has been returned.
+ */
+export interface BookingInterval {
+  assetId: string;
+  rentalId: string;
+  rentalNumber: string;
+  customerName: string;
+  status: RentalStatus;
+  startDate: Date;
+  endDate: Date;
+  returnedAt?: Date;
+  lineTotal: number;
+  penaltyAmount: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Match rentals with an unreturned line for any of the given assets
+ */
+function heldAssetsQuery(assetIds: mongoose.Types.ObjectId[]): Record<string, unknown> {
+  return { assets: { $elemMatch: { assetId: { $in: assetIds }, returnedAt: null } } };
+}
+
+function toObjectIds(ids: ObjectIdLike[]): mongoose.Types.ObjectId[] {
+  const unique = [...new Set(ids.map((id) => id.toString()))];
+  return unique
+    .filter((id) => mongoose.Types.ObjectId.isValid(id))
+    .map((id) => new mongoose.Types.ObjectId(id));
+}
+
+/**
+ * Build the rental query for bookings overlapping [startDate, endDate)
+ *
+ * Active rentals keep their assets until they are returned, so an overdue
+ * active rental is treated as running until now even if endDate has passed.
+ */
+function buildOverlapQuery(
+  startDate: Date,
+  endDate: Date,
+  excludeRentalId?: string
+): Record<string, unknown> {
+  const now = new Date();
+  const activeCondition: Record<string, unknown> = {
+    status: "active",
+    startDate: { $lt: endDate },
+  };
+  if (startDate >= now) {
+    activeCondition.endDate = { $gt: startDate };
+  }
+
+  const query: Record<string, unknown> = {
+    $or: [
+      { status: "pending", startDate: { $lt: endDate }, endDate: { $gt: startDate } },
+      activeCondition,
+    ],
+  };
+  if (excludeRentalId) {
+    query._id = { $ne: new mongoose.Types.ObjectId(excludeRentalId) };
+  }
+  return query;
+}
+
+// ============================================================================
+// Booking Queries
+// ============================================================================
+
+/**
+ * Find bookings that overlap the given period for any of the given assets
+ *
+ * @param assetIds - Assets to check
+ * @param startDate - Start of the requested period
+ * @param endDate - End of the requested period
+ * @param excludeRentalId - Rental to ignore (the rental being edited)
+ * @param session - Transaction to read in, if any
+ * @returns Overlapping bookings with the conflicting asset IDs
+ */
+export async function findBookingConflicts(
+  assetIds: ObjectIdLike[],
+  startDate: Date,
+  endDate: Date,
+  excludeRentalId?: string,
+  session?: ClientSession
+): Promise<BookingConflict[]> {
+  await connectToDatabase();
+
+  const objectIds = toObjectIds(assetIds);
+  if (objectIds.length === 0) {
+    return [];
+  }
+
+  const requested = new Set(objectIds.map((id) => id.toString()));
+  const rentals = await Rental.find({
+    ...buildOverlapQuery(startDate, endDate, excludeRentalId),
+    ...heldAssetsQuery(objectIds),
+  })
+    .select("rentalNumber startDate endDate assets")
+    .session(session ?? null)
+    .lean();
+
+  return rentals.map((rental) => ({
+    rentalId: rental._id.toString(),
+    rentalNumber: rental.rentalNumber,
+    assetIds: rental.assets
+      .filter((item) => !item.returnedAt)
+      .map((item) => item.assetId.toString())
+      .filter((id) => requested.has(id)),
+    startDate: rental.startDate,
+    endDate: rental.endDate,
+  }));
+}
+
+/**
+ * Ensure assets exist, are in service, and are not booked in the given period
+ *
+ * @param assetIds - Assets to book
+ * @param startDate - Start of the booking
+ * @param endDate - End of the booking
+ * @param excludeRentalId - Rental to ignore (the rental being edited)
+ * @param session - Transaction to read in, if any
+ * @throws TRPCError if any asset is missing, out of service, or already booked
+ */
+export async function assertAssetsBookable(
+  assetIds: ObjectIdLike[],
+  startDate: Date,
+  endDate: Date,
+  excludeRentalId?: string,
+  session?: ClientSession
+): Promise<void> {
+  await connectToDatabase();
+
+  const objectIds = toObjectIds(assetIds);
+  const assets = await RentalAsset.find({ _id: { $in: objectIds } })
+    .select("assetCode status")
+    .session(session ?? null)
+    .lean();
+
+  if (assets.length !== objectIds.length) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ไม่พบทรัพย์สินบางรายการ",
+    });
+  }
+
+  const outOfService = assets.filter((asset) => OUT_OF_SERVICE_STATUSES.includes(asset.status));
+  if (outOfService.length > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `ทรัพย์สินอยู่ระหว่างซ่อมบำรุงหรือเสียหาย: ${outOfService
+        .map((asset) => asset.assetCode)
+        .join(", ")}`,
+    });
+  }
+
+  const conflicts = await findBookingConflicts(
+    objectIds,
+    startDate,
+    endDate,
+    excludeRentalId,
+    session
+  );
+  if (conflicts.length > 0) {
+    const codeById = new Map(assets.map((asset) => [asset._id.toString(), asset.assetCode]));
+    const details = conflicts
+      .map(
+        (conflict) =>
+          `${conflict.rentalNumber} (${conflict.assetIds
+            .map((id) => codeById.get(id) || id)
+            .join(", ")})`
+      )
+      .join(", ");
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `ทรัพย์สินถูกจองในช่วงเวลาที่เลือกแล้ว: ${details}`,
+    });
+  }
+}
+
+/**
+ * Find IDs of in-service assets that are free for the whole period
+ *
+ * @param startDate - Start of the requested period
+ * @param endDate - End of the requested period
+ * @param productId - Optional product ID to filter by
+ * @param session - Transaction to read in, if any
+ * @returns Asset IDs with no overlapping booking
+ */
+export async function findAvailableAssetIds(
+  startDate: Date,
+  endDate: Date,
+  productId?: string,
+  session?: ClientSession
+): Promise<string[]> {
+  await connectToDatabase();
+
+  const assetQuery: Record<string, unknown> = {
+    status: { $nin: OUT_OF_SERVICE_STATUSES },
+  };
+  if (productId) {
+    assetQuery.productId = new mongoose.Types.ObjectId(productId);
+  }
+
+  const assets = await RentalAsset.find(assetQuery)
+    .select("_id")
+    .session(session ?? null)
+    .lean();
+  if (assets.length === 0) {
+    return [];
+  }
+
+  const conflicts = await findBookingConflicts(
+    assets.map((asset) => asset._id),
+    startDate,
+    endDate,
+    undefined,
+    session
+  );
+  const booked = new Set(conflicts.flatMap((conflict) => conflict.assetIds));
+
+  return assets.map((asset) => asset._id.toString()).filter((id) => !booked.has(id));
+}
+
+/**
+ * Find the periods assets are held by rentals within [startDate, endDate)
+ *
+ * Covers pending, active and completed rentals. Each asset line is held from
+ * the day it went out (addedAt, or the rental's start) until it was returned.
+ * Unreturned lines of an overdue active rental are held until now, and those
+ * of a completed rental until its actual return date.
+ *
+ * @param startDate - Start of the window
+ * @param endDate - End of the window
+ * @param assetIds - Optional assets to limit the result to
+ * @returns Held periods overlapping the window, sorted by start date
+ */
+export async function findBookingIntervals(
+  startDate: Date,
+  endDate: Date,
+  assetIds?: ObjectIdLike[]
+): Promise<BookingInterval[]> {
+  await connectToDatabase();
+
+  const query: Record<string, unknown> = {
+    status: { $in: INTERVAL_STATUSES },
+    startDate: { $lt: endDate },
+    $or: [
+      { endDate: { $gt: startDate } },
+      { status: "active" },
+      { actualReturnDate: { $gt: startDate } },
+      { "assets.returnedAt": { $gt: startDate } },
+    ],
+  };
+  if (assetIds) {
+    const objectIds = toObjectIds(assetIds);
+    if (objectIds.length === 0) {
+      return [];
+    }
+    query["assets.assetId"] = { $in: objectIds };
+  }
+
+  const rentals = await Rental.find(query)
+    .select("rentalNumber customerName status startDate endDate actualReturnDate assets")
+    .lean();
+
+  const requested = assetIds ? new Set(assetIds.map((id) => id.toString())) : null;
+  const now = new Date();
+  const intervals: BookingInterval[] = [];
+
+  for (const rental of rentals) {
+    const openEnd =
+      rental.status === "completed"
+        ? (rental.actualReturnDate ?? rental.endDate)
+        : rental.status === "active" && rental.endDate < now
+          ? now
+          : rental.endDate;
+
+    for (const item of rental.assets) {
+      const assetId = item.assetId.toString();
+      if (requested && !requested.has(assetId)) {
+        continue;
+      }
+
+      const lineStart = item.addedAt ?? rental.startDate;
+      const lineEnd = item.returnedAt ?? openEnd;
+      if (lineStart >= endDate || lineEnd <= startDate || lineEnd <= lineStart) {
+        continue;
+      }
+
+      intervals.push({
+        assetId,
+        rentalId: rental._id.toString(),
+        rentalNumber: rental.rentalNumber,
+        customerName: rental.customerName,
+        status: rental.status,
+        startDate: lineStart,
+        endDate: lineEnd,
+        returnedAt: item.returnedAt,
+        lineTotal: item.lineTotal,
+        penaltyAmount: item.penaltyAmount || 0,
+      });
+    }
+  }
+
+  return intervals.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+}
+
+// ============================================================================
+// Status Synchronisation
+// ============================================================================
+
+/**
+ * Recompute RentalAsset status and currentRentalId from bookings
+ *
+ * Rules (assets in maintenance or damaged are left untouched):
+ * - "rented": an active rental, or a pending rental that has already started, holds the asset
+ * - "reserved": only future pending rentals hold the asset
+ * - "available": no booking holds the asset
+ *
+ * Call after any change to a rental's status, dates, or assets, in the same
+ * transaction as the change so the two are saved together.
+ *
+ * @param assetIds - Assets whose status should be recomputed
+ * @param session - Transaction to read and write in, if any
+ */
+export async function syncAssetStatuses(
+  assetIds: ObjectIdLike[],
+  session?: ClientSession
+): Promise<void> {
+  await connectToDatabase();
+
+  const objectIds = toObjectIds(assetIds);
+  if (objectIds.length === 0) {
+    return;
+  }
+
+  // Sequential: a transaction's session cannot run operations in parallel
+  const assets = await RentalAsset.find({ _id: { $in: objectIds } })
+    .select("status currentRentalId")
+    .session(session ?? null)
+    .lean();
+  const rentals = await Rental.find({
+    status: { $in: BOOKING_STATUSES },
+    ...heldAssetsQuery(objectIds),
+  })
+    .select("status startDate assets")
+    .sort({ startDate: 1 })
+    .session(session ?? null)
+    .lean();
+
+  const now = new Date();
+  const updates: Parameters<typeof RentalAsset.bulkWrite>[0] = [];
+
+  for (const asset of assets) {
+    if (OUT_OF_SERVICE_STATUSES.includes(asset.status)) {
+      continue;
+    }
+
+    const assetId = asset._id.toString();
+    const bookings = rentals.filter((rental) =>
+      rental.assets.some((item) => !item.returnedAt && item.assetId.toString() === assetId)
+    );
+    const current = bookings.find(
+      (rental) => rental.status === "active" || rental.startDate <= now
+    );
+
+    const status: RentalAssetStatus = current
+      ? "rented"
+      : bookings.length > 0
+        ? "reserved"
+        : "available";
+    const currentRentalId = current?._id;
+
+    if (
+      asset.status !== status ||
+      asset.currentRentalId?.toString() !== currentRentalId?.toString()
+    ) {
+      updates.push({
+        updateOne: {
+          filter: { _id: asset._id },
+          update: currentRentalId
+            ? { $set: { status, currentRentalId } }
+            : { $set: { status }, $unset: { currentRentalId: 1 } },
+        },
+      });
+    }
+  }
+
+  if (updates.length > 0) {
+    await RentalAsset.bulkWrite(updates, { session });
+  }
+}
+
+/**
+ * Mark the assets of pending rentals that have started as rented
+ *
+ * Asset statuses are synced when a rental changes, so a pending rental's
+ * assets stay "reserved" after its start date passes until something else
+ * touches it. Run daily alongside the overdue penalty job.
+ *
+ * @returns Number of started pending rentals whose assets were synced
+ */
+export async function syncStartedRentalAssets(): Promise<number> {
+  await connectToDatabase();
+
+  const rentals = await Rental.find({ status: "pending", startDate: { $lte: new Date() } })
+    .select("assets")
+    .lean();
+  const assetIds = rentals.flatMap((rental) =>
+    rental.assets.filter((item) => !item.returnedAt).map((item) => item.assetId)
+  );
+  await syncAssetStatuses(assetIds);
+
+  return rentals.length;
+}
@@ -0,0 +1,594 @@
+/**
+ * Rental Contract Service
+ *
+ * Handles rental agreements including:
+ * - Versioned terms and conditions printed on every contract
+ * - Rendering a rental's contract document for preview and print
+ * - Signing: snapshotting the rendered contract with both signatures, so every
+ *   signed version can be reproduced exactly later
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import { ownerConfig } from "@/lib/config/owner";
+import Rental, { type IRental } from "@/lib/db/models/rental";
+import RentalContract, {
+  type IRentalContract,
+  type IRentalContractSnapshot,
+} from "@/lib/db/models/rental-contract";
+import RentalContractTerms, {
+  type IRentalContractTerms,
+} from "@/lib/db/models/rental-contract-terms";
+import type {
+  PublishContractTermsInput,
+  PreviewRentalContractInput,
+  SignRentalContractInput,
+  GetRentalContractsInput,
+} from "../schemas";
+import * as activityLogService from "./activity-log.service";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Terms used until an admin publishes the first version (version 0)
+ */
+const DEFAULT_CONTRACT_TERMS = {
+  version: 0,
+  title: "ข้อตกลงและเงื่อนไขการเช่า",
+  body: [
+    "ผู้เช่าต้องดูแลรักษาทรัพย์สินที่เช่าให้อยู่ในสภาพดีตลอดระยะเวลาการเช่า",
+    "ผู้เช่าต้องคืนทรัพย์สินภายในวันที่สิ้นสุดการเช่า หากคืนล่าช้าจะถูกคิดค่าปรับตามอัตราที่ระบุในสัญญานี้",
+    "หากทรัพย์สินชำรุดเสียหายหรือสูญหาย ผู้เช่าต้องชดใช้ค่าซ่อมแซมหรือค่าทดแทนตามจริง",
+    "ผู้ให้เช่ามีสิทธิ์หักค่าปรับ ค่าเสียหาย และค่าเช่าค้างชำระจากเงินมัดจำ",
+    "ห้ามผู้เช่านำทรัพย์สินที่เช่าไปให้ผู้อื่นเช่าช่วงโดยไม่ได้รับอนุญาตจากผู้ให้เช่า",
+  ].join("\n"),
+};
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Contract Terms Data Transfer Object
+ *
+ * id is undefined for the built-in default terms (version 0).
+ */
+export interface ContractTermsDTO {
+  id?: string;
+  version: number;
+  title: string;
+  body: string;
+  createdBy?: string;
+  createdAt?: Date;
+}
+
+/**
+ * Rental Contract Data Transfer Object
+ *
+ * html is the signed document exactly as rendered at signing time.
+ */
+export interface RentalContractDTO {
+  id: string;
+  rentalId: string;
+  version: number;
+  termsVersion: number;
+  html: string;
+  customerSignerName: string;
+  signedAt: Date;
+  signedBy: string;
+}
+
+/**
+ * Unsigned contract document for a rental
+ *
+ * version is the version the contract will get when it is signed.
+ */
+export interface RentalContractPreviewDTO {
+  html: string;
+  version: number;
+  termsVersion: number;
+  customerName: string;
+}
+
+/**
+ * Signatures and signing details printed on a signed contract
+ */
+interface ContractSignatures {
+  customerSignature: string;
+  customerSignerName: string;
+  staffSignature: string;
+  signedAt: Date;
+  version: number;
+}
+
+/**
+ * Rental with asset codes populated, as needed for a contract
+ */
+type ContractRental = Omit<IRental, "assets"> & {
+  assets: Array<
+    Omit<IRental["assets"][number], "assetId"> & {
+      assetId: { _id: mongoose.Types.ObjectId; assetCode: string } | mongoose.Types.ObjectId;
+    }
+  >;
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Escape text for safe insertion into the contract HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Format a date the way contracts print it (e.g. 14 ธันวาคม 2568)
+ */
+function formatThaiDate(date: Date): string {
+  return new Intl.DateTimeFormat("th-TH", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "Asia/Bangkok",
+  }).format(new Date(date));
+}
+
+/**
+ * Format an amount in baht with 2 decimals
+ */
+function formatBaht(amount: number): string {
+  return `${amount.toLocaleString("th-TH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} บาท`;
+}
+
+/**
+ * Get the terms currently in force (the highest published version)
+ */
+async function getCurrentTerms(): Promise<ContractTermsDTO> {
+  const terms = await RentalContractTerms.findOne().sort({ version: -1 }).lean();
+  return terms ? toContractTermsDTO(terms) : DEFAULT_CONTRACT_TERMS;
+}
+
+/**
+ * Load a rental with its asset codes for a contract
+ *
+ * @throws TRPCError if the rental does not exist
+ */
+async function getContractRental(rentalId: string): Promise<ContractRental> {
+  const rental = await Rental.findById(rentalId)
+    .populate<{ assets: ContractRental["assets"] }>({
+      path: "assets.assetId",
+      select: "assetCode",
+    })
+    .lean();
+  if (!rental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+  return rental;
+}
+
+/**
+ * Copy the rental data and terms a contract is built from
+ *
+ * Lists the assets still with the customer; once everything is back, all
+ * assets of the rental are listed.
+ */
+function buildContractSnapshot(
+  rental: ContractRental,
+  terms: ContractTermsDTO
+): IRentalContractSnapshot {
+  const outstanding = rental.assets.filter((item) => !item.returnedAt);
+  const lines = outstanding.length > 0 ? outstanding : rental.assets;
+  return {
+    rentalNumber: rental.rentalNumber,
+    customerName: rental.customerName,
+    customerIdNumber: rental.customerIdNumber,
+    customerPhone: rental.customerPhone,
+    customerEmail: rental.customerEmail,
+    customerAddress: rental.customerAddress,
+    assets: lines.map((item) => ({
+      assetCode: "assetCode" in item.assetId ? item.assetId.assetCode : "",
+      productName: item.productName,
+      quantity: item.quantity || 1,
+    })),
+    startDate: rental.startDate,
+    endDate: rental.endDate,
+    billingCycle: rental.billingCycle ?? "once",
+    totalAmount: rental.totalAmount,
+    deposit: rental.deposit || 0,
+    penaltyRate: rental.penaltyRate || 1.5,
+    termsVersion: terms.version,
+    termsTitle: terms.title,
+    termsBody: terms.body,
+  };
+}
+
+/**
+ * Render a contract as a complete, printable HTML document
+ *
+ * Everything printed comes from the snapshot (and the signatures once
+ * signed), so rendering a stored snapshot again gives the same document.
+ * Unsigned contracts get empty signature lines.
+ *
+ * @param snapshot - Rental data and terms
+ * @param signatures - Signatures and signing details (omitted for a preview)
+ * @returns HTML document
+ */
+function renderContractHtml(
+  snapshot: IRentalContractSnapshot,
+  signatures?: ContractSignatures
+): string {
+  const customerRows = [
+    ["ชื่อผู้เช่า", snapshot.customerName],
+    ["เลขบัตรประชาชน/หนังสือเดินทาง", snapshot.customerIdNumber],
+    ["โทรศัพท์", snapshot.customerPhone],
+    ["อีเมล", snapshot.customerEmail],
+    ["ที่อยู่", snapshot.customerAddress],
+  ]
+    .map(
+      ([label, value]) =>
+        `<tr><td class="label">${label}</td><td>${escapeHtml(value || "-")}</td></tr>`
+    )
+    .join("");
+
+  const assetRows = snapshot.assets
+    .map(
+      (asset, idx) =>
+        `<tr><td class="center">${idx + 1}</td><td>${escapeHtml(asset.assetCode)}</td><td>${escapeHtml(asset.productName)}</td><td class="center">${asset.quantity}</td></tr>`
+    )
+    .join("");
+
+  const rentTerms =
+    snapshot.billingCycle === "monthly"
+      ? "ค่าเช่าเรียกเก็บเป็นรายเดือนตามใบแจ้งหนี้จนกว่าจะคืนทรัพย์สินครบ"
+      : `ค่าเช่าตลอดระยะเวลาการเช่า ${formatBaht(snapshot.totalAmount)}`;
+
+  const clauses = snapshot.termsBody
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => `<li>${escapeHtml(line)}</li>`)
+    .join("");
+
+  const signatureBox = (label: string, name: string, image?: string) => `
+    <div class="signature">
+      <div class="signature-image">${image ? `<img src="${escapeHtml(image)}" alt="${label}" />` : ""}</div>
+      <div class="signature-line"></div>
+      <div>${label}</div>
+      <div>(${escapeHtml(name)})</div>
+    </div>`;
+
+  const footer = signatures
+    ? `สัญญาเลขที่ ${escapeHtml(snapshot.rentalNumber)} ฉบับที่ ${signatures.version} · ลงนามเมื่อ ${formatThaiDate(signatures.signedAt)} · เงื่อนไขฉบับที่ ${snapshot.termsVersion}`
+    : `ร่างสัญญาเลขที่ ${escapeHtml(snapshot.rentalNumber)} · ยังไม่ได้ลงนาม · เงื่อนไขฉบับที่ ${snapshot.termsVersion}`;
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>สัญญาเช่า ${escapeHtml(snapshot.rentalNumber)}</title>
+    <style>
+      @page { size: A4; margin: 1.5cm 1.5cm 1cm 1.5cm; }
+      body { font-family: "Sarabun", "Tahoma", sans-serif; color: #1e293b; font-size: 14px; line-height: 1.6; margin: 0; padding: 16px; background: #fff; }
+      h1 { text-align: center; font-size: 22px; margin: 8px 0 16px; }
+      h2 { font-size: 16px; margin: 16px 0 8px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; }
+      .owner { text-align: center; color: #475569; font-size: 13px; }
+      table { width: 100%; border-collapse: collapse; }
+      td, th { padding: 6px 8px; border: 1px solid #cbd5e1; text-align: left; vertical-align: top; }
+      th { background: #f1f5f9; }
+      .label { width: 35%; font-weight: 600; color: #475569; }
+      .center { text-align: center; }
+      ol { padding-left: 20px; margin: 0; }
+      .signatures { display: flex; justify-content: space-around; margin-top: 32px; page-break-inside: avoid; }
+      .signature { text-align: center; width: 40%; }
+      .signature-image { height: 80px; display: flex; align-items: flex-end; justify-content: center; }
+      .signature-image img { max-height: 80px; max-width: 100%; }
+      .signature-line { border-top: 1px solid #1e293b; margin: 4px 0; }
+      .footer { margin-top: 24px; text-align: center; font-size: 11px; color: #64748b; }
+    </style>
+  </head>
+  <body>
+    <div class="owner">
+      <strong>${escapeHtml(ownerConfig.name)}</strong><br />
+      ${escapeHtml(ownerConfig.address)} โทร. ${escapeHtml(ownerConfig.phone)}
+    </div>
+    <h1>สัญญาเช่าทรัพย์สิน</h1>
+    <p>สัญญาเลขที่ ${escapeHtml(snapshot.rentalNumber)} ทำขึ้นระหว่าง ${escapeHtml(ownerConfig.name)} ("ผู้ให้เช่า") และผู้เช่าตามรายละเอียดด้านล่าง ("ผู้เช่า")</p>
+
+    <h2>ข้อมูลผู้เช่า</h2>
+    <table><tbody>${customerRows}</tbody></table>
+
+    <h2>ทรัพย์สินที่เช่า</h2>
+    <table>
+      <thead><tr><th class="center">ลำดับ</th><th>รหัสทรัพย์สิน</th><th>รายการ</th><th class="center">จำนวน</th></tr></thead>
+      <tbody>${assetRows}</tbody>
+    </table>
+
+    <h2>ระยะเวลาและค่าเช่า</h2>
+    <table>
+      <tbody>
+        <tr><td class="label">ระยะเวลาเช่า</td><td>${formatThaiDate(snapshot.startDate)} ถึง ${formatThaiDate(snapshot.endDate)}</td></tr>
+        <tr><td class="label">ค่าเช่า</td><td>${rentTerms}</td></tr>
+        <tr><td class="label">เงินมัดจำ</td><td>${formatBaht(snapshot.deposit)}</td></tr>
+        <tr><td class="label">ค่าปรับคืนล่าช้า</td><td>วันละ ${snapshot.penaltyRate} เท่าของค่าเช่ารายวันของทรัพย์สินที่ยังไม่คืน</td></tr>
+      </tbody>
+    </table>
+
+    <h2>${escapeHtml(snapshot.termsTitle)}</h2>
+    <ol>${clauses}</ol>
+
+    <p>คู่สัญญาได้อ่านและเข้าใจข้อความในสัญญานี้โดยตลอดแล้ว จึงลงลายมือชื่อไว้เป็นหลักฐาน</p>
+
+    <div class="signatures">
+      ${signatureBox("ผู้เช่า", signatures?.customerSignerName || snapshot.customerName, signatures?.customerSignature)}
+      ${signatureBox("ผู้ให้เช่า", ownerConfig.name, signatures?.staffSignature)}
+    </div>
+
+    <div class="footer">${footer}</div>
+  </body>
+</html>`;
+}
+
+/**
+ * Convert a terms document to a ContractTermsDTO
+ */
+function toContractTermsDTO(terms: IRentalContractTerms): ContractTermsDTO {
+  return {
+    id: terms._id.toString(),
+    version: terms.version,
+    title: terms.title,
+    body: terms.body,
+    createdBy: terms.createdBy.toString(),
+    createdAt: terms.createdAt,
+  };
+}
+
+/**
+ * Convert a contract document to a RentalContractDTO
+ */
+function toRentalContractDTO(contract: IRentalContract): RentalContractDTO {
+  return {
+    id: contract._id.toString(),
+    rentalId: contract.rentalId.toString(),
+    version: contract.version,
+    termsVersion: contract.snapshot.termsVersion,
+    html: contract.html,
+    customerSignerName: contract.customerSignerName,
+    signedAt: contract.signedAt,
+    signedBy: contract.signedBy.toString(),
+  };
+}
+
+/**
+ * Check whether a write failed on a unique index (e.g. a version taken concurrently)
+ */
+function isDuplicateKeyError(error: unknown): boolean {
+  return error instanceof mongoose.mongo.MongoServerError && error.code === 11000;
+}
+
+// ============================================================================
+// Contract Terms
+// ============================================================================
+
+/**
+ * Get the terms and conditions currently printed on contracts
+ *
+ * @returns Current terms (the built-in default until a version is published)
+ */
+export async function getContractTerms(): Promise<ContractTermsDTO> {
+  await connectToDatabase();
+  return getCurrentTerms();
+}
+
+/**
+ * List every published version of the terms, newest first
+ *
+ * @returns Terms versions
+ */
+export async function listContractTerms(): Promise<ContractTermsDTO[]> {
+  await connectToDatabase();
+
+  const terms = await RentalContractTerms.find().sort({ version: -1 }).lean();
+  return terms.map(toContractTermsDTO);
+}
+
+/**
+ * Publish a new version of the terms and conditions
+ *
+ * Contracts signed before keep the version they were signed under; new
+ * contracts use this version.
+ *
+ * @param userId - ID of user publishing the terms
+ * @param input - Title and terms text
+ * @returns Published terms
+ * @throws TRPCError if another version was published at the same time
+ */
+export async function publishContractTerms(
+  userId: string,
+  input: PublishContractTermsInput
+): Promise<ContractTermsDTO> {
+  await connectToDatabase();
+
+  const current = await getCurrentTerms();
+
+  let terms: IRentalContractTerms;
+  try {
+    const created = await RentalContractTerms.create({
+      version: current.version + 1,
+      title: input.title,
+      body: input.body,
+      createdBy: new mongoose.Types.ObjectId(userId),
+    });
+    terms = created.toObject();
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "มีการบันทึกเงื่อนไขฉบับใหม่พร้อมกัน กรุณาลองใหม่อีกครั้ง",
+      });
+    }
+    throw error;
+  }
+
+  await activityLogService.createActivityLog(
+    userId,
+    "create",
+    "contractTerms",
+    terms._id.toString(),
+    `Contract terms v${terms.version} - ${terms.title}`,
+    {
+      old: { version: current.version },
+      new: { version: terms.version },
+    }
+  );
+
+  return toContractTermsDTO(terms);
+}
+
+// ============================================================================
+// Contracts
+// ============================================================================
+
+/**
+ * Render the unsigned contract of a rental with the current terms
+ *
+ * @param input - Rental ID
+ * @returns Contract document and the version it will get when signed
+ * @throws TRPCError if rental not found
+ */
+export async function previewRentalContract(
+  input: PreviewRentalContractInput
+): Promise<RentalContractPreviewDTO> {
+  await connectToDatabase();
+
+  const [rental, terms, latest] = await Promise.all([
+    getContractRental(input.rentalId),
+    getCurrentTerms(),
+    RentalContract.findOne({ rentalId: input.rentalId }).sort({ version: -1 }).select("version"),
+  ]);
+
+  return {
+    html: renderContractHtml(buildContractSnapshot(rental, terms)),
+    version: (latest?.version ?? 0) + 1,
+    termsVersion: terms.version,
+    customerName: rental.customerName,
+  };
+}
+
+/**
+ * Sign a rental's contract
+ *
+ * Snapshots the rental and the current terms, renders the contract with both
+ * signatures, and stores it as the rental's next contract version. Signed
+ * versions are never changed; signing again creates a new version.
+ *
+ * @param userId - ID of staff user taking the signatures
+ * @param input - Rental ID, customer signer name, customer and staff signatures
+ * @returns Signed contract
+ * @throws TRPCError if rental not found, cancelled, or signed concurrently
+ */
+export async function signRentalContract(
+  userId: string,
+  input: SignRentalContractInput
+): Promise<RentalContractDTO> {
+  await connectToDatabase();
+
+  const [rental, terms, latest] = await Promise.all([
+    getContractRental(input.rentalId),
+    getCurrentTerms(),
+    RentalContract.findOne({ rentalId: input.rentalId }).sort({ version: -1 }).select("version"),
+  ]);
+
+  if (rental.status === "cancelled") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ไม่สามารถลงนามสัญญาของการเช่าที่ยกเลิกแล้ว",
+    });
+  }
+
+  const version = (latest?.version ?? 0) + 1;
+  const signedAt = new Date();
+  const snapshot = buildContractSnapshot(rental, terms);
+  const html = renderContractHtml(snapshot, {
+    customerSignature: input.customerSignature,
+    customerSignerName: input.customerSignerName,
+    staffSignature: input.staffSignature,
+    signedAt,
+    version,
+  });
+
+  let contract: IRentalContract;
+  try {
+    const created = await RentalContract.create({
+      rentalId: rental._id,
+      version,
+      snapshot,
+      html,
+      customerSignature: input.customerSignature,
+      customerSignerName: input.customerSignerName,
+      staffSignature: input.staffSignature,
+      signedAt,
+      signedBy: new mongoose.Types.ObjectId(userId),
+    });
+    contract = created.toObject();
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "สัญญานี้ถูกลงนามพร้อมกันจากที่อื่น กรุณาลองใหม่อีกครั้ง",
+      });
+    }
+    throw error;
+  }
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName} (ลงนามสัญญา ฉบับที่ ${version})`,
+    {
+      new: {
+        contractVersion: version,
+        termsVersion: terms.version,
+        customerSignerName: input.customerSignerName,
+      },
+    }
+  );
+
+  return toRentalContractDTO(contract);
+}
+
+/**
+ * Get every signed contract version of a rental, newest first
+ *
+ * @param input - Rental ID
+ * @returns Signed contracts
+ */
+export async function getRentalContracts(
+  input: GetRentalContractsInput
+): Promise<RentalContractDTO[]> {
+  await connectToDatabase();
+
+  const contracts = await RentalContract.find({
+    rentalId: new mongoose.Types.ObjectId(input.rentalId),
+  })
+    .sort({ version: -1 })
+    .lean();
+  return contracts.map(toRentalContractDTO);
+}
@@ -0,0 +1,115 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import mongoose from "mongoose";
+import type { MongoMemoryReplSet } from "mongodb-memory-server";
+import Product from "@/lib/db/models/product";
+import Rental from "@/lib/db/models/rental";
+import RentalAsset from "@/lib/db/models/rental-asset";
+import RentalInvoice from "@/lib/db/models/rental-invoice";
+import {
+  clearFailPoints,
+  failNextCommand,
+  resetDatabase,
+  startReplicaSet,
+  stopReplicaSet,
+} from "@/test/replica-set";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const userId = new mongoose.Types.ObjectId().toString();
+
+let replSet: MongoMemoryReplSet;
+let rentalService: typeof import("./rental.service");
+let invoiceService: typeof import("./rental-invoice.service");
+
+/**
+ * Midnight a number of days from today, so rental periods are whole days
+ */
+function daysFromToday(days: number): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return new Date(today.getTime() + days * DAY_MS);
+}
+
+async function createMonthlyRental(startDate: Date, endDate: Date) {
+  const product = await Product.create({
+    name: "Scaffold",
+    sku: "SCF-1",
+    stockType: "rental",
+    dailyRentalRate: 10,
+    monthlyRentalRate: 300,
+    createdBy: userId,
+  });
+  const asset = await RentalAsset.create({ productId: product._id, assetCode: "SCF-1" });
+  const rental = await rentalService.createRental(userId, {
+    customerName: "Customer",
+    assets: [{ assetId: asset._id.toString(), quantity: 1 }],
+    startDate,
+    endDate,
+    deposit: 0,
+    shippingCost: 0,
+    billingCycle: "monthly",
+  });
+  return rentalService.updateRentalStatus(userId, { id: rental.id, status: "active" });
+}
+
+beforeAll(async () => {
+  replSet = await startReplicaSet();
+  rentalService = await import("./rental.service");
+  invoiceService = await import("./rental-invoice.service");
+  const { connectToDatabase } = await import("@/lib/db/connect");
+  await connectToDatabase();
+});
+
+afterAll(async () => {
+  await stopReplicaSet(replSet);
+});
+
+beforeEach(async () => {
+  await resetDatabase();
+});
+
+afterEach(async () => {
+  await clearFailPoints();
+});
+
+describe("generateRentalInvoices", () => {
+  it("saves no invoice when adding it to the rental fails", async () => {
+    const rental = await createMonthlyRental(daysFromToday(-70), daysFromToday(30));
+
+    await failNextCommand("update");
+    await expect(invoiceService.generateRentalInvoices(rental.id)).rejects.toThrow();
+
+    expect(await RentalInvoice.countDocuments()).toBe(0);
+    expect((await Rental.findById(rental.id).lean())?.invoicedAmount ?? 0).toBe(0);
+
+    const issued = await invoiceService.generateRentalInvoices(rental.id);
+    expect(issued.length).toBeGreaterThan(0);
+    const invoicedAmount = issued.reduce((sum, invoice) => sum + invoice.amount, 0);
+    expect((await Rental.findById(rental.id).lean())?.invoicedAmount).toBeCloseTo(invoicedAmount);
+  });
+});
+
+describe("runRentalInvoiceJob", () => {
+  it("bills the last month of a returned rental that was not billed on return", async () => {
+    const rental = await createMonthlyRental(daysFromToday(-70), daysFromToday(30));
+    const returnedAt = daysFromToday(-1);
+
+    // Returned without the final invoice being issued
+    await Rental.updateOne(
+      { _id: rental.id },
+      {
+        $set: {
+          status: "completed",
+          actualReturnDate: returnedAt,
+          "assets.$[].returnedAt": returnedAt,
+        },
+      }
+    );
+
+    await invoiceService.runRentalInvoiceJob("cli");
+
+    const lastInvoice = await RentalInvoice.findOne({ rentalId: rental.id })
+      .sort({ periodEnd: -1 })
+      .lean();
+    expect(lastInvoice?.periodEnd.getTime()).toBe(returnedAt.getTime());
+  });
+});
@@ -0,0 +1,770 @@
+/**
+ * Rental Invoice Service
+ *
+ * Handles periodic invoicing of monthly-billed rentals including:
+ * - Issuing one invoice per calendar month, prorating the first and last month
+ * - Running the monthly invoice job and recording its runs
+ * - Settling invoices through the rental's payments ledger and voiding invoices
+ * - Summarizing a rental's invoices and outstanding balance
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import { withTransaction } from "@/lib/db/transaction";
+import { vatConfig } from "@/lib/config/vat";
+import { calculateVat, roundAmount, type VatMode } from "@/lib/vat";
+import JobRun, { type JobName, type JobRunTrigger } from "@/lib/db/models/job-run";
+import Rental, { type IRental, type IRentalAssetItem } from "@/lib/db/models/rental";
+import RentalInvoice, {
+  type IRentalInvoice,
+  type IRentalInvoiceLine,
+  type RentalInvoiceStatus,
+} from "@/lib/db/models/rental-invoice";
+import type {
+  GetRentalInvoicesInput,
+  GenerateRentalInvoicesInput,
+  MarkRentalInvoicePaidInput,
+  VoidRentalInvoiceInput,
+} from "../schemas";
+import * as activityLogService from "./activity-log.service";
+import { toJobRunDTO, type JobRunDTO } from "./rental-overdue.service";
+import { recordRentalPayment } from "./rental.service";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const INVOICE_JOB_NAME: JobName = "rental-invoices";
+
+/**
+ * Days after issue an invoice is due
+ */
+const INVOICE_DUE_DAYS = 7;
+
+/**
+ * Attempts at taking the next invoice number when another invoice takes it
+ * first
+ */
+const MAX_NUMBER_ATTEMPTS = 3;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rental Invoice Data Transfer Object
+ *
+ * isOverdue is true for unpaid invoices past their due date.
+ */
+export interface RentalInvoiceDTO {
+  id: string;
+  invoiceNumber: string;
+  rentalId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  daysInMonth: number;
+  isProrated: boolean;
+  lines: Array<{
+    assetId: string;
+    productName: string;
+    quantity: number;
+    monthlyRate: number;
+    days: number;
+    amount: number;
+    vatAmount: number;
+  }>;
+  vatMode: VatMode;
+  vatRate: number;
+  taxableAmount: number;
+  vatAmount: number;
+  amount: number;
+  issuedAt: Date;
+  dueDate: Date;
+  status: RentalInvoiceStatus;
+  isOverdue: boolean;
+  paidAt?: Date;
+  paidBy?: string;
+  voidedAt?: Date;
+  voidReason?: string;
+  createdAt: Date;
+}
+
+/**
+ * A rental's invoices with their totals
+ *
+ * Void invoices are listed but not counted; outstandingBalance is the sum of
+ * unpaid invoices.
+ */
+export interface RentalInvoiceSummaryDTO {
+  invoices: RentalInvoiceDTO[];
+  totalInvoiced: number;
+  totalPaid: number;
+  outstandingBalance: number;
+}
+
+/**
+ * One billing period of a rental
+ *
+ * end is exclusive; it is the 1st of the next month, or the return date for
+ * the last period of a returned rental.
+ */
+interface BillingPeriod {
+  start: Date;
+  end: Date;
+  daysInMonth: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generate a unique rental invoice number
+ *
+ * Format: RINV-YYYYMMDD-NNNN
+ * Example: RINV-20251214-0001
+ *
+ * @returns Unique invoice number string
+ */
+async function generateInvoiceNumber(): Promise<string> {
+  await connectToDatabase();
+
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = String(today.getMonth() + 1).padStart(2, "0");
+  const date = String(today.getDate()).padStart(2, "0");
+
+  // Find the last invoice number for today
+  const lastInvoice = await RentalInvoice.findOne({
+    invoiceNumber: new RegExp(`^RINV-${year}${month}${date}`),
+  })
+    .sort({ invoiceNumber: -1 })
+    .lean();
+
+  let sequence = 1;
+  if (lastInvoice) {
+    const lastSequence = parseInt(lastInvoice.invoiceNumber.slice(-4), 10);
+    sequence = lastSequence + 1;
+  }
+
+  return `RINV-${year}${month}${date}-${String(sequence).padStart(4, "0")}`;
+}
+
+/**
+ * Split a rental into calendar-month billing periods
+ *
+ * The first period starts on the rental's start date. Only periods that have
+ * ended by billedUntil are returned, plus the partial period up to billedUntil
+ * when the rental has been returned.
+ *
+ * @param startDate - Rental start date
+ * @param billedUntil - Now for active rentals, the return date for returned ones
+ * @param isReturned - Whether to include the final partial period
+ * @returns Billing periods in date order
+ */
+function getBillingPeriods(
+  startDate: Date,
+  billedUntil: Date,
+  isReturned: boolean
+): BillingPeriod[] {
+  const periods: BillingPeriod[] = [];
+  const start = new Date(startDate);
+  start.setHours(0, 0, 0, 0);
+
+  while (start < billedUntil) {
+    const monthEnd = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+    const daysInMonth = new Date(start.getFullYear(), start.getMonth() + 1, 0).getDate();
+
+    if (monthEnd > billedUntil) {
+      if (isReturned) {
+        periods.push({ start: new Date(start), end: new Date(billedUntil), daysInMonth });
+      }
+      break;
+    }
+
+    periods.push({ start: new Date(start), end: monthEnd, daysInMonth });
+    start.setTime(monthEnd.getTime());
+  }
+
+  return periods;
+}
+
+/**
+ * Monthly charge for one unit of an asset line
+ *
+ * Uses the product's monthly rate snapshotted on the line. Lines without a
+ * monthly rate are charged their daily rate for every day of the month.
+ */
+function getMonthlyUnitRate(item: IRentalAssetItem, daysInMonth: number): number {
+  const monthlyRate = item.pricing?.monthlyRate || 0;
+  return monthlyRate > 0 ? monthlyRate : (item.dailyRate || 0) * daysInMonth;
+}
+
+/**
+ * Build the invoice lines of a billing period
+ *
+ * Each line is charged for the days of the period it was out (from the day it
+ * was added or swapped in until its own return date), prorated against the
+ * days in the month. Lines not out during the period are left out.
+ */
+function buildInvoiceLines(rental: IRental, period: BillingPeriod): IRentalInvoiceLine[] {
+  return rental.assets.flatMap((item) => {
+    const lineStart = Math.max(
+      item.addedAt ? new Date(item.addedAt).getTime() : 0,
+      period.start.getTime()
+    );
+    const lineEnd = Math.min(
+      item.returnedAt ? new Date(item.returnedAt).getTime() : Infinity,
+      period.end.getTime()
+    );
+    const days = Math.min(
+      period.daysInMonth,
+      Math.max(0, Math.ceil((lineEnd - lineStart) / DAY_MS))
+    );
+    if (days === 0) {
+      return [];
+    }
+
+    const quantity = item.quantity || 1;
+    const monthlyRate = getMonthlyUnitRate(item, period.daysInMonth);
+    return [
+      {
+        assetId: item.assetId,
+        productName: item.productName,
+        quantity,
+        monthlyRate,
+        days,
+        amount: roundAmount((monthlyRate * quantity * days) / period.daysInMonth),
+        vatAmount: 0,
+      },
+    ];
+  });
+}
+
+/**
+ * Check whether a write failed on a unique index, and on which field
+ */
+function getDuplicateKeyField(error: unknown): string | undefined {
+  if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+    return Object.keys(error.keyPattern ?? {})[0];
+  }
+  return undefined;
+}
+
+/**
+ * Convert an invoice document to a RentalInvoiceDTO
+ */
+function toRentalInvoiceDTO(invoice: IRentalInvoice): RentalInvoiceDTO {
+  return {
+    id: invoice._id.toString(),
+    invoiceNumber: invoice.invoiceNumber,
+    rentalId: invoice.rentalId.toString(),
+    periodStart: invoice.periodStart,
+    periodEnd: invoice.periodEnd,
+    daysInMonth: invoice.daysInMonth,
+    isProrated: invoice.isProrated,
+    lines: invoice.lines.map((line) => ({
+      assetId: line.assetId.toString(),
+      productName: line.productName,
+      quantity: line.quantity,
+      monthlyRate: line.monthlyRate,
+      days: line.days,
+      amount: line.amount,
+      vatAmount: line.vatAmount ?? 0,
+    })),
+    vatMode: invoice.vatMode ?? "none",
+    vatRate: invoice.vatRate ?? 0,
+    taxableAmount: invoice.taxableAmount ?? invoice.amount,
+    vatAmount: invoice.vatAmount ?? 0,
+    amount: invoice.amount,
+    issuedAt: invoice.issuedAt,
+    dueDate: invoice.dueDate,
+    status: invoice.status,
+    isOverdue: invoice.status === "unpaid" && invoice.dueDate < new Date(),
+    paidAt: invoice.paidAt,
+    paidBy: invoice.paidBy?.toString(),
+    voidedAt: invoice.voidedAt,
+    voidReason: invoice.voidReason,
+    createdAt: invoice.createdAt,
+  };
+}
+
+/**
+ * Find an invoice and the rental it bills, or throw NOT_FOUND
+ */
+async function getInvoiceWithRental(
+  invoiceId: string
+): Promise<{ invoice: IRentalInvoice; rental: IRental }> {
+  const invoice = await RentalInvoice.findById(invoiceId).lean();
+  if (!invoice) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบใบแจ้งหนี้",
+    });
+  }
+
+  const rental = await Rental.findById(invoice.rentalId).lean();
+  if (!rental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  return { invoice, rental };
+}
+
+/**
+ * Issue the invoices a monthly rental is due and has not been billed for
+ *
+ * Active rentals are billed for every calendar month that has ended; returned
+ * rentals also for the last, partial month up to the return date. Periods that
+ * already have an invoice, including void ones, are skipped, so this is safe
+ * to run repeatedly. An invoice number taken by another invoice in the
+ * meantime is retried with the next number. Each invoice is added to the
+ * rental's invoicedAmount, in the same transaction as the invoice is saved;
+ * invoicedAmount is the rent a monthly rental owes. VAT is charged per the
+ * current VAT configuration; with exclusive VAT it is added on top of the
+ * rent.
+ */
+async function issueDueInvoices(rental: IRental): Promise<IRentalInvoice[]> {
+  if (rental.billingCycle !== "monthly") {
+    return [];
+  }
+
+  const isReturned = rental.status === "completed";
+  if (!isReturned && rental.status !== "active") {
+    return [];
+  }
+
+  const billedUntil = isReturned ? rental.actualReturnDate || new Date() : new Date();
+  const periods = getBillingPeriods(rental.startDate, billedUntil, isReturned);
+
+  const existing = await RentalInvoice.find({ rentalId: rental._id }).select("periodStart").lean();
+  const billedPeriods = new Set(existing.map((invoice) => invoice.periodStart.getTime()));
+
+  const issued: IRentalInvoice[] = [];
+  for (const period of periods) {
+    if (billedPeriods.has(period.start.getTime())) {
+      continue;
+    }
+
+    const lines = buildInvoiceLines(rental, period);
+    if (lines.length === 0) {
+      continue;
+    }
+
+    const vat = calculateVat(
+      lines.map((line) => line.amount),
+      0,
+      vatConfig.mode,
+      vatConfig.rate
+    );
+
+    const issuedAt = new Date();
+    const dueDate = new Date(issuedAt);
+    dueDate.setDate(dueDate.getDate() + INVOICE_DUE_DAYS);
+    dueDate.setHours(23, 59, 59, 999);
+
+    let invoice: IRentalInvoice | undefined;
+    for (let attempt = 1; !invoice; attempt++) {
+      const invoiceNumber = await generateInvoiceNumber();
+      try {
+        // Save the invoice and add it to the rental's invoiced rent together
+        invoice = await withTransaction(async (session) => {
+          const [created] = await RentalInvoice.create(
+            [
+              {
+                invoiceNumber,
+                rentalId: rental._id,
+                periodStart: period.start,
+                periodEnd: period.end,
+                daysInMonth: period.daysInMonth,
+                isProrated: lines.some((line) => line.days < period.daysInMonth),
+                lines: lines.map((line, index) => ({
+                  ...line,
+                  vatAmount: vat.lines[index].vatAmount,
+                })),
+                vatMode: vatConfig.mode,
+                vatRate: vatConfig.mode === "none" ? 0 : vatConfig.rate,
+                taxableAmount: vat.taxableAmount,
+                vatAmount: vat.vatAmount,
+                amount: vat.totalAmount,
+                issuedAt,
+                dueDate,
+                status: "unpaid",
+              },
+            ],
+            { session }
+          );
+          await Rental.updateOne(
+            { _id: rental._id },
+            { $inc: { invoicedAmount: created.amount } },
+            { session }
+          );
+          return created.toObject() as IRentalInvoice;
+        });
+      } catch (error) {
+        const field = getDuplicateKeyField(error);
+        // Another invoice took the number; take the next one
+        if (field === "invoiceNumber" && attempt < MAX_NUMBER_ATTEMPTS) {
+          continue;
+        }
+        // The period was issued by a concurrent run
+        if (field === "rentalId") {
+          break;
+        }
+        throw error;
+      }
+    }
+
+    if (invoice) {
+      issued.push(invoice);
+    }
+  }
+
+  return issued;
+}
+
+// ============================================================================
+// Invoice Generation
+// ============================================================================
+
+/**
+ * Issue any invoices a monthly rental is due now
+ *
+ * Called when a monthly rental is returned to bill its last, partial month,
+ * and by admins to bill a rental without waiting for the job. Rentals billed
+ * once are left alone.
+ *
+ * @param rentalId - Rental to invoice
+ * @returns Newly issued invoices
+ * @throws TRPCError if rental not found
+ */
+export async function generateRentalInvoices(rentalId: string): Promise<RentalInvoiceDTO[]> {
+  await connectToDatabase();
+
+  const rental = await Rental.findById(rentalId).lean();
+  if (!rental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  const issued = await issueDueInvoices(rental);
+  return issued.map(toRentalInvoiceDTO);
+}
+
+/**
+ * Issue invoices for a rental on behalf of an admin
+ *
+ * @param userId - ID of admin generating the invoices
+ * @param input - Rental ID
+ * @returns Newly issued invoices
+ * @throws TRPCError if rental not found or not billed monthly
+ */
+export async function issueRentalInvoices(
+  userId: string,
+  input: GenerateRentalInvoicesInput
+): Promise<RentalInvoiceDTO[]> {
+  await connectToDatabase();
+
+  const rental = await Rental.findById(input.rentalId).lean();
+  if (!rental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  if (rental.billingCycle !== "monthly") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ออกใบแจ้งหนี้ได้เฉพาะการเช่าที่เรียกเก็บรายเดือนเท่านั้น",
+    });
+  }
+
+  const issued = await issueDueInvoices(rental);
+
+  if (issued.length > 0) {
+    await activityLogService.createActivityLog(
+      userId,
+      "update",
+      "rental",
+      rental._id.toString(),
+      `Rental ${rental.rentalNumber} - ${rental.customerName}`,
+      {
+        new: {
+          invoices: issued.map((invoice) => invoice.invoiceNumber),
+          amount: roundAmount(issued.reduce((sum, invoice) => sum + invoice.amount, 0)),
+        },
+      }
+    );
+  }
+
+  return issued.map(toRentalInvoiceDTO);
+}
+
+/**
+ * Issue the monthly invoices of every active or returned monthly rental
+ *
+ * Meant to run daily (or at least on the 1st of each month); each rental is
+ * billed for the months that have ended and are not invoiced yet. Returned
+ * rentals are billed when they are returned; those whose last, partial month
+ * still has no invoice (e.g. the billing on return failed) are billed here.
+ *
+ * The run is recorded as a JobRun whether it succeeds or fails.
+ *
+ * @param trigger - How the run was started
+ * @param userId - Admin who started a manual run
+ * @returns The finished job run
+ * @throws TRPCError if the run fails
+ */
+export async function runRentalInvoiceJob(
+  trigger: JobRunTrigger,
+  userId?: string
+): Promise<JobRunDTO> {
+  await connectToDatabase();
+
+  const run = await JobRun.create({
+    jobName: INVOICE_JOB_NAME,
+    trigger,
+    triggeredBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+    status: "running",
+    startedAt: new Date(),
+  });
+
+  try {
+    const activeRentals = await Rental.find({ status: "active", billingCycle: "monthly" }).lean();
+    // Returned rentals whose last, partial month was not invoiced on return
+    const returnedRentals = await Rental.aggregate<IRental>([
+      { $match: { status: "completed", billingCycle: "monthly" } },
+      {
+        $lookup: {
+          from: RentalInvoice.collection.name,
+          let: { rentalId: "$_id", returnedAt: "$actualReturnDate" },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ["$rentalId", "$$rentalId"] },
+                    { $gte: ["$periodEnd", "$$returnedAt"] },
+                  ],
+                },
+              },
+            },
+            { $limit: 1 },
+            { $project: { _id: 1 } },
+          ],
+          as: "finalInvoices",
+        },
+      },
+      { $match: { finalInvoices: { $size: 0 } } },
+      { $project: { finalInvoices: 0 } },
+    ]);
+    const rentals = [...activeRentals, ...returnedRentals];
+
+    let itemsFlagged = 0;
+    let amountAccrued = 0;
+    for (const rental of rentals) {
+      const issued = await issueDueInvoices(rental);
+      itemsFlagged += issued.length;
+      amountAccrued += issued.reduce((sum, invoice) => sum + invoice.amount, 0);
+    }
+
+    const finished = await JobRun.findByIdAndUpdate(
+      run._id,
+      {
+        $set: {
+          status: "succeeded",
+          finishedAt: new Date(),
+          itemsProcessed: rentals.length,
+          itemsFlagged,
+          amountAccrued: roundAmount(amountAccrued),
+        },
+      },
+      { new: true }
+    ).lean();
+
+    return toJobRunDTO(finished || run.toObject());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await JobRun.updateOne(
+      { _id: run._id },
+      { $set: { status: "failed", finishedAt: new Date(), error: message.slice(0, 2000) } }
+    );
+
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "ออกใบแจ้งหนี้ค่าเช่ารายเดือนไม่สำเร็จ",
+      cause: error,
+    });
+  }
+}
+
+// ============================================================================
+// Payment Operations
+// ============================================================================
+
+/**
+ * Mark an unpaid invoice as paid
+ *
+ * Records the invoice amount as a payment on the rental, with the invoice
+ * number as reference. If the payment cannot be recorded (e.g. it exceeds the
+ * rental's outstanding balance) the invoice is put back to unpaid.
+ *
+ * @param userId - ID of user recording the payment
+ * @param input - Invoice ID, payment method, and optional payment date (defaults to now)
+ * @returns Updated invoice DTO
+ * @throws TRPCError if invoice not found or not unpaid, or the payment is rejected
+ */
+export async function markRentalInvoicePaid(
+  userId: string,
+  input: MarkRentalInvoicePaidInput
+): Promise<RentalInvoiceDTO> {
+  await connectToDatabase();
+
+  const { invoice: existing } = await getInvoiceWithRental(input.id);
+  if (existing.status !== "unpaid") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "บันทึกการชำระได้เฉพาะใบแจ้งหนี้ที่ยังไม่ชำระเท่านั้น",
+    });
+  }
+
+  const paidAt = input.paidAt || new Date();
+
+  // Only apply the payment if no one else changed the invoice in the meantime
+  const invoice = await RentalInvoice.findOneAndUpdate(
+    { _id: input.id, status: "unpaid" },
+    {
+      $set: {
+        status: "paid",
+        paidAt,
+        paidBy: new mongoose.Types.ObjectId(userId),
+      },
+    },
+    { new: true }
+  ).lean();
+
+  if (!invoice) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "ใบแจ้งหนี้ถูกเปลี่ยนแปลงแล้ว กรุณาลองใหม่",
+    });
+  }
+
+  // The payment is logged on the rental with the invoice number as reference
+  try {
+    await recordRentalPayment(userId, {
+      id: invoice.rentalId.toString(),
+      amount: invoice.amount,
+      method: input.method,
+      paidAt,
+      reference: invoice.invoiceNumber,
+    });
+  } catch (error) {
+    await RentalInvoice.updateOne(
+      { _id: invoice._id },
+      { $set: { status: "unpaid" }, $unset: { paidAt: 1, paidBy: 1 } }
+    );
+    throw error;
+  }
+
+  return toRentalInvoiceDTO(invoice);
+}
+
+/**
+ * Void an unpaid invoice
+ *
+ * The period stays billed: a void invoice is not reissued by the job, and its
+ * amount is taken off the rental's invoicedAmount.
+ *
+ * @param userId - ID of user voiding the invoice
+ * @param input - Invoice ID and reason
+ * @returns Updated invoice DTO
+ * @throws TRPCError if invoice not found or not unpaid
+ */
+export async function voidRentalInvoice(
+  userId: string,
+  input: VoidRentalInvoiceInput
+): Promise<RentalInvoiceDTO> {
+  await connectToDatabase();
+
+  const { invoice: existing, rental } = await getInvoiceWithRental(input.id);
+  if (existing.status !== "unpaid") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ยกเลิกได้เฉพาะใบแจ้งหนี้ที่ยังไม่ชำระเท่านั้น",
+    });
+  }
+
+  const invoice = await RentalInvoice.findOneAndUpdate(
+    { _id: input.id, status: "unpaid" },
+    { $set: { status: "void", voidedAt: new Date(), voidReason: input.reason } },
+    { new: true }
+  ).lean();
+
+  if (!invoice) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "ใบแจ้งหนี้ถูกเปลี่ยนแปลงแล้ว กรุณาลองใหม่",
+    });
+  }
+
+  // The rental no longer owes the voided amount
+  await Rental.updateOne({ _id: rental._id }, { $inc: { invoicedAmount: -invoice.amount } });
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName}`,
+    {
+      old: { invoiceNumber: invoice.invoiceNumber, status: existing.status },
+      new: { invoiceNumber: invoice.invoiceNumber, status: invoice.status, reason: input.reason },
+    }
+  );
+
+  return toRentalInvoiceDTO(invoice);
+}
+
+// ============================================================================
+// Query Operations
+// ============================================================================
+
+/**
+ * Get a rental's invoices and outstanding balance
+ *
+ * @param input - Rental ID
+ * @returns Invoices (oldest period first) with invoiced, paid, and outstanding totals
+ */
+export async function getRentalInvoices(
+  input: GetRentalInvoicesInput
+): Promise<RentalInvoiceSummaryDTO> {
+  await connectToDatabase();
+
+  const invoices = await RentalInvoice.find({ rentalId: input.rentalId })
+    .sort({ periodStart: 1 })
+    .lean();
+
+  const sumByStatus = (statuses: RentalInvoiceStatus[]) =>
+    roundAmount(
+      invoices
+        .filter((invoice) => statuses.includes(invoice.status))
+        .reduce((sum, invoice) => sum + invoice.amount, 0)
+    );
+
+  return {
+    invoices: invoices.map(toRentalInvoiceDTO),
+    totalInvoiced: sumByStatus(["unpaid", "paid"]),
+    totalPaid: sumByStatus(["paid"]),
+    outstandingBalance: sumByStatus(["unpaid"]),
+  };
+}
@@ -0,0 +1,455 @@
+/**
+ * Rental Notification Service
+ *
+ * Sends customers return reminders and overdue notices through the notifier
+ * subsystem, and keeps a log of every message per rental. Handles:
+ * - Building the Thai message for a rental at a given day relative to its end date
+ * - Running the notification job at the configured day offsets
+ * - Sending a rental's message by hand
+ * - Listing the messages sent for a rental
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import { notificationConfig } from "@/lib/config/notification";
+import { ownerConfig } from "@/lib/config/owner";
+import { getNotifier, type NotificationChannel } from "@/lib/notifications";
+import JobRun, { type JobName, type JobRunTrigger } from "@/lib/db/models/job-run";
+import NotificationLog, {
+  type INotificationLog,
+  type NotificationKind,
+  type NotificationStatus,
+} from "@/lib/db/models/notification-log";
+import Rental, { type IRental } from "@/lib/db/models/rental";
+import RentalAsset from "@/lib/db/models/rental-asset";
+import type { SendRentalNotificationInput, GetRentalNotificationsInput } from "../schemas";
+import { toJobRunDTO, type JobRunDTO } from "./rental-overdue.service";
+import { calculateCurrentPenalty } from "./rental.service";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const NOTIFICATION_JOB_NAME: JobName = "rental-notifications";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Notification Log Data Transfer Object
+ */
+export interface NotificationLogDTO {
+  id: string;
+  rentalId: string;
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  offsetDays: number;
+  dueDate: Date;
+  recipient: string;
+  subject: string;
+  body: string;
+  status: NotificationStatus;
+  notifier: string;
+  error?: string;
+  sentBy?: string;
+  createdAt: Date;
+}
+
+/**
+ * A rental message ready to send
+ */
+interface RentalMessage {
+  kind: NotificationKind;
+  subject: string;
+  body: string;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getStartOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * Whole days from a rental's end date to today (negative before the end date)
+ */
+function getOffsetDays(endDate: Date, today: Date = new Date()): number {
+  return Math.round((getStartOfDay(today).getTime() - getStartOfDay(endDate).getTime()) / DAY_MS);
+}
+
+function formatThaiDate(date: Date): string {
+  return new Date(date).toLocaleDateString("th-TH", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+function formatBaht(amount: number): string {
+  return amount.toLocaleString("th-TH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Address of the customer on a channel, if the rental has one
+ *
+ * LINE-style messaging is addressed by phone number, like SMS.
+ */
+function getRecipient(rental: IRental, channel: NotificationChannel): string | undefined {
+  return channel === "email" ? rental.customerEmail : rental.customerPhone;
+}
+
+/**
+ * Asset codes of the lines a rental still has out
+ */
+async function getOutstandingAssetCodes(rental: IRental): Promise<string[]> {
+  const assetIds = rental.assets.filter((item) => !item.returnedAt).map((item) => item.assetId);
+  if (assetIds.length === 0) {
+    return [];
+  }
+
+  const assets = await RentalAsset.find({ _id: { $in: assetIds } })
+    .select("assetCode")
+    .lean();
+  const codeById = new Map(assets.map((asset) => [asset._id.toString(), asset.assetCode]));
+  return assetIds.map((id) => codeById.get(id.toString()) || id.toString());
+}
+
+/**
+ * Build the message for a rental at a day relative to its end date
+ *
+ * Before or on the end date the customer is reminded to return the assets;
+ * after it, they are told how late the rental is and the penalty so far.
+ *
+ * @param rental - Rental the message is about
+ * @param offsetDays - Days from the end date to today (negative before it)
+ * @param assetCodes - Codes of the assets still out
+ * @returns Message kind, subject and body
+ */
+export function buildRentalMessage(
+  rental: IRental,
+  offsetDays: number,
+  assetCodes: string[]
+): RentalMessage {
+  const dueDate = formatThaiDate(rental.endDate);
+  const assets = assetCodes.length > 0 ? assetCodes.join(", ") : "-";
+  const contact = `${ownerConfig.name} โทร ${ownerConfig.phone}`;
+
+  if (offsetDays <= 0) {
+    const when =
+      offsetDays === 0 ? "วันนี้" : offsetDays === -1 ? "พรุ่งนี้" : `ในอีก ${-offsetDays} วัน`;
+    return {
+      kind: "return-reminder",
+      subject: `แจ้งเตือนครบกำหนดคืนสินค้าเช่า ${rental.rentalNumber}`,
+      body: [
+        `เรียน คุณ${rental.customerName}`,
+        `การเช่าเลขที่ ${rental.rentalNumber} ครบกำหนดคืน${when} (${dueDate})`,
+        `รายการ: ${assets}`,
+        `กรุณาเตรียมคืนสินค้าตามกำหนด หากต้องการเช่าต่อกรุณาติดต่อ ${contact}`,
+      ].join("\n"),
+    };
+  }
+
+  const penalty = calculateCurrentPenalty(rental);
+  return {
+    kind: "overdue-notice",
+    subject: `แจ้งเกินกำหนดคืนสินค้าเช่า ${rental.rentalNumber}`,
+    body: [
+      `เรียน คุณ${rental.customerName}`,
+      `การเช่าเลขที่ ${rental.rentalNumber} เกินกำหนดคืนมาแล้ว ${offsetDays} วัน (ครบกำหนด ${dueDate})`,
+      `รายการที่ยังไม่คืน: ${assets}`,
+      `ค่าปรับสะสม ${formatBaht(penalty)} บาท และจะเพิ่มขึ้นทุกวันจนกว่าจะคืนสินค้า`,
+      `กรุณาคืนสินค้าโดยเร็ว หรือติดต่อ ${contact}`,
+    ].join("\n"),
+  };
+}
+
+/**
+ * Send a message through a channel and log the outcome
+ *
+ * A rejected message is logged as failed instead of throwing, so one bad
+ * recipient does not stop the job.
+ */
+async function sendAndLog(
+  rental: IRental,
+  channel: NotificationChannel,
+  recipient: string,
+  offsetDays: number,
+  message: RentalMessage,
+  sentBy?: string
+): Promise<INotificationLog> {
+  const notifier = getNotifier(channel);
+
+  let status: NotificationStatus = "sent";
+  let providerMessageId: string | undefined;
+  let error: string | undefined;
+  try {
+    const result = await notifier.send({
+      channel,
+      to: recipient,
+      subject: message.subject,
+      body: message.body,
+    });
+    providerMessageId = result.providerMessageId;
+  } catch (sendError) {
+    status = "failed";
+    error = (sendError instanceof Error ? sendError.message : String(sendError)).slice(0, 2000);
+  }
+
+  const log = await NotificationLog.create({
+    rentalId: rental._id,
+    kind: message.kind,
+    channel,
+    offsetDays,
+    dueDate: rental.endDate,
+    recipient,
+    subject: message.subject,
+    body: message.body,
+    status,
+    notifier: notifier.name,
+    providerMessageId,
+    error,
+    sentBy: sentBy ? new mongoose.Types.ObjectId(sentBy) : undefined,
+  });
+  return log.toObject();
+}
+
+/**
+ * Convert a notification log document to a NotificationLogDTO
+ */
+function toNotificationLogDTO(log: INotificationLog): NotificationLogDTO {
+  return {
+    id: log._id.toString(),
+    rentalId: log.rentalId.toString(),
+    kind: log.kind,
+    channel: log.channel,
+    offsetDays: log.offsetDays,
+    dueDate: log.dueDate,
+    recipient: log.recipient,
+    subject: log.subject,
+    body: log.body,
+    status: log.status,
+    notifier: log.notifier,
+    error: log.error,
+    sentBy: log.sentBy?.toString(),
+    createdAt: log.createdAt,
+  };
+}
+
+// ============================================================================
+// Job
+// ============================================================================
+
+/**
+ * Send the return reminders and overdue notices due today
+ *
+ * For each configured day offset (RENTAL_REMINDER_OFFSET_DAYS), active
+ * rentals whose end date is that many days from today get a message on each
+ * configured channel (NOTIFIER_CHANNELS) they have a recipient for. A message
+ * already sent for the same rental, channel, offset and end date is not sent
+ * again, so the job can run more than once a day; failed messages are
+ * retried. Overdue notices skip monthly-billed rentals, which run until
+ * return and are billed by invoice instead.
+ *
+ * The run is recorded as a JobRun whether it succeeds or fails.
+ *
+ * @param trigger - How the run was started
+ * @param userId - Admin who started a manual run
+ * @returns The finished job run
+ * @throws TRPCError if the run fails
+ */
+export async function runRentalNotificationJob(
+  trigger: JobRunTrigger,
+  userId?: string
+): Promise<JobRunDTO> {
+  await connectToDatabase();
+
+  const run = await JobRun.create({
+    jobName: NOTIFICATION_JOB_NAME,
+    trigger,
+    triggeredBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+    status: "running",
+    startedAt: new Date(),
+  });
+
+  try {
+    const startOfToday = getStartOfDay(new Date());
+    let itemsProcessed = 0;
+    let itemsFlagged = 0;
+
+    for (const offsetDays of notificationConfig.reminderOffsetDays) {
+      const dueStart = new Date(startOfToday.getTime() - offsetDays * DAY_MS);
+      const dueEnd = new Date(dueStart.getTime() + DAY_MS);
+      const query: Record<string, unknown> = {
+        status: "active",
+        endDate: { $gte: dueStart, $lt: dueEnd },
+      };
+      if (offsetDays > 0) {
+        query.billingCycle = { $ne: "monthly" };
+      }
+
+      const rentals = await Rental.find(query).lean();
+      itemsProcessed += rentals.length;
+
+      for (const rental of rentals) {
+        const channels = notificationConfig.channels.filter((channel) =>
+          getRecipient(rental, channel)
+        );
+        if (channels.length === 0) {
+          continue;
+        }
+
+        const alreadySent = await NotificationLog.find({
+          rentalId: rental._id,
+          offsetDays,
+          dueDate: rental.endDate,
+          status: "sent",
+        })
+          .select("channel")
+          .lean();
+        const sentChannels = new Set(alreadySent.map((log) => log.channel));
+        const pending = channels.filter((channel) => !sentChannels.has(channel));
+        if (pending.length === 0) {
+          continue;
+        }
+
+        const message = buildRentalMessage(
+          rental,
+          offsetDays,
+          await getOutstandingAssetCodes(rental)
+        );
+        for (const channel of pending) {
+          const log = await sendAndLog(
+            rental,
+            channel,
+            getRecipient(rental, channel)!,
+            offsetDays,
+            message
+          );
+          if (log.status === "sent") {
+            itemsFlagged += 1;
+          }
+        }
+      }
+    }
+
+    const finished = await JobRun.findByIdAndUpdate(
+      run._id,
+      {
+        $set: {
+          status: "succeeded",
+          finishedAt: new Date(),
+          itemsProcessed,
+          itemsFlagged,
+          amountAccrued: 0,
+        },
+      },
+      { new: true }
+    ).lean();
+
+    return toJobRunDTO(finished || run.toObject());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await JobRun.updateOne(
+      { _id: run._id },
+      { $set: { status: "failed", finishedAt: new Date(), error: message.slice(0, 2000) } }
+    );
+
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "ส่งการแจ้งเตือนการคืนสินค้าไม่สำเร็จ",
+      cause: error,
+    });
+  }
+}
+
+// ============================================================================
+// Manual Sending
+// ============================================================================
+
+/**
+ * Send a rental's message now through one channel
+ *
+ * Sends the message for today's position relative to the end date (a
+ * reminder before it, an overdue notice after it), whether or not the job
+ * has already sent one.
+ *
+ * @param userId - ID of the admin sending the message
+ * @param input - Rental ID and channel
+ * @returns The logged message
+ * @throws TRPCError if rental not found, not active, has no recipient, or the notifier rejects the message
+ */
+export async function sendRentalNotification(
+  userId: string,
+  input: SendRentalNotificationInput
+): Promise<NotificationLogDTO> {
+  await connectToDatabase();
+
+  const rental = await Rental.findById(input.rentalId).lean();
+  if (!rental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  if (rental.status !== "active") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ส่งการแจ้งเตือนได้เฉพาะการเช่าที่กำลังใช้งาน",
+    });
+  }
+
+  const recipient = getRecipient(rental, input.channel);
+  if (!recipient) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        input.channel === "email"
+          ? "การเช่านี้ไม่มีอีเมลลูกค้า"
+          : "การเช่านี้ไม่มีเบอร์โทรศัพท์ลูกค้า",
+    });
+  }
+
+  const offsetDays = getOffsetDays(rental.endDate);
+  const message = buildRentalMessage(rental, offsetDays, await getOutstandingAssetCodes(rental));
+  const log = await sendAndLog(rental, input.channel, recipient, offsetDays, message, userId);
+
+  if (log.status === "failed") {
+    throw new TRPCError({
+      code: "BAD_GATEWAY",
+      message: `ส่งการแจ้งเตือนไม่สำเร็จ: ${log.error}`,
+    });
+  }
+
+  return toNotificationLogDTO(log);
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get the messages sent for a rental, newest first
+ *
+ * @param input - Rental ID
+ * @returns Notification log DTOs
+ */
+export async function getRentalNotifications(
+  input: GetRentalNotificationsInput
+): Promise<NotificationLogDTO[]> {
+  await connectToDatabase();
+
+  const logs = await NotificationLog.find({ rentalId: input.rentalId })
+    .sort({ createdAt: -1 })
+    .lean();
+
+  return logs.map(toNotificationLogDTO);
+}
@@ -0,0 +1,279 @@
+/**
+ * Rental Overdue Service
+ *
+ * Runs the overdue penalty job and reports its results. Handles:
+ * - Flagging active rentals that are past their end date
+ * - Accruing each overdue rental's penalty up to today
+ * - Recording every job run
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import JobRun, {
+  type IJobRun,
+  type JobName,
+  type JobRunStatus,
+  type JobRunTrigger,
+} from "@/lib/db/models/job-run";
+import Rental from "@/lib/db/models/rental";
+import type { ListOverdueJobRunsInput } from "../schemas";
+import { calculateCurrentPenalty, countDaysLate } from "./rental.service";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const OVERDUE_JOB_NAME: JobName = "overdue-penalty";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Job Run Data Transfer Object
+ */
+export interface JobRunDTO {
+  id: string;
+  jobName: JobName;
+  trigger: JobRunTrigger;
+  triggeredBy?: string;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  itemsProcessed: number;
+  itemsFlagged: number;
+  amountAccrued: number;
+  error?: string;
+}
+
+/**
+ * Rentals flagged overdue by the penalty job
+ *
+ * lastRunAt is when the last successful job run finished, so the list can be
+ * shown with how current it is.
+ */
+export interface OverdueRentalsDTO {
+  totalPenalty: number;
+  lastRunAt?: Date;
+  rentals: Array<{
+    id: string;
+    rentalNumber: string;
+    customerName: string;
+    customerPhone?: string;
+    endDate: Date;
+    daysLate: number;
+    penaltyAmount: number;
+  }>;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Midnight at the start of today, the cutoff for a rental being overdue
+ */
+function getStartOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Convert a job run document to a JobRunDTO
+ */
+export function toJobRunDTO(run: IJobRun): JobRunDTO {
+  return {
+    id: run._id.toString(),
+    jobName: run.jobName,
+    trigger: run.trigger,
+    triggeredBy: run.triggeredBy?.toString(),
+    status: run.status,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    itemsProcessed: run.itemsProcessed,
+    itemsFlagged: run.itemsFlagged,
+    amountAccrued: run.amountAccrued,
+    error: run.error,
+  };
+}
+
+// ============================================================================
+// Job
+// ============================================================================
+
+/**
+ * Flag overdue rentals and accrue their penalties
+ *
+ * Checks every active rental whose end date is before today (plus any still
+ * flagged from an earlier run), sets isOverdue, and stores the penalty owed as
+ * of today, so penaltyAmount grows by one day's penalty per daily run.
+ * Rentals no longer overdue (e.g. extended) have their flag cleared and keep
+ * only the penalty of lines returned late. Running the job more than once a
+ * day is safe: the penalty is recalculated, not added. Rentals changed while
+ * the job runs are left for the next run.
+ * Monthly-billed rentals are skipped: they run until return and are billed by
+ * invoice instead.
+ *
+ * The run is recorded as a JobRun whether it succeeds or fails.
+ *
+ * @param trigger - How the run was started
+ * @param userId - Admin who started a manual run
+ * @returns The finished job run
+ * @throws TRPCError if the run fails
+ */
+export async function runOverduePenaltyJob(
+  trigger: JobRunTrigger,
+  userId?: string
+): Promise<JobRunDTO> {
+  await connectToDatabase();
+
+  const run = await JobRun.create({
+    jobName: OVERDUE_JOB_NAME,
+    trigger,
+    triggeredBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+    status: "running",
+    startedAt: new Date(),
+  });
+
+  try {
+    const startOfToday = getStartOfToday();
+    const rentals = await Rental.find({
+      status: "active",
+      billingCycle: { $ne: "monthly" },
+      $or: [{ endDate: { $lt: startOfToday } }, { isOverdue: true }],
+    }).lean();
+
+    const now = new Date();
+    let itemsFlagged = 0;
+    let amountAccrued = 0;
+    const operations: Parameters<typeof Rental.bulkWrite>[0] = [];
+    for (const rental of rentals) {
+      // Skip rentals changed since they were read (returned, extended,
+      // completed); the next run picks them up with their new state
+      const filter = { _id: rental._id, status: "active" as const, updatedAt: rental.updatedAt };
+
+      const penaltyAmount = calculateCurrentPenalty(rental);
+      if (rental.endDate >= startOfToday) {
+        // Lines still out owe nothing until the end date has passed
+        operations.push({
+          updateOne: {
+            filter,
+            update: {
+              $set: { isOverdue: false, penaltyAmount, penaltyAccruedAt: now },
+              $unset: { overdueSince: 1 },
+            },
+          },
+        });
+        continue;
+      }
+
+      itemsFlagged += 1;
+      amountAccrued += Math.max(0, penaltyAmount - (rental.penaltyAmount || 0));
+      operations.push({
+        updateOne: {
+          filter,
+          update: {
+            $set: {
+              isOverdue: true,
+              overdueSince: rental.overdueSince || rental.endDate,
+              penaltyAmount,
+              penaltyAccruedAt: now,
+            },
+          },
+        },
+      });
+    }
+
+    if (operations.length > 0) {
+      await Rental.bulkWrite(operations);
+    }
+
+    const finished = await JobRun.findByIdAndUpdate(
+      run._id,
+      {
+        $set: {
+          status: "succeeded",
+          finishedAt: new Date(),
+          itemsProcessed: rentals.length,
+          itemsFlagged,
+          amountAccrued,
+        },
+      },
+      { new: true }
+    ).lean();
+
+    return toJobRunDTO(finished || run.toObject());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await JobRun.updateOne(
+      { _id: run._id },
+      { $set: { status: "failed", finishedAt: new Date(), error: message.slice(0, 2000) } }
+    );
+
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "คำนวณค่าปรับเกินกำหนดไม่สำเร็จ",
+      cause: error,
+    });
+  }
+}
+
+// ============================================================================
+// Query Operations
+// ============================================================================
+
+/**
+ * Get rentals flagged overdue by the penalty job
+ *
+ * Uses the penalty stored by the last run, so amounts are as of that run.
+ *
+ * @returns Overdue rentals (most days late first) and their total penalty
+ */
+export async function getOverdueRentals(): Promise<OverdueRentalsDTO> {
+  await connectToDatabase();
+
+  const [rentals, lastRun] = await Promise.all([
+    Rental.find({ status: "active", isOverdue: true })
+      .select("rentalNumber customerName customerPhone endDate penaltyAmount")
+      .sort({ endDate: 1 })
+      .lean(),
+    JobRun.findOne({ jobName: OVERDUE_JOB_NAME, status: "succeeded" })
+      .sort({ startedAt: -1 })
+      .lean(),
+  ]);
+
+  const overdue = rentals.map((rental) => ({
+    id: rental._id.toString(),
+    rentalNumber: rental.rentalNumber,
+    customerName: rental.customerName,
+    customerPhone: rental.customerPhone,
+    endDate: rental.endDate,
+    daysLate: countDaysLate(rental.endDate, new Date()),
+    penaltyAmount: rental.penaltyAmount || 0,
+  }));
+
+  return {
+    totalPenalty: overdue.reduce((sum, rental) => sum + rental.penaltyAmount, 0),
+    lastRunAt: lastRun?.finishedAt,
+    rentals: overdue,
+  };
+}
+
+/**
+ * List recent runs of the overdue penalty job
+ *
+ * @param input - Maximum number of runs to return
+ * @returns Job runs, most recent first
+ */
+export async function listOverdueJobRuns(input: ListOverdueJobRunsInput): Promise<JobRunDTO[]> {
+  await connectToDatabase();
+
+  const runs = await JobRun.find({ jobName: OVERDUE_JOB_NAME })
+    .sort({ startedAt: -1 })
+    .limit(input.limit)
+    .lean();
+
+  return runs.map(toJobRunDTO);
+}
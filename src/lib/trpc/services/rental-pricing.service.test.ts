@@ -0,0 +1,29 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+let pricingService: typeof import("./rental-pricing.service");
+
+beforeAll(async () => {
+  // The database module needs a URI when it is loaded; these tests never connect
+  process.env.MONGODB_URI ??= "mongodb://127.0.0.1:27017/test";
+  pricingService = await import("./rental-pricing.service");
+});
+
+describe("getEffectiveDailyRate", () => {
+  it("uses the product's daily rate when it has one", () => {
+    expect(
+      pricingService.getEffectiveDailyRate({ dailyRentalRate: 100, weeklyRentalRate: 350 })
+    ).toBe(100);
+  });
+
+  it("spreads the cheapest weekly or monthly rate over its days otherwise", () => {
+    expect(pricingService.getEffectiveDailyRate({ weeklyRentalRate: 700 })).toBe(100);
+    expect(
+      pricingService.getEffectiveDailyRate({ weeklyRentalRate: 700, monthlyRentalRate: 1500 })
+    ).toBe(50);
+    expect(pricingService.getEffectiveDailyRate({ monthlyRentalRate: 1000 })).toBe(33.33);
+  });
+
+  it("is 0 for a product without rates", () => {
+    expect(pricingService.getEffectiveDailyRate({})).toBe(0);
+  });
+});
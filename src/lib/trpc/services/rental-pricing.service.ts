@@ -0,0 +1,335 @@
+/**
+ * Rental Pricing Service
+ *
+ * Prices each rented asset line (or quoted product line) from its product's
+ * rates. Handles:
+ * - Picking the cheapest combination of monthly, weekly, and daily rates
+ * - Minimum rental days per product
+ * - Per-product rounding of the price per unit
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose, { type ClientSession } from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import type { IRentalAssetItem, IRentalLinePricing } from "@/lib/db/models/rental";
+import RentalAsset from "@/lib/db/models/rental-asset";
+import Product, { type RentalRoundingMode } from "@/lib/db/models/product";
+import { roundAmount } from "@/lib/vat";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Days covered by one weekly or monthly rate
+ */
+const DAYS_PER_WEEK = 7;
+const DAYS_PER_MONTH = 30;
+
+/**
+ * Product fields needed for pricing
+ */
+const PRODUCT_RATE_FIELDS =
+  "name insuranceFee dailyRentalRate weeklyRentalRate monthlyRentalRate minRentalDays rentalRoundingMode rentalRoundingStep";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Product fields used for pricing
+ */
+export interface ProductRentalRates {
+  name?: string;
+  insuranceFee?: number;
+  dailyRentalRate?: number;
+  weeklyRentalRate?: number;
+  monthlyRentalRate?: number;
+  minRentalDays?: number;
+  rentalRoundingMode?: RentalRoundingMode;
+  rentalRoundingStep?: number;
+}
+
+/**
+ * Asset line to be priced
+ */
+export interface RentalLineInput {
+  assetId: string | mongoose.Types.ObjectId;
+  quantity: number;
+}
+
+/**
+ * Priced asset line, with the product snapshot stored on the rental
+ *
+ * dailyRate is the effective daily rate (see getEffectiveDailyRate);
+ * pricing.dailyRate is the product's own daily rate, 0 if it has none.
+ */
+export type PricedRentalLine = Pick<
+  IRentalAssetItem,
+  "assetId" | "productName" | "quantity" | "dailyRate" | "insuranceFee" | "lineTotal"
+> & {
+  pricing: IRentalLinePricing;
+};
+
+/**
+ * Pricing result for a whole rental
+ *
+ * dailyRate is the sum of the lines' daily rates × quantity.
+ */
+export interface RentalPricingResult {
+  lines: PricedRentalLine[];
+  totalAmount: number;
+  dailyRate: number;
+}
+
+/**
+ * Product line to be priced (used by quotes, before assets are picked)
+ */
+export interface ProductLineInput {
+  productId: string | mongoose.Types.ObjectId;
+  quantity: number;
+}
+
+/**
+ * Priced product line, with the product snapshot stored on a quote
+ */
+export type PricedProductLine = Omit<PricedRentalLine, "assetId"> & {
+  productId: mongoose.Types.ObjectId;
+};
+
+/**
+ * Pricing result for a set of product lines
+ */
+export interface ProductPricingResult {
+  lines: PricedProductLine[];
+  totalAmount: number;
+  dailyRate: number;
+}
+
+// ============================================================================
+// Pricing Engine
+// ============================================================================
+
+/**
+ * Count the rental days between two dates (partial days count as a full day)
+ *
+ * @param startDate - Rental start date
+ * @param endDate - Rental end date
+ * @returns Number of days, at least 1
+ */
+export function calculateRentalDays(startDate: Date, endDate: Date): number {
+  return Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_MS));
+}
+
+/**
+ * Round a price according to a product's rounding rule
+ *
+ * @param amount - Price to round
+ * @param mode - Rounding mode
+ * @param step - Multiple to round to (ignored when 0 or less)
+ * @returns Rounded price
+ */
+export function roundRentalPrice(
+  amount: number,
+  mode: RentalRoundingMode = "none",
+  step: number = 1
+): number {
+  if (mode === "none" || step <= 0) {
+    return amount;
+  }
+  const units = amount / step;
+  const rounded =
+    mode === "up" ? Math.ceil(units) : mode === "down" ? Math.floor(units) : Math.round(units);
+  return rounded * step;
+}
+
+/**
+ * Price one unit of a product for a number of days
+ *
+ * Tries every combination of months, weeks, and days that covers the charged
+ * days (covering a few extra days is allowed when a longer rate is cheaper)
+ * and keeps the cheapest. Rates that are not set on the product are skipped;
+ * if no rate is set at all, the price is 0.
+ *
+ * @param rates - Product rental rates and rules
+ * @param rentalDays - Days in the rental period
+ * @returns Price breakdown for one unit
+ */
+export function calculateUnitPricing(
+  rates: ProductRentalRates,
+  rentalDays: number
+): IRentalLinePricing {
+  const days = Math.max(rentalDays, rates.minRentalDays || 1);
+  const dailyRate = rates.dailyRentalRate || 0;
+  const weeklyRate = rates.weeklyRentalRate || 0;
+  const monthlyRate = rates.monthlyRentalRate || 0;
+
+  let best = { months: 0, weeks: 0, extraDays: days, price: days * dailyRate };
+  if (dailyRate <= 0) {
+    best.price = Number.POSITIVE_INFINITY;
+  }
+
+  const maxMonths = monthlyRate > 0 ? Math.ceil(days / DAYS_PER_MONTH) : 0;
+  for (let months = 0; months <= maxMonths; months++) {
+    const afterMonths = Math.max(0, days - months * DAYS_PER_MONTH);
+    const maxWeeks = weeklyRate > 0 ? Math.ceil(afterMonths / DAYS_PER_WEEK) : 0;
+    for (let weeks = 0; weeks <= maxWeeks; weeks++) {
+      const extraDays = Math.max(0, afterMonths - weeks * DAYS_PER_WEEK);
+      if (extraDays > 0 && dailyRate <= 0) {
+        continue;
+      }
+      const price = months * monthlyRate + weeks * weeklyRate + extraDays * dailyRate;
+      if (price < best.price) {
+        best = { months, weeks, extraDays, price };
+      }
+    }
+  }
+
+  if (!Number.isFinite(best.price)) {
+    best = { months: 0, weeks: 0, extraDays: days, price: 0 };
+  }
+
+  return {
+    days,
+    months: best.months,
+    weeks: best.weeks,
+    extraDays: best.extraDays,
+    dailyRate,
+    weeklyRate,
+    monthlyRate,
+    unitPrice: roundRentalPrice(best.price, rates.rentalRoundingMode, rates.rentalRoundingStep),
+  };
+}
+
+/**
+ * Daily rate a line is charged per day beyond its rental, e.g. for penalties
+ *
+ * The product's daily rate if it has one; otherwise the cheapest of its weekly
+ * and monthly rates spread over their days, so products rented only by the
+ * week or month still accrue a penalty.
+ *
+ * @param rates - Product rental rates
+ * @returns Effective daily rate (0 if the product has no rate)
+ */
+export function getEffectiveDailyRate(rates: ProductRentalRates): number {
+  if (rates.dailyRentalRate) {
+    return rates.dailyRentalRate;
+  }
+  const spreadRates = [
+    (rates.weeklyRentalRate || 0) / DAYS_PER_WEEK,
+    (rates.monthlyRentalRate || 0) / DAYS_PER_MONTH,
+  ].filter((rate) => rate > 0);
+  return spreadRates.length > 0 ? roundAmount(Math.min(...spreadRates)) : 0;
+}
+
+/**
+ * Price every asset line of a rental from its product's rates
+ *
+ * @param lines - Asset lines to price
+ * @param startDate - Rental start date
+ * @param endDate - Rental end date
+ * @param session - Transaction to read in, if any
+ * @returns Priced lines with product snapshots, total amount, and combined daily rate
+ * @throws TRPCError if an asset does not exist
+ */
+export async function priceRentalLines(
+  lines: RentalLineInput[],
+  startDate: Date,
+  endDate: Date,
+  session?: ClientSession
+): Promise<RentalPricingResult> {
+  await connectToDatabase();
+
+  const assetIds = lines.map((line) => new mongoose.Types.ObjectId(line.assetId.toString()));
+  const assets = await RentalAsset.find({ _id: { $in: assetIds } })
+    .populate<{ productId: ProductRentalRates | null }>({
+      path: "productId",
+      select: PRODUCT_RATE_FIELDS,
+    })
+    .session(session ?? null)
+    .lean();
+  const assetById = new Map(assets.map((asset) => [asset._id.toString(), asset]));
+
+  const rentalDays = calculateRentalDays(startDate, endDate);
+  const pricedLines = lines.map((line): PricedRentalLine => {
+    const asset = assetById.get(line.assetId.toString());
+    if (!asset) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "ไม่พบทรัพย์สินบางรายการ",
+      });
+    }
+    const product = asset.productId || {};
+    const pricing = calculateUnitPricing(product, rentalDays);
+    return {
+      assetId: asset._id,
+      productName: product.name || asset.assetCode,
+      quantity: line.quantity,
+      dailyRate: getEffectiveDailyRate(product),
+      insuranceFee: product.insuranceFee || 0,
+      lineTotal: pricing.unitPrice * line.quantity,
+      pricing,
+    };
+  });
+
+  return {
+    lines: pricedLines,
+    totalAmount: pricedLines.reduce((sum, line) => sum + line.lineTotal, 0),
+    dailyRate: pricedLines.reduce((sum, line) => sum + line.dailyRate * line.quantity, 0),
+  };
+}
+
+/**
+ * Price product lines from each product's rates
+ *
+ * Same pricing as priceRentalLines, for lines that name a product and a
+ * quantity rather than specific assets.
+ *
+ * @param lines - Product lines to price
+ * @param startDate - Rental start date
+ * @param endDate - Rental end date
+ * @returns Priced lines with product snapshots, total amount, and combined daily rate
+ * @throws TRPCError if a product does not exist
+ */
+export async function priceProductLines(
+  lines: ProductLineInput[],
+  startDate: Date,
+  endDate: Date
+): Promise<ProductPricingResult> {
+  await connectToDatabase();
+
+  const productIds = lines.map((line) => new mongoose.Types.ObjectId(line.productId.toString()));
+  const products = await Product.find({ _id: { $in: productIds } })
+    .select(PRODUCT_RATE_FIELDS)
+    .lean();
+  const productById = new Map(products.map((product) => [product._id.toString(), product]));
+
+  const rentalDays = calculateRentalDays(startDate, endDate);
+  const pricedLines = lines.map((line): PricedProductLine => {
+    const product = productById.get(line.productId.toString());
+    if (!product) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "ไม่พบสินค้าบางรายการ",
+      });
+    }
+    const pricing = calculateUnitPricing(product, rentalDays);
+    return {
+      productId: product._id,
+      productName: product.name,
+      quantity: line.quantity,
+      dailyRate: getEffectiveDailyRate(product),
+      insuranceFee: product.insuranceFee || 0,
+      lineTotal: pricing.unitPrice * line.quantity,
+      pricing,
+    };
+  });
+
+  return {
+    lines: pricedLines,
+    totalAmount: pricedLines.reduce((sum, line) => sum + line.lineTotal, 0),
+    dailyRate: pricedLines.reduce((sum, line) => sum + line.dailyRate * line.quantity, 0),
+  };
+}
@@ -0,0 +1,666 @@
+/**
+ * Rental Quote Service
+ *
+ * Handles rental quotations including:
+ * - Pricing products and quantities for a period with the rental rates
+ * - Quote numbering, expiry, and cancellation
+ * - Converting a quote into a rental by picking available assets
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose, { type ClientSession } from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import { withTransaction } from "@/lib/db/transaction";
+import type { IRentalLinePricing } from "@/lib/db/models/rental";
+import RentalQuote, {
+  type IRentalQuote,
+  type RentalQuoteStatus,
+} from "@/lib/db/models/rental-quote";
+import type {
+  CreateRentalQuoteInput,
+  UpdateRentalQuoteInput,
+  PriceRentalQuoteInput,
+  ConvertRentalQuoteInput,
+  CancelRentalQuoteInput,
+  GetRentalQuoteByIdInput,
+  ListRentalQuotesInput,
+} from "../schemas";
+import * as activityLogService from "./activity-log.service";
+import { findAvailableAssetIds } from "./rental-booking.service";
+import { priceProductLines, type PricedRentalLine } from "./rental-pricing.service";
+import { insertRental } from "./rental.service";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rental Quote Data Transfer Object
+ *
+ * Represents a quotation with customer info, quoted products, period,
+ * pricing, and status. isExpired is true for open quotes past validUntil.
+ */
+export interface RentalQuoteDTO {
+  id: string;
+  quoteNumber: string;
+  customerName: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  customerAddress?: string;
+  items: Array<{
+    productId: string;
+    productName: string;
+    quantity: number;
+    dailyRate: number;
+    insuranceFee: number;
+    lineTotal: number;
+    pricing: IRentalLinePricing;
+  }>;
+  startDate: Date;
+  endDate: Date;
+  validUntil: Date;
+  isExpired: boolean;
+  dailyRate: number;
+  totalAmount: number;
+  deposit: number;
+  shippingCost: number;
+  status: RentalQuoteStatus;
+  rentalId?: string;
+  convertedAt?: Date;
+  notes?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Price preview for a set of products over a rental period
+ */
+export interface RentalQuotePriceDTO {
+  items: RentalQuoteDTO["items"];
+  totalAmount: number;
+  dailyRate: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Days a quote stays valid when no validUntil is given
+ */
+const DEFAULT_QUOTE_VALIDITY_DAYS = 7;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generate a unique quote number
+ *
+ * Format: QUO-YYYYMMDD-NNNN
+ * Example: QUO-20251214-0001
+ *
+ * @returns Unique quote number string
+ */
+async function generateQuoteNumber(): Promise<string> {
+  await connectToDatabase();
+
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = String(today.getMonth() + 1).padStart(2, "0");
+  const date = String(today.getDate()).padStart(2, "0");
+
+  // Find the last quote number for today
+  const lastQuote = await RentalQuote.findOne({
+    quoteNumber: new RegExp(`^QUO-${year}${month}${date}`),
+  })
+    .sort({ quoteNumber: -1 })
+    .lean();
+
+  let sequence = 1;
+  if (lastQuote) {
+    const lastSequence = parseInt(lastQuote.quoteNumber.slice(-4), 10);
+    sequence = lastSequence + 1;
+  }
+
+  return `QUO-${year}${month}${date}-${String(sequence).padStart(4, "0")}`;
+}
+
+/**
+ * Default expiry for a new quote: the end of the day DEFAULT_QUOTE_VALIDITY_DAYS from now
+ */
+function getDefaultValidUntil(): Date {
+  const validUntil = new Date();
+  validUntil.setDate(validUntil.getDate() + DEFAULT_QUOTE_VALIDITY_DAYS);
+  validUntil.setHours(23, 59, 59, 999);
+  return validUntil;
+}
+
+/**
+ * Check whether an open quote has passed its expiry date
+ */
+function isQuoteExpired(quote: Pick<IRentalQuote, "status" | "validUntil">): boolean {
+  return quote.status === "open" && quote.validUntil.getTime() < Date.now();
+}
+
+/**
+ * Convert a quote document to a RentalQuoteDTO
+ *
+ * @param quote - Quote document (lean)
+ * @returns Rental quote DTO
+ */
+function toRentalQuoteDTO(quote: IRentalQuote): RentalQuoteDTO {
+  return {
+    id: quote._id.toString(),
+    quoteNumber: quote.quoteNumber,
+    customerName: quote.customerName,
+    customerPhone: quote.customerPhone,
+    customerEmail: quote.customerEmail,
+    customerAddress: quote.customerAddress,
+    items: quote.items.map((item) => ({
+      productId: item.productId.toString(),
+      productName: item.productName,
+      quantity: item.quantity,
+      dailyRate: item.dailyRate,
+      insuranceFee: item.insuranceFee || 0,
+      lineTotal: item.lineTotal,
+      pricing: item.pricing,
+    })),
+    startDate: quote.startDate,
+    endDate: quote.endDate,
+    validUntil: quote.validUntil,
+    isExpired: isQuoteExpired(quote),
+    dailyRate: quote.dailyRate,
+    totalAmount: quote.totalAmount,
+    deposit: quote.deposit || 0,
+    shippingCost: quote.shippingCost || 0,
+    status: quote.status,
+    rentalId: quote.rentalId?.toString(),
+    convertedAt: quote.convertedAt,
+    notes: quote.notes,
+    createdBy: quote.createdBy.toString(),
+    createdAt: quote.createdAt,
+    updatedAt: quote.updatedAt,
+  };
+}
+
+/**
+ * Read a quote, failing if it does not exist
+ *
+ * @param id - Quote ID
+ * @param session - Transaction to read in, if any
+ */
+async function getQuoteOrThrow(id: string, session?: ClientSession): Promise<IRentalQuote> {
+  const quote = await RentalQuote.findById(id)
+    .session(session ?? null)
+    .lean();
+  if (!quote) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบใบเสนอราคา",
+    });
+  }
+  return quote;
+}
+
+/**
+ * Ensure a quote can still be changed or converted
+ *
+ * @param quote - Quote to check
+ * @throws TRPCError if the quote is converted, cancelled, or expired
+ */
+function assertQuoteOpen(quote: IRentalQuote): void {
+  if (quote.status !== "open") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        quote.status === "converted"
+          ? "ใบเสนอราคานี้ถูกแปลงเป็นการเช่าแล้ว"
+          : "ใบเสนอราคานี้ถูกยกเลิกแล้ว",
+    });
+  }
+  if (isQuoteExpired(quote)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ใบเสนอราคาหมดอายุแล้ว",
+    });
+  }
+}
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * Price products for a rental period without saving anything
+ *
+ * Uses the same rates as rentals so the quote form can preview the total.
+ *
+ * @param input - Products with quantities and the rental period
+ * @returns Per-line price breakdown, total amount, and combined daily rate
+ * @throws TRPCError if a product does not exist
+ */
+export async function priceRentalQuote(input: PriceRentalQuoteInput): Promise<RentalQuotePriceDTO> {
+  const pricing = await priceProductLines(input.items, input.startDate, input.endDate);
+
+  return {
+    items: pricing.lines.map((line) => ({
+      ...line,
+      productId: line.productId.toString(),
+    })),
+    totalAmount: pricing.totalAmount,
+    dailyRate: pricing.dailyRate,
+  };
+}
+
+// ============================================================================
+// CRUD Operations
+// ============================================================================
+
+/**
+ * Create a rental quote
+ *
+ * Prices the products with the current rental rates. No assets are booked.
+ *
+ * @param userId - ID of user creating the quote
+ * @param input - Customer info, products, period, and optional expiry
+ * @returns Created quote DTO
+ * @throws TRPCError if a product does not exist or the expiry is in the past
+ */
+export async function createRentalQuote(
+  userId: string,
+  input: CreateRentalQuoteInput
+): Promise<RentalQuoteDTO> {
+  await connectToDatabase();
+
+  const validUntil = input.validUntil ?? getDefaultValidUntil();
+  if (validUntil.getTime() < Date.now()) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "วันหมดอายุใบเสนอราคาต้องไม่อยู่ในอดีต",
+    });
+  }
+
+  const pricing = await priceProductLines(input.items, input.startDate, input.endDate);
+  const quoteNumber = await generateQuoteNumber();
+
+  const quote = await RentalQuote.create({
+    quoteNumber,
+    customerName: input.customerName,
+    customerPhone: input.customerPhone,
+    customerEmail: input.customerEmail,
+    customerAddress: input.customerAddress,
+    items: pricing.lines,
+    startDate: input.startDate,
+    endDate: input.endDate,
+    validUntil,
+    dailyRate: pricing.dailyRate,
+    totalAmount: pricing.totalAmount,
+    deposit: input.deposit,
+    shippingCost: input.shippingCost,
+    status: "open",
+    notes: input.notes,
+    createdBy: new mongoose.Types.ObjectId(userId),
+  });
+
+  await activityLogService.createActivityLog(
+    userId,
+    "create",
+    "rentalQuote",
+    quote._id.toString(),
+    `Quote ${quote.quoteNumber} - ${quote.customerName}`,
+    {
+      new: {
+        quoteNumber: quote.quoteNumber,
+        customerName: quote.customerName,
+        startDate: quote.startDate,
+        endDate: quote.endDate,
+        validUntil: quote.validUntil,
+        totalAmount: quote.totalAmount,
+      },
+    }
+  );
+
+  return toRentalQuoteDTO(quote.toObject());
+}
+
+/**
+ * Update an open quote
+ *
+ * Changing the products or period reprices every line at the current rates.
+ *
+ * @param userId - ID of user updating the quote
+ * @param input - Quote ID and fields to update
+ * @returns Updated quote DTO
+ * @throws TRPCError if the quote is not found, not open, or expired
+ */
+export async function updateRentalQuote(
+  userId: string,
+  input: UpdateRentalQuoteInput
+): Promise<RentalQuoteDTO> {
+  await connectToDatabase();
+
+  const existing = await getQuoteOrThrow(input.id);
+  assertQuoteOpen(existing);
+
+  const startDate = input.startDate ?? existing.startDate;
+  const endDate = input.endDate ?? existing.endDate;
+  if (endDate <= startDate) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "วันที่สิ้นสุดต้องมากกว่าวันที่เริ่มต้น",
+    });
+  }
+
+  const { id, items, ...fields } = input;
+  const updateData: Record<string, unknown> = { ...fields };
+
+  if (items || input.startDate || input.endDate) {
+    const pricing = await priceProductLines(
+      items ??
+        existing.items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+      startDate,
+      endDate
+    );
+    updateData.items = pricing.lines;
+    updateData.dailyRate = pricing.dailyRate;
+    updateData.totalAmount = pricing.totalAmount;
+  }
+
+  const quote = await RentalQuote.findOneAndUpdate(
+    { _id: id, status: "open" },
+    { $set: updateData },
+    { new: true, runValidators: true }
+  ).lean();
+
+  if (!quote) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "สถานะใบเสนอราคาถูกเปลี่ยนแปลงแล้ว กรุณาลองใหม่",
+    });
+  }
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rentalQuote",
+    quote._id.toString(),
+    `Quote ${quote.quoteNumber} - ${quote.customerName}`,
+    {
+      old: {
+        startDate: existing.startDate,
+        endDate: existing.endDate,
+        validUntil: existing.validUntil,
+        totalAmount: existing.totalAmount,
+      },
+      new: {
+        startDate: quote.startDate,
+        endDate: quote.endDate,
+        validUntil: quote.validUntil,
+        totalAmount: quote.totalAmount,
+      },
+    }
+  );
+
+  return toRentalQuoteDTO(quote);
+}
+
+/**
+ * Cancel an open quote
+ *
+ * Expired quotes can still be cancelled to tidy up the list.
+ *
+ * @param userId - ID of user cancelling the quote
+ * @param input - Quote ID and optional reason (appended to notes)
+ * @returns Updated quote DTO
+ * @throws TRPCError if the quote is not found or not open
+ */
+export async function cancelRentalQuote(
+  userId: string,
+  input: CancelRentalQuoteInput
+): Promise<RentalQuoteDTO> {
+  await connectToDatabase();
+
+  const existing = await getQuoteOrThrow(input.id);
+  if (existing.status !== "open") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        existing.status === "converted"
+          ? "ใบเสนอราคานี้ถูกแปลงเป็นการเช่าแล้ว"
+          : "ใบเสนอราคานี้ถูกยกเลิกแล้ว",
+    });
+  }
+
+  const updateData: Record<string, unknown> = { status: "cancelled" };
+  if (input.reason) {
+    updateData.notes = existing.notes
+      ? `${existing.notes}\n\nเหตุผลการยกเลิก: ${input.reason}`
+      : `เหตุผลการยกเลิก: ${input.reason}`;
+  }
+
+  const quote = await RentalQuote.findOneAndUpdate(
+    { _id: input.id, status: "open" },
+    { $set: updateData },
+    { new: true }
+  ).lean();
+
+  if (!quote) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "สถานะใบเสนอราคาถูกเปลี่ยนแปลงแล้ว กรุณาลองใหม่",
+    });
+  }
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rentalQuote",
+    quote._id.toString(),
+    `Quote ${quote.quoteNumber} - ${quote.customerName}`,
+    {
+      old: { status: existing.status },
+      new: { status: quote.status, reason: input.reason },
+    }
+  );
+
+  return toRentalQuoteDTO(quote);
+}
+
+/**
+ * Convert an open quote into a rental
+ *
+ * Picks the required number of available assets of each quoted product for
+ * the quote's period and creates a pending rental with them, at the line
+ * prices and total the quote was issued at. The rental is saved and the quote
+ * marked converted in one transaction, so a failure leaves the quote open and
+ * no rental behind, and a quote converted twice at once yields one rental.
+ *
+ * @param userId - ID of user converting the quote
+ * @param input - Quote ID
+ * @returns Updated quote DTO, with rentalId set
+ * @throws TRPCError if the quote is not open or expired, or a product does not
+ *   have enough available assets for the period
+ */
+export async function convertRentalQuote(
+  userId: string,
+  input: ConvertRentalQuoteInput
+): Promise<RentalQuoteDTO> {
+  await connectToDatabase();
+
+  const { existing, quote, rental } = await withTransaction(async (session) => {
+    const existing = await getQuoteOrThrow(input.id, session);
+    assertQuoteOpen(existing);
+
+    // ======================================================================
+    // Pick Available Assets per Product
+    // ======================================================================
+
+    // One line per asset, each at the quoted price of one unit
+    const lines: PricedRentalLine[] = [];
+    for (const item of existing.items) {
+      const availableIds = await findAvailableAssetIds(
+        existing.startDate,
+        existing.endDate,
+        item.productId.toString(),
+        session
+      );
+      const freeIds = availableIds.filter(
+        (id) => !lines.some((line) => line.assetId.toString() === id)
+      );
+      if (freeIds.length < item.quantity) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `ทรัพย์สินว่างไม่พอสำหรับ ${item.productName}: ต้องการ ${item.quantity} ว่าง ${freeIds.length}`,
+        });
+      }
+      for (const assetId of freeIds.slice(0, item.quantity)) {
+        lines.push({
+          assetId: new mongoose.Types.ObjectId(assetId),
+          productName: item.productName,
+          quantity: 1,
+          dailyRate: item.dailyRate,
+          insuranceFee: item.insuranceFee,
+          lineTotal: item.pricing.unitPrice,
+          pricing: item.pricing,
+        });
+      }
+    }
+
+    // ======================================================================
+    // Create Rental and Mark Quote Converted
+    // ======================================================================
+
+    const rental = await insertRental(
+      userId,
+      {
+        customerName: existing.customerName,
+        customerPhone: existing.customerPhone,
+        customerEmail: existing.customerEmail,
+        customerAddress: existing.customerAddress,
+        startDate: existing.startDate,
+        endDate: existing.endDate,
+        deposit: existing.deposit || 0,
+        shippingCost: existing.shippingCost || 0,
+        billingCycle: "once",
+        notes: existing.notes
+          ? `${existing.notes}\n\nจากใบเสนอราคา ${existing.quoteNumber}`
+          : `จากใบเสนอราคา ${existing.quoteNumber}`,
+      },
+      { lines, totalAmount: existing.totalAmount, dailyRate: existing.dailyRate },
+      session
+    );
+
+    const quote = await RentalQuote.findOneAndUpdate(
+      { _id: existing._id, status: "open" },
+      {
+        $set: {
+          status: "converted",
+          rentalId: rental._id,
+          convertedAt: new Date(),
+          convertedBy: new mongoose.Types.ObjectId(userId),
+        },
+      },
+      { new: true, session }
+    ).lean();
+
+    if (!quote) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "สถานะใบเสนอราคาถูกเปลี่ยนแปลงระหว่างแปลง กรุณาลองใหม่อีกครั้ง",
+      });
+    }
+
+    return { existing, quote, rental };
+  });
+
+  await activityLogService.createActivityLog(
+    userId,
+    "create",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName}`
+  );
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rentalQuote",
+    quote._id.toString(),
+    `Quote ${quote.quoteNumber} - ${quote.customerName}`,
+    {
+      old: { status: existing.status },
+      new: {
+        status: quote.status,
+        rentalId: rental._id.toString(),
+        rentalNumber: rental.rentalNumber,
+        totalAmount: rental.totalAmount,
+      },
+    }
+  );
+
+  return toRentalQuoteDTO(quote);
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get a single quote by ID
+ *
+ * @param input - Quote ID
+ * @returns Rental quote DTO
+ * @throws TRPCError if quote not found
+ */
+export async function getRentalQuoteById(input: GetRentalQuoteByIdInput): Promise<RentalQuoteDTO> {
+  await connectToDatabase();
+
+  return toRentalQuoteDTO(await getQuoteOrThrow(input.id));
+}
+
+/**
+ * List quotes with filtering, pagination, and search
+ *
+ * "open" and "expired" both read open quotes, split on validUntil.
+ *
+ * @param input - Status filter, search, and pagination
+ * @returns Object containing quotes array and total count
+ */
+export async function listRentalQuotes(
+  input: ListRentalQuotesInput
+): Promise<{ quotes: RentalQuoteDTO[]; total: number }> {
+  await connectToDatabase();
+
+  const query: Record<string, unknown> = {};
+  if (input.status === "open") {
+    query.status = "open";
+    query.validUntil = { $gte: new Date() };
+  } else if (input.status === "expired") {
+    query.status = "open";
+    query.validUntil = { $lt: new Date() };
+  } else if (input.status) {
+    query.status = input.status;
+  }
+
+  if (input.search) {
+    query.$or = [
+      { quoteNumber: { $regex: input.search, $options: "i" } },
+      { customerName: { $regex: input.search, $options: "i" } },
+      { customerPhone: { $regex: input.search, $options: "i" } },
+      { customerEmail: { $regex: input.search, $options: "i" } },
+    ];
+  }
+
+  const skip = (input.page - 1) * input.limit;
+  const [total, quotes] = await Promise.all([
+    RentalQuote.countDocuments(query),
+    RentalQuote.find(query).sort({ createdAt: -1 }).skip(skip).limit(input.limit).lean(),
+  ]);
+
+  return {
+    quotes: quotes.map(toRentalQuoteDTO),
+    total,
+  };
+}
@@ -0,0 +1,341 @@
+/**
+ * Rental Report Service
+ *
+ * Computes rental profitability and utilization over a date range from the
+ * periods assets were out with rentals. Handles:
+ * - Utilization per asset and per product (share of days rented)
+ * - Rental revenue, penalty revenue, and average rental length
+ * - Revenue per unit against replacement price, as a payback measure
+ *
+ * Only active and completed rentals count; reservations (pending rentals)
+ * earn nothing until they start.
+ */
+
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import RentalAsset from "@/lib/db/models/rental-asset";
+import type { GetRentalReportInput } from "../schemas";
+import { findBookingIntervals, type BookingInterval } from "./rental-booking.service";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Populated product type (when productId is populated with name, sku, and replacement price)
+ */
+type PopulatedProduct = {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  sku: string;
+  replacementPrice?: number;
+};
+
+function isPopulatedProduct(
+  product: PopulatedProduct | mongoose.Types.ObjectId
+): product is PopulatedProduct {
+  return typeof product === "object" && "_id" in product && "name" in product;
+}
+
+/**
+ * Figures shared by the asset and product rows of a report
+ *
+ * - rentedDays: days out with a rental within the period
+ * - utilizationPercent: rentedDays as a share of the days available
+ * - rentalRevenue: line charges, spread evenly over each line's days and
+ *   counted for the days that fall within the period
+ * - penaltyRevenue: late penalties of lines returned within the period
+ * - rentalCount: rental lines overlapping the period
+ * - averageRentalDays: average length of those lines, in full
+ * - paybackPercent: revenue per unit as a share of the replacement price
+ */
+interface RentalReportFigures {
+  rentedDays: number;
+  utilizationPercent: number;
+  rentalRevenue: number;
+  penaltyRevenue: number;
+  totalRevenue: number;
+  rentalCount: number;
+  averageRentalDays: number;
+  replacementPrice?: number;
+  paybackPercent?: number;
+}
+
+/**
+ * Report row of one asset
+ */
+export interface AssetRentalReportRow extends RentalReportFigures {
+  assetId: string;
+  assetCode: string;
+  productId: string;
+  productName?: string;
+}
+
+/**
+ * Report row of one product, over all of its assets
+ *
+ * revenuePerUnit is the product's total revenue divided by its asset count.
+ */
+export interface ProductRentalReportRow extends RentalReportFigures {
+  productId: string;
+  productName?: string;
+  productSku?: string;
+  assetCount: number;
+  revenuePerUnit: number;
+}
+
+/**
+ * Rental profitability and utilization report
+ */
+export interface RentalReportDTO {
+  startDate: Date;
+  endDate: Date;
+  periodDays: number;
+  totals: {
+    assetCount: number;
+    rentedDays: number;
+    utilizationPercent: number;
+    rentalRevenue: number;
+    penaltyRevenue: number;
+    totalRevenue: number;
+    rentalCount: number;
+    averageRentalDays: number;
+  };
+  products: ProductRentalReportRow[];
+  assets: AssetRentalReportRow[];
+}
+
+/**
+ * Running sums behind a row
+ */
+interface FigureSums {
+  rentedMs: number;
+  rentalRevenue: number;
+  penaltyRevenue: number;
+  rentalCount: number;
+  rentalMs: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function emptySums(): FigureSums {
+  return { rentedMs: 0, rentalRevenue: 0, penaltyRevenue: 0, rentalCount: 0, rentalMs: 0 };
+}
+
+function addSums(target: FigureSums, source: FigureSums): void {
+  target.rentedMs += source.rentedMs;
+  target.rentalRevenue += source.rentalRevenue;
+  target.penaltyRevenue += source.penaltyRevenue;
+  target.rentalCount += source.rentalCount;
+  target.rentalMs += source.rentalMs;
+}
+
+/**
+ * Sum one asset's intervals within [startDate, endDate)
+ *
+ * Overlapping intervals (e.g. a unit swapped out and back in on the same
+ * day) are merged so a day is never counted as rented twice.
+ */
+function sumAssetIntervals(
+  intervals: BookingInterval[],
+  startDate: Date,
+  endDate: Date
+): FigureSums {
+  const sums = emptySums();
+  const periodStart = startDate.getTime();
+  const periodEnd = endDate.getTime();
+
+  let coveredUntil = periodStart;
+  for (const interval of intervals) {
+    const intervalStart = interval.startDate.getTime();
+    const intervalEnd = interval.endDate.getTime();
+    const overlapStart = Math.max(intervalStart, periodStart);
+    const overlapEnd = Math.min(intervalEnd, periodEnd);
+
+    sums.rentedMs += Math.max(0, overlapEnd - Math.max(overlapStart, coveredUntil));
+    coveredUntil = Math.max(coveredUntil, overlapEnd);
+
+    const intervalMs = intervalEnd - intervalStart;
+    if (intervalMs > 0) {
+      sums.rentalRevenue += (interval.lineTotal * (overlapEnd - overlapStart)) / intervalMs;
+    }
+    if (
+      interval.returnedAt &&
+      interval.returnedAt.getTime() >= periodStart &&
+      interval.returnedAt.getTime() < periodEnd
+    ) {
+      sums.penaltyRevenue += interval.penaltyAmount;
+    }
+    sums.rentalCount += 1;
+    sums.rentalMs += intervalMs;
+  }
+
+  return sums;
+}
+
+/**
+ * Turn running sums into report figures
+ *
+ * @param sums - Sums of the row
+ * @param availableMs - Time the row's assets could have been rented
+ * @param unitCount - Assets in the row, for revenue per unit
+ * @param replacementPrice - Replacement price of one unit, if known
+ */
+function toFigures(
+  sums: FigureSums,
+  availableMs: number,
+  unitCount: number,
+  replacementPrice?: number
+): RentalReportFigures {
+  const totalRevenue = sums.rentalRevenue + sums.penaltyRevenue;
+  const revenuePerUnit = unitCount > 0 ? totalRevenue / unitCount : 0;
+
+  return {
+    rentedDays: round(sums.rentedMs / DAY_MS, 1),
+    utilizationPercent: availableMs > 0 ? round((sums.rentedMs / availableMs) * 100, 1) : 0,
+    rentalRevenue: round(sums.rentalRevenue),
+    penaltyRevenue: round(sums.penaltyRevenue),
+    totalRevenue: round(totalRevenue),
+    rentalCount: sums.rentalCount,
+    averageRentalDays:
+      sums.rentalCount > 0 ? round(sums.rentalMs / sums.rentalCount / DAY_MS, 1) : 0,
+    replacementPrice,
+    paybackPercent:
+      replacementPrice && replacementPrice > 0
+        ? round((revenuePerUnit / replacementPrice) * 100, 1)
+        : undefined,
+  };
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/**
+ * Get the rental profitability and utilization report for a period
+ *
+ * Every asset counts as available for the whole period, including assets
+ * added part way through it or out of service during it.
+ *
+ * @param input - Period and optional product ID to filter by
+ * @returns Per-product and per-asset rows with overall totals, products sorted by revenue
+ */
+export async function getRentalReport(input: GetRentalReportInput): Promise<RentalReportDTO> {
+  await connectToDatabase();
+
+  const query: Record<string, unknown> = {};
+  if (input.productId) {
+    query.productId = input.productId;
+  }
+
+  const assets = await RentalAsset.find(query)
+    .populate("productId", "name sku replacementPrice")
+    .sort({ assetCode: 1 })
+    .lean();
+
+  const intervals =
+    assets.length > 0
+      ? await findBookingIntervals(
+          input.startDate,
+          input.endDate,
+          input.productId ? assets.map((asset) => asset._id) : undefined
+        )
+      : [];
+
+  const intervalsByAsset = new Map<string, BookingInterval[]>();
+  for (const interval of intervals) {
+    if (interval.status === "pending") {
+      continue;
+    }
+    const assetIntervals = intervalsByAsset.get(interval.assetId) ?? [];
+    assetIntervals.push(interval);
+    intervalsByAsset.set(interval.assetId, assetIntervals);
+  }
+
+  const periodMs = input.endDate.getTime() - input.startDate.getTime();
+  const productSums = new Map<
+    string,
+    { product: PopulatedProduct | undefined; sums: FigureSums; assetCount: number }
+  >();
+  const totalSums = emptySums();
+  const assetRows: AssetRentalReportRow[] = [];
+
+  for (const asset of assets) {
+    const product = asset.productId as unknown as PopulatedProduct | mongoose.Types.ObjectId;
+    const populated = isPopulatedProduct(product) ? product : undefined;
+    const productId = (populated ? populated._id : asset.productId).toString();
+    const assetId = asset._id.toString();
+
+    const sums = sumAssetIntervals(
+      intervalsByAsset.get(assetId) ?? [],
+      input.startDate,
+      input.endDate
+    );
+
+    assetRows.push({
+      assetId,
+      assetCode: asset.assetCode,
+      productId,
+      productName: populated?.name,
+      ...toFigures(sums, periodMs, 1, populated?.replacementPrice),
+    });
+
+    const productEntry = productSums.get(productId) ?? {
+      product: populated,
+      sums: emptySums(),
+      assetCount: 0,
+    };
+    addSums(productEntry.sums, sums);
+    productEntry.assetCount += 1;
+    productSums.set(productId, productEntry);
+    addSums(totalSums, sums);
+  }
+
+  const productRows: ProductRentalReportRow[] = [...productSums.entries()].map(
+    ([productId, { product, sums, assetCount }]) => {
+      const figures = toFigures(sums, periodMs * assetCount, assetCount, product?.replacementPrice);
+      return {
+        productId,
+        productName: product?.name,
+        productSku: product?.sku,
+        assetCount,
+        revenuePerUnit: round(figures.totalRevenue / assetCount),
+        ...figures,
+      };
+    }
+  );
+  productRows.sort((a, b) => b.totalRevenue - a.totalRevenue);
+
+  const totals = toFigures(totalSums, periodMs * assets.length, assets.length);
+
+  return {
+    startDate: input.startDate,
+    endDate: input.endDate,
+    periodDays: round(periodMs / DAY_MS, 1),
+    totals: {
+      assetCount: assets.length,
+      rentedDays: totals.rentedDays,
+      utilizationPercent: totals.utilizationPercent,
+      rentalRevenue: totals.rentalRevenue,
+      penaltyRevenue: totals.penaltyRevenue,
+      totalRevenue: totals.totalRevenue,
+      rentalCount: totals.rentalCount,
+      averageRentalDays: totals.averageRentalDays,
+    },
+    products: productRows,
+    assets: assetRows,
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * Rental Status Service
+ *
+ * Lets customers check their rental without logging in, through a signed,
+ * expiring link. Handles:
+ * - Issuing status links (HMAC-signed tokens carrying the rental number and expiry)
+ * - Verifying tokens and building the public status view of a rental
+ *
+ * Tokens carry the customer-facing rental number, never a database ID, and
+ * the public view leaves out internal IDs, staff, and customer contact details.
+ */
+
+import crypto from "crypto";
+import { TRPCError } from "@trpc/server";
+import { connectToDatabase } from "@/lib/db/connect";
+import Rental from "@/lib/db/models/rental";
+import type {
+  CreateRentalStatusLinkInput,
+  GetPublicRentalStatusInput,
+  RentalPaymentMethod,
+  RentalPaymentStatus,
+} from "../schemas";
+import * as activityLogService from "./activity-log.service";
+import { findRentalByNumber, type RentalDTO } from "./rental.service";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const INVALID_LINK_MESSAGE = "ลิงก์ไม่ถูกต้องหรือหมดอายุแล้ว";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rental status link issued to a customer
+ *
+ * path is relative to the app's origin, e.g. /rental-status/<token>.
+ */
+export interface RentalStatusLinkDTO {
+  token: string;
+  path: string;
+  expiresAt: Date;
+}
+
+/**
+ * Public view of a rental, shown on the status page
+ *
+ * daysRemaining counts whole days until the end date and daysOverdue whole
+ * days past it; both are 0 once the rental is completed or cancelled.
+ */
+export interface PublicRentalStatusDTO {
+  rentalNumber: string;
+  customerName: string;
+  status: RentalDTO["status"];
+  startDate: Date;
+  endDate: Date;
+  actualReturnDate?: Date;
+  daysRemaining: number;
+  daysOverdue: number;
+  assets: Array<{
+    assetCode: string;
+    productName?: string;
+    quantity: number;
+    returnedAt?: Date;
+  }>;
+  deposit: number;
+  penaltyAmount: number;
+  amountDue: number;
+  paidAmount: number;
+  outstandingBalance: number;
+  paymentStatus: RentalPaymentStatus;
+  payments: Array<{
+    amount: number;
+    method: RentalPaymentMethod;
+    paidAt: Date;
+  }>;
+  linkExpiresAt: Date;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Secret used to sign status links
+ *
+ * RENTAL_STATUS_LINK_SECRET, falling back to AUTH_SECRET; changing it
+ * invalidates every link issued before.
+ */
+function getLinkSecret(): string {
+  const secret = process.env.RENTAL_STATUS_LINK_SECRET || process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "ยังไม่ได้ตั้งค่า RENTAL_STATUS_LINK_SECRET",
+    });
+  }
+  return secret;
+}
+
+function signPayload(payload: string): string {
+  return crypto.createHmac("sha256", getLinkSecret()).update(payload).digest("base64url");
+}
+
+/**
+ * Create a status token: base64url(rentalNumber).expiry(base36 seconds).signature
+ */
+function createStatusToken(rentalNumber: string, expiresAt: Date): string {
+  const payload = `${Buffer.from(rentalNumber, "utf8").toString("base64url")}.${Math.floor(
+    expiresAt.getTime() / 1000
+  ).toString(36)}`;
+  return `${payload}.${signPayload(payload)}`;
+}
+
+/**
+ * Verify a status token's signature and expiry
+ *
+ * @returns The rental number and expiry, or null if the token is invalid or expired
+ */
+function verifyStatusToken(token: string): { rentalNumber: string; expiresAt: Date } | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [encodedNumber, encodedExpiry, signature] = parts;
+  const expected = Buffer.from(signPayload(`${encodedNumber}.${encodedExpiry}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  const expiresAt = new Date(parseInt(encodedExpiry, 36) * 1000);
+  if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  return {
+    rentalNumber: Buffer.from(encodedNumber, "base64url").toString("utf8"),
+    expiresAt,
+  };
+}
+
+/**
+ * Whole days from today to a date (negative once the date has passed)
+ */
+function getDaysUntil(date: Date): number {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return Math.round((day.getTime() - today.getTime()) / DAY_MS);
+}
+
+/**
+ * Build the public view of a rental from its DTO
+ */
+function toPublicRentalStatusDTO(rental: RentalDTO, linkExpiresAt: Date): PublicRentalStatusDTO {
+  const isOpen = rental.status === "pending" || rental.status === "active";
+  const daysUntilEnd = isOpen ? getDaysUntil(rental.endDate) : 0;
+
+  return {
+    rentalNumber: rental.rentalNumber,
+    customerName: rental.customerName,
+    status: rental.status,
+    startDate: rental.startDate,
+    endDate: rental.endDate,
+    actualReturnDate: rental.actualReturnDate,
+    daysRemaining: Math.max(0, daysUntilEnd),
+    daysOverdue: rental.status === "active" ? Math.max(0, -daysUntilEnd) : 0,
+    assets: rental.assets.map((item) => ({
+      assetCode: item.assetCode,
+      productName: item.productName,
+      quantity: item.quantity,
+      returnedAt: item.returnedAt,
+    })),
+    deposit: rental.deposit,
+    penaltyAmount: rental.penaltyAmount,
+    amountDue: rental.amountDue,
+    paidAmount: rental.paidAmount,
+    outstandingBalance: rental.outstandingBalance,
+    paymentStatus: rental.paymentStatus,
+    payments: rental.payments.map((payment) => ({
+      amount: payment.amount,
+      method: payment.method,
+      paidAt: payment.paidAt,
+    })),
+    linkExpiresAt,
+  };
+}
+
+// ============================================================================
+// Status Links
+// ============================================================================
+
+/**
+ * Issue a status link for a rental
+ *
+ * Links cannot be revoked one by one; they stop working when they expire.
+ *
+ * @param userId - ID of user issuing the link
+ * @param input - Rental ID and how many days the link stays valid
+ * @returns Token, page path, and expiry
+ * @throws TRPCError if rental not found or cancelled
+ */
+export async function createRentalStatusLink(
+  userId: string,
+  input: CreateRentalStatusLinkInput
+): Promise<RentalStatusLinkDTO> {
+  await connectToDatabase();
+
+  const rental = await Rental.findById(input.rentalId)
+    .select("rentalNumber customerName status")
+    .lean();
+  if (!rental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  if (rental.status === "cancelled") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ไม่สามารถสร้างลิงก์สำหรับการเช่าที่ยกเลิกแล้ว",
+    });
+  }
+
+  const expiresAt = new Date(Date.now() + input.expiresInDays * DAY_MS);
+  const token = createStatusToken(rental.rentalNumber, expiresAt);
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName} (สร้างลิงก์สถานะการเช่า)`,
+    {
+      new: { statusLinkExpiresAt: expiresAt },
+    }
+  );
+
+  return { token, path: `/rental-status/${token}`, expiresAt };
+}
+
+/**
+ * Get the public status of a rental from a status link token
+ *
+ * Invalid, tampered, and expired tokens all get the same error, so the
+ * response does not reveal which rental numbers exist.
+ *
+ * @param input - Status link token
+ * @returns Public view of the rental
+ * @throws TRPCError if the token is invalid or expired, or the rental no longer exists
+ */
+export async function getPublicRentalStatus(
+  input: GetPublicRentalStatusInput
+): Promise<PublicRentalStatusDTO> {
+  const verified = verifyStatusToken(input.token);
+  if (!verified) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: INVALID_LINK_MESSAGE,
+    });
+  }
+
+  const rental = await findRentalByNumber(verified.rentalNumber);
+  if (!rental || rental.status === "cancelled") {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: INVALID_LINK_MESSAGE,
+    });
+  }
+
+  return toPublicRentalStatusDTO(rental, verified.expiresAt);
+}
@@ -0,0 +1,612 @@
+/**
+ * Rental Task Service
+ *
+ * Handles delivery and pickup scheduling for rentals including:
+ * - Scheduling tasks with an address, time slot, and assigned staff
+ * - Task status transitions
+ * - Checking in a rental's assets when its pickup is completed
+ * - Daily route sheets for drivers
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose, { type ClientSession } from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import { withTransaction } from "@/lib/db/transaction";
+import Rental, { type RentalStatus } from "@/lib/db/models/rental";
+import RentalTask, {
+  type IRentalTask,
+  type RentalTaskStatus,
+  type RentalTaskType,
+} from "@/lib/db/models/rental-task";
+import User from "@/lib/db/models/user";
+import type {
+  CreateRentalTaskInput,
+  UpdateRentalTaskInput,
+  UpdateRentalTaskStatusInput,
+  CompleteRentalTaskInput,
+  ListRentalTasksInput,
+  GetRouteSheetInput,
+  ReturnRentalAssetsInput,
+} from "../schemas";
+import { canTransitionRentalTaskStatus } from "../schemas";
+import * as activityLogService from "./activity-log.service";
+import { finishAssetReturn, recordAssetReturn, type AssetReturn } from "./rental.service";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rental Task Data Transfer Object
+ *
+ * Represents a delivery or pickup with the rental details a driver needs:
+ * customer contact and the assets to bring or collect.
+ */
+export interface RentalTaskDTO {
+  id: string;
+  rentalId: string;
+  rentalNumber: string;
+  rentalStatus?: RentalStatus;
+  customerName: string;
+  customerPhone?: string;
+  assets: Array<{
+    assetCode: string;
+    productName?: string;
+    quantity: number;
+    returned: boolean;
+  }>;
+  type: RentalTaskType;
+  address: string;
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  assignedTo?: string;
+  assignedToName?: string;
+  status: RentalTaskStatus;
+  notes?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Tasks scheduled on one day, in time slot order
+ */
+export interface RouteSheetDTO {
+  date: Date;
+  tasks: RentalTaskDTO[];
+}
+
+/**
+ * Rental fields populated on a task
+ */
+type PopulatedTaskRental = {
+  _id: mongoose.Types.ObjectId;
+  rentalNumber: string;
+  status: RentalStatus;
+  customerName: string;
+  customerPhone?: string;
+  assets: Array<{
+    assetId: { _id: mongoose.Types.ObjectId; assetCode: string } | mongoose.Types.ObjectId;
+    productName?: string;
+    quantity: number;
+    returnedAt?: Date;
+  }>;
+};
+
+/**
+ * Rental task document as read with .lean(), with rental and staff populated
+ */
+type RentalTaskRecord = Omit<IRentalTask, "rentalId" | "assignedTo"> & {
+  rentalId: PopulatedTaskRental | mongoose.Types.ObjectId | null;
+  assignedTo?: { _id: mongoose.Types.ObjectId; name: string } | mongoose.Types.ObjectId | null;
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Thai labels for task types, used in activity log names
+ */
+const RENTAL_TASK_TYPE_LABELS: Record<RentalTaskType, string> = {
+  delivery: "จัดส่ง",
+  pickup: "รับคืน",
+};
+
+/**
+ * Populate options for the rental and staff shown on a task
+ */
+const TASK_POPULATE = [
+  {
+    path: "rentalId",
+    select: "rentalNumber status customerName customerPhone assets",
+    populate: { path: "assets.assetId", select: "assetCode" },
+  },
+  { path: "assignedTo", select: "name" },
+];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the start and end of the day containing a date
+ */
+function getDayRange(date: Date): { start: Date; end: Date } {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+/**
+ * Ensure an assigned staff user exists
+ *
+ * @param userId - User to assign
+ * @throws TRPCError if the user does not exist
+ */
+async function assertStaffExists(userId: string): Promise<void> {
+  if (!mongoose.isValidObjectId(userId) || !(await User.exists({ _id: userId }))) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ไม่พบพนักงานที่มอบหมาย",
+    });
+  }
+}
+
+/**
+ * Ensure a task may move from its current status to a new one
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ * @throws TRPCError if the transition is not allowed
+ */
+function assertTaskStatusTransition(from: RentalTaskStatus, to: RentalTaskStatus): void {
+  if (!canTransitionRentalTaskStatus(from, to)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        from === "completed" || from === "cancelled"
+          ? "งานนี้เสร็จสิ้นหรือถูกยกเลิกแล้ว"
+          : "ไม่สามารถเปลี่ยนสถานะงานได้",
+    });
+  }
+}
+
+function isPopulatedRental(value: RentalTaskRecord["rentalId"]): value is PopulatedTaskRental {
+  return typeof value === "object" && value !== null && "rentalNumber" in value;
+}
+
+/**
+ * Convert a task document to a RentalTaskDTO
+ *
+ * @param task - Task document (lean), with rental and staff populated
+ * @returns Rental task DTO
+ */
+function toRentalTaskDTO(task: RentalTaskRecord): RentalTaskDTO {
+  const rental = isPopulatedRental(task.rentalId) ? task.rentalId : undefined;
+  const assignedTo = task.assignedTo && "name" in task.assignedTo ? task.assignedTo : undefined;
+
+  return {
+    id: task._id.toString(),
+    rentalId: rental ? rental._id.toString() : (task.rentalId?.toString() ?? ""),
+    rentalNumber: rental?.rentalNumber ?? "",
+    rentalStatus: rental?.status,
+    customerName: rental?.customerName ?? "",
+    customerPhone: rental?.customerPhone,
+    assets: (rental?.assets || []).map((item) => ({
+      assetCode: "assetCode" in item.assetId ? item.assetId.assetCode : "",
+      productName: item.productName,
+      quantity: item.quantity || 1,
+      returned: !!item.returnedAt,
+    })),
+    type: task.type,
+    address: task.address,
+    scheduledStart: task.scheduledStart,
+    scheduledEnd: task.scheduledEnd,
+    assignedTo: assignedTo ? assignedTo._id.toString() : task.assignedTo?.toString(),
+    assignedToName: assignedTo?.name,
+    status: task.status,
+    notes: task.notes,
+    completedAt: task.completedAt,
+    createdAt: task.createdAt,
+    updatedAt: task.updatedAt,
+  };
+}
+
+/**
+ * Read a task with its rental and staff populated
+ *
+ * @param id - Task ID
+ * @returns Rental task DTO
+ * @throws TRPCError if task not found
+ */
+async function findRentalTaskDTO(id: string | mongoose.Types.ObjectId): Promise<RentalTaskDTO> {
+  const task = await RentalTask.findById(id).populate(TASK_POPULATE).lean<RentalTaskRecord>();
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบงานจัดส่ง/รับคืน",
+    });
+  }
+  return toRentalTaskDTO(task);
+}
+
+/**
+ * Read a task for a change, failing if it does not exist
+ */
+async function getTaskOrThrow(id: string, session?: ClientSession): Promise<IRentalTask> {
+  const task = await RentalTask.findById(id)
+    .session(session ?? null)
+    .lean();
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบงานจัดส่ง/รับคืน",
+    });
+  }
+  return task;
+}
+
+/**
+ * Log a task change as an update of its rental
+ */
+async function logTaskActivity(
+  userId: string,
+  task: RentalTaskDTO,
+  changes: { old?: Record<string, unknown>; new?: Record<string, unknown> }
+): Promise<void> {
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    task.rentalId,
+    `Rental ${task.rentalNumber} - ${task.customerName} (${RENTAL_TASK_TYPE_LABELS[task.type]})`,
+    changes
+  );
+}
+
+// ============================================================================
+// CRUD Operations
+// ============================================================================
+
+/**
+ * Schedule a delivery or pickup for a rental
+ *
+ * The address defaults to the rental's customer address.
+ *
+ * @param userId - ID of user scheduling the task
+ * @param input - Rental, task type, time slot, optional address, staff, and notes
+ * @returns Created task DTO
+ * @throws TRPCError if the rental is not found or finished, no address is known,
+ *   or the staff user does not exist
+ */
+export async function createRentalTask(
+  userId: string,
+  input: CreateRentalTaskInput
+): Promise<RentalTaskDTO> {
+  await connectToDatabase();
+
+  const rental = await Rental.findById(input.rentalId).lean();
+  if (!rental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  if (rental.status !== "pending" && rental.status !== "active") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "เพิ่มงานจัดส่ง/รับคืนได้เฉพาะการเช่าที่รอดำเนินการหรือกำลังดำเนินการเท่านั้น",
+    });
+  }
+
+  const address = input.address?.trim() || rental.customerAddress;
+  if (!address) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "กรุณาระบุที่อยู่ เนื่องจากการเช่านี้ไม่มีที่อยู่ลูกค้า",
+    });
+  }
+
+  if (input.assignedTo) {
+    await assertStaffExists(input.assignedTo);
+  }
+
+  const created = await RentalTask.create({
+    rentalId: rental._id,
+    type: input.type,
+    address,
+    scheduledStart: input.scheduledStart,
+    scheduledEnd: input.scheduledEnd,
+    assignedTo: input.assignedTo ? new mongoose.Types.ObjectId(input.assignedTo) : undefined,
+    notes: input.notes,
+    createdBy: new mongoose.Types.ObjectId(userId),
+  });
+
+  const task = await findRentalTaskDTO(created._id);
+
+  await logTaskActivity(userId, task, {
+    new: {
+      taskId: task.id,
+      type: task.type,
+      address: task.address,
+      scheduledStart: task.scheduledStart,
+      scheduledEnd: task.scheduledEnd,
+      ...(task.assignedTo && { assignedTo: task.assignedTo }),
+    },
+  });
+
+  return task;
+}
+
+/**
+ * Update a task's address, time slot, staff, or notes
+ *
+ * Only tasks that are not finished can be changed.
+ *
+ * @param userId - ID of user updating the task
+ * @param input - Task ID and fields to change (assignedTo null removes the staff)
+ * @returns Updated task DTO
+ * @throws TRPCError if task not found or finished, the time slot is invalid,
+ *   or the staff user does not exist
+ */
+export async function updateRentalTask(
+  userId: string,
+  input: UpdateRentalTaskInput
+): Promise<RentalTaskDTO> {
+  await connectToDatabase();
+
+  const oldTask = await getTaskOrThrow(input.id);
+  if (oldTask.status === "completed" || oldTask.status === "cancelled") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "งานนี้เสร็จสิ้นหรือถูกยกเลิกแล้ว",
+    });
+  }
+
+  const scheduledStart = input.scheduledStart || oldTask.scheduledStart;
+  const scheduledEnd = input.scheduledEnd || oldTask.scheduledEnd;
+  if (scheduledEnd <= scheduledStart) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "เวลาสิ้นสุดต้องมากกว่าเวลาเริ่มต้น",
+    });
+  }
+
+  if (input.assignedTo) {
+    await assertStaffExists(input.assignedTo);
+  }
+
+  const { id, assignedTo, ...fields } = input;
+  const update: Record<string, unknown> = { $set: fields };
+  if (assignedTo) {
+    update.$set = { ...fields, assignedTo: new mongoose.Types.ObjectId(assignedTo) };
+  } else if (assignedTo === null) {
+    update.$unset = { assignedTo: 1 };
+  }
+
+  await RentalTask.updateOne({ _id: id }, update);
+  const task = await findRentalTaskDTO(id);
+
+  await logTaskActivity(userId, task, {
+    old: {
+      taskId: id,
+      address: oldTask.address,
+      scheduledStart: oldTask.scheduledStart,
+      scheduledEnd: oldTask.scheduledEnd,
+      assignedTo: oldTask.assignedTo?.toString(),
+    },
+    new: {
+      taskId: id,
+      address: task.address,
+      scheduledStart: task.scheduledStart,
+      scheduledEnd: task.scheduledEnd,
+      assignedTo: task.assignedTo,
+    },
+  });
+
+  return task;
+}
+
+/**
+ * Start or cancel a task
+ *
+ * Completing a task goes through completeRentalTask.
+ *
+ * @param userId - ID of user changing the status
+ * @param input - Task ID and new status
+ * @returns Updated task DTO
+ * @throws TRPCError if task not found or the transition is not allowed
+ */
+export async function updateRentalTaskStatus(
+  userId: string,
+  input: UpdateRentalTaskStatusInput
+): Promise<RentalTaskDTO> {
+  await connectToDatabase();
+
+  const oldTask = await getTaskOrThrow(input.id);
+  assertTaskStatusTransition(oldTask.status, input.status);
+
+  const updated = await RentalTask.findOneAndUpdate(
+    { _id: input.id, status: oldTask.status },
+    { $set: { status: input.status } }
+  );
+  if (!updated) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "สถานะงานถูกเปลี่ยนแปลงระหว่างดำเนินการ กรุณาลองใหม่อีกครั้ง",
+    });
+  }
+
+  const task = await findRentalTaskDTO(input.id);
+  await logTaskActivity(userId, task, {
+    old: { taskId: task.id, status: oldTask.status },
+    new: { taskId: task.id, status: task.status },
+  });
+
+  return task;
+}
+
+/**
+ * Complete a task
+ *
+ * With checkIn on a pickup task, every asset still out on the rental is
+ * returned (with the given condition and inspections), which completes the
+ * rental. The return and the task update run in one transaction, so if either
+ * fails neither is saved.
+ *
+ * @param userId - ID of user completing the task
+ * @param input - Task ID, whether to check in the assets, optional condition and inspections
+ * @returns Completed task DTO
+ * @throws TRPCError if task not found or finished, or the check-in is not possible
+ */
+export async function completeRentalTask(
+  userId: string,
+  input: CompleteRentalTaskInput
+): Promise<RentalTaskDTO> {
+  await connectToDatabase();
+
+  // Check in the assets and complete the task together
+  const { oldTask, checkIn } = await withTransaction(async (session) => {
+    const oldTask = await getTaskOrThrow(input.id, session);
+    assertTaskStatusTransition(oldTask.status, "completed");
+
+    let checkIn: { input: ReturnRentalAssetsInput; assetReturn: AssetReturn } | undefined;
+    if (input.checkIn) {
+      if (oldTask.type !== "pickup") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "ตรวจรับทรัพย์สินได้เฉพาะงานรับคืนเท่านั้น",
+        });
+      }
+
+      const rental = await Rental.findById(oldTask.rentalId).session(session).lean();
+      const outstandingIds = (rental?.assets || [])
+        .filter((item) => !item.returnedAt)
+        .map((item) => item.assetId.toString());
+      if (!rental || outstandingIds.length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "ไม่มีทรัพย์สินที่รอคืนในการเช่านี้",
+        });
+      }
+
+      const returnInput = {
+        id: rental._id.toString(),
+        assetIds: outstandingIds,
+        condition: input.condition,
+        inspections: input.inspections,
+      };
+      checkIn = {
+        input: returnInput,
+        assetReturn: await recordAssetReturn(returnInput, session),
+      };
+    }
+
+    const updated = await RentalTask.findOneAndUpdate(
+      { _id: input.id, status: oldTask.status },
+      {
+        $set: {
+          status: "completed",
+          completedAt: new Date(),
+          completedBy: new mongoose.Types.ObjectId(userId),
+        },
+      },
+      { session }
+    );
+    if (!updated) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "สถานะงานถูกเปลี่ยนแปลงระหว่างดำเนินการ กรุณาลองใหม่อีกครั้ง",
+      });
+    }
+
+    return { oldTask, checkIn };
+  });
+
+  if (checkIn) {
+    await finishAssetReturn(userId, checkIn.input, checkIn.assetReturn);
+  }
+
+  const task = await findRentalTaskDTO(input.id);
+  await logTaskActivity(userId, task, {
+    old: { taskId: task.id, status: oldTask.status },
+    new: { taskId: task.id, status: task.status, checkIn: input.checkIn },
+  });
+
+  return task;
+}
+
+// ============================================================================
+// Query Operations
+// ============================================================================
+
+/**
+ * List tasks, in time slot order
+ *
+ * @param input - Optional rental, type, status, staff, and day filters
+ * @returns Matching task DTOs
+ */
+export async function listRentalTasks(input: ListRentalTasksInput): Promise<RentalTaskDTO[]> {
+  await connectToDatabase();
+
+  const query: Record<string, unknown> = {};
+  if (input.rentalId) {
+    query.rentalId = new mongoose.Types.ObjectId(input.rentalId);
+  }
+  if (input.type) {
+    query.type = input.type;
+  }
+  if (input.status) {
+    query.status = input.status;
+  }
+  if (input.assignedTo) {
+    query.assignedTo = new mongoose.Types.ObjectId(input.assignedTo);
+  }
+  if (input.date) {
+    const { start, end } = getDayRange(input.date);
+    query.scheduledStart = { $gte: start, $lt: end };
+  }
+
+  const tasks = await RentalTask.find(query)
+    .populate(TASK_POPULATE)
+    .sort({ scheduledStart: 1 })
+    .lean<RentalTaskRecord[]>();
+
+  return tasks.map(toRentalTaskDTO);
+}
+
+/**
+ * Get the route sheet for a day
+ *
+ * Lists every task that is not cancelled with a time slot starting that day,
+ * optionally for one staff member, in time slot order.
+ *
+ * @param input - Day and optional staff filter
+ * @returns Route sheet DTO
+ */
+export async function getRouteSheet(input: GetRouteSheetInput): Promise<RouteSheetDTO> {
+  await connectToDatabase();
+
+  const { start, end } = getDayRange(input.date);
+  const query: Record<string, unknown> = {
+    scheduledStart: { $gte: start, $lt: end },
+    status: { $ne: "cancelled" },
+  };
+  if (input.assignedTo) {
+    query.assignedTo = new mongoose.Types.ObjectId(input.assignedTo);
+  }
+
+  const tasks = await RentalTask.find(query)
+    .populate(TASK_POPULATE)
+    .sort({ scheduledStart: 1 })
+    .lean<RentalTaskRecord[]>();
+
+  return {
+    date: start,
+    tasks: tasks.map(toRentalTaskDTO),
+  };
+}
@@ -0,0 +1,286 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import mongoose from "mongoose";
+import type { MongoMemoryReplSet } from "mongodb-memory-server";
+import Product from "@/lib/db/models/product";
+import Rental from "@/lib/db/models/rental";
+import RentalAsset from "@/lib/db/models/rental-asset";
+import {
+  clearFailPoints,
+  failNextCommand,
+  resetDatabase,
+  startReplicaSet,
+  stopReplicaSet,
+} from "@/test/replica-set";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const userId = new mongoose.Types.ObjectId().toString();
+
+let replSet: MongoMemoryReplSet;
+let rentalService: typeof import("./rental.service");
+let bookingService: typeof import("./rental-booking.service");
+
+/**
+ * Midnight a number of days from today, so rental periods are whole days
+ */
+function daysFromToday(days: number): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return new Date(today.getTime() + days * DAY_MS);
+}
+
+async function createAssets(count: number): Promise<string[]> {
+  const product = await Product.create({
+    name: "Camera",
+    sku: "CAM-1",
+    stockType: "rental",
+    dailyRentalRate: 100,
+    createdBy: userId,
+  });
+  const assets = await RentalAsset.create(
+    Array.from({ length: count }, (_, index) => ({
+      productId: product._id,
+      assetCode: `CAM-${index + 1}`,
+    }))
+  );
+  return assets.map((asset) => asset._id.toString());
+}
+
+function createRental(assetIds: string[], startDate: Date, endDate: Date) {
+  return rentalService.createRental(userId, {
+    customerName: "Customer",
+    assets: assetIds.map((assetId) => ({ assetId, quantity: 1 })),
+    startDate,
+    endDate,
+    deposit: 0,
+    shippingCost: 0,
+    billingCycle: "once",
+  });
+}
+
+async function createActiveRental(assetIds: string[], startDate: Date, endDate: Date) {
+  const rental = await createRental(assetIds, startDate, endDate);
+  return rentalService.updateRentalStatus(userId, { id: rental.id, status: "active" });
+}
+
+async function getAssetStatus(assetId: string): Promise<string | undefined> {
+  const asset = await RentalAsset.findById(assetId).lean();
+  return asset?.status;
+}
+
+beforeAll(async () => {
+  replSet = await startReplicaSet();
+  rentalService = await import("./rental.service");
+  bookingService = await import("./rental-booking.service");
+  const { connectToDatabase } = await import("@/lib/db/connect");
+  await connectToDatabase();
+});
+
+afterAll(async () => {
+  await stopReplicaSet(replSet);
+});
+
+beforeEach(async () => {
+  await resetDatabase();
+});
+
+afterEach(async () => {
+  await clearFailPoints();
+});
+
+describe("countDaysLate", () => {
+  it("counts calendar days, whatever the time of day", () => {
+    const endDate = daysFromToday(0);
+    expect(rentalService.countDaysLate(endDate, new Date(endDate.getTime() + DAY_MS / 2))).toBe(0);
+    expect(
+      rentalService.countDaysLate(endDate, new Date(endDate.getTime() + DAY_MS + 60_000))
+    ).toBe(1);
+    expect(rentalService.countDaysLate(endDate, daysFromToday(3))).toBe(3);
+    expect(rentalService.countDaysLate(endDate, daysFromToday(-2))).toBe(0);
+  });
+});
+
+describe("createRental", () => {
+  it("saves nothing when booking the assets fails", async () => {
+    const [assetId] = await createAssets(1);
+
+    await failNextCommand("update");
+    await expect(createRental([assetId], daysFromToday(-1), daysFromToday(6))).rejects.toThrow();
+
+    expect(await Rental.countDocuments()).toBe(0);
+    expect(await getAssetStatus(assetId)).toBe("available");
+
+    const rental = await createRental([assetId], daysFromToday(-1), daysFromToday(6));
+    expect(rental.assets.length).toBe(1);
+    expect(await getAssetStatus(assetId)).toBe("rented");
+  });
+});
+
+describe("updateRental", () => {
+  it("re-prices only the lines still out when the period changes", async () => {
+    const assetIds = await createAssets(2);
+    const rental = await createActiveRental(assetIds, daysFromToday(-3), daysFromToday(7));
+    await rentalService.returnRentalAssets(userId, {
+      id: rental.id,
+      assetIds: [assetIds[0]],
+      returnDate: daysFromToday(-1),
+    });
+
+    const updated = await rentalService.updateRental(userId, {
+      id: rental.id,
+      endDate: daysFromToday(9),
+    });
+
+    expect(updated.assets.find((item) => item.id === assetIds[0])?.lineTotal).toBe(200);
+    expect(updated.assets.find((item) => item.id === assetIds[1])?.lineTotal).toBe(1200);
+    expect(updated.totalAmount).toBe(1400);
+  });
+
+  it("does not change the billing cycle once the rental has started", async () => {
+    const [assetId] = await createAssets(1);
+    const rental = await createActiveRental([assetId], daysFromToday(-2), daysFromToday(5));
+
+    await expect(
+      rentalService.updateRental(userId, { id: rental.id, billingCycle: "monthly" })
+    ).rejects.toThrow();
+    expect((await Rental.findById(rental.id).lean())?.billingCycle).toBe("once");
+  });
+});
+
+describe("updateRentalStatus", () => {
+  it("does not complete a rental while assets are still out", async () => {
+    const [assetId] = await createAssets(1);
+    const rental = await createActiveRental([assetId], daysFromToday(-2), daysFromToday(5));
+
+    await expect(
+      rentalService.updateRentalStatus(userId, { id: rental.id, status: "completed" })
+    ).rejects.toThrow();
+
+    const stored = await Rental.findById(rental.id).lean();
+    expect(stored?.status).toBe("active");
+    expect(stored?.assets[0].returnedAt).toBeUndefined();
+    expect(await getAssetStatus(assetId)).toBe("rented");
+  });
+});
+
+describe("returnRentalAssets", () => {
+  it("keeps the rental and its assets unchanged when releasing the assets fails", async () => {
+    const assetIds = await createAssets(2);
+    const rental = await createActiveRental(assetIds, daysFromToday(-2), daysFromToday(5));
+
+    await failNextCommand("update");
+    await expect(
+      rentalService.returnRentalAssets(userId, { id: rental.id, assetIds: [assetIds[0]] })
+    ).rejects.toThrow();
+
+    const stored = await Rental.findById(rental.id).lean();
+    expect(stored?.status).toBe("active");
+    expect(stored?.assets.every((item) => !item.returnedAt)).toBe(true);
+    expect(await getAssetStatus(assetIds[0])).toBe("rented");
+
+    const returned = await rentalService.returnRentalAssets(userId, {
+      id: rental.id,
+      assetIds: [assetIds[0]],
+    });
+    expect(returned.assets.find((item) => item.id === assetIds[0])?.returnedAt).toBeDefined();
+    expect(await getAssetStatus(assetIds[0])).toBe("available");
+  });
+
+  it("charges an asset returned early only for the days it was out", async () => {
+    const assetIds = await createAssets(2);
+    const rental = await createActiveRental(assetIds, daysFromToday(-3), daysFromToday(7));
+
+    const returned = await rentalService.returnRentalAssets(userId, {
+      id: rental.id,
+      assetIds: [assetIds[0]],
+      returnDate: daysFromToday(-1),
+    });
+
+    const early = returned.assets.find((item) => item.id === assetIds[0]);
+    const stillOut = returned.assets.find((item) => item.id === assetIds[1]);
+    expect(early?.lineTotal).toBe(200);
+    expect(stillOut?.lineTotal).toBe(1000);
+    expect(returned.totalAmount).toBe(1200);
+    expect(returned.status).toBe("active");
+  });
+});
+
+describe("extendRental", () => {
+  it("prices each line from the day it went out", async () => {
+    const [firstId, addedId] = await createAssets(2);
+    const rental = await createActiveRental([firstId], daysFromToday(-3), daysFromToday(7));
+    await rentalService.addRentalAssets(userId, {
+      id: rental.id,
+      assets: [{ assetId: addedId, quantity: 1 }],
+      date: daysFromToday(1),
+    });
+
+    const extended = await rentalService.extendRental(userId, {
+      id: rental.id,
+      newEndDate: daysFromToday(9),
+    });
+
+    expect(extended.assets.find((item) => item.id === firstId)?.lineTotal).toBe(1200);
+    expect(extended.assets.find((item) => item.id === addedId)?.lineTotal).toBe(800);
+    expect(extended.totalAmount).toBe(2000);
+  });
+
+  it("drops the accrued penalty when extending an overdue rental past today", async () => {
+    const [assetId] = await createAssets(1);
+    const rental = await createActiveRental([assetId], daysFromToday(-10), daysFromToday(-2));
+    await Rental.updateOne(
+      { _id: rental.id },
+      { $set: { isOverdue: true, overdueSince: daysFromToday(-2), penaltyAmount: 300 } }
+    );
+
+    await rentalService.extendRental(userId, { id: rental.id, newEndDate: daysFromToday(3) });
+
+    const stored = await Rental.findById(rental.id).lean();
+    expect(stored?.isOverdue).toBe(false);
+    expect(stored?.penaltyAmount).toBe(0);
+  });
+});
+
+describe("swapRentalAsset", () => {
+  it("keeps the rental and both assets unchanged when updating the assets fails", async () => {
+    const [outgoingId, replacementId] = await createAssets(2);
+    const rental = await createActiveRental([outgoingId], daysFromToday(-2), daysFromToday(5));
+
+    const input = {
+      id: rental.id,
+      fromAssetId: outgoingId,
+      toAssetId: replacementId,
+      reason: "Broken lens",
+      outgoingStatus: "maintenance" as const,
+    };
+
+    await failNextCommand("update");
+    await expect(rentalService.swapRentalAsset(userId, input)).rejects.toThrow();
+
+    const stored = await Rental.findById(rental.id).lean();
+    expect(stored?.assets.length).toBe(1);
+    expect(stored?.assets[0].returnedAt).toBeUndefined();
+    expect(stored?.totalAmount).toBe(rental.totalAmount);
+    expect(await getAssetStatus(outgoingId)).toBe("rented");
+    expect(await getAssetStatus(replacementId)).toBe("available");
+
+    const swapped = await rentalService.swapRentalAsset(userId, input);
+    expect(swapped.assets.length).toBe(2);
+    expect(await getAssetStatus(outgoingId)).toBe("maintenance");
+    expect(await getAssetStatus(replacementId)).toBe("rented");
+  });
+});
+
+describe("syncStartedRentalAssets", () => {
+  it("marks the assets of a pending rental that has started as rented", async () => {
+    const [assetId] = await createAssets(1);
+    const rental = await createRental([assetId], daysFromToday(2), daysFromToday(5));
+    expect(await getAssetStatus(assetId)).toBe("reserved");
+
+    // The start date passes with nothing touching the rental
+    await Rental.updateOne({ _id: rental.id }, { $set: { startDate: daysFromToday(-1) } });
+    expect(await getAssetStatus(assetId)).toBe("reserved");
+
+    expect(await bookingService.syncStartedRentalAssets()).toBe(1);
+    expect(await getAssetStatus(assetId)).toBe("rented");
+  });
+});
@@ -4,24 +4,58 @@
  * Handles all rental-related business logic including:
  * - Creating and updating rentals
  * - Managing rental status transitions
+ * - Swapping or adding assets on active rentals, prorated by days out
  * - Calculating penalties for overdue rentals
- * - Managing rental assets
+ * - Issuing final invoices when monthly-billed rentals are returned
+ * - Recording customer payments and deriving each rental's payment status
+ * - Managing rental assets and their bookings
  */
 
 import { TRPCError } from "@trpc/server";
-import mongoose from "mongoose";
+import mongoose, { type ClientSession } from "mongoose";
 import { connectToDatabase } from "@/lib/db/connect";
-import Rental from "@/lib/db/models/rental";
-import RentalAsset from "@/lib/db/models/rental-asset";
+import { withTransaction } from "@/lib/db/transaction";
+import Rental, {
+  type RentalBillingCycle,
+  type RentalPaymentMethod,
+  type RentalStatus,
+  type AssetCondition,
+  type DepositRefundMethod,
+  type IDepositSettlement,
+  type IRental,
+  type IRentalAssetItem,
+  type IRentalCharge,
+  type IRentalLinePricing,
+} from "@/lib/db/models/rental";
+import RentalAsset, { type RentalAssetStatus } from "@/lib/db/models/rental-asset";
 import type {
   CreateRentalInput,
   UpdateRentalInput,
   UpdateRentalStatusInput,
+  QuoteRentalPriceInput,
   GetRentalByIdInput,
   ListRentalsInput,
   CancelRentalInput,
+  ReturnRentalAssetsInput,
+  ExtendRentalInput,
+  AssetInspectionInput,
+  SettleDepositInput,
+  RefundDepositInput,
+  RecordRentalPaymentInput,
+  RentalPaymentStatus,
+  SwapRentalAssetInput,
+  AddRentalAssetsInput,
 } from "../schemas";
+import { canTransitionRentalStatus } from "../schemas";
 import * as activityLogService from "./activity-log.service";
+import { assertAssetsBookable, syncAssetStatuses } from "./rental-booking.service";
+import { generateRentalInvoices } from "./rental-invoice.service";
+import {
+  calculateRentalDays,
+  priceRentalLines,
+  type PricedRentalLine,
+  type RentalPricingResult,
+} from "./rental-pricing.service";
 
 // ============================================================================
 // Type Definitions
@@ -37,6 +71,7 @@ export interface RentalDTO {
   id: string;
   rentalNumber: string;
   customerName: string;
+  customerIdNumber?: string;
   customerPhone?: string;
   customerEmail?: string;
   customerAddress?: string;
@@ -45,19 +80,85 @@ export interface RentalDTO {
     assetCode: string;
     productName?: string;
     quantity: number;
+    dailyRate: number;
+    lineTotal: number;
+    pricing?: IRentalLinePricing;
     insuranceFee?: number;
     replacementPrice?: number;
+    returnedAt?: Date;
+    returnCondition?: string;
+    inspection?: {
+      condition: AssetCondition;
+      photoUrls: string[];
+      note?: string;
+    };
+    penaltyAmount: number;
+    addedAt?: Date;
+    replacesAssetId?: string;
+    replacedByAssetId?: string;
+    swapReason?: string;
   }>;
   startDate: Date;
   endDate: Date;
   expectedReturnDate?: Date;
   actualReturnDate?: Date;
+  extensions: Array<{
+    previousEndDate: Date;
+    newEndDate: Date;
+    amount: number;
+    reason?: string;
+    extendedBy: string;
+    extendedAt: Date;
+  }>;
   dailyRate: number;
   totalAmount: number;
   deposit: number;
   shippingCost: number;
+  billingCycle: RentalBillingCycle;
   penaltyRate?: number;
   penaltyAmount: number;
+  isOverdue: boolean;
+  overdueSince?: Date;
+  charges: Array<{
+    type: "damage" | "loss";
+    assetId?: string;
+    description: string;
+    amount: number;
+    createdAt: Date;
+  }>;
+  depositSettlement?: {
+    depositAmount: number;
+    penaltyAmount: number;
+    chargesAmount: number;
+    unpaidRentAmount: number;
+    deductedAmount: number;
+    refundableAmount: number;
+    balanceDue: number;
+    refunds: Array<{
+      amount: number;
+      method: DepositRefundMethod;
+      refundedAt: Date;
+      note?: string;
+      refundedBy: string;
+    }>;
+    refundedAmount: number;
+    remainingRefund: number;
+    note?: string;
+    settledAt: Date;
+    settledBy: string;
+  };
+  payments: Array<{
+    amount: number;
+    method: RentalPaymentMethod;
+    paidAt: Date;
+    reference?: string;
+    note?: string;
+    receivedBy: string;
+  }>;
+  amountDue: number;
+  paidAmount: number;
+  outstandingBalance: number;
+  paymentStatus: RentalPaymentStatus;
   status: "pending" | "active" | "completed" | "cancelled";
   notes?: string;
   createdBy: string;
@@ -65,6 +166,42 @@ export interface RentalDTO {
   updatedAt: Date;
 }
 
+/**
+ * Price quote for a set of assets over a rental period
+ */
+export interface RentalPriceQuoteDTO {
+  lines: Array<{
+    assetId: string;
+    productName: string;
+    quantity: number;
+    dailyRate: number;
+    insuranceFee: number;
+    lineTotal: number;
+    pricing: IRentalLinePricing;
+  }>;
+  totalAmount: number;
+  dailyRate: number;
+}
+
+/**
+ * Deposits currently held on behalf of customers
+ *
+ * Unsettled rentals hold their full deposit; settled rentals hold the part of
+ * the refundable amount that has not been paid back yet.
+ */
+export interface DepositsHeldDTO {
+  totalHeld: number;
+  rentals: Array<{
+    id: string;
+    rentalNumber: string;
+    customerName: string;
+    status: "pending" | "active" | "completed" | "cancelled";
+    deposit: number;
+    heldAmount: number;
+    settled: boolean;
+  }>;
+}
+
 /**
  * Populated rental asset type (when assets are populated with product info)
  */
@@ -75,10 +212,135 @@ type PopulatedRentalAsset = {
     | {
         _id: mongoose.Types.ObjectId;
         name: string;
+        insuranceFee?: number;
+        replacementPrice?: number;
       }
     | mongoose.Types.ObjectId;
 };
 
+/**
+ * Rental document as read with .lean(), with assets optionally populated
+ */
+type RentalRecord = Omit<IRental, "assets"> & {
+  assets: Array<
+    Omit<IRentalAssetItem, "assetId"> & {
+      assetId: PopulatedRentalAsset | mongoose.Types.ObjectId;
+    }
+  >;
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Asset status to set for each check-in condition
+ *
+ * Assets checked in "ok" are released through booking sync instead, so they
+ * become available (or reserved by a later rental).
+ */
+const CONDITION_ASSET_STATUS: Record<AssetCondition, RentalAssetStatus | null> = {
+  ok: null,
+  dirty: "maintenance",
+  damaged: "damaged",
+  lost: "damaged",
+};
+
+/**
+ * Thai labels for rental statuses, used in error messages
+ */
+const RENTAL_STATUS_LABELS: Record<RentalStatus, string> = {
+  pending: "รอดำเนินการ",
+  active: "กำลังดำเนินการ",
+  completed: "เสร็จสิ้น",
+  cancelled: "ยกเลิก",
+};
+
+/**
+ * Amount a rental owes, as an aggregation expression on the stored fields
+ *
+ * Same as calculateAmountDue, using the penalty stored by the overdue job.
+ */
+const AMOUNT_DUE_EXPRESSION = {
+  $add: [
+    {
+      $switch: {
+        branches: [
+          { case: { $eq: ["$status", "cancelled"] }, then: 0 },
+          {
+            case: { $eq: ["$billingCycle", "monthly"] },
+            then: { $ifNull: ["$invoicedAmount", 0] },
+          },
+        ],
+        default: "$totalAmount",
+      },
+    },
+    { $ifNull: ["$shippingCost", 0] },
+    { $ifNull: ["$penaltyAmount", 0] },
+    { $sum: "$charges.amount" },
+  ],
+};
+
+/**
+ * Amount a rental has been paid, as an aggregation expression: payments plus
+ * the part of the deposit kept at settlement
+ */
+const AMOUNT_COVERED_EXPRESSION = {
+  $add: [{ $ifNull: ["$paidAmount", 0] }, { $ifNull: ["$depositSettlement.deductedAmount", 0] }],
+};
+
+/**
+ * Side effects run for each allowed status transition
+ *
+ * Each effect checks its own preconditions and returns the extra fields to
+ * set on the rental along with the new status. Asset statuses are re-derived
+ * from bookings after every transition, so effects only cover what booking
+ * sync cannot.
+ */
+const STATUS_TRANSITION_EFFECTS: {
+  [From in RentalStatus]?: {
+    [To in RentalStatus]?: (
+      rental: IRental,
+      input: UpdateRentalStatusInput,
+      session: ClientSession
+    ) => Promise<Record<string, unknown>>;
+  };
+} = {
+  pending: {
+    // Handing over: the assets must not be held by another rental or out of service
+    active: async (rental, _input, session) => {
+      await assertAssetsBookable(
+        rental.assets.map((item) => item.assetId),
+        rental.startDate,
+        rental.endDate,
+        rental._id.toString(),
+        session
+      );
+      return {};
+    },
+    // Releasing the booking is done by booking sync
+    cancelled: async () => ({}),
+  },
+  active: {
+    // Assets come back through returnRentalAssets, with their check-in
+    // inspection, which completes the rental once the last one is back
+    completed: async (rental) => {
+      if (rental.assets.some((item) => !item.returnedAt)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "ต้องคืนและตรวจสภาพทรัพย์สินทุกรายการก่อนปิดการเช่า",
+        });
+      }
+      return {
+        actualReturnDate: new Date(
+          Math.max(...rental.assets.map((item) => (item.returnedAt as Date).getTime()))
+        ),
+        isOverdue: false,
+      };
+    },
+  },
+};
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -89,9 +351,10 @@ type PopulatedRentalAsset = {
  * Format: RENT-YYYYMMDD-NNNN
  * Example: RENT-20251214-0001
  *
+ * @param session - Transaction the rental is created in, if any
  * @returns Unique rental number string
  */
-async function generateRentalNumber(): Promise<string> {
+async function generateRentalNumber(session?: ClientSession): Promise<string> {
   await connectToDatabase();
 
   const today = new Date();
@@ -104,6 +367,7 @@ async function generateRentalNumber(): Promise<string> {
     rentalNumber: new RegExp(`^RENT-${year}${month}${date}`),
   })
     .sort({ rentalNumber: -1 })
+    .session(session ?? null)
     .lean();
 
   let sequence = 1;
@@ -135,49 +399,465 @@ function isPopulatedAsset(value: unknown): value is PopulatedRentalAsset {
 }
 
 /**
- * Calculate total rental amount based on rental period and daily rate
+ * Count the calendar days a date is past a rental's end date
+ *
+ * Both dates are taken at midnight, so a return on the end date is not late
+ * and a return the day after is one day late, whatever the time of day. The
+ * penalty job and returns both count late days this way.
  *
- * @param startDate - Rental start date
- * @param endDate - Rental end date
- * @param dailyRate - Daily rental rate
- * @returns Total amount (days × daily rate)
+ * @param endDate - Expected return date (end of rental period)
+ * @param date - Return date, or today for assets still out
+ * @returns Days late (0 if not late)
  */
-function calculateTotalAmount(startDate: Date, endDate: Date, dailyRate: number): number {
-  // Calculate number of days (inclusive of both start and end dates)
-  const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-  return days * dailyRate;
+export function countDaysLate(endDate: Date, date: Date): number {
+  const end = new Date(endDate);
+  end.setHours(0, 0, 0, 0);
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  // Rounded so a daylight saving change does not add or drop a day
+  return Math.max(0, Math.round((day.getTime() - end.getTime()) / (1000 * 60 * 60 * 24)));
 }
 
 /**
- * Calculate penalty amount for overdue rentals
+ * Calculate penalty amount for an overdue asset line
  *
- * Penalty is calculated as: (overdue days) × (daily rate) × (penalty rate)
+ * Penalty is calculated as: (overdue days) × (line daily rate × quantity) × (penalty rate)
  * Default penalty rate is 1.5x the daily rate.
  *
  * @param endDate - Expected return date (end of rental period)
  * @param actualReturnDate - Actual return date
- * @param dailyRate - Daily rental rate
+ * @param line - Asset line with its snapshot daily rate
  * @param penaltyRate - Penalty multiplier (default: 1.5)
  * @returns Penalty amount (0 if not overdue)
  */
 function calculatePenalty(
   endDate: Date,
   actualReturnDate: Date,
-  dailyRate: number,
+  line: Pick<IRentalAssetItem, "dailyRate" | "quantity">,
   penaltyRate: number = 1.5
 ): number {
-  // No penalty if returned on or before end date
-  if (actualReturnDate <= endDate) {
-    return 0;
+  const overdueDays = countDaysLate(endDate, actualReturnDate);
+
+  // Calculate penalty: overdue days × line daily rate × penalty rate
+  return overdueDays * (line.dailyRate || 0) * (line.quantity || 1) * penaltyRate;
+}
+
+/**
+ * Ensure a rental may move from its current status to a new one
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ * @throws TRPCError if the transition is not in the transition table
+ */
+function assertStatusTransition(from: RentalStatus, to: RentalStatus): void {
+  if (from === to) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `การเช่านี้มีสถานะ "${RENTAL_STATUS_LABELS[from]}" อยู่แล้ว`,
+    });
+  }
+  if (!canTransitionRentalStatus(from, to)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `ไม่สามารถเปลี่ยนสถานะการเช่าจาก "${RENTAL_STATUS_LABELS[from]}" เป็น "${RENTAL_STATUS_LABELS[to]}" ได้`,
+    });
+  }
+}
+
+/**
+ * Prorate a line charge to the days its unit was out
+ *
+ * @param amount - Charge for the whole period
+ * @param days - Days the unit was out (capped at the period)
+ * @param periodDays - Days in the whole period
+ * @returns Prorated charge, rounded to 2 decimals
+ */
+function prorateAmount(amount: number, days: number, periodDays: number): number {
+  return Math.round(((amount * Math.min(days, periodDays)) / periodDays) * 100) / 100;
+}
+
+/**
+ * Price asset lines up to a date, each from the day it went out
+ *
+ * Lines added mid-rental start at their addedAt, the others at the rental's
+ * start date.
+ *
+ * @param rental - Rental the lines belong to
+ * @param lines - Lines to price
+ * @param endDate - Date to price up to
+ * @param session - Transaction to read in
+ * @returns Priced line per asset ID
+ */
+async function priceLinesUntil(
+  rental: Pick<IRental, "startDate">,
+  lines: IRentalAssetItem[],
+  endDate: Date,
+  session: ClientSession
+): Promise<Map<string, PricedRentalLine>> {
+  const linesByStart = new Map<number, IRentalAssetItem[]>();
+  for (const item of lines) {
+    const start = (item.addedAt ?? rental.startDate).getTime();
+    linesByStart.set(start, [...(linesByStart.get(start) ?? []), item]);
+  }
+
+  const priced = new Map<string, PricedRentalLine>();
+  for (const [start, group] of linesByStart) {
+    const pricing = await priceRentalLines(group, new Date(start), endDate, session);
+    for (const line of pricing.lines) {
+      priced.set(line.assetId.toString(), line);
+    }
+  }
+  return priced;
+}
+
+/**
+ * Mark asset lines as returned, charge them for their days out, and
+ * calculate each line's overdue penalty
+ *
+ * A line returned before the end date is re-priced from the day it went out
+ * to its return date, never above its booked total. Lines booked before
+ * tiered pricing are charged their daily rate for the days out instead.
+ * Lines that were already returned, or are not selected, are left unchanged.
+ * Monthly-billed rentals accrue no penalty; their invoices run until return.
+ *
+ * @param rental - Rental the lines belong to
+ * @param assetIds - Asset IDs to return
+ * @param returnDate - Date the assets came back
+ * @param penaltyRate - Penalty multiplier for overdue days
+ * @param session - Transaction to read in
+ * @param condition - Optional note on the condition of the returned assets
+ * @returns Updated asset lines
+ */
+async function returnAssetLines(
+  rental: IRental,
+  assetIds: Set<string>,
+  returnDate: Date,
+  penaltyRate: number,
+  session: ClientSession,
+  condition?: string
+): Promise<IRentalAssetItem[]> {
+  const returning = rental.assets.filter(
+    (item) => !item.returnedAt && assetIds.has(item.assetId.toString())
+  );
+  const priced = await priceLinesUntil(
+    rental,
+    returning.filter((item) => item.pricing),
+    returnDate,
+    session
+  );
+
+  return rental.assets.map((item) => {
+    if (!returning.includes(item)) {
+      return item;
+    }
+
+    const line = priced.get(item.assetId.toString());
+    const daysOut = calculateRentalDays(item.addedAt ?? rental.startDate, returnDate);
+    const chargeForDaysOut = line ? line.lineTotal : item.dailyRate * item.quantity * daysOut;
+    const isRepriced = chargeForDaysOut < item.lineTotal;
+    return {
+      ...item,
+      ...(isRepriced && { lineTotal: chargeForDaysOut, ...(line && { pricing: line.pricing }) }),
+      returnedAt: returnDate,
+      returnCondition: condition,
+      penaltyAmount:
+        rental.billingCycle === "monthly"
+          ? 0
+          : calculatePenalty(rental.endDate, returnDate, item, penaltyRate),
+    };
+  });
+}
+
+/**
+ * Build damage and loss charges from check-in inspections
+ *
+ * Lost assets are charged the product's replacement price and damaged assets
+ * the insurance fee snapshotted on their line, unless a charge amount is given
+ * explicitly. Inspections that result in no charge are skipped.
+ *
+ * @param inspections - Inspections recorded at check-in
+ * @param lines - The rental's asset lines
+ * @param session - Transaction to read in
+ * @returns Charges to add to the rental
+ */
+async function buildInspectionCharges(
+  inspections: AssetInspectionInput[],
+  lines: IRentalAssetItem[],
+  session: ClientSession
+): Promise<IRentalCharge[]> {
+  const chargeable = inspections.filter(
+    (inspection) => inspection.condition === "damaged" || inspection.condition === "lost"
+  );
+  if (chargeable.length === 0) {
+    return [];
   }
 
-  // Calculate number of overdue days
-  const overdueDays = Math.ceil(
-    (actualReturnDate.getTime() - endDate.getTime()) / (1000 * 60 * 60 * 24)
+  const assets = await RentalAsset.find({
+    _id: { $in: chargeable.map((inspection) => new mongoose.Types.ObjectId(inspection.assetId)) },
+  })
+    .populate({ path: "productId", select: "name insuranceFee replacementPrice" })
+    .session(session)
+    .lean();
+  const assetById = new Map(
+    (assets as unknown as PopulatedRentalAsset[]).map((asset) => [asset._id.toString(), asset])
   );
 
-  // Calculate penalty: overdue days × daily rate × penalty rate
-  return overdueDays * dailyRate * penaltyRate;
+  const now = new Date();
+  const charges: IRentalCharge[] = [];
+  for (const inspection of chargeable) {
+    const asset = assetById.get(inspection.assetId);
+    const line = lines.find((item) => item.assetId.toString() === inspection.assetId);
+    const product =
+      asset && typeof asset.productId === "object" && "name" in asset.productId
+        ? asset.productId
+        : undefined;
+    const isLost = inspection.condition === "lost";
+    const amount =
+      inspection.chargeAmount ??
+      (isLost ? product?.replacementPrice : (line?.insuranceFee ?? product?.insuranceFee)) ??
+      0;
+    if (amount <= 0) {
+      continue;
+    }
+
+    const assetLabel = [asset?.assetCode, line?.productName || product?.name]
+      .filter(Boolean)
+      .join(" - ");
+    charges.push({
+      type: isLost ? "loss" : "damage",
+      assetId: new mongoose.Types.ObjectId(inspection.assetId),
+      description: `${isLost ? "ค่าทรัพย์สินสูญหาย" : "ค่าซ่อมแซมความเสียหาย"}: ${assetLabel}`,
+      amount,
+      createdAt: now,
+    });
+  }
+  return charges;
+}
+
+/**
+ * Calculate the penalty owed on a rental as of today
+ *
+ * Returned lines contribute the penalty stored at their return. For active
+ * rentals, lines still out accrue a penalty on their own daily rate from the
+ * end date until today. Other rentals, and monthly-billed rentals, use the
+ * stored penalty amount.
+ *
+ * @param rental - Rental to calculate penalty for
+ * @returns Current penalty amount
+ */
+export function calculateCurrentPenalty(
+  rental: Pick<
+    RentalRecord,
+    "status" | "endDate" | "billingCycle" | "penaltyRate" | "penaltyAmount" | "assets"
+  >
+): number {
+  if (rental.status !== "active" || rental.billingCycle === "monthly") {
+    return rental.penaltyAmount || 0;
+  }
+
+  const today = new Date();
+  const penaltyRate = rental.penaltyRate || 1.5;
+  return rental.assets.reduce((sum, item) => {
+    if (item.returnedAt) {
+      return sum + (item.penaltyAmount || 0);
+    }
+    return sum + calculatePenalty(rental.endDate, today, item, penaltyRate);
+  }, 0);
+}
+
+/**
+ * Calculate the amount a rental owes the business
+ *
+ * Rent is the booked total for rentals billed once, the issued invoices for
+ * monthly-billed rentals, and nothing for cancelled rentals. Shipping, the
+ * overdue penalty, and damage/loss charges are added on top. The deposit is
+ * held separately and is not part of the amount due.
+ *
+ * @param rental - Rental to calculate for
+ * @param penaltyAmount - Penalty to include (e.g. the current penalty)
+ * @returns Amount due
+ */
+function calculateAmountDue(
+  rental: Pick<
+    RentalRecord,
+    "status" | "billingCycle" | "totalAmount" | "invoicedAmount" | "shippingCost" | "charges"
+  >,
+  penaltyAmount: number
+): number {
+  const rent =
+    rental.status === "cancelled"
+      ? 0
+      : rental.billingCycle === "monthly"
+        ? rental.invoicedAmount || 0
+        : rental.totalAmount;
+  const chargesAmount = (rental.charges || []).reduce((sum, charge) => sum + charge.amount, 0);
+  return rent + (rental.shippingCost || 0) + penaltyAmount + chargesAmount;
+}
+
+/**
+ * Calculate what a customer still owes on a rental
+ *
+ * Payments and the part of the deposit kept at settlement both count towards
+ * the amount due.
+ *
+ * @param rental - Rental to calculate for
+ * @param penaltyAmount - Penalty to include (e.g. the current penalty)
+ * @returns Outstanding balance (0 if fully paid)
+ */
+function calculateOutstandingBalance(
+  rental: Parameters<typeof calculateAmountDue>[0] &
+    Pick<RentalRecord, "paidAmount" | "depositSettlement">,
+  penaltyAmount: number
+): number {
+  const covered = (rental.paidAmount || 0) + (rental.depositSettlement?.deductedAmount || 0);
+  return Math.max(0, calculateAmountDue(rental, penaltyAmount) - covered);
+}
+
+/**
+ * Derive a rental's payment status from its outstanding balance
+ */
+function getPaymentStatus(outstandingBalance: number, paidAmount: number): RentalPaymentStatus {
+  if (outstandingBalance <= 0) {
+    return "paid";
+  }
+  return paidAmount > 0 ? "partial" : "unpaid";
+}
+
+/**
+ * Total amount already refunded from a deposit settlement
+ */
+function getRefundedAmount(settlement: Pick<IDepositSettlement, "refunds">): number {
+  return (settlement.refunds || []).reduce((sum, refund) => sum + refund.amount, 0);
+}
+
+/**
+ * Convert a rental document to a RentalDTO
+ *
+ * @param rental - Rental document (lean), with assets optionally populated
+ * @param penaltyAmount - Penalty to report (defaults to the stored amount)
+ * @returns Rental DTO
+ */
+function toRentalDTO(
+  rental: RentalRecord,
+  penaltyAmount: number = rental.penaltyAmount || 0
+): RentalDTO {
+  const outstandingBalance = calculateOutstandingBalance(rental, penaltyAmount);
+  return {
+    id: rental._id.toString(),
+    rentalNumber: rental.rentalNumber,
+    customerName: rental.customerName,
+    customerIdNumber: rental.customerIdNumber,
+    customerPhone: rental.customerPhone,
+    customerEmail: rental.customerEmail,
+    customerAddress: rental.customerAddress,
+    assets: (rental.assets || []).map((item) => {
+      const lineInfo = {
+        quantity: item.quantity || 1,
+        dailyRate: item.dailyRate || 0,
+        lineTotal: item.lineTotal || 0,
+        insuranceFee: item.insuranceFee,
+        pricing: item.pricing,
+        returnedAt: item.returnedAt,
+        returnCondition: item.returnCondition,
+        inspection: item.inspection && {
+          condition: item.inspection.condition,
+          photoUrls: item.inspection.photoUrls || [],
+          note: item.inspection.note,
+        },
+        penaltyAmount: item.penaltyAmount || 0,
+        addedAt: item.addedAt,
+        replacesAssetId: item.replacesAssetId?.toString(),
+        replacedByAssetId: item.replacedByAssetId?.toString(),
+        swapReason: item.swapReason,
+      };
+      if (!isPopulatedAsset(item.assetId)) {
+        return {
+          id: extractAssetIdString(item.assetId),
+          assetCode: "",
+          productName: item.productName,
+          ...lineInfo,
+        };
+      }
+      const asset = item.assetId;
+      const product = asset.productId;
+      const isPopulatedProduct =
+        typeof product === "object" && product !== null && "_id" in product && "name" in product;
+      return {
+        id: asset._id.toString(),
+        assetCode: asset.assetCode || "",
+        productName: item.productName || (isPopulatedProduct ? product.name : undefined),
+        replacementPrice: isPopulatedProduct ? product.replacementPrice : undefined,
+        ...lineInfo,
+      };
+    }),
+    startDate: rental.startDate,
+    endDate: rental.endDate,
+    expectedReturnDate: rental.expectedReturnDate,
+    actualReturnDate: rental.actualReturnDate,
+    extensions: (rental.extensions || []).map((extension) => ({
+      previousEndDate: extension.previousEndDate,
+      newEndDate: extension.newEndDate,
+      amount: extension.amount,
+      reason: extension.reason,
+      extendedBy: extension.extendedBy.toString(),
+      extendedAt: extension.extendedAt,
+    })),
+    dailyRate: rental.dailyRate,
+    totalAmount: rental.totalAmount,
+    deposit: rental.deposit,
+    shippingCost: rental.shippingCost ?? 0,
+    billingCycle: rental.billingCycle ?? "once",
+    penaltyRate: rental.penaltyRate,
+    penaltyAmount,
+    isOverdue: rental.isOverdue ?? false,
+    overdueSince: rental.overdueSince,
+    charges: (rental.charges || []).map((charge) => ({
+      type: charge.type,
+      assetId: charge.assetId?.toString(),
+      description: charge.description,
+      amount: charge.amount,
+      createdAt: charge.createdAt,
+    })),
+    depositSettlement: rental.depositSettlement && {
+      depositAmount: rental.depositSettlement.depositAmount,
+      penaltyAmount: rental.depositSettlement.penaltyAmount,
+      chargesAmount: rental.depositSettlement.chargesAmount,
+      unpaidRentAmount: rental.depositSettlement.unpaidRentAmount,
+      deductedAmount: rental.depositSettlement.deductedAmount,
+      refundableAmount: rental.depositSettlement.refundableAmount,
+      balanceDue: rental.depositSettlement.balanceDue,
+      refunds: (rental.depositSettlement.refunds || []).map((refund) => ({
+        amount: refund.amount,
+        method: refund.method,
+        refundedAt: refund.refundedAt,
+        note: refund.note,
+        refundedBy: refund.refundedBy.toString(),
+      })),
+      refundedAmount: getRefundedAmount(rental.depositSettlement),
+      remainingRefund:
+        rental.depositSettlement.refundableAmount - getRefundedAmount(rental.depositSettlement),
+      note: rental.depositSettlement.note,
+      settledAt: rental.depositSettlement.settledAt,
+      settledBy: rental.depositSettlement.settledBy.toString(),
+    },
+    payments: (rental.payments || []).map((payment) => ({
+      amount: payment.amount,
+      method: payment.method,
+      paidAt: payment.paidAt,
+      reference: payment.reference,
+      note: payment.note,
+      receivedBy: payment.receivedBy.toString(),
+    })),
+    amountDue: calculateAmountDue(rental, penaltyAmount),
+    paidAmount: rental.paidAmount || 0,
+    outstandingBalance,
+    paymentStatus: getPaymentStatus(outstandingBalance, rental.paidAmount || 0),
+    status: rental.status,
+    notes: rental.notes,
+    createdBy: rental.createdBy.toString(),
+    createdAt: rental.createdAt,
+    updatedAt: rental.updatedAt,
+  };
 }
 
 // ============================================================================
@@ -187,13 +867,15 @@ function calculatePenalty(
 /**
  * Create a new rental
  *
- * Validates that all assets are available, calculates total amount,
- * generates rental number, and updates asset statuses to "rented".
+ * Validates that no asset is booked by another rental in the requested period,
+ * prices each asset line from its product's rates, generates rental number,
+ * and books the assets
+ * ("rented" if the rental has started, "reserved" if it starts in the future).
  *
  * @param userId - ID of user creating the rental
  * @param input - Rental creation data
  * @returns Created rental DTO
- * @throws TRPCError if assets are not available
+ * @throws TRPCError if assets are out of service or already booked for the period
  */
 export async function createRental(userId: string, input: CreateRentalInput): Promise<RentalDTO> {
   await connectToDatabase();
@@ -269,24 +951,6 @@ export async function createRental(userId: string, input: CreateRentalInput): Pr
     });
   }
 
-  const assets = await RentalAsset.find({
-    _id: { $in: uniqueAssetIds.map((id) => new mongoose.Types.ObjectId(id)) },
-    status: "available",
-  });
-
-  if (assets.length !== uniqueAssetIds.length) {
-    throw new TRPCError({
-      code: "BAD_REQUEST",
-      message: "ทรัพย์สินบางรายการไม่พร้อมใช้งาน",
-    });
-  }
-
-  // Calculate total amount
-  const totalAmount = calculateTotalAmount(input.startDate, input.endDate, input.dailyRate);
-
-  // Generate rental number
-  const rentalNumber = await generateRentalNumber();
-
   // Prepare assets array with proper ObjectId conversion
   // Ensure each item is a plain object, not a Mongoose document or string
   const rentalAssets = assetsArray.map((a, index) => {
@@ -373,23 +1037,89 @@ export async function createRental(userId: string, input: CreateRentalInput): Pr
     }
   }
 
+  // Price the lines, check the booking, save the rental, and book its assets
+  // together, so a failure part way leaves neither a rental without booked
+  // assets nor the reverse
+  const rental = await withTransaction(async (session) => {
+    // Price each line from its product's rates
+    const pricing = await priceRentalLines(rentalAssets, input.startDate, input.endDate, session);
+    return insertRental(userId, input, pricing, session);
+  });
+
+  // Populate assets for response
+  const populatedRental = await Rental.findById(rental._id.toString())
+    .populate({
+      path: "assets.assetId",
+      select: "assetCode productId",
+      populate: { path: "productId", select: "name" },
+    })
+    .lean();
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "create",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${input.customerName}`
+  );
+
+  if (!populatedRental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  return toRentalDTO(populatedRental);
+}
+
+/**
+ * Save a new pending rental and book its assets, in the caller's transaction
+ *
+ * Lines are saved at the prices given: createRental prices them from the
+ * current rates, while a converted quote keeps the prices it was issued at.
+ *
+ * @param userId - ID of user creating the rental
+ * @param input - Rental details (the assets come from the priced lines)
+ * @param pricing - Priced asset lines, total amount, and combined daily rate
+ * @param session - Transaction to write in
+ * @returns Created rental document
+ * @throws TRPCError if assets are out of service or already booked for the period
+ */
+export async function insertRental(
+  userId: string,
+  input: Omit<CreateRentalInput, "assets">,
+  pricing: RentalPricingResult,
+  session: ClientSession
+): Promise<IRental> {
+  const assetIds = [...new Set(pricing.lines.map((line) => line.assetId.toString()))];
+
+  // Reject assets that are out of service or booked by another rental in this period
+  await assertAssetsBookable(assetIds, input.startDate, input.endDate, undefined, session);
+
+  // Generate rental number
+  const rentalNumber = await generateRentalNumber(session);
+
   // Create rental - use same pattern as sale service
   // Ensure all data is properly formatted before passing to Mongoose
   const rentalData = {
     customerName: input.customerName,
+    customerIdNumber: input.customerIdNumber || undefined,
     customerPhone: input.customerPhone || undefined,
     customerEmail: input.customerEmail || undefined,
     customerAddress: input.customerAddress || undefined,
-    assets: rentalAssets, // This should be an array of { assetId: ObjectId, quantity: number }
+    assets: pricing.lines,
     startDate: new Date(input.startDate),
     endDate: new Date(input.endDate),
     expectedReturnDate: input.expectedReturnDate ? new Date(input.expectedReturnDate) : undefined,
-    dailyRate: Number(input.dailyRate),
+    dailyRate: pricing.dailyRate,
     deposit: Number(input.deposit || 0),
     shippingCost: Number(input.shippingCost || 0),
+    billingCycle: input.billingCycle,
     notes: input.notes || undefined,
     rentalNumber,
-    totalAmount: Number(totalAmount),
+    totalAmount: pricing.totalAmount,
     createdBy: new mongoose.Types.ObjectId(userId),
   };
 
@@ -413,10 +1143,10 @@ export async function createRental(userId: string, input: CreateRentalInput): Pr
   );
 
   // Try creating with explicit validation
-  let rental;
+  let created;
   try {
-    rental = await Rental.create(rentalData);
-    console.log("createRental success, rental._id:", rental._id.toString());
+    [created] = await Rental.create([rentalData], { session });
+    console.log("createRental success, rental._id:", created._id.toString());
   } catch (error: unknown) {
     console.error("createRental error:", error);
     if (error instanceof Error) {
@@ -436,190 +1166,152 @@ export async function createRental(userId: string, input: CreateRentalInput): Pr
     throw error;
   }
 
-  // Update asset statuses to "rented" and link to rental
-  await RentalAsset.updateMany(
-    { _id: { $in: uniqueAssetIds.map((id) => new mongoose.Types.ObjectId(id)) } },
-    {
-      $set: {
-        status: "rented",
-        currentRentalId: rental._id,
-      },
-    }
-  );
+  // Mark assets as rented or reserved according to the new booking
+  await syncAssetStatuses(assetIds, session);
 
-  // Populate assets for response
-  const populatedRental = await Rental.findById(rental._id.toString())
-    .populate({
-      path: "assets.assetId",
-      select: "assetCode productId",
-      populate: { path: "productId", select: "name" },
-    })
-    .lean();
-
-  // Log activity
-  await activityLogService.createActivityLog(
-    userId,
-    "create",
-    "rental",
-    rental._id.toString(),
-    `Rental ${rentalNumber} - ${input.customerName}`
-  );
-
-  return {
-    id: rental._id.toString(),
-    rentalNumber: rental.rentalNumber,
-    customerName: rental.customerName,
-    customerPhone: rental.customerPhone,
-    customerEmail: rental.customerEmail,
-    customerAddress: rental.customerAddress,
-    assets:
-      (
-        populatedRental?.assets as unknown as Array<{
-          assetId: PopulatedRentalAsset | mongoose.Types.ObjectId;
-          quantity: number;
-        }>
-      )?.map((item) => {
-        if (!isPopulatedAsset(item.assetId)) {
-          return {
-            id: extractAssetIdString(item.assetId),
-            assetCode: "",
-            productName: undefined,
-            quantity: item.quantity,
-          };
-        }
-        const asset = item.assetId;
-        return {
-          id: asset._id.toString(),
-          assetCode: asset.assetCode || "",
-          productName:
-            typeof asset.productId === "object" &&
-            asset.productId !== null &&
-            "_id" in asset.productId &&
-            "name" in asset.productId
-              ? asset.productId.name
-              : undefined,
-          quantity: item.quantity,
-        };
-      }) || [],
-    startDate: rental.startDate,
-    endDate: rental.endDate,
-    expectedReturnDate: rental.expectedReturnDate,
-    actualReturnDate: rental.actualReturnDate,
-    dailyRate: rental.dailyRate,
-    totalAmount: rental.totalAmount,
-    deposit: rental.deposit,
-    shippingCost: rental.shippingCost ?? 0,
-    penaltyRate: rental.penaltyRate,
-    penaltyAmount: rental.penaltyAmount || 0,
-    status: rental.status,
-    notes: rental.notes,
-    createdBy: rental.createdBy.toString(),
-    createdAt: rental.createdAt,
-    updatedAt: rental.updatedAt,
-  };
-}
+  return created;
+}
 
 /**
  * Update an existing rental
  *
- * Handles updates to rental details including:
- * - Recalculating total amount if dates or rate change
- * - Managing asset changes (returning old assets, assigning new ones)
+ * Handles updates to pending and active rentals including:
+ * - Re-pricing the asset lines still out if dates or assets change (returned
+ *   lines keep their price)
+ * - Re-checking bookings when dates or assets change
+ * - Managing asset changes (releasing old assets, booking new ones)
+ *
+ * The billing cycle can only change before the rental starts.
  *
  * @param userId - ID of user updating the rental
  * @param input - Rental update data
  * @returns Updated rental DTO
- * @throws TRPCError if rental not found or assets unavailable
+ * @throws TRPCError if rental not found, completed or cancelled, assets are
+ * booked by another rental, or the billing cycle changes after the start
  */
 export async function updateRental(userId: string, input: UpdateRentalInput): Promise<RentalDTO> {
   await connectToDatabase();
 
   const { id, ...updateData } = input;
 
-  const oldRental = await Rental.findById(id).lean();
-  if (!oldRental) {
-    throw new TRPCError({
-      code: "NOT_FOUND",
-      message: "ไม่พบการเช่า",
-    });
-  }
+  // Save the rental and re-book its assets together
+  const rental = await withTransaction(async (session) => {
+    const oldRental = await Rental.findById(id).session(session).lean();
+    if (!oldRental) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "ไม่พบการเช่า",
+      });
+    }
+
+    if (oldRental.status !== "pending" && oldRental.status !== "active") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "แก้ไขได้เฉพาะการเช่าที่รอดำเนินการหรือกำลังดำเนินการเท่านั้น",
+      });
+    }
+
+    // Invoices or the penalty may already be running on the old billing cycle
+    const hasStarted = oldRental.status === "active" || oldRental.startDate <= new Date();
+    if (
+      updateData.billingCycle &&
+      updateData.billingCycle !== oldRental.billingCycle &&
+      hasStarted
+    ) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "ไม่สามารถเปลี่ยนรอบการเรียกเก็บเงินหลังจากเริ่มการเช่าแล้ว",
+      });
+    }
 
-  // Create a mutable update object with totalAmount property
-  const updateObj: Record<string, unknown> = { ...updateData };
+    // Create a mutable update object with totalAmount property
+    const updateObj: Record<string, unknown> = { ...updateData };
 
-  // Recalculate total amount if dates or daily rate changed
-  if (updateData.startDate || updateData.endDate || updateData.dailyRate) {
     const startDate = updateData.startDate || oldRental.startDate;
     const endDate = updateData.endDate || oldRental.endDate;
-    const dailyRate = updateData.dailyRate || oldRental.dailyRate;
-    updateObj.totalAmount = calculateTotalAmount(startDate, endDate, dailyRate);
-  }
-
-  // Handle asset changes
-  if (updateData.assets) {
-    // Return old assets
-    if (oldRental.assets && oldRental.assets.length > 0) {
-      const oldAssetIds = (oldRental.assets as Array<{ assetId: mongoose.Types.ObjectId }>).map(
-        (a) => a.assetId
-      );
-      await RentalAsset.updateMany(
-        { _id: { $in: oldAssetIds } },
-        {
-          $set: {
-            status: "available",
-            currentRentalId: null,
-          },
-        }
-      );
+    if (endDate <= startDate) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "วันที่สิ้นสุดต้องมากกว่าวันที่เริ่มต้น",
+      });
     }
 
-    // Verify new assets are available
-    const assetIdsRaw = (updateData.assets as Array<string | { assetId: string }>).map((v) =>
-      typeof v === "string" ? v : v.assetId
+    const oldAssetIds = (oldRental.assets as Array<{ assetId: mongoose.Types.ObjectId }>).map(
+      (a) => a.assetId
     );
-    const assetObjectIds = assetIdsRaw.map((id) => new mongoose.Types.ObjectId(id));
+    let newAssetIds = oldAssetIds;
 
-    const newAssets = await RentalAsset.find({
-      _id: { $in: assetObjectIds },
-      status: "available",
-    });
+    // Handle asset changes
+    if (updateData.assets) {
+      // Lines returned, added, or swapped in mid-rental carry their own dates
+      if (oldRental.assets.some((item) => item.returnedAt || item.addedAt)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            "ไม่สามารถแก้ไขรายการทรัพย์สินหลังจากมีการคืน เพิ่ม หรือสลับทรัพย์สินระหว่างการเช่าแล้ว",
+        });
+      }
+      newAssetIds = updateData.assets.map((a) => new mongoose.Types.ObjectId(a.assetId));
+    }
 
-    if (newAssets.length !== updateData.assets.length) {
-      throw new TRPCError({
-        code: "BAD_REQUEST",
-        message: "ทรัพย์สินบางรายการไม่พร้อมใช้งาน",
+    // Re-check bookings when the period or the asset list changes
+    const bookingChanged = !!(updateData.assets || updateData.startDate || updateData.endDate);
+    if (bookingChanged) {
+      // Returned assets no longer hold a booking on this rental
+      const bookedAssetIds = updateData.assets
+        ? newAssetIds
+        : oldRental.assets.filter((item) => !item.returnedAt).map((item) => item.assetId);
+      await assertAssetsBookable(bookedAssetIds, startDate, endDate, id, session);
+    }
+
+    if (updateData.assets) {
+      // A new asset list is priced afresh for the whole period
+      const pricing = await priceRentalLines(updateData.assets, startDate, endDate, session);
+      updateObj.assets = pricing.lines;
+      updateObj.totalAmount = pricing.totalAmount;
+      updateObj.dailyRate = pricing.dailyRate;
+    } else if (bookingChanged) {
+      // Re-price the lines still out for the new period, each from the day it
+      // went out; returned lines keep their price
+      const priced = await priceLinesUntil(
+        { startDate },
+        oldRental.assets.filter((item) => !item.returnedAt),
+        endDate,
+        session
+      );
+      const assets = oldRental.assets.map((item) => {
+        const line = priced.get(item.assetId.toString());
+        if (item.returnedAt || !line) {
+          return item;
+        }
+        return { ...item, pricing: line.pricing, lineTotal: line.lineTotal };
       });
+      updateObj.assets = assets;
+      updateObj.totalAmount = assets.reduce((sum, item) => sum + item.lineTotal, 0);
     }
 
-    // Update new assets
-    await RentalAsset.updateMany(
-      { _id: { $in: assetObjectIds } },
-      {
-        $set: {
-          status: "rented",
-          currentRentalId: new mongoose.Types.ObjectId(id),
-        },
-      }
-    );
+    const updated = await Rental.findByIdAndUpdate(id, { $set: updateObj }, { new: true, session })
+      .populate({
+        path: "assets.assetId",
+        select: "assetCode productId",
+        populate: { path: "productId", select: "name" },
+      })
+      .lean();
 
-    // Convert asset IDs to ObjectIds for database
-    updateObj.assets = assetObjectIds;
-  }
+    if (!updated) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "ไม่พบการเช่า",
+      });
+    }
 
-  const rental = await Rental.findByIdAndUpdate(id, { $set: updateObj }, { new: true })
-    .populate({
-      path: "assets.assetId",
-      select: "assetCode productId",
-      populate: { path: "productId", select: "name" },
-    })
-    .lean();
+    // Release removed assets and book new ones (dates may also move reservations)
+    if (bookingChanged) {
+      await syncAssetStatuses([...oldAssetIds, ...newAssetIds], session);
+    }
 
-  if (!rental) {
-    throw new TRPCError({
-      code: "NOT_FOUND",
-      message: "ไม่พบการเช่า",
-    });
-  }
+    return updated;
+  });
 
   // Log activity
   await activityLogService.createActivityLog(
@@ -630,72 +1322,29 @@ export async function updateRental(userId: string, input: UpdateRentalInput): Pr
     `Rental ${rental.rentalNumber} - ${rental.customerName}`
   );
 
-  return {
-    id: rental._id.toString(),
-    rentalNumber: rental.rentalNumber,
-    customerName: rental.customerName,
-    customerPhone: rental.customerPhone,
-    customerEmail: rental.customerEmail,
-    customerAddress: rental.customerAddress,
-    assets:
-      (
-        rental.assets as unknown as Array<{
-          assetId: PopulatedRentalAsset | mongoose.Types.ObjectId;
-          quantity: number;
-        }>
-      )?.map((item) => {
-        if (!isPopulatedAsset(item.assetId)) {
-          return {
-            id: extractAssetIdString(item.assetId),
-            assetCode: "",
-            productName: undefined,
-            quantity: item.quantity,
-          };
-        }
-        const asset = item.assetId;
-        return {
-          id: asset._id.toString(),
-          assetCode: asset.assetCode || "",
-          productName:
-            typeof asset.productId === "object" &&
-            asset.productId !== null &&
-            "_id" in asset.productId &&
-            "name" in asset.productId
-              ? asset.productId.name
-              : undefined,
-          quantity: item.quantity,
-        };
-      }) || [],
-    startDate: rental.startDate,
-    endDate: rental.endDate,
-    expectedReturnDate: rental.expectedReturnDate,
-    actualReturnDate: rental.actualReturnDate,
-    dailyRate: rental.dailyRate,
-    totalAmount: rental.totalAmount,
-    deposit: rental.deposit,
-    shippingCost: rental.shippingCost ?? 0,
-    penaltyRate: rental.penaltyRate,
-    penaltyAmount: rental.penaltyAmount || 0,
-    status: rental.status,
-    notes: rental.notes,
-    createdBy: rental.createdBy.toString(),
-    createdAt: rental.createdAt,
-    updatedAt: rental.updatedAt,
-  };
+  return toRentalDTO(rental);
 }
 
 /**
  * Update rental status
  *
- * Handles status transitions with appropriate business logic:
- * - "completed": Calculates penalty if overdue, returns assets to available
- * - "cancelled": Returns assets to available
- * - "active": Assets already set to rented (no change needed)
+ * Only transitions listed in RENTAL_STATUS_TRANSITIONS are accepted, each with
+ * its own side effects:
+ * - pending → active: Checks the assets are free, then marks them as rented
+ * - pending → cancelled: Releases the booking
+ * - active → completed: Only once every asset has been returned through
+ *   returnRentalAssets (monthly-billed rentals get their remaining invoices)
+ *
+ * Asset statuses are re-derived from the remaining bookings afterwards, so an
+ * asset released here becomes "reserved" if a later rental has booked it.
+ * The status change and asset statuses are saved in one transaction; invoices
+ * and the activity log follow once it has committed.
  *
  * @param userId - ID of user updating the status
- * @param input - Status update data (id, status, optional actualReturnDate, penaltyRate, notes)
+ * @param input - Status update data (id, status, optional notes)
  * @returns Updated rental DTO
- * @throws TRPCError if rental not found
+ * @throws TRPCError if rental not found, the transition is not allowed, or
+ * assets are still out on a rental being completed
  */
 export async function updateRentalStatus(
   userId: string,
@@ -703,94 +1352,66 @@ export async function updateRentalStatus(
 ): Promise<RentalDTO> {
   await connectToDatabase();
 
-  const oldRental = await Rental.findById(input.id).lean();
-  if (!oldRental) {
-    throw new TRPCError({
-      code: "NOT_FOUND",
-      message: "ไม่พบการเช่า",
-    });
-  }
+  // Change the status and release or take up the booking together
+  const { oldRental, rental } = await withTransaction(async (session) => {
+    const oldRental = await Rental.findById(input.id).session(session).lean();
+    if (!oldRental) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "ไม่พบการเช่า",
+      });
+    }
 
-  // Prepare update data
-  const updateData: Record<string, unknown> = {
-    status: input.status,
-  };
-  if (input.notes) {
-    updateData.notes = input.notes;
-  }
+    assertStatusTransition(oldRental.status, input.status);
+    const effect = STATUS_TRANSITION_EFFECTS[oldRental.status]?.[input.status];
+    if (!effect) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "ไม่พบขั้นตอนการเปลี่ยนสถานะการเช่า",
+      });
+    }
 
-  // ========================================================================
-  // Handle Status-Specific Logic
-  // ========================================================================
+    // Prepare update data
+    const updateData: Record<string, unknown> = {
+      ...(await effect(oldRental, input, session)),
+      status: input.status,
+    };
+    if (input.notes) {
+      updateData.notes = input.notes;
+    }
 
-  // When completing rental: calculate penalty and return assets
-  if (input.status === "completed") {
-    const actualReturnDate = input.actualReturnDate || new Date();
-    updateData.actualReturnDate = actualReturnDate;
+    // Only apply the change if no one else changed the status in the meantime
+    const updated = await Rental.findOneAndUpdate(
+      { _id: input.id, status: oldRental.status },
+      { $set: updateData },
+      { new: true, session }
+    )
+      .populate({
+        path: "assets.assetId",
+        select: "assetCode productId",
+        populate: { path: "productId", select: "name" },
+      })
+      .lean();
+
+    if (!updated) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "สถานะการเช่าถูกเปลี่ยนแปลงระหว่างดำเนินการ กรุณาลองใหม่อีกครั้ง",
+      });
+    }
 
-    // Calculate penalty if overdue
-    const penaltyRate = input.penaltyRate || oldRental.penaltyRate || 1.5;
-    const penaltyAmount = calculatePenalty(
-      oldRental.endDate,
-      actualReturnDate,
-      oldRental.dailyRate,
-      penaltyRate
+    // Release or take up the booking according to the new status
+    await syncAssetStatuses(
+      (oldRental.assets as Array<{ assetId: mongoose.Types.ObjectId }>).map((a) => a.assetId),
+      session
     );
 
-    updateData.penaltyAmount = penaltyAmount;
-    updateData.penaltyRate = penaltyRate;
-
-    // Return all assets to available status
-    if (oldRental.assets && oldRental.assets.length > 0) {
-      const oldAssetIds = (oldRental.assets as Array<{ assetId: mongoose.Types.ObjectId }>).map(
-        (a) => a.assetId
-      );
-      await RentalAsset.updateMany(
-        { _id: { $in: oldAssetIds } },
-        {
-          $set: {
-            status: "available",
-            currentRentalId: null,
-          },
-        }
-      );
-    }
-  }
-  // When cancelling rental: return assets to available
-  else if (input.status === "cancelled") {
-    if (oldRental.assets && oldRental.assets.length > 0) {
-      const oldAssetIds = (oldRental.assets as Array<{ assetId: mongoose.Types.ObjectId }>).map(
-        (a) => a.assetId
-      );
-      await RentalAsset.updateMany(
-        { _id: { $in: oldAssetIds } },
-        {
-          $set: {
-            status: "available",
-            currentRentalId: null,
-          },
-        }
-      );
-    }
-  }
-  // When activating rental: assets already set to rented during creation
-  else if (input.status === "active" && oldRental.status === "pending") {
-    // No action needed - assets already marked as rented
-  }
-
-  const rental = await Rental.findByIdAndUpdate(input.id, { $set: updateData }, { new: true })
-    .populate({
-      path: "assets.assetId",
-      select: "assetCode productId",
-      populate: { path: "productId", select: "name" },
-    })
-    .lean();
+    return { oldRental, rental: updated };
+  });
 
-  if (!rental) {
-    throw new TRPCError({
-      code: "NOT_FOUND",
-      message: "ไม่พบการเช่า",
-    });
+  // Bill the last (partial) month of a monthly rental on return
+  if (rental.status === "completed" && rental.billingCycle === "monthly") {
+    await generateRentalInvoices(rental._id.toString());
   }
 
   // Log activity
@@ -808,143 +1429,443 @@ export async function updateRentalStatus(
     changes
   );
 
-  return {
-    id: rental._id.toString(),
-    rentalNumber: rental.rentalNumber,
-    customerName: rental.customerName,
-    customerPhone: rental.customerPhone,
-    customerEmail: rental.customerEmail,
-    customerAddress: rental.customerAddress,
-    assets:
-      (
-        rental.assets as unknown as Array<{
-          assetId: PopulatedRentalAsset | mongoose.Types.ObjectId;
-          quantity: number;
-        }>
-      )?.map((item) => {
-        if (!isPopulatedAsset(item.assetId)) {
-          return {
-            id: extractAssetIdString(item.assetId),
-            assetCode: "",
-            productName: undefined,
-            quantity: item.quantity,
-          };
-        }
-        const asset = item.assetId;
-        return {
-          id: asset._id.toString(),
-          assetCode: asset.assetCode || "",
-          productName:
-            typeof asset.productId === "object" &&
-            asset.productId !== null &&
-            "_id" in asset.productId &&
-            "name" in asset.productId
-              ? asset.productId.name
-              : undefined,
-          quantity: item.quantity,
-        };
-      }) || [],
-    startDate: rental.startDate,
-    endDate: rental.endDate,
-    expectedReturnDate: rental.expectedReturnDate,
-    actualReturnDate: rental.actualReturnDate,
-    dailyRate: rental.dailyRate,
-    totalAmount: rental.totalAmount,
-    deposit: rental.deposit,
-    shippingCost: rental.shippingCost ?? 0,
-    penaltyRate: rental.penaltyRate,
-    penaltyAmount: rental.penaltyAmount || 0,
-    status: rental.status,
-    notes: rental.notes,
-    createdBy: rental.createdBy.toString(),
-    createdAt: rental.createdAt,
-    updatedAt: rental.updatedAt,
-  };
+  return toRentalDTO(rental);
 }
 
 /**
- * Get a single rental by ID
+ * Record a return of some of a rental's assets, in the caller's transaction
  *
- * @param input - Rental ID
- * @returns Rental DTO with populated assets
- * @throws TRPCError if rental not found
+ * Saves the returned lines, charges, and asset statuses. Pass the result to
+ * finishAssetReturn once the transaction commits.
+ *
+ * @param input - Rental ID, returned asset IDs, optional return date, condition, and inspections
+ * @param session - Transaction to read and write in
+ * @returns The rental before and after the return, and what was returned
+ * @throws TRPCError if rental not found, not active, or an asset is not out on this rental
  */
-export async function getRentalById(input: GetRentalByIdInput): Promise<RentalDTO> {
-  await connectToDatabase();
+export async function recordAssetReturn(input: ReturnRentalAssetsInput, session: ClientSession) {
+  const oldRental = await Rental.findById(input.id).session(session).lean();
+  if (!oldRental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
 
-  const rental = await Rental.findById(input.id)
+  if (oldRental.status !== "active") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "คืนทรัพย์สินได้เฉพาะการเช่าที่กำลังดำเนินการเท่านั้น",
+    });
+  }
+
+  const returnDate = input.returnDate || new Date();
+  if (returnDate < oldRental.startDate) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "วันที่คืนต้องไม่ก่อนวันที่เริ่มต้นการเช่า",
+    });
+  }
+
+  const outstandingIds = new Set(
+    oldRental.assets.filter((item) => !item.returnedAt).map((item) => item.assetId.toString())
+  );
+  const returnedIds = new Set(input.assetIds);
+  if ([...returnedIds].some((assetId) => !outstandingIds.has(assetId))) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ทรัพย์สินบางรายการไม่อยู่ในการเช่านี้หรือถูกคืนแล้ว",
+    });
+  }
+
+  const inspections = input.inspections || [];
+  if (inspections.some((inspection) => !returnedIds.has(inspection.assetId))) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "บันทึกผลตรวจสภาพได้เฉพาะทรัพย์สินที่คืนในครั้งนี้เท่านั้น",
+    });
+  }
+  const inspectionById = new Map(inspections.map((inspection) => [inspection.assetId, inspection]));
+
+  const penaltyRate = oldRental.penaltyRate || 1.5;
+  const returnedLines = await returnAssetLines(
+    oldRental,
+    returnedIds,
+    returnDate,
+    penaltyRate,
+    session,
+    input.condition
+  );
+  const assets = returnedLines.map((item) => {
+    const inspection = inspectionById.get(item.assetId.toString());
+    if (!inspection || item.inspection) {
+      return item;
+    }
+    return {
+      ...item,
+      inspection: {
+        condition: inspection.condition,
+        photoUrls: inspection.photoUrls,
+        note: inspection.note,
+      },
+    };
+  });
+
+  const charges = await buildInspectionCharges(inspections, oldRental.assets, session);
+
+  const updateData: Record<string, unknown> = {
+    assets,
+    totalAmount: assets.reduce((sum, item) => sum + item.lineTotal, 0),
+    penaltyAmount: assets.reduce((sum, item) => sum + (item.penaltyAmount || 0), 0),
+  };
+
+  // Complete the rental once every asset is back
+  const allReturned = assets.every((item) => item.returnedAt);
+  if (allReturned) {
+    updateData.status = "completed";
+    updateData.isOverdue = false;
+    updateData.actualReturnDate = new Date(
+      Math.max(...assets.map((item) => (item.returnedAt as Date).getTime()))
+    );
+  }
+
+  const updated = await Rental.findByIdAndUpdate(
+    input.id,
+    { $set: updateData, $push: { charges: { $each: charges } } },
+    { new: true, session }
+  )
     .populate({
       path: "assets.assetId",
       select: "assetCode productId",
-      populate: { path: "productId", select: "name insuranceFee replacementPrice" },
+      populate: { path: "productId", select: "name" },
     })
     .lean();
 
-  if (!rental) {
+  if (!updated) {
     throw new TRPCError({
       code: "NOT_FOUND",
       message: "ไม่พบการเช่า",
     });
   }
 
+  // Take dirty, damaged, and lost assets out of service
+  for (const [condition, status] of Object.entries(CONDITION_ASSET_STATUS)) {
+    const assetIds = inspections
+      .filter((inspection) => inspection.condition === condition)
+      .map((inspection) => new mongoose.Types.ObjectId(inspection.assetId));
+    if (status && assetIds.length > 0) {
+      await RentalAsset.updateMany(
+        { _id: { $in: assetIds } },
+        { $set: { status }, $unset: { currentRentalId: 1 } },
+        { session }
+      );
+    }
+  }
+
+  // Release the remaining returned assets
+  await syncAssetStatuses([...returnedIds], session);
+
+  return { oldRental, rental: updated, returnDate, returnedIds, inspections, charges };
+}
+
+/**
+ * Return recorded by recordAssetReturn
+ */
+export type AssetReturn = Awaited<ReturnType<typeof recordAssetReturn>>;
+
+/**
+ * Bill and log a committed asset return
+ *
+ * @param userId - ID of user recording the return
+ * @param input - Input the return was recorded with
+ * @param assetReturn - Result of recordAssetReturn
+ * @returns Updated rental DTO
+ */
+export async function finishAssetReturn(
+  userId: string,
+  input: ReturnRentalAssetsInput,
+  assetReturn: AssetReturn
+): Promise<RentalDTO> {
+  const { oldRental, rental, returnDate, returnedIds, inspections, charges } = assetReturn;
+
+  // Bill the last (partial) month of a monthly rental on return
+  if (rental.status === "completed" && rental.billingCycle === "monthly") {
+    await generateRentalInvoices(rental._id.toString());
+  }
+
+  // Log activity
+  const changes: { old?: Record<string, unknown>; new?: Record<string, unknown> } = {
+    old: { status: oldRental.status },
+    new: {
+      status: rental.status,
+      returnedAssetIds: [...returnedIds],
+      returnDate,
+      ...(input.condition && { condition: input.condition }),
+      ...(inspections.length > 0 && {
+        inspections: inspections.map(({ assetId, condition }) => ({ assetId, condition })),
+      }),
+      ...(charges.length > 0 && {
+        chargesAmount: charges.reduce((sum, charge) => sum + charge.amount, 0),
+      }),
+    },
+  };
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName}`,
+    changes
+  );
+
+  return toRentalDTO(rental);
+}
+
+/**
+ * Return some of a rental's assets
+ *
+ * Records the return date (and optional condition) on each listed asset line,
+ * calculates the overdue penalty for those lines from their own return date,
+ * and releases only those assets. When the last asset is back, the rental is
+ * completed with actualReturnDate set to the latest return date.
+ *
+ * Optional check-in inspections record each asset's condition and photos.
+ * Dirty assets go to "maintenance", damaged and lost assets to "damaged", and
+ * damage/loss charges are added to the rental.
+ *
+ * @param userId - ID of user recording the return
+ * @param input - Rental ID, returned asset IDs, optional return date, condition, and inspections
+ * @returns Updated rental DTO
+ * @throws TRPCError if rental not found, not active, or an asset is not out on this rental
+ */
+export async function returnRentalAssets(
+  userId: string,
+  input: ReturnRentalAssetsInput
+): Promise<RentalDTO> {
+  await connectToDatabase();
+
+  // Record the return and release the assets together
+  const assetReturn = await withTransaction((session) => recordAssetReturn(input, session));
+  return finishAssetReturn(userId, input, assetReturn);
+}
+
+/**
+ * Extend a rental's end date
+ *
+ * Checks that the assets still out on the rental are not booked by another
+ * rental in the extended window, re-prices those assets for the new period,
+ * recalculates the penalty against the new end date, and appends the
+ * extension to the rental's history. The check and the update run in one
+ * transaction, and the update only applies if the rental's status and end
+ * date are still the ones that were checked.
+ *
+ * @param userId - ID of user extending the rental
+ * @param input - Rental ID, new end date, optional reason
+ * @returns Updated rental DTO
+ * @throws TRPCError if rental not found, not pending/active, assets are booked,
+ * or the rental changed during the extension
+ */
+export async function extendRental(userId: string, input: ExtendRentalInput): Promise<RentalDTO> {
+  await connectToDatabase();
+
+  // Check the booking and save the new period together
+  const { oldRental, rental, extension } = await withTransaction(async (session) => {
+    const oldRental = await Rental.findById(input.id).session(session).lean();
+    if (!oldRental) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "ไม่พบการเช่า",
+      });
+    }
+
+    if (oldRental.status !== "pending" && oldRental.status !== "active") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "ขยายเวลาได้เฉพาะการเช่าที่รอดำเนินการหรือกำลังดำเนินการเท่านั้น",
+      });
+    }
+
+    if (input.newEndDate <= oldRental.endDate) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "วันที่สิ้นสุดใหม่ต้องมากกว่าวันที่สิ้นสุดเดิม",
+      });
+    }
+
+    // Only assets still with the customer need to be free for the extra days
+    const outstandingAssetIds = oldRental.assets
+      .filter((item) => !item.returnedAt)
+      .map((item) => item.assetId);
+    await assertAssetsBookable(
+      outstandingAssetIds,
+      oldRental.endDate,
+      input.newEndDate,
+      input.id,
+      session
+    );
+
+    // Re-price the lines still out for the longer period, each from the day it
+    // went out; returned lines keep their price
+    const priced = await priceLinesUntil(
+      oldRental,
+      oldRental.assets.filter((item) => !item.returnedAt),
+      input.newEndDate,
+      session
+    );
+    const assets = oldRental.assets.map((item) => {
+      const line = priced.get(item.assetId.toString());
+      if (item.returnedAt || !line) {
+        return item;
+      }
+      return { ...item, pricing: line.pricing, lineTotal: line.lineTotal };
+    });
+    const totalAmount = assets.reduce((sum, item) => sum + item.lineTotal, 0);
+    const previousTotal = oldRental.totalAmount;
+    const setFields: Record<string, unknown> = { endDate: input.newEndDate, assets };
+    setFields.totalAmount = totalAmount;
+
+    // Extending past today ends the overdue period flagged by the penalty job
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const clearsOverdue = oldRental.isOverdue && input.newEndDate >= startOfToday;
+    if (clearsOverdue) {
+      setFields.isOverdue = false;
+    }
+
+    // Lines still out now owe a penalty only past the new end date
+    setFields.penaltyAmount = calculateCurrentPenalty({
+      ...oldRental,
+      endDate: input.newEndDate,
+      assets,
+    });
+
+    const extension = {
+      previousEndDate: oldRental.endDate,
+      newEndDate: input.newEndDate,
+      amount: Math.max(0, totalAmount - previousTotal),
+      reason: input.reason,
+      extendedBy: new mongoose.Types.ObjectId(userId),
+      extendedAt: new Date(),
+    };
+
+    // Only apply the extension if no one else changed the status or period in the meantime
+    const updated = await Rental.findOneAndUpdate(
+      { _id: input.id, status: oldRental.status, endDate: oldRental.endDate },
+      {
+        $set: setFields,
+        $push: { extensions: extension },
+        ...(clearsOverdue && { $unset: { overdueSince: 1 } }),
+      },
+      { new: true, session }
+    )
+      .populate({
+        path: "assets.assetId",
+        select: "assetCode productId",
+        populate: { path: "productId", select: "name" },
+      })
+      .lean();
+
+    if (!updated) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "การเช่าถูกเปลี่ยนแปลงระหว่างดำเนินการ กรุณาลองใหม่อีกครั้ง",
+      });
+    }
+
+    return { oldRental, rental: updated, extension };
+  });
+
+  // Log activity
+  const changes: { old?: Record<string, unknown>; new?: Record<string, unknown> } = {
+    old: { endDate: oldRental.endDate, totalAmount: oldRental.totalAmount },
+    new: {
+      endDate: rental.endDate,
+      totalAmount: rental.totalAmount,
+      extensionAmount: extension.amount,
+      ...(input.reason && { reason: input.reason }),
+    },
+  };
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName} (ขยายเวลา)`,
+    changes
+  );
+
+  return toRentalDTO(rental);
+}
+
+/**
+ * Get a single rental by ID
+ *
+ * @param input - Rental ID
+ * @returns Rental DTO with populated assets
+ * @throws TRPCError if rental not found
+ */
+export async function getRentalById(input: GetRentalByIdInput): Promise<RentalDTO> {
+  await connectToDatabase();
+
+  const rental = await Rental.findById(input.id)
+    .populate({
+      path: "assets.assetId",
+      select: "assetCode productId",
+      populate: { path: "productId", select: "name insuranceFee replacementPrice" },
+    })
+    .lean();
+
+  if (!rental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  return toRentalDTO(rental);
+}
+
+/**
+ * Find a rental by its rental number, with the penalty accrued up to today
+ *
+ * @param rentalNumber - Rental number
+ * @returns Rental DTO, or null if no rental has the number
+ */
+export async function findRentalByNumber(rentalNumber: string): Promise<RentalDTO | null> {
+  await connectToDatabase();
+
+  const rental = await Rental.findOne({ rentalNumber })
+    .populate({
+      path: "assets.assetId",
+      select: "assetCode productId",
+      populate: { path: "productId", select: "name insuranceFee replacementPrice" },
+    })
+    .lean();
+
+  return rental ? toRentalDTO(rental, calculateCurrentPenalty(rental)) : null;
+}
+
+/**
+ * Price a set of assets for a rental period without saving anything
+ *
+ * Uses the same pricing as createRental so the form can preview the total.
+ *
+ * @param input - Assets with quantities and the rental period
+ * @returns Per-line price breakdown, total amount, and combined daily rate
+ * @throws TRPCError if an asset does not exist
+ */
+export async function quoteRentalPrice(input: QuoteRentalPriceInput): Promise<RentalPriceQuoteDTO> {
+  const pricing = await priceRentalLines(input.assets, input.startDate, input.endDate);
+
   return {
-    id: rental._id.toString(),
-    rentalNumber: rental.rentalNumber,
-    customerName: rental.customerName,
-    customerPhone: rental.customerPhone,
-    customerEmail: rental.customerEmail,
-    customerAddress: rental.customerAddress,
-    assets:
-      (
-        rental.assets as unknown as Array<{
-          assetId: PopulatedRentalAsset | mongoose.Types.ObjectId;
-          quantity: number;
-        }>
-      )?.map((item) => {
-        if (!isPopulatedAsset(item.assetId)) {
-          return {
-            id: extractAssetIdString(item.assetId),
-            assetCode: "",
-            productName: undefined,
-            quantity: item.quantity,
-            insuranceFee: undefined,
-            replacementPrice: undefined,
-          };
-        }
-        const asset = item.assetId;
-        const product = asset.productId;
-        const isPopulatedProduct =
-          typeof product === "object" && product !== null && "_id" in product && "name" in product;
-        return {
-          id: asset._id.toString(),
-          assetCode: asset.assetCode || "",
-          productName: isPopulatedProduct ? product.name : undefined,
-          insuranceFee:
-            isPopulatedProduct && "insuranceFee" in product
-              ? (product.insuranceFee as number | undefined)
-              : undefined,
-          replacementPrice:
-            isPopulatedProduct && "replacementPrice" in product
-              ? (product.replacementPrice as number | undefined)
-              : undefined,
-          quantity: item.quantity,
-        };
-      }) || [],
-    startDate: rental.startDate,
-    endDate: rental.endDate,
-    expectedReturnDate: rental.expectedReturnDate,
-    actualReturnDate: rental.actualReturnDate,
-    dailyRate: rental.dailyRate,
-    totalAmount: rental.totalAmount,
-    deposit: rental.deposit,
-    shippingCost: rental.shippingCost ?? 0,
-    penaltyRate: rental.penaltyRate,
-    penaltyAmount: rental.penaltyAmount || 0,
-    status: rental.status,
-    notes: rental.notes,
-    createdBy: rental.createdBy.toString(),
-    createdAt: rental.createdAt,
-    updatedAt: rental.updatedAt,
+    lines: pricing.lines.map((line) => ({
+      ...line,
+      assetId: line.assetId.toString(),
+    })),
+    totalAmount: pricing.totalAmount,
+    dailyRate: pricing.dailyRate,
   };
 }
 
@@ -952,7 +1873,7 @@ export async function getRentalById(input: GetRentalByIdInput): Promise<RentalDT
  * List rentals with filtering, pagination, and search
  *
  * Features:
- * - Filter by status, customer email, date range
+ * - Filter by status, customer email, date range, outstanding balance
  * - Search by rental number, customer name, email, or phone
  * - Pagination support
  * - Dynamic penalty calculation for overdue active rentals
@@ -993,6 +1914,13 @@ export async function listRentals(
     query.$or = orConditions;
   }
 
+  // Filter by outstanding balance (uses the penalty stored by the overdue job)
+  if (input.hasOutstanding !== undefined) {
+    query.$expr = {
+      [input.hasOutstanding ? "$gt" : "$lte"]: [AMOUNT_DUE_EXPRESSION, AMOUNT_COVERED_EXPRESSION],
+    };
+  }
+
   // ========================================================================
   // Execute Query with Pagination
   // ========================================================================
@@ -1032,84 +1960,7 @@ export async function listRentals(
   // ========================================================================
 
   return {
-    rentals: rentals.map((rental) => {
-      // Start with stored penalty amount (for completed rentals)
-      let penaltyAmount = rental.penaltyAmount || 0;
-
-      // Calculate penalty dynamically for active rentals that are overdue
-      if (rental.status === "active") {
-        const today = new Date();
-        const endDate = new Date(rental.endDate);
-
-        // Normalize times to midnight for accurate date comparison
-        today.setHours(0, 0, 0, 0);
-        endDate.setHours(0, 0, 0, 0);
-
-        // Calculate penalty if rental is overdue
-        if (today > endDate) {
-          const penaltyRate = rental.penaltyRate || 1.5;
-          penaltyAmount = calculatePenalty(
-            new Date(rental.endDate),
-            today,
-            rental.dailyRate,
-            penaltyRate
-          );
-        }
-      }
-
-      return {
-        id: rental._id.toString(),
-        rentalNumber: rental.rentalNumber,
-        customerName: rental.customerName,
-        customerPhone: rental.customerPhone,
-        customerEmail: rental.customerEmail,
-        customerAddress: rental.customerAddress,
-        assets:
-          (
-            rental.assets as unknown as Array<{
-              assetId: PopulatedRentalAsset | mongoose.Types.ObjectId;
-              quantity: number;
-            }>
-          )?.map((item) => {
-            if (!isPopulatedAsset(item.assetId)) {
-              return {
-                id: extractAssetIdString(item.assetId),
-                assetCode: "",
-                productName: undefined,
-                quantity: item.quantity || 1,
-              };
-            }
-            const asset = item.assetId;
-            return {
-              id: asset._id.toString(),
-              assetCode: asset.assetCode || "",
-              productName:
-                typeof asset.productId === "object" &&
-                asset.productId !== null &&
-                "_id" in asset.productId &&
-                "name" in asset.productId
-                  ? asset.productId.name
-                  : undefined,
-              quantity: item.quantity || 1,
-            };
-          }) || [],
-        startDate: rental.startDate,
-        endDate: rental.endDate,
-        expectedReturnDate: rental.expectedReturnDate,
-        actualReturnDate: rental.actualReturnDate,
-        dailyRate: rental.dailyRate,
-        totalAmount: rental.totalAmount,
-        deposit: rental.deposit,
-        shippingCost: rental.shippingCost ?? 0,
-        penaltyRate: rental.penaltyRate,
-        penaltyAmount: penaltyAmount,
-        status: rental.status,
-        notes: rental.notes,
-        createdBy: rental.createdBy.toString(),
-        createdAt: rental.createdAt,
-        updatedAt: rental.updatedAt,
-      };
-    }),
+    rentals: rentals.map((rental) => toRentalDTO(rental, calculateCurrentPenalty(rental))),
     total: input.search ? rentals.length : total,
   };
 }
@@ -1117,73 +1968,66 @@ export async function listRentals(
 /**
  * Cancel a rental
  *
- * Returns all assets to available status and updates rental status to "cancelled".
+ * Updates rental status to "cancelled" and releases the booking on its assets.
+ * Only pending rentals can be cancelled (see RENTAL_STATUS_TRANSITIONS).
  * Optionally stores cancellation reason in notes.
  *
  * @param userId - ID of user cancelling the rental
  * @param input - Cancellation data (id, optional reason)
  * @returns Updated rental DTO
- * @throws TRPCError if rental not found or already cancelled
+ * @throws TRPCError if rental not found or its status cannot be cancelled
  */
 export async function cancelRental(userId: string, input: CancelRentalInput): Promise<RentalDTO> {
   await connectToDatabase();
 
-  const rental = await Rental.findById(input.id).lean();
-  if (!rental) {
-    throw new TRPCError({
-      code: "NOT_FOUND",
-      message: "ไม่พบการเช่า",
-    });
-  }
+  // Cancel the rental and release its booking together
+  const { rental, updatedRental } = await withTransaction(async (session) => {
+    const rental = await Rental.findById(input.id).session(session).lean();
+    if (!rental) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "ไม่พบการเช่า",
+      });
+    }
 
-  if (rental.status === "cancelled") {
-    throw new TRPCError({
-      code: "BAD_REQUEST",
-      message: "การเช่านี้ถูกยกเลิกแล้ว",
-    });
-  }
+    assertStatusTransition(rental.status, "cancelled");
 
-  // Return assets to available
-  if (rental.assets && rental.assets.length > 0) {
-    const assetIds = (
-      rental.assets as Array<{ assetId: mongoose.Types.ObjectId; quantity: number }>
-    ).map((a) => a.assetId);
-    await RentalAsset.updateMany(
-      { _id: { $in: assetIds } },
-      {
-        $set: {
-          status: "available",
-          currentRentalId: null,
-        },
-      }
-    );
-  }
+    const updateData: Record<string, unknown> = {
+      status: "cancelled",
+    };
+    if (input.reason) {
+      updateData.notes = input.reason;
+    }
 
-  const updateData: Record<string, unknown> = {
-    status: "cancelled",
-  };
-  if (input.reason) {
-    updateData.notes = input.reason;
-  }
+    const updatedRental = await Rental.findByIdAndUpdate(
+      input.id,
+      { $set: updateData },
+      { new: true, session }
+    )
+      .populate({
+        path: "assets.assetId",
+        select: "assetCode productId",
+        populate: { path: "productId", select: "name" },
+      })
+      .lean();
+
+    if (!updatedRental) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "ไม่พบการเช่า",
+      });
+    }
 
-  const updatedRental = await Rental.findByIdAndUpdate(
-    input.id,
-    { $set: updateData },
-    { new: true }
-  )
-    .populate({
-      path: "assets.assetId",
-      select: "assetCode productId",
-      populate: { path: "productId", select: "name" },
-    })
-    .lean();
+    // Release the booking (assets become available, or reserved by later rentals)
+    await syncAssetStatuses(
+      (rental.assets as Array<{ assetId: mongoose.Types.ObjectId; quantity: number }>).map(
+        (a) => a.assetId
+      ),
+      session
+    );
 
-  if (!updatedRental) {
-    throw new TRPCError({
-      code: "NOT_FOUND",
-      message: "ไม่พบการเช่า",
-    });
-  }
+    return { rental, updatedRental };
+  });
 
   // Log activity
   const changes: { old?: Record<string, unknown>; new?: Record<string, unknown> } = {
@@ -1203,58 +2047,7 @@ export async function cancelRental(userId: string, input: CancelRentalInput): Pr
     changes
   );
 
-  return {
-    id: updatedRental._id.toString(),
-    rentalNumber: updatedRental.rentalNumber,
-    customerName: updatedRental.customerName,
-    customerPhone: updatedRental.customerPhone,
-    customerEmail: updatedRental.customerEmail,
-    customerAddress: updatedRental.customerAddress,
-    assets:
-      (
-        updatedRental.assets as unknown as Array<{
-          assetId: PopulatedRentalAsset | mongoose.Types.ObjectId;
-          quantity?: number;
-        }>
-      )?.map((item) => {
-        if (!isPopulatedAsset(item.assetId)) {
-          return {
-            id: extractAssetIdString(item.assetId),
-            assetCode: "",
-            productName: undefined,
-            quantity: item.quantity || 1,
-          };
-        }
-        const asset = item.assetId;
-        return {
-          id: asset._id.toString(),
-          assetCode: asset.assetCode || "",
-          productName:
-            typeof asset.productId === "object" &&
-            asset.productId !== null &&
-            "_id" in asset.productId &&
-            "name" in asset.productId
-              ? asset.productId.name
-              : undefined,
-          quantity: item.quantity || 1,
-        };
-      }) || [],
-    startDate: updatedRental.startDate,
-    endDate: updatedRental.endDate,
-    expectedReturnDate: updatedRental.expectedReturnDate,
-    actualReturnDate: updatedRental.actualReturnDate,
-    dailyRate: updatedRental.dailyRate,
-    totalAmount: updatedRental.totalAmount,
-    deposit: updatedRental.deposit,
-    shippingCost: updatedRental.shippingCost ?? 0,
-    penaltyRate: updatedRental.penaltyRate,
-    penaltyAmount: updatedRental.penaltyAmount || 0,
-    status: updatedRental.status,
-    notes: updatedRental.notes,
-    createdBy: updatedRental.createdBy.toString(),
-    createdAt: updatedRental.createdAt,
-    updatedAt: updatedRental.updatedAt,
-  };
+  return toRentalDTO(updatedRental);
 }
 
 /**
@@ -1269,3 +2062,688 @@ export async function cancelRental(userId: string, input: CancelRentalInput): Pr
 export async function completeRental(rentalId: string, userId: string): Promise<RentalDTO> {
   return updateRentalStatus(userId, { id: rentalId, status: "completed" });
 }
+
+// ============================================================================
+// Asset Changes
+// ============================================================================
+
+/**
+ * Check the date of an asset change on an active rental
+ *
+ * @throws TRPCError if the date is before the rental started or in the future
+ */
+function assertAssetChangeDate(rental: Pick<IRental, "startDate">, date: Date): void {
+  if (date < rental.startDate) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "วันที่เปลี่ยนแปลงต้องไม่ก่อนวันที่เริ่มต้นการเช่า",
+    });
+  }
+  if (date > new Date()) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "วันที่เปลี่ยนแปลงต้องไม่เป็นวันในอนาคต",
+    });
+  }
+}
+
+/**
+ * Swap an asset on an active rental for another unit
+ *
+ * Closes the outgoing asset's line on the swap date, charging it only for the
+ * days it was out, and adds a line for the replacement charged from the swap
+ * date to the end date (its full-period price prorated by days). The outgoing
+ * asset goes to "maintenance" or back into stock; the replacement is marked
+ * "rented" on this rental.
+ *
+ * @param userId - ID of user recording the swap
+ * @param input - Rental ID, outgoing and replacement asset IDs, date, reason, outgoing status
+ * @returns Updated rental DTO
+ * @throws TRPCError if rental not found or not active, the outgoing asset is not out
+ * on this rental, or the replacement is out of service or booked
+ */
+export async function swapRentalAsset(
+  userId: string,
+  input: SwapRentalAssetInput
+): Promise<RentalDTO> {
+  await connectToDatabase();
+
+  // Record the swap and update both assets together
+  const { oldRental, rental, swapDate } = await withTransaction(async (session) => {
+    const oldRental = await Rental.findById(input.id).session(session).lean();
+    if (!oldRental) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "ไม่พบการเช่า",
+      });
+    }
+
+    if (oldRental.status !== "active") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "เปลี่ยนทรัพย์สินได้เฉพาะการเช่าที่กำลังดำเนินการเท่านั้น",
+      });
+    }
+
+    const outgoing = oldRental.assets.find(
+      (item) => !item.returnedAt && item.assetId.toString() === input.fromAssetId
+    );
+    if (!outgoing) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "ทรัพย์สินที่ต้องการเปลี่ยนไม่อยู่ในการเช่านี้หรือถูกคืนแล้ว",
+      });
+    }
+    if (
+      oldRental.assets.some(
+        (item) => !item.returnedAt && item.assetId.toString() === input.toAssetId
+      )
+    ) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "ทรัพย์สินที่นำมาเปลี่ยนอยู่ในการเช่านี้แล้ว",
+      });
+    }
+
+    const swapDate = input.date || new Date();
+    assertAssetChangeDate(oldRental, swapDate);
+    const outgoingSince = outgoing.addedAt || oldRental.startDate;
+    if (swapDate < outgoingSince) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "วันที่เปลี่ยนต้องไม่ก่อนวันที่ทรัพย์สินถูกส่งมอบ",
+      });
+    }
+
+    // The replacement must be free from the swap date until the rental ends
+    const bookingEnd = swapDate > oldRental.endDate ? swapDate : oldRental.endDate;
+    await assertAssetsBookable([input.toAssetId], swapDate, bookingEnd, input.id, session);
+
+    // Charge the outgoing unit for its days out; the replacement for the rest
+    const periodDays = calculateRentalDays(oldRental.startDate, oldRental.endDate);
+    const pricing = await priceRentalLines(
+      [{ assetId: input.toAssetId, quantity: outgoing.quantity }],
+      oldRental.startDate,
+      oldRental.endDate,
+      session
+    );
+    const [priced] = pricing.lines;
+    const replacement: IRentalAssetItem = {
+      ...priced,
+      lineTotal: prorateAmount(
+        priced.lineTotal,
+        calculateRentalDays(swapDate, oldRental.endDate),
+        periodDays
+      ),
+      addedAt: swapDate,
+      replacesAssetId: outgoing.assetId,
+      swapReason: input.reason,
+    };
+
+    const penaltyRate = oldRental.penaltyRate || 1.5;
+    const assets = [
+      ...oldRental.assets.map((item) =>
+        item === outgoing
+          ? {
+              ...item,
+              returnedAt: swapDate,
+              lineTotal: prorateAmount(
+                item.lineTotal,
+                calculateRentalDays(outgoingSince, swapDate),
+                calculateRentalDays(outgoingSince, oldRental.endDate)
+              ),
+              penaltyAmount:
+                oldRental.billingCycle === "monthly"
+                  ? 0
+                  : calculatePenalty(oldRental.endDate, swapDate, item, penaltyRate),
+              replacedByAssetId: priced.assetId,
+              swapReason: input.reason,
+            }
+          : item
+      ),
+      replacement,
+    ];
+
+    const updated = await Rental.findOneAndUpdate(
+      { _id: input.id, status: "active" },
+      {
+        $set: {
+          assets,
+          totalAmount: assets.reduce((sum, item) => sum + item.lineTotal, 0),
+          dailyRate:
+            oldRental.dailyRate - outgoing.dailyRate * outgoing.quantity + pricing.dailyRate,
+          penaltyAmount: assets.reduce((sum, item) => sum + (item.penaltyAmount || 0), 0),
+        },
+      },
+      { new: true, session }
+    )
+      .populate({
+        path: "assets.assetId",
+        select: "assetCode productId",
+        populate: { path: "productId", select: "name" },
+      })
+      .lean();
+
+    if (!updated) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "สถานะการเช่าถูกเปลี่ยนแปลงระหว่างดำเนินการ กรุณาลองใหม่อีกครั้ง",
+      });
+    }
+
+    // Send the outgoing unit for repair, or release it back into stock
+    if (input.outgoingStatus === "maintenance") {
+      await RentalAsset.updateOne(
+        { _id: outgoing.assetId },
+        { $set: { status: "maintenance" }, $unset: { currentRentalId: 1 } },
+        { session }
+      );
+      await syncAssetStatuses([input.toAssetId], session);
+    } else {
+      await syncAssetStatuses([input.fromAssetId, input.toAssetId], session);
+    }
+
+    return { oldRental, rental: updated, swapDate };
+  });
+
+  // Log activity
+  const changes: { old?: Record<string, unknown>; new?: Record<string, unknown> } = {
+    old: { assetId: input.fromAssetId, totalAmount: oldRental.totalAmount },
+    new: {
+      assetId: input.toAssetId,
+      totalAmount: rental.totalAmount,
+      swapDate,
+      reason: input.reason,
+      outgoingStatus: input.outgoingStatus,
+    },
+  };
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName} (เปลี่ยนทรัพย์สิน)`,
+    changes
+  );
+
+  return toRentalDTO(rental, calculateCurrentPenalty(rental));
+}
+
+/**
+ * Add assets to an active rental
+ *
+ * Each added asset is priced for the whole rental period and charged for the
+ * days from the date it went out to the end date. The assets are marked
+ * "rented" on this rental.
+ *
+ * @param userId - ID of user adding the assets
+ * @param input - Rental ID, asset lines, optional date the assets went out
+ * @returns Updated rental DTO
+ * @throws TRPCError if rental not found or not active, or an asset is already
+ * on the rental, out of service, or booked
+ */
+export async function addRentalAssets(
+  userId: string,
+  input: AddRentalAssetsInput
+): Promise<RentalDTO> {
+  await connectToDatabase();
+
+  // Add the lines and book the assets together
+  const { oldRental, rental, addedIds, addedDate, addedAmount } = await withTransaction(
+    async (session) => {
+      const oldRental = await Rental.findById(input.id).session(session).lean();
+      if (!oldRental) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "ไม่พบการเช่า",
+        });
+      }
+
+      if (oldRental.status !== "active") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "เพิ่มทรัพย์สินได้เฉพาะการเช่าที่กำลังดำเนินการเท่านั้น",
+        });
+      }
+
+      const addedDate = input.date || new Date();
+      assertAssetChangeDate(oldRental, addedDate);
+
+      const addedIds = input.assets.map((line) => line.assetId);
+      const outstandingIds = new Set(
+        oldRental.assets.filter((item) => !item.returnedAt).map((item) => item.assetId.toString())
+      );
+      if (
+        new Set(addedIds).size !== addedIds.length ||
+        addedIds.some((assetId) => outstandingIds.has(assetId))
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "ทรัพย์สินบางรายการอยู่ในการเช่านี้แล้ว",
+        });
+      }
+
+      const bookingEnd = addedDate > oldRental.endDate ? addedDate : oldRental.endDate;
+      await assertAssetsBookable(addedIds, addedDate, bookingEnd, input.id, session);
+
+      const periodDays = calculateRentalDays(oldRental.startDate, oldRental.endDate);
+      const daysOut = calculateRentalDays(addedDate, oldRental.endDate);
+      const pricing = await priceRentalLines(
+        input.assets,
+        oldRental.startDate,
+        oldRental.endDate,
+        session
+      );
+      const addedLines: IRentalAssetItem[] = pricing.lines.map((line) => ({
+        ...line,
+        lineTotal: prorateAmount(line.lineTotal, daysOut, periodDays),
+        addedAt: addedDate,
+      }));
+      const addedAmount = addedLines.reduce((sum, item) => sum + item.lineTotal, 0);
+
+      const updated = await Rental.findOneAndUpdate(
+        { _id: input.id, status: "active" },
+        {
+          $push: { assets: { $each: addedLines } },
+          $inc: { totalAmount: addedAmount, dailyRate: pricing.dailyRate },
+        },
+        { new: true, session }
+      )
+        .populate({
+          path: "assets.assetId",
+          select: "assetCode productId",
+          populate: { path: "productId", select: "name" },
+        })
+        .lean();
+
+      if (!updated) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "สถานะการเช่าถูกเปลี่ยนแปลงระหว่างดำเนินการ กรุณาลองใหม่อีกครั้ง",
+        });
+      }
+
+      await syncAssetStatuses(addedIds, session);
+
+      return { oldRental, rental: updated, addedIds, addedDate, addedAmount };
+    }
+  );
+
+  // Log activity
+  const changes: { old?: Record<string, unknown>; new?: Record<string, unknown> } = {
+    old: { totalAmount: oldRental.totalAmount },
+    new: {
+      totalAmount: rental.totalAmount,
+      addedAssetIds: addedIds,
+      addedDate,
+      addedAmount,
+    },
+  };
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName} (เพิ่มทรัพย์สิน)`,
+    changes
+  );
+
+  return toRentalDTO(rental, calculateCurrentPenalty(rental));
+}
+
+// ============================================================================
+// Payments
+// ============================================================================
+
+/**
+ * Record a payment received for a rental
+ *
+ * Appends the payment to the rental's ledger and adds it to paidAmount. A
+ * payment cannot be larger than the outstanding balance (including the
+ * penalty accrued so far).
+ *
+ * @param userId - ID of user receiving the payment
+ * @param input - Rental ID, amount, method, optional date, reference, and note
+ * @returns Updated rental DTO
+ * @throws TRPCError if rental not found, the amount exceeds the outstanding
+ * balance, or another payment was recorded at the same time
+ */
+export async function recordRentalPayment(
+  userId: string,
+  input: RecordRentalPaymentInput
+): Promise<RentalDTO> {
+  await connectToDatabase();
+
+  const oldRental = await Rental.findById(input.id).lean();
+  if (!oldRental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  const outstandingBalance = calculateOutstandingBalance(
+    oldRental,
+    calculateCurrentPenalty(oldRental)
+  );
+  if (input.amount > outstandingBalance) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "จำนวนเงินที่ชำระเกินยอดค้างชำระ",
+    });
+  }
+
+  const payment = {
+    amount: input.amount,
+    method: input.method,
+    paidAt: input.paidAt || new Date(),
+    reference: input.reference,
+    note: input.note,
+    receivedBy: new mongoose.Types.ObjectId(userId),
+  };
+
+  // Only apply if no other payment landed in between, so the balance check still holds
+  const rental = await Rental.findOneAndUpdate(
+    { _id: oldRental._id, paidAmount: oldRental.paidAmount },
+    { $push: { payments: payment }, $inc: { paidAmount: input.amount } },
+    { new: true }
+  )
+    .populate({
+      path: "assets.assetId",
+      select: "assetCode productId",
+      populate: { path: "productId", select: "name" },
+    })
+    .lean();
+
+  if (!rental) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "มีการบันทึกการชำระเงินของการเช่านี้พร้อมกัน กรุณาลองใหม่",
+    });
+  }
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName}`,
+    {
+      old: { paidAmount: oldRental.paidAmount || 0 },
+      new: {
+        paidAmount: rental.paidAmount,
+        payment: {
+          amount: payment.amount,
+          method: payment.method,
+          ...(payment.reference && { reference: payment.reference }),
+        },
+      },
+    }
+  );
+
+  return toRentalDTO(rental, calculateCurrentPenalty(rental));
+}
+
+// ============================================================================
+// Deposit Settlement
+// ============================================================================
+
+/**
+ * Settle a rental's deposit
+ *
+ * Nets the deposit against what the customer still owes: the rental's
+ * outstanding balance, split into unpaid rent, penalty, and damage/loss
+ * charges (payments count towards rent first). The rest of the deposit
+ * becomes refundable and can be paid back in one or more refunds; deductions
+ * beyond the deposit are recorded as balance due. Optionally records a first
+ * refund in the same step.
+ *
+ * @param userId - ID of user settling the deposit
+ * @param input - Rental ID, optional note and first refund
+ * @returns Updated rental DTO
+ * @throws TRPCError if rental not found, not finished, already settled, or
+ * paid or settled by someone else at the same time
+ */
+export async function settleDeposit(userId: string, input: SettleDepositInput): Promise<RentalDTO> {
+  await connectToDatabase();
+
+  const oldRental = await Rental.findById(input.id).lean();
+  if (!oldRental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  if (oldRental.status !== "completed" && oldRental.status !== "cancelled") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "สรุปเงินมัดจำได้เฉพาะการเช่าที่เสร็จสิ้นหรือยกเลิกแล้วเท่านั้น",
+    });
+  }
+
+  if (oldRental.depositSettlement) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "สรุปเงินมัดจำของการเช่านี้แล้ว",
+    });
+  }
+
+  // Split what is still owed: anything beyond the penalty and charges is
+  // unpaid rent, and the penalty is taken to be paid off last
+  const depositAmount = oldRental.deposit || 0;
+  const totalPenalty = oldRental.penaltyAmount || 0;
+  const totalCharges = (oldRental.charges || []).reduce((sum, charge) => sum + charge.amount, 0);
+  const totalDeductions = calculateOutstandingBalance(oldRental, totalPenalty);
+  const unpaidRentAmount = Math.max(0, totalDeductions - totalPenalty - totalCharges);
+  const penaltyAmount = Math.min(totalPenalty, totalDeductions - unpaidRentAmount);
+  const chargesAmount = totalDeductions - unpaidRentAmount - penaltyAmount;
+  const deductedAmount = Math.min(depositAmount, totalDeductions);
+
+  const settlement: IDepositSettlement = {
+    depositAmount,
+    penaltyAmount,
+    chargesAmount,
+    unpaidRentAmount,
+    deductedAmount,
+    refundableAmount: depositAmount - deductedAmount,
+    balanceDue: totalDeductions - deductedAmount,
+    refunds: [],
+    note: input.note,
+    settledAt: new Date(),
+    settledBy: new mongoose.Types.ObjectId(userId),
+  };
+
+  if (input.refund) {
+    if (input.refund.amount > settlement.refundableAmount) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "จำนวนเงินคืนเกินยอดเงินมัดจำที่ต้องคืน",
+      });
+    }
+    settlement.refunds.push({
+      amount: input.refund.amount,
+      method: input.refund.method,
+      refundedAt: input.refund.refundedAt || new Date(),
+      note: input.refund.note,
+      refundedBy: new mongoose.Types.ObjectId(userId),
+    });
+  }
+
+  // Only settle if no payment or other settlement landed in between, so the
+  // deductions match the balance they were worked out from
+  const rental = await Rental.findOneAndUpdate(
+    {
+      _id: oldRental._id,
+      paidAmount: oldRental.paidAmount,
+      depositSettlement: { $exists: false },
+    },
+    { $set: { depositSettlement: settlement } },
+    { new: true }
+  )
+    .populate({
+      path: "assets.assetId",
+      select: "assetCode productId",
+      populate: { path: "productId", select: "name" },
+    })
+    .lean();
+
+  if (!rental) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "การเช่านี้มีการชำระเงินหรือสรุปเงินมัดจำพร้อมกัน กรุณาลองใหม่",
+    });
+  }
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName} (สรุปเงินมัดจำ)`,
+    {
+      new: {
+        depositAmount,
+        deductedAmount: settlement.deductedAmount,
+        refundableAmount: settlement.refundableAmount,
+        balanceDue: settlement.balanceDue,
+        refundedAmount: getRefundedAmount(settlement),
+      },
+    }
+  );
+
+  return toRentalDTO(rental);
+}
+
+/**
+ * Record a (partial) refund of a settled deposit
+ *
+ * @param userId - ID of user recording the refund
+ * @param input - Rental ID, refund amount, method, optional date and note
+ * @returns Updated rental DTO
+ * @throws TRPCError if rental not found, not settled, the amount exceeds what is
+ * left to refund, or another refund was recorded at the same time
+ */
+export async function refundDeposit(userId: string, input: RefundDepositInput): Promise<RentalDTO> {
+  await connectToDatabase();
+
+  const oldRental = await Rental.findById(input.id).lean();
+  if (!oldRental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  const settlement = oldRental.depositSettlement;
+  if (!settlement) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ต้องสรุปเงินมัดจำก่อนบันทึกการคืนเงิน",
+    });
+  }
+
+  const remainingRefund = settlement.refundableAmount - getRefundedAmount(settlement);
+  if (input.amount > remainingRefund) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `จำนวนเงินคืนเกินยอดคงเหลือที่ต้องคืน (${remainingRefund.toLocaleString("th-TH")} บาท)`,
+    });
+  }
+
+  const refund = {
+    amount: input.amount,
+    method: input.method,
+    refundedAt: input.refundedAt || new Date(),
+    note: input.note,
+    refundedBy: new mongoose.Types.ObjectId(userId),
+  };
+
+  // Only apply if no other refund landed in between. Refunds are only ever
+  // appended, so an unchanged count means an unchanged refunded total.
+  const rental = await Rental.findOneAndUpdate(
+    { _id: oldRental._id, "depositSettlement.refunds": { $size: settlement.refunds.length } },
+    { $push: { "depositSettlement.refunds": refund } },
+    { new: true }
+  )
+    .populate({
+      path: "assets.assetId",
+      select: "assetCode productId",
+      populate: { path: "productId", select: "name" },
+    })
+    .lean();
+
+  if (!rental) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "มีการบันทึกการคืนเงินมัดจำของการเช่านี้พร้อมกัน กรุณาลองใหม่",
+    });
+  }
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "rental",
+    rental._id.toString(),
+    `Rental ${rental.rentalNumber} - ${rental.customerName} (คืนเงินมัดจำ)`,
+    {
+      old: { remainingRefund },
+      new: {
+        refundAmount: refund.amount,
+        method: refund.method,
+        remainingRefund: remainingRefund - refund.amount,
+      },
+    }
+  );
+
+  return toRentalDTO(rental);
+}
+
+/**
+ * Get deposits currently held on behalf of customers
+ *
+ * Includes every rental with a deposit that has not been settled yet, and
+ * settled rentals whose refundable amount has not been fully paid back.
+ *
+ * @returns Total held amount and the rentals holding it (largest first)
+ */
+export async function getDepositsHeld(): Promise<DepositsHeldDTO> {
+  await connectToDatabase();
+
+  const rentals = await Rental.find({
+    deposit: { $gt: 0 },
+    $or: [
+      { depositSettlement: { $exists: false } },
+      { "depositSettlement.refundableAmount": { $gt: 0 } },
+    ],
+  })
+    .select("rentalNumber customerName status deposit depositSettlement")
+    .lean();
+
+  const held = rentals
+    .map((rental) => {
+      const settlement = rental.depositSettlement;
+      return {
+        id: rental._id.toString(),
+        rentalNumber: rental.rentalNumber,
+        customerName: rental.customerName,
+        status: rental.status,
+        deposit: rental.deposit,
+        heldAmount: settlement
+          ? settlement.refundableAmount - getRefundedAmount(settlement)
+          : rental.deposit,
+        settled: !!settlement,
+      };
+    })
+    .filter((rental) => rental.heldAmount > 0)
+    .sort((a, b) => b.heldAmount - a.heldAmount);
+
+  return {
+    totalHeld: held.reduce((sum, rental) => sum + rental.heldAmount, 0),
+    rentals: held,
+  };
+}
@@ -0,0 +1,111 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import mongoose from "mongoose";
+import type { MongoMemoryReplSet } from "mongodb-memory-server";
+import BuyStock from "@/lib/db/models/buy-stock";
+import Sale from "@/lib/db/models/sale";
+import SaleReturn from "@/lib/db/models/sale-return";
+import {
+  clearFailPoints,
+  failNextCommand,
+  resetDatabase,
+  startReplicaSet,
+  stopReplicaSet,
+} from "@/test/replica-set";
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+let replSet: MongoMemoryReplSet;
+let saleReturnService: typeof import("./sale-return.service");
+let saleService: typeof import("./sale.service");
+
+async function createCompletedSale() {
+  const productId = new mongoose.Types.ObjectId();
+  await BuyStock.create({ productId, quantity: 5, minQuantity: 0, lastUpdatedBy: userId });
+  return Sale.create({
+    billNumber: "BILL-20261019-0001",
+    customerName: "Customer",
+    items: [
+      {
+        productId,
+        productName: "Tripod",
+        sku: "TRI-1",
+        quantity: 2,
+        unitPrice: 100,
+        totalPrice: 200,
+      },
+    ],
+    subtotal: 200,
+    taxableAmount: 200,
+    totalAmount: 200,
+    status: "completed",
+    createdBy: userId,
+  });
+}
+
+beforeAll(async () => {
+  replSet = await startReplicaSet();
+  saleReturnService = await import("./sale-return.service");
+  saleService = await import("./sale.service");
+  const { connectToDatabase } = await import("@/lib/db/connect");
+  await connectToDatabase();
+});
+
+afterAll(async () => {
+  await stopReplicaSet(replSet);
+});
+
+beforeEach(async () => {
+  await resetDatabase();
+});
+
+afterEach(async () => {
+  await clearFailPoints();
+});
+
+describe("createSaleReturn", () => {
+  it("saves nothing when restocking the returned units fails", async () => {
+    const sale = await createCompletedSale();
+    const productId = sale.items[0].productId;
+    const input = {
+      saleId: sale._id.toString(),
+      items: [{ productId: productId.toString(), quantity: 1 }],
+      reason: "Damaged in transit",
+      settlement: "refund" as const,
+      refundMethod: "cash" as const,
+    };
+
+    await failNextCommand("findAndModify");
+    await expect(saleReturnService.createSaleReturn(userId, input)).rejects.toThrow();
+
+    expect(await SaleReturn.countDocuments()).toBe(0);
+    const stored = await Sale.findById(sale._id).lean();
+    expect(stored?.returnedAmount).toBe(0);
+    expect(stored?.items[0].returnedQuantity ?? 0).toBe(0);
+    expect((await BuyStock.findOne({ productId }).lean())?.quantity).toBe(5);
+
+    const saleReturn = await saleReturnService.createSaleReturn(userId, input);
+    expect(saleReturn.creditAmount).toBe(100);
+    expect((await BuyStock.findOne({ productId }).lean())?.quantity).toBe(6);
+  });
+});
+
+describe("getSalesSummary", () => {
+  it("leaves out returns on sales cancelled since", async () => {
+    const sale = await createCompletedSale();
+    await saleReturnService.createSaleReturn(userId, {
+      saleId: sale._id.toString(),
+      items: [{ productId: sale.items[0].productId.toString(), quantity: 1 }],
+      reason: "Damaged in transit",
+      settlement: "refund",
+      refundMethod: "cash",
+    });
+
+    expect((await saleService.getSalesSummary({})).netAmount).toBe(100);
+
+    await Sale.updateOne({ _id: sale._id }, { $set: { status: "cancelled" } });
+    const summary = await saleService.getSalesSummary({});
+    expect(summary.grossAmount).toBe(0);
+    expect(summary.returnedAmount).toBe(0);
+    expect(summary.netAmount).toBe(0);
+  });
+});
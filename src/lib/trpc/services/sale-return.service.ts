@@ -0,0 +1,343 @@
+/**
+ * Sale Return Service
+ *
+ * Handles goods returned from completed sales:
+ * - Issuing credit notes for partial or full returns
+ * - Restocking returned items into BuyStock
+ * - Settling the credit as a refund
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose, { type ClientSession } from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import { withTransaction } from "@/lib/db/transaction";
+import Sale from "@/lib/db/models/sale";
+import SaleReturn, {
+  type ISaleReturn,
+  type ISaleReturnItem,
+  type SaleReturnSettlement,
+} from "@/lib/db/models/sale-return";
+import BuyStock from "@/lib/db/models/buy-stock";
+import { roundAmount } from "@/lib/vat";
+import type { CreateSaleReturnInput, GetSaleReturnsInput } from "../schemas";
+import * as activityLogService from "./activity-log.service";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Sale Return Data Transfer Object
+ *
+ * One credit note: the returned items and what the customer was credited.
+ */
+export interface SaleReturnDTO {
+  id: string;
+  creditNoteNumber: string;
+  saleId: string;
+  billNumber: string;
+  customerName: string;
+  items: Array<{
+    productId: string;
+    productName: string;
+    sku: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+  }>;
+  subtotal: number;
+  creditAmount: number;
+  reason: string;
+  settlement: SaleReturnSettlement;
+  refundMethod?: string;
+  notes?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert a sale return document to a DTO
+ */
+function toSaleReturnDTO(saleReturn: ISaleReturn): SaleReturnDTO {
+  return {
+    id: saleReturn._id.toString(),
+    creditNoteNumber: saleReturn.creditNoteNumber,
+    saleId: saleReturn.saleId.toString(),
+    billNumber: saleReturn.billNumber,
+    customerName: saleReturn.customerName,
+    items: saleReturn.items.map((item) => ({
+      productId: item.productId.toString(),
+      productName: item.productName,
+      sku: item.sku,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+    })),
+    subtotal: saleReturn.subtotal,
+    creditAmount: saleReturn.creditAmount,
+    reason: saleReturn.reason,
+    settlement: saleReturn.settlement,
+    refundMethod: saleReturn.refundMethod,
+    notes: saleReturn.notes,
+    createdBy: saleReturn.createdBy.toString(),
+    createdAt: saleReturn.createdAt,
+    updatedAt: saleReturn.updatedAt,
+  };
+}
+
+/**
+ * Generate unique credit note number
+ *
+ * Format: CN-YYYYMMDD-NNNN
+ * Example: CN-20251214-0001
+ *
+ * @param session - Transaction session to read within
+ * @returns Unique credit note number string
+ */
+async function generateCreditNoteNumber(session?: ClientSession): Promise<string> {
+  await connectToDatabase();
+
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = String(today.getMonth() + 1).padStart(2, "0");
+  const date = String(today.getDate()).padStart(2, "0");
+
+  // Find the last credit note number for today
+  const lastReturn = await SaleReturn.findOne({
+    creditNoteNumber: new RegExp(`^CN-${year}${month}${date}`),
+  })
+    .sort({ creditNoteNumber: -1 })
+    .session(session ?? null)
+    .lean();
+
+  let sequence = 1;
+  if (lastReturn) {
+    const lastSequence = parseInt(lastReturn.creditNoteNumber.slice(-4), 10);
+    sequence = lastSequence + 1;
+  }
+
+  return `CN-${year}${month}${date}-${String(sequence).padStart(4, "0")}`;
+}
+
+// ============================================================================
+// CRUD Operations
+// ============================================================================
+
+/**
+ * Record goods returned from a completed sale
+ *
+ * Issues a credit note, puts the returned units back into BuyStock and
+ * marks them as returned on the sale, all in one transaction. Each item can
+ * be returned up to the quantity sold less what was already returned.
+ *
+ * The credit is the returned items' value after their promotions, with the
+ * sale's discount and tax apportioned; the return that takes back the last
+ * unit credits whatever is left of the sale total, so rounding never leaves a
+ * remainder.
+ *
+ * @param userId - ID of user recording the return
+ * @param input - Sale, returned items, reason and settlement
+ * @returns Created sale return DTO
+ * @throws TRPCError if the sale is not completed or an item is over-returned
+ */
+export async function createSaleReturn(
+  userId: string,
+  input: CreateSaleReturnInput
+): Promise<SaleReturnDTO> {
+  await connectToDatabase();
+
+  if (!mongoose.Types.ObjectId.isValid(input.saleId)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ID การขายไม่ถูกต้อง",
+    });
+  }
+
+  const { saleReturn, restocked } = await withTransaction(async (session) => {
+    const sale = await Sale.findById(input.saleId).session(session).lean();
+    if (!sale) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "ไม่พบการขาย",
+      });
+    }
+
+    if (sale.status !== "completed") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "คืนสินค้าได้เฉพาะการขายที่เสร็จสิ้นแล้ว",
+      });
+    }
+
+    // Match each returned item to its sale line and check what is left to return
+    const returnItems: ISaleReturnItem[] = [];
+    const returnedQuantities = new Map<string, number>();
+    for (const requested of input.items) {
+      const saleItem = sale.items.find((item) => item.productId.toString() === requested.productId);
+      if (!saleItem) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "สินค้าที่คืนไม่อยู่ในรายการขายนี้",
+        });
+      }
+
+      const returnable = saleItem.quantity - (saleItem.returnedQuantity ?? 0);
+      if (requested.quantity > returnable) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `คืนสินค้า ${saleItem.productName} (SKU: ${saleItem.sku}) ได้ไม่เกิน ${returnable} ชิ้น`,
+        });
+      }
+
+      // Units are valued net of the promotions on their line
+      const lineAmount = saleItem.totalPrice - (saleItem.promotionDiscount ?? 0);
+      returnItems.push({
+        productId: saleItem.productId,
+        productName: saleItem.productName,
+        sku: saleItem.sku,
+        quantity: requested.quantity,
+        unitPrice: saleItem.unitPrice,
+        totalPrice: roundAmount((lineAmount * requested.quantity) / saleItem.quantity),
+      });
+      returnedQuantities.set(requested.productId, requested.quantity);
+    }
+
+    const subtotal = roundAmount(returnItems.reduce((sum, item) => sum + item.totalPrice, 0));
+    const previouslyReturned = sale.returnedAmount ?? 0;
+    const saleSubtotal = sale.subtotal - (sale.promotionDiscount ?? 0);
+    const isFinalReturn = sale.items.every(
+      (item) =>
+        (item.returnedQuantity ?? 0) + (returnedQuantities.get(item.productId.toString()) ?? 0) >=
+        item.quantity
+    );
+    const creditAmount = isFinalReturn
+      ? roundAmount(sale.totalAmount - previouslyReturned)
+      : saleSubtotal > 0
+        ? roundAmount(
+            Math.min(
+              subtotal * (sale.totalAmount / saleSubtotal),
+              sale.totalAmount - previouslyReturned
+            )
+          )
+        : 0;
+
+    const creditNoteNumber = await generateCreditNoteNumber(session);
+
+    const [created] = await SaleReturn.create(
+      [
+        {
+          creditNoteNumber,
+          saleId: sale._id,
+          billNumber: sale.billNumber,
+          customerName: sale.customerName,
+          items: returnItems,
+          subtotal,
+          creditAmount,
+          reason: input.reason,
+          settlement: input.settlement,
+          refundMethod: input.refundMethod,
+          notes: input.notes || undefined,
+          createdBy: new mongoose.Types.ObjectId(userId),
+        },
+      ],
+      { session }
+    );
+
+    // Mark the units as returned on the sale
+    await Sale.updateOne(
+      { _id: sale._id },
+      {
+        $set: {
+          items: sale.items.map((item) => ({
+            ...item,
+            returnedQuantity:
+              (item.returnedQuantity ?? 0) +
+              (returnedQuantities.get(item.productId.toString()) ?? 0),
+          })),
+        },
+        $inc: { returnedAmount: creditAmount },
+      },
+      { session }
+    );
+
+    // Put the returned units back on the shelf
+    const restocked: Array<{ buyStockId: string; item: ISaleReturnItem; quantity: number }> = [];
+    for (const item of returnItems) {
+      const buyStock = await BuyStock.findOneAndUpdate(
+        { productId: item.productId },
+        {
+          $inc: { quantity: item.quantity },
+          $set: { lastUpdatedBy: new mongoose.Types.ObjectId(userId) },
+        },
+        { new: true, session }
+      ).lean();
+
+      if (!buyStock) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `ไม่พบสต็อกสำหรับสินค้า ${item.productName} (SKU: ${item.sku})`,
+        });
+      }
+
+      restocked.push({ buyStockId: buyStock._id.toString(), item, quantity: buyStock.quantity });
+    }
+
+    return { saleReturn: created.toObject() as ISaleReturn, restocked };
+  });
+
+  // Log activity
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "sale",
+    saleReturn.saleId.toString(),
+    `Sale ${saleReturn.billNumber} (ใบลดหนี้ ${saleReturn.creditNoteNumber})`,
+    {
+      new: {
+        creditNoteNumber: saleReturn.creditNoteNumber,
+        creditAmount: saleReturn.creditAmount,
+        settlement: saleReturn.settlement,
+        reason: saleReturn.reason,
+      },
+    }
+  );
+
+  for (const { buyStockId, item, quantity } of restocked) {
+    await activityLogService.createActivityLog(
+      userId,
+      "update",
+      "buyStock",
+      buyStockId,
+      `Buy Stock - ${item.productName}`,
+      {
+        old: { quantity: quantity - item.quantity },
+        new: { quantity },
+      }
+    );
+  }
+
+  return toSaleReturnDTO(saleReturn);
+}
+
+/**
+ * List the returns of a sale, oldest first
+ *
+ * @param input - Sale ID
+ * @returns Sale return DTOs
+ */
+export async function getSaleReturns(input: GetSaleReturnsInput): Promise<SaleReturnDTO[]> {
+  await connectToDatabase();
+
+  if (!mongoose.Types.ObjectId.isValid(input.saleId)) {
+    return [];
+  }
+
+  const saleReturns = await SaleReturn.find({ saleId: input.saleId }).sort({ createdAt: 1 }).lean();
+
+  return saleReturns.map(toSaleReturnDTO);
+}
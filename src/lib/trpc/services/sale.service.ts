@@ -6,14 +6,29 @@
  * - Managing sale status transitions
  * - Deducting stock from BuyStock
  * - Generating bill numbers
+ * - Pricing items from price lists or Product.price, with permitted overrides
+ * - Applying promotions and coupons to the priced items
+ * - Working out VAT and totals from the items and discount
+ * - Recording payments and deriving payment status from them
+ * - Summarising sales net of returns
  */
 
 import { TRPCError } from "@trpc/server";
 import mongoose from "mongoose";
 import { connectToDatabase } from "@/lib/db/connect";
-import Sale from "@/lib/db/models/sale";
+import { vatConfig } from "@/lib/config/vat";
+import { hasPermission } from "@/lib/permissions";
+import { calculateVat, roundAmount, type VatMode } from "@/lib/vat";
+import Sale, {
+  type ISale,
+  type ISaleItem,
+  type SalePaymentMethod,
+  type SalePaymentStatus,
+} from "@/lib/db/models/sale";
+import SaleReturn from "@/lib/db/models/sale-return";
 import BuyStock from "@/lib/db/models/buy-stock";
 import Product from "@/lib/db/models/product";
+import type { UserRole } from "@/lib/db/models/user";
 import type {
   CreateSaleInput,
   UpdateSaleInput,
@@ -21,8 +36,12 @@ import type {
   GetSaleByIdInput,
   ListSalesInput,
   DeleteSaleInput,
+  GetSalesSummaryInput,
+  RecordSalePaymentInput,
 } from "../schemas";
 import * as activityLogService from "./activity-log.service";
+import { resolveListPrices } from "./price-list.service";
+import { applyPromotions, type AppliedPromotionDTO } from "./promotion.service";
 
 // ============================================================================
 // Type Helpers
@@ -41,6 +60,41 @@ type SaleItemForStock = Array<{
   totalPrice: number;
 }>;
 
+/**
+ * Sale item priced by the server, ready to be stored
+ */
+type PricedSaleItem = Omit<
+  ISaleItem,
+  "productId" | "promotionDiscount" | "appliedPromotions" | "vatAmount" | "returnedQuantity"
+> & {
+  productId: string;
+};
+
+/**
+ * Priced sale item with its promotions applied
+ */
+type PromotedSaleItem = PricedSaleItem & Pick<ISaleItem, "promotionDiscount" | "appliedPromotions">;
+
+/**
+ * Sale line amounts the totals are worked out from
+ */
+type SaleItemForTotals = Array<Pick<ISaleItem, "totalPrice"> & { promotionDiscount?: number }>;
+
+/**
+ * Totals of a sale as stored, with each item's share of the VAT
+ */
+interface SaleTotals {
+  itemVatAmounts: number[];
+  subtotal: number;
+  promotionDiscount: number;
+  discount: number;
+  vatMode: VatMode;
+  vatRate: number;
+  taxableAmount: number;
+  tax: number;
+  totalAmount: number;
+}
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -49,7 +103,14 @@ type SaleItemForStock = Array<{
  * Sale Data Transfer Object
  *
  * Represents a sale with all its associated data including customer info,
- * items, pricing, and status.
+ * items, pricing, and status. tax is the VAT worked out from vatMode and
+ * vatRate; taxableAmount is the value before VAT. Items carry the list price
+ * they were priced against, the reason for any price override, and the
+ * promotions applied to them; promotionDiscount totals those, and discount is
+ * the manual discount on the bill.
+ * returnedAmount is the total credited through sale returns; netAmount is
+ * totalAmount less returnedAmount. paidAmount and paymentStatus are derived
+ * from the payments ledger.
  */
 export interface SaleDTO {
   id: string;
@@ -58,22 +119,46 @@ export interface SaleDTO {
   customerPhone?: string;
   customerEmail?: string;
   customerAddress?: string;
+  customerTaxId?: string;
+  customerBranchCode?: string;
   items: Array<{
     productId: string;
     productName: string;
     sku: string;
     quantity: number;
     unitPrice: number;
+    listPrice?: number;
+    priceOverrideReason?: string;
     totalPrice: number;
+    promotionDiscount: number;
+    appliedPromotions: AppliedPromotionDTO[];
+    vatAmount: number;
+    returnedQuantity: number;
   }>;
   subtotal: number;
+  promotionDiscount: number;
+  couponCode?: string;
   discount: number;
+  vatMode: VatMode;
+  vatRate: number;
+  taxableAmount: number;
   tax: number;
   totalAmount: number;
+  returnedAmount: number;
+  netAmount: number;
   deposit: number;
   paymentMethod?: string;
-  paymentStatus: "pending" | "paid" | "partial";
+  payments: Array<{
+    amount: number;
+    method: SalePaymentMethod;
+    paidAt: Date;
+    reference?: string;
+    note?: string;
+    receivedBy: string;
+  }>;
+  paymentStatus: SalePaymentStatus;
   paidAmount: number;
+  outstandingAmount: number;
   status: "pending" | "completed" | "cancelled";
   notes?: string;
   createdBy: string;
@@ -81,10 +166,354 @@ export interface SaleDTO {
   updatedAt: Date;
 }
 
+/**
+ * Sales the customer still owes money on
+ *
+ * Unpaid and partly paid sales that are not cancelled, oldest first.
+ */
+export interface SaleReceivablesDTO {
+  totalOutstanding: number;
+  sales: Array<{
+    id: string;
+    billNumber: string;
+    customerName: string;
+    customerPhone?: string;
+    status: "pending" | "completed" | "cancelled";
+    paymentStatus: SalePaymentStatus;
+    totalAmount: number;
+    paidAmount: number;
+    outstandingAmount: number;
+    lastPaidAt?: Date;
+    createdAt: Date;
+  }>;
+}
+
+/**
+ * Sales summary for a period
+ *
+ * grossAmount totals completed sales made in the period; returnedAmount
+ * totals credit notes issued in the period, whichever period the sale was in.
+ */
+export interface SalesSummaryDTO {
+  salesCount: number;
+  grossAmount: number;
+  returnsCount: number;
+  returnedAmount: number;
+  netAmount: number;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Convert a sale document to a DTO
+ */
+export function toSaleDTO(sale: ISale): SaleDTO {
+  const returnedAmount = sale.returnedAmount ?? 0;
+
+  return {
+    id: sale._id.toString(),
+    billNumber: sale.billNumber,
+    customerName: sale.customerName,
+    customerPhone: sale.customerPhone,
+    customerEmail: sale.customerEmail,
+    customerAddress: sale.customerAddress,
+    customerTaxId: sale.customerTaxId || undefined,
+    customerBranchCode: sale.customerBranchCode || undefined,
+    items: sale.items.map((item) => ({
+      productId: item.productId.toString(),
+      productName: item.productName,
+      sku: item.sku,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      listPrice: item.listPrice,
+      priceOverrideReason: item.priceOverrideReason,
+      totalPrice: item.totalPrice,
+      promotionDiscount: item.promotionDiscount ?? 0,
+      appliedPromotions: (item.appliedPromotions || []).map((applied) => ({
+        promotionId: applied.promotionId.toString(),
+        name: applied.name,
+        type: applied.type,
+        couponCode: applied.couponCode,
+        discount: applied.discount,
+      })),
+      vatAmount: item.vatAmount ?? 0,
+      returnedQuantity: item.returnedQuantity ?? 0,
+    })),
+    subtotal: sale.subtotal,
+    promotionDiscount: sale.promotionDiscount ?? 0,
+    couponCode: sale.couponCode || undefined,
+    discount: sale.discount,
+    vatMode: sale.vatMode ?? "none",
+    vatRate: sale.vatRate ?? 0,
+    taxableAmount: sale.taxableAmount ?? sale.totalAmount - sale.tax,
+    tax: sale.tax,
+    totalAmount: sale.totalAmount,
+    returnedAmount,
+    netAmount: sale.totalAmount - returnedAmount,
+    deposit: sale.deposit ?? 0,
+    paymentMethod: sale.paymentMethod,
+    payments: (sale.payments || []).map((payment) => ({
+      amount: payment.amount,
+      method: payment.method,
+      paidAt: payment.paidAt,
+      reference: payment.reference,
+      note: payment.note,
+      receivedBy: payment.receivedBy.toString(),
+    })),
+    paymentStatus: sale.paymentStatus,
+    paidAmount: sale.paidAmount,
+    outstandingAmount: getOutstandingAmount(sale),
+    status: sale.status,
+    notes: sale.notes,
+    createdBy: sale.createdBy.toString(),
+    createdAt: sale.createdAt,
+    updatedAt: sale.updatedAt,
+  };
+}
+
+/**
+ * Amount still owed on a sale
+ */
+function getOutstandingAmount(sale: Pick<ISale, "totalAmount" | "paidAmount">): number {
+  return Math.max(0, Math.round((sale.totalAmount - (sale.paidAmount || 0)) * 100) / 100);
+}
+
+/**
+ * Derive a sale's payment status from what has been paid against its total
+ */
+function getPaymentStatus(paidAmount: number, totalAmount: number): SalePaymentStatus {
+  if (paidAmount > 0 && paidAmount >= totalAmount - 0.005) {
+    return "paid";
+  }
+  return paidAmount > 0 ? "partial" : "pending";
+}
+
+/**
+ * Work out a sale's VAT and totals from its items and discount
+ *
+ * VAT is worked out on the lines net of their promotions, then the manual
+ * discount. subtotal stays the lines before promotions so the bill can show
+ * each discount. The VAT rate comes from the VAT configuration; a sale
+ * without VAT is stored with rate 0.
+ */
+function getSaleTotals(items: SaleItemForTotals, discount: number, vatMode: VatMode): SaleTotals {
+  const vatRate = vatMode === "none" ? 0 : vatConfig.rate;
+  const vat = calculateVat(
+    items.map((item) => roundAmount(item.totalPrice - (item.promotionDiscount ?? 0))),
+    discount,
+    vatMode,
+    vatRate
+  );
+
+  return {
+    itemVatAmounts: vat.lines.map((line) => line.vatAmount),
+    subtotal: roundAmount(items.reduce((sum, item) => sum + item.totalPrice, 0)),
+    promotionDiscount: roundAmount(
+      items.reduce((sum, item) => sum + (item.promotionDiscount ?? 0), 0)
+    ),
+    discount: vat.discount,
+    vatMode,
+    vatRate,
+    taxableAmount: vat.taxableAmount,
+    tax: vat.vatAmount,
+    totalAmount: vat.totalAmount,
+  };
+}
+
+/**
+ * Whether a stored sale item carries the given price override
+ */
+function isSameOverride(
+  item: ISaleItem,
+  override: { productId: string; unitPrice?: number; reason?: string }
+): boolean {
+  return (
+    !!item.priceOverrideReason &&
+    item.productId.toString() === override.productId &&
+    item.unitPrice === override.unitPrice &&
+    item.priceOverrideReason === override.reason
+  );
+}
+
+/**
+ * Price sale items at today's list prices
+ *
+ * Product names and SKUs come from the product, and the list price from the
+ * applicable price list or Product.price. An item without a unitPrice, or
+ * with the list price, is charged the list price. Any other unitPrice is a
+ * price override, which needs the sale.overridePrice permission and a reason.
+ * An override already on the sale (same product, price and reason) stays
+ * without the permission, so other changes to the sale can still be saved.
+ *
+ * @param items - Requested sale items
+ * @param userRole - Role of the user making the sale
+ * @param previousItems - Items of the sale before an update, if any
+ * @returns Priced items in the same order
+ * @throws TRPCError if a product is missing or unpriced, or an override is
+ *   not permitted or has no reason
+ */
+async function priceSaleItems(
+  items: CreateSaleInput["items"],
+  userRole: UserRole,
+  previousItems: ISaleItem[] = []
+): Promise<PricedSaleItem[]> {
+  const productIds = items.map((item) => item.productId);
+  const [products, listPrices] = await Promise.all([
+    Product.find({ _id: { $in: productIds } })
+      .select("name sku")
+      .lean(),
+    resolveListPrices(productIds),
+  ]);
+  const productById = new Map(products.map((product) => [product._id.toString(), product]));
+
+  return items.map((item) => {
+    const product = productById.get(item.productId);
+    if (!product) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: `ไม่พบสินค้า (ID: ${item.productId})`,
+      });
+    }
+
+    const listPrice = listPrices.get(item.productId)?.price;
+    const requestedPrice = item.unitPrice;
+    const isOverride =
+      requestedPrice !== undefined &&
+      (listPrice === undefined || Math.abs(requestedPrice - listPrice) >= 0.005);
+    const unitPrice = isOverride ? requestedPrice : listPrice;
+    const reason = item.priceOverrideReason?.trim();
+
+    if (unitPrice === undefined) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `สินค้า ${product.name} (SKU: ${product.sku}) ยังไม่มีราคาขาย`,
+      });
+    }
+    const isApproved = previousItems.some((previous) =>
+      isSameOverride(previous, { productId: item.productId, unitPrice, reason })
+    );
+    if (isOverride && !isApproved && !hasPermission(userRole, "sale.overridePrice")) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `ไม่มีสิทธิ์แก้ไขราคาขายของสินค้า ${product.name} (SKU: ${product.sku})`,
+      });
+    }
+    if (isOverride && !reason) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `กรุณาระบุเหตุผลที่แก้ไขราคาของสินค้า ${product.name} (SKU: ${product.sku})`,
+      });
+    }
+
+    return {
+      productId: item.productId,
+      productName: product.name,
+      sku: product.sku,
+      quantity: item.quantity,
+      unitPrice,
+      listPrice,
+      priceOverrideReason: isOverride ? reason : undefined,
+      totalPrice: roundAmount(unitPrice * item.quantity),
+    };
+  });
+}
+
+/**
+ * Apply promotions and the coupon, if any, to priced sale items
+ *
+ * @param items - Priced sale items
+ * @param couponCode - Coupon code entered on the sale
+ * @returns Items with their promotions, and the normalised coupon code
+ * @throws TRPCError if the coupon cannot be used
+ */
+async function promoteSaleItems(
+  items: PricedSaleItem[],
+  couponCode?: string
+): Promise<{ items: PromotedSaleItem[]; couponCode?: string }> {
+  const evaluation = await applyPromotions(items, couponCode);
+
+  return {
+    items: items.map((item, index) => ({
+      ...item,
+      promotionDiscount: evaluation.items[index].promotionDiscount,
+      appliedPromotions: evaluation.items[index].appliedPromotions.map((applied) => ({
+        ...applied,
+        promotionId: new mongoose.Types.ObjectId(applied.promotionId),
+      })),
+    })),
+    couponCode: evaluation.couponCode,
+  };
+}
+
+/**
+ * Log each price override on a sale with the list price it replaced
+ *
+ * Overrides already on the sale before an update (same product, price and
+ * reason) are not logged again.
+ *
+ * @param userId - ID of user who made the sale or update
+ * @param sale - Sale as saved
+ * @param items - Priced items of the sale
+ * @param previousItems - Items before the update, if any
+ */
+async function logPriceOverrides(
+  userId: string,
+  sale: Pick<ISale, "_id" | "billNumber" | "customerName">,
+  items: PricedSaleItem[],
+  previousItems: ISaleItem[] = []
+): Promise<void> {
+  for (const item of items) {
+    if (!item.priceOverrideReason) {
+      continue;
+    }
+
+    const isUnchanged = previousItems.some((previous) =>
+      isSameOverride(previous, {
+        productId: item.productId,
+        unitPrice: item.unitPrice,
+        reason: item.priceOverrideReason,
+      })
+    );
+    if (isUnchanged) {
+      continue;
+    }
+
+    await activityLogService.createActivityLog(
+      userId,
+      "update",
+      "sale",
+      sale._id.toString(),
+      `Sale ${sale.billNumber} - ${sale.customerName} (แก้ไขราคา ${item.sku})`,
+      {
+        old: { sku: item.sku, unitPrice: item.listPrice ?? null },
+        new: {
+          sku: item.sku,
+          unitPrice: item.unitPrice,
+          priceOverrideReason: item.priceOverrideReason,
+        },
+      }
+    );
+  }
+}
+
+/**
+ * Reject a discount larger than the items it applies to, after promotions
+ */
+function verifyDiscount(items: SaleItemForTotals, discount: number): void {
+  const subtotal = items.reduce(
+    (sum, item) => sum + item.totalPrice - (item.promotionDiscount ?? 0),
+    0
+  );
+  if (discount > subtotal + 0.005) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ส่วนลดต้องไม่เกินยอดรวมหลังหักโปรโมชั่น",
+    });
+  }
+}
+
 /**
  * Generate unique bill number
  *
@@ -256,38 +685,76 @@ async function restoreStock(items: SaleItemForStock, userId: string): Promise<vo
 /**
  * Create a new sale
  *
- * Validates stock availability, generates bill number, and creates the sale.
+ * Prices the items, applies promotions and the coupon, validates stock
+ * availability, generates bill number, and creates the sale. Prices,
+ * promotions, VAT and the total are worked out here; client amounts are
+ * never trusted. Price overrides are logged with the list price.
  * Stock is NOT deducted until sale status is changed to "completed".
  *
  * @param userId - ID of user creating the sale
  * @param input - Sale creation data
+ * @param userRole - Role of user creating the sale, for price overrides
  * @returns Created sale DTO
- * @throws TRPCError if stock is insufficient
+ * @throws TRPCError if pricing fails, the coupon cannot be used, stock is
+ *   insufficient, or the discount or payment exceeds the total
  */
-export async function createSale(userId: string, input: CreateSaleInput): Promise<SaleDTO> {
+export async function createSale(
+  userId: string,
+  input: CreateSaleInput,
+  userRole: UserRole
+): Promise<SaleDTO> {
   await connectToDatabase();
 
+  const pricedItems = await priceSaleItems(input.items, userRole);
+  const { items, couponCode } = await promoteSaleItems(pricedItems, input.couponCode);
+  verifyDiscount(items, input.discount);
+
   // Verify stock availability (only for buy stock type products)
-  await verifyStockAvailability(input.items);
+  await verifyStockAvailability(items);
+
+  const { itemVatAmounts, ...totals } = getSaleTotals(
+    items,
+    input.discount,
+    input.vatMode ?? vatConfig.mode
+  );
+  if (input.paidAmount > totals.totalAmount + 0.005) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "จำนวนเงินที่จ่ายต้องไม่เกินยอดรวมทั้งสิ้น",
+    });
+  }
 
   // Generate bill number
   const billNumber = await generateBillNumber();
 
-  // Auto-upgrade paymentStatus to "paid" if paidAmount covers total
-  const effectivePaymentStatus =
-    input.paymentStatus === "partial" && input.paidAmount >= input.totalAmount
-      ? "paid"
-      : input.paymentStatus;
+  // A payment taken with the sale becomes the first entry of its ledger
+  const payments =
+    input.paidAmount > 0
+      ? [
+          {
+            amount: input.paidAmount,
+            method: input.paymentMethod ?? "cash",
+            paidAt: new Date(),
+            receivedBy: new mongoose.Types.ObjectId(userId),
+          },
+        ]
+      : [];
 
   // Create sale
   const sale = await Sale.create({
     ...input,
-    paymentStatus: effectivePaymentStatus,
+    ...totals,
+    couponCode,
+    customerTaxId: input.customerTaxId || undefined,
+    customerBranchCode: input.customerBranchCode || undefined,
+    payments,
+    paymentStatus: getPaymentStatus(input.paidAmount, totals.totalAmount),
     deposit: input.deposit ?? 0,
     billNumber,
-    items: input.items.map((item) => ({
+    items: items.map((item, index) => ({
       ...item,
       productId: new mongoose.Types.ObjectId(item.productId),
+      vatAmount: itemVatAmounts[index],
     })),
     createdBy: new mongoose.Types.ObjectId(userId),
   });
@@ -310,53 +777,34 @@ export async function createSale(userId: string, input: CreateSaleInput): Promis
     sale._id.toString(),
     `Sale ${billNumber} - ${input.customerName}`
   );
+  await logPriceOverrides(userId, populatedSale, items);
 
-  return {
-    id: populatedSale._id.toString(),
-    billNumber: populatedSale.billNumber,
-    customerName: populatedSale.customerName,
-    customerPhone: populatedSale.customerPhone,
-    customerEmail: populatedSale.customerEmail,
-    customerAddress: populatedSale.customerAddress,
-    items: populatedSale.items.map((item) => ({
-      productId: item.productId.toString(),
-      productName: item.productName,
-      sku: item.sku,
-      quantity: item.quantity,
-      unitPrice: item.unitPrice,
-      totalPrice: item.totalPrice,
-    })),
-    subtotal: populatedSale.subtotal,
-    discount: populatedSale.discount,
-    tax: populatedSale.tax,
-    totalAmount: populatedSale.totalAmount,
-    deposit: populatedSale.deposit ?? 0,
-    paymentMethod: populatedSale.paymentMethod,
-    paymentStatus: populatedSale.paymentStatus,
-    paidAmount: populatedSale.paidAmount,
-    status: populatedSale.status,
-    notes: populatedSale.notes,
-    createdBy: populatedSale.createdBy.toString(),
-    createdAt: populatedSale.createdAt,
-    updatedAt: populatedSale.updatedAt,
-  };
+  return toSaleDTO(populatedSale);
 }
 
 /**
  * Update an existing sale
  *
  * Only pending sales can be updated. If sale is completed, stock changes
- * must be handled separately.
+ * must be handled separately. New items are priced the same way as on
+ * create, and new price overrides are logged. Promotions are applied again
+ * when the items or the coupon change; an empty coupon code removes it.
  *
  * @param userId - ID of user updating the sale
  * @param input - Sale update data
+ * @param userRole - Role of user updating the sale, for price overrides
  * @returns Updated sale DTO
- * @throws TRPCError if sale not found or cannot be updated
+ * @throws TRPCError if sale not found or cannot be updated, or a payment or
+ * status change was saved during the update
  */
-export async function updateSale(userId: string, input: UpdateSaleInput): Promise<SaleDTO> {
+export async function updateSale(
+  userId: string,
+  input: UpdateSaleInput,
+  userRole: UserRole
+): Promise<SaleDTO> {
   await connectToDatabase();
 
-  const { id, ...updateData } = input;
+  const { id, items: requestedItems, couponCode: requestedCouponCode, ...updateData } = input;
 
   const oldSale = await Sale.findById(id).lean();
   if (!oldSale) {
@@ -374,42 +822,90 @@ export async function updateSale(userId: string, input: UpdateSaleInput): Promis
     });
   }
 
-  // If items are being updated, verify stock availability
-  if (updateData.items) {
-    await verifyStockAvailability(updateData.items);
-    updateData.items = updateData.items.map((item) => ({
-      ...item,
-      productId: new mongoose.Types.ObjectId(item.productId),
-    })) as unknown as typeof updateData.items;
+  // If items are being updated, price them and verify stock availability
+  const pricedItems =
+    requestedItems && (await priceSaleItems(requestedItems, userRole, oldSale.items));
+  if (pricedItems) {
+    await verifyStockAvailability(pricedItems);
   }
 
-  // Recalculate totals if items, discount, or tax changed
-  if (updateData.items || updateData.discount !== undefined || updateData.tax !== undefined) {
-    const items = updateData.items || oldSale.items;
-    const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
-    const discount = updateData.discount !== undefined ? updateData.discount : oldSale.discount;
-    const tax = updateData.tax !== undefined ? updateData.tax : oldSale.tax;
-    const totalAmount = subtotal - discount + tax;
+  // Apply promotions again if items or the coupon changed
+  const couponCode =
+    requestedCouponCode === undefined ? oldSale.couponCode : requestedCouponCode || undefined;
+  const promoted =
+    pricedItems || requestedCouponCode !== undefined
+      ? await promoteSaleItems(
+          pricedItems ||
+            oldSale.items.map((item) => ({
+              productId: item.productId.toString(),
+              productName: item.productName,
+              sku: item.sku,
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              listPrice: item.listPrice,
+              priceOverrideReason: item.priceOverrideReason,
+              totalPrice: item.totalPrice,
+            })),
+          couponCode
+        )
+      : undefined;
+
+  // Recalculate VAT and totals if items, coupon, discount, or VAT mode changed
+  let totals:
+    | (Omit<SaleTotals, "itemVatAmounts"> & { items: ISaleItem[]; couponCode?: string })
+    | undefined;
+  if (promoted || updateData.discount !== undefined || updateData.vatMode !== undefined) {
+    const items = promoted ? promoted.items : oldSale.items;
+    const discount = updateData.discount ?? oldSale.discount;
+    verifyDiscount(items, discount);
+
+    const { itemVatAmounts, ...saleTotals } = getSaleTotals(
+      items,
+      discount,
+      updateData.vatMode ?? oldSale.vatMode ?? "none"
+    );
 
-    updateData.subtotal = subtotal;
-    updateData.totalAmount = totalAmount;
+    totals = {
+      ...saleTotals,
+      ...(promoted?.couponCode && { couponCode: promoted.couponCode }),
+      items: items.map((item, index) => ({
+        ...item,
+        productId: new mongoose.Types.ObjectId(item.productId),
+        vatAmount: itemVatAmounts[index],
+        returnedQuantity: 0,
+      })),
+    };
   }
 
-  // Auto-upgrade paymentStatus to "paid" if partial but paidAmount covers total
-  if (updateData.paymentStatus === "partial") {
-    const paid = updateData.paidAmount ?? oldSale.paidAmount ?? 0;
-    const total = (updateData.totalAmount as number | undefined) ?? oldSale.totalAmount ?? 0;
-    if (paid >= total) {
-      updateData.paymentStatus = "paid";
-    }
+  // Payments already received stay; the total cannot drop below them
+  const totalAmount = totals?.totalAmount ?? oldSale.totalAmount;
+  const paidAmount = oldSale.paidAmount || 0;
+  if (totalAmount < paidAmount - 0.005) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ยอดรวมทั้งสิ้นต้องไม่น้อยกว่ายอดที่ชำระแล้ว",
+    });
   }
 
-  const sale = await Sale.findByIdAndUpdate(id, { $set: updateData }, { new: true }).lean();
+  // Only save if no payment was recorded and the status did not change in the
+  // meantime, so paymentStatus stays in line with the payments ledger
+  const sale = await Sale.findOneAndUpdate(
+    { _id: id, status: oldSale.status, paidAmount: oldSale.paidAmount },
+    {
+      $set: {
+        ...updateData,
+        ...totals,
+        paymentStatus: getPaymentStatus(paidAmount, totalAmount),
+      },
+      ...(promoted && !promoted.couponCode && { $unset: { couponCode: "" } }),
+    },
+    { new: true }
+  ).lean();
 
   if (!sale) {
     throw new TRPCError({
-      code: "INTERNAL_SERVER_ERROR",
-      message: "เกิดข้อผิดพลาดในการอัปเดตการขาย",
+      code: "CONFLICT",
+      message: "การขายถูกเปลี่ยนแปลงระหว่างดำเนินการ กรุณาลองใหม่อีกครั้ง",
     });
   }
 
@@ -421,43 +917,19 @@ export async function updateSale(userId: string, input: UpdateSaleInput): Promis
     sale._id.toString(),
     `Sale ${sale.billNumber} - ${sale.customerName}`
   );
+  if (pricedItems) {
+    await logPriceOverrides(userId, sale, pricedItems, oldSale.items);
+  }
 
-  return {
-    id: sale._id.toString(),
-    billNumber: sale.billNumber,
-    customerName: sale.customerName,
-    customerPhone: sale.customerPhone,
-    customerEmail: sale.customerEmail,
-    customerAddress: sale.customerAddress,
-    items: sale.items.map((item) => ({
-      productId: item.productId.toString(),
-      productName: item.productName,
-      sku: item.sku,
-      quantity: item.quantity,
-      unitPrice: item.unitPrice,
-      totalPrice: item.totalPrice,
-    })),
-    subtotal: sale.subtotal,
-    discount: sale.discount,
-    tax: sale.tax,
-    totalAmount: sale.totalAmount,
-    deposit: sale.deposit ?? 0,
-    paymentMethod: sale.paymentMethod,
-    paymentStatus: sale.paymentStatus,
-    paidAmount: sale.paidAmount,
-    status: sale.status,
-    notes: sale.notes,
-    createdBy: sale.createdBy.toString(),
-    createdAt: sale.createdAt,
-    updatedAt: sale.updatedAt,
-  };
+  return toSaleDTO(sale);
 }
 
 /**
  * Update sale status
  *
  * When status changes to "completed", stock is deducted.
- * When status changes from "completed" to "cancelled", stock is restored.
+ * When status changes from "completed" to "cancelled", stock is restored
+ * (only the units not already taken back through sale returns).
  *
  * @param userId - ID of user updating the status
  * @param input - Status update data
@@ -492,8 +964,11 @@ export async function updateSaleStatus(
     await verifyStockAvailability(sale.items as SaleItemForStock);
     await deductStock(sale.items as SaleItemForStock, userId);
   } else if (input.status === "cancelled" && sale.status === "completed") {
-    // Restore stock when cancelling completed sale
-    await restoreStock(sale.items as SaleItemForStock, userId);
+    // Restore stock when cancelling completed sale, less units already returned
+    const unreturnedItems = sale.items
+      .map((item) => ({ ...item, quantity: item.quantity - (item.returnedQuantity ?? 0) }))
+      .filter((item) => item.quantity > 0);
+    await restoreStock(unreturnedItems as SaleItemForStock, userId);
   }
 
   // Update sale status
@@ -528,35 +1003,7 @@ export async function updateSaleStatus(
     }
   );
 
-  return {
-    id: updatedSale._id.toString(),
-    billNumber: updatedSale.billNumber,
-    customerName: updatedSale.customerName,
-    customerPhone: updatedSale.customerPhone,
-    customerEmail: updatedSale.customerEmail,
-    customerAddress: updatedSale.customerAddress,
-    items: updatedSale.items.map((item) => ({
-      productId: item.productId.toString(),
-      productName: item.productName,
-      sku: item.sku,
-      quantity: item.quantity,
-      unitPrice: item.unitPrice,
-      totalPrice: item.totalPrice,
-    })),
-    subtotal: updatedSale.subtotal,
-    discount: updatedSale.discount,
-    tax: updatedSale.tax,
-    totalAmount: updatedSale.totalAmount,
-    paymentMethod: updatedSale.paymentMethod,
-    paymentStatus: updatedSale.paymentStatus,
-    paidAmount: updatedSale.paidAmount,
-    deposit: updatedSale.deposit ?? 0,
-    status: updatedSale.status,
-    notes: updatedSale.notes,
-    createdBy: updatedSale.createdBy.toString(),
-    createdAt: updatedSale.createdAt,
-    updatedAt: updatedSale.updatedAt,
-  };
+  return toSaleDTO(updatedSale);
 }
 
 /**
@@ -578,35 +1025,7 @@ export async function getSaleById(input: GetSaleByIdInput): Promise<SaleDTO> {
     });
   }
 
-  return {
-    id: sale._id.toString(),
-    billNumber: sale.billNumber,
-    customerName: sale.customerName,
-    customerPhone: sale.customerPhone,
-    customerEmail: sale.customerEmail,
-    customerAddress: sale.customerAddress,
-    items: sale.items.map((item) => ({
-      productId: item.productId.toString(),
-      productName: item.productName,
-      sku: item.sku,
-      quantity: item.quantity,
-      unitPrice: item.unitPrice,
-      totalPrice: item.totalPrice,
-    })),
-    subtotal: sale.subtotal,
-    discount: sale.discount,
-    tax: sale.tax,
-    totalAmount: sale.totalAmount,
-    deposit: sale.deposit ?? 0,
-    paymentMethod: sale.paymentMethod,
-    paymentStatus: sale.paymentStatus,
-    paidAmount: sale.paidAmount,
-    status: sale.status,
-    notes: sale.notes,
-    createdBy: sale.createdBy.toString(),
-    createdAt: sale.createdAt,
-    updatedAt: sale.updatedAt,
-  };
+  return toSaleDTO(sale);
 }
 
 /**
@@ -673,35 +1092,7 @@ export async function listSales(
   const sales = await Sale.find(query).sort({ createdAt: -1 }).skip(skip).limit(input.limit).lean();
 
   return {
-    sales: sales.map((sale) => ({
-      id: sale._id.toString(),
-      billNumber: sale.billNumber,
-      customerName: sale.customerName,
-      customerPhone: sale.customerPhone,
-      customerEmail: sale.customerEmail,
-      customerAddress: sale.customerAddress,
-      items: sale.items.map((item) => ({
-        productId: item.productId.toString(),
-        productName: item.productName,
-        sku: item.sku,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        totalPrice: item.totalPrice,
-      })),
-      subtotal: sale.subtotal,
-      discount: sale.discount,
-      tax: sale.tax,
-      totalAmount: sale.totalAmount,
-      paymentMethod: sale.paymentMethod,
-      paymentStatus: sale.paymentStatus,
-      paidAmount: sale.paidAmount,
-      deposit: sale.deposit ?? 0,
-      status: sale.status,
-      notes: sale.notes,
-      createdBy: sale.createdBy.toString(),
-      createdAt: sale.createdAt,
-      updatedAt: sale.updatedAt,
-    })),
+    sales: sales.map((sale) => toSaleDTO(sale)),
     total,
   };
 }
@@ -745,3 +1136,201 @@ export async function deleteSale(userId: string, input: DeleteSaleInput): Promis
     `Sale ${sale.billNumber} - ${sale.customerName}`
   );
 }
+
+// ============================================================================
+// Payments
+// ============================================================================
+
+/**
+ * Record a payment received for a sale
+ *
+ * Appends the payment to the sale's ledger, adds it to paidAmount and
+ * re-derives paymentStatus. A sale can be paid in several payments with
+ * different methods, but never beyond its outstanding amount.
+ *
+ * @param userId - ID of user receiving the payment
+ * @param input - Sale ID, amount, method, optional date, reference, and note
+ * @returns Updated sale DTO
+ * @throws TRPCError if sale not found, cancelled, or the amount exceeds what is owed
+ */
+export async function recordSalePayment(
+  userId: string,
+  input: RecordSalePaymentInput
+): Promise<SaleDTO> {
+  await connectToDatabase();
+
+  const oldSale = await Sale.findById(input.id).lean();
+  if (!oldSale) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการขาย",
+    });
+  }
+
+  if (oldSale.status === "cancelled") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ไม่สามารถรับชำระเงินสำหรับการขายที่ยกเลิกแล้ว",
+    });
+  }
+
+  if (input.amount > getOutstandingAmount(oldSale) + 0.005) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "จำนวนเงินที่ชำระเกินยอดค้างชำระ",
+    });
+  }
+
+  const payment = {
+    amount: input.amount,
+    method: input.method,
+    paidAt: input.paidAt || new Date(),
+    reference: input.reference,
+    note: input.note,
+    receivedBy: new mongoose.Types.ObjectId(userId),
+  };
+  const oldPaidAmount = oldSale.paidAmount || 0;
+  const paidAmount = Math.round((oldPaidAmount + input.amount) * 100) / 100;
+
+  // Only apply if no other payment landed in between, so the status stays in step
+  const sale = await Sale.findOneAndUpdate(
+    { _id: oldSale._id, paidAmount: oldSale.paidAmount },
+    {
+      $push: { payments: payment },
+      $set: { paidAmount, paymentStatus: getPaymentStatus(paidAmount, oldSale.totalAmount) },
+    },
+    { new: true }
+  ).lean();
+
+  if (!sale) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "มีการบันทึกการชำระเงินของบิลนี้พร้อมกัน กรุณาลองใหม่",
+    });
+  }
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    "sale",
+    sale._id.toString(),
+    `Sale ${sale.billNumber} - ${sale.customerName}`,
+    {
+      old: { paidAmount: oldPaidAmount, paymentStatus: oldSale.paymentStatus },
+      new: {
+        paidAmount: sale.paidAmount,
+        paymentStatus: sale.paymentStatus,
+        payment: {
+          amount: payment.amount,
+          method: payment.method,
+          ...(payment.reference && { reference: payment.reference }),
+        },
+      },
+    }
+  );
+
+  return toSaleDTO(sale);
+}
+
+/**
+ * Get sales the customer still owes money on
+ *
+ * @returns Total outstanding and the unpaid or partly paid sales (oldest first)
+ */
+export async function getSaleReceivables(): Promise<SaleReceivablesDTO> {
+  await connectToDatabase();
+
+  const sales = await Sale.find({
+    status: { $ne: "cancelled" },
+    paymentStatus: { $in: ["pending", "partial"] },
+  })
+    .select(
+      "billNumber customerName customerPhone status paymentStatus totalAmount paidAmount payments createdAt"
+    )
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const receivables = sales
+    .map((sale) => ({
+      id: sale._id.toString(),
+      billNumber: sale.billNumber,
+      customerName: sale.customerName,
+      customerPhone: sale.customerPhone,
+      status: sale.status,
+      paymentStatus: sale.paymentStatus,
+      totalAmount: sale.totalAmount,
+      paidAmount: sale.paidAmount || 0,
+      outstandingAmount: getOutstandingAmount(sale),
+      lastPaidAt: (sale.payments || []).reduce<Date | undefined>(
+        (latest, payment) => (!latest || payment.paidAt > latest ? payment.paidAt : latest),
+        undefined
+      ),
+      createdAt: sale.createdAt,
+    }))
+    .filter((sale) => sale.outstandingAmount > 0);
+
+  return {
+    totalOutstanding:
+      Math.round(receivables.reduce((sum, sale) => sum + sale.outstandingAmount, 0) * 100) / 100,
+    sales: receivables,
+  };
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/**
+ * Summarise sales for a period, net of returns
+ *
+ * Only completed sales count, and only returns on sales still completed.
+ * Returns reduce the period they were issued in.
+ *
+ * @param input - Optional start and end of the period (both inclusive)
+ * @returns Sale and return counts and totals
+ */
+export async function getSalesSummary(input: GetSalesSummaryInput): Promise<SalesSummaryDTO> {
+  await connectToDatabase();
+
+  const createdAt: Record<string, Date> = {};
+  if (input.startDate) {
+    createdAt.$gte = input.startDate;
+  }
+  if (input.endDate) {
+    createdAt.$lte = input.endDate;
+  }
+  const periodQuery = Object.keys(createdAt).length > 0 ? { createdAt } : {};
+
+  const [salesTotals] = await Sale.aggregate<{ count: number; amount: number }>([
+    { $match: { status: "completed", ...periodQuery } },
+    { $group: { _id: null, count: { $sum: 1 }, amount: { $sum: "$totalAmount" } } },
+  ]);
+  const [returnTotals] = await SaleReturn.aggregate<{ count: number; amount: number }>([
+    { $match: periodQuery },
+    // Returns on sales cancelled since are not in gross, so leave them out too
+    {
+      $lookup: {
+        from: Sale.collection.name,
+        let: { saleId: "$saleId" },
+        pipeline: [
+          { $match: { $expr: { $eq: ["$_id", "$$saleId"] }, status: "completed" } },
+          { $project: { _id: 1 } },
+        ],
+        as: "completedSale",
+      },
+    },
+    { $match: { completedSale: { $ne: [] } } },
+    { $group: { _id: null, count: { $sum: 1 }, amount: { $sum: "$creditAmount" } } },
+  ]);
+
+  const grossAmount = salesTotals?.amount ?? 0;
+  const returnedAmount = returnTotals?.amount ?? 0;
+
+  return {
+    salesCount: salesTotals?.count ?? 0,
+    grossAmount,
+    returnsCount: returnTotals?.count ?? 0,
+    returnedAmount,
+    netAmount: grossAmount - returnedAmount,
+  };
+}
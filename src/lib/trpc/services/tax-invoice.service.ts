@@ -0,0 +1,498 @@
+/**
+ * Tax Invoice Service
+ *
+ * Handles VAT tax invoices (ใบกำกับภาษี) including:
+ * - Issuing full or abbreviated tax invoices for sales and rental invoices
+ * - Generating tax invoice numbers from their own sequential series
+ * - Snapshotting seller and buyer details as printed
+ */
+
+import { TRPCError } from "@trpc/server";
+import mongoose from "mongoose";
+import { connectToDatabase } from "@/lib/db/connect";
+import { ownerConfig } from "@/lib/config/owner";
+import { roundAmount, type VatMode } from "@/lib/vat";
+import Sale from "@/lib/db/models/sale";
+import Rental from "@/lib/db/models/rental";
+import RentalInvoice from "@/lib/db/models/rental-invoice";
+import TaxInvoice, {
+  type ITaxInvoice,
+  type ITaxInvoiceLine,
+  type ITaxInvoiceParty,
+  type TaxInvoiceKind,
+  type TaxInvoiceSourceType,
+} from "@/lib/db/models/tax-invoice";
+import type {
+  IssueTaxInvoiceInput,
+  GetTaxInvoiceByIdInput,
+  GetTaxInvoiceBySourceInput,
+} from "../schemas";
+import * as activityLogService from "./activity-log.service";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Attempts at taking the next tax invoice number when another invoice takes
+ * it first
+ */
+const MAX_NUMBER_ATTEMPTS = 3;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Tax Invoice Data Transfer Object
+ *
+ * Everything printed on the tax invoice, as it was when it was issued.
+ */
+export interface TaxInvoiceDTO {
+  id: string;
+  taxInvoiceNumber: string;
+  kind: TaxInvoiceKind;
+  sourceType: TaxInvoiceSourceType;
+  sourceId: string;
+  sourceNumber: string;
+  seller: ITaxInvoiceParty;
+  buyer: ITaxInvoiceParty;
+  lines: ITaxInvoiceLine[];
+  vatMode: Exclude<VatMode, "none">;
+  vatRate: number;
+  subtotal: number;
+  discount: number;
+  taxableAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+  issuedAt: Date;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * What a tax invoice is built from: the source's lines, amounts and buyer
+ */
+interface TaxInvoiceSource {
+  sourceNumber: string;
+  entityType: "sale" | "rental";
+  entityId: string;
+  entityName: string;
+  buyer: ITaxInvoiceParty;
+  lines: ITaxInvoiceLine[];
+  vatMode: Exclude<VatMode, "none">;
+  vatRate: number;
+  subtotal: number;
+  discount: number;
+  taxableAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert a tax invoice document to a DTO
+ */
+function toTaxInvoiceDTO(taxInvoice: ITaxInvoice): TaxInvoiceDTO {
+  const toParty = (party: ITaxInvoiceParty): ITaxInvoiceParty => ({
+    name: party.name,
+    address: party.address,
+    taxId: party.taxId,
+    branchCode: party.branchCode,
+  });
+
+  return {
+    id: taxInvoice._id.toString(),
+    taxInvoiceNumber: taxInvoice.taxInvoiceNumber,
+    kind: taxInvoice.kind,
+    sourceType: taxInvoice.sourceType,
+    sourceId: taxInvoice.sourceId.toString(),
+    sourceNumber: taxInvoice.sourceNumber,
+    seller: toParty(taxInvoice.seller),
+    buyer: toParty(taxInvoice.buyer),
+    lines: taxInvoice.lines.map((line) => ({
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      amount: line.amount,
+      vatAmount: line.vatAmount,
+    })),
+    vatMode: taxInvoice.vatMode,
+    vatRate: taxInvoice.vatRate,
+    subtotal: taxInvoice.subtotal,
+    discount: taxInvoice.discount,
+    taxableAmount: taxInvoice.taxableAmount,
+    vatAmount: taxInvoice.vatAmount,
+    totalAmount: taxInvoice.totalAmount,
+    issuedAt: taxInvoice.issuedAt,
+    createdBy: taxInvoice.createdBy.toString(),
+    createdAt: taxInvoice.createdAt,
+  };
+}
+
+/**
+ * Generate the next tax invoice number
+ *
+ * Tax invoices run in one series for the whole business, numbered from 1
+ * each month.
+ *
+ * Format: TAX-YYYYMM-NNNNN
+ * Example: TAX-202512-00001
+ *
+ * @param issuedAt - Date of the tax invoice
+ * @returns Next tax invoice number string
+ */
+async function generateTaxInvoiceNumber(issuedAt: Date): Promise<string> {
+  await connectToDatabase();
+
+  const year = issuedAt.getFullYear();
+  const month = String(issuedAt.getMonth() + 1).padStart(2, "0");
+
+  // Find the last tax invoice number for the month
+  const lastTaxInvoice = await TaxInvoice.findOne({
+    taxInvoiceNumber: new RegExp(`^TAX-${year}${month}-`),
+  })
+    .sort({ taxInvoiceNumber: -1 })
+    .lean();
+
+  let sequence = 1;
+  if (lastTaxInvoice) {
+    const lastSequence = parseInt(lastTaxInvoice.taxInvoiceNumber.slice(-5), 10);
+    sequence = lastSequence + 1;
+  }
+
+  return `TAX-${year}${month}-${String(sequence).padStart(5, "0")}`;
+}
+
+/**
+ * Check whether a write failed on a unique index, and on which field
+ */
+function getDuplicateKeyField(error: unknown): string | undefined {
+  if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+    return Object.keys(error.keyPattern ?? {})[0];
+  }
+  return undefined;
+}
+
+/**
+ * Load a completed VAT sale as a tax invoice source
+ *
+ * Lines are shown before promotions; the promotions go into the discount.
+ *
+ * @throws TRPCError if the sale is not found, not completed, or carries no VAT
+ */
+async function getSaleSource(saleId: string): Promise<TaxInvoiceSource> {
+  const sale = await Sale.findById(saleId).lean();
+  if (!sale) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการขาย",
+    });
+  }
+
+  if (sale.status !== "completed") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ออกใบกำกับภาษีได้เฉพาะการขายที่เสร็จสิ้นแล้ว",
+    });
+  }
+
+  if (!sale.vatMode || sale.vatMode === "none") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "การขายนี้ไม่มีภาษีมูลค่าเพิ่ม",
+    });
+  }
+
+  return {
+    sourceNumber: sale.billNumber,
+    entityType: "sale",
+    entityId: sale._id.toString(),
+    entityName: `Sale ${sale.billNumber} - ${sale.customerName}`,
+    buyer: {
+      name: sale.customerName,
+      address: sale.customerAddress,
+      taxId: sale.customerTaxId,
+      branchCode: sale.customerBranchCode,
+    },
+    lines: sale.items.map((item) => ({
+      description: `${item.productName} (${item.sku})`,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      amount: item.totalPrice,
+      vatAmount: item.vatAmount ?? 0,
+    })),
+    vatMode: sale.vatMode,
+    vatRate: sale.vatRate,
+    subtotal: sale.subtotal,
+    // Promotions and the bill discount are shown as one discount
+    discount: roundAmount(sale.discount + (sale.promotionDiscount ?? 0)),
+    taxableAmount: sale.taxableAmount,
+    vatAmount: sale.tax,
+    totalAmount: sale.totalAmount,
+  };
+}
+
+/**
+ * Load a paid VAT rental invoice as a tax invoice source
+ *
+ * Rent is a service, so the tax invoice is issued once the invoice is paid.
+ * The rental customer's ID number is used as their tax ID when it is one.
+ *
+ * @throws TRPCError if the invoice or rental is not found, the invoice is not
+ * paid, or it carries no VAT
+ */
+async function getRentalInvoiceSource(invoiceId: string): Promise<TaxInvoiceSource> {
+  const invoice = await RentalInvoice.findById(invoiceId).lean();
+  if (!invoice) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบใบแจ้งหนี้",
+    });
+  }
+
+  if (invoice.status !== "paid") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ออกใบกำกับภาษีได้เฉพาะใบแจ้งหนี้ที่ชำระแล้ว",
+    });
+  }
+
+  if (!invoice.vatMode || invoice.vatMode === "none") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ใบแจ้งหนี้นี้ไม่มีภาษีมูลค่าเพิ่ม",
+    });
+  }
+
+  const rental = await Rental.findById(invoice.rentalId).lean();
+  if (!rental) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบการเช่า",
+    });
+  }
+
+  const period = `${invoice.periodStart.toLocaleDateString("th-TH")} - ${new Date(
+    invoice.periodEnd.getTime() - 1
+  ).toLocaleDateString("th-TH")}`;
+  const subtotal = invoice.lines.reduce((sum, line) => sum + line.amount, 0);
+
+  return {
+    sourceNumber: invoice.invoiceNumber,
+    entityType: "rental",
+    entityId: rental._id.toString(),
+    entityName: `Rental ${rental.rentalNumber} - ${rental.customerName}`,
+    buyer: {
+      name: rental.customerName,
+      address: rental.customerAddress,
+      taxId: /^\d{13}$/.test(rental.customerIdNumber ?? "") ? rental.customerIdNumber : undefined,
+    },
+    lines: invoice.lines.map((line) => ({
+      description: `ค่าเช่า ${line.productName} (${line.days} วัน, ${period})`,
+      quantity: line.quantity,
+      unitPrice: line.quantity > 0 ? Math.round((line.amount / line.quantity) * 100) / 100 : 0,
+      amount: line.amount,
+      vatAmount: line.vatAmount ?? 0,
+    })),
+    vatMode: invoice.vatMode,
+    vatRate: invoice.vatRate,
+    subtotal: Math.round(subtotal * 100) / 100,
+    discount: 0,
+    taxableAmount: invoice.taxableAmount,
+    vatAmount: invoice.vatAmount,
+    totalAmount: invoice.amount,
+  };
+}
+
+// ============================================================================
+// Issue Operations
+// ============================================================================
+
+/**
+ * Issue a tax invoice for a sale or a rental invoice
+ *
+ * Sales must be completed and rental invoices paid, and both must carry VAT.
+ * Buyer details default to the sale's or rental's customer; a full tax
+ * invoice needs the buyer's name and address. A branch code defaults to head
+ * office when a buyer tax ID is given. Each sale or rental invoice gets one
+ * tax invoice.
+ *
+ * Amounts are taken as stored on the source, so the tax invoice always
+ * matches the bill.
+ *
+ * @param userId - ID of user issuing the tax invoice
+ * @param input - Source, kind, and optional buyer details
+ * @returns Issued tax invoice DTO
+ * @throws TRPCError if the seller has no tax ID, the source cannot be taxed,
+ * buyer details are missing, or a tax invoice was already issued
+ */
+export async function issueTaxInvoice(
+  userId: string,
+  input: IssueTaxInvoiceInput
+): Promise<TaxInvoiceDTO> {
+  await connectToDatabase();
+
+  if (!/^\d{13}$/.test(ownerConfig.taxId)) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "ยังไม่ได้ตั้งค่าเลขประจำตัวผู้เสียภาษีของผู้ขาย",
+    });
+  }
+
+  if (!mongoose.Types.ObjectId.isValid(input.sourceId)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ID รายการไม่ถูกต้อง",
+    });
+  }
+
+  const source =
+    input.sourceType === "sale"
+      ? await getSaleSource(input.sourceId)
+      : await getRentalInvoiceSource(input.sourceId);
+
+  const existing = await TaxInvoice.findOne({
+    sourceType: input.sourceType,
+    sourceId: input.sourceId,
+  }).lean();
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `ออกใบกำกับภาษีสำหรับรายการนี้แล้ว (${existing.taxInvoiceNumber})`,
+    });
+  }
+
+  const taxId = input.buyer?.taxId || source.buyer.taxId || undefined;
+  const buyer: ITaxInvoiceParty = {
+    name: input.buyer?.name?.trim() || source.buyer.name,
+    address: input.buyer?.address?.trim() || source.buyer.address || undefined,
+    taxId,
+    branchCode: taxId ? input.buyer?.branchCode || source.buyer.branchCode || "00000" : undefined,
+  };
+
+  if (input.kind === "full" && (!buyer.name || !buyer.address)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "ใบกำกับภาษีเต็มรูปต้องระบุชื่อและที่อยู่ของผู้ซื้อ",
+    });
+  }
+
+  const issuedAt = new Date();
+  let taxInvoice: ITaxInvoice | undefined;
+  for (let attempt = 1; !taxInvoice; attempt++) {
+    try {
+      const created = await TaxInvoice.create({
+        taxInvoiceNumber: await generateTaxInvoiceNumber(issuedAt),
+        kind: input.kind,
+        sourceType: input.sourceType,
+        sourceId: new mongoose.Types.ObjectId(input.sourceId),
+        sourceNumber: source.sourceNumber,
+        seller: {
+          name: ownerConfig.name,
+          address: ownerConfig.address,
+          taxId: ownerConfig.taxId,
+          branchCode: ownerConfig.branchCode,
+        },
+        buyer,
+        lines: source.lines,
+        vatMode: source.vatMode,
+        vatRate: source.vatRate,
+        subtotal: source.subtotal,
+        discount: source.discount,
+        taxableAmount: source.taxableAmount,
+        vatAmount: source.vatAmount,
+        totalAmount: source.totalAmount,
+        issuedAt,
+        createdBy: new mongoose.Types.ObjectId(userId),
+      });
+      taxInvoice = created.toObject() as ITaxInvoice;
+    } catch (error) {
+      const field = getDuplicateKeyField(error);
+      // Another tax invoice took the number; take the next one
+      if (field === "taxInvoiceNumber" && attempt < MAX_NUMBER_ATTEMPTS) {
+        continue;
+      }
+      if (field === "sourceType") {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "ออกใบกำกับภาษีสำหรับรายการนี้แล้ว",
+        });
+      }
+      throw error;
+    }
+  }
+
+  await activityLogService.createActivityLog(
+    userId,
+    "update",
+    source.entityType,
+    source.entityId,
+    `${source.entityName} (ใบกำกับภาษี ${taxInvoice.taxInvoiceNumber})`,
+    {
+      new: {
+        taxInvoiceNumber: taxInvoice.taxInvoiceNumber,
+        kind: taxInvoice.kind,
+        sourceNumber: taxInvoice.sourceNumber,
+        vatAmount: taxInvoice.vatAmount,
+        totalAmount: taxInvoice.totalAmount,
+      },
+    }
+  );
+
+  return toTaxInvoiceDTO(taxInvoice);
+}
+
+// ============================================================================
+// Query Operations
+// ============================================================================
+
+/**
+ * Get a single tax invoice by ID
+ *
+ * @param input - Tax invoice ID
+ * @returns Tax invoice DTO
+ * @throws TRPCError if tax invoice not found
+ */
+export async function getTaxInvoiceById(input: GetTaxInvoiceByIdInput): Promise<TaxInvoiceDTO> {
+  await connectToDatabase();
+
+  const taxInvoice = mongoose.Types.ObjectId.isValid(input.id)
+    ? await TaxInvoice.findById(input.id).lean()
+    : null;
+
+  if (!taxInvoice) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "ไม่พบใบกำกับภาษี",
+    });
+  }
+
+  return toTaxInvoiceDTO(taxInvoice);
+}
+
+/**
+ * Get the tax invoice issued for a sale or rental invoice, if any
+ *
+ * @param input - Source type and ID
+ * @returns Tax invoice DTO, or null when none was issued
+ */
+export async function getTaxInvoiceBySource(
+  input: GetTaxInvoiceBySourceInput
+): Promise<TaxInvoiceDTO | null> {
+  await connectToDatabase();
+
+  if (!mongoose.Types.ObjectId.isValid(input.sourceId)) {
+    return null;
+  }
+
+  const taxInvoice = await TaxInvoice.findOne({
+    sourceType: input.sourceType,
+    sourceId: input.sourceId,
+  }).lean();
+
+  return taxInvoice ? toTaxInvoiceDTO(taxInvoice) : null;
+}
@@ -37,6 +37,15 @@ export interface UserDTO {
   updatedAt: Date;
 }
 
+/**
+ * Staff member that work can be assigned to
+ */
+export interface StaffDTO {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
 // ============================================================================
 // CRUD Operations
 // ============================================================================
@@ -278,3 +287,21 @@ export async function getUserCount(): Promise<number> {
   return User.countDocuments();
 }
 
+/**
+ * Get staff that tasks can be assigned to
+ * 
+ * Returns every user (name and role only) sorted by name.
+ * 
+ * @returns Array of staff DTOs
+ */
+export async function listStaff(): Promise<StaffDTO[]> {
+  await connectToDatabase();
+
+  const users = await User.find().select("name role").sort({ name: 1 });
+
+  return users.map((user) => ({
+    id: user._id.toString(),
+    name: user.name,
+    role: user.role,
+  }));
+}
@@ -2,6 +2,7 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 import { auth } from "@/lib/auth";
+import { createRateLimiter, getClientIp, type RateLimitOptions } from "@/lib/rate-limit";
 
 /**
  * Context creation for tRPC
@@ -45,6 +46,28 @@ export const createTRPCRouter = t.router;
  */
 export const publicProcedure = t.procedure;
 
+/**
+ * Rate-limited public procedure - no authentication, limited per client IP
+ *
+ * Each call creates its own limiter, shared by every endpoint built from the
+ * returned procedure.
+ */
+export const createRateLimitedProcedure = (options: RateLimitOptions) => {
+  const limiter = createRateLimiter(options);
+
+  return t.procedure.use(({ ctx, next }) => {
+    const { allowed, retryAfterSeconds } = limiter.check(getClientIp(ctx.headers));
+    if (!allowed) {
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: `Too many requests, try again in ${retryAfterSeconds} seconds`,
+      });
+    }
+
+    return next();
+  });
+};
+
 /**
  * Protected procedure - requires authentication
  */
@@ -0,0 +1,113 @@
+/**
+ * VAT helpers
+ *
+ * Thai VAT calculation shared by the sale form, the sale and rental invoice
+ * services and tax invoices, so a total shown on screen is the total stored.
+ * VAT is worked out on the total after discount; each line gets its share
+ * of the discount and of the VAT, with the last line taking the rounding so
+ * the lines always add up to the total.
+ */
+
+/**
+ * How prices relate to VAT
+ * - none: Seller is not VAT registered, no VAT is charged
+ * - inclusive: Prices already include VAT, VAT is extracted from them
+ * - exclusive: Prices exclude VAT, VAT is added on top
+ */
+export type VatMode = "none" | "inclusive" | "exclusive";
+
+export interface VatLineBreakdown {
+  amount: number;
+  discount: number;
+  taxableAmount: number;
+  vatAmount: number;
+}
+
+export interface VatBreakdown {
+  lines: VatLineBreakdown[];
+  subtotal: number;
+  discount: number;
+  taxableAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+}
+
+/**
+ * Round an amount to satang (2 decimal places)
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Split a total across lines in proportion to their amounts
+ *
+ * Every share is rounded to satang; the last line with an amount takes what
+ * rounding leaves over.
+ */
+function allocate(total: number, amounts: number[]): number[] {
+  const sum = amounts.reduce((acc, amount) => acc + amount, 0);
+  if (sum <= 0) {
+    return amounts.map(() => 0);
+  }
+
+  const shares = amounts.map((amount) => roundAmount((total * amount) / sum));
+  const lastIndex = amounts.map((amount) => amount > 0).lastIndexOf(true);
+  const allocated = shares.reduce((acc, share) => acc + share, 0);
+  shares[lastIndex] = roundAmount(shares[lastIndex] + total - allocated);
+  return shares;
+}
+
+/**
+ * Work out VAT for a set of line amounts and a bill discount
+ *
+ * taxableAmount is the value before VAT (the "มูลค่าสินค้าหรือบริการ" on a
+ * tax invoice); totalAmount is what the customer pays.
+ *
+ * @param lineAmounts - Line totals as priced (quantity × unit price)
+ * @param discount - Discount on the whole bill
+ * @param mode - Whether prices include VAT, exclude it, or carry none
+ * @param rate - VAT rate in percent, e.g. 7
+ * @returns Totals and the per-line discount, taxable amount and VAT
+ */
+export function calculateVat(
+  lineAmounts: number[],
+  discount: number,
+  mode: VatMode,
+  rate: number
+): VatBreakdown {
+  const subtotal = roundAmount(lineAmounts.reduce((sum, amount) => sum + amount, 0));
+  const appliedDiscount = roundAmount(Math.min(Math.max(discount, 0), subtotal));
+  const afterDiscount = roundAmount(subtotal - appliedDiscount);
+
+  let taxableAmount = afterDiscount;
+  let vatAmount = 0;
+  if (mode === "exclusive") {
+    vatAmount = roundAmount((afterDiscount * rate) / 100);
+  } else if (mode === "inclusive") {
+    taxableAmount = roundAmount((afterDiscount * 100) / (100 + rate));
+    vatAmount = roundAmount(afterDiscount - taxableAmount);
+  }
+
+  const lineDiscounts = allocate(appliedDiscount, lineAmounts);
+  const lineVat = allocate(vatAmount, lineAmounts);
+  const lines = lineAmounts.map((amount, index) => {
+    const lineAfterDiscount = roundAmount(amount - lineDiscounts[index]);
+    return {
+      amount,
+      discount: lineDiscounts[index],
+      taxableAmount:
+        mode === "inclusive" ? roundAmount(lineAfterDiscount - lineVat[index]) : lineAfterDiscount,
+      vatAmount: lineVat[index],
+    };
+  });
+
+  return {
+    lines,
+    subtotal,
+    discount: appliedDiscount,
+    taxableAmount,
+    vatAmount,
+    totalAmount: roundAmount(taxableAmount + vatAmount),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * In-memory MongoDB replica set for service tests
+ *
+ * Services run their multi-document writes in transactions, which need a
+ * replica set. The database module reads MONGODB_URI when it is loaded, so
+ * tests start the replica set first and import services afterwards.
+ */
+
+import mongoose from "mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+
+/**
+ * Start a single-node replica set and point MONGODB_URI at it
+ *
+ * Test commands are enabled so failures can be injected with failCommand.
+ *
+ * @returns The running replica set, to stop after the tests
+ */
+export async function startReplicaSet(): Promise<MongoMemoryReplSet> {
+  const replSet = await MongoMemoryReplSet.create({
+    replSet: {
+      count: 1,
+      storageEngine: "wiredTiger",
+      args: ["--setParameter", "enableTestCommands=1"],
+    },
+  });
+  process.env.MONGODB_URI = replSet.getUri("test");
+  return replSet;
+}
+
+/**
+ * Disconnect and stop the replica set (nothing to stop if it failed to start)
+ */
+export async function stopReplicaSet(replSet: MongoMemoryReplSet | undefined): Promise<void> {
+  await mongoose.disconnect();
+  await replSet?.stop();
+}
+
+/**
+ * Create every model's collection and indexes, and drop every document
+ *
+ * Creating collections up front keeps index builds from conflicting with
+ * the first transaction that writes to them.
+ */
+export async function resetDatabase(): Promise<void> {
+  for (const model of Object.values(mongoose.models)) {
+    await model.init();
+    await model.deleteMany({});
+  }
+}
+
+/**
+ * Make the next server command with the given name fail
+ *
+ * The error carries no transient label, so withTransaction aborts instead of
+ * retrying. Must be called after the services have connected.
+ *
+ * @param commandName - Command to fail (e.g. "update", "findAndModify")
+ */
+export async function failNextCommand(commandName: string): Promise<void> {
+  await mongoose.connection.db!.admin().command({
+    configureFailPoint: "failCommand",
+    mode: { times: 1 },
+    data: { failCommands: [commandName], errorCode: 2, errmsg: "injected failure" },
+  });
+}
+
+/**
+ * Turn off the failCommand fail point, if it was not used up
+ */
+export async function clearFailPoints(): Promise<void> {
+  await mongoose.connection.db!.admin().command({
+    configureFailPoint: "failCommand",
+    mode: "off",
+  });
+}
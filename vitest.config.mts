@@ -0,0 +1,18 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "src"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Each test file starts its own in-memory replica set
+    fileParallelism: false,
+    hookTimeout: 120_000,
+    testTimeout: 30_000,
+  },
+});